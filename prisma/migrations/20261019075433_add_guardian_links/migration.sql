@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "GuardianLink" (
+    "id" TEXT NOT NULL,
+    "guardianId" TEXT NOT NULL,
+    "studentEmail" TEXT NOT NULL,
+    "studentId" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'Pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "respondedAt" TIMESTAMP(3),
+
+    CONSTRAINT "GuardianLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GuardianLink_studentEmail_status_idx" ON "GuardianLink"("studentEmail", "status");
+
+-- CreateIndex
+CREATE INDEX "GuardianLink_studentId_status_idx" ON "GuardianLink"("studentId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GuardianLink_guardianId_studentEmail_key" ON "GuardianLink"("guardianId", "studentEmail");
+
+-- AddForeignKey
+ALTER TABLE "GuardianLink" ADD CONSTRAINT "GuardianLink_guardianId_fkey" FOREIGN KEY ("guardianId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GuardianLink" ADD CONSTRAINT "GuardianLink_studentId_fkey" FOREIGN KEY ("studentId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
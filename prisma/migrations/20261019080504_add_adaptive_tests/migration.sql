@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Test" ADD COLUMN     "questionLimit" INTEGER;
+
+-- CreateTable
+CREATE TABLE "TopicAbilityEstimate" (
+    "id" TEXT NOT NULL,
+    "evaluationId" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "topicName" TEXT NOT NULL,
+    "ability" DOUBLE PRECISION NOT NULL,
+    "standardError" DOUBLE PRECISION NOT NULL,
+    "itemsAnswered" INTEGER NOT NULL,
+
+    CONSTRAINT "TopicAbilityEstimate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TopicAbilityEstimate_evaluationId_idx" ON "TopicAbilityEstimate"("evaluationId");
+
+-- AddForeignKey
+ALTER TABLE "TopicAbilityEstimate" ADD CONSTRAINT "TopicAbilityEstimate_evaluationId_fkey" FOREIGN KEY ("evaluationId") REFERENCES "Evaluation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "previousVersionId" TEXT,
+ADD COLUMN     "supersededAt" TIMESTAMP(3),
+ADD COLUMN     "version" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Question_previousVersionId_key" ON "Question"("previousVersionId");
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_previousVersionId_fkey" FOREIGN KEY ("previousVersionId") REFERENCES "Question"("id") ON DELETE SET NULL ON UPDATE CASCADE;
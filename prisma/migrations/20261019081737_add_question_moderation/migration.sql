@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "alignmentReasoning" TEXT,
+ADD COLUMN     "alignmentScore" DOUBLE PRECISION,
+ADD COLUMN     "reviewNote" TEXT,
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'Approved';
+
+-- CreateIndex
+CREATE INDEX "Question_status_createdAt_idx" ON "Question"("status", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
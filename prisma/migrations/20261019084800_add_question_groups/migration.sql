@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "groupId" TEXT,
+ADD COLUMN     "groupOrder" INTEGER;
+
+-- CreateTable
+CREATE TABLE "QuestionGroup" (
+    "id" TEXT NOT NULL,
+    "topicId" TEXT NOT NULL,
+    "stimulusText" TEXT NOT NULL,
+    "imageUrl" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "QuestionGroup_topicId_idx" ON "QuestionGroup"("topicId");
+
+-- CreateIndex
+CREATE INDEX "Question_groupId_idx" ON "Question"("groupId");
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "QuestionGroup"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "QuestionGroup" ADD CONSTRAINT "QuestionGroup_topicId_fkey" FOREIGN KEY ("topicId") REFERENCES "SyllabusTopic"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
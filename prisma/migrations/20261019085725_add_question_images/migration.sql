@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "imageId" TEXT,
+ADD COLUMN     "optionImageIds" TEXT;
+
+-- CreateTable
+CREATE TABLE "QuestionImage" (
+    "id" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "byteSize" INTEGER NOT NULL,
+    "data" BYTEA,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "QuestionImage_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Question" ADD CONSTRAINT "Question_imageId_fkey" FOREIGN KEY ("imageId") REFERENCES "QuestionImage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
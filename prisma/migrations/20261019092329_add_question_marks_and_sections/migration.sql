@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TestQuestion" ADD COLUMN     "marks" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "section" TEXT;
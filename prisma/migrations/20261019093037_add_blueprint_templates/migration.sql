@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "BlueprintTemplate" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "curriculum" TEXT NOT NULL,
+    "grade" INTEGER,
+    "subject" TEXT NOT NULL,
+    "sections" TEXT NOT NULL,
+    "topicWeights" TEXT NOT NULL DEFAULT '{}',
+    "durationMinutes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlueprintTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlueprintTemplate_name_key" ON "BlueprintTemplate"("name");
+
+-- CreateIndex
+CREATE INDEX "BlueprintTemplate_curriculum_grade_subject_idx" ON "BlueprintTemplate"("curriculum", "grade", "subject");
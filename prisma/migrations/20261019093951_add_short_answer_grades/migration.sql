@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "Question" ADD COLUMN     "rubric" TEXT;
+
+-- CreateTable
+CREATE TABLE "ShortAnswerGrade" (
+    "id" TEXT NOT NULL,
+    "testId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "userAnswer" TEXT NOT NULL,
+    "points" INTEGER NOT NULL,
+    "pointsEarned" DOUBLE PRECISION NOT NULL,
+    "matchedPoints" TEXT NOT NULL DEFAULT '[]',
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "method" TEXT NOT NULL,
+    "feedback" TEXT,
+    "reviewStatus" TEXT NOT NULL DEFAULT 'Automatic',
+    "reviewedById" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ShortAnswerGrade_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ShortAnswerGrade_reviewStatus_createdAt_idx" ON "ShortAnswerGrade"("reviewStatus", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ShortAnswerGrade_testId_questionId_key" ON "ShortAnswerGrade"("testId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "ShortAnswerGrade" ADD CONSTRAINT "ShortAnswerGrade_testId_fkey" FOREIGN KEY ("testId") REFERENCES "Test"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ShortAnswerGrade" ADD CONSTRAINT "ShortAnswerGrade_questionId_fkey" FOREIGN KEY ("questionId") REFERENCES "Question"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ResponseGrade" (
+    "id" TEXT NOT NULL,
+    "evaluationId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "userAnswer" TEXT,
+    "isCorrect" BOOLEAN NOT NULL,
+    "points" INTEGER NOT NULL,
+    "pointsEarned" DOUBLE PRECISION NOT NULL,
+    "grader" TEXT NOT NULL,
+    "feedback" TEXT,
+
+    CONSTRAINT "ResponseGrade_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ResponseGrade_evaluationId_order_idx" ON "ResponseGrade"("evaluationId", "order");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ResponseGrade_evaluationId_questionId_key" ON "ResponseGrade"("evaluationId", "questionId");
+
+-- AddForeignKey
+ALTER TABLE "ResponseGrade" ADD CONSTRAINT "ResponseGrade_evaluationId_fkey" FOREIGN KEY ("evaluationId") REFERENCES "Evaluation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "GradeOverride" (
+    "id" TEXT NOT NULL,
+    "testId" TEXT NOT NULL,
+    "questionId" TEXT NOT NULL,
+    "points" INTEGER NOT NULL,
+    "previousPoints" DOUBLE PRECISION NOT NULL,
+    "previousGrader" TEXT NOT NULL,
+    "pointsEarned" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "overriddenById" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GradeOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GradeOverride_testId_createdAt_idx" ON "GradeOverride"("testId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GradeOverride" ADD CONSTRAINT "GradeOverride_testId_fkey" FOREIGN KEY ("testId") REFERENCES "Test"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GradeOverride" ADD CONSTRAINT "GradeOverride_overriddenById_fkey" FOREIGN KEY ("overriddenById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Test" ADD COLUMN     "poolQuestionIds" TEXT;
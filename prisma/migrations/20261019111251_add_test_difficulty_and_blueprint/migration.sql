@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Test" ADD COLUMN     "blueprint" TEXT,
+ADD COLUMN     "difficulty" TEXT;
@@ -0,0 +1,114 @@
+// Seed script for board paper blueprint templates
+// Run with: npx ts-node prisma/seed-blueprint-templates.ts
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+type TemplateSeed = {
+  name: string;
+  curriculum: 'CBSE' | 'Cambridge';
+  grade: number | null;
+  subject: string;
+  durationMinutes: number;
+  sections: Array<{ section: string; questionType: string; questionCount: number; marks: number }>;
+  topicWeights: Record<string, number>; // marks for each topic on the real paper
+};
+
+const templates: TemplateSeed[] = [
+  {
+    // 80 marks in 3 hours; Section E is three case-based questions
+    name: 'CBSE Class 10 Maths board pattern',
+    curriculum: 'CBSE',
+    grade: 10,
+    subject: 'Mathematics',
+    durationMinutes: 180,
+    sections: [
+      { section: 'A', questionType: 'MultipleChoice', questionCount: 20, marks: 1 },
+      { section: 'B', questionType: 'ShortAnswer', questionCount: 5, marks: 2 },
+      { section: 'C', questionType: 'ShortAnswer', questionCount: 6, marks: 3 },
+      { section: 'D', questionType: 'ShortAnswer', questionCount: 4, marks: 5 },
+      { section: 'E', questionType: 'ShortAnswer', questionCount: 3, marks: 4 },
+    ],
+    topicWeights: {
+      'Real Numbers': 6,
+      'Polynomials': 5,
+      'Pair of Linear Equations in Two Variables': 5,
+      'Quadratic Equations': 5,
+      'Arithmetic Progressions': 5,
+      'Coordinate Geometry': 6,
+      'Triangles': 8,
+      'Circles': 7,
+      'Introduction to Trigonometry': 8,
+      'Some Applications of Trigonometry': 4,
+      'Areas Related to Circles': 4,
+      'Surface Areas and Volumes': 6,
+      'Statistics': 6,
+      'Probability': 5,
+    },
+  },
+  {
+    // 50 marks in 45 minutes; sat at the end of lower secondary, so open to any grade's science topics
+    name: 'Cambridge Checkpoint Science Paper 1',
+    curriculum: 'Cambridge',
+    grade: null,
+    subject: 'Science',
+    durationMinutes: 45,
+    sections: [
+      { section: 'A', questionType: 'MultipleChoice', questionCount: 10, marks: 1 },
+      { section: 'B', questionType: 'Numerical', questionCount: 5, marks: 2 },
+      { section: 'C', questionType: 'ShortAnswer', questionCount: 10, marks: 3 },
+    ],
+    // Topics are named "Biology - Cells" and so on; each science carries a third of the marks
+    topicWeights: {
+      'Biology': 1,
+      'Chemistry': 1,
+      'Physics': 1,
+    },
+  },
+];
+
+async function seedBlueprintTemplates() {
+  console.log('Seeding blueprint templates...');
+
+  let totalCreated = 0;
+
+  for (const template of templates) {
+    try {
+      // Check if template already exists
+      const existing = await prisma.blueprintTemplate.findFirst({
+        where: { name: template.name },
+      });
+
+      if (!existing) {
+        await prisma.blueprintTemplate.create({
+          data: {
+            name: template.name,
+            curriculum: template.curriculum,
+            grade: template.grade,
+            subject: template.subject,
+            durationMinutes: template.durationMinutes,
+            sections: JSON.stringify(template.sections),
+            topicWeights: JSON.stringify(template.topicWeights),
+          },
+        });
+        totalCreated++;
+        console.log(`  Created "${template.name}"`);
+      }
+    } catch (error) {
+      console.error(`  Error creating template "${template.name}":`, error);
+    }
+  }
+
+  console.log(`\n✅ Seeding complete! Created ${totalCreated} new blueprint templates.`);
+}
+
+// Run the seed function
+seedBlueprintTemplates()
+  .catch((error) => {
+    console.error('Seeding failed:', error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,82 @@
+// Script to import questions from CSV, Moodle XML, GIFT or QTI 2.1 files into the question bank
+//
+// Usage:
+//   npm run import:questions -- <file> [--format csv|moodle|gift|qti] [--dry-run]
+//     [--curriculum CBSE] [--grade 8] [--subject Mathematics] [--topic "Fractions"]
+//
+// The curriculum/grade/subject/topic options are used for questions whose file does not say
+
+import { PrismaClient } from '@prisma/client';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { QuestionBankService } from '../src/services/questionBank';
+import { QuestionImportService } from '../src/services/questionImport';
+import { detectImportFormat } from '../src/services/questionImportParsers';
+import { ImportFormat } from '../src/types';
+
+const prisma = new PrismaClient();
+const FORMATS: ImportFormat[] = ['csv', 'moodle', 'gift', 'qti'];
+
+function parseArgs(argv: string[]) {
+  const flags: Record<string, string> = {};
+  const files: string[] = [];
+  let dryRun = false;
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      dryRun = true;
+    } else if (arg.startsWith('--')) {
+      flags[arg.slice(2)] = argv[++i] ?? '';
+    } else {
+      files.push(arg);
+    }
+  }
+
+  return { file: files[0], flags, dryRun };
+}
+
+async function main() {
+  const { file, flags, dryRun } = parseArgs(process.argv.slice(2));
+  if (!file) {
+    console.error('Usage: npm run import:questions -- <file> [--format csv|moodle|gift|qti] [--dry-run]');
+    process.exit(1);
+  }
+
+  const content = await readFile(file, 'utf-8');
+  const format = (flags.format as ImportFormat | undefined) ?? detectImportFormat(path.basename(file), content);
+  if (!format || !FORMATS.includes(format)) {
+    console.error(`Could not tell the format of ${file}; pass --format ${FORMATS.join('|')}`);
+    process.exit(1);
+  }
+
+  const service = new QuestionImportService(prisma, new QuestionBankService(prisma));
+  const report = await service.importQuestions(content, {
+    format,
+    dryRun,
+    defaults: {
+      curriculum: flags.curriculum,
+      grade: flags.grade ? parseInt(flags.grade, 10) : undefined,
+      subject: flags.subject,
+      topicName: flags.topic,
+    },
+  });
+
+  console.log(`${dryRun ? 'Dry run of' : 'Imported'} ${file} (${format})`);
+  console.log(`  ${report.parsed} questions read, ${report.imported} ${dryRun ? 'can be imported' : 'imported'}`);
+
+  if (report.issues.length > 0) {
+    console.log(`\n${report.issues.length} questions were not imported:`);
+    for (const issue of report.issues) {
+      console.log(`  line ${issue.line}: ${issue.message}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error('❌ Import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -16,6 +16,15 @@ import GenerateTestPage from './pages/GenerateTestPage';
 import TakeTestPage from './pages/TakeTestPage';
 import TestResultsPage from './pages/TestResultsPage';
 import TestHistoryPage from './pages/TestHistoryPage';
+import TeacherClassesPage from './pages/TeacherClassesPage';
+import ClassDetailPage from './pages/ClassDetailPage';
+import MyClassesPage from './pages/MyClassesPage';
+import ClassAnalyticsPage from './pages/ClassAnalyticsPage';
+import GuardianDashboardPage from './pages/GuardianDashboardPage';
+import QuestionBankPage from './pages/QuestionBankPage';
+import ModerationPage from './pages/ModerationPage';
+import IssueTriagePage from './pages/IssueTriagePage';
+import GradingReviewPage from './pages/GradingReviewPage';
 import NotFoundPage from './pages/NotFoundPage';
 import './App.css';
 
@@ -53,6 +62,33 @@ function App() {
           <Route path="/history" element={
             <ProtectedRoute><TestHistoryPage /></ProtectedRoute>
           } />
+          <Route path="/classes" element={
+            <ProtectedRoute><MyClassesPage /></ProtectedRoute>
+          } />
+          <Route path="/teacher/classes" element={
+            <ProtectedRoute><TeacherClassesPage /></ProtectedRoute>
+          } />
+          <Route path="/teacher/classes/:classId" element={
+            <ProtectedRoute><ClassDetailPage /></ProtectedRoute>
+          } />
+          <Route path="/teacher/classes/:classId/analytics" element={
+            <ProtectedRoute><ClassAnalyticsPage /></ProtectedRoute>
+          } />
+          <Route path="/guardian" element={
+            <ProtectedRoute><GuardianDashboardPage /></ProtectedRoute>
+          } />
+          <Route path="/admin/questions" element={
+            <ProtectedRoute><QuestionBankPage /></ProtectedRoute>
+          } />
+          <Route path="/admin/issues" element={
+            <ProtectedRoute><IssueTriagePage /></ProtectedRoute>
+          } />
+          <Route path="/grading" element={
+            <ProtectedRoute><GradingReviewPage /></ProtectedRoute>
+          } />
+          <Route path="/moderation" element={
+            <ProtectedRoute><ModerationPage /></ProtectedRoute>
+          } />
 
           {/* 404 catch-all route */}
           <Route path="*" element={<NotFoundPage />} />
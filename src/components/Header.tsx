@@ -4,7 +4,7 @@ import { useAuth } from '../context/AuthContext';
 import './Header.css';
 
 const Header: React.FC = () => {
-  const { isAuthenticated, logout } = useAuth();
+  const { isAuthenticated, user, logout } = useAuth();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
@@ -103,6 +103,42 @@ const Header: React.FC = () => {
               <Link to="/dashboard" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
                 Dashboard
               </Link>
+              {user?.role === 'Teacher' ? (
+                <>
+                  <Link to="/teacher/classes" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    My Classes
+                  </Link>
+                  <Link to="/moderation" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    Moderation
+                  </Link>
+                  <Link to="/grading" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    Grading
+                  </Link>
+                </>
+              ) : user?.role === 'Admin' ? (
+                <>
+                  <Link to="/admin/questions" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    Question Bank
+                  </Link>
+                  <Link to="/admin/issues" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    Reported Issues
+                  </Link>
+                  <Link to="/moderation" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    Moderation
+                  </Link>
+                  <Link to="/grading" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                    Grading
+                  </Link>
+                </>
+              ) : user?.role === 'Guardian' ? (
+                <Link to="/guardian" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                  My Students
+                </Link>
+              ) : (
+                <Link to="/classes" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
+                  Classes
+                </Link>
+              )}
               <Link to="/profile" className="nav-link" onClick={() => setIsMobileMenuOpen(false)}>
                 Profile
               </Link>
@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import { latexToText, splitMath } from '../lib/mathNotation';
+import { mathToSvg } from '../lib/mathRenderer';
+import './MathText.css';
+
+interface MathTextProps {
+  text: string;
+}
+
+/**
+ * Question text, options or solution steps with their LaTeX typeset
+ * A formula that cannot be typeset is shown as plain text
+ */
+const MathText: React.FC<MathTextProps> = ({ text }) => {
+  const segments = useMemo(
+    () => splitMath(text).map(segment =>
+      segment.kind === 'text' ? segment : { ...segment, svg: mathToSvg(segment.latex, segment.display) }
+    ),
+    [text]
+  );
+
+  return (
+    <>
+      {segments.map((segment, index) => {
+        if (segment.kind === 'text') {
+          return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+        }
+        if (!segment.svg) {
+          return <React.Fragment key={index}>{latexToText(segment.latex)}</React.Fragment>;
+        }
+        // The markup is MathJax's own SVG output, which escapes the text of the formula
+        return (
+          <span
+            key={index}
+            className={segment.display ? 'math-display' : 'math-inline'}
+            role="img"
+            aria-label={latexToText(segment.latex)}
+            dangerouslySetInnerHTML={{ __html: segment.svg }}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+export default MathText;
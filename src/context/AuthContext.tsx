@@ -8,6 +8,7 @@ interface User {
   curriculum?: string;
   grade?: number;
   subjects?: string[];
+  role?: 'Student' | 'Teacher' | 'Guardian' | 'Admin';
 }
 
 interface AuthContextType {
@@ -84,6 +85,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         curriculum?: string;
         grade?: number;
         subjects?: string;
+        role?: 'Student' | 'Teacher' | 'Guardian' | 'Admin';
       }>(`/api/users/${userId}/profile`);
 
       setUser({
@@ -93,6 +95,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
         curriculum: data.curriculum,
         grade: data.grade,
         subjects: data.subjects ? JSON.parse(data.subjects) : [],
+        role: data.role,
       });
     } catch (error) {
       console.error('Failed to refresh user:', error);
@@ -62,12 +62,28 @@ fastify.setNotFoundHandler(notFoundHandler);
 import { testRoutes } from './routes/tests';
 import { syllabusRoutes } from './routes/syllabus';
 import { userRoutes } from './routes/users';
+import { classRoutes } from './routes/classes';
+import { guardianRoutes } from './routes/guardians';
+import { reviewRoutes } from './routes/review';
+import { questionBankRoutes } from './routes/questionBank';
+import { questionIssueRoutes } from './routes/questionIssues';
+import { gradingRoutes } from './routes/grading';
+import { notificationRoutes } from './routes/notifications';
+import { imageRoutes } from './routes/images';
 
 // Register routes
 fastify.register(authRoutes);
 fastify.register(testRoutes);
 fastify.register(syllabusRoutes);
 fastify.register(userRoutes);
+fastify.register(classRoutes);
+fastify.register(guardianRoutes);
+fastify.register(reviewRoutes);
+fastify.register(questionBankRoutes);
+fastify.register(questionIssueRoutes);
+fastify.register(gradingRoutes);
+fastify.register(notificationRoutes);
+fastify.register(imageRoutes);
 
 // Health check endpoint with database connectivity
 fastify.get('/health', async (request, reply) => {
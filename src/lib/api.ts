@@ -25,6 +25,13 @@ export function getApiUrl(path: string): string {
   return `${baseUrl}${normalizedPath}`;
 }
 
+/**
+ * URL of a question image, usable directly as an <img> src
+ */
+export function getImageUrl(imageId: string): string {
+  return getApiUrl(`/api/images/${imageId}`);
+}
+
 /**
  * API Error class for better error handling
  */
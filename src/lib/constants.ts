@@ -7,6 +7,9 @@ export const MAX_GRADE = 10;
 // Weak topic threshold (percentage)
 export const WEAK_TOPIC_THRESHOLD = 60;
 
+// Topic score (percentage) at which a retry moves up a difficulty level
+export const MASTERY_TOPIC_THRESHOLD = 80;
+
 // Password requirements
 export const MIN_PASSWORD_LENGTH = 8;
 
@@ -23,10 +26,36 @@ export const JWT_EXPIRATION = 7 * 24 * 60 * 60; // 7 days
 export const CURRICULA = ['CBSE', 'Cambridge'] as const;
 
 // Question types
-export const QUESTION_TYPES = ['MultipleChoice', 'ShortAnswer', 'Numerical'] as const;
+export const QUESTION_TYPES = [
+  'MultipleChoice',
+  'ShortAnswer',
+  'Numerical',
+  'TrueFalse',
+  'Matching',
+  'Ordering',
+  'FillInBlank',
+] as const;
+
+// Questions asked about each generated reading passage or case study
+export const QUESTIONS_PER_GROUP = 4;
+
+// Times a generated question whose answer did not verify is regenerated before it is left out
+export const ANSWER_REGENERATION_ATTEMPTS = 3;
+
+// Difficulty levels, easiest first
+export const DIFFICULTY_LEVELS = ['Foundation', 'ExamRealistic', 'Challenge'] as const;
 
 // Test modes
-export const TEST_MODES = ['PrintablePDF', 'InAppExam'] as const;
+export const TEST_MODES = ['PrintablePDF', 'InAppExam', 'Adaptive'] as const;
+
+// Adaptive tests stop once every topic's ability estimate is at least this precise
+export const ADAPTIVE_TARGET_STANDARD_ERROR = 0.6;
+
+// Most questions in one daily review
+export const REVIEW_SESSION_SIZE = 10;
+
+// ShortAnswer grades less confident than this (0-1) wait for a teacher to confirm them
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7;
 
 // Test statuses
 export const TEST_STATUSES = ['Generated', 'InProgress', 'Submitted'] as const;
@@ -2,6 +2,7 @@
 // Validates required environment variables at startup and fails fast if missing
 
 import { z } from 'zod';
+import { createLLMProvider } from '../services/llmProvider';
 
 const envSchema = z.object({
   // Required for production
@@ -16,6 +17,19 @@ const envSchema = z.object({
   // GROQ API for LLM features
   GROQ_API_KEY: z.string().optional(),
 
+  // LLM provider selection (defaults to groq when GROQ_API_KEY is set)
+  LLM_PROVIDER: z.enum(['groq', 'openai', 'ollama', 'fixture']).optional(),
+  LLM_MODEL: z.string().optional(),
+  LLM_TEMPERATURE: z.string().regex(/^\d*\.?\d+$/, 'LLM_TEMPERATURE must be a number').optional(),
+  LLM_MAX_TOKENS: z.string().regex(/^\d+$/, 'LLM_MAX_TOKENS must be a number').optional(),
+  LLM_BASE_URL: z.string().url('LLM_BASE_URL must be a valid URL').optional(),
+  LLM_API_KEY: z.string().optional(),
+  LLM_FIXTURE_PATH: z.string().optional(),
+
+  // Question image storage (defaults to the database)
+  IMAGE_STORAGE: z.enum(['database', 'local']).optional(),
+  IMAGE_STORAGE_DIR: z.string().optional(),
+
   // Server configuration
   PORT: z.string().regex(/^\d+$/, 'PORT must be a number').default('3000'),
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
@@ -85,7 +99,12 @@ export function hasFeature(feature: 'llm' | 'supabase'): boolean {
 
   switch (feature) {
     case 'llm':
-      return !!env.GROQ_API_KEY;
+      // Available exactly when the provider the routes use can be built
+      try {
+        return createLLMProvider(env) !== null;
+      } catch {
+        return false;
+      }
     case 'supabase':
       return !!env.SUPABASE_URL && !!env.SUPABASE_ANON_KEY;
     default:
@@ -104,6 +123,6 @@ export function logEnvStatus(): void {
   console.log(`  - PORT: ${env.PORT}`);
   console.log(`  - Database: ${env.DATABASE_URL ? '✓ configured' : '✗ missing'}`);
   console.log(`  - Supabase: ${hasFeature('supabase') ? '✓ configured' : '✗ not configured'}`);
-  console.log(`  - LLM (GROQ): ${hasFeature('llm') ? '✓ configured' : '✗ not configured'}`);
+  console.log(`  - LLM (${env.LLM_PROVIDER || 'groq'}): ${hasFeature('llm') ? '✓ configured' : '✗ not configured'}`);
   console.log('');
 }
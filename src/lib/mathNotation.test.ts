@@ -0,0 +1,32 @@
+// Math notation helper tests
+
+import { describe, it, expect } from 'vitest';
+import { hasMath, latexToText, mathToText, splitMath } from './mathNotation';
+
+describe('mathNotation', () => {
+  it('should split text into plain runs and inline or displayed LaTeX', () => {
+    expect(splitMath('Solve \\(2x = 6\\) for x:\\[x = \\frac{6}{2}\\]')).toEqual([
+      { kind: 'text', text: 'Solve ' },
+      { kind: 'math', latex: '2x = 6', display: false },
+      { kind: 'text', text: ' for x:' },
+      { kind: 'math', latex: 'x = \\frac{6}{2}', display: true },
+    ]);
+    // An unclosed delimiter and a currency sign are plain text
+    expect(splitMath('Costs $5 \\( each')).toEqual([{ kind: 'text', text: 'Costs $5 \\( each' }]);
+    expect(hasMath('Find \\(x\\) and \\(y\\)')).toBe(true);
+    expect(hasMath('x^2/3')).toBe(false);
+  });
+
+  it('should write LaTeX out as unambiguous plain text', () => {
+    expect(latexToText('\\frac{x^{2}}{3}')).toBe('(x^2)/3');
+    expect(latexToText('\\dfrac{1}{2} \\times 4')).toBe('1/2 × 4');
+    expect(latexToText('x^{n+1} + \\sqrt{2} - \\sqrt[3]{8}')).toBe('x^(n+1) + √2 - 3√8');
+    expect(latexToText('45^\\circ, \\text{area} \\le 10\\,\\text{cm}^2')).toBe('45°, area ≤ 10 cm^2');
+    expect(latexToText('\\left( \\pi r^2 \\right)')).toBe('( π r^2 )');
+  });
+
+  it('should replace only the LaTeX in mixed text', () => {
+    expect(mathToText('Simplify \\(\\frac{3}{6}\\) to lowest terms')).toBe('Simplify 3/6 to lowest terms');
+    expect(mathToText('No math here')).toBe('No math here');
+  });
+});
@@ -0,0 +1,159 @@
+// Math notation helpers
+// Question text, options, answers and solution steps may contain LaTeX: inline between
+// \( and \), or displayed on its own line between \[ and \]. Shared by the server
+// (marking, PDFs) and the pages; typesetting itself is in lib/mathRenderer.ts.
+
+export type TextSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'math'; latex: string; display: boolean };
+
+const MATH_PATTERN = /\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g;
+
+/**
+ * Whether a piece of text contains any LaTeX
+ */
+export function hasMath(text: string): boolean {
+  return splitMath(text).some(segment => segment.kind === 'math');
+}
+
+/**
+ * Split text into its plain runs and its LaTeX expressions, in order
+ * An opening delimiter without its closing one is left as plain text
+ */
+export function splitMath(text: string): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MATH_PATTERN)) {
+    const start = match.index ?? 0;
+    if (start > last) {
+      segments.push({ kind: 'text', text: text.slice(last, start) });
+    }
+    const display = match[2] !== undefined;
+    segments.push({ kind: 'math', latex: (display ? match[2] : match[1]).trim(), display });
+    last = start + match[0].length;
+  }
+  if (last < text.length) {
+    segments.push({ kind: 'text', text: text.slice(last) });
+  }
+  return segments;
+}
+
+/**
+ * Characters written for LaTeX commands when math is shown as plain text
+ */
+const SYMBOLS: Record<string, string> = {
+  times: '×', div: '÷', cdot: '·', pm: '±', mp: '∓',
+  le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈', equiv: '≡',
+  infty: '∞', circ: '°', degree: '°', angle: '∠', triangle: '△', perp: '⊥', parallel: '∥',
+  to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', therefore: '∴', because: '∵',
+  in: '∈', cup: '∪', cap: '∩', subset: '⊂', emptyset: '∅',
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', theta: 'θ', lambda: 'λ', mu: 'μ',
+  pi: 'π', rho: 'ρ', sigma: 'σ', phi: 'φ', omega: 'ω', Delta: 'Δ', Sigma: 'Σ', Omega: 'Ω',
+  ldots: '...', cdots: '...', dots: '...',
+  '%': '%', $: '$', '&': '&', '#': '#', '{': '{', '}': '}', _: '_',
+  ',': ' ', ';': ' ', ':': ' ', '!': '', quad: ' ', qquad: ' ', ' ': ' ', '\\': ' ',
+};
+
+// Commands dropped without a trace, or whose argument is kept as it is
+const IGNORED = new Set(['left', 'right', 'displaystyle', 'limits']);
+const TEXT_COMMANDS = new Set(['text', 'mathrm', 'mathbf', 'mathit', 'textbf', 'operatorname', 'overline', 'vec', 'hat']);
+const FRACTIONS = new Set(['frac', 'dfrac', 'tfrac']);
+
+/**
+ * Plain-text reading of a LaTeX expression, for marking typed answers and for anywhere
+ * math cannot be typeset: \frac{x+1}{2} becomes (x+1)/2 and x^{2} becomes x^2
+ */
+export function latexToText(latex: string): string {
+  let pos = 0;
+
+  // Read up to the } closing a group whose { has been read
+  const readGroupBody = (): string => {
+    let text = '';
+    while (pos < latex.length && latex[pos] !== '}') {
+      text += readItem();
+    }
+    pos++;
+    return text;
+  };
+
+  // The next {group} or single item, as the argument of a command, ^ or _
+  const readArgument = (): string => {
+    while (latex[pos] === ' ') pos++;
+    if (pos >= latex.length) return '';
+    if (latex[pos] === '{') {
+      pos++;
+      return readGroupBody();
+    }
+    return readItem();
+  };
+
+  // An optional [argument], as in \sqrt[3]{x}
+  const readOptional = (): string => {
+    const end = latex[pos] === '[' ? latex.indexOf(']', pos) : -1;
+    if (end === -1) return '';
+    const option = latexToText(latex.slice(pos + 1, end));
+    pos = end + 1;
+    return option;
+  };
+
+  const readCommand = (): string => {
+    const name = /^[a-zA-Z]+/.exec(latex.slice(pos))?.[0] ?? latex[pos] ?? '';
+    pos += name.length;
+
+    if (FRACTIONS.has(name)) {
+      const numerator = readArgument();
+      return `${grouped(numerator)}/${grouped(readArgument())}`;
+    }
+    if (name === 'sqrt') {
+      const index = readOptional();
+      return `${index}√${grouped(readArgument())}`;
+    }
+    if (TEXT_COMMANDS.has(name)) return readArgument();
+    if (IGNORED.has(name)) return '';
+    return SYMBOLS[name] ?? name;
+  };
+
+  // One character, command or {group}
+  const readItem = (): string => {
+    const char = latex[pos++];
+    switch (char) {
+      case '{':
+        return readGroupBody();
+      case '}':
+        return '';
+      case '\\':
+        return readCommand();
+      case '^': {
+        const exponent = readArgument();
+        return exponent === '°' ? '°' : `^${grouped(exponent)}`;
+      }
+      case '_':
+        return `_${grouped(readArgument())}`;
+      case '~':
+        return ' ';
+      default:
+        return char;
+    }
+  };
+
+  let text = '';
+  while (pos < latex.length) {
+    text += readItem();
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Text with each of its LaTeX expressions replaced by their plain-text reading
+ */
+export function mathToText(text: string): string {
+  return splitMath(text)
+    .map(segment => (segment.kind === 'text' ? segment.text : latexToText(segment.latex)))
+    .join('');
+}
+
+// Wrap a fraction part, root or exponent in brackets unless it is a single number or name
+function grouped(text: string): string {
+  const trimmed = text.trim();
+  return /^[\w.°]+$/.test(trimmed) ? trimmed : `(${trimmed})`;
+}
@@ -0,0 +1,49 @@
+// Math typesetting
+// Typesets the LaTeX found by lib/mathNotation.ts as SVG with MathJax. The pages show the
+// SVG markup; the PDF generator draws the same shapes (see services/pdfMath.ts).
+
+import { mathjax } from 'mathjax-full/js/mathjax.js';
+import { TeX } from 'mathjax-full/js/input/tex.js';
+import { SVG } from 'mathjax-full/js/output/svg.js';
+import { liteAdaptor } from 'mathjax-full/js/adaptors/liteAdaptor.js';
+import type { LiteElement } from 'mathjax-full/js/adaptors/lite/Element.js';
+import { RegisterHTMLHandler } from 'mathjax-full/js/handlers/html.js';
+import 'mathjax-full/js/input/tex/base/BaseConfiguration.js';
+import 'mathjax-full/js/input/tex/ams/AmsConfiguration.js';
+
+export type { LiteElement as MathSvgElement };
+
+const adaptor = liteAdaptor();
+RegisterHTMLHandler(adaptor);
+
+const mathDocument = mathjax.document('', {
+  InputJax: new TeX({
+    packages: ['base', 'ams'],
+    // Invalid LaTeX is reported to the caller rather than typeset as an error box
+    formatError: (_jax: unknown, error: Error) => {
+      throw error;
+    },
+  }),
+  // Glyph paths are written into every formula instead of shared <defs>, so each SVG stands alone
+  OutputJax: new SVG({ fontCache: 'none' }),
+});
+
+/**
+ * Typeset a LaTeX expression as an <svg> element tree, or null if it is not valid LaTeX
+ */
+export function typesetMath(latex: string, display = false): LiteElement | null {
+  try {
+    const container = mathDocument.convert(latex, { display }) as LiteElement;
+    return container.children.find((child): child is LiteElement => child.kind === 'svg') ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SVG markup for a LaTeX expression, or null if it is not valid LaTeX
+ */
+export function mathToSvg(latex: string, display = false): string | null {
+  const svg = typesetMath(latex, display);
+  return svg ? adaptor.outerHTML(svg) : null;
+}
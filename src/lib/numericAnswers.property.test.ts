@@ -0,0 +1,122 @@
+// Property-based tests for Numeric answer helpers
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { parseQuantity, numericAnswersMatch } from './numericAnswers';
+
+describe('numericAnswers - Property-Based Tests', () => {
+  // Generators for property-based testing
+
+  /**
+   * Generator for answer values across many orders of magnitude, positive and negative
+   */
+  const valueArb = fc
+    .tuple(fc.double({ min: 1, max: 10, noNaN: true }), fc.integer({ min: -8, max: 12 }), fc.boolean())
+    .map(([mantissa, exponent, negative]) => (negative ? -1 : 1) * mantissa * 10 ** exponent);
+
+  /**
+   * Generator for simple fractions
+   */
+  const fractionArb = fc.record({
+    numerator: fc.integer({ min: 1, max: 999 }),
+    denominator: fc.integer({ min: 1, max: 999 }),
+  });
+
+  /**
+   * Generator for relative tolerances from 0.01% to 10%
+   */
+  const relativeArb = fc.double({ min: 0.0001, max: 0.1, noNaN: true });
+
+  // Property 1: Every way of writing a number reads as the same value
+  describe('Property 1: Equivalent notations are the same answer', () => {
+    it('should read a number the way JavaScript writes it', () => {
+      fc.assert(
+        fc.property(valueArb, (value) => {
+          expect(parseQuantity(String(value))).toEqual({ value, unit: null });
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should accept a fraction or mixed number for its decimal value', () => {
+      fc.assert(
+        fc.property(fractionArb, fc.integer({ min: 1, max: 99 }), ({ numerator, denominator }, whole) => {
+          const decimal = String(numerator / denominator);
+          expect(numericAnswersMatch(`${numerator}/${denominator}`, decimal)).toBe(true);
+          expect(numericAnswersMatch(`\\(\\frac{${numerator}}{${denominator}}\\)`, decimal)).toBe(true);
+          expect(numericAnswersMatch(`${whole} ${numerator}/${denominator}`, String(whole + numerator / denominator))).toBe(true);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should accept scientific notation and percentages for the same value', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: -999, max: 999 }), fc.integer({ min: -6, max: 6 }), (mantissa, exponent) => {
+          const value = String(mantissa * 10 ** exponent);
+          expect(numericAnswersMatch(`${mantissa}e${exponent}`, value)).toBe(true);
+          expect(numericAnswersMatch(`${mantissa} × 10^${exponent}`, value)).toBe(true);
+          expect(numericAnswersMatch(`${mantissa}%`, String(mantissa / 100))).toBe(true);
+          expect(numericAnswersMatch(`${mantissa}%`, `${mantissa}`)).toBe(true);
+        }),
+        { numRuns: 200 }
+      );
+    });
+  });
+
+  // Property 2: Answers in other units of the same kind are converted
+  describe('Property 2: Unit conversion', () => {
+    it('should accept a length or speed in any unit for the key in another', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: 1, max: 100000 }), (centimetres) => {
+          expect(numericAnswersMatch(`${centimetres} cm`, `${centimetres / 100} m`)).toBe(true);
+          expect(numericAnswersMatch(`${centimetres / 100000} km`, `${centimetres * 10} mm`)).toBe(true);
+          expect(numericAnswersMatch(`${centimetres * 3.6} km/h`, `${centimetres} m/s`)).toBe(true);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should never accept a unit that measures something else', () => {
+      fc.assert(
+        fc.property(valueArb, fc.constantFrom('kg', 's', 'm^2', 'N', '°'), (value, unit) => {
+          expect(numericAnswersMatch(`${value} ${unit}`, `${value} m`)).toBe(false);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  // Property 3: Tolerances scale with the answer where they should
+  describe('Property 3: Tolerances', () => {
+    it('should accept answers inside a relative tolerance and reject those outside, at any magnitude', () => {
+      fc.assert(
+        fc.property(valueArb, relativeArb, (key, relative) => {
+          const tolerance = { type: 'Relative' as const, amount: relative };
+          expect(numericAnswersMatch(String(key * (1 + relative / 2)), String(key), tolerance)).toBe(true);
+          expect(numericAnswersMatch(String(key * (1 - relative * 2)), String(key), tolerance)).toBe(false);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should accept a key rounded to the significant figures asked for', () => {
+      fc.assert(
+        fc.property(valueArb, fc.integer({ min: 1, max: 6 }), (key, figures) => {
+          const tolerance = { type: 'SignificantFigures' as const, figures };
+          expect(numericAnswersMatch(key.toPrecision(figures), String(key), tolerance)).toBe(true);
+        }),
+        { numRuns: 200 }
+      );
+    });
+
+    it('should treat an absolute tolerance the same way in both directions', () => {
+      fc.assert(
+        fc.property(valueArb, valueArb, (a, b) => {
+          expect(numericAnswersMatch(String(a), String(b))).toBe(numericAnswersMatch(String(b), String(a)));
+        }),
+        { numRuns: 200 }
+      );
+    });
+  });
+});
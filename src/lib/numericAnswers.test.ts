@@ -0,0 +1,113 @@
+// Numeric answer helper tests
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseQuantity,
+  parseUnit,
+  numericAnswersMatch,
+  withinTolerance,
+  parseAnswerTolerance,
+  describeTolerance,
+} from './numericAnswers';
+
+describe('parseQuantity', () => {
+  it('should read numbers written in the usual ways', () => {
+    const values = (answers: string[]) => answers.map(answer => parseQuantity(answer)?.value);
+
+    expect(values(['0.5', '1/2', '5e-1', '5 × 10^-1', '5 x 10^(-1)', '\\(5 \\times 10^{-1}\\)'])).toEqual(Array(6).fill(0.5));
+    expect(values(['2 3/4', '-2 3/4', '1½', '1,250', '12,50,000'])).toEqual([2.75, -2.75, 1.5, 1250, 1250000]);
+    expect(values(['π/2', '\\(\\frac{\\pi}{2}\\)'])).toEqual([Math.PI / 2, Math.PI / 2]);
+    expect(values(['2√3', 'sqrt(2)', '3(4)'])).toEqual([2 * Math.sqrt(3), Math.SQRT2, 12]);
+  });
+
+  it('should read the unit after the number', () => {
+    expect(parseQuantity('50 cm')).toEqual({ value: 50, unit: { scale: 0.01, dimension: [1, 0, 0, 0, 0] } });
+    expect(parseQuantity('12.5%')).toEqual({ value: 12.5, unit: { scale: 0.01, dimension: [0, 0, 0, 0, 0] } });
+    expect(parseQuantity('9.8 m/s²')?.unit?.dimension).toEqual([1, 0, -2, 0, 0]);
+    expect(parseQuantity('2 kilometres')?.unit?.scale).toBe(1000);
+    // Words that are not units are what was counted
+    expect(parseQuantity('12 apples')).toEqual({ value: 12, unit: null });
+  });
+
+  it('should reject answers that are not numbers', () => {
+    expect(parseQuantity('forty')).toBeNull();
+    expect(parseQuantity('1,5')).toBeNull();
+    expect(parseQuantity('2 3')).toBeNull();
+    expect(parseQuantity('(2')).toBeNull();
+    expect(parseQuantity('')).toBeNull();
+  });
+});
+
+describe('parseUnit', () => {
+  it('should combine units into their size in SI units', () => {
+    expect(parseUnit('km/h')?.scale).toBeCloseTo(1 / 3.6);
+    expect(parseUnit('g/cm^3')).toEqual({ scale: expect.closeTo(1000), dimension: [-3, 1, 0, 0, 0] });
+    expect(parseUnit('kg m s^-2')?.dimension).toEqual(parseUnit('N')?.dimension);
+    expect(parseUnit('metres per second')?.dimension).toEqual([1, 0, -1, 0, 0]);
+    expect(parseUnit('cms')?.scale).toBe(0.01);
+    expect(parseUnit('furlongs')).toBeNull();
+    expect(parseUnit('m/s/s')).toBeNull();
+  });
+});
+
+describe('numericAnswersMatch', () => {
+  it('should treat the same quantity written differently as the same answer', () => {
+    expect(numericAnswersMatch('1/2', '0.5')).toBe(true);
+    expect(numericAnswersMatch('5e-1', '50%')).toBe(true);
+    expect(numericAnswersMatch('50 cm', '0.5 m')).toBe(true);
+    expect(numericAnswersMatch('36 km/h', '10 m/s')).toBe(true);
+    expect(numericAnswersMatch('90°', '\\(\\frac{\\pi}{2}\\) rad')).toBe(true);
+  });
+
+  it('should accept a missing unit but not the wrong kind of unit', () => {
+    expect(numericAnswersMatch('0.5', '0.5 m')).toBe(true);
+    expect(numericAnswersMatch('12 cm', '12')).toBe(true);
+    expect(numericAnswersMatch('50', '50%')).toBe(true);
+    expect(numericAnswersMatch('0.5 kg', '0.5 m')).toBe(false);
+    expect(numericAnswersMatch('50 cm', '0.5')).toBe(false);
+  });
+
+  it('should apply the tolerance in the unit of the key', () => {
+    const tolerance = { type: 'Absolute' as const, amount: 0.1 };
+    expect(numericAnswersMatch('1.45 m', '1.5 m', tolerance)).toBe(true);
+    expect(numericAnswersMatch('140 cm', '1.5 m', tolerance)).toBe(true);
+    expect(numericAnswersMatch('139 cm', '1.5 m', tolerance)).toBe(false);
+  });
+
+  it('should compare answers that are not numbers as text', () => {
+    expect(numericAnswersMatch('Infinite', 'infinite')).toBe(true);
+    expect(numericAnswersMatch('', '0')).toBe(false);
+    expect(numericAnswersMatch('many', '4')).toBe(false);
+  });
+});
+
+describe('withinTolerance', () => {
+  it('should accept rounding of large values with a relative tolerance only', () => {
+    expect(withinTolerance(149_600_000, 149_597_871, { type: 'Absolute', amount: 0.0001 })).toBe(false);
+    expect(withinTolerance(149_600_000, 149_597_871, { type: 'Relative', amount: 0.001 })).toBe(true);
+    expect(withinTolerance(0.1 + 0.2, 0.3, { type: 'Relative', amount: 1e-15 })).toBe(true);
+  });
+
+  it('should compare both numbers rounded to the significant figures', () => {
+    const figures = { type: 'SignificantFigures' as const, figures: 3 };
+    expect(withinTolerance(3.14, Math.PI, figures)).toBe(true);
+    expect(withinTolerance(3.1416, Math.PI, figures)).toBe(true);
+    expect(withinTolerance(3.15, Math.PI, figures)).toBe(false);
+    expect(withinTolerance(3.1, Math.PI, figures)).toBe(false);
+  });
+});
+
+describe('answer tolerances', () => {
+  it('should read stored tolerances and ignore anything else', () => {
+    expect(parseAnswerTolerance('{"type":"Relative","amount":0.02}')).toEqual({ type: 'Relative', amount: 0.02 });
+    expect(parseAnswerTolerance(null)).toBeUndefined();
+    expect(parseAnswerTolerance('{"type":"Roughly"}')).toBeUndefined();
+    expect(parseAnswerTolerance('not json')).toBeUndefined();
+  });
+
+  it('should describe each kind of tolerance', () => {
+    expect(describeTolerance({ type: 'Absolute', amount: 0.5 })).toBe('±0.5');
+    expect(describeTolerance({ type: 'Relative', amount: 0.02 })).toBe('±2%');
+    expect(describeTolerance({ type: 'SignificantFigures', figures: 3 })).toBe('3 s.f.');
+  });
+});
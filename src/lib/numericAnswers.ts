@@ -0,0 +1,366 @@
+// Numeric answer helpers
+// Reads typed Numerical answers and compares them with the answer key. An answer is a
+// number written in any of the usual ways, optionally followed by its unit:
+//
+// - 0.5, 1,250, 1,00,000 (Indian grouping), 5e-1, 5 × 10^-1, 5 x 10^(-1)
+// - 1/2, 2 3/4 (a mixed number), 1½, 50%
+// - π/2, 2√3, sqrt(2), and LaTeX such as \(\frac{\pi}{2}\) (see lib/mathNotation.ts)
+// - 0.5 m, 50 cm, 9.8 m/s², 1.2 g/cm^3, 90°, 2 kilometres
+//
+// Shared by the server (marking, validation) and the question bank page.
+
+import type { AnswerTolerance } from '../types';
+import { mathToText } from './mathNotation';
+
+/**
+ * Powers of metre, kilogram, second, ampere and radian that make up a unit
+ */
+type Dimension = [number, number, number, number, number];
+
+export type Unit = {
+  scale: number; // size of the unit in SI base units (1 cm = 0.01 m)
+  dimension: Dimension;
+};
+
+export type Quantity = {
+  value: number; // in the unit the answer was written in
+  unit: Unit | null;
+};
+
+/**
+ * Used when a question gives no tolerance of its own
+ */
+export const DEFAULT_TOLERANCE: AnswerTolerance = { type: 'Absolute', amount: 0.0001 };
+
+const NONE: Dimension = [0, 0, 0, 0, 0];
+const LENGTH: Dimension = [1, 0, 0, 0, 0];
+const MASS: Dimension = [0, 1, 0, 0, 0];
+const TIME: Dimension = [0, 0, 1, 0, 0];
+const CURRENT: Dimension = [0, 0, 0, 1, 0];
+const ANGLE: Dimension = [0, 0, 0, 0, 1];
+const VOLUME: Dimension = [3, 0, 0, 0, 0];
+const FORCE: Dimension = [1, 1, -2, 0, 0];
+const ENERGY: Dimension = [2, 1, -2, 0, 0];
+const POWER: Dimension = [2, 1, -3, 0, 0];
+
+const unit = (scale: number, dimension: Dimension): Unit => ({ scale, dimension });
+
+/**
+ * Unit symbols, matched case-sensitively (mm is not Mm)
+ */
+const UNIT_SYMBOLS: Record<string, Unit> = {
+  mm: unit(1e-3, LENGTH), cm: unit(1e-2, LENGTH), m: unit(1, LENGTH), km: unit(1e3, LENGTH),
+  mg: unit(1e-6, MASS), g: unit(1e-3, MASS), kg: unit(1, MASS), t: unit(1e3, MASS),
+  ms: unit(1e-3, TIME), s: unit(1, TIME), min: unit(60, TIME), h: unit(3600, TIME), hr: unit(3600, TIME),
+  mL: unit(1e-6, VOLUME), ml: unit(1e-6, VOLUME), L: unit(1e-3, VOLUME), l: unit(1e-3, VOLUME),
+  N: unit(1, FORCE), kN: unit(1e3, FORCE),
+  J: unit(1, ENERGY), kJ: unit(1e3, ENERGY), kWh: unit(3.6e6, ENERGY),
+  W: unit(1, POWER), kW: unit(1e3, POWER),
+  Pa: unit(1, [-1, 1, -2, 0, 0]), kPa: unit(1e3, [-1, 1, -2, 0, 0]),
+  Hz: unit(1, [0, 0, -1, 0, 0]),
+  A: unit(1, CURRENT), mA: unit(1e-3, CURRENT),
+  V: unit(1, [2, 1, -3, -1, 0]),
+  'Ω': unit(1, [2, 1, -3, -2, 0]),
+  '°': unit(Math.PI / 180, ANGLE), rad: unit(1, ANGLE),
+  '%': unit(0.01, NONE),
+};
+
+/**
+ * Units written as words, matched case-insensitively and also with a plural s (as are
+ * symbols: cms, kgs, hrs)
+ */
+const UNIT_WORDS: Record<string, string> = {
+  millimetre: 'mm', millimeter: 'mm', centimetre: 'cm', centimeter: 'cm',
+  metre: 'm', meter: 'm', kilometre: 'km', kilometer: 'km',
+  milligram: 'mg', gram: 'g', kilogram: 'kg', tonne: 't',
+  second: 's', sec: 's', minute: 'min', hour: 'h',
+  millilitre: 'mL', milliliter: 'mL', litre: 'L', liter: 'L',
+  newton: 'N', joule: 'J', watt: 'W', pascal: 'Pa', hertz: 'Hz', ampere: 'A', volt: 'V', ohm: 'Ω',
+  degree: '°', deg: '°', radian: 'rad', percent: '%',
+};
+
+// Written out as a mixed number (1½ is 1 1/2)
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅛': '1/8',
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-',
+};
+
+// Plain, 1,250,000 or 12,50,000 grouped; then an optional exponent (5e-1)
+const NUMBER_PATTERN = /(?:\d{1,3}(?:,\d{3})+|\d{1,2}(?:,\d{2})+,\d{3}|\d+)(?:\.\d*)?(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?/y;
+
+// The "3/4" after the whole number of a mixed number
+const MIXED_FRACTION_PATTERN = /\s+(\d+)\s*\/\s*(\d+)(?![\d.^/])/y;
+
+/**
+ * Read a numeric answer and its unit, or null if it is not one
+ * The number may be a small expression (fractions, powers, π, roots); anything after it
+ * must be a unit, or words that are left out
+ */
+export function parseQuantity(answer: string): Quantity | null {
+  const text = mathToText(answer)
+    .replace(/[½⅓⅔¼¾⅕⅛]/g, fraction => ` ${VULGAR_FRACTIONS[fraction]}`)
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]+/g, digits => `^${[...digits].map(digit => SUPERSCRIPTS[digit]).join('')}`)
+    .replace(/[−–]/g, '-')
+    .trim();
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (text[pos] === ' ' || text[pos] === '\t') pos++;
+  };
+  const startsWith = (token: string): boolean => text.startsWith(token, pos);
+
+  // A number, π, root or bracketed expression
+  const readPrimary = (): number => {
+    skipSpaces();
+    NUMBER_PATTERN.lastIndex = pos;
+    const number = NUMBER_PATTERN.exec(text);
+    if (number) {
+      pos = NUMBER_PATTERN.lastIndex;
+      const whole = Number(number[0].replace(/,/g, ''));
+      MIXED_FRACTION_PATTERN.lastIndex = pos;
+      const mixed = /^\d+$/.test(number[0]) ? MIXED_FRACTION_PATTERN.exec(text) : null;
+      if (mixed) {
+        pos = MIXED_FRACTION_PATTERN.lastIndex;
+        return whole + Number(mixed[1]) / Number(mixed[2]);
+      }
+      return whole;
+    }
+    if (startsWith('π')) {
+      pos += 1;
+      return Math.PI;
+    }
+    if (/^pi\b/i.test(text.slice(pos))) {
+      pos += 2;
+      return Math.PI;
+    }
+    if (startsWith('√') || /^sqrt\b/i.test(text.slice(pos))) {
+      pos += startsWith('√') ? 1 : 4;
+      return Math.sqrt(readPower());
+    }
+    if (startsWith('(')) {
+      pos++;
+      const value = readSum();
+      skipSpaces();
+      if (!startsWith(')')) return NaN;
+      pos++;
+      return value;
+    }
+    return NaN;
+  };
+
+  const readPower = (): number => {
+    const base = readPrimary();
+    skipSpaces();
+    if (startsWith('^') || startsWith('**')) {
+      pos += startsWith('^') ? 1 : 2;
+      return base ** readSigned();
+    }
+    return base;
+  };
+
+  const readSigned = (): number => {
+    skipSpaces();
+    if (startsWith('-') || startsWith('+')) {
+      const sign = text[pos++] === '-' ? -1 : 1;
+      return sign * readSigned();
+    }
+    return readPower();
+  };
+
+  // Whether the next characters continue a product: an operator, or a factor written
+  // straight after the last one as in 2π, 2√3 or 3(4)
+  const readProductOperator = (): '*' | '/' | null => {
+    const start = pos;
+    skipSpaces();
+    const operator = /^(?:[*×·⋅÷/]|[xX](?=\s*[\d(.]))/.exec(text.slice(pos))?.[0];
+    if (operator) {
+      pos += operator.length;
+      return operator === '/' || operator === '÷' ? '/' : '*';
+    }
+    if (start < pos && /^\d/.test(text.slice(pos))) {
+      // 2 3 is not a product
+      pos = start;
+      return null;
+    }
+    if (/^(?:[π√(]|pi\b|sqrt\b)/i.test(text.slice(pos))) {
+      return '*';
+    }
+    pos = start;
+    return null;
+  };
+
+  const readProduct = (): number => {
+    let value = readSigned();
+    for (let operator = readProductOperator(); operator; operator = readProductOperator()) {
+      const factor = readSigned();
+      value = operator === '*' ? value * factor : value / factor;
+    }
+    return value;
+  };
+
+  const readSum = (): number => {
+    let value = readProduct();
+    for (;;) {
+      const start = pos;
+      skipSpaces();
+      if (!startsWith('+') && !startsWith('-')) {
+        pos = start;
+        return value;
+      }
+      const sign = text[pos++] === '-' ? -1 : 1;
+      value += sign * readProduct();
+    }
+  };
+
+  const value = readSum();
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+  const rest = text.slice(pos).trim();
+  if (rest === '') {
+    return { value, unit: null };
+  }
+  const parsedUnit = parseUnit(rest);
+  if (parsedUnit) {
+    return { value, unit: parsedUnit };
+  }
+  // Words the unit table does not know are what was counted (12 apples)
+  return /^\p{L}+(?:\s+\p{L}+)*$/u.test(rest) ? { value, unit: null } : null;
+}
+
+/**
+ * Read a unit such as cm, m/s², kg m^-3 or km per hour, or null if it is not one
+ */
+export function parseUnit(text: string): Unit | null {
+  const [numerator, ...denominators] = text
+    .replace(/\s+per\s+/gi, '/')
+    .replace(/[·⋅*]/g, ' ')
+    .replace(/\s*\^\s*/g, '^')
+    .split('/');
+  if (denominators.length > 1) {
+    return null;
+  }
+
+  let scale = 1;
+  const dimension: Dimension = [...NONE];
+  const factors = [
+    ...numerator.trim().split(/\s+/).map(factor => ({ factor, sign: 1 })),
+    ...(denominators[0]?.trim().split(/\s+/) ?? []).map(factor => ({ factor, sign: -1 })),
+  ];
+  for (const { factor, sign } of factors) {
+    const match = /^([^\s^]+?)(?:\^\(?(-?\d+)\)?)?$/.exec(factor);
+    const base = match ? unitNamed(match[1]) : null;
+    if (!match || !base) {
+      return null;
+    }
+    const power = sign * Number(match[2] ?? 1);
+    scale *= base.scale ** power;
+    base.dimension.forEach((exponent, index) => {
+      dimension[index] += exponent * power;
+    });
+  }
+  return { scale, dimension };
+}
+
+function unitNamed(name: string): Unit | null {
+  if (UNIT_SYMBOLS[name]) {
+    return UNIT_SYMBOLS[name];
+  }
+  const word = name.toLowerCase();
+  const singular = word.endsWith('s') ? word.slice(0, -1) : undefined;
+  const symbol = UNIT_WORDS[word] ?? (singular && (UNIT_WORDS[singular] ?? (UNIT_SYMBOLS[singular] && singular)));
+  return symbol ? UNIT_SYMBOLS[symbol] : null;
+}
+
+/**
+ * Whether a typed answer is the same quantity as the answer key, within the tolerance
+ *
+ * - Both with units: the units must measure the same thing; the answer is converted to
+ *   the key's unit (50 cm is 0.5 m) and the tolerance applies in that unit
+ * - Only one with a unit: the numbers as written are compared, so a missing unit is not
+ *   marked wrong; a percentage may also be written as a plain share (50% or 0.5)
+ * - Either not a number: only the same text matches
+ */
+export function numericAnswersMatch(
+  given: string,
+  expected: string,
+  tolerance: AnswerTolerance = DEFAULT_TOLERANCE
+): boolean {
+  const givenQuantity = parseQuantity(given);
+  const expectedQuantity = parseQuantity(expected);
+  if (!givenQuantity || !expectedQuantity) {
+    return given.trim() !== '' && sameText(given, expected);
+  }
+
+  const { value: answer, unit: answerUnit } = givenQuantity;
+  const { value: key, unit: keyUnit } = expectedQuantity;
+  if (answerUnit && keyUnit) {
+    return sameDimension(answerUnit, keyUnit)
+      && withinTolerance((answer * answerUnit.scale) / keyUnit.scale, key, tolerance);
+  }
+
+  const onlyUnit = answerUnit ?? keyUnit;
+  return withinTolerance(answer, key, tolerance)
+    || (onlyUnit !== null && sameDimension(onlyUnit, unit(1, NONE))
+      && withinTolerance(answer * (answerUnit?.scale ?? 1), key * (keyUnit?.scale ?? 1), tolerance));
+}
+
+/**
+ * Whether a number is close enough to the key
+ * Significant figures: both agree when rounded to that many figures. Every tolerance
+ * also absorbs floating point error, however large the numbers are.
+ */
+export function withinTolerance(value: number, key: number, tolerance: AnswerTolerance): boolean {
+  const floatError = 1e-12 * Math.max(Math.abs(value), Math.abs(key));
+  switch (tolerance.type) {
+    case 'Absolute':
+      return Math.abs(value - key) <= tolerance.amount + floatError;
+    case 'Relative':
+      return Math.abs(value - key) <= tolerance.amount * Math.abs(key) + floatError;
+    case 'SignificantFigures': {
+      const rounded = (n: number) => Number(n.toPrecision(tolerance.figures));
+      return Math.abs(rounded(value) - rounded(key)) <= floatError;
+    }
+  }
+}
+
+/**
+ * A question's stored tolerance, or undefined if it has none (or it cannot be read)
+ */
+export function parseAnswerTolerance(stored: string | null | undefined): AnswerTolerance | undefined {
+  if (!stored) {
+    return undefined;
+  }
+  try {
+    const tolerance = JSON.parse(stored);
+    return ['Absolute', 'Relative', 'SignificantFigures'].includes(tolerance?.type) ? tolerance : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Short description of a tolerance for the question bank and answer keys: ±0.5, ±2%, 3 s.f.
+ */
+export function describeTolerance(tolerance: AnswerTolerance): string {
+  switch (tolerance.type) {
+    case 'Absolute':
+      return `±${tolerance.amount}`;
+    case 'Relative':
+      return `±${Number((tolerance.amount * 100).toPrecision(6))}%`;
+    case 'SignificantFigures':
+      return `${tolerance.figures} s.f.`;
+  }
+}
+
+function sameDimension(a: Unit, b: Unit): boolean {
+  return a.dimension.every((exponent, index) => exponent === b.dimension[index]);
+}
+
+function sameText(a: string, b: string): boolean {
+  const normalize = (text: string) => mathToText(text).trim().toLowerCase().replace(/\s+/g, ' ');
+  return normalize(a) === normalize(b);
+}
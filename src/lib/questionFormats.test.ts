@@ -0,0 +1,26 @@
+// Question format helper tests
+
+import { describe, it, expect } from 'vitest';
+import { answerParts, countBlanks, describeAnswer, questionAnswerFields, splitAtBlanks } from './questionFormats';
+
+describe('questionFormats', () => {
+  it('should find the blanks in fill-in-the-blank text', () => {
+    expect(countBlanks('The capital of India is ____ and of France is ___.')).toBe(2);
+    expect(splitAtBlanks('___ + 4 = 7')).toEqual(['', ' + 4 = 7']);
+    expect(countBlanks('No blanks __ here')).toBe(0);
+  });
+
+  it('should read stored answers as lists of parts', () => {
+    expect(answerParts('["a",2,null]')).toEqual(['a', '2', '']);
+    expect(answerParts('"a"')).toEqual(['a']);
+    expect(answerParts('plain text')).toEqual(['plain text']);
+    expect(answerParts('')).toEqual([]);
+  });
+
+  it('should describe part-marked answers for answer keys', () => {
+    expect(describeAnswer('Matching', ['3', '4'], ['Triangle', 'Square'])).toBe('Triangle – 3; Square – 4');
+    expect(describeAnswer('FillInBlank', ['Delhi|New Delhi', '7'])).toBe('(1) Delhi / New Delhi; (2) 7');
+    expect(questionAnswerFields('Ordering', ['a', 'b'])).toEqual({ correctAnswer: 'a, b', correctAnswers: ['a', 'b'] });
+    expect(questionAnswerFields('MultipleChoice', ['a', 'b'])).toEqual({ correctAnswer: 'a' });
+  });
+});
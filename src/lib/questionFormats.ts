@@ -0,0 +1,121 @@
+// Question format helpers
+// How each question type keeps its parts in the options / matchItems / correctAnswers lists.
+// Shared by the server (validation, marking, PDFs) and the test-taking page.
+//
+// - MultipleChoice: options are the choices; correctAnswers are the right ones
+// - TrueFalse: options are always True and False; correctAnswers holds one of them
+// - Matching: matchItems are the left-hand items and options the right-hand choices
+//   (which may include extras); correctAnswers[i] is the choice that matches matchItems[i]
+// - Ordering: options are the items as shown to the student; correctAnswers are the
+//   same items in the right order
+// - FillInBlank: the question text marks each blank with ___; correctAnswers[i] fills
+//   blank i, with accepted alternatives separated by '|'
+// - ShortAnswer / Numerical: a typed answer compared with correctAnswers
+
+import type { QuestionType, RubricPoint } from '../types';
+
+export const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+export const BLANK_ALTERNATIVE_SEPARATOR = '|';
+
+const BLANK_PATTERN = /_{3,}/g;
+
+// Types whose answer is a list of parts, each marked on its own
+const PART_MARKED_TYPES: QuestionType[] = ['Matching', 'Ordering', 'FillInBlank'];
+
+export function isPartMarked(questionType: string): boolean {
+  return (PART_MARKED_TYPES as string[]).includes(questionType);
+}
+
+/**
+ * Number of ___ blanks in a fill-in-the-blank question
+ */
+export function countBlanks(questionText: string): number {
+  return questionText.match(BLANK_PATTERN)?.length ?? 0;
+}
+
+/**
+ * Split a question's text around its blanks: n blanks give n + 1 pieces
+ */
+export function splitAtBlanks(questionText: string): string[] {
+  return questionText.split(BLANK_PATTERN);
+}
+
+/**
+ * The answers accepted for one blank
+ */
+export function blankAlternatives(answer: string): string[] {
+  return answer.split(BLANK_ALTERNATIVE_SEPARATOR).map(alternative => alternative.trim()).filter(Boolean);
+}
+
+/**
+ * Read a stored answer as its list of parts; a single value becomes a one-part list
+ */
+export function answerParts(answer: string): string[] {
+  try {
+    const parsed = JSON.parse(answer);
+    if (Array.isArray(parsed)) {
+      return parsed.map(part => (part === null || part === undefined ? '' : String(part)));
+    }
+    if (typeof parsed === 'string' || typeof parsed === 'number') {
+      return [String(parsed)];
+    }
+  } catch {
+    // plain text answer
+  }
+  return answer ? [answer] : [];
+}
+
+/**
+ * Human-readable answer for answer keys and results pages, in characters the standard
+ * PDF fonts can draw; an Ordering answer is its items in order
+ */
+export function describeAnswer(
+  questionType: QuestionType,
+  correctAnswers: string[],
+  matchItems: string[] = []
+): string {
+  switch (questionType) {
+    case 'Matching':
+      return matchItems.map((item, index) => `${item} – ${correctAnswers[index] ?? '?'}`).join('; ');
+    case 'FillInBlank':
+      return correctAnswers
+        .map((answer, index) => `(${index + 1}) ${blankAlternatives(answer).join(' / ')}`)
+        .join('; ');
+    default:
+      return correctAnswers.join(', ');
+  }
+}
+
+/**
+ * correctAnswer / correctAnswers of a test Question built from a stored answer list:
+ * part-marked types keep every part, with a readable summary as their single answer
+ */
+export function questionAnswerFields(
+  questionType: string,
+  correctAnswers: string[],
+  matchItems?: string[]
+): { correctAnswer: string; correctAnswers?: string[] } {
+  return isPartMarked(questionType)
+    ? { correctAnswer: describeAnswer(questionType as QuestionType, correctAnswers, matchItems), correctAnswers }
+    : { correctAnswer: correctAnswers[0] ?? '' };
+}
+
+/**
+ * Read a rubric stored as JSON, or undefined for anything that is not a list of key points
+ */
+export function parseRubric(json: string | null | undefined): RubricPoint[] | undefined {
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const parsed = JSON.parse(json);
+    const valid = Array.isArray(parsed) && parsed.length > 0 && parsed.every(point =>
+      typeof point?.point === 'string' && typeof point.marks === 'number' && point.marks > 0
+      && (point.keywords === undefined || (Array.isArray(point.keywords) && point.keywords.every((k: unknown) => typeof k === 'string')))
+    );
+    return valid ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
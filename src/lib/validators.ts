@@ -10,6 +10,25 @@ export const curriculumSchema = z.enum(['CBSE', 'Cambridge'], {
 });
 export const gradeSchema = z.number().int().min(1).max(12, 'Grade must be between 1 and 12');
 export const subjectsSchema = z.array(z.string()).min(1, 'At least one subject is required');
+// Anyone can sign up as a student or guardian; an admin grants the Teacher role
+export const signupRoleSchema = z.enum(['Student', 'Guardian'], {
+  errorMap: () => ({ message: 'Role must be Student or Guardian' }),
+});
+export const roleSchema = z.enum(['Student', 'Teacher', 'Guardian'], {
+  errorMap: () => ({ message: 'Role must be Student, Teacher or Guardian' }),
+});
+export const difficultySchema = z.enum(['Foundation', 'ExamRealistic', 'Challenge'], {
+  errorMap: () => ({ message: 'Difficulty must be Foundation, ExamRealistic or Challenge' }),
+});
+export const questionTypeSchema = z.enum([
+  'MultipleChoice',
+  'ShortAnswer',
+  'Numerical',
+  'TrueFalse',
+  'Matching',
+  'Ordering',
+  'FillInBlank',
+]);
 
 // Auth schemas
 export const loginSchema = z.object({
@@ -23,6 +42,11 @@ export const registerSchema = z.object({
   curriculum: curriculumSchema,
   grade: gradeSchema,
   subjects: subjectsSchema,
+  role: signupRoleSchema.default('Student'),
+});
+
+export const updateRoleSchema = z.object({
+  role: roleSchema,
 });
 
 // User profile schemas
@@ -43,13 +67,33 @@ export const userIdParamSchema = z.object({
 });
 
 // Test generation schemas
+export const paperBlueprintSchema = z.object({
+  sections: z.array(z.object({
+    section: z.string().trim().min(1, 'Section name is required').max(20),
+    questionType: questionTypeSchema,
+    questionCount: z.number().int().min(1, 'Each section needs at least one question'),
+    marks: z.number().int().min(1, 'Each question carries at least one mark').max(20),
+  })).min(1, 'A blueprint needs at least one section'),
+  topicWeights: z.record(z.number().positive('Topic weightage must be positive')).optional(),
+  durationMinutes: z.number().int().min(1).max(300).optional(),
+});
+
 export const generateTestSchema = z.object({
   userId: z.string().min(1, 'User ID is required'),
   subject: z.string().min(1, 'Subject is required'),
   topics: z.array(z.string()).min(1, 'At least one topic is required'),
   questionCount: z.number().int().min(1).max(50, 'Question count must be between 1 and 50'),
   testCount: z.number().int().min(1).max(10).default(1),
-  testMode: z.enum(['InAppExam', 'PDFDownload']).default('InAppExam'),
+  testMode: z.enum(['InAppExam', 'PDFDownload', 'Adaptive']).default('InAppExam'),
+  difficulty: difficultySchema.default('ExamRealistic'),
+  blueprint: paperBlueprintSchema.optional(),
+  blueprintTemplateId: z.string().min(1).optional(),
+}).refine(data => !(data.blueprint && data.blueprintTemplateId), {
+  message: 'Choose either a blueprint or a blueprint template, not both',
+  path: ['blueprintTemplateId'],
+}).refine(data => !data.blueprint || data.blueprint.sections.reduce((sum, section) => sum + section.questionCount, 0) === data.questionCount, {
+  message: 'Blueprint section question counts must add up to the question count',
+  path: ['blueprint'],
 });
 
 export const testIdParamSchema = z.object({
@@ -77,6 +121,152 @@ export const retryTestSchema = z.object({
   userId: z.string().min(1, 'User ID is required'),
 });
 
+export const testExportQuerySchema = z.object({
+  format: z.enum(['qti', 'moodle', 'forms']),
+});
+
+// Class schemas
+export const createClassSchema = z.object({
+  name: z.string().trim().min(1, 'Class name is required').max(100),
+  subject: z.string().min(1).optional(),
+  curriculum: curriculumSchema.optional(),
+  grade: gradeSchema.optional(),
+});
+
+export const inviteStudentSchema = z.object({
+  email: emailSchema,
+});
+
+export const joinClassSchema = z.object({
+  joinCode: z.string().trim().min(1, 'Join code is required'),
+});
+
+export const createAssignmentSchema = z.object({
+  testId: z.string().min(1, 'Test ID is required'),
+  opensAt: z.coerce.date({ invalid_type_error: 'opensAt must be a date' }),
+  closesAt: z.coerce.date({ invalid_type_error: 'closesAt must be a date' }),
+});
+
+// Guardian schemas
+export const guardianLinkSchema = z.object({
+  studentEmail: emailSchema,
+});
+
+export const respondGuardianLinkSchema = z.object({
+  approve: z.boolean({ required_error: 'approve is required' }),
+});
+
+// Question bank schemas
+export const answerToleranceSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('Absolute'), amount: z.number().positive('Tolerance must be positive') }),
+  z.object({
+    type: z.literal('Relative'),
+    amount: z.number().positive('Tolerance must be positive').max(1, 'Relative tolerance is a share of the answer, at most 1'),
+  }),
+  z.object({ type: z.literal('SignificantFigures'), figures: z.number().int().min(1).max(15) }),
+]);
+
+export const rubricPointSchema = z.object({
+  point: z.string().trim().min(1, 'Each key point needs a description'),
+  marks: z.number().positive('Each key point carries at least some marks').max(20),
+  keywords: z.array(z.string().trim().min(1)).optional(),
+});
+
+export const questionInputSchema = z.object({
+  topicId: z.string().min(1, 'Topic ID is required'),
+  questionText: z.string().trim().min(1, 'Question text is required'),
+  questionType: questionTypeSchema,
+  options: z.array(z.string().trim().min(1, 'Options cannot be empty')).optional(),
+  matchItems: z.array(z.string().trim().min(1, 'Items to match cannot be empty')).optional(),
+  imageId: z.string().min(1).optional(),
+  optionImageIds: z.array(z.string().min(1).nullable()).optional(),
+  correctAnswers: z.array(z.string().trim().min(1)).min(1, 'At least one correct answer is required'),
+  answerTolerance: answerToleranceSchema.optional(),
+  rubric: z.array(rubricPointSchema).min(1).optional(),
+  allowMultipleAnswers: z.boolean().default(false),
+  solutionSteps: z.array(z.string().trim().min(1)).default([]),
+  syllabusReference: z.string().trim().min(1, 'Syllabus reference is required'),
+  difficulty: difficultySchema.default('ExamRealistic'),
+});
+
+export const bankTopicsQuerySchema = z.object({
+  curriculum: curriculumSchema,
+  grade: z.coerce.number().int().min(1).max(12),
+  subject: z.string().min(1, 'Subject is required'),
+});
+
+export const questionSearchSchema = z.object({
+  topicId: z.string().min(1).optional(),
+  search: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const questionImportSchema = z.object({
+  format: z.enum(['csv', 'moodle', 'gift', 'qti']),
+  content: z.string().min(1, 'The file is empty'),
+  encoding: z.enum(['text', 'base64']).default('text'), // base64 for QTI content packages (.zip)
+  dryRun: z.boolean().default(false),
+  defaults: z.object({
+    curriculum: z.string().trim().min(1).optional(),
+    grade: z.number().int().min(1).max(12).optional(),
+    subject: z.string().trim().min(1).optional(),
+    topicName: z.string().trim().min(1).optional(),
+  }).default({}),
+});
+
+export const imageUploadSchema = z.object({
+  data: z.string().min(1, 'The image is empty'), // base64
+});
+
+export const moderationSearchSchema = z.object({
+  status: z.enum(['Draft', 'Approved', 'Rejected', 'Retired']).default('Draft'),
+  topicId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const moderationDecisionSchema = z.object({
+  status: z.enum(['Approved', 'Rejected', 'Retired']),
+  note: z.string().trim().max(1000).optional(),
+});
+
+export const questionIssueReportSchema = z.object({
+  testId: z.string().min(1, 'Test ID is required'),
+  category: z.enum(['WrongAnswer', 'Ambiguous', 'OffSyllabus', 'Typo']),
+  comment: z.string().trim().max(1000).optional(),
+});
+
+export const questionIssueSearchSchema = z.object({
+  status: z.enum(['Open', 'Resolved', 'Dismissed']).default('Open'),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const issueResolutionSchema = z.object({
+  status: z.enum(['Resolved', 'Dismissed']),
+  note: z.string().trim().max(1000).optional(),
+  correctAnswers: z.array(z.string().trim().min(1)).min(1).optional(),
+}).refine(data => !data.correctAnswers || data.status === 'Resolved', {
+  message: 'A corrected answer key can only be given when resolving an issue',
+  path: ['correctAnswers'],
+});
+
+export const gradeReviewSearchSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const gradeReviewDecisionSchema = z.object({
+  pointsEarned: z.number().min(0, 'Points cannot be negative'),
+  feedback: z.string().trim().min(1).max(1000).optional(),
+});
+
+export const gradeOverrideSchema = z.object({
+  pointsEarned: z.number().min(0, 'Points cannot be negative'),
+  reason: z.string().trim().min(1, 'A reason for the change is required').max(1000),
+});
+
 // Syllabus schemas
 export const syllabusParamsSchema = z.object({
   curriculum: z.string().min(1),
@@ -89,6 +279,11 @@ export const topicsParamsSchema = z.object({
   subject: z.string().min(1),
 });
 
+// Blueprint templates are kept per board, so the curriculum must be one we have
+export const blueprintParamsSchema = topicsParamsSchema.extend({
+  curriculum: curriculumSchema,
+});
+
 export const validateTopicSchema = z.object({
   customTopic: z.string().min(1, 'Topic name is required').max(200),
   curriculum: z.string().min(1),
@@ -117,7 +312,10 @@ export function formatZodErrors(error: z.ZodError): string {
 // Type exports
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RegisterInput = z.infer<typeof registerSchema>;
+export type UpdateRoleInput = z.infer<typeof updateRoleSchema>;
 export type UpdateProfileInput = z.infer<typeof updateProfileSchema>;
 export type GenerateTestInput = z.infer<typeof generateTestSchema>;
+export type CreateClassInput = z.infer<typeof createClassSchema>;
+export type CreateAssignmentInput = z.infer<typeof createAssignmentSchema>;
 export type SubmitAnswerInput = z.infer<typeof submitAnswerSchema>;
 export type ValidateTopicInput = z.infer<typeof validateTopicSchema>;
@@ -0,0 +1,216 @@
+// Minimal XML reader and writer helpers
+// Enough of XML for question interchange formats (Moodle XML, IMS QTI): elements, attributes,
+// text, CDATA and character entities. DTDs and processing instructions are skipped
+
+import { Result, Ok, Err } from '../types';
+
+export type XmlElement = {
+  name: string; // local name, without any namespace prefix
+  attributes: Record<string, string>;
+  children: XmlNode[];
+  line: number; // 1-based line of the opening tag
+};
+
+export type XmlNode = XmlElement | string;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Replace character and predefined entity references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Escape text for use in element content or a double-quoted attribute
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Parse an XML document into its root element
+ */
+export function parseXml(source: string): Result<XmlElement, string> {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+  const lineAt = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  };
+
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let pos = 0;
+
+  const skipPast = (terminator: string): boolean => {
+    const end = source.indexOf(terminator, pos);
+    if (end === -1) return false;
+    pos = end + terminator.length;
+    return true;
+  };
+
+  while (pos < source.length) {
+    if (source[pos] !== '<') {
+      const end = source.indexOf('<', pos);
+      const text = source.slice(pos, end === -1 ? source.length : end);
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(decodeEntities(text));
+      } else if (text.trim()) {
+        return Err(`Line ${lineAt(pos)}: text outside the root element`);
+      }
+      pos = end === -1 ? source.length : end;
+      continue;
+    }
+
+    if (source.startsWith('<!--', pos)) {
+      if (!skipPast('-->')) return Err(`Line ${lineAt(pos)}: unterminated comment`);
+      continue;
+    }
+    if (source.startsWith('<![CDATA[', pos)) {
+      const start = pos + '<![CDATA['.length;
+      if (!skipPast(']]>')) return Err(`Line ${lineAt(start)}: unterminated CDATA section`);
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(source.slice(start, pos - 3));
+      }
+      continue;
+    }
+    if (source.startsWith('<?', pos) || source.startsWith('<!', pos)) {
+      if (!skipPast('>')) return Err(`Line ${lineAt(pos)}: unterminated declaration`);
+      continue;
+    }
+
+    const line = lineAt(pos);
+    const end = findTagEnd(source, pos);
+    if (end === -1) return Err(`Line ${line}: unterminated tag`);
+    const tag = source.slice(pos + 1, end);
+    pos = end + 1;
+
+    if (tag.startsWith('/')) {
+      const name = localName(tag.slice(1).trim());
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        return Err(`Line ${line}: unexpected closing tag </${name}>`);
+      }
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = body.match(/^\s*([^\s/>]+)/);
+    if (!nameMatch) return Err(`Line ${line}: malformed tag`);
+
+    const element: XmlElement = {
+      name: localName(nameMatch[1]),
+      attributes: parseAttributes(body.slice(nameMatch[0].length)),
+      children: [],
+      line,
+    };
+
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(element);
+    } else if (root) {
+      return Err(`Line ${line}: more than one root element`);
+    } else {
+      root = element;
+    }
+    if (!selfClosing) stack.push(element);
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    return Err(`Line ${open.line}: <${open.name}> is never closed`);
+  }
+  if (!root) {
+    return Err('The document has no root element');
+  }
+  return Ok(root);
+}
+
+/**
+ * Child elements, optionally only those with the given local name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement => typeof child !== 'string' && (!name || child.name === name)
+  );
+}
+
+export function firstChild(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * Elements with the given local name anywhere below an element (document order)
+ */
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = [];
+  for (const child of childElements(element)) {
+    if (child.name === name) found.push(child);
+    found.push(...descendants(child, name));
+  }
+  return found;
+}
+
+/**
+ * All text below an element, concatenated
+ */
+export function textContent(node: XmlNode): string {
+  if (typeof node === 'string') return node;
+  return node.children.map(textContent).join('');
+}
+
+function localName(name: string): string {
+  const colon = name.indexOf(':');
+  return colon === -1 ? name : name.slice(colon + 1);
+}
+
+// The closing '>' of a tag, ignoring any inside quoted attribute values
+function findTagEnd(source: string, start: number): number {
+  let quote: string | null = null;
+  for (let i = start + 1; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
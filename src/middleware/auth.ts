@@ -3,6 +3,8 @@
 
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { supabase } from '../lib/supabase';
+import { prisma } from '../lib/db';
+import { UserRole } from '../types';
 
 // Extend Fastify types for authentication
 declare module 'fastify' {
@@ -11,6 +13,7 @@ declare module 'fastify' {
       id: string;      // User ID from Supabase
       userId: string;  // Alias for id (for compatibility)
       email: string;
+      role?: UserRole; // Set by requireRole
     };
   }
 }
@@ -75,3 +78,41 @@ export async function authenticate(request: FastifyRequest, reply: FastifyReply)
 export function verifyOwnership(request: FastifyRequest, resourceUserId: string): boolean {
   return request.user?.userId === resourceUserId;
 }
+
+/**
+ * Role-check pre-handler factory; must run after authenticate
+ * Loads the user's role from the database and attaches it to request.user
+ * Use as: preHandler: [authenticate, requireRole('Teacher')]
+ */
+export function requireRole(...roles: UserRole[]) {
+  return async function (request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (!request.user) {
+      reply.status(401).send({
+        success: false,
+        error: {
+          code: 'UNAUTHORIZED',
+          message: 'Authentication required',
+        },
+      });
+      return;
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: request.user.id },
+      select: { role: true },
+    });
+
+    if (!user || !roles.includes(user.role as UserRole)) {
+      reply.status(403).send({
+        success: false,
+        error: {
+          code: 'FORBIDDEN',
+          message: `This action requires the ${roles.join(' or ')} role`,
+        },
+      });
+      return;
+    }
+
+    request.user.role = user.role as UserRole;
+  };
+}
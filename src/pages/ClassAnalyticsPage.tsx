@@ -0,0 +1,252 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { apiGet, ApiError } from '../lib/api';
+import './ClassesPage.css';
+
+interface TopicAverage {
+  topicId: string;
+  topicName: string;
+  averagePercentage: number;
+  studentCount: number;
+  weakStudentCount: number;
+}
+
+interface StudentAttention {
+  userId: string;
+  email: string;
+  name?: string;
+  averageScore?: number;
+  effectiveScore: number;
+  reasons: string[];
+}
+
+interface ClassAnalytics {
+  name: string;
+  studentCount: number;
+  assignments: Array<{
+    assignmentId: string;
+    subject: string;
+    closesAt: string;
+    status: 'Upcoming' | 'Open' | 'Closed';
+    submittedCount: number;
+    averageScore?: number;
+  }>;
+  topicAverages: TopicAverage[];
+  studentsNeedingAttention: StudentAttention[];
+}
+
+interface ItemAnalysis {
+  questionId: string;
+  order: number;
+  questionText: string;
+  topicName: string;
+  answered: number;
+  attempts: number;
+  percentCorrect: number;
+  mostChosenWrongOption?: { option: string; count: number };
+  averageSecondsToAnswer?: number;
+}
+
+const formatPercent = (value?: number) => (value === undefined ? '—' : `${Math.round(value)}%`);
+
+const formatSeconds = (value?: number) => {
+  if (value === undefined) return '—';
+  if (value < 60) return `${Math.round(value)}s`;
+  return `${Math.floor(value / 60)}m ${Math.round(value % 60)}s`;
+};
+
+const ClassAnalyticsPage: React.FC = () => {
+  const { classId } = useParams<{ classId: string }>();
+  const navigate = useNavigate();
+  const [analytics, setAnalytics] = useState<ClassAnalytics | null>(null);
+  const [selectedAssignment, setSelectedAssignment] = useState('');
+  const [items, setItems] = useState<ItemAnalysis[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [classId]);
+
+  useEffect(() => {
+    if (selectedAssignment) {
+      loadItems(selectedAssignment);
+    } else {
+      setItems([]);
+    }
+  }, [selectedAssignment]);
+
+  const loadAnalytics = async () => {
+    try {
+      setLoading(true);
+      const data = await apiGet<{ analytics: ClassAnalytics }>(`/api/classes/${classId}/analytics`);
+      setAnalytics(data.analytics);
+      const latest = data.analytics.assignments.filter(a => a.submittedCount > 0).pop();
+      setSelectedAssignment(latest?.assignmentId ?? '');
+      setError('');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadItems = async (assignmentId: string) => {
+    try {
+      const data = await apiGet<{ analytics: { items: ItemAnalysis[] } }>(
+        `/api/classes/${classId}/assignments/${assignmentId}/analytics`
+      );
+      setItems(data.analytics.items);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load item analysis');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="classes-page">
+        <Header />
+        <main className="classes-main">
+          <div className="loading">Loading analytics...</div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">{analytics ? `${analytics.name} Analytics` : 'Class Analytics'}</h1>
+            <button onClick={() => navigate(`/teacher/classes/${classId}`)} className="classes-secondary-button">
+              Back to Class
+            </button>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+
+          {analytics && (
+            <>
+              <section className="classes-card">
+                <h2 className="classes-card-title">Students Needing Attention</h2>
+                {analytics.studentsNeedingAttention.length === 0 ? (
+                  <p className="classes-empty">No students are flagged right now.</p>
+                ) : (
+                  <table className="classes-table">
+                    <thead>
+                      <tr>
+                        <th>Student</th>
+                        <th>Average</th>
+                        <th>Why</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.studentsNeedingAttention.map(student => (
+                        <tr key={student.userId}>
+                          <td>{student.name || student.email}</td>
+                          <td>{formatPercent(student.averageScore)}</td>
+                          <td>{student.reasons.join(' · ')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className="classes-card">
+                <h2 className="classes-card-title">Topic Averages</h2>
+                {analytics.topicAverages.length === 0 ? (
+                  <p className="classes-empty">No submitted assignments yet.</p>
+                ) : (
+                  <table className="classes-table">
+                    <thead>
+                      <tr>
+                        <th>Topic</th>
+                        <th>Class average</th>
+                        <th>Students below 60%</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.topicAverages.map(topic => (
+                        <tr key={topic.topicId}>
+                          <td>{topic.topicName}</td>
+                          <td>
+                            <div className="analytics-bar">
+                              <div className="analytics-bar-fill" style={{ width: `${topic.averagePercentage}%` }} />
+                            </div>
+                            {formatPercent(topic.averagePercentage)}
+                          </td>
+                          <td>{topic.weakStudentCount} of {topic.studentCount}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className="classes-card">
+                <h2 className="classes-card-title">Item Analysis</h2>
+                <div className="classes-form-row">
+                  <select
+                    value={selectedAssignment}
+                    onChange={e => setSelectedAssignment(e.target.value)}
+                    className="classes-input"
+                  >
+                    <option value="">Choose an assignment</option>
+                    {analytics.assignments.map(assignment => (
+                      <option key={assignment.assignmentId} value={assignment.assignmentId}>
+                        {assignment.subject} · closes {new Date(assignment.closesAt).toLocaleDateString()} · {assignment.submittedCount}/{analytics.studentCount} submitted · avg {formatPercent(assignment.averageScore)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {items.length > 0 && (
+                  <table className="classes-table">
+                    <thead>
+                      <tr>
+                        <th>#</th>
+                        <th>Question</th>
+                        <th>Correct</th>
+                        <th>Most-chosen wrong answer</th>
+                        <th>Avg time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map(item => (
+                        <tr key={item.questionId}>
+                          <td>{item.order}</td>
+                          <td>
+                            {item.questionText}
+                            <div className="class-tile-meta">{item.topicName}</div>
+                          </td>
+                          <td>{formatPercent(item.percentCorrect)} ({item.answered}/{item.attempts} answered)</td>
+                          <td>
+                            {item.mostChosenWrongOption
+                              ? `${item.mostChosenWrongOption.option} (${item.mostChosenWrongOption.count})`
+                              : '—'}
+                          </td>
+                          <td>{formatSeconds(item.averageSecondsToAnswer)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ClassAnalyticsPage;
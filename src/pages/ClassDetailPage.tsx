@@ -0,0 +1,363 @@
+import React, { useEffect, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { apiGet, apiPost, apiDelete, ApiError } from '../lib/api';
+import { ClassSummary } from './TeacherClassesPage';
+import './ClassesPage.css';
+
+interface ClassStudent {
+  userId: string;
+  email: string;
+  name?: string;
+  joinedAt: string;
+}
+
+interface ClassInvite {
+  inviteId: string;
+  email: string;
+  createdAt: string;
+}
+
+interface Assignment {
+  assignmentId: string;
+  testId: string;
+  subject: string;
+  questionCount: number;
+  opensAt: string;
+  closesAt: string;
+  status: 'Upcoming' | 'Open' | 'Closed';
+}
+
+interface ClassDetail extends ClassSummary {
+  students: ClassStudent[];
+  pendingInvites: ClassInvite[];
+  assignments: Assignment[];
+}
+
+interface AssignableTest {
+  testId: string;
+  subject: string;
+  questionCount: number;
+  createdAt: string;
+}
+
+interface AssignmentResult {
+  userId: string;
+  email: string;
+  name?: string;
+  status: 'NotStarted' | 'InProgress' | 'Submitted';
+  testId?: string;
+  evaluation?: {
+    overallScore: number;
+    correctCount: number;
+    totalCount: number;
+  };
+}
+
+const STATUS_LABELS: Record<AssignmentResult['status'], string> = {
+  NotStarted: 'Not started',
+  InProgress: 'In progress',
+  Submitted: 'Submitted',
+};
+
+const ClassDetailPage: React.FC = () => {
+  const { classId } = useParams<{ classId: string }>();
+  const navigate = useNavigate();
+  const [detail, setDetail] = useState<ClassDetail | null>(null);
+  const [assignableTests, setAssignableTests] = useState<AssignableTest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [assignTestId, setAssignTestId] = useState('');
+  const [opensAt, setOpensAt] = useState('');
+  const [closesAt, setClosesAt] = useState('');
+  const [selectedAssignment, setSelectedAssignment] = useState<string | null>(null);
+  const [results, setResults] = useState<AssignmentResult[]>([]);
+
+  useEffect(() => {
+    loadClass();
+  }, [classId]);
+
+  const loadClass = async () => {
+    try {
+      setLoading(true);
+      const [classData, testData] = await Promise.all([
+        apiGet<{ class: ClassDetail }>(`/api/classes/${classId}`),
+        apiGet<{ tests: AssignableTest[] }>('/api/classes/assignable-tests'),
+      ]);
+      setDetail(classData.class);
+      setAssignableTests(testData.tests);
+      setError('');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load class');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await apiPost(`/api/classes/${classId}/invites`, { email: inviteEmail });
+      setInviteEmail('');
+      await loadClass();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to send invite');
+    }
+  };
+
+  const handleRemove = async (student: ClassStudent) => {
+    if (!window.confirm(`Remove ${student.name || student.email} from this class?`)) {
+      return;
+    }
+    try {
+      await apiDelete(`/api/classes/${classId}/students/${student.userId}`);
+      await loadClass();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to remove student');
+    }
+  };
+
+  const handleAssign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await apiPost(`/api/classes/${classId}/assignments`, {
+        testId: assignTestId,
+        opensAt: new Date(opensAt).toISOString(),
+        closesAt: new Date(closesAt).toISOString(),
+      });
+      setAssignTestId('');
+      setOpensAt('');
+      setClosesAt('');
+      await loadClass();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to assign test');
+    }
+  };
+
+  const toggleResults = async (assignmentId: string) => {
+    if (selectedAssignment === assignmentId) {
+      setSelectedAssignment(null);
+      return;
+    }
+    try {
+      const data = await apiGet<{ results: AssignmentResult[] }>(
+        `/api/classes/${classId}/assignments/${assignmentId}/results`
+      );
+      setResults(data.results);
+      setSelectedAssignment(assignmentId);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load results');
+    }
+  };
+
+  if (loading && !detail) {
+    return (
+      <div className="classes-page">
+        <Header />
+        <main className="classes-main">
+          <div className="loading">Loading class...</div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <div className="classes-page">
+        <Header />
+        <main className="classes-main">
+          <div className="classes-container">
+            <div className="classes-error">{error || 'Class not found'}</div>
+            <button onClick={() => navigate('/teacher/classes')} className="classes-secondary-button">
+              Back to Classes
+            </button>
+          </div>
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <div>
+              <h1 className="classes-title">{detail.name}</h1>
+              <div className="join-code">
+                Join code <span className="join-code-value">{detail.joinCode}</span>
+              </div>
+            </div>
+            <div className="classes-form-row">
+              <button onClick={() => navigate(`/teacher/classes/${classId}/analytics`)} className="classes-primary-button">
+                Analytics
+              </button>
+              <button onClick={() => navigate('/teacher/classes')} className="classes-secondary-button">
+                All Classes
+              </button>
+            </div>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+
+          <section className="classes-card">
+            <h2 className="classes-card-title">Students ({detail.students.length})</h2>
+            <form onSubmit={handleInvite} className="classes-form-row">
+              <input
+                type="email"
+                placeholder="student@example.com"
+                value={inviteEmail}
+                onChange={e => setInviteEmail(e.target.value)}
+                className="classes-input"
+                required
+              />
+              <button type="submit" className="classes-primary-button">Invite</button>
+            </form>
+
+            {detail.students.length === 0 ? (
+              <p className="classes-empty">No students yet.</p>
+            ) : (
+              <table className="classes-table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Email</th>
+                    <th>Joined</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {detail.students.map(student => (
+                    <tr key={student.userId}>
+                      <td>{student.name || '—'}</td>
+                      <td>{student.email}</td>
+                      <td>{new Date(student.joinedAt).toLocaleDateString()}</td>
+                      <td>
+                        <button onClick={() => handleRemove(student)} className="classes-link-button">
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {detail.pendingInvites.length > 0 && (
+              <p className="class-tile-meta">
+                Pending invites: {detail.pendingInvites.map(invite => invite.email).join(', ')}
+              </p>
+            )}
+          </section>
+
+          <section className="classes-card">
+            <h2 className="classes-card-title">Assignments</h2>
+            {assignableTests.length === 0 ? (
+              <p className="classes-empty">
+                Generate an online exam first, then assign it to this class.
+              </p>
+            ) : (
+              <form onSubmit={handleAssign} className="classes-form-row">
+                <select
+                  value={assignTestId}
+                  onChange={e => setAssignTestId(e.target.value)}
+                  className="classes-input"
+                  required
+                >
+                  <option value="">Choose a test</option>
+                  {assignableTests.map(test => (
+                    <option key={test.testId} value={test.testId}>
+                      {test.subject} · {test.questionCount} questions · {new Date(test.createdAt).toLocaleDateString()}
+                    </option>
+                  ))}
+                </select>
+                <label className="classes-field-label">
+                  Opens
+                  <input
+                    type="datetime-local"
+                    value={opensAt}
+                    onChange={e => setOpensAt(e.target.value)}
+                    className="classes-input"
+                    required
+                  />
+                </label>
+                <label className="classes-field-label">
+                  Closes
+                  <input
+                    type="datetime-local"
+                    value={closesAt}
+                    onChange={e => setClosesAt(e.target.value)}
+                    className="classes-input"
+                    required
+                  />
+                </label>
+                <button type="submit" className="classes-primary-button">Assign</button>
+              </form>
+            )}
+
+            {detail.assignments.map(assignment => (
+              <div key={assignment.assignmentId} className="assignment-row">
+                <div className="assignment-summary">
+                  <span className="assignment-subject">{assignment.subject}</span>
+                  <span className="class-tile-meta">
+                    {assignment.questionCount} questions · {new Date(assignment.opensAt).toLocaleString()} – {new Date(assignment.closesAt).toLocaleString()}
+                  </span>
+                  <span className={`assignment-status ${assignment.status.toLowerCase()}`}>{assignment.status}</span>
+                  <button onClick={() => toggleResults(assignment.assignmentId)} className="classes-link-button">
+                    {selectedAssignment === assignment.assignmentId ? 'Hide results' : 'View results'}
+                  </button>
+                </div>
+
+                {selectedAssignment === assignment.assignmentId && (
+                  <table className="classes-table">
+                    <thead>
+                      <tr>
+                        <th>Student</th>
+                        <th>Status</th>
+                        <th>Score</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {results.map(result => (
+                        <tr key={result.userId}>
+                          <td>{result.name || result.email}</td>
+                          <td>{STATUS_LABELS[result.status]}</td>
+                          <td>
+                            {result.evaluation
+                              ? `${Math.round(result.evaluation.overallScore)}% (${result.evaluation.correctCount}/${result.evaluation.totalCount})`
+                              : '—'}
+                          </td>
+                          <td>
+                            {result.evaluation && result.testId && (
+                              <button
+                                onClick={() => navigate(`/test/${result.testId}/results?student=${result.userId}`)}
+                                className="classes-link-button"
+                              >
+                                Review answers
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            ))}
+          </section>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ClassDetailPage;
@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Header from '../components/Header';
 import Footer from '../components/Footer';
-import { apiGet } from '../lib/api';
+import { apiGet, apiPost, ApiError } from '../lib/api';
 import './DashboardPage.css';
 
 interface UserProfile {
@@ -19,10 +19,29 @@ interface UserProfile {
   subjects: string[];
 }
 
+interface ReviewQueueSummary {
+  dueCount: number;
+  scheduledCount: number;
+  nextDueAt?: string;
+}
+
+interface Notification {
+  notificationId: string;
+  type: string;
+  message: string;
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
 const DashboardPage: React.FC = () => {
   const navigate = useNavigate();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [reviewQueue, setReviewQueue] = useState<ReviewQueueSummary | null>(null);
+  const [reviewError, setReviewError] = useState('');
+  const [startingReview, setStartingReview] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
 
   useEffect(() => {
     const token = localStorage.getItem('token');
@@ -58,8 +77,15 @@ const DashboardPage: React.FC = () => {
         curriculum: string;
         grade: number;
         subjects?: string;
+        role?: string;
       }>(`/api/users/${userId}/profile`);
 
+      // Guardians have no tests of their own; their home is the linked-students view
+      if (data.role === 'Guardian') {
+        navigate('/guardian', { replace: true });
+        return;
+      }
+
       const profileData: UserProfile = {
         userId: data.id,
         email: data.email,
@@ -77,6 +103,8 @@ const DashboardPage: React.FC = () => {
       setProfile(profileData);
       console.log('Profile loaded:', profileData);
       setLoading(false);
+      fetchReviewQueue();
+      fetchNotifications();
     } catch (err) {
       console.error('Failed to fetch profile:', err);
       // Fallback to localStorage data on error
@@ -93,6 +121,45 @@ const DashboardPage: React.FC = () => {
     }
   };
 
+  const fetchReviewQueue = async () => {
+    try {
+      const data = await apiGet<{ queue: ReviewQueueSummary }>('/api/review/queue');
+      setReviewQueue(data.queue);
+    } catch (err) {
+      console.error('Failed to fetch review queue:', err);
+    }
+  };
+
+  const fetchNotifications = async () => {
+    try {
+      const data = await apiGet<{ notifications: Notification[] }>('/api/notifications');
+      setNotifications(data.notifications.filter(notification => !notification.readAt));
+    } catch (err) {
+      console.error('Failed to fetch notifications:', err);
+    }
+  };
+
+  const handleDismissNotification = async (notificationId: string) => {
+    setNotifications(notifications.filter(notification => notification.notificationId !== notificationId));
+    try {
+      await apiPost(`/api/notifications/${notificationId}/read`, {});
+    } catch (err) {
+      console.error('Failed to mark notification as read:', err);
+    }
+  };
+
+  const handleStartReview = async () => {
+    setStartingReview(true);
+    setReviewError('');
+    try {
+      const data = await apiPost<{ review: { testId: string } }>('/api/review/daily', {});
+      navigate(`/test/${data.review.testId}`);
+    } catch (err) {
+      setReviewError(err instanceof ApiError ? err.message : 'Failed to start review');
+      setStartingReview(false);
+    }
+  };
+
   const handleLogout = () => {
     console.log('Logging out...');
     localStorage.removeItem('token');
@@ -186,6 +253,38 @@ const DashboardPage: React.FC = () => {
             </div>
           )}
           
+          {notifications.length > 0 && (
+            <div className="notifications-card">
+              <h2 className="notifications-title">Notifications</h2>
+              <ul className="notifications-list">
+                {notifications.map(notification => (
+                  <li key={notification.notificationId} className="notification-item">
+                    <span className="notification-message">{notification.message}</span>
+                    <span className="notification-actions">
+                      {notification.link && (
+                        <button
+                          className="notification-button"
+                          onClick={() => {
+                            handleDismissNotification(notification.notificationId);
+                            navigate(notification.link!);
+                          }}
+                        >
+                          View
+                        </button>
+                      )}
+                      <button
+                        className="notification-button"
+                        onClick={() => handleDismissNotification(notification.notificationId)}
+                      >
+                        Dismiss
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="features-grid">
             <div className="feature-card">
               <h3 className="feature-title">Generate Mock Test</h3>
@@ -198,6 +297,25 @@ const DashboardPage: React.FC = () => {
               </button>
             </div>
             
+            <div className="feature-card">
+              <h3 className="feature-title">Daily Review</h3>
+              <p className="feature-description">
+                {reviewQueue && reviewQueue.dueCount > 0
+                  ? `${reviewQueue.dueCount} question${reviewQueue.dueCount > 1 ? 's' : ''} you missed before ${reviewQueue.dueCount > 1 ? 'are' : 'is'} due for review`
+                  : reviewQueue?.nextDueAt
+                    ? `Nothing due today - next review on ${new Date(reviewQueue.nextDueAt).toLocaleDateString()}`
+                    : 'Questions you answer incorrectly come back here for spaced review'}
+              </p>
+              {reviewError && <p className="feature-description">{reviewError}</p>}
+              <button
+                className="feature-button"
+                onClick={handleStartReview}
+                disabled={startingReview || !reviewQueue || reviewQueue.dueCount === 0}
+              >
+                {startingReview ? 'Starting...' : 'Start Review'}
+              </button>
+            </div>
+
             <div className="feature-card">
               <h3 className="feature-title">View Test History</h3>
               <p className="feature-description">Track your performance and progress over time</p>
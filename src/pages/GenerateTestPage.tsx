@@ -12,6 +12,70 @@ interface Topic {
   name: string;
 }
 
+// Board paper pattern as returned by GET /api/syllabus/:curriculum/:grade/:subject/blueprints
+interface BlueprintTemplate {
+  templateId: string;
+  name: string;
+  blueprint: {
+    sections: Array<{
+      section: string;
+      questionType: string;
+      questionCount: number;
+      marks: number;
+    }>;
+    durationMinutes?: number;
+  };
+}
+
+// Blueprint section a generated paper has fewer questions in than it asks for
+interface SectionShortfall {
+  section: string;
+  requested: number;
+  filled: number;
+  reason?: string;
+}
+
+// Background generation job as returned by GET /api/tests/jobs/:jobId
+interface GenerationJobStatus {
+  jobId: string;
+  status: 'Queued' | 'Running' | 'Succeeded' | 'Failed';
+  totalTests: number;
+  completedTests: number;
+  progress: Array<{
+    testIndex: number;
+    testId?: string;
+    status: 'Pending' | 'Running' | 'Completed';
+    topics: Array<{
+      topicId: string;
+      topicName: string;
+      questionCount: number;
+      status: 'Pending' | 'Completed';
+    }>;
+    unfilledSections?: SectionShortfall[];
+    // Questions left out because an independent solution disagreed with their answers
+    answerVerification?: { droppedCount: number };
+  }>;
+  tests: Array<{ testId: string }>;
+  error?: string;
+}
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+// Question types an online exam can mark; a pattern with any other is downloaded as a PDF
+const ONLINE_QUESTION_TYPES = ['MultipleChoice', 'TrueFalse', 'Matching', 'Ordering'];
+
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  MultipleChoice: 'multiple choice',
+  ShortAnswer: 'short answer',
+  Numerical: 'numerical',
+  TrueFalse: 'true/false',
+  Matching: 'matching',
+  Ordering: 'ordering',
+  FillInBlank: 'fill in the blank',
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
 const GenerateTestPage: React.FC = () => {
   const navigate = useNavigate();
   const [loading, setLoading] = useState(false);
@@ -19,6 +83,7 @@ const GenerateTestPage: React.FC = () => {
   // Only show Mathematics and English for now (Science and Hindi hidden for later)
   const [subjects] = useState(['Mathematics', 'English']);
   const [topics, setTopics] = useState<Topic[]>([]);
+  const [templates, setTemplates] = useState<BlueprintTemplate[]>([]);
   const [isLoadingProfile, setIsLoadingProfile] = useState(true);
 
   // Student metadata for PDF personalization (Requirement 9)
@@ -39,13 +104,27 @@ const GenerateTestPage: React.FC = () => {
     subject: 'Mathematics',
     selectedTopics: [] as string[],
     questionCount: 10,
-    testMode: 'InAppExam' as 'InAppExam' | 'PDFDownload',
+    testMode: 'InAppExam' as 'InAppExam' | 'PDFDownload' | 'Adaptive',
+    difficulty: 'ExamRealistic' as 'Foundation' | 'ExamRealistic' | 'Challenge',
     includeAnswers: true,
+    blueprintTemplateId: '',
   });
 
+  // Live progress of the background generation job
+  const [generationJob, setGenerationJob] = useState<GenerationJobStatus | null>(null);
+
   // State for dual PDF downloads (Requirement 3.1)
   const [generatedTestId, setGeneratedTestId] = useState<string | null>(null);
 
+  // Sections of a board-pattern paper that could not be filled
+  const [unfilledSections, setUnfilledSections] = useState<SectionShortfall[]>([]);
+  // Questions left out because their answers could not be verified
+  const [unverifiedCount, setUnverifiedCount] = useState(0);
+
+  const selectedTemplate = templates.find(t => t.templateId === formData.blueprintTemplateId);
+  const templateIsOffline = !!selectedTemplate
+    && selectedTemplate.blueprint.sections.some(s => !ONLINE_QUESTION_TYPES.includes(s.questionType));
+
   // PDF download state (Requirements: 5.1, 5.2, 5.3)
   const [downloadState, setDownloadState] = useState<DownloadState>({
     loading: false,
@@ -114,8 +193,38 @@ const GenerateTestPage: React.FC = () => {
   useEffect(() => {
     // Load topics for selected subject, curriculum, and grade
     loadTopics(formData.curriculum, formData.grade, formData.subject);
+    loadTemplates(formData.curriculum, formData.grade, formData.subject);
   }, [formData.subject, formData.curriculum, formData.grade]);
 
+  const loadTemplates = async (curriculum: string, grade: number, subject: string) => {
+    try {
+      const data = await apiGet<{ templates: BlueprintTemplate[] }>(
+        `/api/syllabus/${curriculum}/${grade}/${subject}/blueprints`
+      );
+      setTemplates(data.templates);
+    } catch (error) {
+      // Patterns are optional; the test can still be set up by hand
+      console.error('Error loading paper patterns:', error);
+      setTemplates([]);
+    }
+    setFormData(prev => ({ ...prev, blueprintTemplateId: '' }));
+  };
+
+  const handleTemplateChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const template = templates.find(t => t.templateId === e.target.value);
+    const offline = !!template && template.blueprint.sections.some(s => !ONLINE_QUESTION_TYPES.includes(s.questionType));
+
+    // Adaptive tests cannot follow a pattern, and only some question types can be marked online
+    let testMode = formData.testMode;
+    if (offline) {
+      testMode = 'PDFDownload';
+    } else if (template && testMode === 'Adaptive') {
+      testMode = 'InAppExam';
+    }
+
+    setFormData({ ...formData, blueprintTemplateId: e.target.value, testMode });
+  };
+
   const loadTopics = async (curriculum: string, grade: number, subject: string) => {
     try {
       setError(''); // Clear previous errors
@@ -239,6 +348,8 @@ const GenerateTestPage: React.FC = () => {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setUnfilledSections([]);
+    setUnverifiedCount(0);
     setLoading(true);
 
     try {
@@ -255,23 +366,46 @@ const GenerateTestPage: React.FC = () => {
         return;
       }
 
-      // Generate test using API utility
-      const data = await apiPost<{ success: boolean; tests: Array<{ testId: string }> }>(
+      // Queue generation as a background job
+      const { jobId } = await apiPost<{ success: boolean; jobId: string }>(
         '/api/tests/generate',
         {
           userId,
           subject: formData.subject,
           topics: formData.selectedTopics,
-          questionCount: formData.questionCount,
+          questionCount: selectedTemplate
+            ? selectedTemplate.blueprint.sections.reduce((sum, s) => sum + s.questionCount, 0)
+            : formData.questionCount,
           testCount: 1,
           testMode: formData.testMode,
+          difficulty: formData.difficulty,
+          blueprintTemplateId: selectedTemplate?.templateId,
         }
       );
 
-      const testId = data.tests[0].testId;
+      // Poll until the job finishes, showing per-topic progress as it goes
+      let job = await apiGet<GenerationJobStatus>(`/api/tests/jobs/${jobId}`);
+      setGenerationJob(job);
+      while (job.status === 'Queued' || job.status === 'Running') {
+        await wait(JOB_POLL_INTERVAL_MS);
+        job = await apiGet<GenerationJobStatus>(`/api/tests/jobs/${jobId}`);
+        setGenerationJob(job);
+      }
+
+      if (job.status === 'Failed' || job.tests.length === 0) {
+        setError(job.error || 'Failed to generate test');
+        return;
+      }
+
+      const testId = job.tests[0].testId;
+      const unfilled = job.progress[0]?.unfilledSections ?? [];
+      setUnfilledSections(unfilled);
+      const unverified = job.progress[0]?.answerVerification?.droppedCount ?? 0;
+      setUnverifiedCount(unverified);
 
       // If PDF mode, store test ID and show download buttons (Requirement 3.4)
-      if (formData.testMode === 'PDFDownload') {
+      // An online test missing questions waits for the student to start it once they have seen what is missing
+      if (formData.testMode === 'PDFDownload' || unfilled.length > 0 || unverified > 0) {
         setGeneratedTestId(testId);
       } else {
         // Navigate to test execution page for online exam
@@ -287,6 +421,7 @@ const GenerateTestPage: React.FC = () => {
       }
     } finally {
       setLoading(false);
+      setGenerationJob(null);
     }
   };
 
@@ -460,23 +595,79 @@ const GenerateTestPage: React.FC = () => {
               )}
             </div>
 
-            <div className="form-section">
-              <label htmlFor="questionCount" className="form-label">
-                Number of Questions: {formData.questionCount}
-              </label>
-              <input
-                type="range"
-                id="questionCount"
-                min="5"
-                max="50"
-                value={formData.questionCount}
-                onChange={handleQuestionCountChange}
-                className="form-range"
-              />
-              <div className="range-labels">
-                <span>5</span>
-                <span>50</span>
+            {templates.length > 0 && (
+              <div className="form-section">
+                <label htmlFor="blueprintTemplate" className="form-label">Paper Pattern</label>
+                <select
+                  id="blueprintTemplate"
+                  value={formData.blueprintTemplateId}
+                  onChange={handleTemplateChange}
+                  className="form-select"
+                >
+                  <option value="">Custom - choose the number of questions</option>
+                  {templates.map(template => (
+                    <option key={template.templateId} value={template.templateId}>
+                      {template.name}
+                    </option>
+                  ))}
+                </select>
+                {selectedTemplate && (
+                  <div className="blueprint-summary">
+                    <ul className="blueprint-sections">
+                      {selectedTemplate.blueprint.sections.map(s => (
+                        <li key={s.section}>
+                          <span>Section {s.section}</span>
+                          <span>
+                            {s.questionCount} {QUESTION_TYPE_LABELS[s.questionType] ?? s.questionType} × {s.marks} {s.marks === 1 ? 'mark' : 'marks'}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                    <p className="blueprint-totals">
+                      {selectedTemplate.blueprint.sections.reduce((sum, s) => sum + s.questionCount * s.marks, 0)} marks
+                      {selectedTemplate.blueprint.durationMinutes ? ` · ${selectedTemplate.blueprint.durationMinutes} minutes` : ''}
+                    </p>
+                    {templateIsOffline && (
+                      <p className="help-text">This pattern has written answers, so it is downloaded as a PDF.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {!selectedTemplate && (
+              <div className="form-section">
+                <label htmlFor="questionCount" className="form-label">
+                  Number of Questions: {formData.questionCount}
+                </label>
+                <input
+                  type="range"
+                  id="questionCount"
+                  min="5"
+                  max="50"
+                  value={formData.questionCount}
+                  onChange={handleQuestionCountChange}
+                  className="form-range"
+                />
+                <div className="range-labels">
+                  <span>5</span>
+                  <span>50</span>
+                </div>
               </div>
+            )}
+
+            <div className="form-section">
+              <label htmlFor="difficulty" className="form-label">Difficulty</label>
+              <select
+                id="difficulty"
+                value={formData.difficulty}
+                onChange={(e) => setFormData({ ...formData, difficulty: e.target.value as 'Foundation' | 'ExamRealistic' | 'Challenge' })}
+                className="form-select"
+              >
+                <option value="Foundation">Foundation - easier, builds the basics</option>
+                <option value="ExamRealistic">Exam Realistic - matches the real paper</option>
+                <option value="Challenge">Challenge - harder than the exam</option>
+              </select>
             </div>
 
             <div className="form-section">
@@ -488,7 +679,8 @@ const GenerateTestPage: React.FC = () => {
                     name="testMode"
                     value="InAppExam"
                     checked={formData.testMode === 'InAppExam'}
-                    onChange={(e) => setFormData({ ...formData, testMode: e.target.value as 'InAppExam' | 'PDFDownload' })}
+                    disabled={templateIsOffline}
+                    onChange={(e) => setFormData({ ...formData, testMode: e.target.value as 'InAppExam' | 'PDFDownload' | 'Adaptive' })}
                   />
                   <span>Take Exam Online</span>
                   <p className="option-description">Take the test directly in the browser with instant results</p>
@@ -499,23 +691,101 @@ const GenerateTestPage: React.FC = () => {
                     name="testMode"
                     value="PDFDownload"
                     checked={formData.testMode === 'PDFDownload'}
-                    onChange={(e) => setFormData({ ...formData, testMode: e.target.value as 'InAppExam' | 'PDFDownload' })}
+                    onChange={(e) => setFormData({ ...formData, testMode: e.target.value as 'InAppExam' | 'PDFDownload' | 'Adaptive' })}
                   />
                   <span>Download as PDF</span>
                   <p className="option-description">Download the test for offline practice</p>
                 </label>
+                <label className="radio-option">
+                  <input
+                    type="radio"
+                    name="testMode"
+                    value="Adaptive"
+                    checked={formData.testMode === 'Adaptive'}
+                    disabled={!!selectedTemplate}
+                    onChange={(e) => setFormData({ ...formData, testMode: e.target.value as 'InAppExam' | 'PDFDownload' | 'Adaptive' })}
+                  />
+                  <span>Adaptive Exam</span>
+                  <p className="option-description">Each question adapts to your answers so far; stops once your level is measured</p>
+                </label>
               </div>
             </div>
 
             <button
               type="submit"
               className="generate-button"
-              disabled={loading || formData.selectedTopics.length === 0 || (formData.testMode === 'PDFDownload' && generatedTestId !== null)}
+              disabled={loading || formData.selectedTopics.length === 0 || generatedTestId !== null}
             >
               {loading ? 'Generating Test...' : formData.testMode === 'PDFDownload' ? 'Generate Test' : 'Generate Test'}
             </button>
           </form>
 
+          {/* Background generation progress */}
+          {generationJob && (
+            <div className="generation-progress">
+              <div className="generation-progress-header">
+                <div className="spinner"></div>
+                <span>
+                  {generationJob.status === 'Queued'
+                    ? 'Waiting to start...'
+                    : `Generating test ${Math.min(generationJob.completedTests + 1, generationJob.totalTests)} of ${generationJob.totalTests}`}
+                </span>
+              </div>
+              {generationJob.progress
+                .filter(test => test.status === 'Running')
+                .map(test => (
+                  <ul key={test.testIndex} className="generation-progress-topics">
+                    {test.topics.map(topic => (
+                      <li
+                        key={topic.topicId}
+                        className={`generation-progress-topic ${topic.status === 'Completed' ? 'completed' : 'pending'}`}
+                      >
+                        <span>{topic.status === 'Completed' ? '✓' : '…'} {topic.topicName}</span>
+                        <span className="topic-question-count">{topic.questionCount} questions</span>
+                      </li>
+                    ))}
+                  </ul>
+                ))}
+            </div>
+          )}
+
+          {/* Sections a board-pattern paper came up short in */}
+          {unfilledSections.length > 0 && (
+            <div className="unfilled-sections">
+              <strong>Some sections of this paper could not be filled:</strong>
+              <ul>
+                {unfilledSections.map(s => (
+                  <li key={s.section}>
+                    Section {s.section}: {s.filled} of {s.requested} questions{s.reason ? ` (${s.reason})` : ''}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Blueprint sections already explain questions they are missing */}
+          {unverifiedCount > 0 && unfilledSections.length === 0 && (
+            <div className="unfilled-sections">
+              <strong>
+                {unverifiedCount} question{unverifiedCount === 1 ? ' was' : 's were'} left out because the
+                answer could not be verified, so this test has fewer questions than you asked for.
+              </strong>
+            </div>
+          )}
+
+          {formData.testMode !== 'PDFDownload' && generatedTestId && (
+            <div className="pdf-download-section">
+              <h2>Test Generated</h2>
+              <p>The test has fewer questions than you asked for. You can still take it.</p>
+              <button
+                onClick={() => navigate(`/test/${generatedTestId}`)}
+                className="download-button download-questions"
+              >
+                Start Test
+              </button>
+            </div>
+          )}
+
           {/* Dual PDF Download Buttons (Requirements: 3.4, 3.5, 3.6, 5.1, 5.2, 5.3) */}
           {formData.testMode === 'PDFDownload' && generatedTestId && (
             <div className="pdf-download-section">
@@ -561,6 +831,14 @@ const GenerateTestPage: React.FC = () => {
                   ✅ Download Answer Key
                 </button>
               </div>
+              <p className="export-links">
+                Export for your school's LMS:{' '}
+                <a href={getApiUrl(`/api/tests/${generatedTestId}/export?format=qti`)} download>QTI 2.1</a>
+                {' · '}
+                <a href={getApiUrl(`/api/tests/${generatedTestId}/export?format=moodle`)} download>Moodle XML</a>
+                {' · '}
+                <a href={getApiUrl(`/api/tests/${generatedTestId}/export?format=forms`)} download>Forms JSON</a>
+              </p>
               <button
                 onClick={() => navigate('/dashboard')}
                 className="back-button"
@@ -0,0 +1,236 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import MathText from '../components/MathText';
+import { apiGet, apiPost, ApiError } from '../lib/api';
+import './ClassesPage.css';
+import './QuestionBankPage.css';
+
+interface RubricPoint {
+  point: string;
+  marks: number;
+  keywords?: string[];
+}
+
+interface ShortAnswerGrade {
+  gradeId: string;
+  testId: string;
+  questionId: string;
+  userAnswer: string;
+  points: number;
+  pointsEarned: number;
+  matchedPoints: number[];
+  confidence: number;
+  method: 'LLM' | 'Keyword';
+  feedback?: string;
+  createdAt: string;
+  question?: {
+    questionText: string;
+    correctAnswers: string[];
+    rubric?: RubricPoint[];
+  };
+}
+
+const PAGE_SIZE = 25;
+
+const GradingReviewPage: React.FC = () => {
+  const [grades, setGrades] = useState<ShortAnswerGrade[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<ShortAnswerGrade | null>(null);
+  const [pointsEarned, setPointsEarned] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchGrades(0);
+  }, []);
+
+  const fetchGrades = async (nextOffset: number) => {
+    try {
+      const params = new URLSearchParams({ limit: String(PAGE_SIZE), offset: String(nextOffset) });
+      const data = await apiGet<{ grades: ShortAnswerGrade[]; total: number }>(`/api/grading/reviews?${params}`);
+      setGrades(data.grades);
+      setTotal(data.total);
+      setOffset(nextOffset);
+      setSelected(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load answers for review');
+    }
+  };
+
+  const openGrade = (grade: ShortAnswerGrade) => {
+    setSelected(grade);
+    setPointsEarned(String(grade.pointsEarned));
+    setFeedback(grade.feedback ?? '');
+    setError('');
+    setMessage('');
+  };
+
+  const handleResolve = async () => {
+    if (!selected) return;
+
+    const points = Number(pointsEarned);
+    if (pointsEarned.trim() === '' || Number.isNaN(points) || points < 0 || points > selected.points) {
+      setError(`Enter marks between 0 and ${selected.points}`);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const data = await apiPost<{ overallScore?: number }>(
+        `/api/grading/reviews/${selected.gradeId}/resolve`,
+        { pointsEarned: points, feedback: feedback.trim() || undefined }
+      );
+      setMessage(data.overallScore !== undefined
+        ? `Marks saved; the test now scores ${Math.round(data.overallScore)}%`
+        : 'Marks saved');
+      await fetchGrades(offset);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save the marks');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">Answers to Review</h1>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+          {message && <div className="question-bank-message">{message}</div>}
+
+          <div className="classes-card">
+            {grades.length === 0 ? (
+              <p className="classes-empty">No answers are waiting for review.</p>
+            ) : (
+              <table className="classes-table">
+                <thead>
+                  <tr>
+                    <th>Question</th>
+                    <th>Answer</th>
+                    <th>Suggested</th>
+                    <th>Confidence</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {grades.map(grade => (
+                    <tr
+                      key={grade.gradeId}
+                      className={`question-bank-row ${selected?.gradeId === grade.gradeId ? 'question-bank-row-selected' : ''}`}
+                      onClick={() => openGrade(grade)}
+                    >
+                      <td>{grade.question?.questionText}</td>
+                      <td>{grade.userAnswer}</td>
+                      <td>{grade.pointsEarned} / {grade.points}</td>
+                      <td>{Math.round(grade.confidence * 100)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {total > PAGE_SIZE && (
+              <div className="classes-form-row">
+                <button
+                  className="classes-secondary-button"
+                  disabled={offset === 0}
+                  onClick={() => fetchGrades(Math.max(offset - PAGE_SIZE, 0))}
+                >
+                  Previous
+                </button>
+                <span className="class-tile-meta">
+                  {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </span>
+                <button
+                  className="classes-secondary-button"
+                  disabled={offset + PAGE_SIZE >= total}
+                  onClick={() => fetchGrades(offset + PAGE_SIZE)}
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+
+          {selected && selected.question && (
+            <div className="question-bank-editor">
+              <div className="classes-card">
+                <h2 className="classes-card-title">Question</h2>
+                <p className="question-bank-preview-text"><MathText text={selected.question.questionText} /></p>
+                <p className="class-tile-meta">
+                  Model answer: <MathText text={selected.question.correctAnswers.join(', ')} />
+                </p>
+                {selected.question.rubric && (
+                  <ol className="question-bank-preview-options">
+                    {selected.question.rubric.map((rubricPoint, index) => (
+                      <li
+                        key={index}
+                        className={selected.matchedPoints.includes(index) ? 'question-bank-correct' : ''}
+                      >
+                        <MathText text={rubricPoint.point} /> [{rubricPoint.marks}]
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                <p className="question-bank-preview-text">Student's answer: <MathText text={selected.userAnswer} /></p>
+                <p className="class-tile-meta">
+                  Marked by {selected.method === 'LLM' ? 'the AI grader' : 'keywords'}
+                  {selected.feedback && `: ${selected.feedback}`}
+                </p>
+              </div>
+
+              <div className="classes-card">
+                <h2 className="classes-card-title">Marks</h2>
+                <label className="classes-field-label">
+                  Marks (out of {selected.points})
+                  <input
+                    type="number"
+                    min={0}
+                    max={selected.points}
+                    step={0.5}
+                    value={pointsEarned}
+                    onChange={e => setPointsEarned(e.target.value)}
+                    className="classes-input"
+                  />
+                </label>
+
+                <label className="classes-field-label">
+                  Feedback to the student (optional)
+                  <textarea
+                    value={feedback}
+                    onChange={e => setFeedback(e.target.value)}
+                    className="classes-input question-bank-textarea"
+                    rows={2}
+                  />
+                </label>
+                <p className="class-tile-meta">
+                  Saving the marks re-scores the student's test.
+                </p>
+
+                <div className="classes-form-row">
+                  <button onClick={handleResolve} className="classes-primary-button" disabled={saving}>
+                    Save marks
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default GradingReviewPage;
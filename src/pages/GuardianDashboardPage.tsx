@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { apiGet, apiPost, apiDelete, ApiError } from '../lib/api';
+import './ClassesPage.css';
+
+export interface GuardianLink {
+  linkId: string;
+  guardianEmail: string;
+  guardianName?: string;
+  studentEmail: string;
+  studentId?: string;
+  studentName?: string;
+  status: 'Pending' | 'Approved' | 'Declined' | 'Revoked';
+  createdAt: string;
+}
+
+interface StudentOverview {
+  student: { userId: string; email: string; name?: string; curriculum: string; grade: number };
+  history: Array<{ testId: string; testDate: string; subject: string; overallScore: number }>;
+  weakTopics: Array<{ topicId: string; topicName: string; score: number; subject: string }>;
+  trends: Record<string, Array<{ dataPoints: Array<{ date: string; score: number }> }>>;
+}
+
+interface TestReport {
+  testId: string;
+  evaluation: {
+    overallScore: number;
+    correctCount: number;
+    totalCount: number;
+    topicScores: Array<{ topicId: string; topicName: string; percentage: number }>;
+  };
+  suggestions: Array<{ topicId: string; syllabusSection: string; conceptsToReview: string[] }>;
+}
+
+const GuardianDashboardPage: React.FC = () => {
+  const [links, setLinks] = useState<GuardianLink[]>([]);
+  const [studentEmail, setStudentEmail] = useState('');
+  const [overview, setOverview] = useState<StudentOverview | null>(null);
+  const [report, setReport] = useState<TestReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadLinks();
+  }, []);
+
+  const loadLinks = async () => {
+    try {
+      setLoading(true);
+      const data = await apiGet<{ links: GuardianLink[] }>('/api/guardian/links');
+      setLinks(data.links);
+      setError('');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load linked students');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRequest = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await apiPost('/api/guardian/links', { studentEmail });
+      setStudentEmail('');
+      await loadLinks();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to send request');
+    }
+  };
+
+  const handleRevoke = async (link: GuardianLink) => {
+    try {
+      await apiDelete(`/api/guardian/links/${link.linkId}`);
+      if (overview?.student.userId === link.studentId) {
+        setOverview(null);
+        setReport(null);
+      }
+      await loadLinks();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to remove link');
+    }
+  };
+
+  const handleView = async (studentId: string) => {
+    try {
+      const data = await apiGet<{ overview: StudentOverview }>(`/api/guardian/students/${studentId}`);
+      setOverview(data.overview);
+      setReport(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load student');
+    }
+  };
+
+  const handleViewReport = async (testId: string) => {
+    if (!overview) return;
+    try {
+      const data = await apiGet<{ report: TestReport }>(
+        `/api/guardian/students/${overview.student.userId}/tests/${testId}/report`
+      );
+      setReport(data.report);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load report');
+    }
+  };
+
+  const latestTrendScore = (subject: string) => {
+    const points = overview?.trends[subject]?.[0]?.dataPoints ?? [];
+    if (points.length < 2) return undefined;
+    return points[points.length - 1].score - points[0].score;
+  };
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">My Students</h1>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+
+          <form onSubmit={handleRequest} className="classes-card classes-form">
+            <h2 className="classes-card-title">Link a Student</h2>
+            <div className="classes-form-row">
+              <input
+                type="email"
+                placeholder="Student's email address"
+                value={studentEmail}
+                onChange={e => setStudentEmail(e.target.value)}
+                className="classes-input"
+                required
+              />
+              <button type="submit" className="classes-primary-button">Send Request</button>
+            </div>
+            <p className="classes-empty">The student approves the request from their Classes page.</p>
+          </form>
+
+          {loading ? (
+            <div className="loading">Loading students...</div>
+          ) : (
+            <section className="classes-card">
+              <h2 className="classes-card-title">Linked Students</h2>
+              {links.length === 0 ? (
+                <p className="classes-empty">You have not requested access to any students yet.</p>
+              ) : (
+                links.map(link => (
+                  <div key={link.linkId} className="classes-card invite-row">
+                    <span>
+                      {link.studentName || link.studentEmail}
+                      <span className="class-tile-meta"> · {link.status}</span>
+                    </span>
+                    <span>
+                      {link.status === 'Approved' && link.studentId && (
+                        <button onClick={() => handleView(link.studentId!)} className="classes-primary-button">
+                          View
+                        </button>
+                      )}{' '}
+                      <button onClick={() => handleRevoke(link)} className="classes-secondary-button">
+                        Remove
+                      </button>
+                    </span>
+                  </div>
+                ))
+              )}
+            </section>
+          )}
+
+          {overview && (
+            <>
+              <section className="classes-card">
+                <h2 className="classes-card-title">
+                  {overview.student.name || overview.student.email} · {overview.student.curriculum} Grade {overview.student.grade}
+                </h2>
+                {overview.history.length === 0 ? (
+                  <p className="classes-empty">No tests have been submitted yet.</p>
+                ) : (
+                  <table className="classes-table">
+                    <thead>
+                      <tr>
+                        <th>Date</th>
+                        <th>Subject</th>
+                        <th>Score</th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {overview.history.map(entry => (
+                        <tr key={entry.testId}>
+                          <td>{new Date(entry.testDate).toLocaleDateString()}</td>
+                          <td>{entry.subject}</td>
+                          <td>{Math.round(entry.overallScore)}%</td>
+                          <td>
+                            <button onClick={() => handleViewReport(entry.testId)} className="classes-link-button">
+                              Details
+                            </button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </section>
+
+              <section className="classes-card">
+                <h2 className="classes-card-title">Weak Topics and Trends</h2>
+                {Object.keys(overview.trends).length > 0 && (
+                  <ul className="classes-list">
+                    {Object.keys(overview.trends).map(subject => {
+                      const change = latestTrendScore(subject);
+                      return (
+                        <li key={subject}>
+                          {subject}
+                          {change !== undefined && (
+                            <span className="class-tile-meta">
+                              {' '}· {change >= 0 ? '+' : ''}{Math.round(change)} points since first test
+                            </span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {overview.weakTopics.length === 0 ? (
+                  <p className="classes-empty">No weak topics in the latest tests.</p>
+                ) : (
+                  <ul className="classes-list">
+                    {overview.weakTopics.map(topic => (
+                      <li key={`${topic.subject}-${topic.topicId}`}>
+                        {topic.topicName}
+                        <span className="class-tile-meta"> · {topic.subject} · {Math.round(topic.score)}%</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+
+          {report && (
+            <section className="classes-card">
+              <h2 className="classes-card-title">
+                Test Report · {Math.round(report.evaluation.overallScore)}% ({report.evaluation.correctCount}/{report.evaluation.totalCount})
+              </h2>
+              <ul className="classes-list">
+                {report.evaluation.topicScores.map(topic => (
+                  <li key={topic.topicId}>
+                    {topic.topicName}
+                    <span className="class-tile-meta"> · {Math.round(topic.percentage)}%</span>
+                  </li>
+                ))}
+              </ul>
+              {report.suggestions.length > 0 && (
+                <ul className="classes-list">
+                  {report.suggestions.map(suggestion => (
+                    <li key={suggestion.topicId}>
+                      Review {suggestion.syllabusSection}: {suggestion.conceptsToReview.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default GuardianDashboardPage;
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import MathText from '../components/MathText';
+import { apiGet, apiPost, ApiError } from '../lib/api';
+import './ClassesPage.css';
+import './QuestionBankPage.css';
+
+type IssueStatus = 'Open' | 'Resolved' | 'Dismissed';
+
+interface QuestionIssue {
+  issueId: string;
+  questionId: string;
+  testId?: string;
+  category: 'WrongAnswer' | 'Ambiguous' | 'OffSyllabus' | 'Typo';
+  comment?: string;
+  status: IssueStatus;
+  resolutionNote?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  question?: {
+    questionText: string;
+    questionType: string;
+    options?: string[];
+    correctAnswers: string[];
+    version: number;
+  };
+}
+
+const CATEGORY_LABELS: Record<QuestionIssue['category'], string> = {
+  WrongAnswer: 'Wrong answer',
+  Ambiguous: 'Ambiguous',
+  OffSyllabus: 'Off-syllabus',
+  Typo: 'Typo',
+};
+
+const PAGE_SIZE = 25;
+
+const lines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const IssueTriagePage: React.FC = () => {
+  const [status, setStatus] = useState<IssueStatus>('Open');
+  const [issues, setIssues] = useState<QuestionIssue[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<QuestionIssue | null>(null);
+  const [correctAnswers, setCorrectAnswers] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchIssues(0);
+  }, [status]);
+
+  const fetchIssues = async (nextOffset: number) => {
+    try {
+      const params = new URLSearchParams({ status, limit: String(PAGE_SIZE), offset: String(nextOffset) });
+      const data = await apiGet<{ issues: QuestionIssue[]; total: number }>(`/api/admin/issues?${params}`);
+      setIssues(data.issues);
+      setTotal(data.total);
+      setOffset(nextOffset);
+      setSelected(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load reported issues');
+    }
+  };
+
+  const openIssue = (issue: QuestionIssue) => {
+    setSelected(issue);
+    setCorrectAnswers((issue.question?.correctAnswers ?? []).join('\n'));
+    setNote('');
+    setError('');
+    setMessage('');
+  };
+
+  const handleResolve = async (resolution: 'correct' | 'Resolved' | 'Dismissed') => {
+    if (!selected) return;
+
+    const corrected = lines(correctAnswers);
+    if (resolution === 'correct' && corrected.length === 0) {
+      setError('Enter the corrected answer');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    try {
+      const data = await apiPost<{ reevaluatedTests: number; scoresChanged: number; gradesSentForReview: number }>(
+        `/api/admin/issues/${selected.issueId}/resolve`,
+        {
+          status: resolution === 'Dismissed' ? 'Dismissed' : 'Resolved',
+          note: note.trim() || undefined,
+          correctAnswers: resolution === 'correct' ? corrected : undefined,
+        }
+      );
+      setMessage(resolution === 'correct'
+        ? `Answer key corrected; ${data.reevaluatedTests} ${data.reevaluatedTests === 1 ? 'test' : 'tests'} re-marked, ${data.scoresChanged} ${data.scoresChanged === 1 ? 'score' : 'scores'} changed`
+          + (data.gradesSentForReview > 0
+            ? `, ${data.gradesSentForReview} short ${data.gradesSentForReview === 1 ? 'answer' : 'answers'} sent for review`
+            : '')
+        : resolution === 'Resolved' ? 'Report resolved' : 'Report dismissed');
+      await fetchIssues(offset);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to resolve the report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">Reported Issues</h1>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+          {message && <div className="question-bank-message">{message}</div>}
+
+          <div className="classes-card">
+            <div className="classes-form-row">
+              <label className="classes-field-label">
+                Status
+                <select
+                  value={status}
+                  onChange={e => setStatus(e.target.value as IssueStatus)}
+                  className="classes-input"
+                >
+                  <option value="Open">Open</option>
+                  <option value="Resolved">Resolved</option>
+                  <option value="Dismissed">Dismissed</option>
+                </select>
+              </label>
+            </div>
+
+            {issues.length === 0 ? (
+              <p className="classes-empty">No reports with this status.</p>
+            ) : (
+              <table className="classes-table">
+                <thead>
+                  <tr>
+                    <th>Question</th>
+                    <th>Problem</th>
+                    <th>Comment</th>
+                    <th>Reported</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {issues.map(issue => (
+                    <tr
+                      key={issue.issueId}
+                      className={`question-bank-row ${selected?.issueId === issue.issueId ? 'question-bank-row-selected' : ''}`}
+                      onClick={() => openIssue(issue)}
+                    >
+                      <td>{issue.question?.questionText}</td>
+                      <td>{CATEGORY_LABELS[issue.category]}</td>
+                      <td>{issue.comment}</td>
+                      <td>{new Date(issue.createdAt).toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {total > PAGE_SIZE && (
+              <div className="classes-form-row">
+                <button
+                  className="classes-secondary-button"
+                  disabled={offset === 0}
+                  onClick={() => fetchIssues(Math.max(offset - PAGE_SIZE, 0))}
+                >
+                  Previous
+                </button>
+                <span className="class-tile-meta">
+                  {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </span>
+                <button
+                  className="classes-secondary-button"
+                  disabled={offset + PAGE_SIZE >= total}
+                  onClick={() => fetchIssues(offset + PAGE_SIZE)}
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+
+          {selected && selected.question && (
+            <div className="question-bank-editor">
+              <div className="classes-card">
+                <h2 className="classes-card-title">Question (v{selected.question.version})</h2>
+                <p className="question-bank-preview-text"><MathText text={selected.question.questionText} /></p>
+                {selected.question.options && (
+                  <ol type="A" className="question-bank-preview-options">
+                    {selected.question.options.map(option => (
+                      <li
+                        key={option}
+                        className={selected.question!.correctAnswers.includes(option) ? 'question-bank-correct' : ''}
+                      >
+                        <MathText text={option} />
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                <p className="class-tile-meta">
+                  Current answer: <MathText text={selected.question.correctAnswers.join(', ')} />
+                </p>
+                {selected.comment && (
+                  <p className="question-bank-preview-text">Student's comment: {selected.comment}</p>
+                )}
+              </div>
+
+              <div className="classes-card">
+                <h2 className="classes-card-title">Triage</h2>
+                {selected.status === 'Open' ? (
+                  <>
+                    <label className="classes-field-label">
+                      Correct answers (one per line)
+                      <textarea
+                        value={correctAnswers}
+                        onChange={e => setCorrectAnswers(e.target.value)}
+                        className="classes-input question-bank-textarea"
+                        rows={2}
+                      />
+                    </label>
+                    <p className="class-tile-meta">
+                      Correcting the answer re-marks every test that used this question and notifies students whose score changes.
+                    </p>
+
+                    <label className="classes-field-label">
+                      Note to the student (optional)
+                      <textarea
+                        value={note}
+                        onChange={e => setNote(e.target.value)}
+                        className="classes-input question-bank-textarea"
+                        rows={2}
+                      />
+                    </label>
+
+                    <div className="classes-form-row">
+                      <button onClick={() => handleResolve('correct')} className="classes-primary-button" disabled={saving}>
+                        Correct answer
+                      </button>
+                      <button onClick={() => handleResolve('Resolved')} className="classes-secondary-button" disabled={saving}>
+                        Resolve without change
+                      </button>
+                      <button onClick={() => handleResolve('Dismissed')} className="classes-link-button" disabled={saving}>
+                        Dismiss
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <p className="class-tile-meta">
+                    {selected.status} on {selected.resolvedAt ? new Date(selected.resolvedAt).toLocaleDateString() : '-'}
+                    {selected.resolutionNote && `: ${selected.resolutionNote}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default IssueTriagePage;
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import MathText from '../components/MathText';
+import { apiGet, apiPost, ApiError } from '../lib/api';
+import type { BankQuestion, QuestionStatus } from './QuestionBankPage';
+import './ClassesPage.css';
+import './QuestionBankPage.css';
+
+const PAGE_SIZE = 25;
+
+// Decisions a moderator can make from each status, mirroring the server's transitions
+const DECISIONS: Record<QuestionStatus, { status: Exclude<QuestionStatus, 'Draft'>; label: string }[]> = {
+  Draft: [{ status: 'Approved', label: 'Approve' }, { status: 'Rejected', label: 'Reject' }],
+  Approved: [{ status: 'Retired', label: 'Retire' }],
+  Rejected: [{ status: 'Approved', label: 'Approve' }],
+  Retired: [{ status: 'Approved', label: 'Reinstate' }],
+};
+
+const formatScore = (score?: number): string =>
+  score === undefined ? 'Not scored' : `${Math.round(score * 100)}%`;
+
+const ModerationPage: React.FC = () => {
+  const [status, setStatus] = useState<QuestionStatus>('Draft');
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [selected, setSelected] = useState<BankQuestion | null>(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchQueue(0);
+  }, [status]);
+
+  const fetchQueue = async (nextOffset: number) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ status, limit: String(PAGE_SIZE), offset: String(nextOffset) });
+      const data = await apiGet<{ questions: BankQuestion[]; total: number }>(`/api/moderation/questions?${params}`);
+      setQuestions(data.questions);
+      setTotal(data.total);
+      setOffset(nextOffset);
+      setSelected(null);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load the moderation queue');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openQuestion = (question: BankQuestion) => {
+    setSelected(question);
+    setNote(question.reviewNote ?? '');
+    setError('');
+    setMessage('');
+  };
+
+  const handleDecision = async (decision: Exclude<QuestionStatus, 'Draft'>) => {
+    if (!selected) return;
+
+    setSaving(true);
+    setError('');
+    try {
+      await apiPost<{ question: BankQuestion }>(
+        `/api/moderation/questions/${selected.questionId}/review`,
+        { status: decision, note: note.trim() || undefined }
+      );
+      setMessage(`Question marked ${decision}`);
+      await fetchQueue(offset);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save the decision');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">Question Moderation</h1>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+          {message && <div className="question-bank-message">{message}</div>}
+
+          <div className="classes-card">
+            <div className="classes-form-row">
+              <label className="classes-field-label">
+                Status
+                <select
+                  value={status}
+                  onChange={e => setStatus(e.target.value as QuestionStatus)}
+                  className="classes-input"
+                >
+                  <option value="Draft">Awaiting review</option>
+                  <option value="Approved">Approved</option>
+                  <option value="Rejected">Rejected</option>
+                  <option value="Retired">Retired</option>
+                </select>
+              </label>
+            </div>
+
+            {loading ? (
+              <p className="classes-empty">Loading questions...</p>
+            ) : questions.length === 0 ? (
+              <p className="classes-empty">No questions with this status.</p>
+            ) : (
+              <table className="classes-table">
+                <thead>
+                  <tr>
+                    <th>Question</th>
+                    <th>Difficulty</th>
+                    <th>Syllabus alignment</th>
+                    <th>Generated</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {questions.map(question => (
+                    <tr
+                      key={question.questionId}
+                      className={`question-bank-row ${selected?.questionId === question.questionId ? 'question-bank-row-selected' : ''}`}
+                      onClick={() => openQuestion(question)}
+                    >
+                      <td>{question.questionText}</td>
+                      <td>{question.difficulty}</td>
+                      <td>{formatScore(question.alignmentScore)}</td>
+                      <td>{new Date(question.createdAt).toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {total > PAGE_SIZE && (
+              <div className="classes-form-row">
+                <button
+                  className="classes-secondary-button"
+                  disabled={offset === 0}
+                  onClick={() => fetchQueue(Math.max(offset - PAGE_SIZE, 0))}
+                >
+                  Previous
+                </button>
+                <span className="class-tile-meta">
+                  {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+                </span>
+                <button
+                  className="classes-secondary-button"
+                  disabled={offset + PAGE_SIZE >= total}
+                  onClick={() => fetchQueue(offset + PAGE_SIZE)}
+                >
+                  Next
+                </button>
+              </div>
+            )}
+          </div>
+
+          {selected && (
+            <div className="question-bank-editor">
+              <div className="classes-card">
+                <h2 className="classes-card-title">Question</h2>
+                <p className="question-bank-preview-text"><MathText text={selected.questionText} /></p>
+                {selected.options ? (
+                  <ol type="A" className="question-bank-preview-options">
+                    {selected.options.map(option => (
+                      <li key={option} className={selected.correctAnswers.includes(option) ? 'question-bank-correct' : ''}>
+                        <MathText text={option} />
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="question-bank-correct">Answer: <MathText text={selected.correctAnswers.join(', ')} /></p>
+                )}
+                {selected.solutionSteps.length > 0 && (
+                  <ol className="question-bank-preview-steps">
+                    {selected.solutionSteps.map((step, index) => <li key={index}><MathText text={step} /></li>)}
+                  </ol>
+                )}
+                <p className="class-tile-meta">Syllabus reference: {selected.syllabusReference}</p>
+              </div>
+
+              <div className="classes-card">
+                <h2 className="classes-card-title">Review</h2>
+                <p className="class-tile-meta">
+                  Syllabus alignment: {formatScore(selected.alignmentScore)}
+                </p>
+                {selected.alignmentReasoning && (
+                  <p className="question-bank-preview-text">{selected.alignmentReasoning}</p>
+                )}
+
+                <label className="classes-field-label">
+                  Note (optional)
+                  <textarea
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    className="classes-input question-bank-textarea"
+                    rows={3}
+                  />
+                </label>
+
+                <div className="classes-form-row">
+                  {DECISIONS[selected.status].map(decision => (
+                    <button
+                      key={decision.status}
+                      onClick={() => handleDecision(decision.status)}
+                      className={decision.status === 'Approved' ? 'classes-primary-button' : 'classes-secondary-button'}
+                      disabled={saving}
+                    >
+                      {decision.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ModerationPage;
@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { apiGet, apiPost, apiDelete, ApiError } from '../lib/api';
+import { ClassSummary } from './TeacherClassesPage';
+import { GuardianLink } from './GuardianDashboardPage';
+import './ClassesPage.css';
+
+interface ClassInvite {
+  inviteId: string;
+  className: string;
+}
+
+interface StudentAssignment {
+  assignmentId: string;
+  className: string;
+  subject: string;
+  questionCount: number;
+  opensAt: string;
+  closesAt: string;
+  status: 'Upcoming' | 'Open' | 'Closed';
+  studentTestId?: string;
+  submitted: boolean;
+  overallScore?: number;
+}
+
+const MyClassesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [classes, setClasses] = useState<ClassSummary[]>([]);
+  const [invites, setInvites] = useState<ClassInvite[]>([]);
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+  const [guardianLinks, setGuardianLinks] = useState<GuardianLink[]>([]);
+  const [joinCode, setJoinCode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadClasses();
+  }, []);
+
+  const loadClasses = async () => {
+    try {
+      setLoading(true);
+      const [classData, inviteData, assignmentData, guardianData] = await Promise.all([
+        apiGet<{ classes: ClassSummary[] }>('/api/classes/enrolled'),
+        apiGet<{ invites: ClassInvite[] }>('/api/classes/invites'),
+        apiGet<{ assignments: StudentAssignment[] }>('/api/assignments'),
+        apiGet<{ links: GuardianLink[] }>('/api/guardian/links/incoming'),
+      ]);
+      setClasses(classData.classes);
+      setInvites(inviteData.invites);
+      setAssignments(assignmentData.assignments);
+      setGuardianLinks(guardianData.links);
+      setError('');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load classes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await apiPost('/api/classes/join', { joinCode });
+      setJoinCode('');
+      await loadClasses();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to join class');
+    }
+  };
+
+  const handleAccept = async (inviteId: string) => {
+    try {
+      await apiPost(`/api/classes/invites/${inviteId}/accept`, {});
+      await loadClasses();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to accept invite');
+    }
+  };
+
+  const handleGuardianResponse = async (linkId: string, approve: boolean) => {
+    try {
+      await apiPost(`/api/guardian/links/${linkId}/respond`, { approve });
+      await loadClasses();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to respond to request');
+    }
+  };
+
+  const handleGuardianRevoke = async (linkId: string) => {
+    try {
+      await apiDelete(`/api/guardian/links/${linkId}`);
+      await loadClasses();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to remove guardian');
+    }
+  };
+
+  const handleStart = async (assignment: StudentAssignment) => {
+    try {
+      const data = await apiPost<{ testId: string }>(`/api/assignments/${assignment.assignmentId}/start`, {});
+      navigate(`/test/${data.testId}`);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to start assignment');
+    }
+  };
+
+  const renderAction = (assignment: StudentAssignment) => {
+    if (assignment.submitted && assignment.studentTestId) {
+      return (
+        <button
+          onClick={() => navigate(`/test/${assignment.studentTestId}/results`)}
+          className="classes-link-button"
+        >
+          {Math.round(assignment.overallScore ?? 0)}% · View results
+        </button>
+      );
+    }
+    if (assignment.status !== 'Open') {
+      return <span className={`assignment-status ${assignment.status.toLowerCase()}`}>{assignment.status}</span>;
+    }
+    return (
+      <button onClick={() => handleStart(assignment)} className="classes-primary-button">
+        {assignment.studentTestId ? 'Continue' : 'Start'}
+      </button>
+    );
+  };
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">Classes</h1>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+
+          <form onSubmit={handleJoin} className="classes-card classes-form">
+            <h2 className="classes-card-title">Join a Class</h2>
+            <div className="classes-form-row">
+              <input
+                type="text"
+                placeholder="Join code from your teacher"
+                value={joinCode}
+                onChange={e => setJoinCode(e.target.value.toUpperCase())}
+                className="classes-input"
+                required
+              />
+              <button type="submit" className="classes-primary-button">Join</button>
+            </div>
+          </form>
+
+          {invites.map(invite => (
+            <div key={invite.inviteId} className="classes-card invite-row">
+              <span>You have been invited to <strong>{invite.className}</strong></span>
+              <button onClick={() => handleAccept(invite.inviteId)} className="classes-primary-button">
+                Accept
+              </button>
+            </div>
+          ))}
+
+          {guardianLinks.map(link => (
+            <div key={link.linkId} className="classes-card invite-row">
+              {link.status === 'Pending' ? (
+                <>
+                  <span>
+                    <strong>{link.guardianName || link.guardianEmail}</strong> wants read-only access to your results
+                  </span>
+                  <span>
+                    <button onClick={() => handleGuardianResponse(link.linkId, true)} className="classes-primary-button">
+                      Approve
+                    </button>{' '}
+                    <button onClick={() => handleGuardianResponse(link.linkId, false)} className="classes-secondary-button">
+                      Decline
+                    </button>
+                  </span>
+                </>
+              ) : (
+                <>
+                  <span>
+                    <strong>{link.guardianName || link.guardianEmail}</strong> can view your results
+                  </span>
+                  <button onClick={() => handleGuardianRevoke(link.linkId)} className="classes-secondary-button">
+                    Revoke
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+
+          {loading ? (
+            <div className="loading">Loading classes...</div>
+          ) : (
+            <>
+              <section className="classes-card">
+                <h2 className="classes-card-title">Assigned Tests</h2>
+                {assignments.length === 0 ? (
+                  <p className="classes-empty">No tests have been assigned yet.</p>
+                ) : (
+                  assignments.map(assignment => (
+                    <div key={assignment.assignmentId} className="assignment-row">
+                      <div className="assignment-summary">
+                        <span className="assignment-subject">{assignment.subject}</span>
+                        <span className="class-tile-meta">
+                          {assignment.className} · {assignment.questionCount} questions · closes {new Date(assignment.closesAt).toLocaleString()}
+                        </span>
+                        {renderAction(assignment)}
+                      </div>
+                    </div>
+                  ))
+                )}
+              </section>
+
+              <section className="classes-card">
+                <h2 className="classes-card-title">My Classes</h2>
+                {classes.length === 0 ? (
+                  <p className="classes-empty">You have not joined any classes yet.</p>
+                ) : (
+                  <ul className="classes-list">
+                    {classes.map(cls => (
+                      <li key={cls.classId}>
+                        {cls.name}
+                        {cls.subject && <span className="class-tile-meta"> · {cls.subject}</span>}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </section>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default MyClassesPage;
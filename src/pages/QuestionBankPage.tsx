@@ -0,0 +1,932 @@
+import React, { useEffect, useState } from 'react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import MathText from '../components/MathText';
+import { apiGet, apiPost, apiPut, apiDelete, getImageUrl, ApiError } from '../lib/api';
+import { TRUE_FALSE_OPTIONS } from '../lib/questionFormats';
+import { describeTolerance } from '../lib/numericAnswers';
+import './ClassesPage.css';
+import './QuestionBankPage.css';
+
+type QuestionType =
+  | 'MultipleChoice'
+  | 'TrueFalse'
+  | 'Matching'
+  | 'Ordering'
+  | 'FillInBlank'
+  | 'ShortAnswer'
+  | 'Numerical';
+type Difficulty = 'Foundation' | 'ExamRealistic' | 'Challenge';
+export type QuestionStatus = 'Draft' | 'Approved' | 'Rejected' | 'Retired';
+type AnswerTolerance =
+  | { type: 'Absolute'; amount: number }
+  | { type: 'Relative'; amount: number }
+  | { type: 'SignificantFigures'; figures: number };
+
+interface BankTopic {
+  topicId: string;
+  topicName: string;
+  syllabusSection: string;
+  questionCount: number;
+}
+
+interface RubricPoint {
+  point: string;
+  marks: number;
+  keywords?: string[];
+}
+
+export interface BankQuestion {
+  questionId: string;
+  topicId: string;
+  questionText: string;
+  questionType: QuestionType;
+  options?: string[];
+  matchItems?: string[];
+  imageId?: string;
+  optionImageIds?: Array<string | null>;
+  correctAnswers: string[];
+  answerTolerance?: AnswerTolerance;
+  allowMultipleAnswers: boolean;
+  solutionSteps: string[];
+  rubric?: RubricPoint[];
+  syllabusReference: string;
+  difficulty: Difficulty;
+  status: QuestionStatus;
+  alignmentScore?: number;
+  alignmentReasoning?: string;
+  reviewedAt?: string;
+  reviewNote?: string;
+  version: number;
+  supersededAt?: string;
+  createdAt: string;
+}
+
+type ImportFormat = 'csv' | 'moodle' | 'gift' | 'qti';
+
+interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  parsed: number;
+  imported: number;
+  issues: { line: number; message: string }[];
+}
+
+interface QuestionDetail {
+  question: BankQuestion;
+  history: BankQuestion[];
+  testCount: number;
+}
+
+// Editor state; list fields are edited one entry per line
+interface QuestionForm {
+  questionText: string;
+  questionType: QuestionType;
+  difficulty: Difficulty;
+  options: string;
+  matchItems: string;
+  imageId: string;
+  optionImageIds: Array<string | null>; // by option line
+  correctAnswers: string;
+  toleranceType: AnswerTolerance['type'] | ''; // '' for the default tolerance
+  toleranceAmount: string; // relative tolerances are edited as a percentage
+  allowMultipleAnswers: boolean;
+  solutionSteps: string;
+  rubric: string; // "key point | marks | keyword, keyword" per line
+  syllabusReference: string;
+}
+
+const EMPTY_FORM: QuestionForm = {
+  questionText: '',
+  questionType: 'MultipleChoice',
+  difficulty: 'ExamRealistic',
+  options: '',
+  matchItems: '',
+  imageId: '',
+  optionImageIds: [],
+  correctAnswers: '',
+  toleranceType: '',
+  toleranceAmount: '',
+  allowMultipleAnswers: false,
+  solutionSteps: '',
+  rubric: '',
+  syllabusReference: '',
+};
+
+const PAGE_SIZE = 25;
+
+// Guess the import format from the file name; Moodle XML and QTI are told apart by their root element
+const guessImportFormat = (fileName: string, content: string): ImportFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'zip') return 'qti'; // QTI content package
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift' || extension === 'txt') return 'gift';
+  if (extension === 'xml') return /<(\w+:)?assessmentItem[\s>]/.test(content) ? 'qti' : 'moodle';
+  return null;
+};
+
+// How the option and answer lists are labelled for each type (see lib/questionFormats.ts)
+const OPTIONS_LABELS: Partial<Record<QuestionType, string>> = {
+  MultipleChoice: 'Options (one per line)',
+  Matching: 'Choices to match against (one per line, extras allowed)',
+  Ordering: 'Items as shown to students (one per line)',
+};
+
+const ANSWERS_LABELS: Partial<Record<QuestionType, string>> = {
+  TrueFalse: 'Correct answer (True or False)',
+  Matching: 'Match for each item (one per line, in item order)',
+  Ordering: 'Items in the correct order (one per line)',
+  FillInBlank: 'Answer for each ___ blank (one per line, alternatives separated by |)',
+};
+
+const TOLERANCE_LABELS: Record<AnswerTolerance['type'], string> = {
+  Absolute: 'Either side of the answer',
+  Relative: 'Percentage either side of the answer',
+  SignificantFigures: 'Significant figures',
+};
+
+const lines = (text: string): string[] => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const isZipFile = (file: File): boolean => file.name.toLowerCase().endsWith('.zip');
+
+// Binary files (images, QTI packages) are sent base64-encoded in the JSON body
+const readAsBase64 = async (file: File): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const toForm = (question: BankQuestion): QuestionForm => ({
+  questionText: question.questionText,
+  questionType: question.questionType,
+  difficulty: question.difficulty,
+  options: (question.options ?? []).join('\n'),
+  matchItems: (question.matchItems ?? []).join('\n'),
+  imageId: question.imageId ?? '',
+  optionImageIds: question.optionImageIds ?? [],
+  correctAnswers: question.correctAnswers.join('\n'),
+  toleranceType: question.answerTolerance?.type ?? '',
+  toleranceAmount: toleranceAmount(question.answerTolerance),
+  allowMultipleAnswers: question.allowMultipleAnswers,
+  solutionSteps: question.solutionSteps.join('\n'),
+  rubric: (question.rubric ?? [])
+    .map(rubricPoint => [rubricPoint.point, rubricPoint.marks, ...(rubricPoint.keywords ? [rubricPoint.keywords.join(', ')] : [])].join(' | '))
+    .join('\n'),
+  syllabusReference: question.syllabusReference,
+});
+
+const toleranceAmount = (tolerance?: AnswerTolerance): string => {
+  switch (tolerance?.type) {
+    case 'Absolute':
+      return String(tolerance.amount);
+    case 'Relative':
+      return String(Number((tolerance.amount * 100).toPrecision(6)));
+    case 'SignificantFigures':
+      return String(tolerance.figures);
+    default:
+      return '';
+  }
+};
+
+// The tolerance being edited, or undefined for the default
+const formTolerance = (form: QuestionForm): AnswerTolerance | undefined => {
+  const amount = Number(form.toleranceAmount);
+  if (form.questionType !== 'Numerical' || !form.toleranceType || !form.toleranceAmount.trim() || !(amount > 0)) {
+    return undefined;
+  }
+  switch (form.toleranceType) {
+    case 'Absolute':
+      return { type: 'Absolute', amount };
+    case 'Relative':
+      return { type: 'Relative', amount: amount / 100 };
+    case 'SignificantFigures':
+      return { type: 'SignificantFigures', figures: amount };
+  }
+};
+
+// The rubric being edited; a key point without a valid mark is worth one mark
+const formRubric = (form: QuestionForm): RubricPoint[] | undefined => {
+  if (form.questionType !== 'ShortAnswer') {
+    return undefined;
+  }
+  const rubric = lines(form.rubric).map(line => {
+    const [point, marks, keywords] = line.split('|').map(part => part.trim());
+    const keywordList = (keywords ?? '').split(',').map(keyword => keyword.trim()).filter(Boolean);
+    return {
+      point,
+      marks: Number(marks) > 0 ? Number(marks) : 1,
+      keywords: keywordList.length > 0 ? keywordList : undefined,
+    };
+  }).filter(rubricPoint => rubricPoint.point);
+  return rubric.length > 0 ? rubric : undefined;
+};
+
+const QuestionBankPage: React.FC = () => {
+  const [curriculum, setCurriculum] = useState('CBSE');
+  const [grade, setGrade] = useState(8);
+  const [subject, setSubject] = useState('Mathematics');
+  const [topics, setTopics] = useState<BankTopic[]>([]);
+  const [selectedTopic, setSelectedTopic] = useState<BankTopic | null>(null);
+
+  const [search, setSearch] = useState('');
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+
+  const [detail, setDetail] = useState<QuestionDetail | null>(null);
+  const [editing, setEditing] = useState<'new' | 'existing' | null>(null);
+  const [form, setForm] = useState<QuestionForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importFormat, setImportFormat] = useState<ImportFormat>('csv');
+  const [dryRun, setDryRun] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+
+  useEffect(() => {
+    fetchTopics();
+  }, [curriculum, grade, subject]);
+
+  useEffect(() => {
+    if (selectedTopic) {
+      fetchQuestions(selectedTopic.topicId, 0);
+    }
+  }, [selectedTopic]);
+
+  const fetchTopics = async () => {
+    try {
+      const params = new URLSearchParams({ curriculum, grade: String(grade), subject });
+      const data = await apiGet<{ topics: BankTopic[] }>(`/api/admin/topics?${params}`);
+      setTopics(data.topics);
+      setSelectedTopic(null);
+      setQuestions([]);
+      closeEditor();
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load topics');
+    }
+  };
+
+  const fetchQuestions = async (topicId: string, nextOffset: number) => {
+    try {
+      const params = new URLSearchParams({ topicId, limit: String(PAGE_SIZE), offset: String(nextOffset) });
+      if (search.trim()) {
+        params.set('search', search.trim());
+      }
+      const data = await apiGet<{ questions: BankQuestion[]; total: number }>(`/api/admin/questions?${params}`);
+      setQuestions(data.questions);
+      setTotal(data.total);
+      setOffset(nextOffset);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load questions');
+    }
+  };
+
+  const openQuestion = async (questionId: string) => {
+    setError('');
+    setMessage('');
+    try {
+      const data = await apiGet<QuestionDetail>(`/api/admin/questions/${questionId}`);
+      setDetail(data);
+      setForm(toForm(data.question));
+      setEditing('existing');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load question');
+    }
+  };
+
+  const openNewQuestion = () => {
+    setDetail(null);
+    setForm({ ...EMPTY_FORM, syllabusReference: selectedTopic?.syllabusSection ?? '' });
+    setEditing('new');
+    setError('');
+    setMessage('');
+  };
+
+  const closeEditor = () => {
+    setDetail(null);
+    setEditing(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTopic) return;
+
+    setSaving(true);
+    setError('');
+    const body = {
+      topicId: detail?.question.topicId ?? selectedTopic.topicId,
+      questionText: form.questionText,
+      questionType: form.questionType,
+      difficulty: form.difficulty,
+      options: form.questionType === 'TrueFalse'
+        ? TRUE_FALSE_OPTIONS
+        : OPTIONS_LABELS[form.questionType] ? lines(form.options) : undefined,
+      matchItems: form.questionType === 'Matching' ? lines(form.matchItems) : undefined,
+      imageId: form.imageId || undefined,
+      optionImageIds: form.questionType === 'MultipleChoice' && form.optionImageIds.some(Boolean)
+        ? lines(form.options).map((_, index) => form.optionImageIds[index] ?? null)
+        : undefined,
+      correctAnswers: lines(form.correctAnswers),
+      answerTolerance: formTolerance(form),
+      allowMultipleAnswers: form.questionType === 'MultipleChoice' && form.allowMultipleAnswers,
+      solutionSteps: lines(form.solutionSteps),
+      rubric: formRubric(form),
+      syllabusReference: form.syllabusReference,
+    };
+
+    try {
+      const data = detail
+        ? await apiPut<{ question: BankQuestion }>(`/api/admin/questions/${detail.question.questionId}`, body)
+        : await apiPost<{ question: BankQuestion }>('/api/admin/questions', body);
+      setMessage(detail ? `Saved as version ${data.question.version}` : 'Question added');
+      await fetchQuestions(selectedTopic.topicId, offset);
+      await openQuestion(data.question.questionId);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!detail || !selectedTopic) return;
+    if (!window.confirm('Remove this question from the bank?')) return;
+
+    try {
+      const data = await apiDelete<{ withdrawn: boolean }>(`/api/admin/questions/${detail.question.questionId}`);
+      setMessage(data.withdrawn
+        ? 'Question retired; tests that already used it still show it'
+        : 'Question deleted');
+      closeEditor();
+      await fetchQuestions(selectedTopic.topicId, offset);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to remove question');
+    }
+  };
+
+  // Upload an image and attach it to the question (optionIndex undefined) or one of its options
+  const handleImageFile = async (file: File | null, optionIndex?: number) => {
+    if (!file) return;
+
+    setUploading(true);
+    setError('');
+    try {
+      const data = await apiPost<{ image: { imageId: string } }>('/api/admin/images', {
+        data: await readAsBase64(file),
+      });
+      setImage(data.image.imageId, optionIndex);
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to upload image');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const setImage = (imageId: string | null, optionIndex?: number) => {
+    setForm(current => {
+      if (optionIndex === undefined) {
+        return { ...current, imageId: imageId ?? '' };
+      }
+      const optionImageIds = [...current.optionImageIds];
+      optionImageIds[optionIndex] = imageId;
+      return { ...current, optionImageIds };
+    });
+  };
+
+  const handleImportFile = async (file: File | null) => {
+    setImportFile(file);
+    setImportReport(null);
+    if (file) {
+      const content = isZipFile(file) ? '' : await file.text();
+      setImportFormat(guessImportFormat(file.name, content) ?? importFormat);
+    }
+  };
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) return;
+
+    setImporting(true);
+    setError('');
+    try {
+      const data = await apiPost<{ report: ImportReport }>('/api/admin/questions/import', {
+        format: importFormat,
+        ...(isZipFile(importFile)
+          ? { content: await readAsBase64(importFile), encoding: 'base64' }
+          : { content: await importFile.text() }),
+        dryRun,
+        // Questions whose file does not name a topic go into the current selection
+        defaults: { curriculum, grade, subject, topicName: selectedTopic?.topicName },
+      });
+      setImportReport(data.report);
+      if (!data.report.dryRun && data.report.imported > 0) {
+        await fetchTopics();
+      }
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to import questions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const previewOptions = lines(form.options);
+  const previewAnswers = lines(form.correctAnswers);
+  const previewTolerance = formTolerance(form);
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">Question Bank</h1>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+          {message && <div className="question-bank-message">{message}</div>}
+
+          <div className="classes-card">
+            <div className="classes-form-row">
+              <label className="classes-field-label">
+                Curriculum
+                <select value={curriculum} onChange={e => setCurriculum(e.target.value)} className="classes-input">
+                  <option value="CBSE">CBSE</option>
+                  <option value="Cambridge">Cambridge</option>
+                </select>
+              </label>
+              <label className="classes-field-label">
+                Grade
+                <select value={grade} onChange={e => setGrade(Number(e.target.value))} className="classes-input">
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map(g => (
+                    <option key={g} value={g}>Class {g}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="classes-field-label">
+                Subject
+                <select value={subject} onChange={e => setSubject(e.target.value)} className="classes-input">
+                  <option value="Mathematics">Mathematics</option>
+                  <option value="Science">Science</option>
+                  <option value="English">English</option>
+                  <option value="Social Studies">Social Studies</option>
+                  <option value="Hindi">Hindi</option>
+                </select>
+              </label>
+            </div>
+
+            {topics.length === 0 ? (
+              <p className="classes-empty">No syllabus topics for this selection.</p>
+            ) : (
+              <table className="classes-table">
+                <thead>
+                  <tr>
+                    <th>Topic</th>
+                    <th>Section</th>
+                    <th>Questions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {topics.map(topic => (
+                    <tr
+                      key={topic.topicId}
+                      className={`question-bank-row ${selectedTopic?.topicId === topic.topicId ? 'question-bank-row-selected' : ''}`}
+                      onClick={() => setSelectedTopic(topic)}
+                    >
+                      <td>{topic.topicName}</td>
+                      <td>{topic.syllabusSection}</td>
+                      <td>{topic.questionCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div className="classes-card">
+            <h2 className="classes-card-title">Import Questions</h2>
+            <form onSubmit={handleImport} className="classes-form-row">
+              <label className="classes-field-label">
+                File
+                <input
+                  type="file"
+                  accept=".csv,.xml,.gift,.txt,.zip"
+                  onChange={e => handleImportFile(e.target.files?.[0] ?? null)}
+                  className="classes-input"
+                />
+              </label>
+              <label className="classes-field-label">
+                Format
+                <select
+                  value={importFormat}
+                  onChange={e => setImportFormat(e.target.value as ImportFormat)}
+                  className="classes-input"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="moodle">Moodle XML</option>
+                  <option value="gift">GIFT</option>
+                  <option value="qti">IMS QTI 2.1 (.xml or package .zip)</option>
+                </select>
+              </label>
+              <label className="question-bank-checkbox">
+                <input type="checkbox" checked={dryRun} onChange={e => setDryRun(e.target.checked)} />
+                Dry run (check without saving)
+              </label>
+              <button type="submit" disabled={!importFile || importing} className="classes-primary-button">
+                {importing ? 'Importing...' : dryRun ? 'Check File' : 'Import'}
+              </button>
+            </form>
+            <p className="class-tile-meta">
+              Questions that do not name their topic go into {selectedTopic
+                ? selectedTopic.topicName
+                : 'the topic you select above'} ({curriculum} Class {grade} {subject}).
+            </p>
+
+            {importReport && (
+              <>
+                <p className="question-bank-preview-text">
+                  {importReport.parsed} questions read, {importReport.imported}{' '}
+                  {importReport.dryRun ? 'ready to import' : 'imported'}
+                </p>
+                {importReport.issues.length > 0 && (
+                  <ul className="classes-list">
+                    {importReport.issues.map((issue, index) => (
+                      <li key={index}>Line {issue.line}: {issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+
+          {selectedTopic && (
+            <div className="classes-card">
+              <div className="classes-header">
+                <h2 className="classes-card-title">{selectedTopic.topicName}</h2>
+                <button onClick={openNewQuestion} className="classes-primary-button">New Question</button>
+              </div>
+
+              <form
+                className="classes-form-row"
+                onSubmit={e => { e.preventDefault(); fetchQuestions(selectedTopic.topicId, 0); }}
+              >
+                <input
+                  type="search"
+                  placeholder="Search question text"
+                  value={search}
+                  onChange={e => setSearch(e.target.value)}
+                  className="classes-input"
+                />
+                <button type="submit" className="classes-secondary-button">Search</button>
+              </form>
+
+              {questions.length === 0 ? (
+                <p className="classes-empty">No questions found.</p>
+              ) : (
+                <table className="classes-table">
+                  <thead>
+                    <tr>
+                      <th>Question</th>
+                      <th>Type</th>
+                      <th>Difficulty</th>
+                      <th>Status</th>
+                      <th>Version</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {questions.map(question => (
+                      <tr
+                        key={question.questionId}
+                        className={`question-bank-row ${detail?.question.questionId === question.questionId ? 'question-bank-row-selected' : ''}`}
+                        onClick={() => openQuestion(question.questionId)}
+                      >
+                        <td>{question.questionText}</td>
+                        <td>{question.questionType}</td>
+                        <td>{question.difficulty}</td>
+                        <td>{question.status}</td>
+                        <td>v{question.version}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {total > PAGE_SIZE && (
+                <div className="classes-form-row">
+                  <button
+                    className="classes-secondary-button"
+                    disabled={offset === 0}
+                    onClick={() => fetchQuestions(selectedTopic.topicId, Math.max(offset - PAGE_SIZE, 0))}
+                  >
+                    Previous
+                  </button>
+                  <span className="class-tile-meta">
+                    {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} of {total}
+                  </span>
+                  <button
+                    className="classes-secondary-button"
+                    disabled={offset + PAGE_SIZE >= total}
+                    onClick={() => fetchQuestions(selectedTopic.topicId, offset + PAGE_SIZE)}
+                  >
+                    Next
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {editing && (
+            <div className="question-bank-editor">
+              <form onSubmit={handleSave} className="classes-card">
+                <h2 className="classes-card-title">
+                  {detail ? `Edit Question (v${detail.question.version})` : 'New Question'}
+                </h2>
+                {detail && detail.testCount > 0 && (
+                  <p className="class-tile-meta">
+                    Used in {detail.testCount} {detail.testCount === 1 ? 'test' : 'tests'}; saving creates a new version and leaves those tests unchanged.
+                  </p>
+                )}
+
+                <label className="classes-field-label">
+                  Question text
+                  <textarea
+                    value={form.questionText}
+                    onChange={e => setForm({ ...form, questionText: e.target.value })}
+                    className="classes-input question-bank-textarea"
+                    rows={4}
+                    required
+                  />
+                  <span className="class-tile-meta">
+                    {'Write math as LaTeX between \\( and \\), e.g. \\(\\frac{3}{4}\\), or between \\[ and \\] on its own line'}
+                  </span>
+                </label>
+
+                <label className="classes-field-label">
+                  Diagram or figure (PNG or JPEG)
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={e => handleImageFile(e.target.files?.[0] ?? null)}
+                    className="classes-input"
+                    disabled={uploading}
+                  />
+                </label>
+                {form.imageId && (
+                  <div className="question-bank-image">
+                    <img src={getImageUrl(form.imageId)} alt="Question diagram" />
+                    <button type="button" onClick={() => setImage(null)} className="classes-link-button">
+                      Remove image
+                    </button>
+                  </div>
+                )}
+
+                <div className="classes-form-row">
+                  <label className="classes-field-label">
+                    Type
+                    <select
+                      value={form.questionType}
+                      onChange={e => setForm({ ...form, questionType: e.target.value as QuestionType })}
+                      className="classes-input"
+                    >
+                      <option value="MultipleChoice">Multiple choice</option>
+                      <option value="TrueFalse">True / false</option>
+                      <option value="Matching">Matching</option>
+                      <option value="Ordering">Ordering</option>
+                      <option value="FillInBlank">Fill in the blanks</option>
+                      <option value="ShortAnswer">Short answer</option>
+                      <option value="Numerical">Numerical</option>
+                    </select>
+                  </label>
+                  <label className="classes-field-label">
+                    Difficulty
+                    <select
+                      value={form.difficulty}
+                      onChange={e => setForm({ ...form, difficulty: e.target.value as Difficulty })}
+                      className="classes-input"
+                    >
+                      <option value="Foundation">Foundation</option>
+                      <option value="ExamRealistic">Exam Realistic</option>
+                      <option value="Challenge">Challenge</option>
+                    </select>
+                  </label>
+                </div>
+
+                {form.questionType === 'Matching' && (
+                  <label className="classes-field-label">
+                    Items to match (one per line)
+                    <textarea
+                      value={form.matchItems}
+                      onChange={e => setForm({ ...form, matchItems: e.target.value })}
+                      className="classes-input question-bank-textarea"
+                      rows={4}
+                    />
+                  </label>
+                )}
+
+                {OPTIONS_LABELS[form.questionType] && (
+                  <label className="classes-field-label">
+                    {OPTIONS_LABELS[form.questionType]}
+                    <textarea
+                      value={form.options}
+                      onChange={e => setForm({ ...form, options: e.target.value })}
+                      className="classes-input question-bank-textarea"
+                      rows={4}
+                    />
+                  </label>
+                )}
+
+                {form.questionType === 'MultipleChoice' && previewOptions.length > 0 && (
+                  <div className="classes-field-label">
+                    Option images (optional)
+                    {previewOptions.map((option, index) => (
+                      <div key={index} className="question-bank-image">
+                        <span>{String.fromCharCode(65 + index)}. {option}</span>
+                        {form.optionImageIds[index] ? (
+                          <>
+                            <img src={getImageUrl(form.optionImageIds[index]!)} alt={option} />
+                            <button type="button" onClick={() => setImage(null, index)} className="classes-link-button">
+                              Remove
+                            </button>
+                          </>
+                        ) : (
+                          <input
+                            type="file"
+                            accept="image/png,image/jpeg"
+                            onChange={e => handleImageFile(e.target.files?.[0] ?? null, index)}
+                            disabled={uploading}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <label className="classes-field-label">
+                  {ANSWERS_LABELS[form.questionType] ?? 'Correct answers (one per line)'}
+                  <textarea
+                    value={form.correctAnswers}
+                    onChange={e => setForm({ ...form, correctAnswers: e.target.value })}
+                    className="classes-input question-bank-textarea"
+                    rows={2}
+                    required
+                  />
+                  {form.questionType === 'Numerical' && (
+                    <span className="class-tile-meta">
+                      Students may write a fraction, percentage or unit: 50 cm is accepted for 0.5 m
+                    </span>
+                  )}
+                </label>
+                {form.questionType === 'Numerical' && (
+                  <div className="classes-form-row">
+                    <label className="classes-field-label">
+                      Accept answers
+                      <select
+                        value={form.toleranceType}
+                        onChange={e => setForm({ ...form, toleranceType: e.target.value as QuestionForm['toleranceType'] })}
+                        className="classes-input"
+                      >
+                        <option value="">Within 0.0001</option>
+                        <option value="Absolute">Within an amount</option>
+                        <option value="Relative">Within a percentage</option>
+                        <option value="SignificantFigures">To significant figures</option>
+                      </select>
+                    </label>
+                    {form.toleranceType && (
+                      <label className="classes-field-label">
+                        {TOLERANCE_LABELS[form.toleranceType]}
+                        <input
+                          type="number"
+                          min={form.toleranceType === 'SignificantFigures' ? 1 : 0}
+                          max={form.toleranceType === 'SignificantFigures' ? 15 : form.toleranceType === 'Relative' ? 100 : undefined}
+                          step={form.toleranceType === 'SignificantFigures' ? 1 : 'any'}
+                          value={form.toleranceAmount}
+                          onChange={e => setForm({ ...form, toleranceAmount: e.target.value })}
+                          className="classes-input"
+                          required
+                        />
+                      </label>
+                    )}
+                  </div>
+                )}
+                {form.questionType === 'MultipleChoice' && (
+                  <label className="question-bank-checkbox">
+                    <input
+                      type="checkbox"
+                      checked={form.allowMultipleAnswers}
+                      onChange={e => setForm({ ...form, allowMultipleAnswers: e.target.checked })}
+                    />
+                    Students must select every correct answer
+                  </label>
+                )}
+
+                {form.questionType === 'ShortAnswer' && (
+                  <label className="classes-field-label">
+                    Marking rubric (one key point per line: point | marks | keywords)
+                    <textarea
+                      value={form.rubric}
+                      onChange={e => setForm({ ...form, rubric: e.target.value })}
+                      className="classes-input question-bank-textarea"
+                      rows={3}
+                      placeholder="Plants make their own food | 1 | photosynthesis, sunlight/light"
+                    />
+                    <span className="class-tile-meta">
+                      Answers are marked by the key points they make; separate keyword synonyms with /
+                    </span>
+                  </label>
+                )}
+
+                <label className="classes-field-label">
+                  Solution steps (one per line)
+                  <textarea
+                    value={form.solutionSteps}
+                    onChange={e => setForm({ ...form, solutionSteps: e.target.value })}
+                    className="classes-input question-bank-textarea"
+                    rows={4}
+                  />
+                </label>
+
+                <label className="classes-field-label">
+                  Syllabus reference
+                  <input
+                    type="text"
+                    value={form.syllabusReference}
+                    onChange={e => setForm({ ...form, syllabusReference: e.target.value })}
+                    className="classes-input"
+                    required
+                  />
+                </label>
+
+                <div className="classes-form-row">
+                  <button type="submit" className="classes-primary-button" disabled={saving}>
+                    {saving ? 'Saving...' : 'Save'}
+                  </button>
+                  <button type="button" onClick={closeEditor} className="classes-secondary-button">
+                    Cancel
+                  </button>
+                  {detail && (
+                    <button type="button" onClick={handleDelete} className="classes-link-button">
+                      Remove from bank
+                    </button>
+                  )}
+                </div>
+              </form>
+
+              <div className="classes-card">
+                <h2 className="classes-card-title">Preview</h2>
+                <p className="question-bank-preview-text">{form.questionText ? <MathText text={form.questionText} /> : 'Question text'}</p>
+                {form.imageId && (
+                  <img src={getImageUrl(form.imageId)} alt="" className="question-bank-preview-image" />
+                )}
+                {form.questionType === 'MultipleChoice' ? (
+                  <ol type="A" className="question-bank-preview-options">
+                    {previewOptions.map((option, index) => (
+                      <li key={option} className={previewAnswers.includes(option) ? 'question-bank-correct' : ''}>
+                        {form.optionImageIds[index] && (
+                          <img src={getImageUrl(form.optionImageIds[index]!)} alt="" className="question-bank-preview-image" />
+                        )}
+                        <MathText text={option} />
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="class-tile-meta">
+                    Answer: <MathText text={previewAnswers.join(' / ') || '-'} />
+                    {previewTolerance && ` (${describeTolerance(previewTolerance)})`}
+                  </p>
+                )}
+                {lines(form.solutionSteps).length > 0 && (
+                  <ol className="question-bank-preview-steps">
+                    {lines(form.solutionSteps).map((step, index) => <li key={index}><MathText text={step} /></li>)}
+                  </ol>
+                )}
+
+                {detail && detail.history.length > 0 && (
+                  <>
+                    <h3 className="classes-card-title">Earlier Versions</h3>
+                    <ul className="classes-list">
+                      {detail.history.map(version => (
+                        <li key={version.questionId}>
+                          v{version.version} - {new Date(version.createdAt).toLocaleDateString()}: {version.questionText}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default QuestionBankPage;
@@ -13,6 +13,7 @@ const RegisterPage: React.FC = () => {
     curriculum: 'CBSE',
     grade: '5',
     subjects: [] as string[],
+    role: 'Student',
   });
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
@@ -56,6 +57,7 @@ const RegisterPage: React.FC = () => {
             curriculum: formData.curriculum,
             grade: parseInt(formData.grade),
             subjects: formData.subjects,
+            role: formData.role,
           }
         }
       });
@@ -77,6 +79,7 @@ const RegisterPage: React.FC = () => {
               curriculum: formData.curriculum,
               grade: parseInt(formData.grade),
               subjects: JSON.stringify(formData.subjects),
+              role: formData.role,
               createdAt: new Date().toISOString(),
               lastLogin: new Date().toISOString(),
             }
@@ -138,6 +141,20 @@ const RegisterPage: React.FC = () => {
                 />
               </div>
               
+              <div className="form-group">
+                <label htmlFor="role" className="form-label">I am a</label>
+                <select
+                  id="role"
+                  name="role"
+                  value={formData.role}
+                  onChange={handleChange}
+                  className="form-input"
+                >
+                  <option value="Student">Student</option>
+                  <option value="Guardian">Parent / Guardian</option>
+                </select>
+              </div>
+
               <div className="form-row">
                 <div className="form-group">
                   <label htmlFor="curriculum" className="form-label">Curriculum</label>
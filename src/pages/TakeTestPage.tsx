@@ -3,7 +3,10 @@ import { useParams, useNavigate } from 'react-router-dom';
 import Header from '../components/Header';
 import Footer from '../components/Footer';
 import { PageLoading } from '../components/LoadingSkeleton';
-import { apiPost, apiGet } from '../lib/api';
+import MathText from '../components/MathText';
+import { apiPost, apiGet, getImageUrl } from '../lib/api';
+import { TRUE_FALSE_OPTIONS, answerParts, splitAtBlanks } from '../lib/questionFormats';
+import { mathToText } from '../lib/mathNotation';
 import './TakeTestPage.css';
 
 interface Question {
@@ -11,15 +14,31 @@ interface Question {
   questionText: string;
   questionType: string;
   options?: string[];
+  matchItems?: string[];
+  imageId?: string;
+  optionImageIds?: Array<string | null>;
+  group?: QuestionGroup;
   topicId: string;
 }
 
+// Reading passage or case study shared by consecutive questions
+interface QuestionGroup {
+  groupId: string;
+  stimulusText: string;
+  imageUrl?: string;
+}
+
 interface Response {
   questionId: string;
   answer: string;
   answeredAt: Date;
 }
 
+interface AdaptiveProgress {
+  complete: boolean;
+  questionLimit: number;
+}
+
 // Timer duration in seconds (30 minutes default)
 const DEFAULT_TEST_DURATION = 30 * 60;
 
@@ -35,6 +54,10 @@ const TakeTestPage: React.FC = () => {
   const [responses, setResponses] = useState<Map<string, string>>(new Map());
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
 
+  // Adaptive tests serve one question at a time; answers are confirmed, not auto-saved
+  const [adaptive, setAdaptive] = useState<AdaptiveProgress | null>(null);
+  const [draftAnswer, setDraftAnswer] = useState('');
+
   // Timer state
   const [timeRemaining, setTimeRemaining] = useState(DEFAULT_TEST_DURATION);
   const [isTimerWarning, setIsTimerWarning] = useState(false);
@@ -104,9 +127,16 @@ const TakeTestPage: React.FC = () => {
       const sessionData = await apiGet<{
         questions: Question[];
         responses: Response[];
+        timerMinutes?: number;
+        adaptive?: AdaptiveProgress;
       }>(`/api/tests/session/${newSessionId}`);
       setQuestions(sessionData.questions);
 
+      if (sessionData.adaptive) {
+        setAdaptive(sessionData.adaptive);
+        setCurrentQuestionIndex(Math.max(sessionData.questions.length - 1, 0));
+      }
+
       // Load existing responses
       const existingResponses = new Map<string, string>();
       sessionData.responses.forEach((r: Response) => {
@@ -114,8 +144,11 @@ const TakeTestPage: React.FC = () => {
       });
       setResponses(existingResponses);
 
-      // Set timer based on question count (2 min per question, max 60 min)
-      const testDuration = Math.min(sessionData.questions.length * 2 * 60, 60 * 60);
+      // Board-pattern papers set their own time; otherwise 2 min per question, max 60 min
+      const questionCount = sessionData.adaptive?.questionLimit ?? sessionData.questions.length;
+      const testDuration = sessionData.timerMinutes
+        ? sessionData.timerMinutes * 60
+        : Math.min(questionCount * 2 * 60, 60 * 60);
       setTimeRemaining(testDuration);
 
       setLoading(false);
@@ -125,14 +158,18 @@ const TakeTestPage: React.FC = () => {
     }
   };
 
-  const handleAnswerChange = (answer: string) => {
-    const currentQuestion = questions[currentQuestionIndex];
+  const handleAnswerChange = (answer: string, question: Question) => {
+    if (adaptive) {
+      setDraftAnswer(answer);
+      return;
+    }
+
     const newResponses = new Map(responses);
-    newResponses.set(currentQuestion.questionId, answer);
+    newResponses.set(question.questionId, answer);
     setResponses(newResponses);
 
     // Auto-save answer with debounce
-    saveAnswer(currentQuestion.questionId, answer);
+    saveAnswer(question.questionId, answer);
   };
 
   const saveAnswer = useCallback(async (questionId: string, answer: string) => {
@@ -158,15 +195,55 @@ const TakeTestPage: React.FC = () => {
     }
   }, [sessionId]);
 
+  const handleConfirmAnswer = async () => {
+    const currentQuestion = questions[currentQuestionIndex];
+    setSaveStatus('saving');
+
+    try {
+      const data = await apiPost<{
+        adaptive: AdaptiveProgress & { nextQuestion?: Question };
+      }>(`/api/tests/session/${sessionId}/answer`, { questionId: currentQuestion.questionId, answer: draftAnswer });
+
+      setResponses(new Map(responses).set(currentQuestion.questionId, draftAnswer));
+      setAdaptive({ complete: data.adaptive.complete, questionLimit: data.adaptive.questionLimit });
+      setDraftAnswer('');
+      setSaveStatus('saved');
+
+      const nextQuestion = data.adaptive.nextQuestion;
+      if (nextQuestion) {
+        setQuestions([...questions, nextQuestion]);
+        setCurrentQuestionIndex(questions.length);
+      }
+    } catch (err) {
+      console.error('Failed to save answer:', err);
+      setSaveStatus('error');
+    }
+  };
+
+  // First and last index of the questions shown with the given one: the questions of a
+  // passage or case study are answered together on one screen
+  const screenBounds = (index: number): [number, number] => {
+    const groupId = questions[index]?.group?.groupId;
+    let first = index;
+    let last = index;
+    if (groupId) {
+      while (first > 0 && questions[first - 1].group?.groupId === groupId) first--;
+      while (last < questions.length - 1 && questions[last + 1].group?.groupId === groupId) last++;
+    }
+    return [first, last];
+  };
+
   const handleNext = () => {
-    if (currentQuestionIndex < questions.length - 1) {
-      setCurrentQuestionIndex(currentQuestionIndex + 1);
+    const [, last] = screenBounds(currentQuestionIndex);
+    if (last < questions.length - 1) {
+      setCurrentQuestionIndex(last + 1);
     }
   };
 
   const handlePrevious = () => {
-    if (currentQuestionIndex > 0) {
-      setCurrentQuestionIndex(currentQuestionIndex - 1);
+    const [first] = screenBounds(currentQuestionIndex);
+    if (first > 0) {
+      setCurrentQuestionIndex(screenBounds(first - 1)[0]);
     }
   };
 
@@ -231,11 +308,140 @@ const TakeTestPage: React.FC = () => {
     );
   }
 
-  const currentQuestion = questions[currentQuestionIndex];
-  const currentAnswer = responses.get(currentQuestion.questionId) || '';
+  const [screenStart, screenEnd] = screenBounds(currentQuestionIndex);
+  const screenGroup = questions[screenStart]?.group;
+
+  const answerFor = (question: Question): string => {
+    const answered = responses.get(question.questionId);
+    return adaptive && answered === undefined ? draftAnswer : answered || '';
+  };
+
+  // Matching, Ordering and FillInBlank answers are saved as a JSON list of parts
+  const partsFor = (question: Question): string[] => {
+    const answer = answerFor(question);
+    return answer ? answerParts(answer) : [];
+  };
+
+  const handlePartChange = (question: Question, index: number, value: string, partCount: number) => {
+    const current = partsFor(question);
+    const parts = Array.from({ length: partCount }, (_, i) => current[i] ?? '');
+    parts[index] = value;
+    handleAnswerChange(JSON.stringify(parts), question);
+  };
+
+  const handleMoveItem = (question: Question, index: number, offset: number) => {
+    const current = partsFor(question);
+    const order = current.length > 0 ? [...current] : [...(question.options ?? [])];
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    handleAnswerChange(JSON.stringify(order), question);
+  };
+
+  const renderAnswerInput = (question: Question) => {
+    const answer = answerFor(question);
+    const parts = partsFor(question);
+
+    return (
+      (question.questionType === 'MultipleChoice' && question.options) ||
+      question.questionType === 'TrueFalse' ? (
+        <div className="options-list" role="radiogroup" aria-label="Answer options">
+          {(question.options ?? TRUE_FALSE_OPTIONS).map((option, index) => (
+            <label key={index} className={`option-label ${answer === option ? 'option-selected' : ''}`}>
+              <input
+                type="radio"
+                name={`answer-${question.questionId}`}
+                value={option}
+                checked={answer === option}
+                onChange={(e) => handleAnswerChange(e.target.value, question)}
+              />
+              <span className="option-indicator">{String.fromCharCode(65 + index)}</span>
+              <span className="option-text">
+                {question.optionImageIds?.[index] && (
+                  <img src={getImageUrl(question.optionImageIds[index]!)} alt={mathToText(option)} className="option-image" />
+                )}
+                <MathText text={option} />
+              </span>
+            </label>
+          ))}
+        </div>
+      ) : question.questionType === 'Matching' ? (
+        <div className="match-list">
+          {(question.matchItems ?? []).map((item, index, items) => (
+            <label key={index} className="match-row">
+              <span className="match-item"><MathText text={item} /></span>
+              <select
+                className="match-select"
+                value={parts[index] ?? ''}
+                onChange={(e) => handlePartChange(question, index, e.target.value, items.length)}
+                aria-label={`Match for ${mathToText(item)}`}
+              >
+                <option value="">Choose...</option>
+                {(question.options ?? []).map(choice => (
+                  <option key={choice} value={choice}>{mathToText(choice)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+      ) : question.questionType === 'Ordering' ? (
+        <ol className="order-list" aria-label="Put the items in order">
+          {(parts.length > 0 ? parts : question.options ?? []).map((item, index, items) => (
+            <li key={item} className="order-item">
+              <span className="order-text"><MathText text={item} /></span>
+              <button
+                type="button"
+                className="order-button"
+                onClick={() => handleMoveItem(question, index, -1)}
+                disabled={index === 0}
+                aria-label={`Move ${mathToText(item)} up`}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="order-button"
+                onClick={() => handleMoveItem(question, index, 1)}
+                disabled={index === items.length - 1}
+                aria-label={`Move ${mathToText(item)} down`}
+              >
+                ↓
+              </button>
+            </li>
+          ))}
+        </ol>
+      ) : question.questionType === 'FillInBlank' ? (
+        <p className="blank-text">
+          {splitAtBlanks(question.questionText).map((piece, index, pieces) => (
+            <React.Fragment key={index}>
+              <MathText text={piece} />
+              {index < pieces.length - 1 && (
+                <input
+                  type="text"
+                  className="blank-input"
+                  value={parts[index] ?? ''}
+                  onChange={(e) => handlePartChange(question, index, e.target.value, pieces.length - 1)}
+                  aria-label={`Blank ${index + 1}`}
+                />
+              )}
+            </React.Fragment>
+          ))}
+        </p>
+      ) : (
+        <textarea
+          className="answer-input"
+          value={answer}
+          onChange={(e) => handleAnswerChange(e.target.value, question)}
+          placeholder="Type your answer here..."
+          rows={4}
+          aria-label="Your answer"
+        />
+      )
+    );
+  };
+
   const answeredCount = responses.size;
-  const progress = (answeredCount / questions.length) * 100;
-  const unansweredCount = questions.length - answeredCount;
+  const totalCount = adaptive ? adaptive.questionLimit : questions.length;
+  const progress = (answeredCount / totalCount) * 100;
+  const unansweredCount = adaptive ? 0 : questions.length - answeredCount;
 
   return (
     <div className="take-test-page">
@@ -252,7 +458,7 @@ const TakeTestPage: React.FC = () => {
                   <div className="progress-fill" style={{ width: `${progress}%` }}></div>
                 </div>
                 <p className="progress-text">
-                  {answeredCount} of {questions.length} answered
+                  {answeredCount} of {adaptive ? `up to ${totalCount}` : totalCount} answered
                 </p>
               </div>
             </div>
@@ -301,45 +507,64 @@ const TakeTestPage: React.FC = () => {
           </div>
 
           {/* Question Card */}
-          <div className="question-card animate-fade-in">
-            <div className="question-number">Question {currentQuestionIndex + 1}</div>
-            <div className="question-text">{currentQuestion.questionText}</div>
-
-            <div className="answer-section">
-              {currentQuestion.questionType === 'MultipleChoice' && currentQuestion.options ? (
-                <div className="options-list" role="radiogroup" aria-label="Answer options">
-                  {currentQuestion.options.map((option, index) => (
-                    <label key={index} className={`option-label ${currentAnswer === option ? 'option-selected' : ''}`}>
-                      <input
-                        type="radio"
-                        name="answer"
-                        value={option}
-                        checked={currentAnswer === option}
-                        onChange={(e) => handleAnswerChange(e.target.value)}
-                      />
-                      <span className="option-indicator">{String.fromCharCode(65 + index)}</span>
-                      <span className="option-text">{option}</span>
-                    </label>
-                  ))}
-                </div>
-              ) : (
-                <textarea
-                  className="answer-input"
-                  value={currentAnswer}
-                  onChange={(e) => handleAnswerChange(e.target.value)}
-                  placeholder="Type your answer here..."
-                  rows={4}
-                  aria-label="Your answer"
-                />
-              )}
+          {adaptive?.complete ? (
+            <div className="question-card animate-fade-in">
+              <div className="question-text">You have answered all the questions for this test. Submit to see your results.</div>
             </div>
+          ) : (
+          <div className="question-card animate-fade-in">
+            {screenGroup && (
+              <div className="question-group-stimulus">
+                <div className="question-number">Questions {screenStart + 1}-{screenEnd + 1}</div>
+                {screenGroup.imageUrl && (
+                  <img src={screenGroup.imageUrl} alt="" className="stimulus-image" />
+                )}
+                <div className="stimulus-text"><MathText text={screenGroup.stimulusText} /></div>
+              </div>
+            )}
+            {questions.slice(screenStart, screenEnd + 1).map((question, offset) => (
+              <div key={question.questionId} className="screen-question">
+                <div className="question-number">Question {screenStart + offset + 1}</div>
+                <div className="question-text"><MathText text={question.questionText} /></div>
+                {question.imageId && (
+                  <img src={getImageUrl(question.imageId)} alt="" className="question-image" />
+                )}
+                <div className="answer-section">{renderAnswerInput(question)}</div>
+              </div>
+            ))}
           </div>
+          )}
 
           {/* Navigation Buttons */}
+          {adaptive ? (
+            <div className="navigation-buttons">
+              {adaptive.complete ? (
+                <button
+                  onClick={() => setShowConfirmModal(true)}
+                  disabled={submitting}
+                  className="nav-button submit"
+                >
+                  {submitting ? 'Submitting...' : 'Submit Test'}
+                </button>
+              ) : (
+                <button
+                  onClick={handleConfirmAnswer}
+                  disabled={!draftAnswer || saveStatus === 'saving'}
+                  className="nav-button primary"
+                  aria-label="Confirm answer and go to the next question"
+                >
+                  Confirm &amp; Next
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
+                    <path d="M9 18l6-6-6-6" />
+                  </svg>
+                </button>
+              )}
+            </div>
+          ) : (
           <div className="navigation-buttons">
             <button
               onClick={handlePrevious}
-              disabled={currentQuestionIndex === 0}
+              disabled={screenStart === 0}
               className="nav-button"
               aria-label="Previous question"
             >
@@ -349,7 +574,7 @@ const TakeTestPage: React.FC = () => {
               Previous
             </button>
 
-            {currentQuestionIndex < questions.length - 1 ? (
+            {screenEnd < questions.length - 1 ? (
               <button onClick={handleNext} className="nav-button primary" aria-label="Next question">
                 Next
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" aria-hidden="true">
@@ -366,24 +591,29 @@ const TakeTestPage: React.FC = () => {
               </button>
             )}
           </div>
+          )}
 
           {/* Question Navigator */}
+          {!adaptive && (
           <div className="question-navigator">
             <h3>Questions</h3>
             <div className="question-grid" role="navigation" aria-label="Question navigator">
-              {questions.map((q, index) => (
-                <button
-                  key={q.questionId}
-                  onClick={() => setCurrentQuestionIndex(index)}
-                  className={`question-number-btn ${
-                    index === currentQuestionIndex ? 'active' : ''
-                  } ${responses.has(q.questionId) ? 'answered' : ''}`}
-                  aria-label={`Question ${index + 1}${responses.has(q.questionId) ? ', answered' : ', not answered'}${index === currentQuestionIndex ? ', current' : ''}`}
-                  aria-current={index === currentQuestionIndex ? 'true' : undefined}
-                >
-                  {index + 1}
-                </button>
-              ))}
+              {questions.map((q, index) => {
+                const onScreen = index >= screenStart && index <= screenEnd;
+                return (
+                  <button
+                    key={q.questionId}
+                    onClick={() => setCurrentQuestionIndex(index)}
+                    className={`question-number-btn ${
+                      onScreen ? 'active' : ''
+                    } ${responses.has(q.questionId) ? 'answered' : ''}`}
+                    aria-label={`Question ${index + 1}${responses.has(q.questionId) ? ', answered' : ', not answered'}${onScreen ? ', current' : ''}`}
+                    aria-current={onScreen ? 'true' : undefined}
+                  >
+                    {index + 1}
+                  </button>
+                );
+              })}
             </div>
             <div className="navigator-legend">
               <span className="legend-item">
@@ -396,6 +626,7 @@ const TakeTestPage: React.FC = () => {
               </span>
             </div>
           </div>
+          )}
         </div>
       </main>
 
@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { apiGet, apiPost, ApiError } from '../lib/api';
+import './ClassesPage.css';
+
+export interface ClassSummary {
+  classId: string;
+  name: string;
+  subject?: string;
+  grade?: number;
+  joinCode: string;
+  studentCount: number;
+  createdAt: string;
+}
+
+const TeacherClassesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const [classes, setClasses] = useState<ClassSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    loadClasses();
+  }, []);
+
+  const loadClasses = async () => {
+    try {
+      setLoading(true);
+      const data = await apiGet<{ classes: ClassSummary[] }>('/api/classes');
+      setClasses(data.classes);
+      setError('');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to load classes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      return;
+    }
+
+    try {
+      setCreating(true);
+      const data = await apiPost<{ class: ClassSummary }>('/api/classes', {
+        name: name.trim(),
+        subject: subject || undefined,
+      });
+      setClasses([data.class, ...classes]);
+      setName('');
+      setSubject('');
+      setError('');
+    } catch (err) {
+      setError(err instanceof ApiError ? err.message : 'Failed to create class');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="classes-page">
+      <Header />
+
+      <main className="classes-main">
+        <div className="classes-container">
+          <div className="classes-header">
+            <h1 className="classes-title">My Classes</h1>
+            <button onClick={() => navigate('/generate-test')} className="classes-secondary-button">
+              Generate a Test to Assign
+            </button>
+          </div>
+
+          {error && <div className="classes-error">{error}</div>}
+
+          <form onSubmit={handleCreate} className="classes-card classes-form">
+            <h2 className="classes-card-title">Create a Class</h2>
+            <div className="classes-form-row">
+              <input
+                type="text"
+                placeholder="Class name, e.g. 8B Mathematics"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                className="classes-input"
+                required
+              />
+              <select value={subject} onChange={e => setSubject(e.target.value)} className="classes-input">
+                <option value="">Any subject</option>
+                <option value="Mathematics">Mathematics</option>
+                <option value="Science">Science</option>
+                <option value="English">English</option>
+                <option value="Social Studies">Social Studies</option>
+                <option value="Hindi">Hindi</option>
+              </select>
+              <button type="submit" className="classes-primary-button" disabled={creating}>
+                {creating ? 'Creating...' : 'Create'}
+              </button>
+            </div>
+          </form>
+
+          {loading ? (
+            <div className="loading">Loading classes...</div>
+          ) : classes.length === 0 ? (
+            <p className="classes-empty">You have no classes yet. Create one above and share its join code with your students.</p>
+          ) : (
+            <div className="classes-grid">
+              {classes.map(cls => (
+                <div
+                  key={cls.classId}
+                  className="classes-card class-tile"
+                  onClick={() => navigate(`/teacher/classes/${cls.classId}`)}
+                >
+                  <h3 className="class-tile-name">{cls.name}</h3>
+                  {cls.subject && <p className="class-tile-meta">{cls.subject}</p>}
+                  <p className="class-tile-meta">
+                    {cls.studentCount} {cls.studentCount === 1 ? 'student' : 'students'}
+                  </p>
+                  <div className="join-code">
+                    Join code <span className="join-code-value">{cls.joinCode}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default TeacherClassesPage;
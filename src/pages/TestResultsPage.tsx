@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
 import Header from '../components/Header';
 import Footer from '../components/Footer';
-import { apiGet } from '../lib/api';
+import MathText from '../components/MathText';
+import { apiGet, apiPost, ApiError } from '../lib/api';
 import { pdfDownloadService, DownloadState } from '../services/pdfDownloadService';
 import './TestResultsPage.css';
 
@@ -14,6 +16,14 @@ interface TopicScore {
   percentage: number;
 }
 
+interface TopicAbilityEstimate {
+  topicId: string;
+  topicName: string;
+  ability: number;
+  standardError: number;
+  itemsAnswered: number;
+}
+
 interface WeakTopic {
   topicId: string;
   topicName: string;
@@ -22,6 +32,9 @@ interface WeakTopic {
   questionsCorrect: number;
 }
 
+type GraderType = 'AnswerKey' | 'Numerical' | 'PartCredit' | 'LLM' | 'Keyword' | 'Teacher';
+
+// Grading fields are absent for tests evaluated before each response's grade was stored
 interface QuestionResult {
   questionId: string;
   questionText: string;
@@ -29,8 +42,58 @@ interface QuestionResult {
   correctAnswer: string;
   isCorrect: boolean;
   solutionSteps?: string[];
+  points?: number;
+  pointsEarned?: number;
+  grader?: GraderType;
+  feedback?: string;
 }
 
+const GRADER_LABELS: Record<GraderType, string> = {
+  AnswerKey: 'Marked against the answer key',
+  Numerical: 'Marked by value, within the allowed tolerance',
+  PartCredit: 'Marked part by part',
+  LLM: 'Marked against the marking scheme by the AI grader',
+  Keyword: 'Marked against the marking scheme by its keywords',
+  Teacher: 'Marked by your teacher',
+};
+
+type ReviewStatus = 'correct' | 'partial' | 'incorrect';
+
+const reviewStatus = (q: QuestionResult): ReviewStatus => {
+  if (q.isCorrect) return 'correct';
+  return q.pointsEarned ? 'partial' : 'incorrect';
+};
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  correct: '✓ Correct',
+  partial: '◐ Partly correct',
+  incorrect: '✗ Incorrect',
+};
+
+const formatMarks = (marks: number): string => String(Math.round(marks * 100) / 100);
+
+// A teacher's change to the marks of one response
+interface GradeOverride {
+  overrideId: string;
+  questionId: string;
+  points: number;
+  previousPoints: number;
+  previousGrader: GraderType;
+  pointsEarned: number;
+  reason: string;
+  overriddenBy: { userId: string; name?: string };
+  createdAt: string;
+}
+
+type IssueCategory = 'WrongAnswer' | 'Ambiguous' | 'OffSyllabus' | 'Typo';
+
+const ISSUE_CATEGORIES: { value: IssueCategory; label: string }[] = [
+  { value: 'WrongAnswer', label: 'The correct answer is wrong' },
+  { value: 'Ambiguous', label: 'The question is ambiguous' },
+  { value: 'OffSyllabus', label: 'Not in my syllabus' },
+  { value: 'Typo', label: 'Typo or formatting problem' },
+];
+
 interface ImprovementSuggestion {
   topicId: string;
   syllabusSection: string;
@@ -45,7 +108,9 @@ interface TestResults {
     correctCount: number;
     totalCount: number;
     topicScores: TopicScore[];
+    abilityEstimates?: TopicAbilityEstimate[];
     evaluatedAt: Date;
+    reevaluatedAt?: Date;
   };
   report: {
     reportId: string;
@@ -54,16 +119,47 @@ interface TestResults {
     generatedAt: Date;
   };
   questions: QuestionResult[];
+  gradeHistory?: GradeOverride[];
 }
 
+/**
+ * Difficulty level an adaptive ability estimate sits closest to
+ * (Foundation questions are at -1 on the ability scale, Challenge at +1)
+ */
+const abilityLevel = (ability: number): string => {
+  if (ability < -0.5) return 'Foundation';
+  if (ability > 0.5) return 'Challenge';
+  return 'Exam Realistic';
+};
+
 const TestResultsPage: React.FC = () => {
   const { testId } = useParams<{ testId: string }>();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  // Teachers open a student's results from their class; they may change the student's marks
+  const [searchParams] = useSearchParams();
+  const studentId = searchParams.get('student');
+  const canOverride = user?.role === 'Teacher' || user?.role === 'Admin';
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [results, setResults] = useState<TestResults | null>(null);
   const [showAnswers, setShowAnswers] = useState(false);
+  const [mistakesOnly, setMistakesOnly] = useState(false);
+
+  // Reporting a problem with a question
+  const [reportingId, setReportingId] = useState<string | null>(null);
+  const [reportCategory, setReportCategory] = useState<IssueCategory>('WrongAnswer');
+  const [reportComment, setReportComment] = useState('');
+  const [reportError, setReportError] = useState('');
+  const [reportedIds, setReportedIds] = useState<Set<string>>(new Set());
+
+  // Changing the marks of a response
+  const [overridingId, setOverridingId] = useState<string | null>(null);
+  const [overridePoints, setOverridePoints] = useState('');
+  const [overrideReason, setOverrideReason] = useState('');
+  const [overrideError, setOverrideError] = useState('');
+  const [overrideSaving, setOverrideSaving] = useState(false);
 
   // PDF download state (Requirements: 5.1, 5.2, 5.4, 5.6)
   const [downloadState, setDownloadState] = useState<DownloadState>({
@@ -75,7 +171,7 @@ const TestResultsPage: React.FC = () => {
 
   useEffect(() => {
     loadResults();
-  }, [testId]);
+  }, [testId, studentId]);
 
   // Subscribe to PDF download service state changes
   useEffect(() => {
@@ -90,7 +186,7 @@ const TestResultsPage: React.FC = () => {
 
   const loadResults = async () => {
     try {
-      const userId = localStorage.getItem('userId');
+      const userId = studentId ?? localStorage.getItem('userId');
       if (!userId) {
         navigate('/login');
         return;
@@ -105,6 +201,68 @@ const TestResultsPage: React.FC = () => {
     }
   };
 
+  const openReport = (questionId: string) => {
+    setReportingId(questionId);
+    setReportCategory('WrongAnswer');
+    setReportComment('');
+    setReportError('');
+  };
+
+  const handleReportIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reportingId || !testId) return;
+
+    try {
+      await apiPost(`/api/questions/${reportingId}/issues`, {
+        testId,
+        category: reportCategory,
+        comment: reportComment.trim() || undefined,
+      });
+      setReportedIds(new Set(reportedIds).add(reportingId));
+      setReportingId(null);
+    } catch (err) {
+      if (err instanceof ApiError && err.code === 'ALREADY_REPORTED') {
+        setReportedIds(new Set(reportedIds).add(reportingId));
+        setReportingId(null);
+        return;
+      }
+      setReportError(err instanceof ApiError ? err.message : 'Failed to send your report');
+    }
+  };
+
+  const openOverride = (q: QuestionResult) => {
+    setOverridingId(q.questionId);
+    setOverridePoints(q.pointsEarned !== undefined ? formatMarks(q.pointsEarned) : '');
+    setOverrideReason('');
+    setOverrideError('');
+  };
+
+  const handleOverride = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!overridingId || !testId) return;
+
+    const pointsEarned = Number(overridePoints);
+    if (overridePoints.trim() === '' || Number.isNaN(pointsEarned) || pointsEarned < 0) {
+      setOverrideError('Enter the marks to give');
+      return;
+    }
+
+    setOverrideSaving(true);
+    setOverrideError('');
+    try {
+      await apiPost(`/api/grading/tests/${testId}/questions/${overridingId}/override`, {
+        pointsEarned,
+        reason: overrideReason.trim(),
+      });
+      setOverridingId(null);
+      await loadResults();
+    } catch (err) {
+      setOverrideError(err instanceof ApiError ? err.message : 'Failed to change the marks');
+    } finally {
+      setOverrideSaving(false);
+    }
+  };
+
   const handleDownloadPDF = async () => {
     if (!testId) return;
     
@@ -180,7 +338,8 @@ const TestResultsPage: React.FC = () => {
     );
   }
 
-  const { evaluation, report, questions } = results;
+  const { evaluation, report, questions, gradeHistory = [] } = results;
+  const questionNumber = (questionId: string): number => questions.findIndex(q => q.questionId === questionId) + 1;
   const scorePercentage = evaluation.overallScore;
   const scoreColor = scorePercentage >= 80 ? '#4caf50' : scorePercentage >= 60 ? '#ff9800' : '#f44336';
 
@@ -192,6 +351,13 @@ const TestResultsPage: React.FC = () => {
         <div className="results-container">
           <h1 className="results-title">Test Results</h1>
 
+          {evaluation.reevaluatedAt && (
+            <div className="reevaluated-notice">
+              Re-marked on {new Date(evaluation.reevaluatedAt).toLocaleDateString()}
+              {gradeHistory.length > 0 ? ' after a teacher changed some marks.' : " after a question's answer key was corrected."}
+            </div>
+          )}
+
           {/* Overall Score Card */}
           <div className="score-card">
             <div className="score-circle" style={{ borderColor: scoreColor }}>
@@ -238,6 +404,25 @@ const TestResultsPage: React.FC = () => {
             </div>
           </div>
 
+          {/* Adaptive ability estimates */}
+          {evaluation.abilityEstimates && evaluation.abilityEstimates.length > 0 && (
+            <div className="section-card">
+              <h2 className="section-title">Estimated Level by Topic</h2>
+              <div className="topics-list">
+                {evaluation.abilityEstimates.map(estimate => (
+                  <div key={estimate.topicId} className="topic-item">
+                    <div className="topic-header">
+                      <span className="topic-name">{estimate.topicName}</span>
+                      <span className="topic-score">
+                        {abilityLevel(estimate.ability)} (ability {estimate.ability.toFixed(2)} ± {estimate.standardError.toFixed(2)}, {estimate.itemsAnswered} questions)
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Weak Topics */}
           {report.weakTopics.length > 0 && (
             <div className="section-card weak-topics-card">
@@ -293,52 +478,169 @@ const TestResultsPage: React.FC = () => {
               </button>
             </div>
 
+            {showAnswers && (
+              <label className="review-filter">
+                <input
+                  type="checkbox"
+                  checked={mistakesOnly}
+                  onChange={e => setMistakesOnly(e.target.checked)}
+                />
+                Only show questions I did not get fully right
+              </label>
+            )}
+
             {showAnswers && (
               <div className="questions-review">
-                {questions.map((q, index) => (
+                {questions.map((q, index) => ({ q, index }))
+                  .filter(({ q }) => !mistakesOnly || !q.isCorrect)
+                  .map(({ q, index }) => (
                   <div
                     key={q.questionId}
-                    className={`question-review-item ${q.isCorrect ? 'correct' : 'incorrect'}`}
+                    className={`question-review-item ${reviewStatus(q)}`}
                   >
                     <div className="question-review-header">
                       <span className="question-review-number">Question {index + 1}</span>
-                      <span className={`question-review-status ${q.isCorrect ? 'correct' : 'incorrect'}`}>
-                        {q.isCorrect ? '✓ Correct' : '✗ Incorrect'}
+                      <span className="question-review-marks">
+                        {q.points !== undefined && q.pointsEarned !== undefined && (
+                          <span className="question-review-points">
+                            {formatMarks(q.pointsEarned)} / {q.points} {q.points === 1 ? 'mark' : 'marks'}
+                          </span>
+                        )}
+                        <span className={`question-review-status ${reviewStatus(q)}`}>
+                          {REVIEW_STATUS_LABELS[reviewStatus(q)]}
+                        </span>
                       </span>
                     </div>
-                    <div className="question-review-text">{q.questionText}</div>
+                    <div className="question-review-text"><MathText text={q.questionText} /></div>
                     <div className="answer-comparison">
                       <div className="answer-row">
                         <span className="answer-label">Your Answer:</span>
                         <span className={`answer-value ${q.isCorrect ? 'correct' : 'incorrect'}`}>
-                          {q.userAnswer || '(Not answered)'}
+                          {q.userAnswer ? <MathText text={q.userAnswer} /> : '(Not answered)'}
                         </span>
                       </div>
-                      {!q.isCorrect && (
-                        <>
-                          <div className="answer-row">
-                            <span className="answer-label">Correct Answer:</span>
-                            <span className="answer-value correct">{q.correctAnswer}</span>
-                          </div>
-                          {q.solutionSteps && q.solutionSteps.length > 0 && (
-                            <div className="solution-steps">
-                              <span className="solution-label">Solution:</span>
-                              <ol className="solution-list">
-                                {q.solutionSteps.map((step, stepIndex) => (
-                                  <li key={stepIndex}>{step}</li>
-                                ))}
-                              </ol>
-                            </div>
-                          )}
-                        </>
+                      <div className="answer-row">
+                        <span className="answer-label">Correct Answer:</span>
+                        <span className="answer-value correct"><MathText text={q.correctAnswer} /></span>
+                      </div>
+                      {(q.grader || q.feedback) && (
+                        <div className="grading-note">
+                          {q.grader && <span className="grading-note-grader">{GRADER_LABELS[q.grader]}</span>}
+                          {q.feedback && <p className="grading-note-feedback">{q.feedback}</p>}
+                        </div>
+                      )}
+                      {q.solutionSteps && q.solutionSteps.length > 0 && (
+                        <div className="solution-steps">
+                          <span className="solution-label">Solution:</span>
+                          <ol className="solution-list">
+                            {q.solutionSteps.map((step, stepIndex) => (
+                              <li key={stepIndex}><MathText text={step} /></li>
+                            ))}
+                          </ol>
+                        </div>
                       )}
                     </div>
+
+                    {canOverride && (overridingId === q.questionId ? (
+                      <form onSubmit={handleOverride} className="report-issue-form">
+                        <label className="override-points">
+                          Marks
+                          <input
+                            type="number"
+                            min={0}
+                            max={q.points}
+                            step={0.5}
+                            value={overridePoints}
+                            onChange={e => setOverridePoints(e.target.value)}
+                            className="report-issue-input"
+                            required
+                          />
+                          {q.points !== undefined && <span>out of {q.points}</span>}
+                        </label>
+                        <textarea
+                          value={overrideReason}
+                          onChange={e => setOverrideReason(e.target.value)}
+                          placeholder="Why are the marks changing? (shown to the student)"
+                          className="report-issue-input"
+                          rows={2}
+                          maxLength={1000}
+                          required
+                        />
+                        {overrideError && <p className="report-issue-error">{overrideError}</p>}
+                        <div className="report-issue-actions">
+                          <button type="submit" className="report-issue-button" disabled={overrideSaving}>Save marks</button>
+                          <button type="button" onClick={() => setOverridingId(null)} className="report-issue-link">
+                            Cancel
+                          </button>
+                        </div>
+                      </form>
+                    ) : (
+                      <button onClick={() => openOverride(q)} className="report-issue-link">
+                        Change marks
+                      </button>
+                    ))}
+
+                    {studentId ? null : reportedIds.has(q.questionId) ? (
+                      <p className="report-issue-sent">Thanks, your report has been sent for review.</p>
+                    ) : reportingId === q.questionId ? (
+                      <form onSubmit={handleReportIssue} className="report-issue-form">
+                        <select
+                          value={reportCategory}
+                          onChange={e => setReportCategory(e.target.value as IssueCategory)}
+                          className="report-issue-input"
+                        >
+                          {ISSUE_CATEGORIES.map(category => (
+                            <option key={category.value} value={category.value}>{category.label}</option>
+                          ))}
+                        </select>
+                        <textarea
+                          value={reportComment}
+                          onChange={e => setReportComment(e.target.value)}
+                          placeholder="What is wrong? (optional)"
+                          className="report-issue-input"
+                          rows={2}
+                          maxLength={1000}
+                        />
+                        {reportError && <p className="report-issue-error">{reportError}</p>}
+                        <div className="report-issue-actions">
+                          <button type="submit" className="report-issue-button">Send report</button>
+                          <button type="button" onClick={() => setReportingId(null)} className="report-issue-link">
+                            Cancel
+                          </button>
+                        </div>
+                      </form>
+                    ) : (
+                      <button onClick={() => openReport(q.questionId)} className="report-issue-link">
+                        Report issue
+                      </button>
+                    )}
                   </div>
                 ))}
               </div>
             )}
           </div>
 
+          {/* Regrade History */}
+          {gradeHistory.length > 0 && (
+            <div className="section-card">
+              <h2 className="section-title">Regrade History</h2>
+              <ul className="regrade-history">
+                {gradeHistory.map(override => (
+                  <li key={override.overrideId} className="regrade-history-item">
+                    <div className="regrade-history-change">
+                      Question {questionNumber(override.questionId)}: {formatMarks(override.previousPoints)} → {formatMarks(override.pointsEarned)} of {override.points} {override.points === 1 ? 'mark' : 'marks'}
+                    </div>
+                    <div className="regrade-history-meta">
+                      {override.overriddenBy.name || 'A teacher'} on {new Date(override.createdAt).toLocaleDateString()}
+                      {' '}(previously {GRADER_LABELS[override.previousGrader].toLowerCase()})
+                    </div>
+                    <div className="regrade-history-reason">{override.reason}</div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="action-buttons">
             {/* Loading/Error/Success Messages (Requirements: 5.1, 5.2, 5.4, 5.6) */}
@@ -92,6 +92,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           curriculum: user.curriculum,
           grade: user.grade,
           subjects: user.subjects ? JSON.parse(user.subjects) : [],
+          role: user.role,
         },
         session: {
           access_token: data.session.access_token,
@@ -123,7 +124,7 @@ export async function authRoutes(fastify: FastifyInstance) {
         });
       }
 
-      const { email, password, curriculum, grade, subjects } = validation.data;
+      const { email, password, curriculum, grade, subjects, role } = validation.data;
 
       // Create user in Supabase Auth
       const { data, error } = await supabase.auth.signUp({
@@ -153,6 +154,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           curriculum,
           grade,
           subjects: JSON.stringify(subjects),
+          role,
           createdAt: new Date(),
           lastLogin: new Date(),
         },
@@ -165,6 +167,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           curriculum: user.curriculum,
           grade: user.grade,
           subjects: JSON.parse(user.subjects),
+          role: user.role,
         },
         message: 'Registration successful. Please check your email to verify your account.',
       });
@@ -222,6 +225,7 @@ export async function authRoutes(fastify: FastifyInstance) {
           curriculum: profile.curriculum,
           grade: profile.grade,
           subjects: JSON.parse(profile.subjects),
+          role: profile.role,
         },
       });
     } catch (error) {
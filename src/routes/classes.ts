@@ -0,0 +1,368 @@
+// Class API routes
+// Teachers manage classes, rosters and assignments; students join classes and take assigned tests
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ClassroomService } from '../services/classroom';
+import { ClassAnalyticsService } from '../services/classAnalytics';
+import { ClassroomError, NotFoundError, Curriculum } from '../types';
+import {
+  createClassSchema,
+  inviteStudentSchema,
+  joinClassSchema,
+  createAssignmentSchema,
+  formatZodErrors,
+} from '../lib/validators';
+
+const classroom = new ClassroomService(prisma);
+const classAnalytics = new ClassAnalyticsService(prisma);
+const requireTeacher = requireRole('Teacher');
+
+const ERROR_STATUS: Record<(ClassroomError | NotFoundError)['type'], { status: number; code: string }> = {
+  NotFound: { status: 404, code: 'NOT_FOUND' },
+  Forbidden: { status: 403, code: 'FORBIDDEN' },
+  NotAMember: { status: 403, code: 'NOT_A_MEMBER' },
+  AlreadyMember: { status: 409, code: 'ALREADY_MEMBER' },
+  InvalidJoinCode: { status: 404, code: 'INVALID_JOIN_CODE' },
+  InvalidWindow: { status: 400, code: 'INVALID_WINDOW' },
+  AssignmentNotOpen: { status: 403, code: 'ASSIGNMENT_NOT_OPEN' },
+  AssignmentClosed: { status: 403, code: 'ASSIGNMENT_CLOSED' },
+};
+
+function describeError(error: ClassroomError | NotFoundError): string {
+  switch (error.type) {
+    case 'NotFound':
+      return `${error.resource} not found`;
+    case 'Forbidden':
+    case 'InvalidWindow':
+      return error.message;
+    case 'NotAMember':
+      return 'You are not a member of this class';
+    case 'AlreadyMember':
+      return 'Already a member of this class';
+    case 'InvalidJoinCode':
+      return `No class found for join code ${error.code}`;
+    case 'AssignmentNotOpen':
+      return `This assignment opens at ${error.opensAt.toISOString()}`;
+    case 'AssignmentClosed':
+      return `This assignment closed at ${error.closesAt.toISOString()}`;
+  }
+}
+
+function sendError(reply: FastifyReply, error: ClassroomError | NotFoundError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendValidationError(reply: FastifyReply, message: string) {
+  return reply.status(400).send({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function classRoutes(fastify: FastifyInstance) {
+  // ==========================================================================
+  // Teacher endpoints
+  // ==========================================================================
+
+  // List the teacher's classes
+  fastify.get('/api/classes', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const classes = await classroom.listTeacherClasses(request.user!.id);
+      return reply.send({ success: true, classes });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Create a class
+  fastify.post('/api/classes', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validation = createClassSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const created = await classroom.createClass(request.user!.id, {
+        ...validation.data,
+        curriculum: validation.data.curriculum as Curriculum | undefined,
+      });
+      return reply.status(201).send({ success: true, class: created });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Tests the teacher can assign (their own in-app exams)
+  fastify.get('/api/classes/assignable-tests', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const tests = await classroom.listAssignableTests(request.user!.id);
+      return reply.send({ success: true, tests });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // ==========================================================================
+  // Student endpoints
+  // ==========================================================================
+
+  // Classes the student belongs to
+  fastify.get('/api/classes/enrolled', {
+    preHandler: [authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const classes = await classroom.listStudentClasses(request.user!.id);
+      return reply.send({ success: true, classes });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Join a class by code
+  fastify.post('/api/classes/join', {
+    preHandler: [authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validation = joinClassSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await classroom.joinByCode(request.user!.id, validation.data.joinCode);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, class: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Pending invites for the signed-in student's email
+  fastify.get('/api/classes/invites', {
+    preHandler: [authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const invites = await classroom.listInvites(request.user!.email);
+      return reply.send({ success: true, invites });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Accept an invite
+  fastify.post<{ Params: { inviteId: string } }>('/api/classes/invites/:inviteId/accept', {
+    preHandler: [authenticate],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await classroom.acceptInvite(request.params.inviteId, request.user!.id, request.user!.email);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, class: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Assignments across the student's classes
+  fastify.get('/api/assignments', {
+    preHandler: [authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const assignments = await classroom.listStudentAssignments(request.user!.id);
+      return reply.send({ success: true, assignments });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Start (or resume) an assignment; returns the student's own test ID
+  fastify.post<{ Params: { assignmentId: string } }>('/api/assignments/:assignmentId/start', {
+    preHandler: [authenticate],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await classroom.startAssignment(request.params.assignmentId, request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, testId: result.value.testId });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // ==========================================================================
+  // Teacher endpoints for a single class
+  // ==========================================================================
+
+  // Class detail: roster, pending invites and assignments
+  fastify.get<{ Params: { classId: string } }>('/api/classes/:classId', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await classroom.getClassDetail(request.params.classId, request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, class: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Invite a student by email
+  fastify.post<{ Params: { classId: string } }>('/api/classes/:classId/invites', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const validation = inviteStudentSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await classroom.inviteStudent(request.params.classId, request.user!.id, validation.data.email);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, invite: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Remove a student from the roster
+  fastify.delete<{ Params: { classId: string; userId: string } }>('/api/classes/:classId/students/:userId', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const { classId, userId } = request.params;
+      const result = await classroom.removeStudent(classId, request.user!.id, userId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Assign a test to the class with an open/close window
+  fastify.post<{ Params: { classId: string } }>('/api/classes/:classId/assignments', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const validation = createAssignmentSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const { testId, opensAt, closesAt } = validation.data;
+      const result = await classroom.createAssignment(request.params.classId, request.user!.id, testId, {
+        opensAt,
+        closesAt,
+      });
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, assignment: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Per-student results for an assignment
+  fastify.get<{ Params: { classId: string; assignmentId: string } }>('/api/classes/:classId/assignments/:assignmentId/results', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await classroom.getAssignmentResults(request.params.assignmentId, request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, results: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Class analytics: assignment averages, topic averages and students needing attention
+  fastify.get<{ Params: { classId: string } }>('/api/classes/:classId/analytics', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await classAnalytics.getClassAnalytics(request.params.classId, request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, analytics: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Item analysis for one assignment
+  fastify.get<{ Params: { classId: string; assignmentId: string } }>('/api/classes/:classId/assignments/:assignmentId/analytics', {
+    preHandler: [authenticate, requireTeacher],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await classAnalytics.getAssignmentAnalytics(request.params.assignmentId, request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, analytics: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
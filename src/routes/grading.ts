@@ -0,0 +1,147 @@
+// Grading review API routes
+// Teachers and admins confirm or change the ShortAnswer grades the grader was not confident of,
+// and override the marks of any response of an evaluated test
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { GradingReviewService } from '../services/gradingReview';
+import { GradeOverrideService } from '../services/gradeOverrides';
+import { EvaluatorService } from '../services/evaluator';
+import { FeedbackEngine } from '../services/feedbackEngine';
+import { GradeReviewError, GradeOverrideError, NotFoundError } from '../types';
+import {
+  gradeReviewSearchSchema,
+  gradeReviewDecisionSchema,
+  gradeOverrideSchema,
+  formatZodErrors,
+} from '../lib/validators';
+
+// Re-scoring reuses the stored grades, so the evaluator needs no grader of its own
+const evaluator = new EvaluatorService(prisma);
+const feedbackEngine = new FeedbackEngine(prisma);
+const gradingReview = new GradingReviewService(prisma, evaluator, feedbackEngine);
+const gradeOverrides = new GradeOverrideService(prisma, evaluator, feedbackEngine);
+const requireReviewer = requireRole('Admin', 'Teacher');
+
+type GradingError = GradeReviewError | GradeOverrideError | NotFoundError;
+
+const ERROR_STATUS: Record<GradingError['type'], { status: number; code: string }> = {
+  NotFound: { status: 404, code: 'NOT_FOUND' },
+  Forbidden: { status: 403, code: 'FORBIDDEN' },
+  AlreadyReviewed: { status: 409, code: 'ALREADY_REVIEWED' },
+  InvalidPoints: { status: 400, code: 'INVALID_POINTS' },
+  NotEvaluated: { status: 409, code: 'NOT_EVALUATED' },
+  RescoreFailed: { status: 500, code: 'RESCORE_FAILED' },
+};
+
+function describeError(error: GradingError): string {
+  switch (error.type) {
+    case 'NotFound':
+      return `${error.resource} not found`;
+    case 'Forbidden':
+    case 'InvalidPoints':
+      return error.message;
+    case 'AlreadyReviewed':
+      return 'This answer has already been reviewed';
+    case 'NotEvaluated':
+      return 'This test has not been evaluated yet';
+    case 'RescoreFailed':
+      return `The change was saved but the test could not be re-scored: ${error.reason}`;
+  }
+}
+
+function sendError(reply: FastifyReply, error: GradingError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendValidationError(reply: FastifyReply, message: string) {
+  return reply.status(400).send({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function gradingRoutes(fastify: FastifyInstance) {
+  // Short answers waiting for review; teachers see their own students' answers
+  fastify.get('/api/grading/reviews', {
+    preHandler: [authenticate, requireReviewer],
+  }, async (request, reply) => {
+    try {
+      const validation = gradeReviewSearchSchema.safeParse(request.query);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const teacherId = request.user!.role === 'Teacher' ? request.user!.id : undefined;
+      const result = await gradingReview.listPendingReviews(teacherId, validation.data);
+      return reply.send({ success: true, ...result });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Set the marks for a short answer and re-score its test
+  fastify.post<{ Params: { gradeId: string } }>('/api/grading/reviews/:gradeId/resolve', {
+    preHandler: [authenticate, requireReviewer],
+  }, async (request, reply) => {
+    try {
+      const validation = gradeReviewDecisionSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await gradingReview.resolveReview(
+        request.params.gradeId,
+        { id: request.user!.id, teacherOnly: request.user!.role === 'Teacher' },
+        validation.data
+      );
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, ...result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Change the marks of one response of an evaluated test, with the reason, and re-score the test
+  fastify.post<{ Params: { testId: string; questionId: string } }>('/api/grading/tests/:testId/questions/:questionId/override', {
+    preHandler: [authenticate, requireReviewer],
+  }, async (request, reply) => {
+    try {
+      const validation = gradeOverrideSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await gradeOverrides.overrideGrade(
+        request.params.testId,
+        request.params.questionId,
+        { id: request.user!.id, teacherOnly: request.user!.role === 'Teacher' },
+        validation.data
+      );
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, ...result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
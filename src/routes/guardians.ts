@@ -0,0 +1,199 @@
+// Guardian API routes
+// Guardians request links to students, students approve them, and linked guardians get read-only results
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { GuardianService } from '../services/guardian';
+import { PerformanceHistoryService } from '../services/performanceHistory';
+import { GuardianError, NotFoundError } from '../types';
+import {
+  guardianLinkSchema,
+  respondGuardianLinkSchema,
+  formatZodErrors,
+} from '../lib/validators';
+
+const guardians = new GuardianService(prisma, new PerformanceHistoryService(prisma));
+const requireGuardian = requireRole('Guardian');
+
+const ERROR_STATUS: Record<(GuardianError | NotFoundError)['type'], { status: number; code: string }> = {
+  NotFound: { status: 404, code: 'NOT_FOUND' },
+  Forbidden: { status: 403, code: 'FORBIDDEN' },
+  InvalidRequest: { status: 400, code: 'INVALID_REQUEST' },
+  AlreadyLinked: { status: 409, code: 'ALREADY_LINKED' },
+};
+
+function describeError(error: GuardianError | NotFoundError): string {
+  switch (error.type) {
+    case 'NotFound':
+      return `${error.resource} not found`;
+    case 'Forbidden':
+    case 'InvalidRequest':
+      return error.message;
+    case 'AlreadyLinked':
+      return `A link to ${error.studentEmail} is already pending or approved`;
+  }
+}
+
+function sendError(reply: FastifyReply, error: GuardianError | NotFoundError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendValidationError(reply: FastifyReply, message: string) {
+  return reply.status(400).send({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function guardianRoutes(fastify: FastifyInstance) {
+  // ==========================================================================
+  // Guardian endpoints
+  // ==========================================================================
+
+  // Links the guardian has requested
+  fastify.get('/api/guardian/links', {
+    preHandler: [authenticate, requireGuardian],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const links = await guardians.listGuardianLinks(request.user!.id);
+      return reply.send({ success: true, links });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Request a link to a student by email
+  fastify.post('/api/guardian/links', {
+    preHandler: [authenticate, requireGuardian],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validation = guardianLinkSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await guardians.requestLink(request.user!.id, request.user!.email, validation.data.studentEmail);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, link: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Read-only overview of a linked student
+  fastify.get<{ Params: { studentId: string } }>('/api/guardian/students/:studentId', {
+    preHandler: [authenticate, requireGuardian],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await guardians.getStudentOverview(request.user!.id, request.params.studentId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, overview: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Performance report for one of a linked student's submitted tests
+  fastify.get<{ Params: { studentId: string; testId: string } }>('/api/guardian/students/:studentId/tests/:testId/report', {
+    preHandler: [authenticate, requireGuardian],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const { studentId, testId } = request.params;
+      const result = await guardians.getStudentReport(request.user!.id, studentId, testId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, report: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // ==========================================================================
+  // Student endpoints
+  // ==========================================================================
+
+  // Pending guardian requests and approved guardians for the signed-in student
+  fastify.get('/api/guardian/links/incoming', {
+    preHandler: [authenticate],
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const links = await guardians.listStudentLinks(request.user!.id, request.user!.email);
+      return reply.send({ success: true, links });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Approve or decline a guardian request
+  fastify.post<{ Params: { linkId: string } }>('/api/guardian/links/:linkId/respond', {
+    preHandler: [authenticate],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const validation = respondGuardianLinkSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await guardians.respondToLink(
+        request.params.linkId,
+        request.user!.id,
+        request.user!.email,
+        validation.data.approve
+      );
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, link: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Revoke a link (guardian or student)
+  fastify.delete<{ Params: { linkId: string } }>('/api/guardian/links/:linkId', {
+    preHandler: [authenticate],
+  }, async (
+    request,
+    reply
+  ) => {
+    try {
+      const result = await guardians.revokeLink(request.params.linkId, request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,97 @@
+// Question image API routes
+// Admins upload the diagrams and figures attached to questions; anyone with an image's
+// id can fetch it, since <img> tags cannot send the Authorization header
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { QuestionImageService } from '../services/questionImages';
+import { createImageStorage } from '../services/imageStorage';
+import { ImageError, NotFoundError } from '../types';
+import { imageUploadSchema, formatZodErrors } from '../lib/validators';
+
+const questionImages = new QuestionImageService(prisma, createImageStorage(prisma));
+const requireAdmin = requireRole('Admin');
+
+// Images are sent base64-encoded in the JSON body, a third larger than the 2 MB image limit
+const UPLOAD_BODY_LIMIT = 3 * 1024 * 1024;
+
+const ERROR_STATUS: Record<(ImageError | NotFoundError)['type'], { status: number; code: string }> = {
+  NotFound: { status: 404, code: 'NOT_FOUND' },
+  UnsupportedImage: { status: 415, code: 'UNSUPPORTED_IMAGE' },
+  ImageTooLarge: { status: 413, code: 'IMAGE_TOO_LARGE' },
+};
+
+function describeError(error: ImageError | NotFoundError): string {
+  switch (error.type) {
+    case 'NotFound':
+      return `${error.resource} not found`;
+    case 'UnsupportedImage':
+      return 'Only PNG and JPEG images can be attached to questions';
+    case 'ImageTooLarge':
+      return `Images can be at most ${error.maxBytes / (1024 * 1024)} MB`;
+  }
+}
+
+function sendError(reply: FastifyReply, error: ImageError | NotFoundError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function imageRoutes(fastify: FastifyInstance) {
+  // Upload an image to attach to a question or option
+  fastify.post('/api/admin/images', {
+    preHandler: [authenticate, requireAdmin],
+    bodyLimit: UPLOAD_BODY_LIMIT,
+  }, async (request, reply) => {
+    try {
+      const validation = imageUploadSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.status(400).send({
+          success: false,
+          error: { code: 'VALIDATION_ERROR', message: formatZodErrors(validation.error) },
+        });
+      }
+
+      const result = await questionImages.saveImage(Buffer.from(validation.data.data, 'base64'));
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, image: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // An image's bytes; images never change, so browsers may cache them indefinitely
+  fastify.get<{ Params: { imageId: string } }>('/api/images/:imageId', async (request, reply) => {
+    try {
+      const result = await questionImages.getImage(request.params.imageId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+
+      reply.header('Content-Type', result.value.contentType);
+      reply.header('Cache-Control', 'public, max-age=31536000, immutable');
+      // The frontend may be served from another origin
+      reply.header('Cross-Origin-Resource-Policy', 'cross-origin');
+      return reply.send(result.value.data);
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
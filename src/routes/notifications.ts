@@ -0,0 +1,57 @@
+// Notification API routes
+// The signed-in user's in-app notifications
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate } from '../middleware/auth';
+import { NotificationService } from '../services/notifications';
+import { NotFoundError } from '../types';
+
+const notifications = new NotificationService(prisma);
+
+function sendError(reply: FastifyReply, error: NotFoundError) {
+  return reply.status(404).send({
+    success: false,
+    error: { code: 'NOT_FOUND', message: `${error.resource} not found` },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function notificationRoutes(fastify: FastifyInstance) {
+  // Recent notifications with the unread count
+  fastify.get('/api/notifications', {
+    preHandler: [authenticate],
+  }, async (request, reply) => {
+    try {
+      const result = await notifications.listNotifications(request.user!.id);
+      return reply.send({ success: true, ...result });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Mark a notification as read
+  fastify.post<{ Params: { notificationId: string } }>('/api/notifications/:notificationId/read', {
+    preHandler: [authenticate],
+  }, async (request, reply) => {
+    try {
+      const result = await notifications.markRead(request.user!.id, request.params.notificationId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,260 @@
+// Question bank admin API routes
+// Search, preview, author and version bank questions per syllabus topic, and moderate
+// LLM-generated questions before they are served
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { QuestionBankService } from '../services/questionBank';
+import { QuestionImportService } from '../services/questionImport';
+import { QuestionImageService } from '../services/questionImages';
+import { createImageStorage } from '../services/imageStorage';
+import { RAGRetrieverImpl } from '../services/ragRetriever';
+import { LLMQuestionGeneratorService } from '../services/llmQuestionGenerator';
+import { createLLMProvider } from '../services/llmProvider';
+import { SimpleEmbeddingService } from '../services/embedding';
+import { InMemoryVectorStore } from '../services/vectorStore';
+import { QuestionBankError, NotFoundError } from '../types';
+import {
+  bankTopicsQuerySchema,
+  questionInputSchema,
+  questionSearchSchema,
+  questionImportSchema,
+  moderationSearchSchema,
+  moderationDecisionSchema,
+  formatZodErrors,
+} from '../lib/validators';
+
+// The retriever is only used for syllabus context when scoring alignment, so it needs no shared vector store
+const llmProvider = createLLMProvider();
+const questionBank = new QuestionBankService(
+  prisma,
+  llmProvider ? new LLMQuestionGeneratorService(llmProvider) : undefined,
+  new RAGRetrieverImpl(prisma, new SimpleEmbeddingService(), new InMemoryVectorStore())
+);
+const questionImport = new QuestionImportService(
+  prisma,
+  questionBank,
+  new QuestionImageService(prisma, createImageStorage(prisma))
+);
+const requireAdmin = requireRole('Admin');
+
+// Import files are sent in the JSON body, as text or (for QTI packages with images) base64
+const IMPORT_BODY_LIMIT = 15 * 1024 * 1024;
+const requireModerator = requireRole('Admin', 'Teacher');
+
+const ERROR_STATUS: Record<(QuestionBankError | NotFoundError)['type'], { status: number; code: string }> = {
+  NotFound: { status: 404, code: 'NOT_FOUND' },
+  InvalidQuestion: { status: 400, code: 'INVALID_QUESTION' },
+  NotLatestVersion: { status: 409, code: 'NOT_LATEST_VERSION' },
+  InvalidTransition: { status: 409, code: 'INVALID_TRANSITION' },
+};
+
+function describeError(error: QuestionBankError | NotFoundError): string {
+  switch (error.type) {
+    case 'NotFound':
+      return `${error.resource} not found`;
+    case 'InvalidQuestion':
+      return error.message;
+    case 'NotLatestVersion':
+      return `This is an earlier version; edit the latest version (${error.latestQuestionId}) instead`;
+    case 'InvalidTransition':
+      return `A ${error.from} question cannot be marked ${error.to}`;
+  }
+}
+
+function sendError(reply: FastifyReply, error: QuestionBankError | NotFoundError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendValidationError(reply: FastifyReply, message: string) {
+  return reply.status(400).send({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function questionBankRoutes(fastify: FastifyInstance) {
+  // Syllabus topics to author questions for
+  fastify.get('/api/admin/topics', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const validation = bankTopicsQuerySchema.safeParse(request.query);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const { curriculum, grade, subject } = validation.data;
+      const topics = await questionBank.listTopics(curriculum, grade, subject);
+      return reply.send({ success: true, topics });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Current questions, optionally for one topic and matching a search term
+  fastify.get('/api/admin/questions', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const validation = questionSearchSchema.safeParse(request.query);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionBank.listQuestions(validation.data);
+      return reply.send({ success: true, ...result });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // A question with its version history
+  fastify.get<{ Params: { questionId: string } }>('/api/admin/questions/:questionId', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const result = await questionBank.getQuestion(request.params.questionId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, ...result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Add a question
+  fastify.post('/api/admin/questions', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const validation = questionInputSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionBank.createQuestion(validation.data);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, question: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Import questions from a CSV, Moodle XML, GIFT or QTI 2.1 file, or a QTI content package
+  fastify.post('/api/admin/questions/import', {
+    preHandler: [authenticate, requireAdmin],
+    bodyLimit: IMPORT_BODY_LIMIT,
+  }, async (request, reply) => {
+    try {
+      const validation = questionImportSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const { content, encoding, ...options } = validation.data;
+      const report = await questionImport.importQuestions(
+        encoding === 'base64' ? Buffer.from(content, 'base64') : content,
+        options
+      );
+      return reply.status(report.dryRun || report.imported === 0 ? 200 : 201).send({ success: true, report });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Edit a question; the edit is saved as a new version
+  fastify.put<{ Params: { questionId: string } }>('/api/admin/questions/:questionId', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const validation = questionInputSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionBank.updateQuestion(request.params.questionId, validation.data);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, question: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Remove a question (withdrawn instead if a test has used it)
+  fastify.delete<{ Params: { questionId: string } }>('/api/admin/questions/:questionId', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const result = await questionBank.deleteQuestion(request.params.questionId);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, ...result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Generated questions by moderation status, with their syllabus alignment scores
+  fastify.get('/api/moderation/questions', {
+    preHandler: [authenticate, requireModerator],
+  }, async (request, reply) => {
+    try {
+      const validation = moderationSearchSchema.safeParse(request.query);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionBank.listModerationQueue(validation.data);
+      return reply.send({ success: true, ...result });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Approve, reject, retire or reinstate a question
+  fastify.post<{ Params: { questionId: string } }>('/api/moderation/questions/:questionId/review', {
+    preHandler: [authenticate, requireModerator],
+  }, async (request, reply) => {
+    try {
+      const validation = moderationDecisionSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionBank.reviewQuestion(
+        request.params.questionId,
+        request.user!.id,
+        validation.data
+      );
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, question: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
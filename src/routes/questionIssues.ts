@@ -0,0 +1,142 @@
+// Question issue API routes
+// Students report problems with questions; admins triage the reports and correct answer keys
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { QuestionIssueService } from '../services/questionIssues';
+import { EvaluatorService } from '../services/evaluator';
+import { NotificationService } from '../services/notifications';
+import { FeedbackEngine } from '../services/feedbackEngine';
+import { QuestionIssueError, NotFoundError } from '../types';
+import {
+  questionIssueReportSchema,
+  questionIssueSearchSchema,
+  issueResolutionSchema,
+  formatZodErrors,
+} from '../lib/validators';
+
+const questionIssues = new QuestionIssueService(
+  prisma,
+  new EvaluatorService(prisma),
+  new NotificationService(prisma),
+  new FeedbackEngine(prisma)
+);
+// Guardians have read-only access and take no tests of their own
+const requireLearner = requireRole('Student', 'Teacher');
+const requireAdmin = requireRole('Admin');
+
+const ERROR_STATUS: Record<(QuestionIssueError | NotFoundError)['type'], { status: number; code: string }> = {
+  NotFound: { status: 404, code: 'NOT_FOUND' },
+  Forbidden: { status: 403, code: 'FORBIDDEN' },
+  AlreadyReported: { status: 409, code: 'ALREADY_REPORTED' },
+  IssueClosed: { status: 409, code: 'ISSUE_CLOSED' },
+  InvalidCorrection: { status: 400, code: 'INVALID_CORRECTION' },
+};
+
+function describeError(error: QuestionIssueError | NotFoundError): string {
+  switch (error.type) {
+    case 'NotFound':
+      return `${error.resource} not found`;
+    case 'Forbidden':
+    case 'InvalidCorrection':
+      return error.message;
+    case 'AlreadyReported':
+      return 'You have already reported this question; it is waiting for review';
+    case 'IssueClosed':
+      return 'This report has already been closed';
+  }
+}
+
+function sendError(reply: FastifyReply, error: QuestionIssueError | NotFoundError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendValidationError(reply: FastifyReply, message: string) {
+  return reply.status(400).send({
+    success: false,
+    error: { code: 'VALIDATION_ERROR', message },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function questionIssueRoutes(fastify: FastifyInstance) {
+  // Report a problem with a question from a submitted test
+  fastify.post<{ Params: { questionId: string } }>('/api/questions/:questionId/issues', {
+    preHandler: [authenticate, requireLearner],
+  }, async (request, reply) => {
+    try {
+      const validation = questionIssueReportSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionIssues.reportIssue(
+        request.user!.id,
+        request.params.questionId,
+        validation.data
+      );
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(201).send({ success: true, issue: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Reported issues for triage
+  fastify.get('/api/admin/issues', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const validation = questionIssueSearchSchema.safeParse(request.query);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionIssues.listIssues(validation.data);
+      return reply.send({ success: true, ...result });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Resolve or dismiss a report, optionally correcting the answer key
+  fastify.post<{ Params: { issueId: string } }>('/api/admin/issues/:issueId/resolve', {
+    preHandler: [authenticate, requireAdmin],
+  }, async (request, reply) => {
+    try {
+      const validation = issueResolutionSchema.safeParse(request.body);
+      if (!validation.success) {
+        return sendValidationError(reply, formatZodErrors(validation.error));
+      }
+
+      const result = await questionIssues.resolveIssue(
+        request.params.issueId,
+        request.user!.id,
+        validation.data
+      );
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.send({ success: true, ...result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
@@ -0,0 +1,72 @@
+// Review API routes
+// Spaced-repetition queue of incorrectly answered questions and the daily review test built from it
+
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db';
+import { authenticate, requireRole } from '../middleware/auth';
+import { ReviewQueueService } from '../services/reviewQueue';
+import { EvaluatorService } from '../services/evaluator';
+import { ReviewError } from '../types';
+
+const reviewQueue = new ReviewQueueService(prisma, new EvaluatorService(prisma));
+// Guardians have read-only access and take no tests of their own
+const requireLearner = requireRole('Student', 'Teacher');
+
+const ERROR_STATUS: Record<ReviewError['type'], { status: number; code: string }> = {
+  NothingDue: { status: 404, code: 'NOTHING_DUE' },
+};
+
+function describeError(error: ReviewError): string {
+  switch (error.type) {
+    case 'NothingDue':
+      return 'No questions are due for review today';
+  }
+}
+
+function sendError(reply: FastifyReply, error: ReviewError) {
+  const { status, code } = ERROR_STATUS[error.type];
+  return reply.status(status).send({
+    success: false,
+    error: { code, message: describeError(error) },
+  });
+}
+
+function sendInternalError(fastify: FastifyInstance, reply: FastifyReply, error: unknown) {
+  fastify.log.error(error);
+  return reply.status(500).send({
+    success: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+  });
+}
+
+export async function reviewRoutes(fastify: FastifyInstance) {
+  // Due and scheduled review counts for the signed-in user
+  fastify.get('/api/review/queue', {
+    preHandler: [authenticate, requireLearner],
+  }, async (request, reply) => {
+    try {
+      const summary = await reviewQueue.getSummary(request.user!.id);
+      return reply.send({ success: true, queue: summary });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+
+  // Build (or resume) today's review test from the due questions
+  fastify.post('/api/review/daily', {
+    preHandler: [authenticate, requireLearner],
+  }, async (request, reply) => {
+    try {
+      const result = await reviewQueue.createDailyReview(request.user!.id);
+      if (!result.ok) {
+        return sendError(reply, result.error);
+      }
+      return reply.status(result.value.resumed ? 200 : 201).send({ success: true, review: result.value });
+    } catch (error) {
+      return sendInternalError(fastify, reply, error);
+    }
+  });
+}
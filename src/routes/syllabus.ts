@@ -2,17 +2,20 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../lib/db';
-import Groq from 'groq-sdk';
+import { createLLMProvider } from '../services/llmProvider';
+import { BlueprintTemplateService } from '../services/blueprintTemplates';
 import {
   syllabusParamsSchema,
   topicsParamsSchema,
+  blueprintParamsSchema,
   validateTopicSchema,
   formatZodErrors,
   type ValidateTopicInput,
 } from '../lib/validators';
 
-// Initialize GROQ client for LLM
-const groq = process.env.GROQ_API_KEY ? new Groq({ apiKey: process.env.GROQ_API_KEY }) : null;
+// Initialize LLM provider selected by environment (LLM_PROVIDER, defaults to Groq)
+const llmProvider = createLLMProvider();
+const blueprintTemplates = new BlueprintTemplateService(prisma);
 
 export async function syllabusRoutes(fastify: FastifyInstance) {
   // Get syllabus for curriculum and grade
@@ -140,7 +143,7 @@ export async function syllabusRoutes(fastify: FastifyInstance) {
       }
 
       // Fallback to LLM for dynamic topic generation if no DB topics
-      if (groq) {
+      if (llmProvider) {
         try {
           fastify.log.info(`No DB topics found, attempting LLM topic generation for ${curriculum} Grade ${gradeNum} ${subject}`);
           const llmTopics = await generateTopicsWithLLM(curriculum, gradeNum, subject);
@@ -156,7 +159,7 @@ export async function syllabusRoutes(fastify: FastifyInstance) {
           fastify.log.error('LLM topic generation failed:', llmError);
         }
       } else {
-        fastify.log.warn('GROQ API key not configured - LLM topic generation unavailable');
+        fastify.log.warn('LLM provider not configured - LLM topic generation unavailable');
       }
 
       // Return empty if both methods fail
@@ -219,6 +222,44 @@ export async function syllabusRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Get the board paper patterns a test for a subject can follow
+  fastify.get('/api/syllabus/:curriculum/:grade/:subject/blueprints', async (
+    request: FastifyRequest<{ 
+      Params: { curriculum: string; grade: string; subject: string };
+    }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const validation = blueprintParamsSchema.safeParse(request.params);
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          message: formatZodErrors(validation.error),
+        });
+      }
+
+      const { curriculum, grade, subject } = validation.data;
+      const gradeNum = parseInt(grade);
+
+      if (gradeNum < 1 || gradeNum > 12) {
+        return reply.status(400).send({
+          error: 'Invalid grade',
+          message: 'Grade must be between 1 and 12',
+        });
+      }
+
+      const templates = await blueprintTemplates.listTemplates(curriculum, gradeNum, subject);
+
+      return reply.send({ templates });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   // Validate custom topic relevance using LLM
   fastify.post('/api/topics/validate', async (
     request: FastifyRequest<{ Body: ValidateTopicInput }>,
@@ -236,7 +277,7 @@ export async function syllabusRoutes(fastify: FastifyInstance) {
 
       const { customTopic, curriculum, grade, subject } = validation.data;
 
-      if (!groq) {
+      if (!llmProvider) {
         return reply.status(503).send({
           error: 'Service unavailable',
           message: 'LLM service is not configured',
@@ -262,7 +303,7 @@ Return a JSON object with this exact format:
 If valid, the feedback should confirm the topic is appropriate.
 If invalid, the feedback should explain why (e.g., "This topic is typically covered in higher grades" or "This topic is part of a different subject").`;
 
-      const completion = await groq.chat.completions.create({
+      const responseContent = await llmProvider.complete({
         messages: [
           {
             role: 'system',
@@ -273,13 +314,11 @@ If invalid, the feedback should explain why (e.g., "This topic is typically cove
             content: prompt,
           },
         ],
-        model: 'llama-3.3-70b-versatile',
         temperature: 0.3,
-        max_tokens: 500,
-        response_format: { type: 'json_object' },
+        maxTokens: 500,
+        jsonMode: true,
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
       if (!responseContent) {
         return reply.status(500).send({
           error: 'LLM error',
@@ -371,8 +410,8 @@ async function generateTopicsWithLLM(
   grade: number,
   subject: string
 ): Promise<Array<{ topicId: string; topicName: string }>> {
-  if (!groq) {
-    throw new Error('GROQ API not configured');
+  if (!llmProvider) {
+    throw new Error('LLM provider not configured');
   }
 
   const prompt = `Generate a comprehensive list of topics for ${curriculum} curriculum, Class ${grade}, ${subject} subject.
@@ -411,7 +450,7 @@ Example for CBSE Class 10 Mathematics:
   ]
 }`;
 
-  const completion = await groq.chat.completions.create({
+  const responseContent = await llmProvider.complete({
     messages: [
       {
         role: 'system',
@@ -422,13 +461,11 @@ Example for CBSE Class 10 Mathematics:
         content: prompt,
       },
     ],
-    model: 'llama-3.3-70b-versatile',
     temperature: 0.3,
-    max_tokens: 2000,
-    response_format: { type: 'json_object' },
+    maxTokens: 2000,
+    jsonMode: true,
   });
 
-  const responseContent = completion.choices[0]?.message?.content;
   if (!responseContent) {
     throw new Error('No response from LLM');
   }
@@ -2,15 +2,42 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma, getPoolMetrics, logPoolWarning } from '../lib/db';
+import { authenticate, verifyOwnership } from '../middleware/auth';
 import { TestGeneratorService } from '../services/testGenerator';
+import { GenerationJobService } from '../services/generationJobs';
+import { BlueprintTemplateService } from '../services/blueprintTemplates';
 import { TestExecutionService } from '../services/testExecution';
 import { EvaluatorService } from '../services/evaluator';
 import { FeedbackEngine } from '../services/feedbackEngine';
 import { PerformanceHistoryService } from '../services/performanceHistory';
 import { RAGRetrieverImpl } from '../services/ragRetriever';
 import { LLMQuestionGeneratorService } from '../services/llmQuestionGenerator';
+import { createLLMProvider } from '../services/llmProvider';
+import { AnswerVerifierService } from '../services/answerVerifier';
+import { ShortAnswerGraderService } from '../services/shortAnswerGrader';
+import { ClassroomService } from '../services/classroom';
+import { AdaptiveDifficultyService } from '../services/adaptiveDifficulty';
+import { AdaptiveTestService } from '../services/adaptiveTesting';
+import { ReviewQueueService } from '../services/reviewQueue';
+import { GradeOverrideService } from '../services/gradeOverrides';
+import { TestExportService } from '../services/testExport';
+import { QuestionImageService } from '../services/questionImages';
+import { createImageStorage } from '../services/imageStorage';
 import { generatePDF, generateQuestionPaper, generateAnswerKey } from '../services/pdfGenerator';
-import { MockTest, Question, TestConfiguration, StudentMetadata } from '../types';
+import {
+  MockTest,
+  Question,
+  QuestionType,
+  QuestionGroup,
+  TestConfiguration,
+  StudentMetadata,
+  ClassroomError,
+  DifficultyLevel,
+  PaperBlueprint,
+  TestMode,
+} from '../types';
+import { answerParts, questionAnswerFields } from '../lib/questionFormats';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
 import { GroqEmbeddingService } from '../services/embedding';
 import { InMemoryVectorStore } from '../services/vectorStore';
 import {
@@ -19,6 +46,7 @@ import {
   submitTestSchema,
   startTestSchema,
   retryTestSchema,
+  testExportQuerySchema,
   formatZodErrors,
   type GenerateTestInput,
   type SubmitAnswerInput,
@@ -40,14 +68,121 @@ const embeddingService = process.env.GROQ_API_KEY
   : new GroqEmbeddingService('dummy-key'); // Fallback for when GROQ is not available
 const vectorStore = new InMemoryVectorStore();
 const ragRetriever = new RAGRetrieverImpl(prisma, embeddingService, vectorStore);
-const llmGenerator = process.env.GROQ_API_KEY
-  ? new LLMQuestionGeneratorService(process.env.GROQ_API_KEY)
+const llmProvider = createLLMProvider();
+const llmGenerator = llmProvider
+  ? new LLMQuestionGeneratorService(llmProvider)
+  : undefined;
+const answerVerifier = llmProvider
+  ? new AnswerVerifierService(llmProvider)
   : undefined;
-const testGenerator = new TestGeneratorService(prisma, ragRetriever, llmGenerator);
+const questionImages = new QuestionImageService(prisma, createImageStorage(prisma));
+const testGenerator = new TestGeneratorService(prisma, ragRetriever, llmGenerator, answerVerifier, questionImages);
+const generationJobs = new GenerationJobService(prisma, testGenerator);
 const testExecution = new TestExecutionService(prisma);
-const evaluator = new EvaluatorService(prisma);
+const evaluator = new EvaluatorService(prisma, new ShortAnswerGraderService(llmProvider));
 const feedbackEngine = new FeedbackEngine(prisma);
 const performanceHistory = new PerformanceHistoryService(prisma);
+const classroom = new ClassroomService(prisma);
+const adaptiveDifficulty = new AdaptiveDifficultyService(prisma);
+const adaptiveTests = new AdaptiveTestService(prisma, evaluator);
+const reviewQueue = new ReviewQueueService(prisma, evaluator);
+const testExport = new TestExportService(prisma);
+const blueprintTemplates = new BlueprintTemplateService(prisma);
+const gradeOverrides = new GradeOverrideService(prisma, evaluator, feedbackEngine);
+
+/**
+ * Guardian accounts have read-only access and may not generate or take tests
+ */
+async function isGuardianAccount(userId: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { role: true },
+  });
+  return user?.role === 'Guardian';
+}
+
+const GUARDIAN_READ_ONLY = {
+  error: 'Forbidden',
+  message: 'Guardian accounts have read-only access and cannot generate or take tests',
+};
+
+const JOB_NOT_OWNED = {
+  error: 'Forbidden',
+  message: 'You can only view and resume your own generation jobs',
+};
+
+/**
+ * Question fields a student may see while taking a test (no answers)
+ */
+function toSessionQuestion(q: Question) {
+  return {
+    questionId: q.questionId,
+    questionText: q.questionText,
+    questionType: q.questionType,
+    options: q.options,
+    matchItems: q.matchItems,
+    imageId: q.imageId,
+    optionImageIds: q.optionImageIds,
+    group: q.group,
+    topicId: q.topicId,
+    syllabusReference: q.syllabusReference,
+  };
+}
+
+/**
+ * Answer fields of a stored question for PDFs: the first correct answer, or every part
+ * (with a readable summary) for Matching, Ordering and FillInBlank
+ */
+function storedAnswerFields(question: {
+  questionType: string;
+  correctAnswers: string;
+  matchItems: string | null;
+  answerTolerance: string | null;
+}) {
+  const matchItems: string[] | undefined = question.matchItems ? JSON.parse(question.matchItems) : undefined;
+  return {
+    matchItems,
+    answerTolerance: parseAnswerTolerance(question.answerTolerance),
+    ...questionAnswerFields(question.questionType, answerParts(question.correctAnswers || '[]'), matchItems),
+  };
+}
+
+/**
+ * Images of a stored question and its options, for PDFs
+ */
+function storedImageFields(question: { imageId: string | null; optionImageIds: string | null }) {
+  return {
+    imageId: question.imageId ?? undefined,
+    optionImageIds: question.optionImageIds ? JSON.parse(question.optionImageIds) : undefined,
+  };
+}
+
+/**
+ * Section and marks of a question on a blueprint paper, for PDFs; other papers print neither
+ */
+function storedPaperFields(testQuestion: { marks: number; section: string | null }) {
+  return testQuestion.section ? { section: testQuestion.section, marks: testQuestion.marks } : {};
+}
+
+/**
+ * Passage or case study a stored question belongs to, for PDFs
+ */
+function storedGroup(group?: { id: string; stimulusText: string; imageUrl: string | null } | null): QuestionGroup | undefined {
+  return group ? { groupId: group.id, stimulusText: group.stimulusText, imageUrl: group.imageUrl ?? undefined } : undefined;
+}
+
+/**
+ * Message for a class-assigned test used outside its open/close window
+ */
+function describeWindowError(error: ClassroomError): string {
+  if (error.type === 'AssignmentNotOpen') {
+    return `This assignment opens at ${error.opensAt.toISOString()}`;
+  }
+  if (error.type === 'AssignmentClosed') {
+    return `This assignment closed at ${error.closesAt.toISOString()}`;
+  }
+  return 'This assignment is not available';
+}
 
 /**
  * Retry helper with exponential backoff
@@ -160,6 +295,18 @@ async function submitTestWithRetry(sessionId: string) {
 }
 
 export async function testRoutes(fastify: FastifyInstance) {
+  // Resume generation jobs interrupted by a restart once the server is ready
+  fastify.addHook('onReady', async () => {
+    try {
+      const resumed = await generationJobs.resumePendingJobs();
+      if (resumed > 0) {
+        fastify.log.info(`Resumed ${resumed} pending generation job(s)`);
+      }
+    } catch (error) {
+      fastify.log.error(error, 'Failed to resume pending generation jobs');
+    }
+  });
+
   // Generate new test
   fastify.post('/api/tests/generate', async (
     request: FastifyRequest<{ Body: GenerateTestInput }>,
@@ -175,15 +322,33 @@ export async function testRoutes(fastify: FastifyInstance) {
         });
       }
 
-      const { userId, subject, topics, questionCount, testCount, testMode } = validation.data;
+      const { userId, subject, topics, testCount, testMode, difficulty, blueprintTemplateId } = validation.data;
+      let { questionCount, blueprint } = validation.data;
+
+      // A board paper pattern sets the sections, and with them the number of questions
+      if (blueprintTemplateId) {
+        const template = await blueprintTemplates.getTemplate(blueprintTemplateId);
+        if (!template.ok) {
+          return reply.status(404).send({
+            error: 'Blueprint template not found',
+            message: `Blueprint template with ID ${blueprintTemplateId} not found`,
+          });
+        }
+        blueprint = template.value.blueprint;
+        questionCount = blueprint.sections.reduce((sum, section) => sum + section.questionCount, 0);
+      }
 
       // Ensure user exists in database before generating test
       // This handles cases where user authenticated via Supabase but doesn't exist in Prisma
       const userExists = await prisma.user.findUnique({
         where: { id: userId },
-        select: { id: true },
+        select: { id: true, role: true },
       });
 
+      if (userExists?.role === 'Guardian') {
+        return reply.status(403).send(GUARDIAN_READ_ONLY);
+      }
+
       if (!userExists) {
         // Try to create user with defaults (they should re-login to get proper profile)
         try {
@@ -217,29 +382,102 @@ export async function testRoutes(fastify: FastifyInstance) {
         questionCount,
         testCount,
         testMode,
+        difficulty,
+        blueprint,
       };
 
-      // Generate tests
-      const result = await testGenerator.generateTests(config, userId);
+      // Queue generation as a background job; the client polls /api/tests/jobs/:jobId
+      const job = await generationJobs.enqueue(config, userId);
+
+      return reply.status(202).send({
+        success: true,
+        jobId: job.jobId,
+        status: job.status,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Get generation job status and progress
+  fastify.get<{ Params: { jobId: string } }>('/api/tests/jobs/:jobId', {
+    preHandler: [authenticate],
+  }, async (request, reply) => {
+    try {
+      const { jobId } = request.params;
+
+      const result = await generationJobs.getJob(jobId);
 
       if (!result.ok) {
-        return reply.status(400).send({
-          error: 'Test generation failed',
-          message: result.error.type,
-          details: result.error,
+        return reply.status(404).send({
+          error: 'Job not found',
+          message: `Generation job with ID ${jobId} not found`,
         });
       }
 
-      const tests = result.value;
+      const job = result.value;
+
+      if (!verifyOwnership(request, job.userId)) {
+        return reply.status(403).send(JOB_NOT_OWNED);
+      }
 
       return reply.send({
+        jobId: job.jobId,
+        status: job.status,
+        totalTests: job.configuration?.testCount ?? 0,
+        completedTests: job.testIds.length,
+        progress: job.progress,
+        tests: job.testIds.map(testId => ({ testId })),
+        error: job.error,
+        attempts: job.attempts,
+        createdAt: job.createdAt,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Resume a failed generation job from its last completed topic
+  fastify.post<{ Params: { jobId: string } }>('/api/tests/jobs/:jobId/resume', {
+    preHandler: [authenticate],
+  }, async (request, reply) => {
+    try {
+      const { jobId } = request.params;
+
+      const job = await generationJobs.getJob(jobId);
+      if (job.ok && !verifyOwnership(request, job.value.userId)) {
+        return reply.status(403).send(JOB_NOT_OWNED);
+      }
+
+      const result = await generationJobs.resumeJob(jobId);
+
+      if (!result.ok) {
+        if (result.error.type === 'NotFound') {
+          return reply.status(404).send({
+            error: 'Job not found',
+            message: `Generation job with ID ${jobId} not found`,
+          });
+        }
+        return reply.status(409).send({
+          error: 'Job cannot be resumed',
+          message: `Only failed jobs can be resumed (current status: ${result.error.status})`,
+        });
+      }
+
+      return reply.status(202).send({
         success: true,
-        tests: tests.map(test => ({
-          testId: test.testId,
-          questionCount: test.questions.length,
-          topics: test.configuration.topics,
-          createdAt: test.createdAt,
-        })),
+        jobId: result.value.jobId,
+        status: result.value.status,
       });
     } catch (error) {
       fastify.log.error(error);
@@ -266,6 +504,7 @@ export async function testRoutes(fastify: FastifyInstance) {
               question: {
                 include: {
                   topic: true,
+                  group: true,
                 },
               },
             },
@@ -295,9 +534,14 @@ export async function testRoutes(fastify: FastifyInstance) {
           questionText: tq.question.questionText,
           questionType: tq.question.questionType,
           options: tq.question.options ? JSON.parse(tq.question.options) : null,
+          matchItems: tq.question.matchItems ? JSON.parse(tq.question.matchItems) : null,
+          imageId: tq.question.imageId,
+          optionImageIds: tq.question.optionImageIds ? JSON.parse(tq.question.optionImageIds) : null,
           topicId: tq.question.topicId,
           topicName: tq.question.topic.topicName,
           syllabusReference: tq.question.syllabusReference,
+          marks: tq.marks,
+          section: tq.section,
         })),
       });
     } catch (error) {
@@ -328,6 +572,18 @@ export async function testRoutes(fastify: FastifyInstance) {
         });
       }
 
+      if (await isGuardianAccount(userId)) {
+        return reply.status(403).send(GUARDIAN_READ_ONLY);
+      }
+
+      const assignmentWindow = await classroom.checkAssignmentWindow(testId);
+      if (!assignmentWindow.ok) {
+        return reply.status(403).send({
+          error: 'Assignment not open',
+          message: describeWindowError(assignmentWindow.error),
+        });
+      }
+
       const result = await testExecution.startTest(testId, userId);
 
       if (!result.ok) {
@@ -339,6 +595,17 @@ export async function testRoutes(fastify: FastifyInstance) {
 
       const session = result.value;
 
+      // Adaptive tests have no fixed question list; serve the first (or current) question
+      if (await adaptiveTests.isAdaptiveTest(testId)) {
+        const step = await adaptiveTests.serveNextQuestion(session.sessionId);
+        if (!step.ok) {
+          return reply.status(400).send({
+            error: 'Failed to start test',
+            message: step.error.reason,
+          });
+        }
+      }
+
       return reply.send({
         sessionId: session.sessionId,
         testId: session.testId,
@@ -380,19 +647,21 @@ export async function testRoutes(fastify: FastifyInstance) {
         startedAt: session.startedAt,
         submittedAt: session.submittedAt,
         status: session.status,
-        questions: session.questions.map(q => ({
-          questionId: q.questionId,
-          questionText: q.questionText,
-          questionType: q.questionType,
-          options: q.options,
-          topicId: q.topicId,
-          syllabusReference: q.syllabusReference,
-        })),
+        mode: session.mode,
+        timerMinutes: session.timerMinutes,
+        questions: session.questions.map(toSessionQuestion),
         responses: Array.from(session.responses.entries()).map(([questionId, answer]) => ({
           questionId,
           answer: answer.answer,
           answeredAt: answer.answeredAt,
         })),
+        // A new question is served as soon as one is answered, so all answered means finished
+        adaptive: session.mode === 'Adaptive'
+          ? {
+              complete: session.questions.every(q => session.responses.has(q.questionId)),
+              questionLimit: session.questionLimit,
+            }
+          : undefined,
       });
     } catch (error) {
       fastify.log.error(error);
@@ -422,6 +691,27 @@ export async function testRoutes(fastify: FastifyInstance) {
         });
       }
 
+      if (await adaptiveTests.isAdaptiveSession(sessionId)) {
+        const step = await adaptiveTests.answerQuestion(sessionId, questionId, answer);
+        if (!step.ok) {
+          return reply.status(400).send({
+            error: 'Failed to submit answer',
+            message: step.error.reason,
+          });
+        }
+
+        return reply.send({
+          success: true,
+          message: 'Answer submitted successfully',
+          adaptive: {
+            complete: step.value.complete,
+            questionsServed: step.value.questionsServed,
+            questionLimit: step.value.questionLimit,
+            nextQuestion: step.value.question && toSessionQuestion(step.value.question),
+          },
+        });
+      }
+
       const result = await testExecution.submitAnswer(sessionId, questionId, answer);
 
       if (!result.ok) {
@@ -459,10 +749,31 @@ export async function testRoutes(fastify: FastifyInstance) {
         });
       }
 
+      const session = await prisma.testSession.findUnique({
+        where: { id: sessionId },
+        select: { testId: true },
+      });
+      if (session) {
+        const assignmentWindow = await classroom.checkAssignmentWindow(session.testId);
+        if (!assignmentWindow.ok) {
+          return reply.status(403).send({
+            error: 'Assignment closed',
+            message: describeWindowError(assignmentWindow.error),
+          });
+        }
+      }
+
       // Submit test with retry logic
       // Requirements: P2 Requirements 3.1, 3.3, 3.4
       const result = await submitTestWithRetry(sessionId);
 
+      // Wrong answers feed the spaced-repetition queue; a failure here must not fail the submission
+      try {
+        await reviewQueue.recordSubmission(result.submission);
+      } catch (error) {
+        fastify.log.error(error, 'Failed to update review schedule');
+      }
+
       return reply.send({
         success: true,
         testId: result.submission.testId,
@@ -473,6 +784,7 @@ export async function testRoutes(fastify: FastifyInstance) {
           correctCount: result.evaluation.correctCount,
           totalCount: result.evaluation.totalCount,
           topicScores: result.evaluation.topicScores,
+          abilityEstimates: result.evaluation.abilityEstimates,
         },
         report: {
           reportId: result.report.reportId,
@@ -560,6 +872,9 @@ export async function testRoutes(fastify: FastifyInstance) {
 
       const comparison = comparisonResult.value;
 
+      // Marks teachers have changed since the test was evaluated
+      const gradeHistory = await gradeOverrides.getOverrideHistory(testId);
+
       return reply.send({
         evaluation: {
           evaluationId: evaluation.evaluationId,
@@ -567,7 +882,9 @@ export async function testRoutes(fastify: FastifyInstance) {
           correctCount: evaluation.correctCount,
           totalCount: evaluation.totalCount,
           topicScores: evaluation.topicScores,
+          abilityEstimates: evaluation.abilityEstimates,
           evaluatedAt: evaluation.evaluatedAt,
+          reevaluatedAt: evaluation.reevaluatedAt,
         },
         report: {
           reportId: report.reportId,
@@ -576,6 +893,7 @@ export async function testRoutes(fastify: FastifyInstance) {
           generatedAt: report.generatedAt,
         },
         questions: comparison,
+        gradeHistory,
       });
     } catch (error) {
       fastify.log.error(error);
@@ -664,32 +982,24 @@ export async function testRoutes(fastify: FastifyInstance) {
           questionId: tq.question.id,
           topicId: tq.question.topicId,
           questionText: tq.question.questionText,
-          questionType: tq.question.questionType as 'MultipleChoice' | 'ShortAnswer' | 'Numerical',
+          questionType: tq.question.questionType as QuestionType,
           options: tq.question.options ? JSON.parse(tq.question.options) : undefined,
-          // Parse correctAnswers from JSON array
-          correctAnswer: (() => {
-            try {
-              const parsed = JSON.parse(tq.question.correctAnswers || '[]');
-              return Array.isArray(parsed) ? parsed[0] || '' : parsed;
-            } catch { return tq.question.correctAnswers || ''; }
-          })(),
+          ...storedAnswerFields(tq.question),
+          ...storedImageFields(tq.question),
+          group: storedGroup(tq.question.group),
           syllabusReference: tq.question.syllabusReference,
-          difficulty: 'ExamRealistic' as const,
+          difficulty: tq.question.difficulty as DifficultyLevel,
           createdAt: tq.question.createdAt,
         })),
         answerKey: new Map(
-          test.testQuestions.map(tq => {
-            try {
-              const parsed = JSON.parse(tq.question.correctAnswers || '[]');
-              return [tq.question.id, Array.isArray(parsed) ? parsed[0] || '' : parsed];
-            } catch { return [tq.question.id, tq.question.correctAnswers || '']; }
-          })
+          test.testQuestions.map(tq => [tq.question.id, storedAnswerFields(tq.question).correctAnswer])
         ),
         createdAt: test.createdAt,
       };
 
       // Generate PDF
-      const result = await generatePDF(mockTest, includeAnswers);
+      const images = await questionImages.loadImages(mockTest.questions);
+      const result = await generatePDF(mockTest, includeAnswers, undefined, images);
 
       if (!result.ok) {
         return reply.status(400).send({
@@ -731,7 +1041,7 @@ export async function testRoutes(fastify: FastifyInstance) {
         include: {
           testQuestions: {
             include: {
-              question: true,
+              question: { include: { group: true } },
             },
             orderBy: {
               order: 'asc',
@@ -769,17 +1079,15 @@ export async function testRoutes(fastify: FastifyInstance) {
           questionId: tq.question.id,
           topicId: tq.question.topicId,
           questionText: tq.question.questionText,
-          questionType: tq.question.questionType as 'MultipleChoice' | 'ShortAnswer' | 'Numerical',
+          questionType: tq.question.questionType as QuestionType,
           options: tq.question.options ? JSON.parse(tq.question.options) : undefined,
-          correctAnswer: (() => {
-            try {
-              const parsed = JSON.parse(tq.question.correctAnswers || '[]');
-              return Array.isArray(parsed) ? parsed[0] || '' : parsed;
-            } catch { return tq.question.correctAnswers || ''; }
-          })(),
+          ...storedAnswerFields(tq.question),
+          ...storedImageFields(tq.question),
+          group: storedGroup(tq.question.group),
+          ...storedPaperFields(tq),
           solutionSteps: tq.question.solutionSteps ? JSON.parse(tq.question.solutionSteps) : undefined,
           syllabusReference: tq.question.syllabusReference || '',
-          difficulty: 'ExamRealistic' as const,
+          difficulty: tq.question.difficulty as DifficultyLevel,
           createdAt: tq.question.createdAt,
         }));
 
@@ -807,7 +1115,8 @@ export async function testRoutes(fastify: FastifyInstance) {
         };
 
         // Regenerate PDF with student metadata
-        const pdfResult = await generateQuestionPaper(mockTest, topics, studentMetadata);
+        const images = await questionImages.loadImages(questions);
+        const pdfResult = await generateQuestionPaper(mockTest, topics, studentMetadata, images);
 
         if (!pdfResult.ok) {
           return reply.status(500).send({
@@ -862,7 +1171,7 @@ export async function testRoutes(fastify: FastifyInstance) {
         include: {
           testQuestions: {
             include: {
-              question: true,
+              question: { include: { group: true } },
             },
             orderBy: {
               order: 'asc',
@@ -900,17 +1209,15 @@ export async function testRoutes(fastify: FastifyInstance) {
           questionId: tq.question.id,
           topicId: tq.question.topicId,
           questionText: tq.question.questionText,
-          questionType: tq.question.questionType as 'MultipleChoice' | 'ShortAnswer' | 'Numerical',
+          questionType: tq.question.questionType as QuestionType,
           options: tq.question.options ? JSON.parse(tq.question.options) : undefined,
-          correctAnswer: (() => {
-            try {
-              const parsed = JSON.parse(tq.question.correctAnswers || '[]');
-              return Array.isArray(parsed) ? parsed[0] || '' : parsed;
-            } catch { return tq.question.correctAnswers || ''; }
-          })(),
+          ...storedAnswerFields(tq.question),
+          ...storedImageFields(tq.question),
+          group: storedGroup(tq.question.group),
+          ...storedPaperFields(tq),
           solutionSteps: tq.question.solutionSteps ? JSON.parse(tq.question.solutionSteps) : undefined,
           syllabusReference: tq.question.syllabusReference || '',
-          difficulty: 'ExamRealistic' as const,
+          difficulty: tq.question.difficulty as DifficultyLevel,
           createdAt: tq.question.createdAt,
         }));
 
@@ -930,7 +1237,8 @@ export async function testRoutes(fastify: FastifyInstance) {
         };
 
         // Regenerate answer key PDF (no student header for answer key)
-        const pdfResult = await generateAnswerKey(mockTest, topics);
+        const images = await questionImages.loadImages(questions);
+        const pdfResult = await generateAnswerKey(mockTest, topics, images);
 
         if (!pdfResult.ok) {
           return reply.status(500).send({
@@ -966,6 +1274,53 @@ export async function testRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Export the test and its answer key for another learning platform
+  // format: 'qti' (IMS QTI 2.1 zip), 'moodle' (Moodle XML) or 'forms' (Forms-style quiz JSON)
+  fastify.get('/api/tests/:testId/export', async (
+    request: FastifyRequest<{
+      Params: { testId: string };
+      Querystring: { format?: string };
+    }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const validation = testExportQuerySchema.safeParse(request.query);
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Validation failed',
+          message: formatZodErrors(validation.error),
+        });
+      }
+
+      const { testId } = request.params;
+      const result = await testExport.exportTest(testId, validation.data.format);
+
+      if (!result.ok) {
+        switch (result.error.type) {
+          case 'NotFound':
+            return reply.status(404).send({ error: 'Test not found', message: `Test with ID ${testId} not found` });
+          case 'EmptyTest':
+            return reply.status(404).send({ error: 'Test is empty', message: 'This test has no questions to export' });
+          case 'UnsupportedQuestionType':
+            return reply.status(400).send({
+              error: 'Unsupported question type',
+              message: `${result.error.questionType} questions cannot be exported in the ${result.error.format} format`,
+            });
+        }
+      }
+
+      reply.header('Content-Type', result.value.contentType);
+      reply.header('Content-Disposition', `attachment; filename="${result.value.filename}"`);
+      return reply.send(result.value.body);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   // Retry test (generate similar test)
   fastify.post('/api/tests/:testId/retry', async (
     request: FastifyRequest<{ 
@@ -985,6 +1340,10 @@ export async function testRoutes(fastify: FastifyInstance) {
         });
       }
 
+      if (await isGuardianAccount(userId)) {
+        return reply.status(403).send(GUARDIAN_READ_ONLY);
+      }
+
       // Get original test configuration
       const originalTest = await prisma.test.findUnique({
         where: { id: testId },
@@ -997,13 +1356,22 @@ export async function testRoutes(fastify: FastifyInstance) {
         });
       }
 
-      // Create new test with same configuration
-      const config = {
+      // Create new test with same configuration, easing or raising each topic's
+      // difficulty according to how the student scored on it
+      const topicDifficulties = await adaptiveDifficulty.getRetryDifficulties(testId, userId);
+      // A board-pattern paper is retried with its sections and marks, whatever sections came up short
+      const blueprint: PaperBlueprint | undefined = originalTest.blueprint ? JSON.parse(originalTest.blueprint) : undefined;
+      const config: TestConfiguration = {
         subject: originalTest.subject,
         topics: JSON.parse(originalTest.topics),
-        questionCount: await prisma.testQuestion.count({ where: { testId } }),
+        questionCount: blueprint
+          ? blueprint.sections.reduce((sum, section) => sum + section.questionCount, 0)
+          : originalTest.questionLimit ?? await prisma.testQuestion.count({ where: { testId } }),
         testCount: 1,
-        testMode: originalTest.mode as 'InAppExam' | 'PDFDownload',
+        testMode: originalTest.mode as TestMode,
+        difficulty: (originalTest.difficulty as DifficultyLevel | null) ?? undefined,
+        topicDifficulties,
+        blueprint,
       };
 
       const result = await testGenerator.generateTests(config, userId);
@@ -1021,6 +1389,7 @@ export async function testRoutes(fastify: FastifyInstance) {
       return reply.send({
         success: true,
         testId: newTest.testId,
+        topicDifficulties,
         message: 'Retry test generated successfully',
       });
     } catch (error) {
@@ -2,7 +2,8 @@
 
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../lib/db';
-import { authenticate, verifyOwnership } from '../middleware/auth';
+import { authenticate, requireRole, verifyOwnership } from '../middleware/auth';
+import { updateRoleSchema, formatZodErrors } from '../lib/validators';
 
 interface UpdateProfileBody {
   name?: string;
@@ -48,6 +49,7 @@ export async function userRoutes(fastify: FastifyInstance) {
           grade: true,
           subjects: true,
           curriculum: true,
+          role: true,
         },
       });
 
@@ -109,6 +111,7 @@ export async function userRoutes(fastify: FastifyInstance) {
           curriculum: true,
           grade: true,
           subjects: true,
+          role: true,
           createdAt: true,
           lastLogin: true,
         },
@@ -248,4 +251,67 @@ export async function userRoutes(fastify: FastifyInstance) {
       });
     }
   });
+
+  // Change a user's role - admins only
+  // Signup only offers Student and Guardian, so this is how teachers get the Teacher role
+  fastify.put('/api/admin/users/:userId/role', {
+    preHandler: [authenticate, requireRole('Admin')],
+  }, async (
+    request: FastifyRequest<{ Params: { userId: string } }>,
+    reply: FastifyReply
+  ) => {
+    try {
+      const validation = updateRoleSchema.safeParse(request.body);
+      if (!validation.success) {
+        return reply.status(400).send({
+          success: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: formatZodErrors(validation.error),
+          },
+        });
+      }
+
+      const { userId } = request.params;
+      const existing = await prisma.user.findUnique({
+        where: { id: userId },
+        select: { id: true },
+      });
+
+      if (!existing) {
+        return reply.status(404).send({
+          success: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'User not found',
+          },
+        });
+      }
+
+      const updatedUser = await prisma.user.update({
+        where: { id: userId },
+        data: { role: validation.data.role },
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+        },
+      });
+
+      return reply.send({
+        success: true,
+        user: updatedUser,
+      });
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        success: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: error instanceof Error ? error.message : 'Unknown error',
+        },
+      });
+    }
+  });
 }
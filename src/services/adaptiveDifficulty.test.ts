@@ -0,0 +1,63 @@
+// Adaptive Difficulty Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { AdaptiveDifficultyService, dominantDifficulty, nextDifficulty } from './adaptiveDifficulty';
+
+describe('nextDifficulty', () => {
+  it('should step down after a weak score and never below Foundation', () => {
+    expect(nextDifficulty('Challenge', 40)).toBe('ExamRealistic');
+    expect(nextDifficulty('ExamRealistic', 59)).toBe('Foundation');
+    expect(nextDifficulty('Foundation', 0)).toBe('Foundation');
+  });
+
+  it('should climb after a mastery score and never above Challenge', () => {
+    expect(nextDifficulty('Foundation', 80)).toBe('ExamRealistic');
+    expect(nextDifficulty('ExamRealistic', 95)).toBe('Challenge');
+    expect(nextDifficulty('Challenge', 100)).toBe('Challenge');
+  });
+
+  it('should stay at the same level in between', () => {
+    expect(nextDifficulty('Foundation', 60)).toBe('Foundation');
+    expect(nextDifficulty('ExamRealistic', 79)).toBe('ExamRealistic');
+  });
+});
+
+describe('dominantDifficulty', () => {
+  it('should pick the most common level, preferring the easier one on a tie', () => {
+    expect(dominantDifficulty(['Challenge', 'Challenge', 'Foundation'])).toBe('Challenge');
+    expect(dominantDifficulty(['Challenge', 'Foundation'])).toBe('Foundation');
+    expect(dominantDifficulty([])).toBe('ExamRealistic');
+  });
+});
+
+describe('AdaptiveDifficultyService', () => {
+  it('should adjust each topic from its score in the latest evaluation', async () => {
+    const prisma = {
+      testQuestion: {
+        findMany: vi.fn().mockResolvedValue([
+          { question: { topicId: 'fractions', difficulty: 'ExamRealistic' } },
+          { question: { topicId: 'fractions', difficulty: 'ExamRealistic' } },
+          { question: { topicId: 'decimals', difficulty: 'Foundation' } },
+          { question: { topicId: 'ratios', difficulty: 'ExamRealistic' } },
+        ]),
+      },
+      evaluation: {
+        findFirst: vi.fn().mockResolvedValue({
+          topicScores: [
+            { topicId: 'fractions', percentage: 25 },
+            { topicId: 'decimals', percentage: 100 },
+          ],
+        }),
+      },
+    };
+    const service = new AdaptiveDifficultyService(prisma as any);
+
+    const difficulties = await service.getRetryDifficulties('test-1', 'user-1');
+
+    expect(difficulties).toEqual({
+      fractions: 'Foundation',
+      decimals: 'ExamRealistic',
+      ratios: 'ExamRealistic',
+    });
+  });
+});
@@ -0,0 +1,92 @@
+// Adaptive Difficulty Service
+// Picks the difficulty of each topic in a retry test from how the student scored on it last time
+
+import { PrismaClient } from '@prisma/client';
+import { DifficultyLevel, TestId, TopicId, UserId } from '../types';
+import { DIFFICULTY_LEVELS, MASTERY_TOPIC_THRESHOLD, WEAK_TOPIC_THRESHOLD } from '../lib/constants';
+
+/**
+ * Move one level down after a weak score, one level up after a mastery score,
+ * and stay put in between
+ */
+export function nextDifficulty(current: DifficultyLevel, percentage: number): DifficultyLevel {
+  const index = DIFFICULTY_LEVELS.indexOf(current);
+
+  if (percentage < WEAK_TOPIC_THRESHOLD) {
+    return DIFFICULTY_LEVELS[Math.max(index - 1, 0)];
+  }
+  if (percentage >= MASTERY_TOPIC_THRESHOLD) {
+    return DIFFICULTY_LEVELS[Math.min(index + 1, DIFFICULTY_LEVELS.length - 1)];
+  }
+  return current;
+}
+
+/**
+ * Difficulty a topic was tested at: the level most of its questions had
+ * (ties go to the easier level)
+ */
+export function dominantDifficulty(difficulties: string[]): DifficultyLevel {
+  let dominant: DifficultyLevel = 'ExamRealistic';
+  let dominantCount = 0;
+
+  for (const level of DIFFICULTY_LEVELS) {
+    const count = difficulties.filter(d => d === level).length;
+    if (count > dominantCount) {
+      dominant = level;
+      dominantCount = count;
+    }
+  }
+
+  return dominant;
+}
+
+export class AdaptiveDifficultyService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Difficulty for each topic of a retry of the given test
+   * A topic the student has no score for yet keeps the level it was tested at
+   */
+  async getRetryDifficulties(testId: TestId, userId: UserId): Promise<Record<TopicId, DifficultyLevel>> {
+    const [testQuestions, evaluation] = await Promise.all([
+      this.prisma.testQuestion.findMany({
+        where: { testId },
+        select: { question: { select: { topicId: true, difficulty: true } } },
+      }),
+      this.prisma.evaluation.findFirst({
+        where: { testId, userId },
+        include: { topicScores: true },
+        orderBy: { evaluatedAt: 'desc' },
+      }),
+    ]);
+
+    const difficultiesByTopic = new Map<TopicId, string[]>();
+    for (const { question } of testQuestions as TestQuestionRow[]) {
+      const levels = difficultiesByTopic.get(question.topicId) ?? [];
+      levels.push(question.difficulty);
+      difficultiesByTopic.set(question.topicId, levels);
+    }
+
+    const scores = new Map<TopicId, number>(
+      ((evaluation?.topicScores ?? []) as TopicScoreRow[]).map(score => [score.topicId, score.percentage])
+    );
+
+    const result: Record<TopicId, DifficultyLevel> = {};
+    difficultiesByTopic.forEach((levels, topicId) => {
+      const current = dominantDifficulty(levels);
+      const score = scores.get(topicId);
+      result[topicId] = score === undefined ? current : nextDifficulty(current, score);
+    });
+
+    return result;
+  }
+}
+
+// Row shapes returned by the Prisma queries above
+type TestQuestionRow = { question: { topicId: string; difficulty: string } };
+
+type TopicScoreRow = { topicId: string; percentage: number };
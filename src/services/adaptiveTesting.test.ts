@@ -0,0 +1,182 @@
+// Adaptive Testing Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { AdaptiveTestService, estimateAbility, selectNextItem, PoolItem } from './adaptiveTesting';
+import { EvaluatorService } from './evaluator';
+import { AbilityEstimate } from '../types';
+
+const questionRow = (id: string, difficulty: string, correctAnswer = 'A') => ({
+  id,
+  topicId: 'fractions',
+  questionText: `Question ${id}`,
+  questionType: 'MultipleChoice',
+  options: JSON.stringify(['A', 'B', 'C', 'D']),
+  correctAnswers: JSON.stringify([correctAnswer]),
+  syllabusReference: 'Fractions',
+  difficulty,
+  createdAt: new Date('2026-03-01T09:00:00Z'),
+});
+
+function createService(session: Record<string, unknown>, pool: Array<Record<string, unknown>> = []) {
+  const prisma = {
+    testSession: { findUnique: vi.fn().mockResolvedValue(session) },
+    userResponse: { create: vi.fn() },
+    question: { findMany: vi.fn().mockResolvedValue(pool) },
+    responseGrade: { findMany: vi.fn().mockResolvedValue([]) },
+    testQuestion: {
+      create: vi.fn().mockImplementation(({ data }: { data: { questionId: string } }) =>
+        Promise.resolve({ question: pool.find(q => q.id === data.questionId) })
+      ),
+    },
+  };
+  const service = new AdaptiveTestService(prisma as any, new EvaluatorService(prisma as any));
+  return { service, prisma };
+}
+
+const sessionRow = (served: ReturnType<typeof questionRow>[], responses: Array<{ questionId: string; userAnswer: string }>, questionLimit = 10) => ({
+  id: 'session-1',
+  testId: 'test-1',
+  status: 'InProgress',
+  responses,
+  test: {
+    mode: 'Adaptive',
+    topics: JSON.stringify(['fractions']),
+    questionLimit,
+    poolQuestionIds: JSON.stringify(['d1']),
+    testQuestions: served.map(question => ({ question })),
+  },
+});
+
+describe('estimateAbility', () => {
+  it('should stay finite and above average when every answer is right', () => {
+    const estimate = estimateAbility([
+      { difficulty: 'ExamRealistic', correct: true },
+      { difficulty: 'Challenge', correct: true },
+      { difficulty: 'Challenge', correct: true },
+    ]);
+
+    expect(estimate.ability).toBeGreaterThan(0);
+    expect(Number.isFinite(estimate.ability)).toBe(true);
+    expect(estimate.itemsAnswered).toBe(3);
+  });
+
+  it('should become more precise as more questions are answered', () => {
+    const few = estimateAbility([{ difficulty: 'ExamRealistic', correct: true }]);
+    const many = estimateAbility([
+      { difficulty: 'ExamRealistic', correct: true },
+      { difficulty: 'ExamRealistic', correct: false },
+      { difficulty: 'Foundation', correct: true },
+      { difficulty: 'Challenge', correct: false },
+    ]);
+
+    expect(many.standardError).toBeLessThan(few.standardError);
+  });
+});
+
+describe('selectNextItem', () => {
+  const pool: PoolItem[] = [
+    { questionId: 'f1', topicId: 'fractions', difficulty: 'Foundation' },
+    { questionId: 'c1', topicId: 'fractions', difficulty: 'Challenge' },
+    { questionId: 'd1', topicId: 'decimals', difficulty: 'ExamRealistic' },
+  ];
+
+  it('should pick the question closest to the current ability', () => {
+    const estimates = new Map<string, AbilityEstimate>([
+      ['fractions', { ability: 0.9, standardError: 0.8, itemsAnswered: 2 }],
+    ]);
+
+    expect(selectNextItem(['fractions'], estimates, pool)?.questionId).toBe('c1');
+  });
+
+  it('should serve the least precisely measured topic first', () => {
+    const estimates = new Map<string, AbilityEstimate>([
+      ['fractions', { ability: 0, standardError: 0.7, itemsAnswered: 4 }],
+    ]);
+
+    expect(selectNextItem(['fractions', 'decimals'], estimates, pool)?.topicId).toBe('decimals');
+  });
+
+  it('should stop once every topic reaches the target precision', () => {
+    const estimates = new Map<string, AbilityEstimate>([
+      ['fractions', { ability: 0, standardError: 0.5, itemsAnswered: 9 }],
+      ['decimals', { ability: 0, standardError: 0.55, itemsAnswered: 8 }],
+    ]);
+
+    expect(selectNextItem(['fractions', 'decimals'], estimates, pool, 0.6)).toBeNull();
+  });
+});
+
+describe('AdaptiveTestService', () => {
+  it('should only accept an answer to the current question', async () => {
+    const served = [questionRow('q1', 'ExamRealistic'), questionRow('q2', 'Challenge')];
+    const { service, prisma } = createService(sessionRow(served, [{ questionId: 'q1', userAnswer: 'A' }]));
+
+    const result = await service.answerQuestion('session-1', 'q1', 'B');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('SubmitFailed');
+    }
+    expect(prisma.userResponse.create).not.toHaveBeenCalled();
+  });
+
+  it('should serve a harder question after a correct answer', async () => {
+    const served = [questionRow('q1', 'ExamRealistic')];
+    const pool = [questionRow('f1', 'Foundation'), questionRow('c1', 'Challenge')];
+    const { service, prisma } = createService(sessionRow(served, [{ questionId: 'q1', userAnswer: 'A' }]), pool);
+
+    const result = await service.serveNextQuestion('session-1');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.question?.questionId).toBe('c1');
+      expect(result.value.question?.correctAnswer).toBe('');
+      expect(result.value.questionsServed).toBe(2);
+    }
+    expect(prisma.testQuestion.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { testId: 'test-1', questionId: 'c1', order: 1 },
+    }));
+  });
+
+  it('should serve an easier question when the stored grade marked the answer wrong', async () => {
+    const served = [questionRow('q1', 'ExamRealistic')];
+    const pool = [questionRow('f1', 'Foundation'), questionRow('c1', 'Challenge')];
+    const { service, prisma } = createService(sessionRow(served, [{ questionId: 'q1', userAnswer: 'A' }]), pool);
+    prisma.responseGrade.findMany.mockResolvedValue([{ questionId: 'q1', isCorrect: false }]);
+
+    const result = await service.serveNextQuestion('session-1');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.question?.questionId).toBe('f1');
+    }
+  });
+
+  it('should only serve approved questions and the drafts generated for the test, outside passages', async () => {
+    const { service, prisma } = createService(sessionRow([], []), [questionRow('f1', 'Foundation')]);
+
+    await service.serveNextQuestion('session-1');
+
+    expect(prisma.question.findMany.mock.calls[0][0].where.groupId).toBeNull();
+    expect(prisma.question.findMany.mock.calls[0][0].where.OR).toEqual([
+      { status: 'Approved' },
+      { status: 'Draft', id: { in: ['d1'] } },
+    ]);
+  });
+
+  it('should finish once the question limit is reached', async () => {
+    const served = [questionRow('q1', 'ExamRealistic'), questionRow('q2', 'Foundation')];
+    const { service, prisma } = createService(
+      sessionRow(served, [{ questionId: 'q1', userAnswer: 'B' }, { questionId: 'q2', userAnswer: 'A' }], 2),
+      [questionRow('f1', 'Foundation')]
+    );
+
+    const result = await service.serveNextQuestion('session-1');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toEqual({ complete: true, questionsServed: 2, questionLimit: 2 });
+    }
+    expect(prisma.testQuestion.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,389 @@
+// Adaptive Testing Service
+// Computerized adaptive tests: each next question is picked from the topic's pool to match
+// the student's running ability estimate (Rasch / one-parameter item response model)
+
+import { PrismaClient } from '@prisma/client';
+import {
+  SessionId,
+  QuestionId,
+  TopicId,
+  TestId,
+  Question,
+  QuestionType,
+  DifficultyLevel,
+  AbilityEstimate,
+  AdaptiveStep,
+  SubmitError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { ADAPTIVE_TARGET_STANDARD_ERROR } from '../lib/constants';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
+import { EvaluatorService } from './evaluator';
+
+/**
+ * Item difficulty on the ability (logit) scale for each difficulty level
+ */
+export const DIFFICULTY_LOGITS: Record<DifficultyLevel, number> = {
+  Foundation: -1,
+  ExamRealistic: 0,
+  Challenge: 1,
+};
+
+const MAX_ABILITY = 4;
+const MAX_ITERATIONS = 25;
+
+export type ScoredItem = { difficulty: DifficultyLevel; correct: boolean };
+
+export type PoolItem = { questionId: QuestionId; topicId: TopicId; difficulty: DifficultyLevel };
+
+/**
+ * Probability of a correct answer under the Rasch model
+ */
+export function probabilityCorrect(ability: number, difficulty: DifficultyLevel): number {
+  return 1 / (1 + Math.exp(-(ability - DIFFICULTY_LOGITS[difficulty])));
+}
+
+/**
+ * Maximum a posteriori ability estimate with a standard normal prior
+ * The prior keeps the estimate finite when every answer is right (or wrong)
+ */
+export function estimateAbility(items: ScoredItem[]): AbilityEstimate {
+  let ability = 0;
+  let information = 1;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let gradient = -ability;
+    information = 1;
+    for (const item of items) {
+      const p = probabilityCorrect(ability, item.difficulty);
+      gradient += (item.correct ? 1 : 0) - p;
+      information += p * (1 - p);
+    }
+
+    const step = gradient / information;
+    ability = Math.max(-MAX_ABILITY, Math.min(MAX_ABILITY, ability + step));
+    if (Math.abs(step) < 1e-4) {
+      break;
+    }
+  }
+
+  return {
+    ability,
+    standardError: 1 / Math.sqrt(information),
+    itemsAnswered: items.length,
+  };
+}
+
+/**
+ * Pick the next question, or null when the test should stop
+ * Serves the least precisely measured topic that still has questions, choosing the item
+ * whose difficulty is closest to that topic's current ability (the most informative one)
+ */
+export function selectNextItem(
+  topicIds: TopicId[],
+  estimates: Map<TopicId, AbilityEstimate>,
+  pool: PoolItem[],
+  targetStandardError: number = ADAPTIVE_TARGET_STANDARD_ERROR
+): PoolItem | null {
+  let bestTopic: TopicId | null = null;
+  let bestError = targetStandardError;
+
+  for (const topicId of topicIds) {
+    const estimate = estimates.get(topicId) ?? estimateAbility([]);
+    const hasItems = pool.some(item => item.topicId === topicId);
+    if (hasItems && estimate.standardError > bestError) {
+      bestTopic = topicId;
+      bestError = estimate.standardError;
+    }
+  }
+
+  if (bestTopic === null) {
+    return null;
+  }
+
+  const ability = (estimates.get(bestTopic) ?? estimateAbility([])).ability;
+  let best: PoolItem | null = null;
+  for (const item of pool) {
+    if (item.topicId !== bestTopic) continue;
+    if (!best || Math.abs(DIFFICULTY_LOGITS[item.difficulty] - ability) < Math.abs(DIFFICULTY_LOGITS[best.difficulty] - ability)) {
+      best = item;
+    }
+  }
+
+  return best;
+}
+
+export class AdaptiveTestService {
+  private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
+
+  constructor(prisma: PrismaClient, evaluator: EvaluatorService) {
+    this.prisma = prisma;
+    this.evaluator = evaluator;
+  }
+
+  /**
+   * Whether a test is run adaptively
+   */
+  async isAdaptiveTest(testId: TestId): Promise<boolean> {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: { mode: true },
+    });
+    return test?.mode === 'Adaptive';
+  }
+
+  /**
+   * Whether a session belongs to an adaptive test
+   */
+  async isAdaptiveSession(sessionId: SessionId): Promise<boolean> {
+    const session = await this.prisma.testSession.findUnique({
+      where: { id: sessionId },
+      select: { test: { select: { mode: true } } },
+    });
+    return session?.test.mode === 'Adaptive';
+  }
+
+  /**
+   * Record the answer to the question currently being served, then serve the next one
+   * Answers are final: only the latest unanswered question can be answered
+   */
+  async answerQuestion(
+    sessionId: SessionId,
+    questionId: QuestionId,
+    answer: string
+  ): Promise<Result<AdaptiveStep, SubmitError>> {
+    const loaded = await this.loadSession(sessionId);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const { session } = loaded.value;
+
+    const current = session.test.testQuestions[session.test.testQuestions.length - 1];
+    const answered = new Set(session.responses.map(r => r.questionId));
+    if (!current || current.question.id !== questionId || answered.has(questionId)) {
+      return Err({
+        type: 'SubmitFailed',
+        reason: 'Only the current question of an adaptive test can be answered',
+      });
+    }
+
+    await this.prisma.userResponse.create({
+      data: { sessionId, questionId, userAnswer: answer, answeredAt: new Date() },
+    });
+
+    return this.serveNextQuestion(sessionId);
+  }
+
+  /**
+   * The question the student should answer now
+   * Returns the current question while it is unanswered, otherwise picks and records a new one;
+   * safe to call again (e.g. when a session is resumed)
+   */
+  async serveNextQuestion(sessionId: SessionId): Promise<Result<AdaptiveStep, SubmitError>> {
+    const loaded = await this.loadSession(sessionId);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const { session, topicIds } = loaded.value;
+
+    const served = session.test.testQuestions;
+    const questionLimit = session.test.questionLimit ?? served.length;
+    const responses = new Map<QuestionId, string>(session.responses.map(r => [r.questionId, r.userAnswer]));
+
+    const current = served[served.length - 1];
+    if (current && !responses.has(current.question.id)) {
+      return Ok({ complete: false, question: this.toQuestion(current.question), questionsServed: served.length, questionLimit });
+    }
+
+    const complete = (): Result<AdaptiveStep, SubmitError> =>
+      Ok({ complete: true, questionsServed: served.length, questionLimit });
+
+    if (served.length >= questionLimit) {
+      return complete();
+    }
+
+    // A test has stored grades only once evaluated; until then answers are marked against the key
+    const grades: Array<{ questionId: string; isCorrect: boolean }> = await this.prisma.responseGrade.findMany({
+      where: { evaluation: { testId: session.testId } },
+      select: { questionId: true, isCorrect: true },
+    });
+    const estimates = this.estimateTopics(
+      served.map(tq => tq.question),
+      responses,
+      new Map(grades.map(grade => [grade.questionId, grade.isCorrect]))
+    );
+    const pool = await this.prisma.question.findMany({
+      where: {
+        topicId: { in: topicIds },
+        id: { notIn: served.map(tq => tq.question.id) },
+        supersededAt: null,
+        // A passage's questions are answered together, so they are never served one at a time
+        groupId: null,
+        // Approved questions, plus the drafts generated for this test while they await moderation
+        OR: [
+          { status: 'Approved' },
+          { status: 'Draft', id: { in: poolQuestionIds(session.test.poolQuestionIds) } },
+        ],
+      },
+      select: { id: true, topicId: true, difficulty: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const next = selectNextItem(
+      topicIds,
+      estimates,
+      (pool as PoolRow[]).map(q => ({ questionId: q.id, topicId: q.topicId, difficulty: q.difficulty as DifficultyLevel }))
+    );
+    if (!next) {
+      return complete();
+    }
+
+    const testQuestion = await this.prisma.testQuestion.create({
+      data: { testId: session.testId, questionId: next.questionId, order: served.length },
+      include: { question: true },
+    });
+
+    return Ok({
+      complete: false,
+      question: this.toQuestion(testQuestion.question),
+      questionsServed: served.length + 1,
+      questionLimit,
+    });
+  }
+
+  /**
+   * Ability estimate for each topic from the answered questions
+   * A stored grade (keyed by question) wins over marking the answer against the key
+   */
+  estimateTopics(
+    questions: QuestionRow[],
+    responses: Map<QuestionId, string>,
+    grades: Map<QuestionId, boolean> = new Map()
+  ): Map<TopicId, AbilityEstimate> {
+    const itemsByTopic = new Map<TopicId, ScoredItem[]>();
+
+    for (const question of questions) {
+      const answer = responses.get(question.id);
+      if (answer === undefined) continue;
+
+      const isCorrect = grades.get(question.id) ?? this.evaluator.scoreResponse(
+        answer,
+        question.correctAnswers,
+        question.questionType as QuestionType,
+        1,
+        parseAnswerTolerance(question.answerTolerance)
+      ).isCorrect;
+      const items = itemsByTopic.get(question.topicId) ?? [];
+      items.push({ difficulty: question.difficulty as DifficultyLevel, correct: isCorrect });
+      itemsByTopic.set(question.topicId, items);
+    }
+
+    const estimates = new Map<TopicId, AbilityEstimate>();
+    itemsByTopic.forEach((items, topicId) => estimates.set(topicId, estimateAbility(items)));
+    return estimates;
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private async loadSession(
+    sessionId: SessionId
+  ): Promise<Result<{ session: SessionRow; topicIds: TopicId[] }, SubmitError>> {
+    const session = await this.prisma.testSession.findUnique({
+      where: { id: sessionId },
+      include: {
+        responses: true,
+        test: {
+          include: {
+            testQuestions: { include: { question: true }, orderBy: { order: 'asc' } },
+          },
+        },
+      },
+    });
+
+    if (!session) {
+      return Err({ type: 'SubmitFailed', reason: `Session with ID ${sessionId} not found` });
+    }
+    if (session.test.mode !== 'Adaptive') {
+      return Err({ type: 'SubmitFailed', reason: 'This test is not adaptive' });
+    }
+    if (session.status !== 'InProgress') {
+      return Err({ type: 'SubmitFailed', reason: 'Cannot continue a completed test session' });
+    }
+
+    let topicIds: TopicId[] = [];
+    try {
+      topicIds = JSON.parse(session.test.topics);
+    } catch {
+      topicIds = [];
+    }
+
+    return Ok({ session: session as SessionRow, topicIds });
+  }
+
+  private toQuestion(row: QuestionRow): Question {
+    return {
+      questionId: row.id,
+      topicId: row.topicId,
+      questionText: row.questionText,
+      questionType: row.questionType as QuestionType,
+      options: row.options ? JSON.parse(row.options) : undefined,
+      matchItems: row.matchItems ? JSON.parse(row.matchItems) : undefined,
+      imageId: row.imageId ?? undefined,
+      optionImageIds: row.optionImageIds ? JSON.parse(row.optionImageIds) : undefined,
+      correctAnswer: '', // never sent while the test is in progress
+      syllabusReference: row.syllabusReference,
+      difficulty: row.difficulty as DifficultyLevel,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/**
+ * The question ids an adaptive test's pool was generated with
+ */
+function poolQuestionIds(json: string | null): QuestionId[] {
+  if (!json) return [];
+  try {
+    return JSON.parse(json);
+  } catch {
+    return [];
+  }
+}
+
+// Row shapes returned by the Prisma queries above
+type QuestionRow = {
+  id: string;
+  topicId: string;
+  questionText: string;
+  questionType: string;
+  options: string | null;
+  matchItems: string | null;
+  imageId: string | null;
+  optionImageIds: string | null;
+  correctAnswers: string;
+  answerTolerance: string | null;
+  syllabusReference: string;
+  difficulty: string;
+  createdAt: Date;
+};
+
+type PoolRow = { id: string; topicId: string; difficulty: string };
+
+type SessionRow = {
+  id: string;
+  testId: string;
+  status: string;
+  responses: Array<{ questionId: string; userAnswer: string }>;
+  test: {
+    mode: string;
+    topics: string;
+    questionLimit: number | null;
+    poolQuestionIds: string | null;
+    testQuestions: Array<{ question: QuestionRow }>;
+  };
+};
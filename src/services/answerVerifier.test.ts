@@ -0,0 +1,141 @@
+// Answer Verifier tests
+
+import { describe, it, expect } from 'vitest';
+import {
+  AnswerVerifierService,
+  evaluateArithmetic,
+  extractArithmeticExpression,
+  parseNumericAnswer,
+  numbersAgree,
+} from './answerVerifier';
+import { FixtureProvider } from './llmProvider';
+import { Question } from '../types';
+
+const makeQuestion = (overrides: Partial<Question>): Question => ({
+  questionId: 'q1',
+  topicId: 'topic1',
+  questionText: 'What is 6 x 7?',
+  questionType: 'Numerical',
+  correctAnswer: '42',
+  syllabusReference: 'Multiplication',
+  difficulty: 'ExamRealistic',
+  createdAt: new Date(),
+  ...overrides,
+});
+
+describe('evaluateArithmetic', () => {
+  it('should respect operator precedence and parentheses', () => {
+    expect(evaluateArithmetic('2 + 3 * 4')).toBe(14);
+    expect(evaluateArithmetic('(2 + 3) * 4')).toBe(20);
+    expect(evaluateArithmetic('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateArithmetic('-3 + 10 / 4')).toBe(-0.5);
+  });
+
+  it('should return null for malformed or non-finite expressions', () => {
+    expect(evaluateArithmetic('2 +')).toBeNull();
+    expect(evaluateArithmetic('(2 + 3')).toBeNull();
+    expect(evaluateArithmetic('5 / 0')).toBeNull();
+    expect(evaluateArithmetic('')).toBeNull();
+  });
+});
+
+describe('extractArithmeticExpression', () => {
+  it('should extract expressions from common phrasings', () => {
+    expect(extractArithmeticExpression('What is 12 × 15 − 30?')).toBe('12 * 15 - 30');
+    expect(extractArithmeticExpression('Evaluate: (3 + 4) ^ 2')).toBe('(3 + 4) ^ 2');
+    expect(extractArithmeticExpression('Calculate 1,200 divided by 4.')).toBe('1200 / 4');
+    expect(extractArithmeticExpression('What is 6 x 7 = ?')).toBe('6 * 7');
+  });
+
+  it('should ignore questions that are not pure arithmetic', () => {
+    expect(extractArithmeticExpression('A train travels 120 km in 2 hours. What is its speed?')).toBeNull();
+    expect(extractArithmeticExpression('Solve for x: 2x + 3 = 7')).toBeNull();
+    expect(extractArithmeticExpression('What is 42?')).toBeNull();
+  });
+});
+
+describe('parseNumericAnswer', () => {
+  it('should read numbers, fractions, separators and units', () => {
+    expect(parseNumericAnswer('42')).toBe(42);
+    expect(parseNumericAnswer('1,250')).toBe(1250);
+    expect(parseNumericAnswer('3/4')).toBe(0.75);
+    expect(parseNumericAnswer('15 cm')).toBe(15);
+    expect(parseNumericAnswer('-2.5')).toBe(-2.5);
+    expect(parseNumericAnswer('forty')).toBeNull();
+  });
+});
+
+describe('numbersAgree', () => {
+  it('should accept answers rounded to their written precision', () => {
+    expect(numbersAgree(0.33, 1 / 3, 2)).toBe(true);
+    expect(numbersAgree(0.34, 1 / 3, 2)).toBe(false);
+    expect(numbersAgree(0.1 + 0.2, 0.3)).toBe(true);
+    expect(numbersAgree(1, 2 / 3, 0)).toBe(false);
+  });
+});
+
+describe('AnswerVerifierService', () => {
+  it('should verify pure arithmetic locally without calling the LLM', async () => {
+    const provider = new FixtureProvider([]);
+    const verifier = new AnswerVerifierService(provider);
+
+    const agreed = await verifier.verifyAnswer(makeQuestion({}));
+    const disagreed = await verifier.verifyAnswer(makeQuestion({ correctAnswer: '48' }));
+
+    expect(agreed).toMatchObject({ status: 'Agreed', method: 'Arithmetic' });
+    expect(disagreed).toMatchObject({ status: 'Disagreed', method: 'Arithmetic', verifiedAnswer: '42' });
+    expect(provider.calls).toHaveLength(0);
+  });
+
+  it('should verify word problems with an independent LLM solution', async () => {
+    const provider = new FixtureProvider([JSON.stringify({ working: '120 / 2', answer: '60 km/h' })]);
+    const verifier = new AnswerVerifierService(provider);
+    const question = makeQuestion({
+      questionText: 'A train travels 120 km in 2 hours. What is its average speed?',
+      correctAnswer: '60 km/h',
+      solutionSteps: ['Speed = 120 / 2 = 60 km/h'],
+    });
+
+    const result = await verifier.verifyAnswer(question);
+
+    expect(result).toMatchObject({ status: 'Agreed', method: 'LLM' });
+    // The verifier must not see the stated answer or its working
+    const prompt = provider.calls[0].messages[1].content;
+    expect(prompt).toContain('A train travels 120 km');
+    expect(prompt).not.toContain('Speed = 120 / 2');
+  });
+
+  it('should flag MultipleChoice answers that disagree with the independent solution', async () => {
+    const provider = new FixtureProvider([JSON.stringify({ answer: 'C' })]);
+    const verifier = new AnswerVerifierService(provider);
+    const question = makeQuestion({
+      questionText: 'The area of a square is 49 cm². What is its side length?',
+      questionType: 'MultipleChoice',
+      options: ['6 cm', '8 cm', '7 cm', '9 cm'],
+      correctAnswer: '8 cm',
+    });
+
+    const result = await verifier.verifyAnswer(question);
+
+    expect(result).toMatchObject({ status: 'Disagreed', verifiedAnswer: 'C' });
+  });
+
+  it('should report Unverified when the LLM call fails', async () => {
+    const provider = new FixtureProvider(() => {
+      throw new Error('rate limited');
+    });
+    const verifier = new AnswerVerifierService(provider);
+
+    const result = await verifier.verifyAnswer(makeQuestion({ questionText: 'Find the perimeter of a 3 cm by 4 cm rectangle' }));
+
+    expect(result).toMatchObject({ status: 'Unverified', reason: 'rate limited' });
+  });
+
+  it('should skip ShortAnswer questions', async () => {
+    const verifier = new AnswerVerifierService(new FixtureProvider([]));
+
+    const result = await verifier.verifyAnswer(makeQuestion({ questionType: 'ShortAnswer' }));
+
+    expect(result.status).toBe('Unverified');
+  });
+});
@@ -0,0 +1,302 @@
+// Answer Verifier implementation
+// Independently re-solves generated Numerical and MultipleChoice questions so that
+// answers disagreeing with the question can be regenerated or dropped before persisting
+
+import { Question, AnswerVerification } from '../types';
+import { AnswerVerifier } from './interfaces';
+import { LLMProvider } from './llmProvider';
+import { matchOption } from './generatedQuestionValidator';
+
+const ARITHMETIC_PREFIX =
+  /^(?:what\s+is(?:\s+the\s+value\s+of)?|calculate|evaluate|compute|simplify|find(?:\s+the\s+value\s+of)?)\s*:?\s*/i;
+
+const LEADING_NUMBER = /^[-+]?(?:\d+(?:\.\d+)?|\.\d+)(?:\s*\/\s*(?:\d+(?:\.\d+)?))?/;
+
+/**
+ * Evaluate an arithmetic expression with + - * / ^ and parentheses
+ * Returns null for anything that is not a well-formed expression or has no finite value
+ */
+export function evaluateArithmetic(expression: string): number | null {
+  const tokens = expression.match(/\d+(?:\.\d+)?|\.\d+|[-+*/^()]|\S/g) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  // expression := term (('+' | '-') term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === '+' || peek() === '-') {
+      const operator = next();
+      const right = parseTerm();
+      value = operator === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  // term := power (('*' | '/') power)*
+  const parseTerm = (): number => {
+    let value = parsePower();
+    while (peek() === '*' || peek() === '/') {
+      const operator = next();
+      const right = parsePower();
+      value = operator === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  // power := unary ('^' power)?  (right-associative)
+  const parsePower = (): number => {
+    const base = parseUnary();
+    if (peek() === '^') {
+      next();
+      return Math.pow(base, parsePower());
+    }
+    return base;
+  };
+
+  // unary := ('-' | '+') unary | primary
+  const parseUnary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === '+') {
+      next();
+      return parseUnary();
+    }
+    return parsePrimary();
+  };
+
+  // primary := number | '(' expression ')'
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === '(') {
+      const value = parseExpression();
+      if (next() !== ')') {
+        throw new Error('Unbalanced parentheses');
+      }
+      return value;
+    }
+    if (token !== undefined && /^(?:\d+(?:\.\d+)?|\.\d+)$/.test(token)) {
+      return parseFloat(token);
+    }
+    throw new Error(`Unexpected token ${token}`);
+  };
+
+  try {
+    if (tokens.length === 0) {
+      return null;
+    }
+    const value = parseExpression();
+    if (position !== tokens.length || !Number.isFinite(value)) {
+      return null;
+    }
+    return value;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pull a pure arithmetic expression out of question text such as
+ * "What is 12 × 15 − 30?" or "Evaluate (3 + 4) ^ 2", or null if the question
+ * involves anything beyond numbers and operators
+ */
+export function extractArithmeticExpression(questionText: string): string | null {
+  const expression = questionText
+    .trim()
+    .replace(ARITHMETIC_PREFIX, '')
+    .replace(/\s*=?\s*\?*\s*\.?$/, '')
+    .replace(/(\d),(\d{3})/g, '$1$2')
+    .replace(/\bplus\b/gi, '+')
+    .replace(/\bminus\b/gi, '-')
+    .replace(/\b(?:times|multiplied\s+by)\b/gi, '*')
+    .replace(/\bdivided\s+by\b/gi, '/')
+    .replace(/[×·]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/[−–]/g, '-')
+    .replace(/(\d|\))(\s*)[xX](\s*)(?=[\d(])/g, '$1$2*$3');
+
+  if (!/^[\d\s.+\-*/^()]+$/.test(expression)) {
+    return null;
+  }
+  // Must combine at least two operands, otherwise there is nothing to check
+  if (!/[\d)]\s*[-+*/^]\s*[-+]?[\d.(]/.test(expression)) {
+    return null;
+  }
+
+  return expression.trim();
+}
+
+/**
+ * Read the numeric value at the start of an answer ("1,250", "3/4", "15 cm", "12.5%")
+ */
+export function parseNumericAnswer(answer: string): number | null {
+  const match = answer.trim().replace(/(\d),(\d{3})/g, '$1$2').match(LEADING_NUMBER);
+  if (!match) {
+    return null;
+  }
+
+  const [numerator, denominator] = match[0].split('/').map(part => parseFloat(part.trim()));
+  if (denominator === undefined) {
+    return numerator;
+  }
+  return denominator === 0 ? null : numerator / denominator;
+}
+
+/**
+ * Decimal places written in an answer; fractions count as exact
+ */
+function decimalPlaces(answer: string): number {
+  const match = answer.trim().replace(/(\d),(\d{3})/g, '$1$2').match(LEADING_NUMBER);
+  if (!match || match[0].includes('/')) {
+    return Infinity;
+  }
+  const fraction = match[0].split('.')[1];
+  return fraction ? fraction.length : 0;
+}
+
+/**
+ * Compare two values, allowing a decimal answer to be rounded to the precision it was written with
+ * Whole-number answers must match exactly
+ */
+export function numbersAgree(stated: number, computed: number, places: number = Infinity): boolean {
+  if (Math.abs(stated - computed) <= 1e-9 * Math.max(1, Math.abs(stated), Math.abs(computed))) {
+    return true;
+  }
+  if (!Number.isFinite(places) || places === 0) {
+    return false;
+  }
+  const factor = Math.pow(10, places);
+  return Math.round(computed * factor) === Math.round(stated * factor);
+}
+
+export class AnswerVerifierService implements AnswerVerifier {
+  private provider: LLMProvider;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  /**
+   * Re-solve a question and compare the result with its stated correct answer
+   * Pure arithmetic is evaluated locally; everything else goes to a second LLM call
+   * that sees the question and options but not the stated answer or solution
+   */
+  async verifyAnswer(question: Question): Promise<AnswerVerification> {
+    if (question.questionType !== 'Numerical' && question.questionType !== 'MultipleChoice') {
+      return {
+        questionId: question.questionId,
+        status: 'Unverified',
+        reason: `${question.questionType} questions are not verified`,
+      };
+    }
+
+    const local = this.verifyArithmetic(question);
+    if (local) {
+      return local;
+    }
+
+    return this.verifyWithLLM(question);
+  }
+
+  private verifyArithmetic(question: Question): AnswerVerification | null {
+    const expression = extractArithmeticExpression(question.questionText);
+    if (!expression) {
+      return null;
+    }
+
+    const computed = evaluateArithmetic(expression);
+    const stated = parseNumericAnswer(question.correctAnswer);
+    if (computed === null || stated === null) {
+      return null;
+    }
+
+    return {
+      questionId: question.questionId,
+      status: numbersAgree(stated, computed, decimalPlaces(question.correctAnswer)) ? 'Agreed' : 'Disagreed',
+      method: 'Arithmetic',
+      verifiedAnswer: String(computed),
+    };
+  }
+
+  private async verifyWithLLM(question: Question): Promise<AnswerVerification> {
+    try {
+      const responseContent = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a meticulous mathematics examiner. Solve each problem from scratch, checking every calculation, and report only your own final answer.',
+          },
+          {
+            role: 'user',
+            content: this.buildVerificationPrompt(question),
+          },
+        ],
+        temperature: 0,
+        maxTokens: 1000,
+        jsonMode: true,
+      });
+
+      if (!responseContent) {
+        return { questionId: question.questionId, status: 'Unverified', reason: 'No response from LLM' };
+      }
+
+      const parsedResponse = JSON.parse(responseContent);
+      const answer = typeof parsedResponse.answer === 'number'
+        ? String(parsedResponse.answer)
+        : typeof parsedResponse.answer === 'string' ? parsedResponse.answer.trim() : '';
+
+      if (!answer) {
+        return { questionId: question.questionId, status: 'Unverified', reason: 'LLM returned no answer' };
+      }
+
+      return {
+        questionId: question.questionId,
+        status: this.answersMatch(question, answer) ? 'Agreed' : 'Disagreed',
+        method: 'LLM',
+        verifiedAnswer: answer,
+      };
+    } catch (error) {
+      return {
+        questionId: question.questionId,
+        status: 'Unverified',
+        reason: error instanceof Error ? error.message : 'Unknown verification error',
+      };
+    }
+  }
+
+  private answersMatch(question: Question, answer: string): boolean {
+    if (question.questionType === 'MultipleChoice' && question.options) {
+      return matchOption(answer, question.options) === question.correctAnswer;
+    }
+
+    const stated = parseNumericAnswer(question.correctAnswer);
+    const verified = parseNumericAnswer(answer);
+    if (stated !== null && verified !== null) {
+      const places = Math.min(decimalPlaces(question.correctAnswer), decimalPlaces(answer));
+      return numbersAgree(stated, verified, places);
+    }
+
+    return answer.toLowerCase() === question.correctAnswer.trim().toLowerCase();
+  }
+
+  private buildVerificationPrompt(question: Question): string {
+    const optionsSection = question.questionType === 'MultipleChoice' && question.options
+      ? `\nOptions:\n${question.options.map((option, index) => `${String.fromCharCode(65 + index)}. ${option}`).join('\n')}\n\nYour answer MUST be the exact text of one option.`
+      : '\nGive your answer as a number, with units if the question uses them.';
+
+    return `Solve this ${question.questionType === 'MultipleChoice' ? 'multiple choice' : 'numerical'} question independently.
+
+Question:
+${question.questionText}
+${optionsSection}
+
+Return a JSON object with this format:
+{
+  "working": "Brief working",
+  "answer": "Your final answer"
+}`;
+  }
+}
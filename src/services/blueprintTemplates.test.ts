@@ -0,0 +1,62 @@
+// Blueprint Template Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { BlueprintTemplateService } from './blueprintTemplates';
+
+const templateRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'cbse-10-maths',
+  name: 'CBSE Class 10 Maths board pattern',
+  curriculum: 'CBSE',
+  grade: 10,
+  subject: 'Mathematics',
+  sections: JSON.stringify([
+    { section: 'A', questionType: 'MultipleChoice', questionCount: 20, marks: 1 },
+    { section: 'B', questionType: 'ShortAnswer', questionCount: 5, marks: 2 },
+  ]),
+  topicWeights: JSON.stringify({ 'Real Numbers': 6, Triangles: 8 }),
+  durationMinutes: 180,
+  createdAt: new Date('2026-09-01T09:00:00Z'),
+  ...overrides,
+});
+
+describe('BlueprintTemplateService', () => {
+  it('should list a subject\'s templates for the grade and those used across grades', async () => {
+    const findMany = vi.fn().mockResolvedValue([templateRow(), templateRow({ id: 'any-grade', grade: null, topicWeights: '{}' })]);
+    const service = new BlueprintTemplateService({ blueprintTemplate: { findMany } } as any);
+
+    const templates = await service.listTemplates('CBSE', 10, 'Mathematics');
+
+    expect(findMany).toHaveBeenCalledWith({
+      where: { curriculum: 'CBSE', subject: 'Mathematics', OR: [{ grade: 10 }, { grade: null }] },
+      orderBy: { name: 'asc' },
+    });
+    expect(templates[0]).toEqual({
+      templateId: 'cbse-10-maths',
+      name: 'CBSE Class 10 Maths board pattern',
+      curriculum: 'CBSE',
+      grade: 10,
+      subject: 'Mathematics',
+      blueprint: {
+        sections: [
+          { section: 'A', questionType: 'MultipleChoice', questionCount: 20, marks: 1 },
+          { section: 'B', questionType: 'ShortAnswer', questionCount: 5, marks: 2 },
+        ],
+        topicWeights: { 'Real Numbers': 6, Triangles: 8 },
+        durationMinutes: 180,
+      },
+    });
+    // A template without weightage spreads its marks evenly
+    expect(templates[1].grade).toBeUndefined();
+    expect(templates[1].blueprint.topicWeights).toBeUndefined();
+  });
+
+  it('should report a template that does not exist', async () => {
+    const service = new BlueprintTemplateService({
+      blueprintTemplate: { findUnique: vi.fn().mockResolvedValue(null) },
+    } as any);
+
+    const result = await service.getTemplate('missing');
+
+    expect(result).toEqual({ ok: false, error: { type: 'NotFound', resource: 'BlueprintTemplate', id: 'missing' } });
+  });
+});
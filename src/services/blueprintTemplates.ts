@@ -0,0 +1,75 @@
+// Blueprint Template Service
+// Reusable board paper patterns, e.g. the CBSE Class 10 Maths board paper, that a test can be generated from
+
+import { PrismaClient } from '@prisma/client';
+import {
+  BlueprintTemplateId,
+  BlueprintTemplate,
+  Curriculum,
+  PaperSection,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+
+export class BlueprintTemplateService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Templates for a subject, including those used across every grade
+   */
+  async listTemplates(curriculum: Curriculum, grade: number, subject: string): Promise<BlueprintTemplate[]> {
+    const rows = await this.prisma.blueprintTemplate.findMany({
+      where: { curriculum, subject, OR: [{ grade }, { grade: null }] },
+      orderBy: { name: 'asc' },
+    });
+
+    return (rows as BlueprintTemplateRow[]).map(toBlueprintTemplate);
+  }
+
+  /**
+   * A single template, to generate a test from
+   */
+  async getTemplate(templateId: BlueprintTemplateId): Promise<Result<BlueprintTemplate, NotFoundError>> {
+    const row = await this.prisma.blueprintTemplate.findUnique({ where: { id: templateId } });
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'BlueprintTemplate', id: templateId });
+    }
+
+    return Ok(toBlueprintTemplate(row as BlueprintTemplateRow));
+  }
+}
+
+function toBlueprintTemplate(row: BlueprintTemplateRow): BlueprintTemplate {
+  const topicWeights = JSON.parse(row.topicWeights) as Record<string, number>;
+
+  return {
+    templateId: row.id,
+    name: row.name,
+    curriculum: row.curriculum as Curriculum,
+    grade: row.grade ?? undefined,
+    subject: row.subject,
+    blueprint: {
+      sections: JSON.parse(row.sections) as PaperSection[],
+      topicWeights: Object.keys(topicWeights).length > 0 ? topicWeights : undefined,
+      durationMinutes: row.durationMinutes,
+    },
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type BlueprintTemplateRow = {
+  id: string;
+  name: string;
+  curriculum: string;
+  grade: number | null;
+  subject: string;
+  sections: string;
+  topicWeights: string;
+  durationMinutes: number;
+};
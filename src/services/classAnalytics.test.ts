@@ -0,0 +1,183 @@
+// Class Analytics Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  ClassAnalyticsService,
+  analyzeItems,
+  averageTopicScores,
+  rankStudentsNeedingAttention,
+  secondsPerResponse,
+  ItemQuestion,
+  SubmittedSession,
+} from './classAnalytics';
+import { EvaluatorService } from './evaluator';
+
+const evaluator = new EvaluatorService({} as any);
+const isCorrect = (userAnswer: string, correctAnswers: string, questionType: any) =>
+  evaluator.scoreResponse(userAnswer, correctAnswers, questionType).isCorrect;
+
+const start = new Date('2026-03-01T09:00:00Z');
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+const questions: ItemQuestion[] = [
+  {
+    questionId: 'q1',
+    order: 1,
+    questionText: 'What is 3 + 4?',
+    questionType: 'MultipleChoice',
+    options: ['5', '6', '7', '8'],
+    correctAnswers: '["7"]',
+    topicId: 'addition',
+    topicName: 'Addition',
+  },
+  {
+    questionId: 'q2',
+    order: 2,
+    questionText: 'What is 6 x 7?',
+    questionType: 'Numerical',
+    correctAnswers: '["42"]',
+    topicId: 'multiplication',
+    topicName: 'Multiplication',
+  },
+];
+
+const sessions: SubmittedSession[] = [
+  {
+    startedAt: start,
+    responses: [
+      { questionId: 'q1', userAnswer: '7', answeredAt: at(30) },
+      { questionId: 'q2', userAnswer: '42', answeredAt: at(90) },
+    ],
+  },
+  {
+    startedAt: start,
+    responses: [
+      { questionId: 'q1', userAnswer: 'B) 6', answeredAt: at(10) },
+      { questionId: 'q2', userAnswer: '48', answeredAt: at(50) },
+    ],
+  },
+  {
+    startedAt: start,
+    responses: [{ questionId: 'q1', userAnswer: '6', answeredAt: at(20) }],
+  },
+];
+
+describe('secondsPerResponse', () => {
+  it('should measure each answer from the previous one in answer order', () => {
+    const seconds = secondsPerResponse({
+      startedAt: start,
+      responses: [
+        { questionId: 'q2', userAnswer: '42', answeredAt: at(100) },
+        { questionId: 'q1', userAnswer: '7', answeredAt: at(40) },
+      ],
+    });
+
+    expect(seconds.get('q1')).toBe(40);
+    expect(seconds.get('q2')).toBe(60);
+  });
+});
+
+describe('analyzeItems', () => {
+  it('should report percent correct against everyone who submitted', () => {
+    const [q1, q2] = analyzeItems(questions, sessions, isCorrect);
+
+    expect(q1.percentCorrect).toBeCloseTo(100 / 3);
+    expect(q1.answered).toBe(3);
+    expect(q2.correctCount).toBe(1);
+    expect(q2.answered).toBe(2);
+    expect(q2.attempts).toBe(3);
+  });
+
+  it('should find the most-chosen wrong option, resolving lettered answers', () => {
+    const [q1, q2] = analyzeItems(questions, sessions, isCorrect);
+
+    expect(q1.mostChosenWrongOption).toEqual({ option: '6', count: 2 });
+    expect(q2.mostChosenWrongOption).toBeUndefined();
+  });
+
+  it('should use the evaluation\'s stored grades over re-marking the answer', () => {
+    const graded: SubmittedSession[] = [
+      { ...sessions[1], grades: new Map([['q2', true]]) },
+    ];
+
+    const [q1, q2] = analyzeItems(questions, graded, isCorrect);
+
+    expect(q1.correctCount).toBe(0);
+    expect(q2.correctCount).toBe(1);
+  });
+
+  it('should average time to answer over answered responses', () => {
+    const [q1, q2] = analyzeItems(questions, sessions, isCorrect);
+
+    expect(q1.averageSecondsToAnswer).toBe(20);
+    expect(q2.averageSecondsToAnswer).toBe(50);
+  });
+});
+
+describe('averageTopicScores', () => {
+  it('should combine each student\'s evaluations before averaging across students', () => {
+    const averages = averageTopicScores([
+      { userId: 's1', topicScores: [{ topicId: 't1', topicName: 'Fractions', correct: 1, total: 2 }] },
+      { userId: 's1', topicScores: [{ topicId: 't1', topicName: 'Fractions', correct: 2, total: 2 }] },
+      { userId: 's2', topicScores: [{ topicId: 't1', topicName: 'Fractions', correct: 1, total: 4 }] },
+    ]);
+
+    expect(averages).toHaveLength(1);
+    expect(averages[0].averagePercentage).toBeCloseTo((75 + 25) / 2);
+    expect(averages[0].studentCount).toBe(2);
+    expect(averages[0].weakStudentCount).toBe(1);
+  });
+});
+
+describe('rankStudentsNeedingAttention', () => {
+  const students = [
+    { userId: 'strong', email: 'strong@example.com' },
+    { userId: 'missing', email: 'missing@example.com' },
+    { userId: 'low', email: 'low@example.com' },
+  ];
+
+  it('should count missed closed assignments as zero and rank the worst first', () => {
+    const ranked = rankStudentsNeedingAttention(
+      students,
+      [
+        { closed: true, scores: new Map([['strong', 90], ['missing', 80], ['low', 50]]) },
+        { closed: true, scores: new Map([['strong', 85], ['low', 55]]) },
+        { closed: false, scores: new Map() },
+      ],
+      []
+    );
+
+    expect(ranked.map(s => s.userId)).toEqual(['missing', 'low']);
+    expect(ranked[0]).toMatchObject({ missedCount: 1, effectiveScore: 40, reasons: ['Missed 1 assignment'] });
+    expect(ranked[1].reasons).toEqual(['Average score 53%']);
+  });
+
+  it('should flag weak topics even when the average is fine', () => {
+    const ranked = rankStudentsNeedingAttention(
+      [students[0]],
+      [{ closed: true, scores: new Map([['strong', 80]]) }],
+      [{ userId: 'strong', topicScores: [{ topicId: 't1', topicName: 'Fractions', correct: 1, total: 4 }] }]
+    );
+
+    expect(ranked[0].weakTopics).toEqual(['Fractions']);
+    expect(ranked[0].reasons).toEqual(['Weak in Fractions']);
+  });
+});
+
+describe('ClassAnalyticsService', () => {
+  it('should not show analytics for another teacher\'s class', async () => {
+    const prisma = {
+      class: {
+        findUnique: vi.fn().mockResolvedValue({ id: 'class-1', teacherId: 'teacher-2', members: [], assignments: [] }),
+      },
+    };
+    const service = new ClassAnalyticsService(prisma as any);
+
+    const result = await service.getClassAnalytics('class-1', 'teacher-1');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('Forbidden');
+    }
+  });
+});
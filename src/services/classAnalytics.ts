@@ -0,0 +1,467 @@
+// Class Analytics Service
+// Item analysis, topic averages and at-risk students across a class's assigned tests
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  ClassId,
+  AssignmentId,
+  QuestionType,
+  AnswerTolerance,
+  QuestionItemAnalysis,
+  TopicClassAverage,
+  AssignmentAnalytics,
+  StudentAttention,
+  ClassAnalytics,
+  ClassroomError,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { EvaluatorService } from './evaluator';
+import { getWindowStatus } from './classroom';
+import { WEAK_TOPIC_THRESHOLD } from '../lib/constants';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
+
+export type ItemQuestion = {
+  questionId: string;
+  order: number;
+  questionText: string;
+  questionType: QuestionType;
+  options?: string[];
+  correctAnswers: string; // Stored JSON, as on the Question row
+  answerTolerance?: AnswerTolerance;
+  topicId: string;
+  topicName: string;
+};
+
+export type SubmittedSession = {
+  startedAt: Date;
+  responses: Array<{ questionId: string; userAnswer: string; answeredAt: Date }>;
+  // How the evaluation marked each question, by question ID; includes teacher overrides
+  grades?: Map<string, boolean>;
+};
+
+type ScoreResponse = (
+  userAnswer: string,
+  correctAnswers: string,
+  questionType: QuestionType,
+  tolerance?: AnswerTolerance
+) => boolean;
+
+/**
+ * Seconds spent on each answered question in a session
+ * Measured from the previous answer (or the session start for the first one); when a
+ * student changes an answer its answeredAt moves, so this is an approximation
+ */
+export function secondsPerResponse(session: SubmittedSession): Map<string, number> {
+  const ordered = [...session.responses].sort((a, b) => a.answeredAt.getTime() - b.answeredAt.getTime());
+  const seconds = new Map<string, number>();
+  let previous = session.startedAt;
+
+  for (const response of ordered) {
+    seconds.set(response.questionId, Math.max(0, (response.answeredAt.getTime() - previous.getTime()) / 1000));
+    previous = response.answeredAt;
+  }
+
+  return seconds;
+}
+
+/**
+ * Per-question percentage correct, most-chosen wrong option and average answer time
+ */
+export function analyzeItems(
+  questions: ItemQuestion[],
+  sessions: SubmittedSession[],
+  isCorrect: ScoreResponse
+): QuestionItemAnalysis[] {
+  const timings = sessions.map(secondsPerResponse);
+
+  return questions.map(question => {
+    let answered = 0;
+    let correctCount = 0;
+    let totalSeconds = 0;
+    const wrongChoices = new Map<string, number>();
+
+    sessions.forEach((session, index) => {
+      const response = session.responses.find(r => r.questionId === question.questionId);
+      if (!response || response.userAnswer.trim() === '') {
+        return;
+      }
+
+      answered++;
+      totalSeconds += timings[index].get(question.questionId) ?? 0;
+
+      // Answers from before grades were stored are re-marked against the key
+      const correct = session.grades?.get(question.questionId)
+        ?? isCorrect(response.userAnswer, question.correctAnswers, question.questionType, question.answerTolerance);
+      if (correct) {
+        correctCount++;
+      } else if (question.questionType === 'MultipleChoice') {
+        const choice = resolveOption(response.userAnswer, question.options ?? []);
+        wrongChoices.set(choice, (wrongChoices.get(choice) ?? 0) + 1);
+      }
+    });
+
+    const [mostChosenWrong] = [...wrongChoices.entries()].sort((a, b) => b[1] - a[1]);
+
+    return {
+      questionId: question.questionId,
+      order: question.order,
+      questionText: question.questionText,
+      questionType: question.questionType,
+      topicId: question.topicId,
+      topicName: question.topicName,
+      attempts: sessions.length,
+      answered,
+      correctCount,
+      percentCorrect: sessions.length > 0 ? (correctCount / sessions.length) * 100 : 0,
+      mostChosenWrongOption: mostChosenWrong
+        ? { option: mostChosenWrong[0], count: mostChosenWrong[1] }
+        : undefined,
+      averageSecondsToAnswer: answered > 0 ? totalSeconds / answered : undefined,
+    };
+  });
+}
+
+/**
+ * Average each topic's percentage across students
+ * A student with several evaluations covering a topic is combined into one figure first
+ */
+export function averageTopicScores(
+  evaluations: Array<{ userId: string; topicScores: Array<{ topicId: string; topicName: string; correct: number; total: number }> }>
+): TopicClassAverage[] {
+  const perStudent = combineTopicScores(evaluations);
+  const byTopic = new Map<string, { topicName: string; percentages: number[] }>();
+
+  for (const topics of perStudent.values()) {
+    for (const [topicId, score] of topics) {
+      const entry = byTopic.get(topicId) ?? { topicName: score.topicName, percentages: [] };
+      entry.percentages.push(score.total > 0 ? (score.correct / score.total) * 100 : 0);
+      byTopic.set(topicId, entry);
+    }
+  }
+
+  return [...byTopic.entries()]
+    .map(([topicId, entry]) => ({
+      topicId,
+      topicName: entry.topicName,
+      averagePercentage: entry.percentages.reduce((sum, p) => sum + p, 0) / entry.percentages.length,
+      studentCount: entry.percentages.length,
+      weakStudentCount: entry.percentages.filter(p => p < WEAK_TOPIC_THRESHOLD).length,
+    }))
+    .sort((a, b) => a.averagePercentage - b.averagePercentage);
+}
+
+/**
+ * Students who are missing work, scoring low or weak in topics, worst first
+ * Ranked by average score with missed assignments counted as zero
+ */
+export function rankStudentsNeedingAttention(
+  students: Array<{ userId: string; email: string; name?: string }>,
+  assignments: Array<{ closed: boolean; scores: Map<string, number> }>,
+  evaluations: Array<{ userId: string; topicScores: Array<{ topicId: string; topicName: string; correct: number; total: number }> }>
+): StudentAttention[] {
+  const topicsByStudent = combineTopicScores(evaluations);
+
+  const ranked = students.map(student => {
+    const scores: number[] = [];
+    let missedCount = 0;
+
+    for (const assignment of assignments) {
+      const score = assignment.scores.get(student.userId);
+      if (score !== undefined) {
+        scores.push(score);
+      } else if (assignment.closed) {
+        missedCount++;
+      }
+    }
+
+    const averageScore = scores.length > 0
+      ? scores.reduce((sum, score) => sum + score, 0) / scores.length
+      : undefined;
+    const counted = scores.length + missedCount;
+    const effectiveScore = counted > 0 ? scores.reduce((sum, score) => sum + score, 0) / counted : 100;
+
+    const weakTopics = [...(topicsByStudent.get(student.userId)?.values() ?? [])]
+      .filter(score => score.total > 0 && (score.correct / score.total) * 100 < WEAK_TOPIC_THRESHOLD)
+      .map(score => score.topicName);
+
+    const reasons: string[] = [];
+    if (missedCount > 0) {
+      reasons.push(`Missed ${missedCount} assignment${missedCount === 1 ? '' : 's'}`);
+    }
+    if (averageScore !== undefined && averageScore < WEAK_TOPIC_THRESHOLD) {
+      reasons.push(`Average score ${Math.round(averageScore)}%`);
+    }
+    if (weakTopics.length > 0) {
+      reasons.push(`Weak in ${weakTopics.join(', ')}`);
+    }
+
+    return {
+      userId: student.userId,
+      email: student.email,
+      name: student.name,
+      submittedCount: scores.length,
+      missedCount,
+      averageScore,
+      effectiveScore,
+      weakTopics,
+      reasons,
+    };
+  });
+
+  return ranked
+    .filter(student => student.reasons.length > 0)
+    .sort((a, b) => a.effectiveScore - b.effectiveScore || b.weakTopics.length - a.weakTopics.length);
+}
+
+/**
+ * Sum correct/total per topic for each student across their evaluations
+ */
+function combineTopicScores(
+  evaluations: Array<{ userId: string; topicScores: Array<{ topicId: string; topicName: string; correct: number; total: number }> }>
+): Map<string, Map<string, { topicName: string; correct: number; total: number }>> {
+  const perStudent = new Map<string, Map<string, { topicName: string; correct: number; total: number }>>();
+
+  for (const evaluation of evaluations) {
+    const topics = perStudent.get(evaluation.userId) ?? new Map();
+    for (const score of evaluation.topicScores) {
+      const entry = topics.get(score.topicId) ?? { topicName: score.topicName, correct: 0, total: 0 };
+      entry.correct += score.correct;
+      entry.total += score.total;
+      topics.set(score.topicId, entry);
+    }
+    perStudent.set(evaluation.userId, topics);
+  }
+
+  return perStudent;
+}
+
+/**
+ * Map a stored MCQ answer ("B) 42", "42") to the option text it refers to
+ */
+function resolveOption(answer: string, options: string[]): string {
+  const trimmed = answer.trim();
+  const exact = options.find(option => option.trim().toLowerCase() === trimmed.toLowerCase());
+  if (exact) {
+    return exact;
+  }
+
+  const withoutPrefix = trimmed.replace(/^[A-Da-d1-4][\)\.\:\-]\s*/, '');
+  return options.find(option => option.trim().toLowerCase() === withoutPrefix.toLowerCase()) ?? trimmed;
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+}
+
+export class ClassAnalyticsService {
+  private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+    this.evaluator = new EvaluatorService(prisma);
+  }
+
+  /**
+   * Item analysis and topic averages for one assignment, over submitted attempts
+   */
+  async getAssignmentAnalytics(
+    assignmentId: AssignmentId,
+    teacherId: UserId
+  ): Promise<Result<AssignmentAnalytics, NotFoundError | ClassroomError>> {
+    const assignment = await this.prisma.testAssignment.findUnique({
+      where: { id: assignmentId },
+      include: {
+        class: { select: { teacherId: true, _count: { select: { members: true } } } },
+        test: {
+          include: {
+            testQuestions: {
+              include: { question: { include: { topic: true } } },
+              orderBy: { order: 'asc' },
+            },
+          },
+        },
+        copies: {
+          include: {
+            testSessions: {
+              where: { status: 'Submitted' },
+              include: { responses: true },
+            },
+            evaluations: {
+              include: {
+                topicScores: true,
+                responseGrades: { select: { questionId: true, isCorrect: true } },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (!assignment) {
+      return Err({ type: 'NotFound', resource: 'TestAssignment', id: assignmentId });
+    }
+    if (assignment.class.teacherId !== teacherId) {
+      return Err({ type: 'Forbidden', message: 'You can only view analytics for your own classes' });
+    }
+
+    const questions: ItemQuestion[] = assignment.test.testQuestions.map((testQuestion: QuestionRow) => ({
+      questionId: testQuestion.question.id,
+      order: testQuestion.order,
+      questionText: testQuestion.question.questionText,
+      questionType: testQuestion.question.questionType as QuestionType,
+      options: testQuestion.question.options ? JSON.parse(testQuestion.question.options) : undefined,
+      correctAnswers: testQuestion.question.correctAnswers || '[]',
+      answerTolerance: parseAnswerTolerance(testQuestion.question.answerTolerance),
+      topicId: testQuestion.question.topicId,
+      topicName: testQuestion.question.topic.topicName,
+    }));
+
+    const sessions: SubmittedSession[] = assignment.copies.flatMap((copy: CopyRow) => {
+      const grades = new Map(copy.evaluations.flatMap(evaluation =>
+        (evaluation.responseGrades ?? []).map(grade => [grade.questionId, grade.isCorrect] as [string, boolean])
+      ));
+      return copy.testSessions.map(session => ({ startedAt: session.startedAt, responses: session.responses, grades }));
+    });
+    const evaluations = assignment.copies.flatMap((copy: CopyRow) =>
+      copy.evaluations.map(evaluation => ({ ...evaluation, userId: copy.userId }))
+    );
+
+    return Ok({
+      assignmentId: assignment.id,
+      classId: assignment.classId,
+      subject: assignment.test.subject,
+      studentCount: assignment.class._count.members,
+      submittedCount: evaluations.length,
+      averageScore: average(evaluations.map((evaluation: { overallScore: number }) => evaluation.overallScore)),
+      items: analyzeItems(questions, sessions, (userAnswer, correctAnswers, questionType, tolerance) =>
+        this.evaluator.scoreResponse(userAnswer, correctAnswers, questionType, 1, tolerance).isCorrect
+      ),
+      topicAverages: averageTopicScores(evaluations),
+    });
+  }
+
+  /**
+   * Class-wide view: per-assignment averages, topic averages and students needing attention
+   */
+  async getClassAnalytics(
+    classId: ClassId,
+    teacherId: UserId,
+    now: Date = new Date()
+  ): Promise<Result<ClassAnalytics, NotFoundError | ClassroomError>> {
+    const row = await this.prisma.class.findUnique({
+      where: { id: classId },
+      include: {
+        members: {
+          include: { user: { select: { id: true, email: true, name: true } } },
+        },
+        assignments: {
+          include: {
+            test: { select: { subject: true } },
+            copies: {
+              include: { evaluations: { include: { topicScores: true } } },
+            },
+          },
+          orderBy: { opensAt: 'asc' },
+        },
+      },
+    });
+
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'Class', id: classId });
+    }
+    if (row.teacherId !== teacherId) {
+      return Err({ type: 'Forbidden', message: 'You can only view analytics for your own classes' });
+    }
+
+    const memberIds = new Set<string>(row.members.map((member: MemberRow) => member.user.id));
+
+    const assignments = row.assignments.map((assignment: ClassAssignmentRow) => {
+      // Students who have since left the class are excluded from class figures
+      const evaluations = assignment.copies
+        .filter(copy => memberIds.has(copy.userId))
+        .flatMap(copy => copy.evaluations.map(evaluation => ({ ...evaluation, userId: copy.userId })));
+      return { assignment, evaluations };
+    });
+
+    const allEvaluations = assignments.flatMap(({ evaluations }: { evaluations: EvaluationRow[] }) => evaluations);
+
+    const studentsNeedingAttention = rankStudentsNeedingAttention(
+      row.members.map((member: MemberRow) => ({
+        userId: member.user.id,
+        email: member.user.email,
+        name: member.user.name || undefined,
+      })),
+      assignments.map(({ assignment, evaluations }: { assignment: ClassAssignmentRow; evaluations: EvaluationRow[] }) => ({
+        closed: getWindowStatus(assignment, now) === 'Closed',
+        scores: new Map(evaluations.map(evaluation => [evaluation.userId, evaluation.overallScore])),
+      })),
+      allEvaluations
+    );
+
+    return Ok({
+      classId: row.id,
+      name: row.name,
+      studentCount: row.members.length,
+      assignments: assignments.map(({ assignment, evaluations }: { assignment: ClassAssignmentRow; evaluations: EvaluationRow[] }) => ({
+        assignmentId: assignment.id,
+        subject: assignment.test.subject,
+        opensAt: assignment.opensAt,
+        closesAt: assignment.closesAt,
+        status: getWindowStatus(assignment, now),
+        submittedCount: evaluations.length,
+        averageScore: average(evaluations.map(evaluation => evaluation.overallScore)),
+      })),
+      topicAverages: averageTopicScores(allEvaluations),
+      studentsNeedingAttention,
+    });
+  }
+}
+
+// Row shapes returned by the Prisma queries above
+type QuestionRow = {
+  order: number;
+  question: {
+    id: string;
+    questionText: string;
+    questionType: string;
+    options: string | null;
+    correctAnswers: string;
+    answerTolerance: string | null;
+    topicId: string;
+    topic: { topicName: string };
+  };
+};
+
+type EvaluationRow = {
+  userId: string;
+  overallScore: number;
+  topicScores: Array<{ topicId: string; topicName: string; correct: number; total: number }>;
+};
+
+type CopyRow = {
+  userId: string;
+  testSessions: Array<{
+    startedAt: Date;
+    responses: Array<{ questionId: string; userAnswer: string; answeredAt: Date }>;
+  }>;
+  evaluations: Array<Omit<EvaluationRow, 'userId'> & {
+    responseGrades?: Array<{ questionId: string; isCorrect: boolean }>;
+  }>;
+};
+
+type MemberRow = {
+  user: { id: string; email: string; name: string | null };
+};
+
+type ClassAssignmentRow = {
+  id: string;
+  opensAt: Date;
+  closesAt: Date;
+  test: { subject: string };
+  copies: Array<{ userId: string; evaluations: Array<Omit<EvaluationRow, 'userId'>> }>;
+};
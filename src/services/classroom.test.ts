@@ -0,0 +1,338 @@
+// Classroom Service tests
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ClassroomService, generateJoinCode, getWindowStatus } from './classroom';
+
+const opensAt = new Date('2026-03-01T09:00:00Z');
+const closesAt = new Date('2026-03-01T11:00:00Z');
+const duringWindow = new Date('2026-03-01T10:00:00Z');
+
+const createMockPrisma = () => ({
+  class: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  classMember: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+  classInvite: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    upsert: vi.fn(),
+    update: vi.fn(),
+  },
+  testAssignment: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  test: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+});
+
+const sourceTest = {
+  id: 'source-test',
+  userId: 'teacher-1',
+  subject: 'Mathematics',
+  topics: '["topic-1"]',
+  mode: 'InAppExam',
+  timerMinutes: 30,
+  questionPaperPDF: null,
+  answerKeyPDF: null,
+  testQuestions: [
+    { questionId: 'q1', order: 1, marks: 1, section: 'A' },
+    { questionId: 'q2', order: 2, marks: 3, section: 'B' },
+  ],
+};
+
+describe('ClassroomService', () => {
+  let prisma: ReturnType<typeof createMockPrisma>;
+  let service: ClassroomService;
+
+  beforeEach(() => {
+    prisma = createMockPrisma();
+    service = new ClassroomService(prisma as any);
+  });
+
+  describe('generateJoinCode', () => {
+    it('should produce six characters from the unambiguous alphabet', () => {
+      const code = generateJoinCode();
+
+      expect(code).toMatch(/^[A-HJKMNP-Z2-9]{6}$/);
+    });
+  });
+
+  describe('getWindowStatus', () => {
+    it('should classify times before, inside and after the window', () => {
+      expect(getWindowStatus({ opensAt, closesAt }, new Date('2026-03-01T08:00:00Z'))).toBe('Upcoming');
+      expect(getWindowStatus({ opensAt, closesAt }, duringWindow)).toBe('Open');
+      expect(getWindowStatus({ opensAt, closesAt }, new Date('2026-03-01T12:00:00Z'))).toBe('Closed');
+    });
+  });
+
+  describe('createClass', () => {
+    it('should retry the join code when it collides with an existing class', async () => {
+      prisma.class.findUnique
+        .mockResolvedValueOnce({ id: 'existing' })
+        .mockResolvedValueOnce(null);
+      prisma.class.create.mockImplementation(async ({ data }: any) => ({
+        id: 'class-1',
+        createdAt: new Date(),
+        ...data,
+      }));
+
+      const created = await service.createClass('teacher-1', { name: '8B Maths' });
+
+      expect(prisma.class.findUnique).toHaveBeenCalledTimes(2);
+      expect(created).toMatchObject({ classId: 'class-1', name: '8B Maths', studentCount: 0 });
+    });
+  });
+
+  describe('inviteStudent', () => {
+    it('should reject teachers who do not own the class', async () => {
+      prisma.class.findUnique.mockResolvedValue({ id: 'class-1', name: '8B', teacherId: 'teacher-2' });
+
+      const result = await service.inviteStudent('class-1', 'teacher-1', 'student@example.com');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('Forbidden');
+      }
+      expect(prisma.classInvite.upsert).not.toHaveBeenCalled();
+    });
+
+    it('should normalise the email before creating the invite', async () => {
+      prisma.class.findUnique.mockResolvedValue({ id: 'class-1', name: '8B', teacherId: 'teacher-1' });
+      prisma.classMember.findFirst.mockResolvedValue(null);
+      prisma.classInvite.upsert.mockImplementation(async ({ create }: any) => ({
+        id: 'invite-1',
+        status: 'Pending',
+        createdAt: new Date(),
+        ...create,
+      }));
+
+      const result = await service.inviteStudent('class-1', 'teacher-1', '  Student@Example.com ');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value).toMatchObject({ email: 'student@example.com', className: '8B' });
+      }
+    });
+  });
+
+  describe('joinByCode', () => {
+    it('should reject unknown codes', async () => {
+      prisma.class.findUnique.mockResolvedValue(null);
+
+      const result = await service.joinByCode('student-1', 'abc123');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toEqual({ type: 'InvalidJoinCode', code: 'ABC123' });
+      }
+    });
+
+    it('should not add a student twice', async () => {
+      prisma.class.findUnique.mockResolvedValue({ id: 'class-1', teacherId: 'teacher-1', _count: { members: 1 } });
+      prisma.classMember.findUnique.mockResolvedValue({ id: 'member-1' });
+
+      const result = await service.joinByCode('student-1', 'ABC123');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('AlreadyMember');
+      }
+      expect(prisma.classMember.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptInvite', () => {
+    it('should only let the invited email accept', async () => {
+      prisma.classInvite.findUnique.mockResolvedValue({
+        id: 'invite-1',
+        status: 'Pending',
+        email: 'invited@example.com',
+        class: { id: 'class-1', teacherId: 'teacher-1', _count: { members: 0 } },
+      });
+
+      const result = await service.acceptInvite('invite-1', 'student-1', 'someone-else@example.com');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('Forbidden');
+      }
+      expect(prisma.classMember.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createAssignment', () => {
+    beforeEach(() => {
+      prisma.class.findUnique.mockResolvedValue({ id: 'class-1', name: '8B', teacherId: 'teacher-1' });
+    });
+
+    it('should reject a window that closes before it opens', async () => {
+      const result = await service.createAssignment('class-1', 'teacher-1', 'source-test', {
+        opensAt: closesAt,
+        closesAt: opensAt,
+      });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('InvalidWindow');
+      }
+    });
+
+    it('should only assign the teacher\'s own in-app exams', async () => {
+      prisma.test.findUnique.mockResolvedValue({ ...sourceTest, mode: 'PrintablePDF' });
+
+      const result = await service.createAssignment('class-1', 'teacher-1', 'source-test', { opensAt, closesAt });
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('Forbidden');
+      }
+      expect(prisma.testAssignment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('startAssignment', () => {
+    beforeEach(() => {
+      prisma.testAssignment.findUnique.mockResolvedValue({
+        id: 'assignment-1',
+        classId: 'class-1',
+        testId: 'source-test',
+        opensAt,
+        closesAt,
+        test: sourceTest,
+      });
+    });
+
+    it('should reject students who are not in the class', async () => {
+      prisma.classMember.findUnique.mockResolvedValue(null);
+
+      const result = await service.startAssignment('assignment-1', 'student-1', duringWindow);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error).toEqual({ type: 'NotAMember', classId: 'class-1' });
+      }
+    });
+
+    it('should reject starting outside the window', async () => {
+      prisma.classMember.findUnique.mockResolvedValue({ id: 'member-1' });
+      prisma.test.findUnique.mockResolvedValue(null);
+
+      const early = await service.startAssignment('assignment-1', 'student-1', new Date('2026-03-01T08:00:00Z'));
+      const late = await service.startAssignment('assignment-1', 'student-1', new Date('2026-03-01T12:00:00Z'));
+
+      expect(early.ok).toBe(false);
+      if (!early.ok) {
+        expect(early.error.type).toBe('AssignmentNotOpen');
+      }
+      expect(late.ok).toBe(false);
+      if (!late.ok) {
+        expect(late.error.type).toBe('AssignmentClosed');
+      }
+      expect(prisma.test.create).not.toHaveBeenCalled();
+    });
+
+    it('should give each student their own copy of the assigned questions', async () => {
+      prisma.classMember.findUnique.mockResolvedValue({ id: 'member-1' });
+      prisma.test.findUnique.mockResolvedValue(null);
+      prisma.test.create.mockResolvedValue({ id: 'student-copy' });
+
+      const result = await service.startAssignment('assignment-1', 'student-1', duringWindow);
+
+      expect(result).toEqual({ ok: true, value: { testId: 'student-copy' } });
+      const { data } = prisma.test.create.mock.calls[0][0];
+      expect(data).toMatchObject({
+        userId: 'student-1',
+        assignmentId: 'assignment-1',
+        mode: 'InAppExam',
+        timerMinutes: 30,
+      });
+      expect(data.testQuestions.create).toEqual([
+        { questionId: 'q1', order: 1, marks: 1, section: 'A' },
+        { questionId: 'q2', order: 2, marks: 3, section: 'B' },
+      ]);
+    });
+
+    it('should resume an existing copy instead of creating another', async () => {
+      prisma.classMember.findUnique.mockResolvedValue({ id: 'member-1' });
+      prisma.test.findUnique.mockResolvedValue({ id: 'student-copy' });
+
+      const result = await service.startAssignment('assignment-1', 'student-1', duringWindow);
+
+      expect(result).toEqual({ ok: true, value: { testId: 'student-copy' } });
+      expect(prisma.test.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAssignmentResults', () => {
+    it('should report every member, including those who have not started', async () => {
+      prisma.testAssignment.findUnique.mockResolvedValue({
+        id: 'assignment-1',
+        class: {
+          teacherId: 'teacher-1',
+          members: [
+            { joinedAt: new Date(), user: { id: 'student-1', email: 'a@example.com', name: 'Asha' } },
+            { joinedAt: new Date(), user: { id: 'student-2', email: 'b@example.com', name: null } },
+            { joinedAt: new Date(), user: { id: 'student-3', email: 'c@example.com', name: null } },
+          ],
+        },
+        copies: [
+          {
+            id: 'copy-1',
+            userId: 'student-1',
+            evaluations: [{
+              id: 'eval-1',
+              overallScore: 50,
+              correctCount: 1,
+              totalCount: 2,
+              evaluatedAt: new Date(),
+              topicScores: [{ topicId: 'topic-1', topicName: 'Fractions', correct: 1, total: 2, percentage: 50 }],
+            }],
+          },
+          { id: 'copy-2', userId: 'student-2', evaluations: [] },
+        ],
+      });
+
+      const result = await service.getAssignmentResults('assignment-1', 'teacher-1');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.map(r => r.status)).toEqual(['Submitted', 'InProgress', 'NotStarted']);
+        expect(result.value[0].evaluation?.topicScores[0].topicName).toBe('Fractions');
+      }
+    });
+  });
+
+  describe('checkAssignmentWindow', () => {
+    it('should pass tests that are not part of an assignment', async () => {
+      prisma.test.findUnique.mockResolvedValue({ id: 'practice', assignment: null });
+
+      const result = await service.checkAssignmentWindow('practice');
+
+      expect(result.ok).toBe(true);
+    });
+
+    it('should reject a copy after its assignment has closed', async () => {
+      prisma.test.findUnique.mockResolvedValue({ id: 'copy-1', assignment: { opensAt, closesAt } });
+
+      const result = await service.checkAssignmentWindow('copy-1', new Date('2026-03-02T00:00:00Z'));
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('AssignmentClosed');
+      }
+    });
+  });
+});
@@ -0,0 +1,697 @@
+// Classroom Service
+// Teacher-owned classes, rosters (email invites and join codes) and class-assigned tests
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  TestId,
+  ClassId,
+  AssignmentId,
+  Curriculum,
+  Classroom,
+  ClassroomDetail,
+  ClassStudent,
+  ClassInvite,
+  TestAssignment,
+  AssignableTest,
+  AssignmentWindowStatus,
+  StudentAssignment,
+  AssignmentResult,
+  ClassroomError,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+
+// Unambiguous characters only (no 0/O, 1/I/L) so codes can be read out in class
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 6;
+const JOIN_CODE_ATTEMPTS = 5;
+
+export type CreateClassInput = {
+  name: string;
+  subject?: string;
+  curriculum?: Curriculum;
+  grade?: number;
+};
+
+/**
+ * Generate a random class join code
+ */
+export function generateJoinCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < JOIN_CODE_LENGTH; i++) {
+    code += JOIN_CODE_ALPHABET[Math.floor(random() * JOIN_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Where an assignment's open/close window stands at a given time
+ */
+export function getWindowStatus(
+  window: { opensAt: Date; closesAt: Date },
+  now: Date = new Date()
+): AssignmentWindowStatus {
+  if (now < window.opensAt) {
+    return 'Upcoming';
+  }
+  if (now > window.closesAt) {
+    return 'Closed';
+  }
+  return 'Open';
+}
+
+export class ClassroomService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  // ==========================================================================
+  // Teacher operations
+  // ==========================================================================
+
+  /**
+   * Create a class with a unique join code
+   */
+  async createClass(teacherId: UserId, input: CreateClassInput): Promise<Classroom> {
+    let joinCode = generateJoinCode();
+    for (let attempt = 1; attempt < JOIN_CODE_ATTEMPTS; attempt++) {
+      const existing = await this.prisma.class.findUnique({ where: { joinCode } });
+      if (!existing) {
+        break;
+      }
+      joinCode = generateJoinCode();
+    }
+
+    const row = await this.prisma.class.create({
+      data: {
+        teacherId,
+        name: input.name,
+        subject: input.subject,
+        curriculum: input.curriculum,
+        grade: input.grade,
+        joinCode,
+      },
+    });
+
+    return this.toClassroom({ ...row, _count: { members: 0 } });
+  }
+
+  /**
+   * List classes taught by a teacher, newest first
+   */
+  async listTeacherClasses(teacherId: UserId): Promise<Classroom[]> {
+    const rows = await this.prisma.class.findMany({
+      where: { teacherId },
+      include: { _count: { select: { members: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return rows.map((row: ClassRow) => this.toClassroom(row));
+  }
+
+  /**
+   * Get a class with its roster, pending invites and assignments
+   */
+  async getClassDetail(
+    classId: ClassId,
+    teacherId: UserId
+  ): Promise<Result<ClassroomDetail, NotFoundError | ClassroomError>> {
+    const ownership = await this.findOwnedClass(classId, teacherId);
+    if (!ownership.ok) {
+      return ownership;
+    }
+
+    const row = await this.prisma.class.findUnique({
+      where: { id: classId },
+      include: {
+        _count: { select: { members: true } },
+        members: {
+          include: { user: { select: { id: true, email: true, name: true } } },
+          orderBy: { joinedAt: 'asc' },
+        },
+        invites: {
+          where: { status: 'Pending' },
+          orderBy: { createdAt: 'desc' },
+        },
+        assignments: {
+          include: { test: { include: { _count: { select: { testQuestions: true } } } } },
+          orderBy: { opensAt: 'desc' },
+        },
+      },
+    });
+
+    const students: ClassStudent[] = row.members.map((member: MemberRow) => ({
+      userId: member.user.id,
+      email: member.user.email,
+      name: member.user.name || undefined,
+      joinedAt: member.joinedAt,
+    }));
+
+    return Ok({
+      ...this.toClassroom(row),
+      students,
+      pendingInvites: row.invites.map((invite: InviteRow) => this.toInvite({ ...invite, class: { name: row.name } })),
+      assignments: row.assignments.map((assignment: AssignmentRow) => this.toAssignment(assignment)),
+    });
+  }
+
+  /**
+   * Invite a student by email; the student accepts the invite after signing in
+   */
+  async inviteStudent(
+    classId: ClassId,
+    teacherId: UserId,
+    email: string
+  ): Promise<Result<ClassInvite, NotFoundError | ClassroomError>> {
+    const ownership = await this.findOwnedClass(classId, teacherId);
+    if (!ownership.ok) {
+      return ownership;
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const existingMember = await this.prisma.classMember.findFirst({
+      where: { classId, user: { email: normalizedEmail } },
+    });
+    if (existingMember) {
+      return Err({ type: 'AlreadyMember', classId });
+    }
+
+    const invite = await this.prisma.classInvite.upsert({
+      where: { classId_email: { classId, email: normalizedEmail } },
+      update: {},
+      create: { classId, email: normalizedEmail },
+    });
+
+    return Ok(this.toInvite({ ...invite, class: { name: ownership.value.name } }));
+  }
+
+  /**
+   * Remove a student from the class roster
+   */
+  async removeStudent(
+    classId: ClassId,
+    teacherId: UserId,
+    userId: UserId
+  ): Promise<Result<void, NotFoundError | ClassroomError>> {
+    const ownership = await this.findOwnedClass(classId, teacherId);
+    if (!ownership.ok) {
+      return ownership;
+    }
+
+    const { count } = await this.prisma.classMember.deleteMany({
+      where: { classId, userId },
+    });
+    if (count === 0) {
+      return Err({ type: 'NotAMember', classId });
+    }
+
+    return Ok(undefined);
+  }
+
+  /**
+   * The teacher's own in-app exams, excluding student copies of assignments
+   */
+  async listAssignableTests(teacherId: UserId): Promise<AssignableTest[]> {
+    const tests = await this.prisma.test.findMany({
+      where: { userId: teacherId, mode: 'InAppExam', assignmentId: null },
+      include: { _count: { select: { testQuestions: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return tests.map((test: { id: string; subject: string; createdAt: Date; _count: { testQuestions: number } }) => ({
+      testId: test.id,
+      subject: test.subject,
+      questionCount: test._count.testQuestions,
+      createdAt: test.createdAt,
+    }));
+  }
+
+  /**
+   * Assign one of the teacher's InAppExam tests to the whole class
+   */
+  async createAssignment(
+    classId: ClassId,
+    teacherId: UserId,
+    testId: TestId,
+    window: { opensAt: Date; closesAt: Date }
+  ): Promise<Result<TestAssignment, NotFoundError | ClassroomError>> {
+    const ownership = await this.findOwnedClass(classId, teacherId);
+    if (!ownership.ok) {
+      return ownership;
+    }
+
+    if (window.closesAt <= window.opensAt) {
+      return Err({ type: 'InvalidWindow', message: 'The assignment must close after it opens' });
+    }
+
+    const test = await this.prisma.test.findUnique({ where: { id: testId } });
+    if (!test) {
+      return Err({ type: 'NotFound', resource: 'Test', id: testId });
+    }
+    if (test.userId !== teacherId) {
+      return Err({ type: 'Forbidden', message: 'You can only assign tests you generated' });
+    }
+    if (test.mode !== 'InAppExam') {
+      return Err({ type: 'Forbidden', message: 'Only in-app exams can be assigned to a class' });
+    }
+
+    const row = await this.prisma.testAssignment.create({
+      data: {
+        classId,
+        testId,
+        opensAt: window.opensAt,
+        closesAt: window.closesAt,
+      },
+      include: { test: { include: { _count: { select: { testQuestions: true } } } } },
+    });
+
+    return Ok(this.toAssignment(row));
+  }
+
+  /**
+   * Each student's progress and evaluation for an assignment, including students who have not started
+   */
+  async getAssignmentResults(
+    assignmentId: AssignmentId,
+    teacherId: UserId
+  ): Promise<Result<AssignmentResult[], NotFoundError | ClassroomError>> {
+    const assignment = await this.prisma.testAssignment.findUnique({
+      where: { id: assignmentId },
+      include: {
+        class: {
+          include: {
+            members: {
+              include: { user: { select: { id: true, email: true, name: true } } },
+              orderBy: { joinedAt: 'asc' },
+            },
+          },
+        },
+        copies: {
+          include: {
+            evaluations: { include: { topicScores: true } },
+          },
+        },
+      },
+    });
+
+    if (!assignment) {
+      return Err({ type: 'NotFound', resource: 'TestAssignment', id: assignmentId });
+    }
+    if (assignment.class.teacherId !== teacherId) {
+      return Err({ type: 'Forbidden', message: 'You can only view results for your own classes' });
+    }
+
+    const copiesByUser = new Map<UserId, CopyRow>(
+      assignment.copies.map((copy: CopyRow) => [copy.userId, copy])
+    );
+
+    const results: AssignmentResult[] = assignment.class.members.map((member: MemberRow) => {
+      const copy = copiesByUser.get(member.user.id);
+      const evaluation = copy?.evaluations[0];
+
+      return {
+        userId: member.user.id,
+        email: member.user.email,
+        name: member.user.name || undefined,
+        status: !copy ? 'NotStarted' : evaluation ? 'Submitted' : 'InProgress',
+        testId: copy?.id,
+        evaluation: evaluation
+          ? {
+              evaluationId: evaluation.id,
+              overallScore: evaluation.overallScore,
+              correctCount: evaluation.correctCount,
+              totalCount: evaluation.totalCount,
+              evaluatedAt: evaluation.evaluatedAt,
+              topicScores: evaluation.topicScores.map((score: TopicScoreRow) => ({
+                topicId: score.topicId,
+                topicName: score.topicName,
+                correct: score.correct,
+                total: score.total,
+                percentage: score.percentage,
+              })),
+            }
+          : undefined,
+      };
+    });
+
+    return Ok(results);
+  }
+
+  // ==========================================================================
+  // Student operations
+  // ==========================================================================
+
+  /**
+   * Join a class using its join code
+   */
+  async joinByCode(userId: UserId, code: string): Promise<Result<Classroom, ClassroomError>> {
+    const joinCode = code.trim().toUpperCase();
+    const row = await this.prisma.class.findUnique({
+      where: { joinCode },
+      include: { _count: { select: { members: true } } },
+    });
+
+    if (!row) {
+      return Err({ type: 'InvalidJoinCode', code: joinCode });
+    }
+
+    return this.addMember(row, userId);
+  }
+
+  /**
+   * Pending invites addressed to a student's email
+   */
+  async listInvites(email: string): Promise<ClassInvite[]> {
+    const invites = await this.prisma.classInvite.findMany({
+      where: { email: email.trim().toLowerCase(), status: 'Pending' },
+      include: { class: { select: { name: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invites.map((invite: InviteRow) => this.toInvite(invite));
+  }
+
+  /**
+   * Accept an invite; only the invited email address can accept it
+   */
+  async acceptInvite(
+    inviteId: string,
+    userId: UserId,
+    email: string
+  ): Promise<Result<Classroom, NotFoundError | ClassroomError>> {
+    const invite = await this.prisma.classInvite.findUnique({
+      where: { id: inviteId },
+      include: { class: { include: { _count: { select: { members: true } } } } },
+    });
+
+    if (!invite || invite.status !== 'Pending') {
+      return Err({ type: 'NotFound', resource: 'ClassInvite', id: inviteId });
+    }
+    if (invite.email !== email.trim().toLowerCase()) {
+      return Err({ type: 'Forbidden', message: 'This invite was sent to a different email address' });
+    }
+
+    const joined = await this.addMember(invite.class, userId);
+    if (!joined.ok && joined.error.type !== 'AlreadyMember') {
+      return joined;
+    }
+
+    await this.prisma.classInvite.update({
+      where: { id: inviteId },
+      data: { status: 'Accepted', acceptedAt: new Date() },
+    });
+
+    return joined.ok ? joined : Ok(this.toClassroom(invite.class));
+  }
+
+  /**
+   * Classes a student belongs to
+   */
+  async listStudentClasses(userId: UserId): Promise<Classroom[]> {
+    const memberships = await this.prisma.classMember.findMany({
+      where: { userId },
+      include: { class: { include: { _count: { select: { members: true } } } } },
+      orderBy: { joinedAt: 'desc' },
+    });
+
+    return memberships.map((membership: { class: ClassRow }) => this.toClassroom(membership.class));
+  }
+
+  /**
+   * Assignments across all of a student's classes, with their own progress
+   */
+  async listStudentAssignments(userId: UserId): Promise<StudentAssignment[]> {
+    const rows = await this.prisma.testAssignment.findMany({
+      where: { class: { members: { some: { userId } } } },
+      include: {
+        class: { select: { name: true } },
+        test: { include: { _count: { select: { testQuestions: true } } } },
+        copies: {
+          where: { userId },
+          include: { evaluations: { select: { overallScore: true } } },
+        },
+      },
+      orderBy: { closesAt: 'asc' },
+    });
+
+    return rows.map((row: AssignmentRow & { class: { name: string }; copies: CopyRow[] }) => {
+      const copy = row.copies[0];
+      const evaluation = copy?.evaluations[0];
+      return {
+        ...this.toAssignment(row),
+        className: row.class.name,
+        studentTestId: copy?.id,
+        submitted: !!evaluation,
+        overallScore: evaluation?.overallScore,
+      };
+    });
+  }
+
+  /**
+   * Start (or resume) a student's attempt at an assignment
+   * The student gets their own copy of the teacher's test so sessions and
+   * evaluations remain per-student; returns the copy's test ID
+   */
+  async startAssignment(
+    assignmentId: AssignmentId,
+    userId: UserId,
+    now: Date = new Date()
+  ): Promise<Result<{ testId: TestId }, NotFoundError | ClassroomError>> {
+    const assignment = await this.prisma.testAssignment.findUnique({
+      where: { id: assignmentId },
+      include: {
+        test: { include: { testQuestions: { orderBy: { order: 'asc' } } } },
+      },
+    });
+
+    if (!assignment) {
+      return Err({ type: 'NotFound', resource: 'TestAssignment', id: assignmentId });
+    }
+
+    const membership = await this.prisma.classMember.findUnique({
+      where: { classId_userId: { classId: assignment.classId, userId } },
+    });
+    if (!membership) {
+      return Err({ type: 'NotAMember', classId: assignment.classId });
+    }
+
+    const existing = await this.prisma.test.findUnique({
+      where: { assignmentId_userId: { assignmentId, userId } },
+    });
+    if (existing) {
+      return Ok({ testId: existing.id });
+    }
+
+    const windowError = this.checkWindow(assignment, now);
+    if (windowError) {
+      return Err(windowError);
+    }
+
+    const source = assignment.test;
+    const copy = await this.prisma.test.create({
+      data: {
+        userId,
+        assignmentId,
+        subject: source.subject,
+        topics: source.topics,
+        mode: source.mode,
+        status: 'Generated',
+        timerMinutes: source.timerMinutes,
+        difficulty: source.difficulty,
+        blueprint: source.blueprint,
+        questionPaperPDF: source.questionPaperPDF,
+        answerKeyPDF: source.answerKeyPDF,
+        testQuestions: {
+          create: source.testQuestions.map((testQuestion: { questionId: string; order: number; marks: number; section: string | null }) => ({
+            questionId: testQuestion.questionId,
+            order: testQuestion.order,
+            marks: testQuestion.marks,
+            section: testQuestion.section,
+          })),
+        },
+      },
+    });
+
+    return Ok({ testId: copy.id });
+  }
+
+  /**
+   * Reject starting or submitting a student's assignment copy outside its window
+   * Tests that are not part of an assignment always pass
+   */
+  async checkAssignmentWindow(
+    testId: TestId,
+    now: Date = new Date()
+  ): Promise<Result<void, ClassroomError>> {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      include: { assignment: true },
+    });
+
+    if (!test?.assignment) {
+      return Ok(undefined);
+    }
+
+    const windowError = this.checkWindow(test.assignment, now);
+    return windowError ? Err(windowError) : Ok(undefined);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  private checkWindow(
+    window: { opensAt: Date; closesAt: Date },
+    now: Date
+  ): ClassroomError | null {
+    const status = getWindowStatus(window, now);
+    if (status === 'Upcoming') {
+      return { type: 'AssignmentNotOpen', opensAt: window.opensAt };
+    }
+    if (status === 'Closed') {
+      return { type: 'AssignmentClosed', closesAt: window.closesAt };
+    }
+    return null;
+  }
+
+  private async findOwnedClass(
+    classId: ClassId,
+    teacherId: UserId
+  ): Promise<Result<{ id: string; name: string }, NotFoundError | ClassroomError>> {
+    const row = await this.prisma.class.findUnique({
+      where: { id: classId },
+      select: { id: true, name: true, teacherId: true },
+    });
+
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'Class', id: classId });
+    }
+    if (row.teacherId !== teacherId) {
+      return Err({ type: 'Forbidden', message: 'You can only manage your own classes' });
+    }
+
+    return Ok({ id: row.id, name: row.name });
+  }
+
+  private async addMember(row: ClassRow, userId: UserId): Promise<Result<Classroom, ClassroomError>> {
+    if (row.teacherId === userId) {
+      return Err({ type: 'Forbidden', message: 'Teachers cannot join their own class as a student' });
+    }
+
+    const existing = await this.prisma.classMember.findUnique({
+      where: { classId_userId: { classId: row.id, userId } },
+    });
+    if (existing) {
+      return Err({ type: 'AlreadyMember', classId: row.id });
+    }
+
+    await this.prisma.classMember.create({
+      data: { classId: row.id, userId },
+    });
+
+    return Ok(this.toClassroom({ ...row, _count: { members: row._count.members + 1 } }));
+  }
+
+  private toClassroom(row: ClassRow): Classroom {
+    return {
+      classId: row.id,
+      teacherId: row.teacherId,
+      name: row.name,
+      subject: row.subject || undefined,
+      curriculum: (row.curriculum as Curriculum) || undefined,
+      grade: row.grade ?? undefined,
+      joinCode: row.joinCode,
+      studentCount: row._count.members,
+      createdAt: row.createdAt,
+    };
+  }
+
+  private toInvite(row: InviteRow): ClassInvite {
+    return {
+      inviteId: row.id,
+      classId: row.classId,
+      className: row.class.name,
+      email: row.email,
+      status: row.status as ClassInvite['status'],
+      createdAt: row.createdAt,
+    };
+  }
+
+  private toAssignment(row: AssignmentRow): TestAssignment {
+    return {
+      assignmentId: row.id,
+      classId: row.classId,
+      testId: row.testId,
+      subject: row.test.subject,
+      questionCount: row.test._count.testQuestions,
+      opensAt: row.opensAt,
+      closesAt: row.closesAt,
+      status: getWindowStatus(row),
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+// Row shapes returned by the Prisma queries above
+type ClassRow = {
+  id: string;
+  teacherId: string;
+  name: string;
+  subject: string | null;
+  curriculum: string | null;
+  grade: number | null;
+  joinCode: string;
+  createdAt: Date;
+  _count: { members: number };
+};
+
+type MemberRow = {
+  joinedAt: Date;
+  user: { id: string; email: string; name: string | null };
+};
+
+type InviteRow = {
+  id: string;
+  classId: string;
+  email: string;
+  status: string;
+  createdAt: Date;
+  class: { name: string };
+};
+
+type AssignmentRow = {
+  id: string;
+  classId: string;
+  testId: string;
+  opensAt: Date;
+  closesAt: Date;
+  createdAt: Date;
+  test: { subject: string; _count: { testQuestions: number } };
+};
+
+type CopyRow = {
+  id: string;
+  userId: string;
+  evaluations: Array<{
+    id: string;
+    overallScore: number;
+    correctCount: number;
+    totalCount: number;
+    evaluatedAt: Date;
+    topicScores: TopicScoreRow[];
+  }>;
+};
+
+type TopicScoreRow = {
+  topicId: string;
+  topicName: string;
+  correct: number;
+  total: number;
+  percentage: number;
+};
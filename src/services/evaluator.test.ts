@@ -13,7 +13,19 @@ const mockPrisma = {
   evaluation: {
     create: vi.fn(),
     findUnique: vi.fn(),
+    update: vi.fn(),
   },
+  testSession: {
+    findFirst: vi.fn(),
+  },
+  shortAnswerGrade: {
+    createMany: vi.fn(),
+    findMany: vi.fn(),
+  },
+  gradeOverride: {
+    findMany: vi.fn().mockResolvedValue([]),
+  },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
 } as unknown as PrismaClient;
 
 describe('EvaluatorService', () => {
@@ -56,6 +68,37 @@ describe('EvaluatorService', () => {
       expect(evaluator.compareAnswers('abc', '42', 'Numerical')).toBe(false);
       expect(evaluator.compareAnswers('42', 'abc', 'Numerical')).toBe(false);
     });
+
+    it('should treat a fraction, a decimal and their LaTeX as the same numerical answer', () => {
+      expect(evaluator.compareAnswers('1/2', '0.5', 'Numerical')).toBe(true);
+      expect(evaluator.compareAnswers('0.5', '\\(\\frac{1}{2}\\)', 'Numerical')).toBe(true);
+      expect(evaluator.compareAnswers('2/3', '0.5', 'Numerical')).toBe(false);
+      expect(evaluator.compareAnswers('\\(x^{2}\\)', 'x^2', 'ShortAnswer')).toBe(true);
+    });
+
+    it('should compare a stored numerical answer as a number', () => {
+      expect(evaluator.scoreResponse('1/2', JSON.stringify(['0.50']), 'Numerical', 2))
+        .toEqual({ isCorrect: true, pointsEarned: 2 });
+      expect(evaluator.scoreResponse('0.6', JSON.stringify(['0.50']), 'Numerical', 2))
+        .toEqual({ isCorrect: false, pointsEarned: 0 });
+    });
+
+    it('should convert units and read percentages in numerical answers', () => {
+      expect(evaluator.compareAnswers('50 cm', '0.5 m', 'Numerical')).toBe(true);
+      expect(evaluator.compareAnswers('50%', '0.5', 'Numerical')).toBe(true);
+      expect(evaluator.compareAnswers('0.5 kg', '0.5 m', 'Numerical')).toBe(false);
+      // Decimals are not mistaken for option labels ("2." in "2.5")
+      expect(evaluator.compareAnswers('2.5', '1.5', 'Numerical')).toBe(false);
+    });
+
+    it('should mark a numerical answer with the question tolerance', () => {
+      const stored = JSON.stringify(['149597871 km']);
+      const relative = { type: 'Relative' as const, amount: 0.01 };
+
+      expect(evaluator.scoreResponse('1.5e8 km', stored, 'Numerical').isCorrect).toBe(false);
+      expect(evaluator.scoreResponse('1.5e8 km', stored, 'Numerical', 1, relative).isCorrect).toBe(true);
+      expect(evaluator.scoreResponse('1.4e8 km', stored, 'Numerical', 1, relative).isCorrect).toBe(false);
+    });
   });
 
   describe('evaluateTest', () => {
@@ -189,6 +232,157 @@ describe('EvaluatorService', () => {
       }
     });
 
+    it('should weight the overall and topic scores by the marks of each question', async () => {
+      const testId = 'test-1';
+      const question = (id: string, topicId: string, topicName: string) => ({
+        id,
+        topicId,
+        correctAnswers: JSON.stringify(['A']),
+        questionType: 'MultipleChoice',
+        topic: { topicName },
+      });
+
+      (mockPrisma.test.findUnique as any).mockResolvedValue({
+        id: testId,
+        testQuestions: [
+          { marks: 1, question: question('q1', 'topic-1', 'Algebra') },
+          { marks: 5, question: question('q2', 'topic-1', 'Algebra') },
+          { marks: 3, question: question('q3', 'topic-2', 'Geometry') },
+          { marks: 1, question: question('q4', 'topic-2', 'Geometry') },
+        ],
+      });
+      (mockPrisma.evaluation.create as any).mockResolvedValue({});
+
+      const submission: TestSubmission = {
+        sessionId: 'session-1',
+        testId,
+        responses: new Map([
+          ['q1', { questionId: 'q1', answer: 'B', answeredAt: new Date() }],
+          ['q2', { questionId: 'q2', answer: 'A', answeredAt: new Date() }],
+          ['q3', { questionId: 'q3', answer: 'B', answeredAt: new Date() }],
+          ['q4', { questionId: 'q4', answer: 'A', answeredAt: new Date() }],
+        ]),
+        submittedAt: new Date(),
+      };
+
+      const result = await evaluator.evaluateTest(submission);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        // 6 of 10 marks, though only 2 of 4 questions are right
+        expect(result.value.overallScore).toBe(60);
+        expect(result.value.correctCount).toBe(2);
+        expect(result.value.topicScores.find(ts => ts.topicId === 'topic-1')?.percentage).toBeCloseTo(500 / 6);
+        expect(result.value.topicScores.find(ts => ts.topicId === 'topic-2')?.percentage).toBe(25);
+      }
+    });
+
+    it('should grade short answers against their rubric and hold uncertain grades for review', async () => {
+      const testId = 'test-1';
+      const rubric = [
+        { point: 'Plants make food from sunlight', marks: 1, keywords: ['sunlight/light'] },
+        { point: 'They release oxygen', marks: 1, keywords: ['oxygen'] },
+      ];
+      const question = (id: string) => ({
+        id,
+        topicId: 'topic-1',
+        questionText: 'What is photosynthesis?',
+        correctAnswers: JSON.stringify(['Plants use sunlight to make food and release oxygen']),
+        questionType: 'ShortAnswer',
+        rubric: JSON.stringify(rubric),
+        topic: { topicName: 'Plants' },
+      });
+      (mockPrisma.test.findUnique as any).mockResolvedValue({
+        id: testId,
+        testQuestions: [
+          { marks: 2, question: question('q1') },
+          { marks: 2, question: question('q2') },
+        ],
+      });
+      (mockPrisma.evaluation.create as any).mockResolvedValue({});
+      const gradeAnswer = vi.fn()
+        .mockResolvedValueOnce({ pointsEarned: 2, matchedPoints: [0, 1], confidence: 0.9, method: 'LLM' })
+        .mockResolvedValueOnce({ pointsEarned: 1, matchedPoints: [0], confidence: 0.4, method: 'LLM', feedback: 'Mention oxygen' });
+      const gradingEvaluator = new EvaluatorService(mockPrisma, { gradeAnswer });
+
+      const result = await gradingEvaluator.evaluateTest({
+        sessionId: 'session-1',
+        testId,
+        responses: new Map([
+          ['q1', { questionId: 'q1', answer: 'They use light to make food, giving off oxygen', answeredAt: new Date() }],
+          ['q2', { questionId: 'q2', answer: 'They make food from sunlight', answeredAt: new Date() }],
+        ]),
+        submittedAt: new Date(),
+      });
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        // 3 of 4 marks; only the fully marked answer counts as correct
+        expect(result.value.overallScore).toBe(75);
+        expect(result.value.correctCount).toBe(1);
+      }
+      expect(gradeAnswer.mock.calls[0][0]).toMatchObject({ questionText: 'What is photosynthesis?', rubric });
+      expect(gradeAnswer.mock.calls[0][2]).toBe(2);
+      const rows = (mockPrisma.shortAnswerGrade.createMany as any).mock.calls[0][0].data;
+      expect(rows.map((row: any) => [row.questionId, row.pointsEarned, row.reviewStatus])).toEqual([
+        ['q1', 2, 'Automatic'],
+        ['q2', 1, 'PendingReview'],
+      ]);
+      expect(rows[1]).toMatchObject({ matchedPoints: '[0]', feedback: 'Mention oxygen', points: 2 });
+      const stored = (mockPrisma.evaluation.create as any).mock.calls[0][0].data.responseGrades.create;
+      expect(stored[1]).toMatchObject({ questionId: 'q2', isCorrect: false, pointsEarned: 1, grader: 'LLM', feedback: 'Mention oxygen' });
+      // Written together, so a failed evaluation leaves no grades behind to block a retry
+      const [operations] = (mockPrisma.$transaction as any).mock.calls[0];
+      expect(operations).toHaveLength(2);
+    });
+
+    it('should store how each response was marked', async () => {
+      const question = (id: string, questionType: string, correctAnswers: string[]) => ({
+        id,
+        topicId: 'topic-1',
+        correctAnswers: JSON.stringify(correctAnswers),
+        questionType,
+        answerTolerance: null,
+        topic: { topicName: 'Fractions' },
+      });
+      (mockPrisma.test.findUnique as any).mockResolvedValue({
+        id: 'test-1',
+        testQuestions: [
+          { marks: 1, question: question('q1', 'MultipleChoice', ['1/2']) },
+          { marks: 2, question: question('q2', 'Numerical', ['0.75']) },
+          { marks: 2, question: question('q3', 'Ordering', ['1/4', '1/2', '3/4']) },
+        ],
+      });
+      (mockPrisma.evaluation.create as any).mockResolvedValue({});
+
+      const result = await evaluator.evaluateTest({
+        sessionId: 'session-1',
+        testId: 'test-1',
+        responses: new Map([
+          ['q2', { questionId: 'q2', answer: '3/4', answeredAt: new Date() }],
+          ['q3', { questionId: 'q3', answer: JSON.stringify(['1/2', '1/4', '3/4']), answeredAt: new Date() }],
+        ]),
+        submittedAt: new Date(),
+      });
+
+      const stored = (mockPrisma.evaluation.create as any).mock.calls[0][0].data.responseGrades.create;
+      expect(stored).toEqual([
+        { questionId: 'q1', order: 0, userAnswer: null, isCorrect: false, points: 1, pointsEarned: 0, grader: 'AnswerKey', feedback: null },
+        { questionId: 'q2', order: 1, userAnswer: '3/4', isCorrect: true, points: 2, pointsEarned: 2, grader: 'Numerical', feedback: null },
+        {
+          questionId: 'q3',
+          order: 2,
+          userAnswer: JSON.stringify(['1/2', '1/4', '3/4']),
+          isCorrect: false,
+          points: 2,
+          pointsEarned: 2 / 3,
+          grader: 'PartCredit',
+          feedback: null,
+        },
+      ]);
+      expect(result.ok && result.value.responseGrades?.map(grade => grade.isCorrect)).toEqual([false, true, false]);
+    });
+
     it('should handle empty responses', async () => {
       const testId = 'test-1';
       
@@ -246,6 +440,150 @@ describe('EvaluatorService', () => {
     });
   });
 
+  describe('reevaluateTest', () => {
+    it('should re-score the submitted answers against the corrected key and replace the topic scores', async () => {
+      (mockPrisma.test.findUnique as any).mockResolvedValue({
+        id: 'test-1',
+        userId: 'user-1',
+        mode: 'InAppExam',
+        testQuestions: [
+          {
+            question: {
+              id: 'q1',
+              topicId: 'topic-1',
+              correctAnswers: JSON.stringify(['B']), // corrected from 'A'
+              questionType: 'MultipleChoice',
+              topic: { topicName: 'Algebra' },
+            },
+          },
+          {
+            question: {
+              id: 'q2',
+              topicId: 'topic-1',
+              correctAnswers: JSON.stringify(['C']),
+              questionType: 'MultipleChoice',
+              topic: { topicName: 'Algebra' },
+            },
+          },
+        ],
+      });
+      (mockPrisma.evaluation.findUnique as any).mockResolvedValue({
+        id: 'eval-1',
+        overallScore: 50,
+        evaluatedAt: new Date('2026-03-01T10:00:00Z'),
+      });
+      (mockPrisma.testSession.findFirst as any).mockResolvedValue({
+        responses: [
+          { questionId: 'q1', userAnswer: 'B', answeredAt: new Date() },
+          { questionId: 'q2', userAnswer: 'C', answeredAt: new Date() },
+        ],
+      });
+
+      const result = await evaluator.reevaluateTest('test-1');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.previousScore).toBe(50);
+        expect(result.value.evaluation).toMatchObject({ evaluationId: 'eval-1', overallScore: 100, correctCount: 2 });
+      }
+      const update = (mockPrisma.evaluation.update as any).mock.calls[0][0];
+      expect(update.where).toEqual({ testId: 'test-1' });
+      expect(update.data.topicScores).toEqual({
+        deleteMany: {},
+        create: [{ topicId: 'topic-1', topicName: 'Algebra', correct: 2, total: 2, percentage: 100 }],
+      });
+      expect(update.data.reevaluatedAt).toBeInstanceOf(Date);
+      expect(update.data.responseGrades.deleteMany).toEqual({});
+      expect(update.data.responseGrades.create.map((grade: any) => grade.isCorrect)).toEqual([true, true]);
+    });
+
+    it('should keep the stored short answer grades when re-scoring', async () => {
+      (mockPrisma.test.findUnique as any).mockResolvedValue({
+        id: 'test-1',
+        userId: 'user-1',
+        testQuestions: [
+          {
+            marks: 3,
+            question: {
+              id: 'q1',
+              topicId: 'topic-1',
+              correctAnswers: JSON.stringify(['Evaporation, condensation and precipitation']),
+              questionType: 'ShortAnswer',
+              topic: { topicName: 'Water Cycle' },
+            },
+          },
+        ],
+      });
+      (mockPrisma.evaluation.findUnique as any).mockResolvedValue({ id: 'eval-1', overallScore: 0, evaluatedAt: new Date() });
+      (mockPrisma.testSession.findFirst as any).mockResolvedValue({
+        responses: [{ questionId: 'q1', userAnswer: 'Water evaporates and falls as rain', answeredAt: new Date() }],
+      });
+      // A teacher has reviewed the answer and given 2 of the 3 marks
+      (mockPrisma.shortAnswerGrade.findMany as any).mockResolvedValue([
+        { questionId: 'q1', pointsEarned: 2, method: 'Keyword', feedback: null, reviewStatus: 'Reviewed' },
+      ]);
+
+      const result = await evaluator.reevaluateTest('test-1');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.evaluation.overallScore).toBeCloseTo(200 / 3);
+        expect(result.value.evaluation.responseGrades?.[0]).toMatchObject({ pointsEarned: 2, grader: 'Teacher' });
+      }
+    });
+
+    it('should apply the latest teacher override of a response when re-scoring', async () => {
+      (mockPrisma.test.findUnique as any).mockResolvedValue({
+        id: 'test-1',
+        userId: 'user-1',
+        testQuestions: [
+          {
+            marks: 2,
+            question: {
+              id: 'q1',
+              topicId: 'topic-1',
+              correctAnswers: JSON.stringify(['B']),
+              questionType: 'MultipleChoice',
+              topic: { topicName: 'Algebra' },
+            },
+          },
+        ],
+      });
+      (mockPrisma.evaluation.findUnique as any).mockResolvedValue({ id: 'eval-1', overallScore: 0, evaluatedAt: new Date() });
+      (mockPrisma.testSession.findFirst as any).mockResolvedValue({
+        responses: [{ questionId: 'q1', userAnswer: 'A', answeredAt: new Date() }],
+      });
+      (mockPrisma.gradeOverride.findMany as any).mockResolvedValueOnce([
+        { questionId: 'q1', pointsEarned: 2, reason: 'Both options are right', createdAt: new Date('2026-10-01T09:00:00Z') },
+        { questionId: 'q1', pointsEarned: 1, reason: 'Working shown but option misread', createdAt: new Date('2026-10-02T09:00:00Z') },
+      ]);
+
+      const result = await evaluator.reevaluateTest('test-1');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.evaluation.overallScore).toBe(50);
+        expect(result.value.evaluation.responseGrades?.[0]).toMatchObject({
+          isCorrect: false,
+          pointsEarned: 1,
+          grader: 'Teacher',
+          feedback: 'Working shown but option misread',
+        });
+      }
+    });
+
+    it('should fail for a test that was never evaluated', async () => {
+      (mockPrisma.test.findUnique as any).mockResolvedValue({ id: 'test-1', testQuestions: [] });
+      (mockPrisma.evaluation.findUnique as any).mockResolvedValue(null);
+      (mockPrisma.testSession.findFirst as any).mockResolvedValue(null);
+
+      const result = await evaluator.reevaluateTest('test-1');
+
+      expect(result.ok).toBe(false);
+      expect(mockPrisma.evaluation.update).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getEvaluation', () => {
     it('should retrieve existing evaluation', async () => {
       const mockEvaluation = {
@@ -276,9 +614,35 @@ describe('EvaluatorService', () => {
         expect(result.value.evaluationId).toBe('eval-1');
         expect(result.value.overallScore).toBe(75);
         expect(result.value.topicScores).toHaveLength(1);
+        expect(result.value.responseGrades).toBeUndefined();
       }
     });
 
+    it('should return how each response was marked', async () => {
+      (mockPrisma.evaluation.findUnique as any).mockResolvedValue({
+        id: 'eval-1',
+        testId: 'test-1',
+        userId: 'user-1',
+        overallScore: 50,
+        correctCount: 1,
+        totalCount: 2,
+        evaluatedAt: new Date(),
+        topicScores: [],
+        responseGrades: [
+          { questionId: 'q1', userAnswer: 'A', isCorrect: true, points: 1, pointsEarned: 1, grader: 'AnswerKey', feedback: null },
+          { questionId: 'q2', userAnswer: null, isCorrect: false, points: 1, pointsEarned: 0, grader: 'AnswerKey', feedback: null },
+        ],
+      });
+
+      const result = await evaluator.getEvaluation('test-1');
+
+      expect((mockPrisma.evaluation.findUnique as any).mock.calls[0][0].include.responseGrades).toEqual({ orderBy: { order: 'asc' } });
+      expect(result.ok && result.value.responseGrades).toEqual([
+        { questionId: 'q1', userAnswer: 'A', isCorrect: true, points: 1, pointsEarned: 1, grader: 'AnswerKey' },
+        { questionId: 'q2', isCorrect: false, points: 1, pointsEarned: 0, grader: 'AnswerKey' },
+      ]);
+    });
+
     it('should return error if evaluation not found', async () => {
       (mockPrisma.evaluation.findUnique as any).mockResolvedValue(null);
 
@@ -388,4 +752,34 @@ describe('EvaluatorService', () => {
       expect(evaluator.compareAnswers(userAnswers, correctAnswers, 'MultipleChoice')).toBe(true);
     });
   });
+
+  describe('part-marked question types', () => {
+    it('should give credit for each correct match or position', () => {
+      expect(evaluator.calculatePartCredit(['3', '5', '4'], ['3', '4', '5'], 'Matching', 3)).toBe(1);
+      expect(evaluator.calculatePartCredit(['b', 'a', 'c'], ['a', 'b', 'c'], 'Ordering')).toBeCloseTo(1 / 3);
+      expect(evaluator.calculatePartCredit([], ['a', 'b'], 'Ordering')).toBe(0);
+    });
+
+    it('should accept any alternative or equal number in a blank', () => {
+      const correct = ['Delhi|New Delhi', '0.5'];
+
+      expect(evaluator.calculatePartCredit(['new delhi', '0.50'], correct, 'FillInBlank')).toBe(1);
+      expect(evaluator.calculatePartCredit(['Mumbai', '.5'], correct, 'FillInBlank')).toBe(0.5);
+      expect(evaluator.calculatePartCredit(['', ''], correct, 'FillInBlank')).toBe(0);
+    });
+
+    it('should score saved JSON answers with partial credit', () => {
+      const correct = JSON.stringify(['Triangle', 'Square', 'Pentagon']);
+
+      expect(evaluator.scoreResponse(correct, correct, 'Ordering', 3)).toEqual({ isCorrect: true, pointsEarned: 3 });
+      expect(evaluator.scoreResponse(JSON.stringify(['Triangle', 'Pentagon', 'Square']), correct, 'Ordering', 3))
+        .toEqual({ isCorrect: false, pointsEarned: 1 });
+      expect(evaluator.compareAnswers('["Triangle","Square"]', correct, 'Matching')).toBe(false);
+    });
+
+    it('should mark true/false answers like a single choice', () => {
+      expect(evaluator.compareAnswers('true', 'True', 'TrueFalse')).toBe(true);
+      expect(evaluator.compareAnswers('False', 'True', 'TrueFalse')).toBe(false);
+    });
+  });
 });
@@ -10,18 +10,33 @@ import {
   TopicId,
   EvaluationResult,
   TopicScore,
+  TopicAbilityEstimate,
+  ResponseGrade,
+  ResponseGraderType,
+  ShortAnswerGradingMethod,
   TestSubmission,
+  UserAnswer,
   QuestionType,
+  DifficultyLevel,
+  AnswerTolerance,
   Result,
   Ok,
   Err,
 } from '../types';
+import { estimateAbility, ScoredItem } from './adaptiveTesting';
+import { ShortAnswerGrader } from './interfaces';
+import { answerParts, blankAlternatives, isPartMarked, parseRubric } from '../lib/questionFormats';
+import { mathToText } from '../lib/mathNotation';
+import { numericAnswersMatch, parseAnswerTolerance, parseQuantity } from '../lib/numericAnswers';
+import { REVIEW_CONFIDENCE_THRESHOLD } from '../lib/constants';
 
 export class EvaluatorService {
   private prisma: PrismaClient;
+  private shortAnswerGrader?: ShortAnswerGrader;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, shortAnswerGrader?: ShortAnswerGrader) {
     this.prisma = prisma;
+    this.shortAnswerGrader = shortAnswerGrader;
   }
 
   /**
@@ -31,13 +46,19 @@ export class EvaluatorService {
    * Handles different question types with appropriate comparison logic
    * - Multiple choice: exact match (single answer) or array comparison (multiple answers)
    * - Short answer: case-insensitive, whitespace-tolerant
-   * - Numerical: exact match after normalization
+   * - Numerical: same value within the question's tolerance, converting units (see lib/numericAnswers.ts)
+   * - Matching, Ordering, FillInBlank: every part right (see calculatePartCredit)
    */
   compareAnswers(
     userAnswer: string | string[],
     correctAnswer: string | string[],
-    questionType: QuestionType
+    questionType: QuestionType,
+    tolerance?: AnswerTolerance
   ): boolean {
+    if (isPartMarked(questionType)) {
+      return this.calculatePartCredit(toParts(userAnswer), toParts(correctAnswer), questionType) === 1;
+    }
+
     // Handle array answers for multiple-answer questions
     if (Array.isArray(correctAnswer)) {
       const userAnswers = Array.isArray(userAnswer) ? userAnswer : [userAnswer];
@@ -53,6 +74,7 @@ export class EvaluatorService {
 
     switch (questionType) {
       case 'MultipleChoice':
+      case 'TrueFalse':
         // Exact match for multiple choice
         return normalizedUser === normalizedCorrect;
 
@@ -61,17 +83,9 @@ export class EvaluatorService {
         return normalizedUser === normalizedCorrect;
 
       case 'Numerical':
-        // Numerical comparison after normalization
-        const userNum = parseFloat(normalizedUser);
-        const correctNum = parseFloat(normalizedCorrect);
-        
-        // Check if both are valid numbers
-        if (isNaN(userNum) || isNaN(correctNum)) {
-          return normalizedUser === normalizedCorrect;
-        }
-        
-        // Allow small floating point tolerance
-        return Math.abs(userNum - correctNum) < 0.0001;
+        // Same quantity however it is written ("1/2", "0.5", "50%"; "50 cm" for "0.5 m");
+        // a stored answer parsed from JSON may be a number
+        return numericAnswersMatch(String(userStr), String(correctStr), tolerance);
 
       default:
         return normalizedUser === normalizedCorrect;
@@ -133,22 +147,122 @@ export class EvaluatorService {
     return creditRatio * points;
   }
 
+  /**
+   * Partial credit for questions marked part by part, as a share of points
+   * - Matching: each item paired with its correct match (answers are given in item order)
+   * - Ordering: each item in its correct position
+   * - FillInBlank: each blank filled with one of its accepted answers
+   */
+  calculatePartCredit(
+    userAnswers: string[],
+    correctAnswers: string[],
+    questionType: QuestionType,
+    points: number = 1
+  ): number {
+    if (correctAnswers.length === 0) {
+      return 0;
+    }
+
+    const partsRight = correctAnswers.filter((correct, index) => {
+      const given = userAnswers[index] ?? '';
+      if (questionType === 'FillInBlank') {
+        return blankAlternatives(correct).some(alternative => this.blankMatches(given, alternative));
+      }
+      return given !== '' && this.normalizeAnswer(given) === this.normalizeAnswer(correct);
+    }).length;
+
+    return (partsRight / correctAnswers.length) * points;
+  }
+
+  /**
+   * A blank accepts its answer text, or the same quantity written differently ("0.50" or "1/2" for "0.5")
+   */
+  private blankMatches(given: string, accepted: string): boolean {
+    const normalizedGiven = this.normalizeAnswer(given);
+    const normalizedAccepted = this.normalizeAnswer(accepted);
+    if (normalizedGiven === '') {
+      return false;
+    }
+    if (normalizedGiven === normalizedAccepted) {
+      return true;
+    }
+
+    return parseQuantity(given) !== null && numericAnswersMatch(given, accepted);
+  }
+
   /**
    * Normalize answer for comparison
    * Removes extra whitespace and converts to lowercase
    * Handles both string and array inputs
    * Strips option prefixes (A), B), C), D), etc.) for robust comparison
+   * Writes LaTeX out as plain text, so \(\frac{1}{2}\) matches a typed 1/2
    */
   private normalizeAnswer(answer: string | string[]): string {
     // Handle array input - take first element or join
     const answerStr = Array.isArray(answer) ? (answer[0] || '') : (answer || '');
     // Ensure it's a string before calling trim
-    const str = typeof answerStr === 'string' ? answerStr : String(answerStr);
+    const str = mathToText(typeof answerStr === 'string' ? answerStr : String(answerStr));
     // Strip option prefixes like "A)", "B)", "1)", "a.", etc.
     const withoutPrefix = str.replace(/^[A-Da-d1-4][\)\.\:\-]\s*/, '');
     return withoutPrefix.trim().toLowerCase().replace(/\s+/g, ' ');
   }
 
+  /**
+   * Score a stored response against a question's stored correct answers
+   * Both values may be JSON (arrays for multiple-answer questions) or plain strings;
+   * multiple-answer questions earn partial credit and count as correct only with full credit
+   * Numerical answers are marked with the question's tolerance, if it has one
+   */
+  scoreResponse(
+    userAnswer: string,
+    correctAnswers: string,
+    questionType: QuestionType,
+    points: number = 1,
+    tolerance?: AnswerTolerance
+  ): { isCorrect: boolean; pointsEarned: number } {
+    // Parse correctAnswers from JSON array
+    let correctAnswerParsed: string | string[];
+    try {
+      correctAnswerParsed = JSON.parse(correctAnswers);
+    } catch {
+      correctAnswerParsed = correctAnswers;
+    }
+
+    // Parse user answer if it's JSON
+    let userAnswerParsed: string | string[];
+    try {
+      userAnswerParsed = JSON.parse(userAnswer);
+    } catch {
+      userAnswerParsed = userAnswer;
+    }
+
+    // A typed numerical answer is stored as a one-item list; compare it as a number
+    if (questionType === 'Numerical' && Array.isArray(correctAnswerParsed) && correctAnswerParsed.length === 1) {
+      correctAnswerParsed = String(correctAnswerParsed[0]);
+    }
+
+    if (isPartMarked(questionType)) {
+      const pointsEarned = this.calculatePartCredit(
+        toParts(userAnswerParsed),
+        toParts(correctAnswerParsed),
+        questionType,
+        points
+      );
+      return { isCorrect: pointsEarned === points, pointsEarned };
+    }
+
+    if (Array.isArray(correctAnswerParsed)) {
+      // Multiple-answer question - calculate partial credit
+      const userAnswers = Array.isArray(userAnswerParsed) ? userAnswerParsed : [userAnswerParsed];
+      const pointsEarned = this.calculatePartialCredit(userAnswers, correctAnswerParsed, points);
+      return { isCorrect: pointsEarned === points, pointsEarned };
+    }
+
+    // Single-answer question - binary correct/incorrect
+    const isCorrect = this.compareAnswers(userAnswerParsed, correctAnswerParsed, questionType, tolerance);
+    return { isCorrect, pointsEarned: isCorrect ? points : 0 };
+  }
+
   /**
    * Evaluate a submitted test
    * Requirements: 8.1, 8.2, 8.3, 8.4, 8.5, P2 4.2, 4.6
@@ -193,94 +307,9 @@ export class EvaluatorService {
 
       // Get userId from the test record
       const userId = test.userId;
-
-      // Calculate overall score
-      let correctCount = 0;
-      let totalPoints = 0;
-      let earnedPoints = 0;
-      const totalCount = test.testQuestions.length;
-      const topicScoreMap = new Map<TopicId, { correct: number; total: number; name: string; points: number; earned: number }>();
-
-      // Evaluate each question
-      for (const tq of test.testQuestions) {
-        const question = tq.question;
-        const userResponse = responses.get(question.id);
-        const userAnswer = userResponse?.answer || '';
-        // Database field is 'correctAnswers' (plural, JSON array)
-        const correctAnswers = question.correctAnswers || '[]';
-        const questionType = question.questionType as QuestionType;
-        const questionPoints = 1; // Default 1 point per question
-
-        totalPoints += questionPoints;
-
-        // Handle multiple-answer questions with partial credit
-        let isCorrect = false;
-        let pointsEarned = 0;
-
-        // Parse correctAnswers from JSON array
-        let correctAnswerParsed: string | string[];
-        try {
-          correctAnswerParsed = JSON.parse(correctAnswers);
-        } catch {
-          correctAnswerParsed = correctAnswers;
-        }
-
-        // Parse user answer if it's JSON
-        let userAnswerParsed: string | string[];
-        try {
-          userAnswerParsed = JSON.parse(userAnswer);
-        } catch {
-          userAnswerParsed = userAnswer;
-        }
-
-        // Evaluate based on answer type
-        if (Array.isArray(correctAnswerParsed)) {
-          // Multiple-answer question - calculate partial credit
-          const userAnswers = Array.isArray(userAnswerParsed) ? userAnswerParsed : [userAnswerParsed];
-          pointsEarned = this.calculatePartialCredit(userAnswers, correctAnswerParsed, questionPoints);
-          isCorrect = pointsEarned === questionPoints; // Full credit means correct
-        } else {
-          // Single-answer question - binary correct/incorrect
-          isCorrect = this.compareAnswers(userAnswerParsed, correctAnswerParsed, questionType);
-          pointsEarned = isCorrect ? questionPoints : 0;
-        }
-
-        earnedPoints += pointsEarned;
-        
-        if (isCorrect) {
-          correctCount++;
-        }
-
-        // Track per-topic scores
-        const topicId = question.topicId;
-        const topicName = question.topic.topicName;
-        
-        if (!topicScoreMap.has(topicId)) {
-          topicScoreMap.set(topicId, { correct: 0, total: 0, name: topicName, points: 0, earned: 0 });
-        }
-        
-        const topicScore = topicScoreMap.get(topicId)!;
-        topicScore.total++;
-        topicScore.points += questionPoints;
-        topicScore.earned += pointsEarned;
-        if (isCorrect) {
-          topicScore.correct++;
-        }
-      }
-
-      // Calculate overall score percentage based on points
-      const overallScore = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
-
-      // Build topic scores array
-      const topicScores: TopicScore[] = Array.from(topicScoreMap.entries()).map(
-        ([topicId, data]) => ({
-          topicId,
-          topicName: data.name,
-          correct: data.correct,
-          total: data.total,
-          percentage: data.points > 0 ? (data.earned / data.points) * 100 : 0,
-        })
-      );
+      const { graded, shortAnswerGrades } = await this.gradeShortAnswers(testId, test, responses);
+      const { overallScore, correctCount, totalCount, topicScores, abilityEstimates, responseGrades } =
+        this.scoreTest(test, responses, graded);
 
       // Create evaluation result
       const evaluationId = `eval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -294,11 +323,14 @@ export class EvaluatorService {
         correctCount,
         totalCount,
         topicScores,
+        abilityEstimates,
+        responseGrades,
         evaluatedAt,
       };
 
-      // Persist evaluation to database
-      await this.prisma.evaluation.create({
+      // Persist evaluation to database, with the ShortAnswer grades in the same transaction:
+      // they are unique per question, so grades left by a failed evaluation would block a retry
+      const createEvaluation = this.prisma.evaluation.create({
         data: {
           id: evaluationId,
           test: {
@@ -312,16 +344,21 @@ export class EvaluatorService {
           totalCount,
           evaluatedAt,
           topicScores: {
-            create: topicScores.map(ts => ({
-              topicId: ts.topicId,
-              topicName: ts.topicName,
-              correct: ts.correct,
-              total: ts.total,
-              percentage: ts.percentage,
-            })),
+            create: toTopicScoreData(topicScores),
+          },
+          ...(abilityEstimates && {
+            abilityEstimates: {
+              create: toAbilityEstimateData(abilityEstimates),
+            },
+          }),
+          responseGrades: {
+            create: toResponseGradeData(responseGrades),
           },
         },
       });
+      await this.prisma.$transaction(shortAnswerGrades.length > 0
+        ? [this.prisma.shortAnswerGrade.createMany({ data: shortAnswerGrades }), createEvaluation]
+        : [createEvaluation]);
 
       return Ok(evaluationResult);
     } catch (error) {
@@ -332,6 +369,305 @@ export class EvaluatorService {
     }
   }
 
+  /**
+   * Re-score a submitted test against the current answer keys of its questions
+   * Used after an admin corrects a question's answer; the stored evaluation and its
+   * topic scores are replaced and the previous score is returned alongside the new one
+   */
+  async reevaluateTest(
+    testId: TestId
+  ): Promise<Result<{ previousScore: number; evaluation: EvaluationResult }, { type: 'EvaluationFailed'; reason: string }>> {
+    try {
+      const [test, evaluation, session] = await Promise.all([
+        this.prisma.test.findUnique({
+          where: { id: testId },
+          include: {
+            testQuestions: {
+              include: { question: { include: { topic: true } } },
+              orderBy: { order: 'asc' },
+            },
+          },
+        }),
+        this.prisma.evaluation.findUnique({ where: { testId } }),
+        this.prisma.testSession.findFirst({
+          where: { testId, status: 'Submitted' },
+          orderBy: { submittedAt: 'desc' },
+          include: { responses: true },
+        }),
+      ]);
+
+      if (!test || !evaluation || !session) {
+        return Err({
+          type: 'EvaluationFailed',
+          reason: `Test with ID ${testId} has no submitted evaluation to re-score`,
+        });
+      }
+
+      const responses = new Map<QuestionId, UserAnswer>();
+      for (const response of session.responses) {
+        responses.set(response.questionId, {
+          questionId: response.questionId,
+          answer: response.userAnswer,
+          answeredAt: response.answeredAt,
+        });
+      }
+
+      // Rubric grades, including any a teacher has reviewed, and teachers' overrides stand;
+      // only keys are re-applied
+      const rubricGrades = (test as TestForScoring).testQuestions.some(tq => tq.question.questionType === 'ShortAnswer')
+        ? await this.storedShortAnswerGrades(testId)
+        : new Map<QuestionId, AppliedGrade>();
+      const graded = new Map([...rubricGrades, ...await this.overriddenGrades(testId)]);
+      const { overallScore, correctCount, totalCount, topicScores, abilityEstimates, responseGrades } =
+        this.scoreTest(test, responses, graded);
+      const reevaluatedAt = new Date();
+
+      await this.prisma.evaluation.update({
+        where: { testId },
+        data: {
+          overallScore,
+          correctCount,
+          totalCount,
+          reevaluatedAt,
+          topicScores: {
+            deleteMany: {},
+            create: toTopicScoreData(topicScores),
+          },
+          ...(abilityEstimates && {
+            abilityEstimates: {
+              deleteMany: {},
+              create: toAbilityEstimateData(abilityEstimates),
+            },
+          }),
+          responseGrades: {
+            deleteMany: {},
+            create: toResponseGradeData(responseGrades),
+          },
+        },
+      });
+
+      return Ok({
+        previousScore: evaluation.overallScore,
+        evaluation: {
+          evaluationId: evaluation.id,
+          testId,
+          userId: test.userId,
+          overallScore,
+          correctCount,
+          totalCount,
+          topicScores,
+          abilityEstimates,
+          responseGrades,
+          evaluatedAt: evaluation.evaluatedAt,
+          reevaluatedAt,
+        },
+      });
+    } catch (error) {
+      return Err({
+        type: 'EvaluationFailed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  /**
+   * Grade a test's free-text ShortAnswer responses against their rubrics
+   * Grades the grader is not confident of are stored for a teacher to review; until then they count as graded
+   * Returns the grade of each graded question and the grade rows for the caller to store;
+   * without a grader, nothing is graded
+   */
+  private async gradeShortAnswers(
+    testId: TestId,
+    test: TestForScoring,
+    responses: Map<QuestionId, UserAnswer>
+  ): Promise<{ graded: Map<QuestionId, AppliedGrade>; shortAnswerGrades: ShortAnswerGradeData[] }> {
+    const graded = new Map<QuestionId, AppliedGrade>();
+    const grades: ShortAnswerGradeData[] = [];
+    if (!this.shortAnswerGrader) {
+      return { graded, shortAnswerGrades: grades };
+    }
+
+    for (const tq of test.testQuestions) {
+      const question = tq.question;
+      const answer = responses.get(question.id)?.answer ?? '';
+      if (question.questionType !== 'ShortAnswer' || !answer.trim()) {
+        continue;
+      }
+
+      const correctAnswers = answerParts(question.correctAnswers || '[]');
+      const points = tq.marks ?? 1;
+      const grade = await this.shortAnswerGrader.gradeAnswer(
+        {
+          questionId: question.id,
+          topicId: question.topicId,
+          questionText: question.questionText,
+          questionType: 'ShortAnswer',
+          correctAnswer: correctAnswers[0] ?? '',
+          correctAnswers,
+          rubric: parseRubric(question.rubric),
+          syllabusReference: '',
+          difficulty: question.difficulty as DifficultyLevel,
+          createdAt: new Date(),
+        },
+        answer,
+        points
+      );
+
+      graded.set(question.id, { pointsEarned: grade.pointsEarned, grader: grade.method, feedback: grade.feedback });
+      grades.push({
+        testId,
+        questionId: question.id,
+        userAnswer: answer,
+        points,
+        pointsEarned: grade.pointsEarned,
+        matchedPoints: JSON.stringify(grade.matchedPoints),
+        confidence: grade.confidence,
+        method: grade.method,
+        feedback: grade.feedback,
+        reviewStatus: grade.confidence < REVIEW_CONFIDENCE_THRESHOLD ? 'PendingReview' : 'Automatic',
+      });
+    }
+
+    return { graded, shortAnswerGrades: grades };
+  }
+
+  /**
+   * A test's stored ShortAnswer grades; a reviewed grade is the teacher's
+   */
+  private async storedShortAnswerGrades(testId: TestId): Promise<Map<QuestionId, AppliedGrade>> {
+    const grades: StoredGradeRow[] = await this.prisma.shortAnswerGrade.findMany({
+      where: { testId },
+      select: { questionId: true, pointsEarned: true, method: true, feedback: true, reviewStatus: true },
+    });
+    return new Map(grades.map(grade => [grade.questionId, {
+      pointsEarned: grade.pointsEarned,
+      grader: grade.reviewStatus === 'Reviewed' ? 'Teacher' : grade.method as ShortAnswerGradingMethod,
+      feedback: grade.feedback ?? undefined,
+    }]));
+  }
+
+  /**
+   * The latest teacher override of each overridden question of a test; its reason is the feedback
+   */
+  private async overriddenGrades(testId: TestId): Promise<Map<QuestionId, AppliedGrade>> {
+    const overrides: OverrideRow[] = await this.prisma.gradeOverride.findMany({
+      where: { testId },
+      select: { questionId: true, pointsEarned: true, reason: true },
+      orderBy: { createdAt: 'asc' },
+    });
+    return new Map(overrides.map(override => [override.questionId, {
+      pointsEarned: override.pointsEarned,
+      grader: 'Teacher',
+      feedback: override.reason,
+    }]));
+  }
+
+  /**
+   * Score every question of a test against its current answer key
+   * Shared by the first evaluation and re-evaluation after an answer key correction
+   * Questions in graded were marked against a rubric and keep those points;
+   * they count as correct only with full marks
+   */
+  private scoreTest(
+    test: TestForScoring,
+    responses: Map<QuestionId, UserAnswer>,
+    graded: Map<QuestionId, AppliedGrade> = new Map()
+  ): ScoredTest {
+    // Calculate overall score
+    let correctCount = 0;
+    let totalPoints = 0;
+    let earnedPoints = 0;
+    const totalCount = test.testQuestions.length;
+    const topicScoreMap = new Map<TopicId, { correct: number; total: number; name: string; points: number; earned: number }>();
+    const scoredItemsByTopic = new Map<TopicId, ScoredItem[]>();
+    const responseGrades: ResponseGrade[] = [];
+
+    // Evaluate each question
+    for (const tq of test.testQuestions) {
+      const question = tq.question;
+      const userResponse = responses.get(question.id);
+      const userAnswer = userResponse?.answer || '';
+      // Database field is 'correctAnswers' (plural, JSON array)
+      const correctAnswers = question.correctAnswers || '[]';
+      const questionType = question.questionType as QuestionType;
+      // Board papers weight questions by their marks; tests without a blueprint give each 1
+      const questionPoints = tq.marks ?? 1;
+
+      totalPoints += questionPoints;
+
+      const grade = graded.get(question.id);
+      const { isCorrect, pointsEarned } = grade !== undefined
+        ? { isCorrect: grade.pointsEarned >= questionPoints, pointsEarned: grade.pointsEarned }
+        : this.scoreResponse(
+            userAnswer,
+            correctAnswers,
+            questionType,
+            questionPoints,
+            parseAnswerTolerance(question.answerTolerance)
+          );
+
+      responseGrades.push({
+        questionId: question.id,
+        userAnswer: userAnswer || undefined,
+        isCorrect,
+        points: questionPoints,
+        pointsEarned,
+        grader: grade?.grader ?? keyGrader(questionType, correctAnswers),
+        feedback: grade?.feedback,
+      });
+      earnedPoints += pointsEarned;
+      
+      if (isCorrect) {
+        correctCount++;
+      }
+
+      // Track per-topic scores
+      const topicId = question.topicId;
+      const topicName = question.topic.topicName;
+      
+      if (!topicScoreMap.has(topicId)) {
+        topicScoreMap.set(topicId, { correct: 0, total: 0, name: topicName, points: 0, earned: 0 });
+      }
+      
+      const topicScore = topicScoreMap.get(topicId)!;
+      topicScore.total++;
+      topicScore.points += questionPoints;
+      topicScore.earned += pointsEarned;
+      if (isCorrect) {
+        topicScore.correct++;
+      }
+
+      const scoredItems = scoredItemsByTopic.get(topicId) ?? [];
+      scoredItems.push({ difficulty: question.difficulty as DifficultyLevel, correct: isCorrect });
+      scoredItemsByTopic.set(topicId, scoredItems);
+    }
+
+    // Calculate overall score percentage based on points
+    const overallScore = totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0;
+
+    // Build topic scores array
+    const topicScores: TopicScore[] = Array.from(topicScoreMap.entries()).map(
+      ([topicId, data]) => ({
+        topicId,
+        topicName: data.name,
+        correct: data.correct,
+        total: data.total,
+        percentage: data.points > 0 ? (data.earned / data.points) * 100 : 0,
+      })
+    );
+
+    // Adaptive tests also report an ability estimate per topic
+    const abilityEstimates: TopicAbilityEstimate[] | undefined = test.mode === 'Adaptive'
+      ? topicScores.map(ts => ({
+          topicId: ts.topicId,
+          topicName: ts.topicName,
+          ...estimateAbility(scoredItemsByTopic.get(ts.topicId) ?? []),
+        }))
+      : undefined;
+
+    return { overallScore, correctCount, totalCount, topicScores, abilityEstimates, responseGrades };
+  }
+
   /**
    * Get evaluation result for a test
    * Requirements: 8.5
@@ -344,6 +680,8 @@ export class EvaluatorService {
         where: { testId },
         include: {
           topicScores: true,
+          abilityEstimates: true,
+          responseGrades: { orderBy: { order: 'asc' } },
         },
       });
 
@@ -371,7 +709,20 @@ export class EvaluatorService {
         correctCount: evaluation.correctCount,
         totalCount: evaluation.totalCount,
         topicScores,
+        abilityEstimates: evaluation.abilityEstimates?.length
+          ? evaluation.abilityEstimates.map((estimate: TopicAbilityEstimate) => ({
+              topicId: estimate.topicId,
+              topicName: estimate.topicName,
+              ability: estimate.ability,
+              standardError: estimate.standardError,
+              itemsAnswered: estimate.itemsAnswered,
+            }))
+          : undefined,
+        responseGrades: evaluation.responseGrades?.length
+          ? evaluation.responseGrades.map(toResponseGrade)
+          : undefined,
         evaluatedAt: evaluation.evaluatedAt,
+        reevaluatedAt: evaluation.reevaluatedAt ?? undefined,
       };
 
       return Ok(result);
@@ -384,3 +735,125 @@ export class EvaluatorService {
     }
   }
 }
+
+function toTopicScoreData(topicScores: TopicScore[]) {
+  return topicScores.map(ts => ({
+    topicId: ts.topicId,
+    topicName: ts.topicName,
+    correct: ts.correct,
+    total: ts.total,
+    percentage: ts.percentage,
+  }));
+}
+
+function toResponseGradeData(responseGrades: ResponseGrade[]) {
+  return responseGrades.map((grade, order) => ({
+    questionId: grade.questionId,
+    order,
+    userAnswer: grade.userAnswer ?? null,
+    isCorrect: grade.isCorrect,
+    points: grade.points,
+    pointsEarned: grade.pointsEarned,
+    grader: grade.grader,
+    feedback: grade.feedback ?? null,
+  }));
+}
+
+function toResponseGrade(row: ResponseGradeRow): ResponseGrade {
+  return {
+    questionId: row.questionId,
+    userAnswer: row.userAnswer ?? undefined,
+    isCorrect: row.isCorrect,
+    points: row.points,
+    pointsEarned: row.pointsEarned,
+    grader: row.grader as ResponseGraderType,
+    feedback: row.feedback ?? undefined,
+  };
+}
+
+// How scoreResponse marks a question against its answer key
+function keyGrader(questionType: QuestionType, correctAnswers: string): ResponseGraderType {
+  if (isPartMarked(questionType) || answerParts(correctAnswers).length > 1) {
+    return 'PartCredit';
+  }
+  return questionType === 'Numerical' ? 'Numerical' : 'AnswerKey';
+}
+
+function toAbilityEstimateData(estimates: TopicAbilityEstimate[]) {
+  return estimates.map(estimate => ({
+    topicId: estimate.topicId,
+    topicName: estimate.topicName,
+    ability: estimate.ability,
+    standardError: estimate.standardError,
+    itemsAnswered: estimate.itemsAnswered,
+  }));
+}
+
+// The parts of an answer, whether already parsed or still stored as JSON
+function toParts(answer: string | string[]): string[] {
+  return Array.isArray(answer) ? answer.map(part => String(part ?? '')) : answerParts(answer);
+}
+
+// Shapes used while scoring a test loaded with its questions and topics
+type TestForScoring = {
+  mode: string;
+  testQuestions: Array<{
+    marks?: number;
+    question: {
+      id: string;
+      topicId: string;
+      questionText: string;
+      questionType: string;
+      correctAnswers: string;
+      answerTolerance: string | null;
+      rubric?: string | null;
+      difficulty: string;
+      topic: { topicName: string };
+    };
+  }>;
+};
+
+type ScoredTest = Pick<
+  EvaluationResult,
+  'overallScore' | 'correctCount' | 'totalCount' | 'topicScores' | 'abilityEstimates'
+> & { responseGrades: ResponseGrade[] };
+
+// A grade from outside the answer key that a question keeps when the test is scored
+type AppliedGrade = Pick<ResponseGrade, 'pointsEarned' | 'grader' | 'feedback'>;
+
+type ResponseGradeRow = {
+  questionId: string;
+  userAnswer: string | null;
+  isCorrect: boolean;
+  points: number;
+  pointsEarned: number;
+  grader: string;
+  feedback: string | null;
+};
+
+type ShortAnswerGradeData = {
+  testId: string;
+  questionId: string;
+  userAnswer: string;
+  points: number;
+  pointsEarned: number;
+  matchedPoints: string;
+  confidence: number;
+  method: string;
+  feedback?: string;
+  reviewStatus: string;
+};
+
+type OverrideRow = {
+  questionId: string;
+  pointsEarned: number;
+  reason: string;
+};
+
+type StoredGradeRow = {
+  questionId: string;
+  pointsEarned: number;
+  method: string;
+  feedback: string | null;
+  reviewStatus: string;
+};
@@ -13,6 +13,7 @@ const mockPrisma = {
   performanceReport: {
     create: vi.fn(),
     findUnique: vi.fn(),
+    updateMany: vi.fn(),
   },
   test: {
     findUnique: vi.fn(),
@@ -232,6 +233,40 @@ describe('FeedbackEngine', () => {
     });
   });
 
+  describe('refreshPerformanceReport', () => {
+    it('should replace the weak topics and suggestions of the stored report', async () => {
+      const evaluation: EvaluationResult = {
+        evaluationId: 'eval-1',
+        testId: 'test-1',
+        userId: 'user-1',
+        overallScore: 75,
+        correctCount: 15,
+        totalCount: 20,
+        topicScores: [
+          { topicId: 'topic-1', topicName: 'Algebra', correct: 5, total: 10, percentage: 50 },
+          { topicId: 'topic-2', topicName: 'Geometry', correct: 10, total: 10, percentage: 100 },
+        ],
+        evaluatedAt: new Date(),
+      };
+
+      (mockPrisma.syllabusTopic.findUnique as any).mockResolvedValue({
+        id: 'topic-1',
+        topicName: 'Algebra',
+        syllabusSection: 'Chapter 2',
+        learningObjectives: '[]',
+      });
+
+      const result = await feedbackEngine.refreshPerformanceReport(evaluation, 'test-1');
+
+      expect(result.ok).toBe(true);
+      const update = (mockPrisma.performanceReport.updateMany as any).mock.calls[0][0];
+      expect(update.where).toEqual({ testId: 'test-1' });
+      expect(JSON.parse(update.data.weakTopics).map((topic: any) => topic.topicId)).toEqual(['topic-1']);
+      expect(JSON.parse(update.data.improvementSuggestions)).toHaveLength(1);
+      expect(mockPrisma.performanceReport.create).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getPerformanceReport', () => {
     it('should retrieve existing performance report', async () => {
       const mockReport = {
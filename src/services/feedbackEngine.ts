@@ -160,6 +160,35 @@ export class FeedbackEngine {
     }
   }
 
+  /**
+   * Bring a test's stored report in line with its re-scored evaluation
+   * The report keeps its identity; weak topics and suggestions follow the new topic scores
+   */
+  async refreshPerformanceReport(
+    evaluation: EvaluationResult,
+    testId: TestId
+  ): Promise<Result<void, { type: 'ReportGenerationFailed'; reason: string }>> {
+    try {
+      const weakTopics = this.identifyWeakTopics(evaluation.topicScores);
+      const suggestions = await this.generateImprovementSuggestions(weakTopics);
+
+      await this.prisma.performanceReport.updateMany({
+        where: { testId },
+        data: {
+          weakTopics: JSON.stringify(weakTopics),
+          improvementSuggestions: JSON.stringify(suggestions),
+        },
+      });
+
+      return Ok(undefined);
+    } catch (error) {
+      return Err({
+        type: 'ReportGenerationFailed',
+        reason: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Get performance report for a test
    * Requirements: 9.5
@@ -0,0 +1,200 @@
+// Generated question validator tests
+
+import { describe, it, expect } from 'vitest';
+import {
+  repairGeneratedQuestion,
+  validateGeneratedQuestion,
+  validateGeneratedQuestions,
+} from './generatedQuestionValidator';
+
+const context = { requireSolutionSteps: false };
+
+const mcq = {
+  questionText: 'What is 3 + 4?',
+  questionType: 'MultipleChoice',
+  options: ['5', '6', '7', '8'],
+  correctAnswer: '7',
+  syllabusReference: 'Addition',
+  solutionSteps: ['Step 1: 3 + 4 = 7'],
+};
+
+describe('repairGeneratedQuestion', () => {
+  it('should map a letter answer to the option text', () => {
+    for (const answer of ['C', '(c)', 'C)', 'Option C', 'C. 7']) {
+      const repaired = repairGeneratedQuestion({ ...mcq, correctAnswer: answer }) as any;
+      expect(repaired.correctAnswer).toBe('7');
+    }
+  });
+
+  it('should match answers that differ only in case or whitespace', () => {
+    const repaired = repairGeneratedQuestion({
+      ...mcq,
+      options: ['Paris', 'London', 'Rome', 'Berlin'],
+      correctAnswer: '  paris ',
+    }) as any;
+
+    expect(repaired.correctAnswer).toBe('Paris');
+  });
+
+  it('should wrap a single solution step and drop empty steps', () => {
+    expect((repairGeneratedQuestion({ ...mcq, solutionSteps: 'Add them' }) as any).solutionSteps).toEqual(['Add them']);
+    expect((repairGeneratedQuestion({ ...mcq, solutionSteps: ['Add', '  ', 3] }) as any).solutionSteps).toEqual(['Add']);
+  });
+
+  it('should drop options from non-MultipleChoice questions', () => {
+    const repaired = repairGeneratedQuestion({
+      questionText: 'Compute 6 x 7',
+      questionType: 'Numerical',
+      options: [],
+      correctAnswer: 42,
+    }) as any;
+
+    expect(repaired.options).toBeUndefined();
+    expect(repaired.correctAnswer).toBe('42');
+  });
+});
+
+describe('validateGeneratedQuestion', () => {
+  it('should accept a well-formed MultipleChoice question', () => {
+    const result = validateGeneratedQuestion(mcq, context);
+
+    expect(result.ok).toBe(true);
+  });
+
+  it('should reject a missing correctAnswer', () => {
+    const { correctAnswer: _omitted, ...question } = mcq;
+    const result = validateGeneratedQuestion(question, context);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues).toContain('correctAnswer is required');
+    }
+  });
+
+  it('should reject an MCQ whose answer is not among its options', () => {
+    const result = validateGeneratedQuestion({ ...mcq, correctAnswer: '9' }, context);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues).toContain('correctAnswer "9" is not one of the options');
+    }
+  });
+
+  it('should reject the wrong number of options and duplicate options', () => {
+    const tooFew = validateGeneratedQuestion({ ...mcq, options: ['6', '7', '8'] }, context);
+    const duplicates = validateGeneratedQuestion({ ...mcq, options: ['7', '7', '8', '9'] }, context);
+
+    expect(tooFew.ok).toBe(false);
+    if (!tooFew.ok) {
+      expect(tooFew.issues).toContain('MultipleChoice must have exactly 4 options');
+    }
+    expect(duplicates.ok).toBe(false);
+    if (!duplicates.ok) {
+      expect(duplicates.issues).toContain('options must be distinct');
+    }
+  });
+
+  it('should accept numbers, fractions, percentages, units and scientific notation as Numerical answers', () => {
+    for (const answer of ['42', '-3.5', '1,250', '3/4', '12.5%', '15 cm', '9.8 m/s²', '5e-1', '5 × 10^-1', '1,00,000']) {
+      const result = validateGeneratedQuestion(
+        { questionText: 'Compute', questionType: 'Numerical', correctAnswer: answer },
+        context
+      );
+      expect(result.ok, answer).toBe(true);
+    }
+  });
+
+  it('should reject a Numerical answer that is not a number', () => {
+    const result = validateGeneratedQuestion(
+      { questionText: 'Compute 6 x 7', questionType: 'Numerical', correctAnswer: 'forty-two' },
+      context
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues).toContain('correctAnswer "forty-two" is not a number');
+    }
+  });
+
+  it('should reject unknown question types', () => {
+    const result = validateGeneratedQuestion({ ...mcq, questionType: 'Essay' }, context);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues[0]).toContain('questionType must be');
+    }
+  });
+
+  it('should require solution steps for math subjects', () => {
+    const result = validateGeneratedQuestion({ ...mcq, solutionSteps: [] }, { requireSolutionSteps: true });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues).toContain('solutionSteps must not be empty for math subjects');
+    }
+  });
+
+  it('should accept only auto-marked types in online exam mode', () => {
+    const result = validateGeneratedQuestion(
+      { questionText: 'Explain carrying', questionType: 'ShortAnswer', correctAnswer: 'Moving tens' },
+      { testMode: 'InAppExam', requireSolutionSteps: false }
+    );
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.issues).toContain('online exams accept only MultipleChoice, TrueFalse, Matching and Ordering questions');
+    }
+  });
+
+  it('should read true/false answers in any case', () => {
+    const result = validateGeneratedQuestion(
+      { questionText: '7 is a prime number', questionType: 'TrueFalse', correctAnswer: true },
+      { testMode: 'InAppExam', requireSolutionSteps: false }
+    );
+
+    expect(result).toMatchObject({ ok: true, question: { correctAnswer: 'True' } });
+    expect(validateGeneratedQuestion({ ...mcq, questionType: 'TrueFalse', correctAnswer: 'Maybe' }, context))
+      .toEqual({ ok: false, issues: ['correctAnswer must be True or False'] });
+  });
+
+  it('should validate matching pairs and ordering items', () => {
+    const matching = validateGeneratedQuestion({
+      questionText: 'Match each shape with its number of sides',
+      questionType: 'Matching',
+      pairs: [{ left: 'Triangle', right: '3' }, { left: 'Square', right: '4' }],
+    }, context);
+    expect(matching).toMatchObject({ ok: true, question: { pairs: [{ left: 'Triangle', right: '3' }, { left: 'Square', right: '4' }] } });
+
+    const ordering = validateGeneratedQuestion({
+      questionText: 'Order from smallest to largest',
+      questionType: 'Ordering',
+      items: [0.5, '3/4', '3/4'],
+    }, context);
+    expect(ordering).toEqual({ ok: false, issues: ['items must be distinct'] });
+  });
+
+  it('should require one answer per blank', () => {
+    const question = { questionText: '___ + 4 = ___', questionType: 'FillInBlank', blanks: [3] };
+
+    expect(validateGeneratedQuestion(question, context)).toEqual({
+      ok: false,
+      issues: ['questionText has 2 blanks (___) but 1 answers were given'],
+    });
+    expect(validateGeneratedQuestion({ ...question, blanks: [3, '7|seven'] }, context))
+      .toMatchObject({ ok: true, question: { blanks: ['3', '7|seven'] } });
+  });
+});
+
+describe('validateGeneratedQuestions', () => {
+  it('should report rejections by their position in the batch', () => {
+    const { accepted, rejected } = validateGeneratedQuestions(
+      [mcq, { ...mcq, questionText: 'Broken', correctAnswer: '100' }, null],
+      context
+    );
+
+    expect(accepted).toHaveLength(1);
+    expect(rejected.map(r => r.index)).toEqual([1, 2]);
+    expect(rejected[0].questionText).toBe('Broken');
+    expect(rejected[1].issues).toEqual(['question must be an object']);
+  });
+});
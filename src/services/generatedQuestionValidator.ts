@@ -0,0 +1,324 @@
+// Generated Question Validator
+// Schema validation and auto-repair of raw LLM question output before it becomes a Question
+
+import { z } from 'zod';
+import { QuestionRejection } from '../types';
+import { countBlanks } from '../lib/questionFormats';
+import { parseQuantity } from '../lib/numericAnswers';
+
+/**
+ * Number of options a MultipleChoice question must offer (matches the generation prompt)
+ */
+export const MULTIPLE_CHOICE_OPTION_COUNT = 4;
+
+/**
+ * Fewest pairs or items a Matching or Ordering question may have
+ */
+const MIN_PARTS = 2;
+
+/**
+ * Rules that depend on the generation request rather than the question itself
+ */
+export type QuestionValidationContext = {
+  testMode?: 'InAppExam' | 'PDFDownload';
+  requireSolutionSteps: boolean;
+  questionType?: string; // every question must be this type, e.g. for a blueprint section
+};
+
+const QUESTION_TYPES = ['MultipleChoice', 'TrueFalse', 'Matching', 'Ordering', 'FillInBlank', 'ShortAnswer', 'Numerical'];
+
+/**
+ * Types the test-taking page can mark without a human reading the answer
+ */
+export const ONLINE_EXAM_TYPES = ['MultipleChoice', 'TrueFalse', 'Matching', 'Ordering'];
+
+const nonEmptyString = (field: string) =>
+  z.string({ required_error: `${field} is required`, invalid_type_error: `${field} must be a string` })
+    .trim()
+    .min(1, `${field} must not be empty`);
+
+const baseQuestionSchema = z.object({
+  questionText: nonEmptyString('questionText'),
+  correctAnswer: nonEmptyString('correctAnswer'),
+  syllabusReference: z.string().trim().optional(),
+  solutionSteps: z.array(z.string().trim().min(1, 'solution steps must not be empty')).default([]),
+});
+
+// Matching, Ordering and FillInBlank questions give their answer as parts instead
+const partsQuestionSchema = baseQuestionSchema.omit({ correctAnswer: true });
+
+const distinctIssue = (values: string[], path: string, ctx: z.RefinementCtx) => {
+  const normalized = values.map(value => value.toLowerCase());
+  if (new Set(normalized).size !== normalized.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: `${path} must be distinct` });
+  }
+};
+
+const multipleChoiceSchema = baseQuestionSchema.extend({
+  questionType: z.literal('MultipleChoice'),
+  options: z.array(nonEmptyString('option'), { required_error: 'options are required for MultipleChoice' })
+    .length(MULTIPLE_CHOICE_OPTION_COUNT, `MultipleChoice must have exactly ${MULTIPLE_CHOICE_OPTION_COUNT} options`),
+}).superRefine((question, ctx) => {
+  const normalized = question.options.map(option => option.toLowerCase());
+  if (new Set(normalized).size !== normalized.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'options must be distinct' });
+  }
+  if (!question.options.includes(question.correctAnswer)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['correctAnswer'],
+      message: `correctAnswer "${question.correctAnswer}" is not one of the options`,
+    });
+  }
+});
+
+const trueFalseSchema = baseQuestionSchema.extend({
+  questionType: z.literal('TrueFalse'),
+  correctAnswer: z.enum(['True', 'False'], {
+    errorMap: () => ({ message: 'correctAnswer must be True or False' }),
+  }),
+});
+
+const matchingSchema = partsQuestionSchema.extend({
+  questionType: z.literal('Matching'),
+  pairs: z.array(
+    z.object({ left: nonEmptyString('pair left'), right: nonEmptyString('pair right') }),
+    { required_error: 'pairs are required for Matching' }
+  ).min(MIN_PARTS, `Matching must have at least ${MIN_PARTS} pairs`),
+}).superRefine((question, ctx) => distinctIssue(question.pairs.map(pair => pair.left), 'pairs', ctx));
+
+const orderingSchema = partsQuestionSchema.extend({
+  questionType: z.literal('Ordering'),
+  items: z.array(nonEmptyString('item'), { required_error: 'items are required for Ordering' })
+    .min(MIN_PARTS, `Ordering must have at least ${MIN_PARTS} items`),
+}).superRefine((question, ctx) => distinctIssue(question.items, 'items', ctx));
+
+const fillInBlankSchema = partsQuestionSchema.extend({
+  questionType: z.literal('FillInBlank'),
+  blanks: z.array(nonEmptyString('blank'), { required_error: 'blanks are required for FillInBlank' })
+    .min(1, 'FillInBlank must have at least one blank'),
+}).superRefine((question, ctx) => {
+  const blankCount = countBlanks(question.questionText);
+  if (blankCount !== question.blanks.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['blanks'],
+      message: `questionText has ${blankCount} blanks (___) but ${question.blanks.length} answers were given`,
+    });
+  }
+});
+
+const shortAnswerSchema = baseQuestionSchema.extend({
+  questionType: z.literal('ShortAnswer'),
+  rubric: z.array(z.object({
+    point: nonEmptyString('rubric point'),
+    marks: z.number({ invalid_type_error: 'rubric marks must be a number' }).positive('rubric marks must be positive'),
+    keywords: z.array(nonEmptyString('keyword')).optional(),
+  })).min(1, 'rubric must have at least one key point').optional(),
+});
+
+const numericalSchema = baseQuestionSchema.extend({
+  questionType: z.literal('Numerical'),
+  correctAnswer: nonEmptyString('correctAnswer').refine(
+    // Read the same way the answer will be marked, so scientific notation and lakh-style
+    // separators are accepted along with fractions, percentages and units
+    answer => parseQuantity(answer) !== null,
+    answer => ({ message: `correctAnswer "${answer}" is not a number` })
+  ),
+});
+
+/**
+ * Type-specific schema for a single generated question
+ */
+export const generatedQuestionSchema = z.union([
+  multipleChoiceSchema,
+  trueFalseSchema,
+  matchingSchema,
+  orderingSchema,
+  fillInBlankSchema,
+  shortAnswerSchema,
+  numericalSchema,
+]);
+
+const SCHEMAS_BY_TYPE: Record<string, z.ZodType<GeneratedQuestion, z.ZodTypeDef, unknown>> = {
+  MultipleChoice: multipleChoiceSchema,
+  TrueFalse: trueFalseSchema,
+  Matching: matchingSchema,
+  Ordering: orderingSchema,
+  FillInBlank: fillInBlankSchema,
+  ShortAnswer: shortAnswerSchema,
+  Numerical: numericalSchema,
+};
+
+export type GeneratedQuestion = z.infer<typeof generatedQuestionSchema>;
+
+/**
+ * Fix mechanical mistakes the model commonly makes without changing question content:
+ * trims strings, wraps a single solution step in an array, drops options on non-MCQ
+ * questions, reads true/false answers in any case, turns numbers in part lists into
+ * text, and maps letter answers ("B", "(b)", "Option B") or case variants to the
+ * exact option text
+ */
+export function repairGeneratedQuestion(raw: unknown): unknown {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return raw;
+  }
+
+  const question: Record<string, unknown> = { ...(raw as Record<string, unknown>) };
+
+  for (const key of ['questionText', 'questionType', 'correctAnswer', 'syllabusReference']) {
+    if (typeof question[key] === 'string') {
+      question[key] = (question[key] as string).trim();
+    }
+  }
+
+  if (typeof question.correctAnswer === 'number') {
+    question.correctAnswer = String(question.correctAnswer);
+  }
+
+  if (typeof question.solutionSteps === 'string') {
+    question.solutionSteps = [question.solutionSteps];
+  }
+  if (Array.isArray(question.solutionSteps)) {
+    question.solutionSteps = question.solutionSteps
+      .filter((step): step is string => typeof step === 'string')
+      .map(step => step.trim())
+      .filter(step => step.length > 0);
+  } else {
+    delete question.solutionSteps;
+  }
+
+  if (question.questionType === 'TrueFalse') {
+    const answer = String(question.correctAnswer).toLowerCase();
+    if (answer === 'true' || answer === 'false') {
+      question.correctAnswer = answer === 'true' ? 'True' : 'False';
+    }
+  }
+
+  for (const key of ['items', 'blanks']) {
+    if (Array.isArray(question[key])) {
+      question[key] = (question[key] as unknown[]).map(part => (typeof part === 'number' ? String(part) : part));
+    }
+  }
+
+  if (question.questionType !== 'MultipleChoice') {
+    delete question.options;
+    return question;
+  }
+
+  if (Array.isArray(question.options)) {
+    const options = question.options.map(option =>
+      typeof option === 'number' ? String(option) : typeof option === 'string' ? option.trim() : option
+    );
+    question.options = options;
+
+    if (typeof question.correctAnswer === 'string') {
+      question.correctAnswer = matchOption(question.correctAnswer, options);
+    }
+  }
+
+  return question;
+}
+
+/**
+ * Resolve an answer to the exact option text it refers to, or return it unchanged
+ */
+export function matchOption(answer: string, options: unknown[]): string {
+  const texts = options.filter((option): option is string => typeof option === 'string');
+  if (texts.includes(answer)) {
+    return answer;
+  }
+
+  const caseInsensitive = texts.find(option => option.toLowerCase() === answer.toLowerCase());
+  if (caseInsensitive) {
+    return caseInsensitive;
+  }
+
+  // "B", "(b)", "B)", "Option B", "B. 42"
+  const letterMatch = answer.match(/^(?:option\s+)?\(?([a-z])\)?[.):]?\s*(.*)$/i);
+  if (letterMatch) {
+    const index = letterMatch[1].toLowerCase().charCodeAt(0) - 'a'.charCodeAt(0);
+    const remainder = letterMatch[2].trim();
+    const option = texts[index];
+    if (option && (remainder === '' || remainder.toLowerCase() === option.toLowerCase())) {
+      return option;
+    }
+  }
+
+  return answer;
+}
+
+/**
+ * Repair and validate one raw question against the schema and the request context
+ * Returns the list of issues when the question is rejected
+ */
+export function validateGeneratedQuestion(
+  raw: unknown,
+  context: QuestionValidationContext
+): { ok: true; question: GeneratedQuestion } | { ok: false; issues: string[] } {
+  const repaired = repairGeneratedQuestion(raw);
+
+  if (!repaired || typeof repaired !== 'object') {
+    return { ok: false, issues: ['question must be an object'] };
+  }
+
+  const questionType = (repaired as Record<string, unknown>).questionType;
+  if (typeof questionType !== 'string' || !QUESTION_TYPES.includes(questionType)) {
+    return {
+      ok: false,
+      issues: [`questionType must be one of ${QUESTION_TYPES.join(', ')} (got ${JSON.stringify(questionType)})`],
+    };
+  }
+
+  const parsed = SCHEMAS_BY_TYPE[questionType].safeParse(repaired);
+
+  const issues = parsed.success ? [] : parsed.error.issues.map(issue => issue.message);
+
+  if (context.testMode === 'InAppExam' && !ONLINE_EXAM_TYPES.includes(questionType)) {
+    issues.push('online exams accept only MultipleChoice, TrueFalse, Matching and Ordering questions');
+  }
+
+  if (context.questionType && questionType !== context.questionType) {
+    issues.push(`questionType must be ${context.questionType} (got ${questionType})`);
+  }
+
+  if (context.requireSolutionSteps && parsed.success && parsed.data.solutionSteps.length === 0) {
+    issues.push('solutionSteps must not be empty for math subjects');
+  }
+
+  if (!parsed.success || issues.length > 0) {
+    return { ok: false, issues };
+  }
+
+  return { ok: true, question: parsed.data };
+}
+
+/**
+ * Validate a batch of raw questions, keeping each rejection's position in the batch
+ */
+export function validateGeneratedQuestions(
+  rawQuestions: unknown[],
+  context: QuestionValidationContext
+): { accepted: GeneratedQuestion[]; rejected: Array<QuestionRejection & { raw: unknown }> } {
+  const accepted: GeneratedQuestion[] = [];
+  const rejected: Array<QuestionRejection & { raw: unknown }> = [];
+
+  rawQuestions.forEach((raw, index) => {
+    const result = validateGeneratedQuestion(raw, context);
+    if (result.ok) {
+      accepted.push(result.question);
+    } else {
+      const questionText = raw && typeof raw === 'object'
+        ? (raw as Record<string, unknown>).questionText
+        : undefined;
+      rejected.push({
+        index,
+        questionText: typeof questionText === 'string' ? questionText : undefined,
+        issues: result.issues,
+        raw,
+      });
+    }
+  });
+
+  return { accepted, rejected };
+}
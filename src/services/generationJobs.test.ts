@@ -0,0 +1,280 @@
+// Generation Job Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { GenerationJobService } from './generationJobs';
+import { GenerationHooks, describeGenerationError } from './testGenerator';
+import { TestConfiguration, Question, Ok, Err } from '../types';
+
+// In-memory stand-in for the GenerationJob table
+const createMockPrisma = () => {
+  const rows = new Map<string, any>();
+  let nextId = 1;
+
+  return {
+    rows,
+    generationJob: {
+      create: vi.fn(async ({ data }: any) => {
+        const now = new Date();
+        const row = {
+          id: `job-${nextId++}`,
+          progress: '[]',
+          checkpoint: '{}',
+          testIds: '[]',
+          error: null,
+          attempts: 0,
+          createdAt: now,
+          updatedAt: now,
+          startedAt: null,
+          completedAt: null,
+          ...data,
+        };
+        rows.set(row.id, row);
+        return { ...row };
+      }),
+      findUnique: vi.fn(async ({ where }: any) => {
+        const row = rows.get(where.id);
+        return row ? { ...row } : null;
+      }),
+      findMany: vi.fn(async ({ where }: any) =>
+        [...rows.values()]
+          .filter(row => where.status.in.includes(row.status))
+          .map(row => ({ id: row.id }))
+      ),
+      update: vi.fn(async ({ where, data }: any) => {
+        const row = rows.get(where.id);
+        const { attempts, ...rest } = data;
+        Object.assign(row, rest, { updatedAt: new Date() });
+        if (attempts?.increment) {
+          row.attempts += attempts.increment;
+        }
+        return { ...row };
+      }),
+    },
+  };
+};
+
+const config: TestConfiguration = {
+  subject: 'Mathematics',
+  topics: ['topic-1', 'topic-2'],
+  questionCount: 4,
+  testCount: 2,
+  testMode: 'InAppExam',
+};
+
+const distribution = [
+  { topicId: 'topic-1', topicName: 'Algebra', questionCount: 2 },
+  { topicId: 'topic-2', topicName: 'Geometry', questionCount: 2 },
+];
+
+const makeQuestion = (questionId: string, topicId: string): Question => ({
+  questionId,
+  topicId,
+  questionText: `Question ${questionId}`,
+  questionType: 'ShortAnswer',
+  correctAnswer: '42',
+  syllabusReference: topicId,
+  difficulty: 'ExamRealistic',
+  createdAt: new Date('2024-01-01'),
+});
+
+// Simulates TestGeneratorService.generateTests, reporting progress through the hooks
+const runWithHooks = async (
+  cfg: TestConfiguration,
+  hooks: GenerationHooks,
+  failAt?: { testIndex: number; topicId: string }
+) => {
+  const tests: any[] = [];
+  for (let i = hooks.completedTestCount ?? 0; i < cfg.testCount; i++) {
+    await hooks.onTestStarted?.(i, distribution);
+    for (const topic of distribution) {
+      if (i === (hooks.completedTestCount ?? 0) && hooks.completedTopics?.has(topic.topicId)) {
+        continue;
+      }
+      if (failAt && failAt.testIndex === i && failAt.topicId === topic.topicId) {
+        return Err({ type: 'GenerationFailed' as const, message: 'LLM unavailable' });
+      }
+      await hooks.onTopicCompleted?.(i, topic.topicId, [makeQuestion(`${i}-${topic.topicId}`, topic.topicId)]);
+    }
+    const test = { testId: `test-${i}` };
+    tests.push(test);
+    await hooks.onTestCompleted?.(i, test as any);
+  }
+  return Ok(tests);
+};
+
+describe('GenerationJobService', () => {
+  it('should queue a job and record per-topic progress until it succeeds', async () => {
+    const prisma = createMockPrisma();
+    const testGenerator = {
+      generateTests: vi.fn((cfg: TestConfiguration, _userId: string, hooks: GenerationHooks) => runWithHooks(cfg, hooks)),
+    } as any;
+    const service = new GenerationJobService(prisma as any, testGenerator);
+
+    const job = await service.enqueue(config, 'user-1');
+
+    expect(job.status).toBe('Queued');
+    expect(job.progress).toHaveLength(2);
+
+    await service.waitForIdle();
+
+    const result = await service.getJob(job.jobId);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.status).toBe('Succeeded');
+      expect(result.value.testIds).toEqual(['test-0', 'test-1']);
+      expect(result.value.attempts).toBe(1);
+      expect(result.value.progress.every(p => p.status === 'Completed')).toBe(true);
+      expect(result.value.progress[0].topics.map(t => t.status)).toEqual(['Completed', 'Completed']);
+      expect(result.value.completedAt).toBeInstanceOf(Date);
+    }
+    expect(testGenerator.generateTests).toHaveBeenCalledWith(config, 'user-1', expect.objectContaining({ completedTestCount: 0 }));
+  });
+
+  it('should mark the job as failed with a readable error', async () => {
+    const prisma = createMockPrisma();
+    const testGenerator = {
+      generateTests: vi.fn((cfg: TestConfiguration, _userId: string, hooks: GenerationHooks) =>
+        runWithHooks(cfg, hooks, { testIndex: 1, topicId: 'topic-2' })
+      ),
+    } as any;
+    const service = new GenerationJobService(prisma as any, testGenerator);
+
+    const job = await service.enqueue(config, 'user-1');
+    await service.waitForIdle();
+
+    const result = await service.getJob(job.jobId);
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.status).toBe('Failed');
+      expect(result.value.error).toBe('LLM unavailable');
+      expect(result.value.testIds).toEqual(['test-0']);
+      expect(result.value.progress[1].status).toBe('Running');
+      expect(result.value.progress[1].topics.map(t => t.status)).toEqual(['Completed', 'Pending']);
+    }
+  });
+
+  it('should resume a failed job from its last completed topic', async () => {
+    const prisma = createMockPrisma();
+    const generateTests = vi.fn()
+      .mockImplementationOnce((cfg: TestConfiguration, _userId: string, hooks: GenerationHooks) =>
+        runWithHooks(cfg, hooks, { testIndex: 1, topicId: 'topic-2' })
+      )
+      .mockImplementationOnce((cfg: TestConfiguration, _userId: string, hooks: GenerationHooks) =>
+        runWithHooks(cfg, hooks)
+      );
+    const service = new GenerationJobService(prisma as any, { generateTests } as any);
+
+    const job = await service.enqueue(config, 'user-1');
+    await service.waitForIdle();
+
+    const resumed = await service.resumeJob(job.jobId);
+    expect(resumed.ok).toBe(true);
+    await service.waitForIdle();
+
+    const resumeHooks: GenerationHooks = generateTests.mock.calls[1][2];
+    expect(resumeHooks.completedTestCount).toBe(1);
+    expect(resumeHooks.completedTestIds).toEqual(['test-0']);
+    expect([...resumeHooks.completedTopics!.keys()]).toEqual(['topic-1']);
+    expect(resumeHooks.completedTopics!.get('topic-1')![0].createdAt).toBeInstanceOf(Date);
+
+    const result = await service.getJob(job.jobId);
+    if (result.ok) {
+      expect(result.value.status).toBe('Succeeded');
+      expect(result.value.testIds).toEqual(['test-0', 'test-1']);
+      expect(result.value.attempts).toBe(2);
+    }
+  });
+
+  it('should only resume failed jobs', async () => {
+    const prisma = createMockPrisma();
+    const testGenerator = {
+      generateTests: vi.fn((cfg: TestConfiguration, _userId: string, hooks: GenerationHooks) => runWithHooks(cfg, hooks)),
+    } as any;
+    const service = new GenerationJobService(prisma as any, testGenerator);
+
+    const job = await service.enqueue(config, 'user-1');
+    await service.waitForIdle();
+
+    const result = await service.resumeJob(job.jobId);
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({ type: 'InvalidState', status: 'Succeeded' });
+    }
+
+    const missing = await service.resumeJob('missing-job');
+    expect(missing.ok).toBe(false);
+    if (!missing.ok) {
+      expect(missing.error.type).toBe('NotFound');
+    }
+  });
+
+  it('should pick up jobs left queued or running by a previous process', async () => {
+    const prisma = createMockPrisma();
+    const now = new Date();
+    const base = {
+      configuration: JSON.stringify(config),
+      progress: '[]',
+      checkpoint: JSON.stringify({ testIndex: 0, topics: { 'topic-1': [makeQuestion('q1', 'topic-1')] } }),
+      testIds: '[]',
+      error: null,
+      attempts: 1,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: now,
+      completedAt: null,
+      userId: 'user-1',
+    };
+    prisma.rows.set('job-running', { ...base, id: 'job-running', status: 'Running' });
+    prisma.rows.set('job-done', { ...base, id: 'job-done', status: 'Succeeded' });
+
+    const generateTests = vi.fn((cfg: TestConfiguration, _userId: string, hooks: GenerationHooks) => runWithHooks(cfg, hooks));
+    const service = new GenerationJobService(prisma as any, { generateTests } as any);
+
+    const count = await service.resumePendingJobs();
+    await service.waitForIdle();
+
+    expect(count).toBe(1);
+    expect(generateTests).toHaveBeenCalledTimes(1);
+    expect(generateTests.mock.calls[0][2].completedTopics.has('topic-1')).toBe(true);
+    expect(prisma.rows.get('job-running').status).toBe('Succeeded');
+  });
+
+  it('should fail a job whose configuration is unreadable without running it', async () => {
+    const prisma = createMockPrisma();
+    const now = new Date();
+    prisma.rows.set('job-corrupt', {
+      id: 'job-corrupt',
+      userId: 'user-1',
+      status: 'Queued',
+      configuration: JSON.stringify({ subject: 'Mathematics' }),
+      progress: '[]',
+      checkpoint: '{}',
+      testIds: '[]',
+      error: null,
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+      completedAt: null,
+    });
+    const generateTests = vi.fn();
+    const service = new GenerationJobService(prisma as any, { generateTests } as any);
+
+    await service.resumePendingJobs();
+    await service.waitForIdle();
+
+    expect(generateTests).not.toHaveBeenCalled();
+    expect(prisma.rows.get('job-corrupt')).toMatchObject({ status: 'Failed', error: 'Job configuration is missing or unreadable' });
+    const result = await service.getJob('job-corrupt');
+    expect(result.ok && result.value.configuration).toBeNull();
+  });
+});
+
+describe('describeGenerationError', () => {
+  it('should describe insufficient question errors', () => {
+    expect(describeGenerationError({
+      type: 'RetrievalError',
+      details: { type: 'InsufficientMatches', requested: 10, found: 4 },
+    })).toBe('Only 4 of 10 questions available');
+  });
+});
@@ -0,0 +1,344 @@
+// Background Generation Job Service
+// Runs test generation outside the HTTP request, persisting progress per test and per topic
+// so jobs survive a server restart and resume from the last completed topic
+
+import { PrismaClient } from '@prisma/client';
+import {
+  JobId,
+  UserId,
+  TopicId,
+  TestId,
+  Question,
+  TestConfiguration,
+  GenerationJob,
+  GenerationJobStatus,
+  TestGenerationProgress,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { TestGeneratorService, GenerationHooks, describeGenerationError } from './testGenerator';
+
+/**
+ * Questions generated for the in-progress test, keyed by topic ID
+ * Persisted after every topic so an interrupted job can pick up where it left off
+ */
+type GenerationCheckpoint = {
+  testIndex?: number;
+  topics?: Record<TopicId, Question[]>;
+};
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  if (!value) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * The configuration a job was queued with, or null if the row no longer holds a usable one
+ */
+function parseConfiguration(value: string | null | undefined): TestConfiguration | null {
+  const config = parseJson<Partial<TestConfiguration> | null>(value, null);
+  if (
+    !config ||
+    typeof config !== 'object' ||
+    !Array.isArray(config.topics) ||
+    typeof config.questionCount !== 'number' ||
+    typeof config.testCount !== 'number'
+  ) {
+    return null;
+  }
+  return config as TestConfiguration;
+}
+
+/**
+ * Restore Question objects from checkpoint JSON (dates come back as strings)
+ */
+function restoreQuestions(questions: Question[]): Question[] {
+  return questions.map(q => ({ ...q, createdAt: new Date(q.createdAt) }));
+}
+
+export class GenerationJobService {
+  private prisma: PrismaClient;
+  private testGenerator: TestGeneratorService;
+  private queue: JobId[] = [];
+  private draining: Promise<void> | null = null;
+
+  constructor(prisma: PrismaClient, testGenerator: TestGeneratorService) {
+    this.prisma = prisma;
+    this.testGenerator = testGenerator;
+  }
+
+  /**
+   * Queue a new generation job and start processing in the background
+   */
+  async enqueue(config: TestConfiguration, userId: UserId): Promise<GenerationJob> {
+    const progress: TestGenerationProgress[] = Array.from({ length: config.testCount }, (_, testIndex) => ({
+      testIndex,
+      status: 'Pending',
+      topics: [],
+    }));
+
+    const row = await this.prisma.generationJob.create({
+      data: {
+        userId,
+        status: 'Queued',
+        configuration: JSON.stringify(config),
+        progress: JSON.stringify(progress),
+      },
+    });
+
+    this.schedule(row.id);
+    return this.toGenerationJob(row);
+  }
+
+  /**
+   * Get the current state of a job
+   */
+  async getJob(jobId: JobId): Promise<Result<GenerationJob, NotFoundError>> {
+    const row = await this.prisma.generationJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'GenerationJob', id: jobId });
+    }
+
+    return Ok(this.toGenerationJob(row));
+  }
+
+  /**
+   * Re-queue a failed job; it resumes from its last completed topic
+   */
+  async resumeJob(jobId: JobId): Promise<Result<GenerationJob, NotFoundError | { type: 'InvalidState'; status: GenerationJobStatus }>> {
+    const row = await this.prisma.generationJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'GenerationJob', id: jobId });
+    }
+
+    if (row.status !== 'Failed') {
+      return Err({ type: 'InvalidState', status: row.status as GenerationJobStatus });
+    }
+
+    const updated = await this.prisma.generationJob.update({
+      where: { id: jobId },
+      data: { status: 'Queued', error: null },
+    });
+
+    this.schedule(jobId);
+    return Ok(this.toGenerationJob(updated));
+  }
+
+  /**
+   * Pick up jobs left Queued or Running by a previous server process
+   * Called once at startup; returns the number of jobs scheduled
+   */
+  async resumePendingJobs(): Promise<number> {
+    const pending = await this.prisma.generationJob.findMany({
+      where: { status: { in: ['Queued', 'Running'] } },
+      orderBy: { createdAt: 'asc' },
+      select: { id: true },
+    });
+
+    pending.forEach((job: { id: string }) => this.schedule(job.id));
+    return pending.length;
+  }
+
+  /**
+   * Resolve once every scheduled job has been processed
+   */
+  async waitForIdle(): Promise<void> {
+    while (this.draining) {
+      await this.draining;
+    }
+  }
+
+  private schedule(jobId: JobId): void {
+    if (!this.queue.includes(jobId)) {
+      this.queue.push(jobId);
+    }
+    if (!this.draining) {
+      this.draining = this.drain().finally(() => {
+        this.draining = null;
+      });
+    }
+  }
+
+  /**
+   * Process queued jobs one at a time so LLM calls are not issued in parallel
+   */
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const jobId = this.queue.shift()!;
+      try {
+        await this.runJob(jobId);
+      } catch (error) {
+        console.error(`[Generation Job] ${jobId} crashed:`, error);
+        await this.prisma.generationJob.update({
+          where: { id: jobId },
+          data: {
+            status: 'Failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            completedAt: new Date(),
+          },
+        }).catch(() => undefined);
+      }
+    }
+  }
+
+  private async runJob(jobId: JobId): Promise<void> {
+    const row = await this.prisma.generationJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!row || row.status === 'Succeeded' || row.status === 'Failed') {
+      return;
+    }
+
+    const config = parseConfiguration(row.configuration);
+    const progress = parseJson<TestGenerationProgress[]>(row.progress, []);
+    const testIds = parseJson<TestId[]>(row.testIds, []);
+    const checkpoint = parseJson<GenerationCheckpoint>(row.checkpoint, {});
+
+    if (!config) {
+      await this.prisma.generationJob.update({
+        where: { id: jobId },
+        data: { status: 'Failed', error: 'Job configuration is missing or unreadable', completedAt: new Date() },
+      });
+      return;
+    }
+
+    await this.prisma.generationJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'Running',
+        startedAt: row.startedAt ?? new Date(),
+        attempts: { increment: 1 },
+      },
+    });
+
+    // Only reuse the checkpoint if it belongs to the next test to be generated
+    const resumeIndex = testIds.length;
+    const completedTopics = new Map<TopicId, Question[]>();
+    if (checkpoint.testIndex === resumeIndex && checkpoint.topics) {
+      Object.entries(checkpoint.topics).forEach(([topicId, questions]) => {
+        completedTopics.set(topicId, restoreQuestions(questions));
+      });
+    }
+    let checkpointTopics: Record<TopicId, Question[]> = Object.fromEntries(completedTopics);
+
+    const saveProgress = (data: Record<string, unknown> = {}) =>
+      this.prisma.generationJob.update({
+        where: { id: jobId },
+        data: {
+          progress: JSON.stringify(progress),
+          ...data,
+        },
+      });
+
+    const hooks: GenerationHooks = {
+      completedTestCount: resumeIndex,
+      completedTestIds: [...testIds],
+      completedTopics,
+      onTestStarted: async (testIndex, distribution) => {
+        progress[testIndex] = {
+          testIndex,
+          status: 'Running',
+          topics: distribution
+            .filter(d => d.questionCount > 0)
+            .map(d => ({
+              topicId: d.topicId,
+              topicName: d.topicName,
+              questionCount: d.questionCount,
+              status: testIndex === resumeIndex && completedTopics.has(d.topicId)
+                ? 'Completed' as const
+                : 'Pending' as const,
+            })),
+        };
+        await saveProgress();
+      },
+      onTopicCompleted: async (testIndex, topicId, questions) => {
+        const topic = progress[testIndex]?.topics.find(t => t.topicId === topicId);
+        if (topic) {
+          topic.status = 'Completed';
+        }
+        checkpointTopics = { ...checkpointTopics, [topicId]: questions };
+        await saveProgress({
+          checkpoint: JSON.stringify({ testIndex, topics: checkpointTopics }),
+        });
+      },
+      onTestCompleted: async (testIndex, test) => {
+        progress[testIndex] = {
+          ...progress[testIndex],
+          testIndex,
+          testId: test.testId,
+          status: 'Completed',
+          ...(test.unfilledSections ? { unfilledSections: test.unfilledSections } : {}),
+          ...(test.answerVerification ? { answerVerification: test.answerVerification } : {}),
+        };
+        testIds.push(test.testId);
+        checkpointTopics = {};
+        await saveProgress({
+          testIds: JSON.stringify(testIds),
+          checkpoint: JSON.stringify({}),
+        });
+      },
+    };
+
+    const result = await this.testGenerator.generateTests(config, row.userId, hooks);
+
+    if (!result.ok) {
+      await saveProgress({
+        status: 'Failed',
+        error: describeGenerationError(result.error),
+        completedAt: new Date(),
+      });
+      return;
+    }
+
+    await saveProgress({
+      status: 'Succeeded',
+      error: null,
+      completedAt: new Date(),
+    });
+  }
+
+  private toGenerationJob(row: {
+    id: string;
+    userId: string;
+    status: string;
+    configuration: string;
+    progress: string;
+    testIds: string;
+    error: string | null;
+    attempts: number;
+    createdAt: Date;
+    updatedAt: Date;
+    startedAt: Date | null;
+    completedAt: Date | null;
+  }): GenerationJob {
+    return {
+      jobId: row.id,
+      userId: row.userId,
+      status: row.status as GenerationJobStatus,
+      configuration: parseConfiguration(row.configuration),
+      progress: parseJson<TestGenerationProgress[]>(row.progress, []),
+      testIds: parseJson<TestId[]>(row.testIds, []),
+      error: row.error || undefined,
+      attempts: row.attempts,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+      startedAt: row.startedAt || undefined,
+      completedAt: row.completedAt || undefined,
+    };
+  }
+}
@@ -0,0 +1,163 @@
+// Grade Override Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { GradeOverrideService } from './gradeOverrides';
+import { Ok, Err } from '../types';
+
+const overrideRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'override-1',
+  testId: 'test-1',
+  questionId: 'q1',
+  points: 2,
+  previousPoints: 0,
+  previousGrader: 'AnswerKey',
+  pointsEarned: 1,
+  reason: 'Correct working, option misread',
+  overriddenById: 'teacher-1',
+  createdAt: new Date('2026-10-05T09:00:00Z'),
+  overriddenBy: { name: 'Ms Rao' },
+  ...overrides,
+});
+
+const makeService = (prisma: Record<string, unknown>) => {
+  const evaluation = { evaluationId: 'eval-1', testId: 'test-1', overallScore: 75 };
+  const evaluator = {
+    reevaluateTest: vi.fn().mockResolvedValue(Ok({ previousScore: 50, evaluation })),
+  };
+  const feedbackEngine = {
+    refreshPerformanceReport: vi.fn().mockResolvedValue(Ok(undefined)),
+  };
+  const service = new GradeOverrideService(
+    {
+      test: { findUnique: vi.fn().mockResolvedValue({ userId: 'student-1', testQuestions: [{ id: 'tq-1' }] }) },
+      classMember: { findFirst: vi.fn().mockResolvedValue({ id: 'member-1' }) },
+      responseGrade: { findFirst: vi.fn().mockResolvedValue({ points: 2, pointsEarned: 0, grader: 'AnswerKey' }) },
+      gradeOverride: { create: vi.fn().mockResolvedValue(overrideRow()) },
+      shortAnswerGrade: { updateMany: vi.fn() },
+      ...prisma,
+    } as any,
+    evaluator as any,
+    feedbackEngine as any
+  );
+  return { service, evaluator, feedbackEngine, evaluation };
+};
+
+const teacher = { id: 'teacher-1', teacherOnly: true };
+const request = { pointsEarned: 1, reason: 'Correct working, option misread' };
+
+describe('GradeOverrideService', () => {
+  it('should record the original grade, re-score the test and refresh its report', async () => {
+    const create = vi.fn().mockResolvedValue(overrideRow());
+    const { service, evaluator, feedbackEngine, evaluation } = makeService({ gradeOverride: { create } });
+
+    const result = await service.overrideGrade('test-1', 'q1', teacher, request);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.override).toMatchObject({
+        overrideId: 'override-1',
+        previousPoints: 0,
+        previousGrader: 'AnswerKey',
+        pointsEarned: 1,
+        overriddenBy: { userId: 'teacher-1', name: 'Ms Rao' },
+      });
+      expect(result.value.evaluation).toBe(evaluation);
+    }
+    expect(create.mock.calls[0][0].data).toEqual({
+      testId: 'test-1',
+      questionId: 'q1',
+      points: 2,
+      previousPoints: 0,
+      previousGrader: 'AnswerKey',
+      pointsEarned: 1,
+      reason: 'Correct working, option misread',
+      overriddenById: 'teacher-1',
+    });
+    expect(evaluator.reevaluateTest).toHaveBeenCalledWith('test-1');
+    expect(feedbackEngine.refreshPerformanceReport).toHaveBeenCalledWith(evaluation, 'test-1');
+  });
+
+  it('should settle a short answer grade still waiting for review', async () => {
+    const updateMany = vi.fn();
+    const { service } = makeService({ shortAnswerGrade: { updateMany } });
+
+    await service.overrideGrade('test-1', 'q1', teacher, request);
+
+    expect(updateMany.mock.calls[0][0]).toMatchObject({
+      where: { testId: 'test-1', questionId: 'q1', reviewStatus: 'PendingReview' },
+      data: { pointsEarned: 1, reviewStatus: 'Reviewed', reviewedById: 'teacher-1' },
+    });
+  });
+
+  it('should refuse marks beyond the question and other teachers\' students', async () => {
+    const create = vi.fn();
+    const { service } = makeService({
+      gradeOverride: { create },
+      classMember: { findFirst: vi.fn().mockResolvedValue(null) },
+    });
+
+    expect(await service.overrideGrade('test-1', 'q1', { id: 'admin-1', teacherOnly: false }, { ...request, pointsEarned: 3 }))
+      .toMatchObject({ ok: false, error: { type: 'InvalidPoints' } });
+    expect(await service.overrideGrade('test-1', 'q1', { id: 'teacher-2', teacherOnly: true }, request))
+      .toMatchObject({ ok: false, error: { type: 'Forbidden' } });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should refuse tests that were not evaluated and questions not on the test', async () => {
+    const findUnique = vi.fn().mockResolvedValue({ userId: 'student-1', testQuestions: [] });
+    const { service, evaluator } = makeService({
+      test: { findUnique },
+      responseGrade: { findFirst: vi.fn().mockResolvedValue(null) },
+      evaluation: { findUnique: vi.fn().mockResolvedValue(null) },
+    });
+    const admin = { id: 'admin-1', teacherOnly: false };
+
+    expect(await service.overrideGrade('test-1', 'q9', admin, request)).toEqual({
+      ok: false,
+      error: { type: 'NotFound', resource: 'Question', id: 'q9' },
+    });
+
+    findUnique.mockResolvedValue({ userId: 'student-1', testQuestions: [{ id: 'tq-1' }] });
+    expect(await service.overrideGrade('test-1', 'q1', admin, request)).toEqual({
+      ok: false,
+      error: { type: 'NotEvaluated', testId: 'test-1' },
+    });
+    expect(evaluator.reevaluateTest).not.toHaveBeenCalled();
+  });
+
+  it('should store the grades of a test evaluated before grades were stored, then override', async () => {
+    const findFirst = vi.fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ points: 2, pointsEarned: 0, grader: 'AnswerKey' });
+    const { service, evaluator } = makeService({
+      responseGrade: { findFirst },
+      evaluation: { findUnique: vi.fn().mockResolvedValue({ id: 'eval-1' }) },
+    });
+
+    const result = await service.overrideGrade('test-1', 'q1', teacher, request);
+
+    expect(result.ok).toBe(true);
+    expect(evaluator.reevaluateTest).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a failed re-score but keep the override', async () => {
+    const create = vi.fn().mockResolvedValue(overrideRow());
+    const { service, evaluator } = makeService({ gradeOverride: { create } });
+    evaluator.reevaluateTest.mockResolvedValue(Err({ type: 'EvaluationFailed', reason: 'No submitted answers' }));
+
+    const result = await service.overrideGrade('test-1', 'q1', teacher, request);
+
+    expect(result).toEqual({ ok: false, error: { type: 'RescoreFailed', reason: 'No submitted answers' } });
+    expect(create).toHaveBeenCalled();
+  });
+
+  it('should list the history of a test oldest first', async () => {
+    const findMany = vi.fn().mockResolvedValue([overrideRow(), overrideRow({ id: 'override-2', pointsEarned: 2 })]);
+    const { service } = makeService({ gradeOverride: { findMany } });
+
+    const history = await service.getOverrideHistory('test-1');
+
+    expect(findMany.mock.calls[0][0]).toMatchObject({ where: { testId: 'test-1' }, orderBy: { createdAt: 'asc' } });
+    expect(history.map(override => override.overrideId)).toEqual(['override-1', 'override-2']);
+  });
+});
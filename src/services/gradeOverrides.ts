@@ -0,0 +1,187 @@
+// Grade Override Service
+// Teachers and admins change the marks of a response after a test was evaluated; the test's
+// evaluation, topic scores and performance report are re-scored and every change is kept
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  TestId,
+  QuestionId,
+  EvaluationResult,
+  GradeOverride,
+  GradeOverrideRequest,
+  GradeOverrideError,
+  ResponseGraderType,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { EvaluatorService } from './evaluator';
+import { FeedbackEngine } from './feedbackEngine';
+
+export class GradeOverrideService {
+  private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
+  private feedbackEngine: FeedbackEngine;
+
+  constructor(prisma: PrismaClient, evaluator: EvaluatorService, feedbackEngine: FeedbackEngine) {
+    this.prisma = prisma;
+    this.evaluator = evaluator;
+    this.feedbackEngine = feedbackEngine;
+  }
+
+  /**
+   * Set the marks of one response of an evaluated test and re-score the test
+   * A teacher may only change the marks of students in their classes; an admin may change any.
+   * A ShortAnswer grade still waiting for review is settled by the override
+   */
+  async overrideGrade(
+    testId: TestId,
+    questionId: QuestionId,
+    overrider: { id: UserId; teacherOnly: boolean },
+    request: GradeOverrideRequest
+  ): Promise<Result<{ override: GradeOverride; evaluation: EvaluationResult }, GradeOverrideError | NotFoundError>> {
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: { userId: true, testQuestions: { where: { questionId }, select: { id: true } } },
+    });
+    if (!test) {
+      return Err({ type: 'NotFound', resource: 'Test', id: testId });
+    }
+    if (test.testQuestions.length === 0) {
+      return Err({ type: 'NotFound', resource: 'Question', id: questionId });
+    }
+    if (overrider.teacherOnly) {
+      const membership = await this.prisma.classMember.findFirst({
+        where: { userId: test.userId, class: { teacherId: overrider.id } },
+        select: { id: true },
+      });
+      if (!membership) {
+        return Err({ type: 'Forbidden', message: 'You can only change marks for students in your classes' });
+      }
+    }
+
+    const grade = await this.findResponseGrade(testId, questionId);
+    if (!grade.ok) {
+      return grade;
+    }
+    if (request.pointsEarned < 0 || request.pointsEarned > grade.value.points) {
+      return Err({
+        type: 'InvalidPoints',
+        message: `Points must be between 0 and ${grade.value.points}, the marks the question carries`,
+      });
+    }
+
+    const override: OverrideRow = await this.prisma.gradeOverride.create({
+      data: {
+        testId,
+        questionId,
+        points: grade.value.points,
+        previousPoints: grade.value.pointsEarned,
+        previousGrader: grade.value.grader,
+        pointsEarned: request.pointsEarned,
+        reason: request.reason,
+        overriddenById: overrider.id,
+      },
+      include: { overriddenBy: { select: { name: true } } },
+    });
+    await this.prisma.shortAnswerGrade.updateMany({
+      where: { testId, questionId, reviewStatus: 'PendingReview' },
+      data: {
+        pointsEarned: request.pointsEarned,
+        reviewStatus: 'Reviewed',
+        reviewedById: overrider.id,
+        reviewedAt: override.createdAt,
+      },
+    });
+
+    // The override is stored either way and stands whenever the test is next re-scored
+    const reevaluation = await this.evaluator.reevaluateTest(testId);
+    if (!reevaluation.ok) {
+      return Err({ type: 'RescoreFailed', reason: reevaluation.error.reason });
+    }
+    const report = await this.feedbackEngine.refreshPerformanceReport(reevaluation.value.evaluation, testId);
+    if (!report.ok) {
+      console.error(`Failed to refresh the performance report of test ${testId}:`, report.error);
+    }
+
+    return Ok({ override: toGradeOverride(override), evaluation: reevaluation.value.evaluation });
+  }
+
+  /**
+   * Every mark a teacher has changed on a test, oldest first
+   */
+  async getOverrideHistory(testId: TestId): Promise<GradeOverride[]> {
+    const rows = await this.prisma.gradeOverride.findMany({
+      where: { testId },
+      include: { overriddenBy: { select: { name: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return (rows as OverrideRow[]).map(toGradeOverride);
+  }
+
+  /**
+   * How the evaluation marked a response
+   * Tests evaluated before responses' grades were stored are re-scored once to store them
+   */
+  private async findResponseGrade(
+    testId: TestId,
+    questionId: QuestionId
+  ): Promise<Result<ResponseGradeRow, GradeOverrideError>> {
+    const where = { questionId, evaluation: { testId } };
+    const grade: ResponseGradeRow | null = await this.prisma.responseGrade.findFirst({ where });
+    if (grade) {
+      return Ok(grade);
+    }
+
+    const evaluation = await this.prisma.evaluation.findUnique({ where: { testId }, select: { id: true } });
+    if (!evaluation) {
+      return Err({ type: 'NotEvaluated', testId });
+    }
+    const reevaluation = await this.evaluator.reevaluateTest(testId);
+    if (!reevaluation.ok) {
+      return Err({ type: 'RescoreFailed', reason: reevaluation.error.reason });
+    }
+
+    const stored: ResponseGradeRow | null = await this.prisma.responseGrade.findFirst({ where });
+    return stored ? Ok(stored) : Err({ type: 'NotEvaluated', testId });
+  }
+}
+
+function toGradeOverride(row: OverrideRow): GradeOverride {
+  return {
+    overrideId: row.id,
+    testId: row.testId,
+    questionId: row.questionId,
+    points: row.points,
+    previousPoints: row.previousPoints,
+    previousGrader: row.previousGrader as ResponseGraderType,
+    pointsEarned: row.pointsEarned,
+    reason: row.reason,
+    overriddenBy: { userId: row.overriddenById, name: row.overriddenBy?.name ?? undefined },
+    createdAt: row.createdAt,
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type OverrideRow = {
+  id: string;
+  testId: string;
+  questionId: string;
+  points: number;
+  previousPoints: number;
+  previousGrader: string;
+  pointsEarned: number;
+  reason: string;
+  overriddenById: string;
+  createdAt: Date;
+  overriddenBy?: { name: string | null };
+};
+
+type ResponseGradeRow = {
+  points: number;
+  pointsEarned: number;
+  grader: string;
+};
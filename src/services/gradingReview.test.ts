@@ -0,0 +1,118 @@
+// Grading Review Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { GradingReviewService } from './gradingReview';
+import { Ok } from '../types';
+
+const gradeRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'grade-1',
+  testId: 'test-1',
+  questionId: 'q1',
+  userAnswer: 'Water evaporates and falls as rain',
+  points: 3,
+  pointsEarned: 1,
+  matchedPoints: '[0]',
+  confidence: 0.45,
+  method: 'LLM',
+  feedback: null,
+  reviewStatus: 'PendingReview',
+  reviewedAt: null,
+  createdAt: new Date('2026-10-01T09:00:00Z'),
+  test: { userId: 'student-1' },
+  question: {
+    questionText: 'Describe the water cycle.',
+    correctAnswers: JSON.stringify(['Evaporation, condensation and precipitation']),
+    rubric: JSON.stringify([{ point: 'Evaporation', marks: 1 }, { point: 'Condensation', marks: 1 }, { point: 'Precipitation', marks: 1 }]),
+  },
+  ...overrides,
+});
+
+const makeService = (prisma: Record<string, unknown>, overallScore = 80) => {
+  const evaluator = {
+    reevaluateTest: vi.fn().mockResolvedValue(Ok({ previousScore: 70, evaluation: { overallScore } })),
+  };
+  const feedbackEngine = {
+    refreshPerformanceReport: vi.fn().mockResolvedValue(Ok(undefined)),
+  };
+  return {
+    service: new GradingReviewService(prisma as any, evaluator as any, feedbackEngine as any),
+    evaluator,
+    feedbackEngine,
+  };
+};
+
+describe('GradingReviewService', () => {
+  it('should list only the pending grades of a teacher\'s own students', async () => {
+    const findMany = vi.fn().mockResolvedValue([gradeRow()]);
+    const count = vi.fn().mockResolvedValue(1);
+    const { service } = makeService({ shortAnswerGrade: { findMany, count } });
+
+    const result = await service.listPendingReviews('teacher-1', { limit: 25, offset: 0 });
+
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      reviewStatus: 'PendingReview',
+      test: { user: { classMemberships: { some: { class: { teacherId: 'teacher-1' } } } } },
+    });
+    expect(result.total).toBe(1);
+    expect(result.grades[0]).toMatchObject({
+      gradeId: 'grade-1',
+      matchedPoints: [0],
+      reviewStatus: 'PendingReview',
+      question: { correctAnswers: ['Evaporation, condensation and precipitation'] },
+    });
+    expect(result.grades[0].question?.rubric).toHaveLength(3);
+  });
+
+  it('should store the reviewed marks and re-score the test and its report', async () => {
+    const update = vi.fn().mockResolvedValue(gradeRow({ pointsEarned: 2, reviewStatus: 'Reviewed', reviewedAt: new Date() }));
+    const { service, evaluator, feedbackEngine } = makeService({
+      shortAnswerGrade: { findUnique: vi.fn().mockResolvedValue(gradeRow()), update },
+      classMember: { findFirst: vi.fn().mockResolvedValue({ id: 'member-1' }) },
+    });
+
+    const result = await service.resolveReview('grade-1', { id: 'teacher-1', teacherOnly: true }, { pointsEarned: 2 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.grade).toMatchObject({ pointsEarned: 2, reviewStatus: 'Reviewed' });
+      expect(result.value.overallScore).toBe(80);
+    }
+    expect(update.mock.calls[0][0].data).toMatchObject({
+      pointsEarned: 2,
+      reviewStatus: 'Reviewed',
+      reviewedById: 'teacher-1',
+    });
+    expect(evaluator.reevaluateTest).toHaveBeenCalledWith('test-1');
+    expect(feedbackEngine.refreshPerformanceReport).toHaveBeenCalledWith({ overallScore: 80 }, 'test-1');
+  });
+
+  it('should refuse marks beyond the question, reviewed grades and other teachers\' students', async () => {
+    const findUnique = vi.fn().mockResolvedValue(gradeRow());
+    const { service } = makeService({
+      shortAnswerGrade: { findUnique },
+      classMember: { findFirst: vi.fn().mockResolvedValue(null) },
+    });
+    const admin = { id: 'admin-1', teacherOnly: false };
+
+    expect(await service.resolveReview('grade-1', admin, { pointsEarned: 4 })).toMatchObject({
+      ok: false,
+      error: { type: 'InvalidPoints' },
+    });
+    expect(await service.resolveReview('grade-1', { id: 'teacher-2', teacherOnly: true }, { pointsEarned: 2 })).toMatchObject({
+      ok: false,
+      error: { type: 'Forbidden' },
+    });
+
+    findUnique.mockResolvedValue(gradeRow({ reviewStatus: 'Reviewed' }));
+    expect(await service.resolveReview('grade-1', admin, { pointsEarned: 2 })).toEqual({
+      ok: false,
+      error: { type: 'AlreadyReviewed', gradeId: 'grade-1' },
+    });
+
+    findUnique.mockResolvedValue(null);
+    expect(await service.resolveReview('missing', admin, { pointsEarned: 2 })).toEqual({
+      ok: false,
+      error: { type: 'NotFound', resource: 'ShortAnswerGrade', id: 'missing' },
+    });
+  });
+});
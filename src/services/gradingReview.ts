@@ -0,0 +1,174 @@
+// Grading Review Service
+// ShortAnswer grades the grader was not confident of wait here for a teacher to confirm or
+// change the marks; a reviewed grade replaces the automatic one and the test and its
+// performance report are re-scored
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  GradeId,
+  ShortAnswerGrade,
+  ShortAnswerGradingMethod,
+  GradeReviewStatus,
+  GradeReviewSearch,
+  GradeReviewDecision,
+  GradeReviewError,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { EvaluatorService } from './evaluator';
+import { FeedbackEngine } from './feedbackEngine';
+import { parseRubric } from '../lib/questionFormats';
+
+export class GradingReviewService {
+  private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
+  private feedbackEngine: FeedbackEngine;
+
+  constructor(prisma: PrismaClient, evaluator: EvaluatorService, feedbackEngine: FeedbackEngine) {
+    this.prisma = prisma;
+    this.evaluator = evaluator;
+    this.feedbackEngine = feedbackEngine;
+  }
+
+  /**
+   * Grades waiting for review, oldest first
+   * A teacher sees only the grades of students in their classes; an admin (no teacherId) sees all
+   */
+  async listPendingReviews(
+    teacherId: UserId | undefined,
+    search: GradeReviewSearch
+  ): Promise<{ grades: ShortAnswerGrade[]; total: number }> {
+    const where = {
+      reviewStatus: 'PendingReview',
+      ...(teacherId && {
+        test: { user: { classMemberships: { some: { class: { teacherId } } } } },
+      }),
+    };
+
+    const [rows, total] = await Promise.all([
+      this.prisma.shortAnswerGrade.findMany({
+        where,
+        include: { question: true },
+        orderBy: { createdAt: 'asc' },
+        skip: search.offset,
+        take: search.limit,
+      }),
+      this.prisma.shortAnswerGrade.count({ where }),
+    ]);
+
+    return { grades: (rows as GradeRow[]).map(toShortAnswerGrade), total };
+  }
+
+  /**
+   * Set the marks of a grade waiting for review and re-score its test
+   * Returns the reviewed grade and, when the test was re-scored, its new overall score
+   */
+  async resolveReview(
+    gradeId: GradeId,
+    reviewer: { id: UserId; teacherOnly: boolean },
+    decision: GradeReviewDecision
+  ): Promise<Result<{ grade: ShortAnswerGrade; overallScore?: number }, GradeReviewError | NotFoundError>> {
+    const grade: (GradeRow & { test: { userId: string } }) | null = await this.prisma.shortAnswerGrade.findUnique({
+      where: { id: gradeId },
+      include: { test: { select: { userId: true } } },
+    });
+    if (!grade) {
+      return Err({ type: 'NotFound', resource: 'ShortAnswerGrade', id: gradeId });
+    }
+    if (reviewer.teacherOnly) {
+      const membership = await this.prisma.classMember.findFirst({
+        where: { userId: grade.test.userId, class: { teacherId: reviewer.id } },
+        select: { id: true },
+      });
+      if (!membership) {
+        return Err({ type: 'Forbidden', message: 'You can only review answers from students in your classes' });
+      }
+    }
+    if (grade.reviewStatus !== 'PendingReview') {
+      return Err({ type: 'AlreadyReviewed', gradeId });
+    }
+    if (decision.pointsEarned < 0 || decision.pointsEarned > grade.points) {
+      return Err({
+        type: 'InvalidPoints',
+        message: `Points must be between 0 and ${grade.points}, the marks the question carries`,
+      });
+    }
+
+    const updated: GradeRow = await this.prisma.shortAnswerGrade.update({
+      where: { id: gradeId },
+      data: {
+        pointsEarned: decision.pointsEarned,
+        feedback: decision.feedback ?? grade.feedback,
+        reviewStatus: 'Reviewed',
+        reviewedById: reviewer.id,
+        reviewedAt: new Date(),
+      },
+      include: { question: true },
+    });
+
+    const reevaluation = await this.evaluator.reevaluateTest(grade.testId);
+    if (!reevaluation.ok) {
+      console.error(`Failed to re-score test ${grade.testId} after review:`, reevaluation.error);
+    } else {
+      const report = await this.feedbackEngine.refreshPerformanceReport(reevaluation.value.evaluation, grade.testId);
+      if (!report.ok) {
+        console.error(`Failed to refresh the performance report of test ${grade.testId}:`, report.error);
+      }
+    }
+
+    return Ok({
+      grade: toShortAnswerGrade(updated),
+      overallScore: reevaluation.ok ? reevaluation.value.evaluation.overallScore : undefined,
+    });
+  }
+}
+
+function toShortAnswerGrade(row: GradeRow): ShortAnswerGrade {
+  return {
+    gradeId: row.id,
+    testId: row.testId,
+    questionId: row.questionId,
+    userAnswer: row.userAnswer,
+    points: row.points,
+    pointsEarned: row.pointsEarned,
+    matchedPoints: JSON.parse(row.matchedPoints),
+    confidence: row.confidence,
+    method: row.method as ShortAnswerGradingMethod,
+    feedback: row.feedback ?? undefined,
+    reviewStatus: row.reviewStatus as GradeReviewStatus,
+    reviewedAt: row.reviewedAt ?? undefined,
+    createdAt: row.createdAt,
+    question: row.question
+      ? {
+          questionText: row.question.questionText,
+          correctAnswers: JSON.parse(row.question.correctAnswers || '[]'),
+          rubric: parseRubric(row.question.rubric),
+        }
+      : undefined,
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type GradeRow = {
+  id: string;
+  testId: string;
+  questionId: string;
+  userAnswer: string;
+  points: number;
+  pointsEarned: number;
+  matchedPoints: string;
+  confidence: number;
+  method: string;
+  feedback: string | null;
+  reviewStatus: string;
+  reviewedAt: Date | null;
+  createdAt: Date;
+  question?: {
+    questionText: string;
+    correctAnswers: string;
+    rubric: string | null;
+  };
+};
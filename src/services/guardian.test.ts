@@ -0,0 +1,166 @@
+// Guardian Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { GuardianService } from './guardian';
+
+const linkRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'link-1',
+  guardianId: 'guardian-1',
+  studentEmail: 'student@example.com',
+  studentId: null,
+  status: 'Pending',
+  createdAt: new Date('2026-03-01T09:00:00Z'),
+  respondedAt: null,
+  guardian: { email: 'parent@example.com', name: 'Parent' },
+  student: null,
+  ...overrides,
+});
+
+function createService(prisma: Record<string, unknown>, performanceHistory: Record<string, unknown> = {}) {
+  return new GuardianService(prisma as any, performanceHistory as any);
+}
+
+describe('GuardianService', () => {
+  describe('requestLink', () => {
+    it('should not let a guardian link to their own email', async () => {
+      const service = createService({ guardianLink: { findUnique: vi.fn() } });
+
+      const result = await service.requestLink('guardian-1', 'parent@example.com', ' Parent@Example.com ');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('InvalidRequest');
+      }
+    });
+
+    it('should reject a second request while one is pending', async () => {
+      const create = vi.fn();
+      const service = createService({
+        guardianLink: { findUnique: vi.fn().mockResolvedValue(linkRow()), create },
+      });
+
+      const result = await service.requestLink('guardian-1', 'parent@example.com', 'student@example.com');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('AlreadyLinked');
+      }
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should re-open a declined request as pending', async () => {
+      const update = vi.fn().mockResolvedValue(linkRow());
+      const service = createService({
+        guardianLink: { findUnique: vi.fn().mockResolvedValue(linkRow({ status: 'Declined' })), update },
+      });
+
+      const result = await service.requestLink('guardian-1', 'parent@example.com', 'STUDENT@example.com');
+
+      expect(result.ok).toBe(true);
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({
+        where: { id: 'link-1' },
+        data: expect.objectContaining({ status: 'Pending', studentId: null }),
+      }));
+    });
+  });
+
+  describe('respondToLink', () => {
+    it('should only let the addressed student respond', async () => {
+      const update = vi.fn();
+      const service = createService({
+        guardianLink: { findUnique: vi.fn().mockResolvedValue(linkRow()), update },
+      });
+
+      const result = await service.respondToLink('link-1', 'student-2', 'someone@example.com', true);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('Forbidden');
+      }
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should attach the student when approving', async () => {
+      const update = vi.fn().mockResolvedValue(linkRow({ status: 'Approved', studentId: 'student-1' }));
+      const service = createService({
+        guardianLink: { findUnique: vi.fn().mockResolvedValue(linkRow()), update },
+      });
+
+      const result = await service.respondToLink('link-1', 'student-1', 'student@example.com', true);
+
+      expect(result.ok).toBe(true);
+      expect(update.mock.calls[0][0].data).toMatchObject({ status: 'Approved', studentId: 'student-1' });
+    });
+  });
+
+  describe('read-only access', () => {
+    it('should refuse an overview without an approved link', async () => {
+      const getTestHistory = vi.fn();
+      const service = createService(
+        { guardianLink: { findFirst: vi.fn().mockResolvedValue(null) } },
+        { getTestHistory }
+      );
+
+      const result = await service.getStudentOverview('guardian-1', 'student-1');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('Forbidden');
+      }
+      expect(getTestHistory).not.toHaveBeenCalled();
+    });
+
+    it('should not expose reports for tests that are not submitted', async () => {
+      const getHistoricalPerformanceReport = vi.fn();
+      const service = createService(
+        {
+          guardianLink: { findFirst: vi.fn().mockResolvedValue(linkRow({ status: 'Approved' })) },
+          test: { findUnique: vi.fn().mockResolvedValue({ userId: 'student-1', status: 'InProgress' }) },
+        },
+        { getHistoricalPerformanceReport }
+      );
+
+      const result = await service.getStudentReport('guardian-1', 'student-1', 'test-1');
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('NotFound');
+      }
+      expect(getHistoricalPerformanceReport).not.toHaveBeenCalled();
+    });
+
+    it('should list weak topics from the latest report in each subject', async () => {
+      const weak = (topicName: string) =>
+        JSON.stringify([{ topicId: topicName.toLowerCase(), topicName, score: 40, questionsAttempted: 5, questionsCorrect: 2 }]);
+      const service = createService(
+        {
+          guardianLink: { findFirst: vi.fn().mockResolvedValue(linkRow({ status: 'Approved' })) },
+          user: {
+            findUnique: vi.fn().mockResolvedValue({
+              id: 'student-1', email: 'student@example.com', name: null, curriculum: 'CBSE', grade: 8,
+            }),
+          },
+          performanceReport: {
+            findMany: vi.fn().mockResolvedValue([
+              { testId: 't3', weakTopics: weak('Fractions'), createdAt: new Date('2026-03-03'), test: { subject: 'Mathematics' } },
+              { testId: 't2', weakTopics: weak('Decimals'), createdAt: new Date('2026-03-02'), test: { subject: 'Mathematics' } },
+              { testId: 't1', weakTopics: weak('Motion'), createdAt: new Date('2026-03-01'), test: { subject: 'Physics' } },
+            ]),
+          },
+        },
+        {
+          getTestHistory: vi.fn().mockResolvedValue([]),
+          getAllPerformanceTrends: vi.fn().mockResolvedValue(new Map([['Mathematics', []]])),
+        }
+      );
+
+      const result = await service.getStudentOverview('guardian-1', 'student-1');
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.value.weakTopics.map(t => t.topicName)).toEqual(['Fractions', 'Motion']);
+        expect(result.value.trends).toEqual({ Mathematics: [] });
+      }
+    });
+  });
+});
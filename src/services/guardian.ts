@@ -0,0 +1,327 @@
+// Guardian Service
+// Student-approved links that give parents/guardians read-only access to a student's results
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  TestId,
+  Curriculum,
+  GuardianLink,
+  GuardianLinkStatus,
+  GuardianStudentOverview,
+  GuardianError,
+  PerformanceReport,
+  PerformanceTrend,
+  WeakTopic,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { PerformanceHistoryService } from './performanceHistory';
+
+const LINK_INCLUDE = {
+  guardian: { select: { email: true, name: true } },
+  student: { select: { name: true } },
+};
+
+export class GuardianService {
+  private prisma: PrismaClient;
+  private performanceHistory: PerformanceHistoryService;
+
+  constructor(prisma: PrismaClient, performanceHistory: PerformanceHistoryService) {
+    this.prisma = prisma;
+    this.performanceHistory = performanceHistory;
+  }
+
+  // ==========================================================================
+  // Linking
+  // ==========================================================================
+
+  /**
+   * Ask to be linked to a student by email; the student must approve
+   * Does not reveal whether an account exists for the email
+   */
+  async requestLink(
+    guardianId: UserId,
+    guardianEmail: string,
+    studentEmail: string
+  ): Promise<Result<GuardianLink, GuardianError>> {
+    const normalizedEmail = studentEmail.trim().toLowerCase();
+    if (normalizedEmail === guardianEmail.trim().toLowerCase()) {
+      return Err({ type: 'InvalidRequest', message: 'You cannot link to your own account' });
+    }
+
+    const existing = await this.prisma.guardianLink.findUnique({
+      where: { guardianId_studentEmail: { guardianId, studentEmail: normalizedEmail } },
+    });
+
+    if (existing && (existing.status === 'Pending' || existing.status === 'Approved')) {
+      return Err({ type: 'AlreadyLinked', studentEmail: normalizedEmail });
+    }
+
+    const row = existing
+      ? await this.prisma.guardianLink.update({
+          where: { id: existing.id },
+          data: { status: 'Pending', studentId: null, respondedAt: null, createdAt: new Date() },
+          include: LINK_INCLUDE,
+        })
+      : await this.prisma.guardianLink.create({
+          data: { guardianId, studentEmail: normalizedEmail },
+          include: LINK_INCLUDE,
+        });
+
+    return Ok(this.toLink(row));
+  }
+
+  /**
+   * Links a guardian has requested, newest first (revoked links are omitted)
+   */
+  async listGuardianLinks(guardianId: UserId): Promise<GuardianLink[]> {
+    const rows = await this.prisma.guardianLink.findMany({
+      where: { guardianId, status: { not: 'Revoked' } },
+      include: LINK_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return rows.map((row: LinkRow) => this.toLink(row));
+  }
+
+  /**
+   * Pending requests addressed to a student and the guardians they have approved
+   */
+  async listStudentLinks(studentId: UserId, studentEmail: string): Promise<GuardianLink[]> {
+    const rows = await this.prisma.guardianLink.findMany({
+      where: {
+        OR: [
+          { studentEmail: studentEmail.trim().toLowerCase(), status: 'Pending' },
+          { studentId, status: 'Approved' },
+        ],
+      },
+      include: LINK_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return rows.map((row: LinkRow) => this.toLink(row));
+  }
+
+  /**
+   * Approve or decline a pending request; only the addressed student can respond
+   */
+  async respondToLink(
+    linkId: string,
+    studentId: UserId,
+    studentEmail: string,
+    approve: boolean
+  ): Promise<Result<GuardianLink, NotFoundError | GuardianError>> {
+    const link = await this.prisma.guardianLink.findUnique({ where: { id: linkId } });
+
+    if (!link || link.status !== 'Pending') {
+      return Err({ type: 'NotFound', resource: 'GuardianLink', id: linkId });
+    }
+    if (link.studentEmail !== studentEmail.trim().toLowerCase()) {
+      return Err({ type: 'Forbidden', message: 'This request was sent to a different email address' });
+    }
+    if (link.guardianId === studentId) {
+      return Err({ type: 'InvalidRequest', message: 'You cannot approve your own request' });
+    }
+
+    const row = await this.prisma.guardianLink.update({
+      where: { id: linkId },
+      data: approve
+        ? { status: 'Approved', studentId, respondedAt: new Date() }
+        : { status: 'Declined', respondedAt: new Date() },
+      include: LINK_INCLUDE,
+    });
+
+    return Ok(this.toLink(row));
+  }
+
+  /**
+   * End a link; either the guardian or the linked student may revoke it
+   */
+  async revokeLink(linkId: string, userId: UserId): Promise<Result<void, NotFoundError | GuardianError>> {
+    const link = await this.prisma.guardianLink.findUnique({ where: { id: linkId } });
+
+    if (!link || link.status === 'Revoked') {
+      return Err({ type: 'NotFound', resource: 'GuardianLink', id: linkId });
+    }
+    if (link.guardianId !== userId && link.studentId !== userId) {
+      return Err({ type: 'Forbidden', message: 'You are not part of this link' });
+    }
+
+    await this.prisma.guardianLink.update({
+      where: { id: linkId },
+      data: { status: 'Revoked', respondedAt: new Date() },
+    });
+
+    return Ok(undefined);
+  }
+
+  // ==========================================================================
+  // Read-only student data
+  // ==========================================================================
+
+  /**
+   * Submitted-test history, current weak topics and score trends for a linked student
+   */
+  async getStudentOverview(
+    guardianId: UserId,
+    studentId: UserId
+  ): Promise<Result<GuardianStudentOverview, NotFoundError | GuardianError>> {
+    const access = await this.checkAccess(guardianId, studentId);
+    if (!access.ok) {
+      return access;
+    }
+
+    const student = await this.prisma.user.findUnique({
+      where: { id: studentId },
+      select: { id: true, email: true, name: true, curriculum: true, grade: true },
+    });
+    if (!student) {
+      return Err({ type: 'NotFound', resource: 'User', id: studentId });
+    }
+
+    const [history, trendsBySubject, weakTopics] = await Promise.all([
+      this.performanceHistory.getTestHistory(studentId),
+      this.performanceHistory.getAllPerformanceTrends(studentId),
+      this.getCurrentWeakTopics(studentId),
+    ]);
+
+    const trends: Record<string, PerformanceTrend[]> = {};
+    trendsBySubject.forEach((subjectTrends, subject) => {
+      trends[subject] = subjectTrends;
+    });
+
+    return Ok({
+      student: {
+        userId: student.id,
+        email: student.email,
+        name: student.name || undefined,
+        curriculum: student.curriculum as Curriculum,
+        grade: student.grade,
+      },
+      history,
+      weakTopics,
+      trends,
+    });
+  }
+
+  /**
+   * Performance report (scores, weak topics, suggestions) for one of the student's submitted tests
+   * Reports only exist after submission, so answer keys of unsubmitted tests are never reachable
+   */
+  async getStudentReport(
+    guardianId: UserId,
+    studentId: UserId,
+    testId: TestId
+  ): Promise<Result<PerformanceReport, NotFoundError | GuardianError>> {
+    const access = await this.checkAccess(guardianId, studentId);
+    if (!access.ok) {
+      return access;
+    }
+
+    const test = await this.prisma.test.findUnique({
+      where: { id: testId },
+      select: { userId: true, status: true },
+    });
+    if (!test || test.userId !== studentId || test.status !== 'Submitted') {
+      return Err({ type: 'NotFound', resource: 'Test', id: testId });
+    }
+
+    return this.performanceHistory.getHistoricalPerformanceReport(testId);
+  }
+
+  /**
+   * Whether a guardian has an approved link to a student
+   */
+  async checkAccess(guardianId: UserId, studentId: UserId): Promise<Result<void, GuardianError>> {
+    const link = await this.prisma.guardianLink.findFirst({
+      where: { guardianId, studentId, status: 'Approved' },
+    });
+
+    if (!link) {
+      return Err({ type: 'Forbidden', message: 'You do not have access to this student' });
+    }
+
+    return Ok(undefined);
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Weak topics from the most recent performance report in each subject
+   */
+  private async getCurrentWeakTopics(studentId: UserId): Promise<GuardianStudentOverview['weakTopics']> {
+    const reports = await this.prisma.performanceReport.findMany({
+      where: { userId: studentId },
+      include: { test: { select: { subject: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const seenSubjects = new Set<string>();
+    const weakTopics: GuardianStudentOverview['weakTopics'] = [];
+
+    for (const report of reports as ReportRow[]) {
+      if (seenSubjects.has(report.test.subject)) {
+        continue;
+      }
+      seenSubjects.add(report.test.subject);
+
+      let topics: WeakTopic[] = [];
+      try {
+        topics = JSON.parse(report.weakTopics);
+      } catch {
+        topics = [];
+      }
+
+      for (const topic of topics) {
+        weakTopics.push({
+          ...topic,
+          subject: report.test.subject,
+          testId: report.testId,
+          identifiedAt: report.createdAt,
+        });
+      }
+    }
+
+    return weakTopics;
+  }
+
+  private toLink(row: LinkRow): GuardianLink {
+    return {
+      linkId: row.id,
+      guardianId: row.guardianId,
+      guardianEmail: row.guardian.email,
+      guardianName: row.guardian.name || undefined,
+      studentEmail: row.studentEmail,
+      studentId: row.studentId || undefined,
+      studentName: row.student?.name || undefined,
+      status: row.status as GuardianLinkStatus,
+      createdAt: row.createdAt,
+      respondedAt: row.respondedAt || undefined,
+    };
+  }
+}
+
+// Row shapes returned by the Prisma queries above
+type LinkRow = {
+  id: string;
+  guardianId: string;
+  studentEmail: string;
+  studentId: string | null;
+  status: string;
+  createdAt: Date;
+  respondedAt: Date | null;
+  guardian: { email: string; name: string | null };
+  student: { name: string | null } | null;
+};
+
+type ReportRow = {
+  testId: string;
+  weakTopics: string;
+  createdAt: Date;
+  test: { subject: string };
+};
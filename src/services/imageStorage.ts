@@ -0,0 +1,101 @@
+// Image storage backends
+// Keep the bytes of question images either on their QuestionImage row in the database or
+// as files in a local directory; the row always holds the image's type and size
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { PrismaClient } from '@prisma/client';
+import { ImageId } from '../types';
+
+export type ImageStorageName = 'database' | 'local';
+
+export interface ImageStorage {
+  readonly name: ImageStorageName;
+  /** Store the bytes of an image whose QuestionImage row already exists */
+  save(imageId: ImageId, data: Buffer): Promise<void>;
+  /** The bytes of an image, or null if this storage does not have them */
+  load(imageId: ImageId): Promise<Buffer | null>;
+}
+
+export const DEFAULT_IMAGE_DIR = './uploads/images';
+
+/**
+ * Stores image bytes in the data column of the QuestionImage row
+ */
+export class DatabaseImageStorage implements ImageStorage {
+  readonly name = 'database';
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async save(imageId: ImageId, data: Buffer): Promise<void> {
+    await this.prisma.questionImage.update({ where: { id: imageId }, data: { data } });
+  }
+
+  async load(imageId: ImageId): Promise<Buffer | null> {
+    const row: { data: Buffer | Uint8Array | null } | null = await this.prisma.questionImage.findUnique({
+      where: { id: imageId },
+      select: { data: true },
+    });
+    return row?.data ? Buffer.from(row.data) : null;
+  }
+}
+
+/**
+ * Stores each image as a file named by its id
+ */
+export class LocalImageStorage implements ImageStorage {
+  readonly name = 'local';
+  private directory: string;
+
+  constructor(directory: string = DEFAULT_IMAGE_DIR) {
+    this.directory = resolve(directory);
+  }
+
+  async save(imageId: ImageId, data: Buffer): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(this.pathOf(imageId), data);
+  }
+
+  async load(imageId: ImageId): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathOf(imageId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Ids are generated UUIDs; anything else is refused rather than used as a path
+  private pathOf(imageId: ImageId): string {
+    if (!/^[\w-]+$/.test(imageId)) {
+      throw new Error(`Invalid image id "${imageId}"`);
+    }
+    return join(this.directory, imageId);
+  }
+}
+
+/**
+ * Create the image storage selected by the environment
+ *
+ * IMAGE_STORAGE      database | local (defaults to database)
+ * IMAGE_STORAGE_DIR  directory for the local storage
+ */
+export function createImageStorage(prisma: PrismaClient, env: NodeJS.ProcessEnv = process.env): ImageStorage {
+  const name = (env.IMAGE_STORAGE || 'database').toLowerCase();
+
+  switch (name) {
+    case 'database':
+      return new DatabaseImageStorage(prisma);
+
+    case 'local':
+      return new LocalImageStorage(env.IMAGE_STORAGE_DIR || DEFAULT_IMAGE_DIR);
+
+    default:
+      throw new Error(`Unknown IMAGE_STORAGE "${name}". Expected database or local`);
+  }
+}
@@ -19,6 +19,7 @@ import {
   UserAnswer,
   TestSubmission,
   AnswerKey,
+  RubricGrade,
   EvaluationResult,
   PerformanceReport,
   WeakTopic,
@@ -27,10 +28,13 @@ import {
   PerformanceTrend,
   SyllabusContext,
   AlignmentScore,
+  AnswerVerification,
   PDFDocument,
   Curriculum,
   Subject,
   QuestionType,
+  DifficultyLevel,
+  AnswerTolerance,
   Result,
   RegistrationError,
   AuthError,
@@ -86,7 +90,9 @@ export interface RAGRetriever {
   retrieveQuestions(
     topics: TopicId[],
     count: number,
-    excludeIds: QuestionId[]
+    excludeIds: QuestionId[],
+    difficulties?: Partial<Record<TopicId, DifficultyLevel>>,
+    questionType?: QuestionType
   ): Promise<Result<Question[], RetrievalError>>;
   
   getSyllabusContext(topicId: TopicId): Promise<SyllabusContext>;
@@ -104,7 +110,22 @@ export interface QuestionGenerator {
     count: number,
     existingQuestions: Question[],
     subject?: string,
-    testMode?: 'InAppExam' | 'PDFDownload'
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty?: DifficultyLevel,
+    questionType?: QuestionType // every question is this type, e.g. for a blueprint section
+  ): Promise<Result<Question[], GenerationError>>;
+
+  /**
+   * Generate a reading passage or case study with `count` questions about it, in order,
+   * each carrying the shared group
+   */
+  generateQuestionGroup?(
+    syllabusContext: SyllabusContext,
+    count: number,
+    existingQuestions: Question[],
+    subject: string,
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty?: DifficultyLevel
   ): Promise<Result<Question[], GenerationError>>;
 
   validateSyllabusAlignment(
@@ -113,6 +134,22 @@ export interface QuestionGenerator {
   ): Promise<Result<AlignmentScore, ValidationError>>;
 }
 
+// ============================================================================
+// Answer Verifier
+// ============================================================================
+
+export interface AnswerVerifier {
+  verifyAnswer(question: Question): Promise<AnswerVerification>;
+}
+
+// ============================================================================
+// Short Answer Grader
+// ============================================================================
+
+export interface ShortAnswerGrader {
+  gradeAnswer(question: Question, answer: string, points: number): Promise<RubricGrade>;
+}
+
 // ============================================================================
 // Test Execution Service
 // ============================================================================
@@ -130,7 +167,7 @@ export interface TestExecutionService {
 
 export interface Evaluator {
   evaluateTest(submission: TestSubmission, answerKey: AnswerKey): Promise<EvaluationResult>;
-  compareAnswers(userAnswer: string, correctAnswer: string, questionType: QuestionType): boolean;
+  compareAnswers(userAnswer: string, correctAnswer: string, questionType: QuestionType, tolerance?: AnswerTolerance): boolean;
 }
 
 // ============================================================================
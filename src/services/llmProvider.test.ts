@@ -0,0 +1,234 @@
+// LLM provider tests
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createLLMProvider,
+  resolveSettings,
+  FixtureProvider,
+  GroqProvider,
+  OpenAICompatibleProvider,
+  OllamaProvider,
+  DEFAULT_MODELS,
+} from './llmProvider';
+import { LLMQuestionGeneratorService } from './llmQuestionGenerator';
+
+vi.mock('groq-sdk', () => {
+  return {
+    default: vi.fn().mockImplementation(() => ({
+      chat: {
+        completions: {
+          create: vi.fn(),
+        },
+      },
+    })),
+  };
+});
+
+describe('resolveSettings', () => {
+  it('should use the request values when the provider has no overrides', () => {
+    const settings = resolveSettings({ model: 'm' }, { messages: [], temperature: 0.3, maxTokens: 500 });
+
+    expect(settings).toEqual({ temperature: 0.3, maxTokens: 500 });
+  });
+
+  it('should let the provider temperature override the request', () => {
+    const settings = resolveSettings({ model: 'm', temperature: 0 }, { messages: [], temperature: 0.7 });
+
+    expect(settings.temperature).toBe(0);
+  });
+
+  it('should cap requested tokens at the provider limit', () => {
+    const settings = resolveSettings({ model: 'm', maxTokens: 1000 }, { messages: [], maxTokens: 4000 });
+
+    expect(settings.maxTokens).toBe(1000);
+  });
+
+  it('should keep smaller token requests below the provider limit', () => {
+    const settings = resolveSettings({ model: 'm', maxTokens: 1000 }, { messages: [], maxTokens: 500 });
+
+    expect(settings.maxTokens).toBe(500);
+  });
+});
+
+describe('FixtureProvider', () => {
+  it('should replay responses in order and repeat the last one', async () => {
+    const provider = new FixtureProvider(['first', 'second']);
+
+    expect(await provider.complete({ messages: [] })).toBe('first');
+    expect(await provider.complete({ messages: [] })).toBe('second');
+    expect(await provider.complete({ messages: [] })).toBe('second');
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it('should delegate to a responder function', async () => {
+    const provider = new FixtureProvider((request, index) => `${index}:${request.messages[0].content}`);
+
+    expect(await provider.complete({ messages: [{ role: 'user', content: 'hello' }] })).toBe('0:hello');
+  });
+
+  it('should fail when no responses are configured', async () => {
+    const provider = new FixtureProvider([]);
+
+    await expect(provider.complete({ messages: [] })).rejects.toThrow('no responses configured');
+  });
+});
+
+describe('GroqProvider', () => {
+  it('should map the request onto the Groq SDK call', async () => {
+    const provider = new GroqProvider('key', { maxTokens: 1000 });
+    const create = (provider as any).client.chat.completions.create;
+    create.mockResolvedValue({ choices: [{ message: { content: '{"ok":true}' } }] });
+
+    const content = await provider.complete({
+      messages: [{ role: 'user', content: 'hi' }],
+      temperature: 0.3,
+      maxTokens: 2000,
+      jsonMode: true,
+    });
+
+    expect(content).toBe('{"ok":true}');
+    expect(create).toHaveBeenCalledWith({
+      messages: [{ role: 'user', content: 'hi' }],
+      model: DEFAULT_MODELS.groq,
+      temperature: 0.3,
+      max_tokens: 1000,
+      response_format: { type: 'json_object' },
+    });
+  });
+});
+
+describe('HTTP providers', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should call an OpenAI-compatible chat completions endpoint', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: 'answer' } }] }),
+    });
+    const provider = new OpenAICompatibleProvider('http://llm.local/v1/', 'secret', { model: 'custom' });
+
+    const content = await provider.complete({ messages: [{ role: 'user', content: 'hi' }], jsonMode: true });
+
+    expect(content).toBe('answer');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://llm.local/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: 'custom',
+      response_format: { type: 'json_object' },
+    });
+  });
+
+  it('should call the Ollama chat endpoint with JSON format', async () => {
+    fetchMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ message: { content: 'local answer' } }),
+    });
+    const provider = new OllamaProvider('http://localhost:11434', { temperature: 0.1 });
+
+    const content = await provider.complete({ messages: [], temperature: 0.5, maxTokens: 300, jsonMode: true });
+
+    expect(content).toBe('local answer');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(JSON.parse(init.body)).toMatchObject({
+      model: DEFAULT_MODELS.ollama,
+      stream: false,
+      format: 'json',
+      options: { temperature: 0.1, num_predict: 300 },
+    });
+  });
+
+  it('should throw on non-2xx responses', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+    const provider = new OpenAICompatibleProvider('http://llm.local/v1');
+
+    await expect(provider.complete({ messages: [] })).rejects.toThrow('503');
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('should return null when nothing is configured', () => {
+    expect(createLLMProvider({})).toBeNull();
+  });
+
+  it('should default to Groq when GROQ_API_KEY is set', () => {
+    const provider = createLLMProvider({ GROQ_API_KEY: 'key' });
+
+    expect(provider?.name).toBe('groq');
+    expect(provider?.config.model).toBe(DEFAULT_MODELS.groq);
+  });
+
+  it('should apply model, temperature and token overrides', () => {
+    const provider = createLLMProvider({
+      LLM_PROVIDER: 'ollama',
+      LLM_MODEL: 'qwen2.5',
+      LLM_TEMPERATURE: '0.2',
+      LLM_MAX_TOKENS: '2048',
+    });
+
+    expect(provider?.name).toBe('ollama');
+    expect(provider?.config).toEqual({ model: 'qwen2.5', temperature: 0.2, maxTokens: 2048 });
+  });
+
+  it('should create an OpenAI-compatible provider', () => {
+    const provider = createLLMProvider({ LLM_PROVIDER: 'openai', LLM_BASE_URL: 'http://llm.local/v1' });
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+
+  it('should return null when the selected provider lacks its settings', () => {
+    expect(createLLMProvider({ LLM_PROVIDER: 'openai' })).toBeNull();
+    expect(createLLMProvider({ LLM_PROVIDER: 'fixture' })).toBeNull();
+    expect(createLLMProvider({ LLM_PROVIDER: 'groq' })).toBeNull();
+  });
+
+  it('should reject unknown providers', () => {
+    expect(() => createLLMProvider({ LLM_PROVIDER: 'mystery' })).toThrow('Unknown LLM_PROVIDER');
+  });
+
+  it('should reject non-numeric overrides', () => {
+    expect(() => createLLMProvider({ LLM_PROVIDER: 'fixture', LLM_TEMPERATURE: 'warm' })).toThrow('LLM_TEMPERATURE');
+  });
+});
+
+describe('LLMQuestionGeneratorService with a fixture provider', () => {
+  it('should generate questions through the provider interface', async () => {
+    const provider = new FixtureProvider([
+      JSON.stringify({
+        questions: [
+          {
+            questionText: 'What is 2 + 2?',
+            questionType: 'MultipleChoice',
+            options: ['3', '4', '5', '6'],
+            correctAnswer: '4',
+            syllabusReference: 'Addition',
+            solutionSteps: ['Step 1: 2 + 2 = 4'],
+          },
+        ],
+      }),
+    ]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const result = await generator.generateQuestions(
+      { topicId: 'topic-1', content: 'Addition: adding numbers', relatedConcepts: [] },
+      1,
+      []
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0].correctAnswer).toBe('4');
+    }
+    expect(provider.calls[0]).toMatchObject({ temperature: 0.4, maxTokens: 4000, jsonMode: true });
+  });
+});
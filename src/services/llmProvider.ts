@@ -0,0 +1,303 @@
+// LLM provider abstraction
+// Lets question generation and topic generation talk to Groq, any OpenAI-compatible
+// endpoint, a local Ollama server or a deterministic fixture through one interface
+
+import { readFileSync } from 'fs';
+import Groq from 'groq-sdk';
+
+export type LLMProviderName = 'groq' | 'openai' | 'ollama' | 'fixture';
+
+export type LLMMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+/**
+ * A single chat completion request
+ * temperature and maxTokens are the call site's preferred values; the provider
+ * configuration may override the temperature and caps the token count
+ */
+export interface LLMCompletionRequest {
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean;
+}
+
+/**
+ * Per-provider settings
+ * - model: model identifier passed to the provider
+ * - temperature: when set, overrides the temperature requested by the call site
+ * - maxTokens: upper bound for the number of tokens any call may request
+ */
+export interface LLMProviderConfig {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly config: LLMProviderConfig;
+
+  /**
+   * Run a chat completion and return the raw message content
+   * Returns null when the provider answered without any content
+   */
+  complete(request: LLMCompletionRequest): Promise<string | null>;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  groq: 'llama-3.3-70b-versatile',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  fixture: 'fixture',
+};
+
+const DEFAULT_TEMPERATURE = 0.4;
+const DEFAULT_MAX_TOKENS = 4000;
+
+/**
+ * Resolve the effective sampling settings for a request
+ */
+export function resolveSettings(
+  config: LLMProviderConfig,
+  request: LLMCompletionRequest
+): { temperature: number; maxTokens: number } {
+  const temperature = config.temperature ?? request.temperature ?? DEFAULT_TEMPERATURE;
+  const requested = request.maxTokens ?? config.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const maxTokens = config.maxTokens !== undefined ? Math.min(requested, config.maxTokens) : requested;
+
+  return { temperature, maxTokens };
+}
+
+/**
+ * Groq provider using the official SDK
+ */
+export class GroqProvider implements LLMProvider {
+  readonly name = 'groq' as const;
+  readonly config: LLMProviderConfig;
+  private client: Groq;
+
+  constructor(apiKey: string, config: Partial<LLMProviderConfig> = {}) {
+    this.client = new Groq({ apiKey });
+    this.config = { model: DEFAULT_MODELS.groq, ...config };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const { temperature, maxTokens } = resolveSettings(this.config, request);
+
+    const completion = await this.client.chat.completions.create({
+      messages: request.messages,
+      model: this.config.model,
+      temperature,
+      max_tokens: maxTokens,
+      ...(request.jsonMode ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    return completion.choices[0]?.message?.content || null;
+  }
+}
+
+/**
+ * Provider for any endpoint implementing the OpenAI chat completions API
+ * (OpenAI, Azure-style gateways, vLLM, LM Studio, OpenRouter, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly config: LLMProviderConfig;
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(baseUrl: string, apiKey?: string, config: Partial<LLMProviderConfig> = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.config = { model: DEFAULT_MODELS.openai, ...config };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const { temperature, maxTokens } = resolveSettings(this.config, request);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        temperature,
+        max_tokens: maxTokens,
+        ...(request.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`LLM API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string | null } }>;
+    };
+    return data.choices?.[0]?.message?.content || null;
+  }
+}
+
+/**
+ * Provider for a local Ollama-style HTTP server (POST /api/chat)
+ */
+export class OllamaProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+  readonly config: LLMProviderConfig;
+  private baseUrl: string;
+
+  constructor(baseUrl: string = 'http://localhost:11434', config: Partial<LLMProviderConfig> = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.config = { model: DEFAULT_MODELS.ollama, ...config };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const { temperature, maxTokens } = resolveSettings(this.config, request);
+
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        messages: request.messages,
+        stream: false,
+        ...(request.jsonMode ? { format: 'json' } : {}),
+        options: {
+          temperature,
+          num_predict: maxTokens,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as { message?: { content?: string } };
+    return data.message?.content || null;
+  }
+}
+
+export type FixtureResponder = string[] | ((request: LLMCompletionRequest, callIndex: number) => string | null);
+
+/**
+ * Deterministic provider for tests and offline development
+ * Replays the configured responses in order (the last response repeats),
+ * or delegates to a responder function, and records every request it receives
+ */
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+  readonly config: LLMProviderConfig;
+  readonly calls: LLMCompletionRequest[] = [];
+  private responder: FixtureResponder;
+
+  constructor(responder: FixtureResponder, config: Partial<LLMProviderConfig> = {}) {
+    this.responder = responder;
+    this.config = { model: DEFAULT_MODELS.fixture, ...config };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<string | null> {
+    const callIndex = this.calls.length;
+    this.calls.push(request);
+
+    if (typeof this.responder === 'function') {
+      return this.responder(request, callIndex);
+    }
+
+    if (this.responder.length === 0) {
+      throw new Error('Fixture provider has no responses configured');
+    }
+
+    return this.responder[Math.min(callIndex, this.responder.length - 1)];
+  }
+}
+
+function parseOptionalNumber(value: string | undefined, name: string): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Load fixture responses from a JSON file
+ * The file holds an array; string entries are returned verbatim and
+ * any other entry is serialized to JSON
+ */
+export function loadFixtureResponses(path: string): string[] {
+  const parsed = JSON.parse(readFileSync(path, 'utf-8'));
+  if (!Array.isArray(parsed)) {
+    throw new Error(`Fixture file ${path} must contain a JSON array`);
+  }
+  return parsed.map(entry => (typeof entry === 'string' ? entry : JSON.stringify(entry)));
+}
+
+/**
+ * Create the LLM provider selected by the environment
+ *
+ * LLM_PROVIDER     groq | openai | ollama | fixture (defaults to groq when GROQ_API_KEY is set)
+ * LLM_MODEL        model override for the selected provider
+ * LLM_TEMPERATURE  temperature override applied to every call
+ * LLM_MAX_TOKENS   upper bound on tokens per call
+ * LLM_BASE_URL     endpoint for openai / ollama providers
+ * LLM_API_KEY      API key for openai provider (groq uses GROQ_API_KEY)
+ * LLM_FIXTURE_PATH JSON array of canned responses for the fixture provider
+ *
+ * Returns null when the selected provider lacks the settings it needs (Groq and fixture,
+ * or openai with neither a key for the hosted API nor a compatible endpoint) so callers
+ * can disable LLM features
+ */
+export function createLLMProvider(env: NodeJS.ProcessEnv = process.env): LLMProvider | null {
+  const name = (env.LLM_PROVIDER || (env.GROQ_API_KEY ? 'groq' : '')).toLowerCase();
+  if (!name) {
+    return null;
+  }
+
+  const config: Partial<LLMProviderConfig> = {
+    ...(env.LLM_MODEL ? { model: env.LLM_MODEL } : {}),
+    temperature: parseOptionalNumber(env.LLM_TEMPERATURE, 'LLM_TEMPERATURE'),
+    maxTokens: parseOptionalNumber(env.LLM_MAX_TOKENS, 'LLM_MAX_TOKENS'),
+  };
+
+  switch (name) {
+    case 'groq':
+      if (!env.GROQ_API_KEY) {
+        return null;
+      }
+      return new GroqProvider(env.GROQ_API_KEY, config);
+
+    case 'openai':
+      if (!env.LLM_API_KEY && !env.LLM_BASE_URL) {
+        return null;
+      }
+      return new OpenAICompatibleProvider(
+        env.LLM_BASE_URL || 'https://api.openai.com/v1',
+        env.LLM_API_KEY,
+        config
+      );
+
+    case 'ollama':
+      return new OllamaProvider(env.LLM_BASE_URL || undefined, config);
+
+    case 'fixture':
+      if (!env.LLM_FIXTURE_PATH) {
+        return null;
+      }
+      return new FixtureProvider(loadFixtureResponses(env.LLM_FIXTURE_PATH), config);
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}". Expected groq, openai, ollama or fixture`);
+  }
+}
@@ -1,7 +1,8 @@
 // LLM Question Generator tests
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { LLMQuestionGeneratorService } from './llmQuestionGenerator';
+import { LLMQuestionGeneratorService, questionGroupStimulus } from './llmQuestionGenerator';
+import { FixtureProvider } from './llmProvider';
 import { SyllabusContext, Question } from '../types';
 
 // Mock the Groq SDK
@@ -29,7 +30,7 @@ describe('LLMQuestionGeneratorService', () => {
     questionGenerator = new LLMQuestionGeneratorService('test-api-key');
     
     // Get reference to the mocked create method
-    mockGroqCreate = (questionGenerator as any).groq.chat.completions.create;
+    mockGroqCreate = (questionGenerator as any).provider.client.chat.completions.create;
   });
 
   describe('generateQuestions', () => {
@@ -708,7 +709,7 @@ describe('LLMQuestionGeneratorService - P1 Improvements', () => {
 
     beforeEach(() => {
       questionGenerator = new LLMQuestionGeneratorService('test-api-key');
-      mockGroqCreate = (questionGenerator as any).groq.chat.completions.create;
+      mockGroqCreate = (questionGenerator as any).provider.client.chat.completions.create;
     });
 
     // Feature: p1-improvements, Property 16: Conditional Prompt Construction
@@ -761,6 +762,9 @@ describe('LLMQuestionGeneratorService - P1 Improvements', () => {
         expect(userMessage.content).toContain('quantitative');
         expect(userMessage.content).toContain('numerical');
         expect(userMessage.content).toContain('calculation-based');
+        // Math is written in LaTeX so it can be typeset
+        const systemMessage = callArgs.messages.find((m: any) => m.role === 'system');
+        expect(systemMessage.content).toContain('inline LaTeX between \\( and \\)');
       }
     });
 
@@ -809,6 +813,8 @@ describe('LLMQuestionGeneratorService - P1 Improvements', () => {
         const callArgs = mockGroqCreate.mock.calls[0][0];
         const userMessage = callArgs.messages.find((m: any) => m.role === 'user');
         expect(userMessage.content).not.toContain('MATH SUBJECT REQUIREMENTS');
+        const systemMessage = callArgs.messages.find((m: any) => m.role === 'system');
+        expect(systemMessage.content).not.toContain('Math Notation');
       }
     });
   });
@@ -819,7 +825,7 @@ describe('LLMQuestionGeneratorService - P1 Improvements', () => {
 
     beforeEach(() => {
       questionGenerator = new LLMQuestionGeneratorService('test-api-key');
-      mockGroqCreate = (questionGenerator as any).groq.chat.completions.create;
+      mockGroqCreate = (questionGenerator as any).provider.client.chat.completions.create;
     });
 
     // Feature: p1-improvements, Property 9: LLM Generates Solution Steps
@@ -968,3 +974,160 @@ describe('LLMQuestionGeneratorService - P1 Improvements', () => {
     });
   });
 });
+
+describe('LLMQuestionGeneratorService - Output Validation and Repair', () => {
+  const syllabusContext: SyllabusContext = {
+    topicId: 'topic-math-multiplication',
+    content: 'Multiplication: Repeated addition of equal groups',
+    relatedConcepts: ['Times tables'],
+  };
+
+  const validQuestion = {
+    questionText: 'What is 6 x 7?',
+    questionType: 'MultipleChoice',
+    options: ['36', '42', '48', '54'],
+    correctAnswer: '42',
+    syllabusReference: 'Times tables',
+    solutionSteps: ['Step 1: 6 x 7 = 42'],
+  };
+
+  const invalidQuestion = {
+    questionText: 'What is 8 x 9?',
+    questionType: 'MultipleChoice',
+    options: ['63', '64', '81', '56'],
+    correctAnswer: '72',
+    syllabusReference: 'Times tables',
+    solutionSteps: ['Step 1: 8 x 9 = 72'],
+  };
+
+  it('should re-prompt with only the rejected questions and keep the fixes', async () => {
+    const provider = new FixtureProvider([
+      JSON.stringify({ questions: [validQuestion, invalidQuestion] }),
+      JSON.stringify({ questions: [{ ...invalidQuestion, options: ['63', '72', '81', '56'] }] }),
+    ]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const result = await generator.generateQuestions(syllabusContext, 2, [], 'Mathematics');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map(q => q.correctAnswer)).toEqual(['42', '72']);
+    }
+    expect(provider.calls).toHaveLength(2);
+    const repairPrompt = provider.calls[1].messages[1].content;
+    expect(repairPrompt).toContain('What is 8 x 9?');
+    expect(repairPrompt).toContain('correctAnswer "72" is not one of the options');
+    expect(repairPrompt).not.toContain('What is 6 x 7?');
+  });
+
+  it('should not re-prompt when enough questions pass validation', async () => {
+    const provider = new FixtureProvider([
+      JSON.stringify({ questions: [validQuestion, invalidQuestion] }),
+    ]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const result = await generator.generateQuestions(syllabusContext, 1, []);
+
+    expect(result.ok).toBe(true);
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it('should attach a rejection report when repairs keep failing', async () => {
+    const provider = new FixtureProvider([
+      JSON.stringify({ questions: [validQuestion, invalidQuestion] }),
+      JSON.stringify({ questions: [invalidQuestion] }),
+    ]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const result = await generator.generateQuestions(syllabusContext, 2, []);
+
+    expect(result.ok).toBe(false);
+    if (!result.ok && result.error.type === 'GenerationFailed') {
+      expect(result.error.message).toBe('1 of 2 generated questions passed validation');
+      expect(result.error.rejections).toEqual([
+        {
+          index: 1,
+          questionText: 'What is 8 x 9?',
+          issues: ['correctAnswer "72" is not one of the options'],
+        },
+      ]);
+    }
+    // Initial request plus two repair attempts
+    expect(provider.calls).toHaveLength(3);
+  });
+
+  it('should require solution steps for math subjects only', async () => {
+    const withoutSteps = { ...validQuestion, solutionSteps: [] };
+    const provider = new FixtureProvider([JSON.stringify({ questions: [withoutSteps] })]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const mathResult = await generator.generateQuestions(syllabusContext, 1, [], 'Mathematics');
+    const englishResult = await generator.generateQuestions(syllabusContext, 1, [], 'English');
+
+    expect(mathResult.ok).toBe(false);
+    if (!mathResult.ok && mathResult.error.type === 'GenerationFailed') {
+      expect(mathResult.error.rejections?.[0].issues).toContain('solutionSteps must not be empty for math subjects');
+    }
+    expect(englishResult.ok).toBe(true);
+  });
+});
+
+describe('LLMQuestionGeneratorService - Question Groups', () => {
+  const syllabusContext: SyllabusContext = {
+    topicId: 'topic-english-reading',
+    content: 'Reading Comprehension: Unseen passages with factual and inferential questions',
+    relatedConcepts: ['Inference', 'Vocabulary in context'],
+  };
+
+  const passage = 'The monsoon reached Kerala two days early this year. Farmers began sowing paddy at once.';
+
+  const subQuestion = (questionText: string, correctAnswer: string) => ({
+    questionText,
+    questionType: 'TrueFalse',
+    correctAnswer,
+    syllabusReference: 'Unseen passage',
+  });
+
+  it('should choose a passage for English and a case study for science', () => {
+    expect(questionGroupStimulus('English')).toContain('reading passage');
+    expect(questionGroupStimulus('Biology')).toContain('case study');
+    expect(questionGroupStimulus('Mathematics')).toBeUndefined();
+  });
+
+  it('should attach the shared passage to every question in order', async () => {
+    const provider = new FixtureProvider([
+      JSON.stringify({
+        stimulusText: `  ${passage}  `,
+        questions: [
+          subQuestion('The monsoon arrived late in Kerala.', 'False'),
+          subQuestion('Farmers started sowing paddy immediately.', 'True'),
+        ],
+      }),
+    ]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const result = await generator.generateQuestionGroup(syllabusContext, 2, [], 'English', 'InAppExam');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map(q => q.correctAnswer)).toEqual(['False', 'True']);
+      expect(result.value[0].group).toEqual({ groupId: expect.stringMatching(/^llm-group-/), stimulusText: passage });
+      expect(result.value[1].group).toBe(result.value[0].group);
+    }
+    expect(provider.calls[0].messages[1].content).toContain('unseen reading passage');
+  });
+
+  it('should reject a response without a passage', async () => {
+    const provider = new FixtureProvider([
+      JSON.stringify({ questions: [subQuestion('The monsoon arrived late in Kerala.', 'False')] }),
+    ]);
+    const generator = new LLMQuestionGeneratorService(provider);
+
+    const result = await generator.generateQuestionGroup(syllabusContext, 1, [], 'English');
+
+    expect(result).toEqual({
+      ok: false,
+      error: { type: 'GenerationFailed', message: 'Invalid response format from LLM' },
+    });
+  });
+});
@@ -1,7 +1,6 @@
 // LLM-based Question Generator implementation
-// Uses GROQ API (OpenAI-compatible) for generating exam-realistic questions
+// Generates exam-realistic questions through the configured LLM provider
 
-import Groq from 'groq-sdk';
 import {
   Question,
   QuestionId,
@@ -13,8 +12,19 @@ import {
   Ok,
   Err,
   QuestionType,
+  QuestionRejection,
+  QuestionGroup,
+  DifficultyLevel,
 } from '../types';
 import { QuestionGenerator } from './interfaces';
+import { LLMProvider, GroqProvider } from './llmProvider';
+import {
+  GeneratedQuestion,
+  QuestionValidationContext,
+  validateGeneratedQuestion,
+  validateGeneratedQuestions,
+} from './generatedQuestionValidator';
+import { TRUE_FALSE_OPTIONS, questionAnswerFields } from '../lib/questionFormats';
 
 /**
  * Math subjects that require quantitative problem-solving
@@ -44,26 +54,136 @@ export function isMathSubject(subject: string): boolean {
   );
 }
 
+/**
+ * Subjects whose papers include passage or case-study questions, and the shared
+ * stimulus the model is asked to write for them
+ */
+const GROUP_STIMULI: Array<{ subjects: string[]; stimulus: string }> = [
+  {
+    subjects: ['English'],
+    stimulus: 'an unseen reading passage of 150-250 words (prose, a letter, a report or a poem extract)',
+  },
+  {
+    subjects: ['Science', 'Physics', 'Chemistry', 'Biology'],
+    stimulus: 'a case study of 80-150 words describing a real-life situation, experiment or small data table',
+  },
+];
+
+/**
+ * Stimulus to write for a subject's passage or case-study questions, if it has them
+ */
+export function questionGroupStimulus(subject: string): string | undefined {
+  const subjectLower = subject.toLowerCase();
+  return GROUP_STIMULI.find(({ subjects }) =>
+    subjects.some(groupSubject => subjectLower.includes(groupSubject.toLowerCase()))
+  )?.stimulus;
+}
+
+/**
+ * How each difficulty level is described to the model
+ * ExamRealistic keeps the original "match real exams" instruction
+ */
+const DIFFICULTY_GUIDANCE: Record<DifficultyLevel, { label: string; rule: string; requirement: string }> = {
+  Foundation: {
+    label: 'foundation-level',
+    rule: 'Are EASIER than actual exam questions: single-concept, direct application, small numbers and one or two steps',
+    requirement: 'Keep all questions at foundation level - build confidence on the core concept before exam-style twists',
+  },
+  ExamRealistic: {
+    label: 'exam-realistic',
+    rule: 'Match the difficulty level of actual exams (no easier or harder)',
+    requirement: 'Ensure all questions are exam-realistic in difficulty',
+  },
+  Challenge: {
+    label: 'challenge-level',
+    rule: 'Are HARDER than typical exam questions: multi-step, combining concepts, or applying them to unfamiliar situations',
+    requirement: 'Make every question a stretch beyond the standard exam paper while staying within the syllabus',
+  },
+};
+
+/**
+ * How math subjects are asked to write expressions, so pages and PDFs can typeset them
+ * (see lib/mathNotation.ts); plain-text forms like x^2/3 are ambiguous to students
+ */
+const MATH_NOTATION_SECTION = `Math Notation:
+- Write every mathematical expression in questionText, options, correctAnswer, pairs, items and solutionSteps as inline LaTeX between \\( and \\), e.g. "Simplify \\(\\frac{x^{2}}{3} + \\sqrt{2}\\)"
+- Use \\frac{a}{b} for fractions, ^{...} for powers, \\sqrt{...} for roots, \\times and \\div for multiplication and division; never write x^2/3 or sqrt(2) as plain text
+- Put a long equation on its own line between \\[ and \\]
+- Escape every backslash for JSON: write \\\\frac inside JSON strings
+- Keep the correctAnswer of Numerical questions a plain number with any unit (e.g. "0.75" or "12 cm"), without LaTeX`;
+
+/**
+ * How many times rejected questions are sent back to the model for correction
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Options, left-hand items and answer of a validated question, laid out as described
+ * in lib/questionFormats.ts
+ */
+function toQuestionAnswer(
+  q: GeneratedQuestion
+): Pick<Question, 'options' | 'matchItems' | 'correctAnswer' | 'correctAnswers'> {
+  switch (q.questionType) {
+    case 'MultipleChoice':
+      return { options: q.options, correctAnswer: q.correctAnswer };
+    case 'TrueFalse':
+      return { options: [...TRUE_FALSE_OPTIONS], correctAnswer: q.correctAnswer };
+    case 'Matching': {
+      const matchItems = q.pairs.map(pair => pair.left);
+      const matches = q.pairs.map(pair => pair.right);
+      return {
+        options: shuffled([...new Set(matches)]),
+        matchItems,
+        ...questionAnswerFields(q.questionType, matches, matchItems),
+      };
+    }
+    case 'Ordering':
+      return { options: shuffled(q.items), ...questionAnswerFields(q.questionType, q.items) };
+    case 'FillInBlank':
+      return questionAnswerFields(q.questionType, q.blanks);
+    default:
+      return { correctAnswer: q.correctAnswer };
+  }
+}
+
+/**
+ * The items in random order, but never the order given, so that an Ordering question
+ * does not show its own answer
+ */
+function shuffled(items: string[]): string[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result.every((item, i) => item === items[i]) ? [...result.slice(1), ...result.slice(0, 1)] : result;
+}
+
 export class LLMQuestionGeneratorService implements QuestionGenerator {
-  private groq: Groq;
+  private provider: LLMProvider;
 
-  constructor(apiKey: string) {
-    this.groq = new Groq({
-      apiKey,
-    });
+  /**
+   * @param provider - LLM provider to use, or a GROQ API key for the default Groq provider
+   */
+  constructor(provider: LLMProvider | string) {
+    this.provider = typeof provider === 'string' ? new GroqProvider(provider) : provider;
   }
 
   /**
    * Generate questions using LLM with syllabus context as grounding
-   * Requirement 4.3: Ensure exam-realistic difficulty without user selection
+   * Questions are generated at the requested difficulty (exam-realistic by default)
    * This is used as a fallback when RAG retrieval is insufficient
+   * @param questionType - Ask for this type only instead of a mix, e.g. for a blueprint section
    */
   async generateQuestions(
     syllabusContext: SyllabusContext,
     count: number,
     existingQuestions: Question[],
     subject?: string,
-    testMode?: 'InAppExam' | 'PDFDownload'
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic',
+    questionType?: QuestionType
   ): Promise<Result<Question[], GenerationError>> {
     try {
       // Build prompt with syllabus context and existing questions to avoid duplication
@@ -72,28 +192,28 @@ export class LLMQuestionGeneratorService implements QuestionGenerator {
         count,
         existingQuestions,
         subject,
-        testMode
+        testMode,
+        difficulty,
+        questionType
       );
 
-      // Call GROQ API with lower temperature for more accurate answers
-      const completion = await this.groq.chat.completions.create({
+      // Call the LLM with lower temperature for more accurate answers
+      const responseContent = await this.provider.complete({
         messages: [
           {
             role: 'system',
-            content: this.getSystemPrompt(testMode),
+            content: this.getSystemPrompt(testMode, difficulty, subject),
           },
           {
             role: 'user',
             content: prompt,
           },
         ],
-        model: 'llama-3.3-70b-versatile',
         temperature: 0.4, // Lower temperature for more accurate, consistent answers
-        max_tokens: 4000,
-        response_format: { type: 'json_object' },
+        maxTokens: 4000,
+        jsonMode: true,
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
       if (!responseContent) {
         return Err({
           type: 'GenerationFailed',
@@ -111,32 +231,15 @@ export class LLMQuestionGeneratorService implements QuestionGenerator {
         });
       }
 
-      // Convert LLM response to Question objects
-      // Requirement 4.2, 4.3: Parse solution steps from LLM response
-      const questions: Question[] = parsedResponse.questions.map(
-        (q: any, index: number) => ({
-          questionId: `llm-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 11)}`,
-          topicId: syllabusContext.topicId,
-          questionText: q.questionText,
-          questionType: q.questionType as QuestionType,
-          options: q.options,
-          correctAnswer: q.correctAnswer,
-          solutionSteps: Array.isArray(q.solutionSteps) ? q.solutionSteps : [], // Parse and validate solution steps
-          syllabusReference: q.syllabusReference || syllabusContext.content.substring(0, 50),
-          difficulty: 'ExamRealistic',
-          createdAt: new Date(),
-        })
-      );
-
       // Validate that we got the requested number of questions
-      if (questions.length < count) {
+      if (parsedResponse.questions.length < count) {
         return Err({
           type: 'GenerationFailed',
-          message: `LLM generated ${questions.length} questions, but ${count} were requested`,
+          message: `LLM generated ${parsedResponse.questions.length} questions, but ${count} were requested`,
         });
       }
 
-      return Ok(questions.slice(0, count));
+      return await this.acceptQuestions(parsedResponse.questions, count, syllabusContext, subject, testMode, difficulty, questionType);
     } catch (error) {
       return Err({
         type: 'GenerationFailed',
@@ -145,6 +248,190 @@ export class LLMQuestionGeneratorService implements QuestionGenerator {
     }
   }
 
+  /**
+   * Generate a reading passage (English) or case study (science) with `count` questions
+   * about it; the questions come back in order, each carrying the shared group
+   */
+  async generateQuestionGroup(
+    syllabusContext: SyllabusContext,
+    count: number,
+    existingQuestions: Question[],
+    subject: string,
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic'
+  ): Promise<Result<Question[], GenerationError>> {
+    const stimulus = questionGroupStimulus(subject) ?? GROUP_STIMULI[1].stimulus;
+
+    try {
+      const responseContent = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: this.getSystemPrompt(testMode, difficulty, subject),
+          },
+          {
+            role: 'user',
+            content: this.buildGroupPrompt(syllabusContext, count, existingQuestions, stimulus, testMode, difficulty),
+          },
+        ],
+        temperature: 0.4,
+        maxTokens: 4000,
+        jsonMode: true,
+      });
+
+      if (!responseContent) {
+        return Err({
+          type: 'GenerationFailed',
+          message: 'No response from LLM',
+        });
+      }
+
+      const parsedResponse = JSON.parse(responseContent);
+      const stimulusText = typeof parsedResponse?.stimulusText === 'string' ? parsedResponse.stimulusText.trim() : '';
+      if (!stimulusText || !Array.isArray(parsedResponse.questions)) {
+        return Err({
+          type: 'GenerationFailed',
+          message: 'Invalid response format from LLM',
+        });
+      }
+
+      if (parsedResponse.questions.length < count) {
+        return Err({
+          type: 'GenerationFailed',
+          message: `LLM generated ${parsedResponse.questions.length} questions, but ${count} were requested`,
+        });
+      }
+
+      const result = await this.acceptQuestions(parsedResponse.questions, count, syllabusContext, subject, testMode, difficulty);
+      if (!result.ok) {
+        return result;
+      }
+
+      const group: QuestionGroup = {
+        groupId: `llm-group-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
+        stimulusText,
+      };
+      return Ok(result.value.map(question => ({ ...question, group })));
+    } catch (error) {
+      return Err({
+        type: 'GenerationFailed',
+        message: error instanceof Error ? error.message : 'Unknown error during LLM generation',
+      });
+    }
+  }
+
+  /**
+   * Validate raw generated questions, ask the model to fix rejected ones, and convert
+   * the first `count` accepted questions to Question objects
+   */
+  private async acceptQuestions(
+    rawQuestions: unknown[],
+    count: number,
+    syllabusContext: SyllabusContext,
+    subject?: string,
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic',
+    questionType?: QuestionType
+  ): Promise<Result<Question[], GenerationError>> {
+    const validationContext: QuestionValidationContext = {
+      testMode,
+      requireSolutionSteps: !!subject && isMathSubject(subject),
+      questionType,
+    };
+
+    // Validate every question and ask the model to fix only the rejected ones
+    const { accepted, rejected } = validateGeneratedQuestions(rawQuestions, validationContext);
+    let pending = rejected;
+
+    for (let attempt = 1; attempt <= MAX_REPAIR_ATTEMPTS && accepted.length < count && pending.length > 0; attempt++) {
+      const repaired = await this.requestRepairs(pending, testMode, difficulty, subject);
+      if (!repaired) {
+        break;
+      }
+
+      const stillRejected: typeof pending = [];
+      pending.forEach((rejection, i) => {
+        const result = validateGeneratedQuestion(repaired[i], validationContext);
+        if (result.ok) {
+          accepted.push(result.question);
+        } else {
+          // Keep the original response position so the report stays traceable
+          stillRejected.push({ ...rejection, issues: result.issues, raw: repaired[i] ?? rejection.raw });
+        }
+      });
+      pending = stillRejected;
+    }
+
+    if (accepted.length < count) {
+      return Err({
+        type: 'GenerationFailed',
+        message: `${accepted.length} of ${count} generated questions passed validation`,
+        rejections: pending.map(({ index, questionText, issues }) => ({ index, questionText, issues })),
+      });
+    }
+
+    // Convert validated output to Question objects
+    // Requirement 4.2, 4.3: Parse solution steps from LLM response
+    const questions: Question[] = accepted.map((q, index) => ({
+      questionId: `llm-${Date.now()}-${index}-${Math.random().toString(36).substring(2, 11)}`,
+      topicId: syllabusContext.topicId,
+      questionText: q.questionText,
+      questionType: q.questionType as QuestionType,
+      ...toQuestionAnswer(q),
+      ...(q.questionType === 'ShortAnswer' && q.rubric ? { rubric: q.rubric } : {}),
+      solutionSteps: q.solutionSteps,
+      syllabusReference: q.syllabusReference || syllabusContext.content.substring(0, 50),
+      difficulty,
+      createdAt: new Date(),
+    }));
+
+    return Ok(questions.slice(0, count));
+  }
+
+  /**
+   * Re-prompt the model with only the rejected questions and the rules each one broke
+   * Returns the corrected questions in the same order, or null if the reply is unusable
+   */
+  private async requestRepairs(
+    rejections: Array<QuestionRejection & { raw: unknown }>,
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic',
+    subject?: string
+  ): Promise<unknown[] | null> {
+    const items = rejections.map((rejection, i) =>
+      `Question ${i + 1}:\n${JSON.stringify(rejection.raw, null, 2)}\nProblems:\n${rejection.issues.map(issue => `- ${issue}`).join('\n')}`
+    ).join('\n\n');
+
+    try {
+      const responseContent = await this.provider.complete({
+        messages: [
+          {
+            role: 'system',
+            content: this.getSystemPrompt(testMode, difficulty, subject),
+          },
+          {
+            role: 'user',
+            content: `The following ${rejections.length} generated question(s) failed validation. Fix ONLY the listed problems, keep each question on the same concept, and return exactly ${rejections.length} corrected question(s) in the same order, as a JSON object with a "questions" array in the specified format.
+
+${items}`,
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: 4000,
+        jsonMode: true,
+      });
+
+      if (!responseContent) {
+        return null;
+      }
+
+      const parsedResponse = JSON.parse(responseContent);
+      return Array.isArray(parsedResponse?.questions) ? parsedResponse.questions : null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Validate that a generated question aligns with the syllabus context
    * Requirement 4.2: Ensure questions match syllabus content
@@ -156,7 +443,7 @@ export class LLMQuestionGeneratorService implements QuestionGenerator {
     try {
       const prompt = this.buildValidationPrompt(question, syllabusContext);
 
-      const completion = await this.groq.chat.completions.create({
+      const responseContent = await this.provider.complete({
         messages: [
           {
             role: 'system',
@@ -167,13 +454,11 @@ export class LLMQuestionGeneratorService implements QuestionGenerator {
             content: prompt,
           },
         ],
-        model: 'llama-3.3-70b-versatile',
         temperature: 0.3,
-        max_tokens: 500,
-        response_format: { type: 'json_object' },
+        maxTokens: 500,
+        jsonMode: true,
       });
 
-      const responseContent = completion.choices[0]?.message?.content;
       if (!responseContent) {
         return Err({
           type: 'ValidationError',
@@ -202,21 +487,37 @@ export class LLMQuestionGeneratorService implements QuestionGenerator {
 
   /**
    * Build the system prompt for question generation
-   * @param testMode - If 'InAppExam', only generate MultipleChoice questions
+   * @param testMode - If 'InAppExam', only generate types the test page marks automatically
+   * @param difficulty - Difficulty level the questions should be pitched at
+   * @param subject - Math subjects are asked to write their expressions in LaTeX
    */
-  private getSystemPrompt(testMode?: 'InAppExam' | 'PDFDownload'): string {
+  private getSystemPrompt(
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic',
+    subject?: string
+  ): string {
     const isOnlineExam = testMode === 'InAppExam';
+    const guidance = DIFFICULTY_GUIDANCE[difficulty];
+
+    const autoMarkedTypes = `- MultipleChoice: Include 4 options with EXACTLY ONE correct answer
+- TrueFalse: A statement that is clearly true or false; correctAnswer is "True" or "False"
+- Matching: 3-5 "pairs", each a left-hand item and the right-hand answer it matches
+- Ordering: 3-6 "items" listed in the CORRECT order (they are shuffled for the student)`;
 
     const questionTypesSection = isOnlineExam
-      ? `Question Types (ONLINE EXAM MODE - ONLY MultipleChoice allowed):
-- MultipleChoice: Include 4 options with EXACTLY ONE correct answer
-- Do NOT generate ShortAnswer or Numerical questions for online exams
-- All questions MUST be MultipleChoice with clear, distinct options`
+      ? `Question Types (ONLINE EXAM MODE - ONLY automatically marked types allowed):
+${autoMarkedTypes}
+- Do NOT generate FillInBlank, ShortAnswer or Numerical questions for online exams`
       : `Question Types:
-- MultipleChoice: Include 4 options with exactly one correct answer
-- ShortAnswer: Require a brief written response (1-3 sentences)
+${autoMarkedTypes}
+- FillInBlank: Mark each blank in questionText with ___ and give one entry in "blanks" per blank, in order (separate accepted alternatives with |)
+- ShortAnswer: Require a brief written response (1-3 sentences); give a "rubric" of the key points a full answer makes, each with its marks and the keywords that show it
 - Numerical: Require a numerical answer (with units if applicable)`;
 
+    const questionTypes = isOnlineExam
+      ? 'MultipleChoice" | "TrueFalse" | "Matching" | "Ordering'
+      : 'MultipleChoice" | "TrueFalse" | "Matching" | "Ordering" | "FillInBlank" | "ShortAnswer" | "Numerical';
+
     return `You are an expert educational content creator specializing in creating exam-realistic questions for CBSE and Cambridge curricula (grades 1-10).
 
 CRITICAL ACCURACY REQUIREMENTS:
@@ -226,9 +527,9 @@ CRITICAL ACCURACY REQUIREMENTS:
 - If you are not certain about an answer, do not include that question
 - Students and parents trust these questions - accuracy is paramount
 
-Your task is to generate high-quality, exam-realistic questions that:
+Your task is to generate high-quality, ${guidance.label} questions that:
 1. Strictly align with the provided syllabus content
-2. Match the difficulty level of actual exams (no easier or harder)
+2. ${guidance.rule}
 3. Are clear, unambiguous, and age-appropriate
 4. Follow standard exam question formats
 5. Include VERIFIED, accurate correct answers - double-check every answer
@@ -236,16 +537,20 @@ Your task is to generate high-quality, exam-realistic questions that:
 7. Do NOT duplicate or closely resemble existing questions
 
 ${questionTypesSection}
-
+${subject && isMathSubject(subject) ? `\n${MATH_NOTATION_SECTION}\n` : ''}
 Response Format:
 Return a JSON object with a "questions" array. Each question must have:
 {
   "questions": [
     {
       "questionText": "The complete question text",
-      "questionType": "${isOnlineExam ? 'MultipleChoice' : 'MultipleChoice" | "ShortAnswer" | "Numerical'}",
-      "options": ["option1", "option2", "option3", "option4"], // ${isOnlineExam ? 'REQUIRED for all questions' : 'only for MultipleChoice'}
-      "correctAnswer": "The correct answer (must match one option exactly for MultipleChoice)",
+      "questionType": "${questionTypes}",
+      "options": ["option1", "option2", "option3", "option4"], // only for MultipleChoice
+      "correctAnswer": "The correct answer (must match one option exactly for MultipleChoice; not used for Matching, Ordering or FillInBlank)",
+      "pairs": [{ "left": "item", "right": "its match" }], // only for Matching
+      "items": ["first", "second", "third"], // only for Ordering, in the correct order
+      "blanks": ["answer to blank 1", "answer to blank 2"], // only for FillInBlank
+      "rubric": [{ "point": "A key point of the answer", "marks": 1, "keywords": ["keyword/synonym"] }], // only for ShortAnswer
       "syllabusReference": "Specific syllabus section or concept",
       "solutionSteps": [
         "Step 1: Clear explanation of the first step",
@@ -266,13 +571,16 @@ Return a JSON object with a "questions" array. Each question must have:
     count: number,
     existingQuestions: Question[],
     subject?: string,
-    testMode?: 'InAppExam' | 'PDFDownload'
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic',
+    questionType?: QuestionType
   ): string {
     // Extract topic name from content (format: "Topic Name: content...")
     const topicName = syllabusContext.content.split(':')[0].trim();
     const isOnlineExam = testMode === 'InAppExam';
+    const guidance = DIFFICULTY_GUIDANCE[difficulty];
 
-    let prompt = `Generate ${count} exam-realistic questions based on the following syllabus content:\n\n`;
+    let prompt = `Generate ${count} ${guidance.label} questions based on the following syllabus content:\n\n`;
 
     prompt += `Topic: ${topicName}\n`;
     prompt += `Syllabus Content: ${syllabusContext.content}\n\n`;
@@ -285,11 +593,11 @@ Return a JSON object with a "questions" array. Each question must have:
       prompt += '\n';
     }
 
-    // Add online exam mode constraint - only MultipleChoice questions
+    // Add online exam mode constraint - only automatically marked question types
     if (isOnlineExam) {
       prompt += `CRITICAL - ONLINE EXAM MODE:
-- Generate ONLY MultipleChoice questions (no ShortAnswer or Numerical)
-- Each question MUST have exactly 4 options (A, B, C, D)
+- Generate ONLY MultipleChoice, TrueFalse, Matching or Ordering questions (no FillInBlank, ShortAnswer or Numerical)
+- Each MultipleChoice question MUST have exactly 4 options (A, B, C, D)
 - The correctAnswer MUST match one of the options exactly
 - Make options distinct but plausible (avoid obviously wrong options)
 
@@ -319,14 +627,16 @@ Return a JSON object with a "questions" array. Each question must have:
       prompt += '\n';
     }
 
-    const questionTypeRequirement = isOnlineExam
-      ? '- Generate ONLY MultipleChoice questions (this is mandatory for online exams)'
-      : '- Mix question types (MultipleChoice, ShortAnswer, Numerical) appropriately for the topic';
+    const questionTypeRequirement = questionType
+      ? `- Generate ONLY ${questionType} questions (this is mandatory for this section of the paper)`
+      : isOnlineExam
+      ? '- Generate ONLY MultipleChoice, TrueFalse, Matching or Ordering questions (this is mandatory for online exams), mostly MultipleChoice'
+      : '- Mix question types (MultipleChoice, TrueFalse, Matching, Ordering, FillInBlank, ShortAnswer, Numerical) appropriately for the topic';
 
     prompt += `Requirements:
 - Generate exactly ${count} questions
 ${questionTypeRequirement}
-- Ensure all questions are exam-realistic in difficulty
+- ${guidance.requirement}
 - Each question must test understanding of the syllabus content
 - VERIFY all correct answers are 100% accurate - double-check calculations
 - Include detailed step-by-step solution explanations in the solutionSteps array
@@ -338,6 +648,51 @@ Return the questions in the specified JSON format with solutionSteps included.`;
     return prompt;
   }
 
+  /**
+   * Build the prompt for a passage or case study and the questions asked about it
+   */
+  private buildGroupPrompt(
+    syllabusContext: SyllabusContext,
+    count: number,
+    existingQuestions: Question[],
+    stimulus: string,
+    testMode?: 'InAppExam' | 'PDFDownload',
+    difficulty: DifficultyLevel = 'ExamRealistic'
+  ): string {
+    const topicName = syllabusContext.content.split(':')[0].trim();
+    const guidance = DIFFICULTY_GUIDANCE[difficulty];
+
+    let prompt = `Write ${stimulus} for the topic below, followed by ${count} ${guidance.label} questions about it.\n\n`;
+
+    prompt += `Topic: ${topicName}\n`;
+    prompt += `Syllabus Content: ${syllabusContext.content}\n\n`;
+
+    if (syllabusContext.relatedConcepts.length > 0) {
+      prompt += `Key Concepts: ${syllabusContext.relatedConcepts.join(', ')}\n\n`;
+    }
+
+    if (existingQuestions.length > 0) {
+      prompt += `IMPORTANT: Do NOT create questions similar to these existing questions:\n`;
+      existingQuestions.slice(0, 5).forEach((q, index) => {
+        prompt += `${index + 1}. ${q.questionText}\n`;
+      });
+      prompt += '\n';
+    }
+
+    prompt += `Requirements:
+- The passage or case study must be original, factually accurate and suitable for the grade
+- Generate exactly ${count} questions, each answerable only by reading the passage or case study
+- Do NOT repeat the passage inside the questions; refer to it instead ("According to the passage...")
+- ${testMode === 'InAppExam' ? 'Use ONLY MultipleChoice, TrueFalse, Matching or Ordering questions' : 'Mix question types appropriately, as in a board exam paper'}
+- ${guidance.requirement}
+- VERIFY all correct answers against the passage or case study
+- Include detailed step-by-step solution explanations in the solutionSteps array
+
+Return a JSON object with a "stimulusText" string holding the passage or case study, and a "questions" array of questions in the specified format.`;
+
+    return prompt;
+  }
+
   /**
    * Build the prompt for syllabus alignment validation
    */
@@ -0,0 +1,89 @@
+// Notification Service
+// In-app messages for a user, such as a score change after an answer key correction
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  NotificationId,
+  Notification,
+  NotificationType,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+
+const NOTIFICATION_LIMIT = 20;
+
+export class NotificationService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Send a notification to a user
+   */
+  async notify(userId: UserId, type: NotificationType, message: string, link?: string): Promise<void> {
+    await this.prisma.notification.create({
+      data: { userId, type, message, link },
+    });
+  }
+
+  /**
+   * A user's most recent notifications, newest first, with how many are unread
+   */
+  async listNotifications(userId: UserId): Promise<{ notifications: Notification[]; unreadCount: number }> {
+    const [rows, unreadCount] = await Promise.all([
+      this.prisma.notification.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+        take: NOTIFICATION_LIMIT,
+      }),
+      this.prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+
+    return { notifications: (rows as NotificationRow[]).map(toNotification), unreadCount };
+  }
+
+  /**
+   * Mark one of the user's notifications as read
+   */
+  async markRead(userId: UserId, notificationId: NotificationId): Promise<Result<void, NotFoundError>> {
+    const updated = await this.prisma.notification.updateMany({
+      where: { id: notificationId, userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+
+    if (updated.count === 0) {
+      const exists = await this.prisma.notification.count({ where: { id: notificationId, userId } });
+      if (exists === 0) {
+        return Err({ type: 'NotFound', resource: 'Notification', id: notificationId });
+      }
+    }
+
+    return Ok(undefined);
+  }
+}
+
+function toNotification(row: NotificationRow): Notification {
+  return {
+    notificationId: row.id,
+    type: row.type as NotificationType,
+    message: row.message,
+    link: row.link ?? undefined,
+    readAt: row.readAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type NotificationRow = {
+  id: string;
+  type: string;
+  message: string;
+  link: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+};
@@ -558,6 +558,57 @@ describe('PDF Generator - P1 Improvements', () => {
     });
   });
 
+  describe('Question Images', () => {
+    const png = Buffer.from(
+      'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+      'base64'
+    );
+
+    it('should embed the images of questions and options that were loaded', async () => {
+      const test = createTestWithTopics(['Geometry']);
+      test.questions[0] = { ...test.questions[0], imageId: 'figure', optionImageIds: ['figure', null, null, null] };
+
+      const withImages = await generateQuestionPaper(test, ['Geometry'], undefined, new Map([['figure', png]]));
+      const withoutImages = await generateQuestionPaper(test, ['Geometry']);
+
+      const imageCount = (result: typeof withImages) =>
+        result.ok ? result.value.buffer.toString('latin1').split('/Subtype /Image').length - 1 : -1;
+
+      // A missing image is left out rather than failing the paper
+      expect(withoutImages.ok).toBe(true);
+      expect(imageCount(withImages)).toBeGreaterThan(imageCount(withoutImages));
+    });
+  });
+
+  describe('Blueprint Sections', () => {
+    it('should print section headers and marks on both PDFs of a blueprint paper', async () => {
+      const plain = createTestWithTopics(['Algebra']);
+      const question = plain.questions[0];
+      const sectioned: MockTest = {
+        ...plain,
+        questions: [
+          { ...question, questionId: 'q1', section: 'A', marks: 1 },
+          { ...question, questionId: 'q2', section: 'A', marks: 1 },
+          { ...question, questionId: 'q3', section: 'B', marks: 3 },
+        ],
+      };
+      const unsectioned: MockTest = {
+        ...plain,
+        questions: sectioned.questions.map(({ section, marks, ...rest }) => rest),
+      };
+
+      for (const generate of [generateQuestionPaper, generateAnswerKey]) {
+        const withSections = await generate(sectioned, ['Algebra']);
+        const withoutSections = await generate(unsectioned, ['Algebra']);
+
+        expect(withSections.ok && withoutSections.ok).toBe(true);
+        if (withSections.ok && withoutSections.ok) {
+          expect(withSections.value.buffer.length).toBeGreaterThan(withoutSections.value.buffer.length);
+        }
+      }
+    });
+  });
+
   describe('Dual PDF Generation', () => {
     // Feature: p1-improvements, Property 6: Dual PDF Generation
     // **Validates: Requirements 3.1**
@@ -6,6 +6,9 @@ import * as fs from 'fs';
 import * as path from 'path';
 import {
   MockTest,
+  Question,
+  QuestionType,
+  QuestionImages,
   PDFDocument as PDFDocumentType,
   PDFError,
   Result,
@@ -13,6 +16,9 @@ import {
   Err,
   StudentMetadata,
 } from '../types';
+import { mathToText } from '../lib/mathNotation';
+import { describeTolerance } from '../lib/numericAnswers';
+import { addMathText } from './pdfMath';
 
 // Logo path for watermark - try multiple locations for dev/prod
 function getLogoPath(): string {
@@ -279,19 +285,276 @@ function addSolutionSteps(
 
   // Solution steps with proper numbering and indentation (Requirement 4.5)
   solutionSteps.forEach((step, index) => {
+    doc.font('Helvetica');
+    addMathText(doc, `${index + 1}. ${step}`, { fontSize: 9, indent: 40, paragraphGap: 5 });
+    doc.moveDown(0.2);
+  });
+
+  doc.moveDown(0.5);
+}
+
+/**
+ * Room allowed for each question of a group when deciding whether it fits on the page
+ */
+const GROUP_QUESTION_HEIGHT = 90;
+
+/**
+ * Print a passage or case study before the first question of its group, starting a new
+ * page when the passage and its questions would not fit on the rest of this one
+ */
+function addGroupStimulus(doc: PDFKit.PDFDocument, questions: Question[], index: number): void {
+  const group = questions[index].group;
+  if (!group || questions[index - 1]?.group?.groupId === group.groupId) {
+    return;
+  }
+
+  let last = index;
+  while (questions[last + 1]?.group?.groupId === group.groupId) {
+    last++;
+  }
+
+  const left = PDF_SPACING.margins.left + 20;
+  const width = 545 - left;
+  doc.fontSize(10).font('Helvetica');
+  // Passages are printed as plain text, with any formulas written out
+  const stimulusText = mathToText(group.stimulusText);
+  const needed = 40 + doc.heightOfString(stimulusText, { width }) + (last - index + 1) * GROUP_QUESTION_HEIGHT;
+  const pageBottom = doc.page.height - PDF_SPACING.margins.bottom;
+  // A group taller than a whole page is started where it is
+  if (doc.y + needed > pageBottom && needed <= pageBottom - PDF_SPACING.margins.top) {
+    doc.addPage();
+  }
+
+  doc
+    .fontSize(11)
+    .font('Helvetica-Bold')
+    .text(`Read the following and answer Questions ${index + 1}-${last + 1}.`);
+  doc.moveDown(0.3);
+  doc
+    .fontSize(10)
+    .font('Helvetica')
+    .text(stimulusText, left, doc.y, { width, align: 'justify' });
+  doc.x = PDF_SPACING.margins.left;
+  doc.moveDown(1);
+}
+
+/**
+ * Marks written out for a section header or beside a question
+ */
+function formatMarks(marks: number): string {
+  return marks === 1 ? '1 mark' : `${marks} marks`;
+}
+
+/**
+ * Print a blueprint section's header before its first question, saying which questions
+ * it holds and what each one is worth
+ */
+function addSectionHeader(doc: PDFKit.PDFDocument, questions: Question[], index: number): void {
+  const section = questions[index].section;
+  if (!section || questions[index - 1]?.section === section) {
+    return;
+  }
+
+  let last = index;
+  while (questions[last + 1]?.section === section) {
+    last++;
+  }
+
+  const marks = formatMarks(questions[index].marks ?? 1);
+  doc.moveDown(0.5);
+  doc
+    .fontSize(12)
+    .font('Helvetica-Bold')
+    .text(`SECTION ${section}`, { align: 'center' });
+  doc
+    .fontSize(9)
+    .font('Helvetica-Oblique')
+    .text(
+      last > index
+        ? `Questions ${index + 1}-${last + 1} carry ${marks} each.`
+        : `Question ${index + 1} carries ${marks}.`,
+      { align: 'center' }
+    );
+  doc.moveDown(1);
+}
+
+/**
+ * Print a question's number, with the marks it carries at the right margin when it has them
+ */
+function addQuestionNumber(doc: PDFKit.PDFDocument, question: Question, index: number): void {
+  const top = doc.y;
+  doc
+    .fontSize(11)
+    .font('Helvetica-Bold')
+    .text(`Question ${index + 1}:`, { continued: false });
+
+  if (question.marks !== undefined) {
+    const below = doc.y;
     doc
-      .fontSize(9)
       .font('Helvetica')
-      .text(`${index + 1}. ${step}`, {
-        indent: 40,
-        paragraphGap: 5,
+      .text(`[${formatMarks(question.marks)}]`, PDF_SPACING.margins.left, top, {
+        width: 545 - PDF_SPACING.margins.left,
+        align: 'right',
       });
-    doc.moveDown(0.2);
-  });
+    doc.y = below;
+  }
+}
 
+/**
+ * Largest size a question's image and an option's image are printed at
+ */
+const QUESTION_IMAGE_HEIGHT = 200;
+const OPTION_IMAGE_HEIGHT = 80;
+
+/**
+ * Print an image scaled to fit the given height and the page width, on a new page if
+ * it would run off this one; an image PDFKit cannot read is left out
+ */
+function addImage(doc: PDFKit.PDFDocument, data: Buffer | undefined, indent: number, maxHeight: number): void {
+  if (!data) {
+    return;
+  }
+
+  const left = PDF_SPACING.margins.left + indent;
+  if (doc.y + maxHeight > doc.page.height - PDF_SPACING.margins.bottom) {
+    doc.addPage();
+  }
+  try {
+    doc.image(data, left, doc.y, { fit: [545 - left, maxHeight] });
+  } catch (error) {
+    console.error('Could not embed question image:', error);
+  }
+  doc.x = PDF_SPACING.margins.left;
   doc.moveDown(0.5);
 }
 
+/**
+ * Print the diagram, graph or figure shown with a question
+ */
+function addQuestionImage(doc: PDFKit.PDFDocument, question: Question, images: QuestionImages): void {
+  if (question.imageId) {
+    addImage(doc, images.get(question.imageId), 20, QUESTION_IMAGE_HEIGHT);
+  }
+}
+
+/**
+ * Question types answered on their own layout rather than on answer lines
+ */
+const LAYOUT_ANSWERED_TYPES: QuestionType[] = ['TrueFalse', 'Matching', 'Ordering', 'FillInBlank'];
+
+/**
+ * Add the layout a question is answered on: lettered options (with their images),
+ * True/False circles, matching columns or ordering boxes (fill-in-the-blank questions
+ * are answered in their text)
+ * @param optionGap - line spacing after each option
+ */
+function addAnswerLayout(
+  doc: PDFKit.PDFDocument,
+  question: Question,
+  optionGap: number,
+  images: QuestionImages
+): void {
+  const instruction = (text: string) => {
+    doc.fontSize(9).font('Helvetica-Oblique').text(text, { indent: 20 });
+    doc.moveDown(0.3);
+  };
+
+  switch (question.questionType) {
+    case 'MultipleChoice': {
+      if (!question.options) {
+        return;
+      }
+      // P2 Requirement 4.4: Render checkboxes for multiple-answer questions
+      const isMultipleAnswer = question.allowMultipleAnswers || false;
+      const symbol = isMultipleAnswer ? '[ ]' : '( )'; // Checkbox for multi-answer, circle for single
+
+      question.options.forEach((option, optIndex) => {
+        const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D...
+        const cleanOption = stripOptionPrefix(option); // Remove any existing prefix
+        doc.font('Helvetica');
+        addMathText(doc, `${symbol} ${optionLabel}. ${cleanOption}`, { fontSize: 10, indent: 40 });
+        const optionImageId = question.optionImageIds?.[optIndex];
+        if (optionImageId) {
+          addImage(doc, images.get(optionImageId), 60, OPTION_IMAGE_HEIGHT);
+        }
+        doc.moveDown(optionGap);
+      });
+      return;
+    }
+
+    case 'TrueFalse':
+      doc.fontSize(10).font('Helvetica').text('( ) True        ( ) False', { indent: 40 });
+      doc.moveDown(optionGap);
+      return;
+
+    case 'Matching': {
+      // Items on the left with a space for the letter of their match, choices on the right
+      const items = question.matchItems ?? [];
+      const choices = question.options ?? [];
+      const left = PDF_SPACING.margins.left + 20;
+      const middle = 320;
+      instruction('Write the letter of the matching answer next to each item.');
+
+      doc.fontSize(10).font('Helvetica');
+      for (let row = 0; row < Math.max(items.length, choices.length); row++) {
+        const top = doc.y;
+        let bottom = top;
+        if (row < items.length) {
+          doc.text(`${row + 1}. ${mathToText(items[row])}  ____`, left, top, { width: middle - left - 10 });
+          bottom = doc.y;
+        }
+        if (row < choices.length) {
+          doc.text(`${String.fromCharCode(65 + row)}. ${mathToText(choices[row])}`, middle, top, { width: 545 - middle });
+          bottom = Math.max(bottom, doc.y);
+        }
+        doc.y = bottom;
+        doc.moveDown(optionGap);
+      }
+      doc.x = PDF_SPACING.margins.left;
+      return;
+    }
+
+    case 'Ordering':
+      instruction('Number the items in the correct order.');
+      (question.options ?? []).forEach(item => {
+        doc.font('Helvetica');
+        addMathText(doc, `[    ] ${item}`, { fontSize: 10, indent: 40 });
+        doc.moveDown(optionGap);
+      });
+      return;
+
+    case 'FillInBlank':
+      instruction('Write your answers in the blanks.');
+      return;
+  }
+}
+
+/**
+ * Add lines to write the answer on
+ */
+function addAnswerLines(doc: PDFKit.PDFDocument, question: Question): void {
+  if (LAYOUT_ANSWERED_TYPES.includes(question.questionType)) {
+    return;
+  }
+
+  doc.moveDown(0.5);
+  doc
+    .fontSize(9)
+    .font('Helvetica-Oblique')
+    .text('Answer:', { indent: 20 });
+
+  // Draw lines for answer space
+  const answerLines = question.questionType === 'ShortAnswer' ? 3 : 1;
+  for (let i = 0; i < answerLines; i++) {
+    doc.moveDown(0.5);
+    const lineY = doc.y;
+    doc
+      .moveTo(70, lineY)
+      .lineTo(545, lineY)
+      .stroke();
+  }
+}
+
 /**
  * Generate question paper PDF (without answers)
  * Requirements: 3.1, 3.2, 2.1, 2.2, 2.3, 2.4, 2.5, 2.6
@@ -299,7 +562,8 @@ function addSolutionSteps(
 export async function generateQuestionPaper(
   test: MockTest,
   topics: string[],
-  studentMetadata?: StudentMetadata
+  studentMetadata?: StudentMetadata,
+  images: QuestionImages = new Map()
 ): Promise<Result<PDFDocumentType, PDFError>> {
   try {
     const doc = new PDFDocument({
@@ -368,61 +632,31 @@ export async function generateQuestionPaper(
         doc.addPage();
       }
 
-      // Question number
-      doc
-        .fontSize(11)
-        .font('Helvetica-Bold')
-        .text(`Question ${index + 1}:`, { continued: false });
+      // Section header before the first question of each blueprint section
+      addSectionHeader(doc, test.questions, index);
+
+      // Passage or case study before the first question of its group
+      addGroupStimulus(doc, test.questions, index);
+
+      // Question number, with its marks on a blueprint paper
+      addQuestionNumber(doc, question, index);
 
       doc.moveDown(0.3);
 
       // Question text
-      doc
-        .fontSize(10)
-        .font('Helvetica')
-        .text(question.questionText, {
-          align: 'left',
-          indent: 20,
-        });
+      doc.font('Helvetica');
+      addMathText(doc, question.questionText, { fontSize: 10, indent: 20 });
 
       doc.moveDown(0.5);
 
-      // Options for multiple choice questions
-      // P2 Requirement 4.4: Render checkboxes for multiple-answer questions
-      if (question.questionType === 'MultipleChoice' && question.options) {
-        const isMultipleAnswer = question.allowMultipleAnswers || false;
-        const symbol = isMultipleAnswer ? '[ ]' : '( )'; // Checkbox for multi-answer, circle for single
-        
-        question.options.forEach((option, optIndex) => {
-          const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D...
-          const cleanOption = stripOptionPrefix(option); // Remove any existing prefix
-          doc
-            .fontSize(10)
-            .font('Helvetica')
-            .text(`${symbol} ${optionLabel}. ${cleanOption}`, {
-              indent: 40,
-            });
-          doc.moveDown(0.2);
-        });
-      }
+      // Diagram, graph or figure for the question
+      addQuestionImage(doc, question, images);
 
-      // Answer space (NO correct answer shown)
-      doc.moveDown(0.5);
-      doc
-        .fontSize(9)
-        .font('Helvetica-Oblique')
-        .text('Answer:', { indent: 20 });
+      // Options, matching columns or ordering boxes for the question type
+      addAnswerLayout(doc, question, 0.2, images);
 
-      // Draw lines for answer space
-      const answerLines = question.questionType === 'ShortAnswer' ? 3 : 1;
-      for (let i = 0; i < answerLines; i++) {
-        doc.moveDown(0.5);
-        const lineY = doc.y;
-        doc
-          .moveTo(70, lineY)
-          .lineTo(545, lineY)
-          .stroke();
-      }
+      // Answer space (NO correct answer shown)
+      addAnswerLines(doc, question);
 
       doc.moveDown(1.5);
     });
@@ -455,7 +689,8 @@ export async function generateQuestionPaper(
  */
 export async function generateAnswerKey(
   test: MockTest,
-  topics: string[]
+  topics: string[],
+  images: QuestionImages = new Map()
 ): Promise<Result<PDFDocumentType, PDFError>> {
   try {
     const doc = new PDFDocument({
@@ -503,44 +738,28 @@ export async function generateAnswerKey(
         doc.addPage();
       }
 
-      // Question number
-      doc
-        .fontSize(11)
-        .font('Helvetica-Bold')
-        .text(`Question ${index + 1}:`, { continued: false });
+      // Section header before the first question of each blueprint section
+      addSectionHeader(doc, test.questions, index);
+
+      // Passage or case study before the first question of its group
+      addGroupStimulus(doc, test.questions, index);
+
+      // Question number, with its marks on a blueprint paper
+      addQuestionNumber(doc, question, index);
 
       doc.moveDown(0.3);
 
       // Question text
-      doc
-        .fontSize(10)
-        .font('Helvetica')
-        .text(question.questionText, {
-          align: 'left',
-          indent: 20,
-        });
+      doc.font('Helvetica');
+      addMathText(doc, question.questionText, { fontSize: 10, indent: 20 });
 
       doc.moveDown(0.5);
 
-      // Options for multiple choice questions with spacing (Requirement 1.5)
-      // P2 Requirement 4.4: Render checkboxes for multiple-answer questions
-      if (question.questionType === 'MultipleChoice' && question.options) {
-        const isMultipleAnswer = question.allowMultipleAnswers || false;
-        const symbol = isMultipleAnswer ? '[ ]' : '( )'; // Checkbox for multi-answer, circle for single
-        
-        question.options.forEach((option, optIndex) => {
-          const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D...
-          const cleanOption = stripOptionPrefix(option); // Remove any existing prefix
-          doc
-            .fontSize(10)
-            .font('Helvetica')
-            .text(`${symbol} ${optionLabel}. ${cleanOption}`, {
-              indent: 40,
-            });
-          // Add spacing between options (8px) - Requirement 1.5
-          doc.moveDown(PDF_SPACING.optionGap / 12); // Convert pixels to approximate line spacing
-        });
-      }
+      // Diagram, graph or figure for the question
+      addQuestionImage(doc, question, images);
+
+      // Options, matching columns or ordering boxes, 8px apart (Requirement 1.5)
+      addAnswerLayout(doc, question, PDF_SPACING.optionGap / 12, images); // Convert pixels to approximate line spacing
 
       doc.moveDown(0.3);
 
@@ -562,11 +781,13 @@ export async function generateAnswerKey(
         }
       }
       
-      doc
-        .fontSize(10)
-        .font('Helvetica-Bold')
-        .fillColor('green')
-        .text(`Correct Answer: ${correctAnswerText}`, { indent: 20 });
+      // Answers accepted within a tolerance say so
+      if (correctAnswer && question.answerTolerance) {
+        correctAnswerText += ` (${describeTolerance(question.answerTolerance)})`;
+      }
+      
+      doc.font('Helvetica-Bold').fillColor('green');
+      addMathText(doc, `Correct Answer: ${correctAnswerText}`, { fontSize: 10, indent: 20 });
 
       doc.fillColor('black');
 
@@ -650,12 +871,14 @@ export async function generateAnswerKey(
  * @param test - The mock test to generate PDF for
  * @param includeAnswers - Whether to include answers in the PDF
  * @param studentMetadata - Optional student metadata for personalization (Requirements 2.1-2.6)
+ * @param images - Bytes of the images the questions show
  * @returns Result containing PDF buffer and filename, or error
  */
 export async function generatePDF(
   test: MockTest,
   includeAnswers: boolean,
-  studentMetadata?: StudentMetadata
+  studentMetadata?: StudentMetadata,
+  images: QuestionImages = new Map()
 ): Promise<Result<PDFDocumentType, PDFError>> {
   try {
     const doc = new PDFDocument({
@@ -683,9 +906,9 @@ export async function generatePDF(
 
     // Generate PDF content
     if (includeAnswers) {
-      generateAnswerKeyContent(doc, test);
+      generateAnswerKeyContent(doc, test, images);
     } else {
-      generateTestContent(doc, test, studentMetadata);
+      generateTestContent(doc, test, studentMetadata, images);
     }
 
     // Finalize the PDF
@@ -718,7 +941,8 @@ export async function generatePDF(
 function generateTestContent(
   doc: PDFKit.PDFDocument,
   test: MockTest,
-  studentMetadata?: StudentMetadata
+  studentMetadata: StudentMetadata | undefined,
+  images: QuestionImages
 ): void {
   const { configuration, questions } = test;
 
@@ -777,61 +1001,31 @@ function generateTestContent(
       doc.addPage();
     }
 
-    // Question number
-    doc
-      .fontSize(11)
-      .font('Helvetica-Bold')
-      .text(`Question ${index + 1}:`, { continued: false });
+    // Section header before the first question of each blueprint section
+    addSectionHeader(doc, questions, index);
+
+    // Passage or case study before the first question of its group
+    addGroupStimulus(doc, questions, index);
+
+    // Question number, with its marks on a blueprint paper
+    addQuestionNumber(doc, question, index);
 
     doc.moveDown(0.3);
 
     // Question text
-    doc
-      .fontSize(10)
-      .font('Helvetica')
-      .text(question.questionText, {
-        align: 'left',
-        indent: 20,
-      });
+    doc.font('Helvetica');
+    addMathText(doc, question.questionText, { fontSize: 10, indent: 20 });
 
     doc.moveDown(0.5);
 
-    // Options for multiple choice questions
-    // P2 Requirement 4.4: Render checkboxes for multiple-answer questions
-    if (question.questionType === 'MultipleChoice' && question.options) {
-      const isMultipleAnswer = question.allowMultipleAnswers || false;
-      const symbol = isMultipleAnswer ? '[ ]' : '( )'; // Checkbox for multi-answer, circle for single
-      
-      question.options.forEach((option, optIndex) => {
-        const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D...
-        const cleanOption = stripOptionPrefix(option); // Remove any existing prefix
-        doc
-          .fontSize(10)
-          .font('Helvetica')
-          .text(`${symbol} ${optionLabel}. ${cleanOption}`, {
-            indent: 40,
-          });
-        doc.moveDown(0.2);
-      });
-    }
+    // Diagram, graph or figure for the question
+    addQuestionImage(doc, question, images);
 
-    // Answer space
-    doc.moveDown(0.5);
-    doc
-      .fontSize(9)
-      .font('Helvetica-Oblique')
-      .text('Answer:', { indent: 20 });
+    // Options, matching columns or ordering boxes for the question type
+    addAnswerLayout(doc, question, 0.2, images);
 
-    // Draw lines for answer space
-    const answerLines = question.questionType === 'ShortAnswer' ? 3 : 1;
-    for (let i = 0; i < answerLines; i++) {
-      doc.moveDown(0.5);
-      const lineY = doc.y;
-      doc
-        .moveTo(70, lineY)
-        .lineTo(545, lineY)
-        .stroke();
-    }
+    // Answer space
+    addAnswerLines(doc, question);
 
     doc.moveDown(1.5);
   });
@@ -841,7 +1035,7 @@ function generateTestContent(
  * Generate test with answer key on separate pages
  * First generates the test questions, then adds answer key on new page(s)
  */
-function generateAnswerKeyContent(doc: PDFKit.PDFDocument, test: MockTest): void {
+function generateAnswerKeyContent(doc: PDFKit.PDFDocument, test: MockTest, images: QuestionImages): void {
   const { configuration, questions, answerKey } = test;
 
   // First, generate the test content (questions without answers)
@@ -895,61 +1089,31 @@ function generateAnswerKeyContent(doc: PDFKit.PDFDocument, test: MockTest): void
       doc.addPage();
     }
 
-    // Question number
-    doc
-      .fontSize(11)
-      .font('Helvetica-Bold')
-      .text(`Question ${index + 1}:`, { continued: false });
+    // Section header before the first question of each blueprint section
+    addSectionHeader(doc, questions, index);
+
+    // Passage or case study before the first question of its group
+    addGroupStimulus(doc, questions, index);
+
+    // Question number, with its marks on a blueprint paper
+    addQuestionNumber(doc, question, index);
 
     doc.moveDown(0.3);
 
     // Question text
-    doc
-      .fontSize(10)
-      .font('Helvetica')
-      .text(question.questionText, {
-        align: 'left',
-        indent: 20,
-      });
+    doc.font('Helvetica');
+    addMathText(doc, question.questionText, { fontSize: 10, indent: 20 });
 
     doc.moveDown(0.5);
 
-    // Options for multiple choice questions
-    // P2 Requirement 4.4: Render checkboxes for multiple-answer questions
-    if (question.questionType === 'MultipleChoice' && question.options) {
-      const isMultipleAnswer = question.allowMultipleAnswers || false;
-      const symbol = isMultipleAnswer ? '[ ]' : '( )'; // Checkbox for multi-answer, circle for single
-      
-      question.options.forEach((option, optIndex) => {
-        const optionLabel = String.fromCharCode(65 + optIndex); // A, B, C, D...
-        const cleanOption = stripOptionPrefix(option); // Remove any existing prefix
-        doc
-          .fontSize(10)
-          .font('Helvetica')
-          .text(`${symbol} ${optionLabel}. ${cleanOption}`, {
-            indent: 40,
-          });
-        doc.moveDown(0.2);
-      });
-    }
+    // Diagram, graph or figure for the question
+    addQuestionImage(doc, question, images);
 
-    // Answer space
-    doc.moveDown(0.5);
-    doc
-      .fontSize(9)
-      .font('Helvetica-Oblique')
-      .text('Answer:', { indent: 20 });
+    // Options, matching columns or ordering boxes for the question type
+    addAnswerLayout(doc, question, 0.2, images);
 
-    // Draw lines for answer space
-    const answerLines = question.questionType === 'ShortAnswer' ? 3 : 1;
-    for (let i = 0; i < answerLines; i++) {
-      doc.moveDown(0.5);
-      const lineY = doc.y;
-      doc
-        .moveTo(70, lineY)
-        .lineTo(545, lineY)
-        .stroke();
-    }
+    // Answer space
+    addAnswerLines(doc, question);
 
     doc.moveDown(1.5);
   });
@@ -993,22 +1157,17 @@ function generateAnswerKeyContent(doc: PDFKit.PDFDocument, test: MockTest): void
       doc.moveDown(1);
     }
 
-    // Question number
-    doc
-      .fontSize(11)
-      .font('Helvetica-Bold')
-      .text(`Question ${index + 1}:`, { continued: false });
+    // Section header before the first question of each blueprint section
+    addSectionHeader(doc, questions, index);
+
+    // Question number, with its marks on a blueprint paper
+    addQuestionNumber(doc, question, index);
 
     doc.moveDown(0.3);
 
     // Question text
-    doc
-      .fontSize(10)
-      .font('Helvetica')
-      .text(question.questionText, {
-        align: 'left',
-        indent: 20,
-      });
+    doc.font('Helvetica');
+    addMathText(doc, question.questionText, { fontSize: 10, indent: 20 });
 
     doc.moveDown(0.3);
 
@@ -1029,12 +1188,14 @@ function generateAnswerKeyContent(doc: PDFKit.PDFDocument, test: MockTest): void
       }
     }
 
+    // Answers accepted within a tolerance say so
+    if (correctAnswer && question.answerTolerance) {
+      correctAnswerText += ` (${describeTolerance(question.answerTolerance)})`;
+    }
+
     // Correct answer
-    doc
-      .fontSize(10)
-      .font('Helvetica-Bold')
-      .fillColor('green')
-      .text(`Correct Answer: ${correctAnswerText}`, { indent: 20 });
+    doc.font('Helvetica-Bold').fillColor('green');
+    addMathText(doc, `Correct Answer: ${correctAnswerText}`, { fontSize: 10, indent: 20 });
 
     doc.fillColor('black');
 
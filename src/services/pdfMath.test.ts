@@ -0,0 +1,51 @@
+// PDF math drawing tests
+
+import { describe, it, expect, vi } from 'vitest';
+import PDFDocument from 'pdfkit';
+import { addMathText } from './pdfMath';
+
+function createDoc(): PDFKit.PDFDocument {
+  const doc = new PDFDocument({ size: 'A4', margins: { top: 50, bottom: 50, left: 50, right: 50 } });
+  doc.on('data', () => {});
+  return doc;
+}
+
+describe('addMathText', () => {
+  it('should print text without LaTeX as ordinary text', () => {
+    const doc = createDoc();
+    const text = vi.spyOn(doc, 'text');
+
+    addMathText(doc, 'What is 1/2 + 1/4?', { fontSize: 10, indent: 20 });
+
+    expect(text).toHaveBeenCalledWith('What is 1/2 + 1/4?', { indent: 20, paragraphGap: 0 });
+    doc.end();
+  });
+
+  it('should draw formulas as shapes between the words around them', () => {
+    const doc = createDoc();
+    const path = vi.spyOn(doc, 'path');
+    const text = vi.spyOn(doc, 'text');
+    const top = doc.y;
+
+    addMathText(doc, 'Simplify \\(\\frac{x^{2}}{3}\\) now', { fontSize: 10 });
+
+    expect(path).toHaveBeenCalled();
+    expect(text.mock.calls.map(call => call[0])).toEqual(['Simplify', 'now']);
+    // The line is tall enough for the fraction and the text continues below it
+    expect(doc.y - top).toBeGreaterThan(doc.currentLineHeight(true));
+    expect(doc.x).toBe(50);
+    doc.end();
+  });
+
+  it('should print LaTeX it cannot typeset as plain text', () => {
+    const doc = createDoc();
+    const path = vi.spyOn(doc, 'path');
+    const text = vi.spyOn(doc, 'text');
+
+    addMathText(doc, 'Value: \\(\\undefinedcommand{2}\\)', { fontSize: 10 });
+
+    expect(path).not.toHaveBeenCalled();
+    expect(text.mock.calls.map(call => call[0])).toEqual(['Value:', 'undefinedcommand2']);
+    doc.end();
+  });
+});
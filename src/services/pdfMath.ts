@@ -0,0 +1,259 @@
+// PDF math drawing
+// Prints text containing LaTeX (see lib/mathNotation.ts) into a PDFKit document. Plain
+// text is laid out word by word and each formula is drawn from the shapes of its MathJax
+// SVG, so it stays sharp at any zoom. Text without LaTeX goes straight to doc.text().
+
+import { hasMath, latexToText, splitMath } from '../lib/mathNotation';
+import { typesetMath, MathSvgElement } from '../lib/mathRenderer';
+
+/**
+ * MathJax draws glyphs on a grid of 1000 units to the em
+ */
+const SVG_UNITS_PER_EM = 1000;
+
+/**
+ * Height of Helvetica's capitals above the baseline, as a share of the font size
+ * (with a little room for accents)
+ */
+const TEXT_ASCENT = 0.75;
+
+export interface MathTextOptions {
+  fontSize: number;
+  /** Indent of the first line of each paragraph, as with doc.text() */
+  indent?: number;
+  /** Space after the text */
+  paragraphGap?: number;
+}
+
+// A word, space, line break or formula laid out on a line
+type Piece = {
+  width: number;
+  ascent: number;
+  descent: number;
+  kind: 'word' | 'space' | 'break' | 'display';
+  draw: (x: number, baseline: number) => void;
+};
+
+/**
+ * Print text that may contain LaTeX at the current position, wrapping it to the page
+ * width and continuing on a new page when it runs off this one
+ * A formula MathJax cannot typeset is printed as plain text (see latexToText)
+ */
+export function addMathText(doc: PDFKit.PDFDocument, text: string, options: MathTextOptions): void {
+  const { fontSize, indent = 0, paragraphGap = 0 } = options;
+  doc.fontSize(fontSize);
+  if (!hasMath(text)) {
+    doc.text(text, { indent, paragraphGap });
+    return;
+  }
+
+  const left = doc.x;
+  const width = doc.page.width - doc.page.margins.right - left;
+  const pageBottom = doc.page.height - doc.page.margins.bottom;
+  const textAscent = fontSize * TEXT_ASCENT;
+  const textDescent = doc.currentLineHeight(true) - textAscent;
+
+  const word = (value: string): Piece => ({
+    width: doc.widthOfString(value),
+    ascent: textAscent,
+    descent: textDescent,
+    kind: 'word',
+    draw: (x, baseline) => {
+      doc.text(value, x, baseline, { lineBreak: false, baseline: 'alphabetic' });
+    },
+  });
+  const space: Piece = { ...word(' '), kind: 'space', draw: () => {} };
+  const lineBreak: Piece = { width: 0, ascent: 0, descent: 0, kind: 'break', draw: () => {} };
+
+  const pieces: Piece[] = [];
+  const addWords = (value: string) => {
+    for (const part of value.split(/(\s+)/)) {
+      if (part === '') continue;
+      if (/^\s+$/.test(part)) {
+        pieces.push(...(part.includes('\n') ? part.split('\n').slice(1).map(() => lineBreak) : [space]));
+      } else {
+        pieces.push(word(part));
+      }
+    }
+  };
+
+  for (const segment of splitMath(text)) {
+    if (segment.kind === 'text') {
+      addWords(segment.text);
+      continue;
+    }
+    const formula = mathPiece(doc, segment.latex, fontSize, segment.display);
+    if (formula) {
+      pieces.push(formula);
+    } else {
+      addWords(latexToText(segment.latex));
+    }
+  }
+
+  let line: Piece[] = [];
+  let lineWidth = 0;
+  let paragraphStart = true;
+  let afterDisplay = false;
+
+  const printLine = () => {
+    while (line.length > 0 && line[line.length - 1].kind === 'space') {
+      lineWidth -= line.pop()!.width;
+    }
+    const ascent = Math.max(textAscent, ...line.map(piece => piece.ascent));
+    const descent = Math.max(textDescent, ...line.map(piece => piece.descent));
+    if (doc.y + ascent + descent > pageBottom) {
+      doc.addPage();
+    }
+
+    const baseline = doc.y + ascent;
+    let x = line[0]?.kind === 'display'
+      ? left + Math.max(0, (width - lineWidth) / 2)
+      : left + (paragraphStart ? indent : 0);
+    for (const piece of line) {
+      piece.draw(x, baseline);
+      x += piece.width;
+    }
+
+    doc.y = baseline + descent;
+    line = [];
+    lineWidth = 0;
+  };
+
+  for (const piece of pieces) {
+    if (piece.kind === 'break') {
+      // A displayed formula is on a line of its own already
+      if (!afterDisplay) {
+        printLine();
+        paragraphStart = true;
+      }
+      afterDisplay = false;
+      continue;
+    }
+    if (piece.kind === 'display') {
+      if (line.length > 0) printLine();
+      line = [piece];
+      lineWidth = piece.width;
+      printLine();
+      paragraphStart = true;
+      afterDisplay = true;
+      continue;
+    }
+    afterDisplay = false;
+    if (piece.kind === 'space' && line.length === 0) {
+      continue;
+    }
+    const available = width - (paragraphStart ? indent : 0);
+    if (line.length > 0 && lineWidth + piece.width > available) {
+      printLine();
+      paragraphStart = false;
+      if (piece.kind === 'space') continue;
+    }
+    line.push(piece);
+    lineWidth += piece.width;
+  }
+  if (line.length > 0) {
+    printLine();
+  }
+
+  doc.x = left;
+  doc.y += paragraphGap;
+}
+
+/**
+ * A typeset formula sized to the font, or null if MathJax cannot typeset it
+ */
+function mathPiece(doc: PDFKit.PDFDocument, latex: string, fontSize: number, display: boolean): Piece | null {
+  const svg = typesetMath(latex, display);
+  const viewBox = String(svg?.attributes.viewBox ?? '').split(/[\s,]+/).map(Number);
+  if (!svg || viewBox.length !== 4 || viewBox.some(value => !Number.isFinite(value))) {
+    return null;
+  }
+
+  const [minX, minY, width, height] = viewBox;
+  const scale = fontSize / SVG_UNITS_PER_EM;
+  return {
+    width: width * scale,
+    ascent: -minY * scale,
+    descent: (height + minY) * scale,
+    kind: display ? 'display' : 'word',
+    draw: (x, baseline) => {
+      // The SVG's baseline is at y = 0, with y growing downwards as in PDFKit
+      doc.save();
+      doc.translate(x - minX * scale, baseline);
+      doc.scale(scale);
+      drawChildren(doc, svg);
+      doc.restore();
+    },
+  };
+}
+
+function drawChildren(doc: PDFKit.PDFDocument, element: MathSvgElement): void {
+  for (const child of element.children) {
+    if (child.kind !== '#text') {
+      drawElement(doc, child as MathSvgElement);
+    }
+  }
+}
+
+/**
+ * Draw one element of MathJax's SVG output: groups, glyph paths, rules (fraction bars,
+ * root overlines) and lines. Text elements, used only for characters outside MathJax's
+ * fonts, are left out.
+ */
+function drawElement(doc: PDFKit.PDFDocument, element: MathSvgElement): void {
+  const attribute = (name: string): number => Number(element.attributes[name] ?? 0) || 0;
+
+  doc.save();
+  applyTransform(doc, String(element.attributes.transform ?? ''));
+  switch (element.kind) {
+    case 'g':
+      drawChildren(doc, element);
+      break;
+
+    case 'svg':
+      doc.translate(attribute('x'), attribute('y'));
+      drawChildren(doc, element);
+      break;
+
+    case 'path':
+      if (element.attributes.d) {
+        doc.path(String(element.attributes.d)).fill();
+      }
+      break;
+
+    case 'rect':
+      doc.rect(attribute('x'), attribute('y'), attribute('width'), attribute('height')).fill();
+      break;
+
+    case 'line':
+      doc
+        .moveTo(attribute('x1'), attribute('y1'))
+        .lineTo(attribute('x2'), attribute('y2'))
+        .lineWidth(attribute('stroke-width') || 1)
+        .stroke();
+      break;
+  }
+  doc.restore();
+}
+
+function applyTransform(doc: PDFKit.PDFDocument, transform: string): void {
+  for (const [, name, args] of transform.matchAll(/(\w+)\(([^)]*)\)/g)) {
+    const values = args.split(/[\s,]+/).filter(Boolean).map(Number);
+    switch (name) {
+      case 'translate':
+        doc.translate(values[0] ?? 0, values[1] ?? 0);
+        break;
+      case 'scale':
+        doc.scale(values[0] ?? 1, values[1] ?? values[0] ?? 1);
+        break;
+      case 'matrix':
+        if (values.length === 6) {
+          doc.transform(values[0], values[1], values[2], values[3], values[4], values[5]);
+        }
+        break;
+      case 'rotate':
+        doc.rotate(values[0] ?? 0, { origin: [values[1] ?? 0, values[2] ?? 0] });
+        break;
+    }
+  }
+}
@@ -0,0 +1,261 @@
+// Question Bank Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { QuestionBankService, validateQuestionInput } from './questionBank';
+import { QuestionInput } from '../types';
+
+const input = (overrides: Partial<QuestionInput> = {}): QuestionInput => ({
+  topicId: 'fractions',
+  questionText: 'What is 1/2 + 1/4?',
+  questionType: 'MultipleChoice',
+  options: ['1/4', '2/4', '3/4', '1'],
+  correctAnswers: ['3/4'],
+  allowMultipleAnswers: false,
+  solutionSteps: ['Write 1/2 as 2/4', 'Add: 2/4 + 1/4 = 3/4'],
+  syllabusReference: 'Fractions',
+  difficulty: 'ExamRealistic',
+  ...overrides,
+});
+
+const questionRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'q1',
+  topicId: 'fractions',
+  questionText: 'What is 1/2 + 1/4?',
+  questionType: 'MultipleChoice',
+  options: JSON.stringify(['1/4', '2/4', '3/4', '1']),
+  correctAnswers: JSON.stringify(['3/4']),
+  allowMultipleAnswers: false,
+  solutionSteps: '[]',
+  syllabusReference: 'Fractions',
+  difficulty: 'ExamRealistic',
+  status: 'Approved',
+  alignmentScore: null,
+  alignmentReasoning: null,
+  reviewedAt: null,
+  reviewNote: null,
+  version: 1,
+  previousVersionId: null,
+  supersededAt: null,
+  nextVersion: null,
+  createdAt: new Date('2026-03-01T09:00:00Z'),
+  ...overrides,
+});
+
+describe('validateQuestionInput', () => {
+  it('should only accept one option image per option of a multiple choice question', () => {
+    expect(validateQuestionInput(input({ optionImageIds: ['a', null, null, 'd'] })).ok).toBe(true);
+    expect(validateQuestionInput(input({ optionImageIds: ['a', null] })).ok).toBe(false);
+    expect(validateQuestionInput(input({
+      questionType: 'Ordering',
+      options: ['3/4', '1/4'],
+      correctAnswers: ['1/4', '3/4'],
+      optionImageIds: ['a', 'b'],
+    })).ok).toBe(false);
+  });
+
+  it('should require every correct answer to be one of the options', () => {
+    const result = validateQuestionInput(input({ correctAnswers: ['5/4'] }));
+
+    expect(result.ok).toBe(false);
+  });
+
+  it('should only accept several correct answers when allowMultipleAnswers is set', () => {
+    expect(validateQuestionInput(input({ correctAnswers: ['2/4', '3/4'] })).ok).toBe(false);
+    expect(validateQuestionInput(input({ correctAnswers: ['2/4', '3/4'], allowMultipleAnswers: true })).ok).toBe(true);
+  });
+
+  it('should reject options on a numerical question', () => {
+    const result = validateQuestionInput(input({ questionType: 'Numerical', correctAnswers: ['0.75'] }));
+
+    expect(result.ok).toBe(false);
+  });
+
+  it('should require numerical answers to be numbers and keep tolerances to numerical questions', () => {
+    const numerical = (overrides: Partial<QuestionInput>) =>
+      validateQuestionInput(input({ questionType: 'Numerical', options: undefined, ...overrides }));
+
+    expect(numerical({ correctAnswers: ['0.75 m'], answerTolerance: { type: 'Relative', amount: 0.01 } }).ok).toBe(true);
+    expect(numerical({ correctAnswers: ['three quarters'] })).toEqual({
+      ok: false,
+      error: 'Correct answer "three quarters" is not a number (with an optional unit)',
+    });
+    expect(validateQuestionInput(input({ answerTolerance: { type: 'Absolute', amount: 0.1 } }))).toEqual({
+      ok: false,
+      error: 'Only numerical questions can have an answer tolerance',
+    });
+  });
+
+  it('should keep marking rubrics to short answer questions', () => {
+    const rubric = [{ point: 'Three of four equal parts', marks: 1, keywords: ['equal'] }];
+    expect(validateQuestionInput(input({
+      questionType: 'ShortAnswer', options: undefined, correctAnswers: ['Three of four equal parts'], rubric,
+    })).ok).toBe(true);
+    expect(validateQuestionInput(input({ rubric }))).toEqual({
+      ok: false,
+      error: 'Only short answer questions can have a marking rubric',
+    });
+  });
+
+  it('should check true/false, matching, ordering and fill-in-the-blank answers', () => {
+    expect(validateQuestionInput(input({
+      questionType: 'TrueFalse', options: ['True', 'False'], correctAnswers: ['False'],
+    })).ok).toBe(true);
+    expect(validateQuestionInput(input({
+      questionType: 'Matching',
+      matchItems: ['1/2', '3/4'],
+      options: ['0.5', '0.75', '0.25'],
+      correctAnswers: ['0.5', '0.75'],
+    })).ok).toBe(true);
+    expect(validateQuestionInput(input({
+      questionType: 'Matching', matchItems: ['1/2', '3/4'], options: ['0.5', '0.75'], correctAnswers: ['0.5'],
+    })).ok).toBe(false);
+    expect(validateQuestionInput(input({
+      questionType: 'Ordering', options: ['3/4', '1/4', '1/2'], correctAnswers: ['1/4', '1/2', '3/4'],
+    })).ok).toBe(true);
+    expect(validateQuestionInput(input({
+      questionType: 'Ordering', options: ['3/4', '1/4', '1'], correctAnswers: ['1/4', '1/2', '3/4'],
+    })).ok).toBe(false);
+    expect(validateQuestionInput(input({
+      questionType: 'FillInBlank', questionText: '1/2 = ___ / 4 = ___', options: undefined, correctAnswers: ['2'],
+    })).ok).toBe(false);
+  });
+});
+
+describe('QuestionBankService', () => {
+  it('should save an edit as a new version and leave the old one for past tests', async () => {
+    const create = vi.fn().mockResolvedValue(questionRow({
+      id: 'q2', questionText: 'What is 1/2 + 1/4? Simplify.', version: 2, previousVersionId: 'q1',
+      createdAt: new Date('2026-03-05T09:00:00Z'),
+    }));
+    const update = vi.fn();
+    const updateMany = vi.fn();
+    const service = new QuestionBankService({
+      question: { findUnique: vi.fn().mockResolvedValue(questionRow()), create, update },
+      syllabusTopic: { findUnique: vi.fn().mockResolvedValue({ id: 'fractions' }) },
+      reviewItem: { updateMany },
+    } as any);
+
+    const result = await service.updateQuestion('q1', input({ questionText: 'What is 1/2 + 1/4? Simplify.' }));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toMatchObject({ questionId: 'q2', version: 2, previousVersionId: 'q1' });
+    }
+    expect(create.mock.calls[0][0].data).toMatchObject({ version: 2, previousVersionId: 'q1' });
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'q1' },
+      data: { supersededAt: new Date('2026-03-05T09:00:00Z') },
+    });
+    expect(updateMany).toHaveBeenCalledWith({ where: { questionId: 'q1' }, data: { questionId: 'q2' } });
+  });
+
+  it('should refuse to edit an earlier version and point to the latest', async () => {
+    const findUnique = vi.fn()
+      .mockResolvedValueOnce(questionRow({ supersededAt: new Date(), nextVersion: { id: 'q2' } }))
+      .mockResolvedValueOnce({ id: 'q3' })
+      .mockResolvedValueOnce(null);
+    const create = vi.fn();
+    const service = new QuestionBankService({ question: { findUnique, create } } as any);
+
+    const result = await service.updateQuestion('q1', input());
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error).toEqual({ type: 'NotLatestVersion', latestQuestionId: 'q3' });
+    }
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should withdraw rather than delete a question a test has used', async () => {
+    const update = vi.fn();
+    const del = vi.fn();
+    const service = new QuestionBankService({
+      question: { findUnique: vi.fn().mockResolvedValue(questionRow()), update, delete: del },
+      testQuestion: { count: vi.fn().mockResolvedValue(3) },
+      userQuestion: { count: vi.fn().mockResolvedValue(0) },
+      reviewItem: { deleteMany: vi.fn() },
+    } as any);
+
+    const result = await service.deleteQuestion('q1');
+
+    expect(result).toEqual({ ok: true, value: { withdrawn: true } });
+    expect(del).not.toHaveBeenCalled();
+    expect(update.mock.calls[0][0].data.status).toBe('Retired');
+  });
+
+  it('should approve a draft and record who reviewed it', async () => {
+    const update = vi.fn().mockImplementation(({ data }) => questionRow({ ...data }));
+    const service = new QuestionBankService({
+      question: { findUnique: vi.fn().mockResolvedValue(questionRow({ status: 'Draft' })), update },
+      reviewItem: { deleteMany: vi.fn() },
+    } as any);
+
+    const result = await service.reviewQuestion('q1', 'teacher-1', { status: 'Approved', note: 'Checked' });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toMatchObject({ status: 'Approved', reviewNote: 'Checked' });
+    }
+    expect(update.mock.calls[0][0].data).toMatchObject({ status: 'Approved', reviewedById: 'teacher-1' });
+  });
+
+  it('should refuse to retire a question that was never approved', async () => {
+    const update = vi.fn();
+    const service = new QuestionBankService({
+      question: { findUnique: vi.fn().mockResolvedValue(questionRow({ status: 'Draft' })), update },
+    } as any);
+
+    const result = await service.reviewQuestion('q1', 'admin-1', { status: 'Retired' });
+
+    expect(result).toEqual({ ok: false, error: { type: 'InvalidTransition', from: 'Draft', to: 'Retired' } });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('should drop a rejected question from review queues', async () => {
+    const deleteMany = vi.fn();
+    const service = new QuestionBankService({
+      question: {
+        findUnique: vi.fn().mockResolvedValue(questionRow({ status: 'Draft' })),
+        update: vi.fn().mockResolvedValue(questionRow({ status: 'Rejected' })),
+      },
+      reviewItem: { deleteMany },
+    } as any);
+
+    await service.reviewQuestion('q1', 'admin-1', { status: 'Rejected', note: 'Answer is wrong' });
+
+    expect(deleteMany).toHaveBeenCalledWith({ where: { questionId: 'q1' } });
+  });
+
+  it('should score unscored drafts in the moderation queue against their syllabus topic', async () => {
+    const draft = questionRow({ status: 'Draft' });
+    const scored = questionRow({ status: 'Draft', alignmentScore: 0.4, alignmentReasoning: 'Beyond Class 6 syllabus' });
+    const update = vi.fn().mockResolvedValue(scored);
+    const validateSyllabusAlignment = vi.fn().mockResolvedValue({
+      ok: true,
+      value: { score: 0.4, reasoning: 'Beyond Class 6 syllabus', syllabusReferences: [] },
+    });
+    const getSyllabusContext = vi.fn().mockResolvedValue({ topicId: 'fractions', content: 'Fractions', relatedConcepts: [] });
+    const service = new QuestionBankService(
+      {
+        question: {
+          findMany: vi.fn().mockResolvedValue([draft, questionRow({ id: 'q2', status: 'Draft', alignmentScore: 0.9 })]),
+          count: vi.fn().mockResolvedValue(2),
+          update,
+        },
+      } as any,
+      { validateSyllabusAlignment },
+      { getSyllabusContext }
+    );
+
+    const result = await service.listModerationQueue({ status: 'Draft', limit: 25, offset: 0 });
+
+    expect(validateSyllabusAlignment).toHaveBeenCalledTimes(1);
+    expect(validateSyllabusAlignment.mock.calls[0][0]).toMatchObject({ questionId: 'q1', correctAnswer: '3/4' });
+    expect(update).toHaveBeenCalledWith({
+      where: { id: 'q1' },
+      data: { alignmentScore: 0.4, alignmentReasoning: 'Beyond Class 6 syllabus' },
+    });
+    expect(result.total).toBe(2);
+    expect(result.questions.map(q => q.alignmentScore)).toEqual([0.4, 0.9]);
+  });
+});
@@ -0,0 +1,588 @@
+// Question Bank Service
+// Admin authoring of bank questions. Editing a question creates its next version, so tests
+// that already used a question keep the exact text and answers they were taken with.
+// LLM-generated questions enter as Draft and are moderated before the RAG path serves them
+
+import { PrismaClient } from '@prisma/client';
+import {
+  Question,
+  QuestionId,
+  QuestionType,
+  QuestionStatus,
+  DifficultyLevel,
+  BankQuestion,
+  BankTopic,
+  QuestionInput,
+  QuestionSearch,
+  ModerationSearch,
+  ModerationDecision,
+  QuestionBankError,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { QuestionGenerator, RAGRetriever } from './interfaces';
+import { TRUE_FALSE_OPTIONS, countBlanks, isPartMarked, parseRubric, questionAnswerFields } from '../lib/questionFormats';
+import { questionImageIds } from './questionImages';
+import { parseAnswerTolerance, parseQuantity } from '../lib/numericAnswers';
+
+/**
+ * Moderation decisions allowed from each status
+ * Rejected and retired questions can be reinstated; drafts must be approved or rejected first
+ */
+const STATUS_TRANSITIONS: Record<QuestionStatus, QuestionStatus[]> = {
+  Draft: ['Approved', 'Rejected'],
+  Approved: ['Retired'],
+  Rejected: ['Approved'],
+  Retired: ['Approved'],
+};
+
+/**
+ * Check the rules a question must satisfy beyond its field types
+ */
+export function validateQuestionInput(input: QuestionInput): Result<void, string> {
+  const options = input.options ?? [];
+  const takesOptions = ['MultipleChoice', 'TrueFalse', 'Matching', 'Ordering'].includes(input.questionType);
+  if (!takesOptions && options.length > 0) {
+    return Err(`${input.questionType} questions do not take options`);
+  }
+  if (new Set(options).size !== options.length) {
+    return Err('Options must be distinct');
+  }
+  if (input.questionType !== 'Matching' && input.matchItems && input.matchItems.length > 0) {
+    return Err(`${input.questionType} questions do not take items to match`);
+  }
+  if (input.optionImageIds?.some(Boolean)) {
+    if (input.questionType !== 'MultipleChoice') {
+      return Err('Only multiple choice options can have images');
+    }
+    if (input.optionImageIds.length !== options.length) {
+      return Err('Give one option image (or null) for each option');
+    }
+  }
+  if (input.answerTolerance && input.questionType !== 'Numerical') {
+    return Err('Only numerical questions can have an answer tolerance');
+  }
+  if (input.rubric && input.rubric.length > 0 && input.questionType !== 'ShortAnswer') {
+    return Err('Only short answer questions can have a marking rubric');
+  }
+
+  switch (input.questionType) {
+    case 'MultipleChoice': {
+      if (options.length < 2) {
+        return Err('Multiple choice questions need at least two options');
+      }
+      const missing = input.correctAnswers.find(answer => !options.includes(answer));
+      if (missing !== undefined) {
+        return Err(`Correct answer "${missing}" is not one of the options`);
+      }
+      break;
+    }
+    case 'TrueFalse':
+      if (options.length !== 2 || options.some((option, i) => option !== TRUE_FALSE_OPTIONS[i])) {
+        return Err('True/false questions take the options True and False');
+      }
+      if (input.correctAnswers.length !== 1 || !options.includes(input.correctAnswers[0])) {
+        return Err('The correct answer must be True or False');
+      }
+      break;
+    case 'Matching': {
+      const items = input.matchItems ?? [];
+      if (items.length < 2) {
+        return Err('Matching questions need at least two items to match');
+      }
+      if (new Set(items).size !== items.length) {
+        return Err('Items to match must be distinct');
+      }
+      if (input.correctAnswers.length !== items.length) {
+        return Err('Give one correct match for each item');
+      }
+      const missing = input.correctAnswers.find(answer => !options.includes(answer));
+      if (missing !== undefined) {
+        return Err(`Match "${missing}" is not one of the options`);
+      }
+      break;
+    }
+    case 'Ordering': {
+      if (input.correctAnswers.length < 2) {
+        return Err('Ordering questions need at least two items');
+      }
+      const inOrder = [...input.correctAnswers].sort();
+      const sameItems = options.length === inOrder.length
+        && [...options].sort().every((option, i) => option === inOrder[i]);
+      if (!sameItems || new Set(inOrder).size !== inOrder.length) {
+        return Err('The options must be the distinct items of the correct order');
+      }
+      break;
+    }
+    case 'Numerical': {
+      const unreadable = input.correctAnswers.find(answer => parseQuantity(answer) === null);
+      if (unreadable !== undefined) {
+        return Err(`Correct answer "${unreadable}" is not a number (with an optional unit)`);
+      }
+      break;
+    }
+    case 'FillInBlank': {
+      const blanks = countBlanks(input.questionText);
+      if (blanks === 0) {
+        return Err('Mark each blank in the question text with ___');
+      }
+      if (input.correctAnswers.length !== blanks) {
+        return Err(`The question has ${blanks} blank(s) but ${input.correctAnswers.length} answer(s)`);
+      }
+      break;
+    }
+  }
+
+  if (!isPartMarked(input.questionType) && !input.allowMultipleAnswers && input.correctAnswers.length > 1) {
+    return Err('Enable allowMultipleAnswers to give more than one correct answer');
+  }
+
+  return Ok(undefined);
+}
+
+export class QuestionBankService {
+  private prisma: PrismaClient;
+  private alignmentChecker?: Pick<QuestionGenerator, 'validateSyllabusAlignment'>;
+  private syllabus?: Pick<RAGRetriever, 'getSyllabusContext'>;
+
+  constructor(
+    prisma: PrismaClient,
+    alignmentChecker?: Pick<QuestionGenerator, 'validateSyllabusAlignment'>,
+    syllabus?: Pick<RAGRetriever, 'getSyllabusContext'>
+  ) {
+    this.prisma = prisma;
+    this.alignmentChecker = alignmentChecker;
+    this.syllabus = syllabus;
+  }
+
+  /**
+   * Syllabus topics for a curriculum, grade and subject with their question counts
+   */
+  async listTopics(curriculum: string, grade: number, subject: string): Promise<BankTopic[]> {
+    const topics = await this.prisma.syllabusTopic.findMany({
+      where: {
+        curriculum,
+        grade,
+        subject: { equals: subject, mode: 'insensitive' },
+      },
+      select: {
+        id: true,
+        topicName: true,
+        syllabusSection: true,
+        _count: { select: { questions: { where: { supersededAt: null } } } },
+      },
+      orderBy: { topicName: 'asc' },
+    });
+
+    return (topics as TopicRow[]).map(topic => ({
+      topicId: topic.id,
+      topicName: topic.topicName,
+      syllabusSection: topic.syllabusSection,
+      questionCount: topic._count.questions,
+    }));
+  }
+
+  /**
+   * Current versions of bank questions, newest first
+   */
+  async listQuestions(search: QuestionSearch): Promise<{ questions: BankQuestion[]; total: number }> {
+    const where = {
+      supersededAt: null,
+      ...(search.topicId && { topicId: search.topicId }),
+      ...(search.search && { questionText: { contains: search.search, mode: 'insensitive' as const } }),
+    };
+
+    const [rows, total] = await Promise.all([
+      this.prisma.question.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: search.offset,
+        take: search.limit,
+      }),
+      this.prisma.question.count({ where }),
+    ]);
+
+    return { questions: (rows as QuestionRow[]).map(toBankQuestion), total };
+  }
+
+  /**
+   * A question with its earlier versions (newest first) and how many tests used it
+   */
+  async getQuestion(
+    questionId: QuestionId
+  ): Promise<Result<{ question: BankQuestion; history: BankQuestion[]; testCount: number }, NotFoundError>> {
+    const row: QuestionRow | null = await this.prisma.question.findUnique({ where: { id: questionId } });
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'Question', id: questionId });
+    }
+
+    const history: BankQuestion[] = [];
+    let previousId = row.previousVersionId;
+    while (previousId) {
+      const previous: QuestionRow | null = await this.prisma.question.findUnique({ where: { id: previousId } });
+      if (!previous) break;
+      history.push(toBankQuestion(previous));
+      previousId = previous.previousVersionId;
+    }
+
+    const testCount = await this.prisma.testQuestion.count({ where: { questionId } });
+
+    return Ok({ question: toBankQuestion(row), history, testCount });
+  }
+
+  /**
+   * Add a new question to the bank
+   */
+  async createQuestion(input: QuestionInput): Promise<Result<BankQuestion, QuestionBankError>> {
+    const invalid = await this.checkInput(input);
+    if (invalid) {
+      return Err(invalid);
+    }
+
+    const row = await this.prisma.question.create({ data: toQuestionData(input) });
+    return Ok(toBankQuestion(row));
+  }
+
+  /**
+   * Questions awaiting (or past) moderation, newest first
+   * Drafts on the page that have not been scored yet are checked against their syllabus topic
+   */
+  async listModerationQueue(
+    search: ModerationSearch
+  ): Promise<{ questions: BankQuestion[]; total: number }> {
+    const where = {
+      supersededAt: null,
+      status: search.status,
+      ...(search.topicId && { topicId: search.topicId }),
+    };
+
+    const [rows, total] = await Promise.all([
+      this.prisma.question.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: search.offset,
+        take: search.limit,
+      }),
+      this.prisma.question.count({ where }),
+    ]);
+
+    const questions: BankQuestion[] = [];
+    for (const row of rows as QuestionRow[]) {
+      questions.push(toBankQuestion(
+        row.status === 'Draft' && row.alignmentScore === null ? await this.scoreAlignment(row) : row
+      ));
+    }
+
+    return { questions, total };
+  }
+
+  /**
+   * Record a moderation decision on the current version of a question
+   * Rejected and retired questions leave students' review queues
+   */
+  async reviewQuestion(
+    questionId: QuestionId,
+    reviewerId: string,
+    decision: ModerationDecision
+  ): Promise<Result<BankQuestion, QuestionBankError | NotFoundError>> {
+    const current = await this.findCurrent(questionId);
+    if (!current.ok) {
+      return current;
+    }
+
+    const from = current.value.status as QuestionStatus;
+    if (!STATUS_TRANSITIONS[from].includes(decision.status)) {
+      return Err({ type: 'InvalidTransition', from, to: decision.status });
+    }
+
+    const row = await this.prisma.question.update({
+      where: { id: questionId },
+      data: {
+        status: decision.status,
+        reviewedById: reviewerId,
+        reviewedAt: new Date(),
+        reviewNote: decision.note ?? null,
+      },
+    });
+
+    if (decision.status === 'Rejected' || decision.status === 'Retired') {
+      await this.prisma.reviewItem.deleteMany({ where: { questionId } });
+    }
+
+    return Ok(toBankQuestion(row));
+  }
+
+  /**
+   * Save an edit as the next version of a question
+   * The edited version is superseded rather than changed; pending reviews move to the new version.
+   * An admin's edit counts as approval, so the new version is Approved whatever the old status
+   */
+  async updateQuestion(
+    questionId: QuestionId,
+    input: QuestionInput
+  ): Promise<Result<BankQuestion, QuestionBankError | NotFoundError>> {
+    const current = await this.findCurrent(questionId);
+    if (!current.ok) {
+      return current;
+    }
+
+    const invalid = await this.checkInput(input);
+    if (invalid) {
+      return Err(invalid);
+    }
+
+    const row = await this.prisma.question.create({
+      data: {
+        ...toQuestionData(input),
+        version: current.value.version + 1,
+        previousVersionId: questionId,
+      },
+    });
+
+    await this.prisma.question.update({
+      where: { id: questionId },
+      data: { supersededAt: row.createdAt },
+    });
+    await this.prisma.reviewItem.updateMany({
+      where: { questionId },
+      data: { questionId: row.id },
+    });
+
+    return Ok(toBankQuestion(row));
+  }
+
+  /**
+   * Remove a question from the bank
+   * A question no test has used is deleted; one that has been used is withdrawn
+   * (retired) so past tests still show it
+   */
+  async deleteQuestion(
+    questionId: QuestionId
+  ): Promise<Result<{ withdrawn: boolean }, QuestionBankError | NotFoundError>> {
+    const current = await this.findCurrent(questionId);
+    if (!current.ok) {
+      return current;
+    }
+
+    const [testCount, seenCount] = await Promise.all([
+      this.prisma.testQuestion.count({ where: { questionId } }),
+      this.prisma.userQuestion.count({ where: { questionId } }),
+    ]);
+
+    await this.prisma.reviewItem.deleteMany({ where: { questionId } });
+
+    if (testCount === 0 && seenCount === 0) {
+      await this.prisma.question.delete({ where: { id: questionId } });
+      return Ok({ withdrawn: false });
+    }
+
+    await this.prisma.question.update({
+      where: { id: questionId },
+      data: { status: 'Retired', reviewedAt: new Date() },
+    });
+    return Ok({ withdrawn: true });
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Load a question that may still be edited: only the latest version can be
+   */
+  private async findCurrent(
+    questionId: QuestionId
+  ): Promise<Result<QuestionRow, QuestionBankError | NotFoundError>> {
+    const row = await this.prisma.question.findUnique({
+      where: { id: questionId },
+      include: { nextVersion: { select: { id: true } } },
+    });
+    if (!row) {
+      return Err({ type: 'NotFound', resource: 'Question', id: questionId });
+    }
+
+    if (row.nextVersion) {
+      let latestId: QuestionId = row.nextVersion.id;
+      for (;;) {
+        const next = await this.prisma.question.findUnique({
+          where: { previousVersionId: latestId },
+          select: { id: true },
+        });
+        if (!next) break;
+        latestId = next.id;
+      }
+      return Err({ type: 'NotLatestVersion', latestQuestionId: latestId });
+    }
+    if (row.supersededAt) {
+      return Err({ type: 'NotFound', resource: 'Question', id: questionId });
+    }
+
+    return Ok(row as QuestionRow);
+  }
+
+  /**
+   * Store the syllabus alignment score for a draft; left unscored when no LLM is configured
+   */
+  private async scoreAlignment(row: QuestionRow): Promise<QuestionRow> {
+    if (!this.alignmentChecker || !this.syllabus) {
+      return row;
+    }
+
+    try {
+      const context = await this.syllabus.getSyllabusContext(row.topicId);
+      const alignment = await this.alignmentChecker.validateSyllabusAlignment(toQuestion(row), context);
+      if (!alignment.ok) {
+        return row;
+      }
+
+      return await this.prisma.question.update({
+        where: { id: row.id },
+        data: {
+          alignmentScore: alignment.value.score,
+          alignmentReasoning: alignment.value.reasoning,
+        },
+      });
+    } catch (error) {
+      console.warn(`Alignment check failed for question ${row.id}:`, error);
+      return row;
+    }
+  }
+
+  private async checkInput(input: QuestionInput): Promise<QuestionBankError | null> {
+    const validation = validateQuestionInput(input);
+    if (!validation.ok) {
+      return { type: 'InvalidQuestion', message: validation.error };
+    }
+
+    const topic = await this.prisma.syllabusTopic.findUnique({
+      where: { id: input.topicId },
+      select: { id: true },
+    });
+    if (!topic) {
+      return { type: 'InvalidQuestion', message: `Topic ${input.topicId} does not exist` };
+    }
+
+    const imageIds = questionImageIds([input]);
+    if (imageIds.length > 0) {
+      const images: Array<{ id: string }> = await this.prisma.questionImage.findMany({
+        where: { id: { in: imageIds } },
+        select: { id: true },
+      });
+      const missing = imageIds.find(id => !images.some(image => image.id === id));
+      if (missing) {
+        return { type: 'InvalidQuestion', message: `Image ${missing} does not exist` };
+      }
+    }
+
+    return null;
+  }
+}
+
+function toQuestionData(input: QuestionInput) {
+  return {
+    topicId: input.topicId,
+    questionText: input.questionText,
+    questionType: input.questionType,
+    options: input.options && input.options.length > 0 ? JSON.stringify(input.options) : null,
+    matchItems: input.questionType === 'Matching' ? JSON.stringify(input.matchItems ?? []) : null,
+    imageId: input.imageId ?? null,
+    optionImageIds: input.optionImageIds?.some(Boolean) ? JSON.stringify(input.optionImageIds) : null,
+    correctAnswers: JSON.stringify(input.correctAnswers),
+    answerTolerance: input.answerTolerance ? JSON.stringify(input.answerTolerance) : null,
+    rubric: input.rubric && input.rubric.length > 0 ? JSON.stringify(input.rubric) : null,
+    allowMultipleAnswers: input.allowMultipleAnswers,
+    solutionSteps: JSON.stringify(input.solutionSteps),
+    syllabusReference: input.syllabusReference,
+    difficulty: input.difficulty,
+    status: 'Approved',
+  };
+}
+
+function toQuestion(row: QuestionRow): Question {
+  const correctAnswers: string[] = JSON.parse(row.correctAnswers || '[]');
+  const matchItems: string[] | undefined = row.matchItems ? JSON.parse(row.matchItems) : undefined;
+  return {
+    questionId: row.id,
+    topicId: row.topicId,
+    questionText: row.questionText,
+    questionType: row.questionType as QuestionType,
+    options: row.options ? JSON.parse(row.options) : undefined,
+    matchItems,
+    imageId: row.imageId ?? undefined,
+    optionImageIds: row.optionImageIds ? JSON.parse(row.optionImageIds) : undefined,
+    ...questionAnswerFields(row.questionType, correctAnswers, matchItems),
+    answerTolerance: parseAnswerTolerance(row.answerTolerance),
+    rubric: parseRubric(row.rubric),
+    allowMultipleAnswers: row.allowMultipleAnswers,
+    solutionSteps: JSON.parse(row.solutionSteps || '[]'),
+    syllabusReference: row.syllabusReference,
+    difficulty: row.difficulty as DifficultyLevel,
+    createdAt: row.createdAt,
+  };
+}
+
+function toBankQuestion(row: QuestionRow): BankQuestion {
+  return {
+    questionId: row.id,
+    topicId: row.topicId,
+    questionText: row.questionText,
+    questionType: row.questionType as QuestionType,
+    options: row.options ? JSON.parse(row.options) : undefined,
+    matchItems: row.matchItems ? JSON.parse(row.matchItems) : undefined,
+    imageId: row.imageId ?? undefined,
+    optionImageIds: row.optionImageIds ? JSON.parse(row.optionImageIds) : undefined,
+    correctAnswers: JSON.parse(row.correctAnswers || '[]'),
+    answerTolerance: parseAnswerTolerance(row.answerTolerance),
+    rubric: parseRubric(row.rubric),
+    allowMultipleAnswers: row.allowMultipleAnswers,
+    solutionSteps: JSON.parse(row.solutionSteps || '[]'),
+    syllabusReference: row.syllabusReference,
+    difficulty: row.difficulty as DifficultyLevel,
+    status: row.status as QuestionStatus,
+    alignmentScore: row.alignmentScore ?? undefined,
+    alignmentReasoning: row.alignmentReasoning ?? undefined,
+    reviewedAt: row.reviewedAt ?? undefined,
+    reviewNote: row.reviewNote ?? undefined,
+    version: row.version,
+    previousVersionId: row.previousVersionId ?? undefined,
+    supersededAt: row.supersededAt ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type TopicRow = {
+  id: string;
+  topicName: string;
+  syllabusSection: string;
+  _count: { questions: number };
+};
+
+type QuestionRow = {
+  id: string;
+  topicId: string;
+  questionText: string;
+  questionType: string;
+  options: string | null;
+  matchItems: string | null;
+  imageId: string | null;
+  optionImageIds: string | null;
+  correctAnswers: string;
+  answerTolerance: string | null;
+  rubric: string | null;
+  allowMultipleAnswers: boolean;
+  solutionSteps: string;
+  syllabusReference: string;
+  difficulty: string;
+  status: string;
+  alignmentScore: number | null;
+  alignmentReasoning: string | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  version: number;
+  previousVersionId: string | null;
+  supersededAt: Date | null;
+  createdAt: Date;
+};
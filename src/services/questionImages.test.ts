@@ -0,0 +1,121 @@
+// Question Image Service tests
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { QuestionImageService, detectImageType, questionImageIds, MAX_IMAGE_BYTES } from './questionImages';
+import { LocalImageStorage, DatabaseImageStorage, createImageStorage } from './imageStorage';
+
+// 1x1 transparent PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
+  'base64'
+);
+const createdAt = new Date('2026-03-01T10:00:00Z');
+
+const directories: string[] = [];
+function localStorage(): LocalImageStorage {
+  const directory = mkdtempSync(join(tmpdir(), 'question-images-'));
+  directories.push(directory);
+  return new LocalImageStorage(directory);
+}
+
+afterEach(() => {
+  directories.splice(0).forEach(directory => rmSync(directory, { recursive: true, force: true }));
+});
+
+describe('detectImageType', () => {
+  it('should recognise PNG and JPEG by their signatures only', () => {
+    expect(detectImageType(PNG)).toBe('image/png');
+    expect(detectImageType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toBe('image/jpeg');
+    expect(detectImageType(Buffer.from('GIF89a'))).toBeNull();
+    expect(detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBeNull();
+  });
+});
+
+describe('questionImageIds', () => {
+  it('should list each question and option image once', () => {
+    expect(questionImageIds([
+      { imageId: 'graph' },
+      { optionImageIds: ['a', null, 'graph'] },
+      {},
+    ])).toEqual(['graph', 'a']);
+  });
+});
+
+describe('QuestionImageService', () => {
+  it('should record the image and keep its bytes in the storage', async () => {
+    const create = vi.fn().mockResolvedValue({ id: 'image-1', contentType: 'image/png', byteSize: PNG.length, createdAt });
+    const findUnique = vi.fn().mockResolvedValue({ id: 'image-1', contentType: 'image/png', byteSize: PNG.length, createdAt });
+    const service = new QuestionImageService({ questionImage: { create, findUnique } } as any, localStorage());
+
+    const saved = await service.saveImage(PNG);
+
+    expect(saved).toEqual({
+      ok: true,
+      value: { imageId: 'image-1', contentType: 'image/png', byteSize: PNG.length, createdAt },
+    });
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({
+      data: { contentType: 'image/png', byteSize: PNG.length },
+    }));
+    expect(await service.getImage('image-1')).toEqual({ ok: true, value: { contentType: 'image/png', data: PNG } });
+  });
+
+  it('should refuse other file types and oversized images before storing anything', async () => {
+    const create = vi.fn();
+    const service = new QuestionImageService({ questionImage: { create } } as any, localStorage());
+    const oversized = Buffer.concat([PNG, Buffer.alloc(MAX_IMAGE_BYTES)]);
+
+    expect(await service.saveImage(Buffer.from('GIF89a'))).toEqual({ ok: false, error: { type: 'UnsupportedImage' } });
+    expect(await service.saveImage(oversized)).toEqual({
+      ok: false,
+      error: { type: 'ImageTooLarge', maxBytes: MAX_IMAGE_BYTES },
+    });
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should remove the record when the storage cannot keep the bytes', async () => {
+    const create = vi.fn().mockResolvedValue({ id: 'image-1', contentType: 'image/png', byteSize: PNG.length, createdAt });
+    const remove = vi.fn().mockResolvedValue({});
+    const storage = { name: 'local' as const, save: vi.fn().mockRejectedValue(new Error('disk full')), load: vi.fn() };
+    const service = new QuestionImageService({ questionImage: { create, delete: remove } } as any, storage);
+
+    await expect(service.saveImage(PNG)).rejects.toThrow('disk full');
+    expect(remove).toHaveBeenCalledWith({ where: { id: 'image-1' } });
+  });
+
+  it('should report an unknown image as not found', async () => {
+    const findUnique = vi.fn().mockResolvedValue(null);
+    const service = new QuestionImageService({ questionImage: { findUnique } } as any, localStorage());
+
+    expect(await service.getImage('missing')).toEqual({
+      ok: false,
+      error: { type: 'NotFound', resource: 'Image', id: 'missing' },
+    });
+  });
+
+  it('should load the images of a test and leave out any it cannot find', async () => {
+    const storage = localStorage();
+    await storage.save('graph', PNG);
+    const service = new QuestionImageService({} as any, storage);
+
+    const images = await service.loadImages([{ imageId: 'graph', optionImageIds: ['lost', null] }]);
+
+    expect([...images.keys()]).toEqual(['graph']);
+    expect(images.get('graph')).toEqual(PNG);
+  });
+});
+
+describe('createImageStorage', () => {
+  it('should store images in the database unless local storage is selected', () => {
+    expect(createImageStorage({} as any, {})).toBeInstanceOf(DatabaseImageStorage);
+    expect(createImageStorage({} as any, { IMAGE_STORAGE: 'local', IMAGE_STORAGE_DIR: tmpdir() }))
+      .toBeInstanceOf(LocalImageStorage);
+    expect(() => createImageStorage({} as any, { IMAGE_STORAGE: 's3' })).toThrow('Unknown IMAGE_STORAGE "s3"');
+  });
+
+  it('should refuse image ids that are not plain names', async () => {
+    await expect(localStorage().load('../secrets')).rejects.toThrow('Invalid image id');
+  });
+});
@@ -0,0 +1,145 @@
+// Question Image Service
+// Diagrams, graphs and figures attached to questions and their options. Each image has a
+// QuestionImage row; its bytes are kept by the configured ImageStorage
+
+import { PrismaClient } from '@prisma/client';
+import {
+  ImageId,
+  ImageContentType,
+  ImageData,
+  ImageError,
+  NotFoundError,
+  Question,
+  QuestionImage,
+  QuestionImages,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { ImageStorage } from './imageStorage';
+
+export const MAX_IMAGE_BYTES = 2 * 1024 * 1024;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG_SIGNATURE = Buffer.from([0xff, 0xd8, 0xff]);
+
+/**
+ * Type of an image from its first bytes; null for anything but PNG and JPEG
+ */
+export function detectImageType(data: Buffer): ImageContentType | null {
+  if (data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) return 'image/png';
+  if (data.subarray(0, JPEG_SIGNATURE.length).equals(JPEG_SIGNATURE)) return 'image/jpeg';
+  return null;
+}
+
+/**
+ * Check an image can be stored, without storing it
+ */
+export function checkImage(data: Buffer): Result<ImageContentType, ImageError> {
+  const contentType = detectImageType(data);
+  if (!contentType) {
+    return Err({ type: 'UnsupportedImage' });
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    return Err({ type: 'ImageTooLarge', maxBytes: MAX_IMAGE_BYTES });
+  }
+  return Ok(contentType);
+}
+
+/**
+ * Every image a set of questions shows, each listed once
+ */
+export function questionImageIds(
+  questions: Array<Pick<Question, 'imageId' | 'optionImageIds'>>
+): ImageId[] {
+  const ids = questions.flatMap(question => [question.imageId, ...(question.optionImageIds ?? [])]);
+  return [...new Set(ids.filter((id): id is ImageId => !!id))];
+}
+
+export class QuestionImageService {
+  private prisma: PrismaClient;
+  private storage: ImageStorage;
+
+  constructor(prisma: PrismaClient, storage: ImageStorage) {
+    this.prisma = prisma;
+    this.storage = storage;
+  }
+
+  /**
+   * Store a PNG or JPEG image
+   */
+  async saveImage(data: Buffer): Promise<Result<QuestionImage, ImageError>> {
+    const checked = checkImage(data);
+    if (!checked.ok) {
+      return checked;
+    }
+
+    const row: ImageRow = await this.prisma.questionImage.create({
+      data: { contentType: checked.value, byteSize: data.length },
+      select: IMAGE_FIELDS,
+    });
+    try {
+      await this.storage.save(row.id, data);
+    } catch (error) {
+      // Leave no row behind for an image whose bytes were never stored
+      await this.prisma.questionImage.delete({ where: { id: row.id } });
+      throw error;
+    }
+    return Ok(toQuestionImage(row));
+  }
+
+  /**
+   * An image with its bytes, to serve to the browser
+   */
+  async getImage(imageId: ImageId): Promise<Result<ImageData, NotFoundError>> {
+    const notFound = Err<ImageData, NotFoundError>({ type: 'NotFound', resource: 'Image', id: imageId });
+    const row: ImageRow | null = await this.prisma.questionImage.findUnique({
+      where: { id: imageId },
+      select: IMAGE_FIELDS,
+    });
+    if (!row) {
+      return notFound;
+    }
+
+    const data = await this.storage.load(imageId);
+    return data ? Ok({ contentType: row.contentType as ImageContentType, data }) : notFound;
+  }
+
+  /**
+   * Bytes of the images a set of questions shows, for embedding in PDFs
+   * An image that cannot be loaded is left out and the PDF is printed without it
+   */
+  async loadImages(questions: Array<Pick<Question, 'imageId' | 'optionImageIds'>>): Promise<QuestionImages> {
+    const images: QuestionImages = new Map();
+    for (const imageId of questionImageIds(questions)) {
+      try {
+        const data = await this.storage.load(imageId);
+        if (data) {
+          images.set(imageId, data);
+        }
+      } catch (error) {
+        console.error(`Could not load image ${imageId}:`, error);
+      }
+    }
+    return images;
+  }
+}
+
+const IMAGE_FIELDS = { id: true, contentType: true, byteSize: true, createdAt: true } as const;
+
+function toQuestionImage(row: ImageRow): QuestionImage {
+  return {
+    imageId: row.id,
+    contentType: row.contentType as ImageContentType,
+    byteSize: row.byteSize,
+    createdAt: row.createdAt,
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type ImageRow = {
+  id: string;
+  contentType: string;
+  byteSize: number;
+  createdAt: Date;
+};
@@ -0,0 +1,129 @@
+// Question Import Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { QuestionImportService } from './questionImport';
+import { QuestionBankService } from './questionBank';
+import { Ok } from '../types';
+
+const CSV = [
+  'curriculum,grade,subject,topic,question,type,options,answer',
+  'CBSE,8,Mathematics,Fractions,What is 1/2 + 1/4?,MultipleChoice,1/4|2/4|3/4,3/4',
+  'CBSE,8,Mathematics,Decimals,Write 3/4 as a decimal,Numerical,,0.75',
+  'CBSE,8,Mathematics,Fractions,Which is larger?,MultipleChoice,1/2|1/3,2/3',
+  ',,,,Simplify 2/4,ShortAnswer,,1/2',
+].join('\n');
+
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const moodleQuestion = (questionImage: string) => `<question type="multichoice">
+    <questiontext format="html">
+      <text><![CDATA[<p>Which fraction is shaded?</p><img src="@@PLUGINFILE@@/shaded.png">]]></text>
+      <file name="shaded.png" path="/" encoding="base64">${questionImage}</file>
+    </questiontext>
+    <single>true</single>
+    <answer fraction="100" format="html">
+      <text><![CDATA[<img src="@@PLUGINFILE@@/half.png" alt="1/2">]]></text>
+      <file name="half.png" path="/" encoding="base64">${PNG_BASE64}</file>
+    </answer>
+    <answer fraction="0" format="html"><text>1/3</text></answer>
+  </question>`;
+
+function createService() {
+  const findFirst = vi.fn().mockImplementation(({ where }) =>
+    Promise.resolve(where.topicName.equals === 'Fractions' ? { id: 'fractions', topicName: 'Fractions' } : null)
+  );
+  const createQuestion = vi.fn().mockImplementation(() => Promise.resolve(Ok({ questionId: 'new-q' })));
+  let savedImages = 0;
+  const saveImage = vi.fn().mockImplementation(() => Promise.resolve(Ok({ imageId: `image-${++savedImages}` })));
+  const service = new QuestionImportService(
+    { syllabusTopic: { findFirst } } as any,
+    { createQuestion } as unknown as QuestionBankService,
+    { saveImage }
+  );
+  return { service, findFirst, createQuestion, saveImage };
+}
+
+describe('QuestionImportService', () => {
+  it('should map questions to topics and report the ones it cannot import by line', async () => {
+    const { service, findFirst, createQuestion } = createService();
+
+    const report = await service.importQuestions(CSV, {
+      format: 'csv',
+      dryRun: false,
+      defaults: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics' },
+    });
+
+    expect(report.parsed).toBe(4);
+    expect(report.imported).toBe(1);
+    expect(report.questions).toEqual([
+      { line: 2, topicId: 'fractions', questionText: 'What is 1/2 + 1/4?', questionId: 'new-q' },
+    ]);
+    expect(report.issues.map(issue => issue.line)).toEqual([3, 4, 5]);
+    expect(report.issues[0].message).toContain('No syllabus topic "Decimals"');
+    expect(report.issues[2].message).toBe('No topic given for this question');
+    expect(createQuestion).toHaveBeenCalledWith(expect.objectContaining({
+      topicId: 'fractions',
+      syllabusReference: 'Fractions',
+      difficulty: 'ExamRealistic',
+    }));
+    // The Fractions lookup is shared by both of its rows
+    expect(findFirst).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fill in a missing topic from the defaults', async () => {
+    const { service } = createService();
+
+    const report = await service.importQuestions(CSV, {
+      format: 'csv',
+      dryRun: true,
+      defaults: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+    });
+
+    expect(report.questions.map(question => question.line)).toEqual([2, 5]);
+  });
+
+  it('should save nothing on a dry run', async () => {
+    const { service, createQuestion } = createService();
+
+    const report = await service.importQuestions(CSV, { format: 'csv', dryRun: true, defaults: {} });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.imported).toBe(1);
+    expect(report.questions[0].questionId).toBeUndefined();
+    expect(createQuestion).not.toHaveBeenCalled();
+  });
+
+  it('should save the images of imported questions and attach them by id', async () => {
+    const { service, createQuestion, saveImage } = createService();
+
+    const report = await service.importQuestions(`<quiz>\n  ${moodleQuestion(PNG_BASE64)}\n</quiz>`, {
+      format: 'moodle',
+      dryRun: false,
+      defaults: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+    });
+
+    expect(report.issues).toEqual([]);
+    expect(saveImage).toHaveBeenCalledTimes(2);
+    expect(createQuestion).toHaveBeenCalledWith(expect.objectContaining({
+      options: ['1/2', '1/3'],
+      imageId: 'image-1',
+      optionImageIds: ['image-2', null],
+    }));
+  });
+
+  it('should report an image that is not a PNG or JPEG without saving anything', async () => {
+    const { service, createQuestion, saveImage } = createService();
+    const gif = Buffer.from('GIF89a').toString('base64');
+
+    const report = await service.importQuestions(`<quiz>\n  ${moodleQuestion(gif)}\n</quiz>`, {
+      format: 'moodle',
+      dryRun: false,
+      defaults: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+    });
+
+    expect(report.imported).toBe(0);
+    expect(report.issues[0].message).toBe('Image "shaded.png" is not a PNG or JPEG');
+    expect(saveImage).not.toHaveBeenCalled();
+    expect(createQuestion).not.toHaveBeenCalled();
+  });
+});
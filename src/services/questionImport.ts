@@ -0,0 +1,189 @@
+// Question Import Service
+// Imports questions from other tools' files into the bank. Each question is matched to a
+// syllabus topic by curriculum, grade, subject and topic name and validated like an authored
+// question; anything that cannot be imported is reported by its line in the file.
+// Images bundled with a question are stored when the question is saved
+
+import { PrismaClient } from '@prisma/client';
+import {
+  TopicId,
+  ImageId,
+  ImportCategory,
+  ImportOptions,
+  ImportReport,
+  ImportIssue,
+  ImportedImage,
+  ImportedQuestion,
+  QuestionInput,
+} from '../types';
+import { QuestionBankService, validateQuestionInput } from './questionBank';
+import { QuestionImageService, checkImage, MAX_IMAGE_BYTES } from './questionImages';
+import { parseImportFile } from './questionImportParsers';
+
+export class QuestionImportService {
+  private prisma: PrismaClient;
+  private questionBank: QuestionBankService;
+  private questionImages: Pick<QuestionImageService, 'saveImage'>;
+
+  constructor(
+    prisma: PrismaClient,
+    questionBank: QuestionBankService,
+    questionImages: Pick<QuestionImageService, 'saveImage'>
+  ) {
+    this.prisma = prisma;
+    this.questionBank = questionBank;
+    this.questionImages = questionImages;
+  }
+
+  /**
+   * Import the questions in a file; a dry run checks everything but saves nothing
+   * A QTI content package is passed as the bytes of its ZIP archive
+   */
+  async importQuestions(content: string | Buffer, options: ImportOptions): Promise<ImportReport> {
+    const parsed = parseImportFile(options.format, content);
+    const issues: ImportIssue[] = [...parsed.issues];
+    const questions: ImportReport['questions'] = [];
+    const topics = new Map<string, { id: TopicId; topicName: string } | null>();
+
+    for (const item of parsed.questions) {
+      const category = { ...options.defaults, ...definedFields(item.category) };
+      const { curriculum, grade, subject, topicName } = category;
+      if (!curriculum || !grade || !subject || !topicName) {
+        issues.push({ line: item.line, message: `No ${missingField(category)} given for this question` });
+        continue;
+      }
+
+      const key = [curriculum, grade, subject, topicName].join('|').toLowerCase();
+      if (!topics.has(key)) {
+        topics.set(key, await this.prisma.syllabusTopic.findFirst({
+          where: {
+            curriculum: { equals: curriculum, mode: 'insensitive' },
+            grade,
+            subject: { equals: subject, mode: 'insensitive' },
+            topicName: { equals: topicName, mode: 'insensitive' },
+          },
+          select: { id: true, topicName: true },
+        }));
+      }
+      const topic = topics.get(key);
+      if (!topic) {
+        issues.push({
+          line: item.line,
+          message: `No syllabus topic "${topicName}" for ${curriculum} Class ${grade} ${subject}`,
+        });
+        continue;
+      }
+
+      const input: QuestionInput = {
+        topicId: topic.id,
+        questionText: item.questionText,
+        questionType: item.questionType,
+        options: item.options,
+        matchItems: item.matchItems,
+        correctAnswers: item.correctAnswers,
+        allowMultipleAnswers: item.allowMultipleAnswers,
+        solutionSteps: item.solutionSteps,
+        syllabusReference: item.syllabusReference ?? topic.topicName,
+        difficulty: item.difficulty ?? 'ExamRealistic',
+      };
+
+      const invalid = checkImportedInput(input) ?? checkImportedImages(item);
+      if (invalid) {
+        issues.push({ line: item.line, message: invalid });
+        continue;
+      }
+
+      if (options.dryRun) {
+        questions.push({ line: item.line, topicId: topic.id, questionText: input.questionText });
+        continue;
+      }
+
+      const created = await this.questionBank.createQuestion({ ...input, ...(await this.saveImages(item)) });
+      if (!created.ok) {
+        issues.push({
+          line: item.line,
+          message: created.error.type === 'InvalidQuestion' ? created.error.message : 'Could not save this question',
+        });
+        continue;
+      }
+      questions.push({
+        line: item.line,
+        topicId: topic.id,
+        questionText: input.questionText,
+        questionId: created.value.questionId,
+      });
+    }
+
+    return {
+      format: options.format,
+      dryRun: options.dryRun,
+      parsed: parsed.questions.length + parsed.issues.length,
+      imported: questions.length,
+      questions,
+      issues: issues.sort((a, b) => a.line - b.line),
+    };
+  }
+
+  /**
+   * Store a question's images (already checked) and return their ids
+   */
+  private async saveImages(item: ImportedQuestion): Promise<Pick<QuestionInput, 'imageId' | 'optionImageIds'>> {
+    const save = async (image: ImportedImage): Promise<ImageId> => {
+      const saved = await this.questionImages.saveImage(image.data);
+      if (!saved.ok) {
+        throw new Error(`Image "${image.name}" could not be saved`);
+      }
+      return saved.value.imageId;
+    };
+
+    const imageIds: Pick<QuestionInput, 'imageId' | 'optionImageIds'> = {};
+    if (item.image) {
+      imageIds.imageId = await save(item.image);
+    }
+    if (item.optionImages) {
+      imageIds.optionImageIds = [];
+      for (const image of item.optionImages) {
+        imageIds.optionImageIds.push(image ? await save(image) : null);
+      }
+    }
+    return imageIds;
+  }
+}
+
+function checkImportedImages(item: ImportedQuestion): string | null {
+  for (const image of [item.image, ...(item.optionImages ?? [])]) {
+    if (!image) continue;
+    const checked = checkImage(image.data);
+    if (!checked.ok) {
+      return checked.error.type === 'UnsupportedImage'
+        ? `Image "${image.name}" is not a PNG or JPEG`
+        : `Image "${image.name}" is larger than ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`;
+    }
+  }
+  return null;
+}
+
+function checkImportedInput(input: QuestionInput): string | null {
+  if (!input.questionText.trim()) {
+    return 'The question has no text';
+  }
+  if (input.correctAnswers.length === 0) {
+    return 'The question has no correct answer';
+  }
+
+  const validation = validateQuestionInput(input);
+  return validation.ok ? null : validation.error;
+}
+
+function definedFields(category: ImportCategory): ImportCategory {
+  return Object.fromEntries(
+    Object.entries(category).filter(([, value]) => value !== undefined && value !== '')
+  );
+}
+
+function missingField(category: ImportCategory): string {
+  if (!category.curriculum) return 'curriculum';
+  if (!category.grade) return 'grade';
+  if (!category.subject) return 'subject';
+  return 'topic';
+}
@@ -0,0 +1,341 @@
+// Question Import Parser tests
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseCsvQuestions,
+  parseMoodleXml,
+  parseGift,
+  parseQti,
+  parseQtiPackage,
+  parseImportFile,
+  detectImportFormat,
+  categoryFromPath,
+} from './questionImportParsers';
+import { createZip } from '../lib/zip';
+
+// 1x1 transparent PNG
+const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+const PNG = Buffer.from(PNG_BASE64, 'base64');
+
+describe('parseCsvQuestions', () => {
+  it('should read questions with quoted cells and |-separated lists', () => {
+    const csv = [
+      'Curriculum,Grade,Subject,Topic,Question,Type,Options,Answer,Solution,Difficulty',
+      'CBSE,8,Mathematics,Fractions,"What is 1/2 + 1/4, simplified?",MultipleChoice,1/4|2/4|3/4,3/4,Write 1/2 as 2/4|Add,Foundation',
+      'CBSE,8,Mathematics,Fractions,"Write ""three quarters""',
+      'as a decimal",Numerical,,0.75,,',
+    ].join('\n');
+
+    const { questions, issues } = parseCsvQuestions(csv);
+
+    expect(issues).toEqual([]);
+    expect(questions).toHaveLength(2);
+    expect(questions[0]).toMatchObject({
+      line: 2,
+      category: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+      questionText: 'What is 1/2 + 1/4, simplified?',
+      options: ['1/4', '2/4', '3/4'],
+      correctAnswers: ['3/4'],
+      solutionSteps: ['Write 1/2 as 2/4', 'Add'],
+      difficulty: 'Foundation',
+    });
+    expect(questions[1]).toMatchObject({
+      line: 3,
+      questionText: 'Write "three quarters"\nas a decimal',
+      questionType: 'Numerical',
+      correctAnswers: ['0.75'],
+    });
+  });
+
+  it('should report rows with an unknown type by line', () => {
+    const { questions, issues } = parseCsvQuestions('question,type,answer\nName a prime,Essay,7\n');
+
+    expect(questions).toEqual([]);
+    expect(issues).toEqual([{ line: 2, message: 'Unknown question type "Essay"' }]);
+  });
+});
+
+describe('parseMoodleXml', () => {
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<quiz>
+  <question type="category">
+    <category><text>$course$/top/CBSE/Class 8/Mathematics/Fractions</text></category>
+  </question>
+  <question type="multichoice">
+    <name><text>Adding fractions</text></name>
+    <questiontext format="html"><text><![CDATA[<p>What is 1/2 &amp; 1/4 added?</p>]]></text></questiontext>
+    <generalfeedback format="html"><text><![CDATA[<p>Write 1/2 as 2/4</p><p>Add</p>]]></text></generalfeedback>
+    <single>true</single>
+    <answer fraction="100"><text>3/4</text></answer>
+    <answer fraction="0"><text>2/6</text></answer>
+  </question>
+  <question type="truefalse">
+    <questiontext><text>1/2 is greater than 1/3</text></questiontext>
+    <answer fraction="100"><text>true</text></answer>
+    <answer fraction="0"><text>false</text></answer>
+  </question>
+  <question type="essay">
+    <questiontext><text>Explain equivalent fractions</text></questiontext>
+  </question>
+</quiz>`;
+
+  it('should read questions under the category that precedes them', () => {
+    const { questions } = parseMoodleXml(xml);
+
+    expect(questions).toHaveLength(2);
+    expect(questions[0]).toMatchObject({
+      line: 6,
+      category: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+      questionText: 'What is 1/2 & 1/4 added?',
+      questionType: 'MultipleChoice',
+      options: ['3/4', '2/6'],
+      correctAnswers: ['3/4'],
+      solutionSteps: ['Write 1/2 as 2/4', 'Add'],
+    });
+    expect(questions[1]).toMatchObject({ options: ['True', 'False'], correctAnswers: ['True'] });
+  });
+
+  it('should report unsupported question types and malformed XML', () => {
+    expect(parseMoodleXml(xml).issues).toEqual([{ line: 19, message: 'Unsupported Moodle question type "essay"' }]);
+    expect(parseMoodleXml('<quiz>\n<question type="multichoice">\n</quiz>').issues[0].line).toBe(3);
+  });
+});
+
+describe('parseGift', () => {
+  it('should read multiple choice, true/false, short answer and numerical questions', () => {
+    const gift = [
+      '// Fractions practice',
+      '$CATEGORY: CBSE/8/Mathematics/Fractions',
+      '',
+      '::Q1:: What is 1/2 + 1/4? {=3/4 ~2/6#Add the numerators only if the denominators match ~1/8}',
+      '',
+      'Half of 1 is greater than a third of 1 {T}',
+      '',
+      'Which are equivalent to 1/2? {',
+      '  ~%50%2/4',
+      '  ~%50%3/6',
+      '  ~%-100%2/3',
+      '}',
+      '',
+      'Three quarters as a decimal is {#0.75:0.01}',
+      '',
+      'The top of a fraction is called the {=numerator}.',
+    ].join('\n');
+
+    const { questions, issues } = parseGift(gift);
+
+    expect(issues).toEqual([]);
+    expect(questions.map(q => q.line)).toEqual([4, 6, 8, 14, 16]);
+    expect(questions[0]).toMatchObject({
+      category: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+      questionText: 'What is 1/2 + 1/4?',
+      options: ['3/4', '2/6', '1/8'],
+      correctAnswers: ['3/4'],
+      allowMultipleAnswers: false,
+    });
+    expect(questions[1]).toMatchObject({ options: ['True', 'False'], correctAnswers: ['True'] });
+    expect(questions[2]).toMatchObject({ correctAnswers: ['2/4', '3/6'], allowMultipleAnswers: true });
+    expect(questions[3]).toMatchObject({
+      questionType: 'Numerical',
+      correctAnswers: ['0.75'],
+      answerTolerance: { type: 'Absolute', amount: 0.01 },
+    });
+    expect(questions[4]).toMatchObject({
+      questionType: 'ShortAnswer',
+      questionText: 'The top of a fraction is called the _____ .',
+      correctAnswers: ['numerator'],
+    });
+  });
+
+  it('should keep escaped special characters in answers', () => {
+    const { questions } = parseGift('Which ratio is 1\\:2? {=1\\:2 ~2\\:1}');
+
+    expect(questions[0]).toMatchObject({ questionText: 'Which ratio is 1:2?', options: ['1:2', '2:1'] });
+  });
+
+  it('should report essay questions by line', () => {
+    const { issues } = parseGift('Match {=1/2 -> half}\n\nExplain fractions {}');
+
+    expect(issues.map(issue => issue.line)).toEqual([3]);
+  });
+
+  it('should read matching pairs, with a pair that has no item as a wrong choice', () => {
+    const { questions, issues } = parseGift('Match each fraction to its name {=1/2 -> half =1/4 -> quarter = -> third}');
+
+    expect(issues).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      questionText: 'Match each fraction to its name',
+      questionType: 'Matching',
+      matchItems: ['1/2', '1/4'],
+      options: ['half', 'quarter', 'third'],
+      correctAnswers: ['half', 'quarter'],
+    });
+  });
+});
+
+describe('parseQti', () => {
+  it('should read a choice interaction with its prompt and correct response', () => {
+    const qti = `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1" title="Fractions" adaptive="false" timeDependent="false">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>C</value></correctResponse>
+  </responseDeclaration>
+  <itemBody>
+    <p>What is 1/2 + 1/4?</p>
+    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="1">
+      <prompt>Choose one answer</prompt>
+      <simpleChoice identifier="A">1/4</simpleChoice>
+      <simpleChoice identifier="B">2/6</simpleChoice>
+      <simpleChoice identifier="C">3/4</simpleChoice>
+    </choiceInteraction>
+  </itemBody>
+</assessmentItem>`;
+
+    const { questions, issues } = parseQti(qti);
+
+    expect(issues).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      line: 2,
+      questionText: 'What is 1/2 + 1/4?\nChoose one answer',
+      questionType: 'MultipleChoice',
+      options: ['1/4', '2/6', '3/4'],
+      correctAnswers: ['3/4'],
+      allowMultipleAnswers: false,
+    });
+  });
+
+  it('should read an inline numeric text entry as a numerical question', () => {
+    const qti = `<assessmentItem identifier="q2">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">
+    <correctResponse><value>0.75</value></correctResponse>
+  </responseDeclaration>
+  <itemBody><p>3/4 as a decimal is <textEntryInteraction responseIdentifier="RESPONSE"/></p></itemBody>
+</assessmentItem>`;
+
+    const { questions } = parseQti(qti);
+
+    expect(questions[0]).toMatchObject({
+      questionText: '3/4 as a decimal is _____',
+      questionType: 'Numerical',
+      correctAnswers: ['0.75'],
+    });
+  });
+
+  it('should report unsupported interactions', () => {
+    const qti = `<assessmentItem identifier="q3">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="point"/>
+  <itemBody><selectPointInteraction responseIdentifier="RESPONSE"/></itemBody>
+</assessmentItem>`;
+
+    expect(parseQti(qti).issues).toEqual([{ line: 1, message: 'Unsupported QTI interaction "selectPointInteraction"' }]);
+  });
+});
+
+describe('question images', () => {
+  it('should read the images Moodle embeds in question text and answers', () => {
+    const xml = `<quiz>
+  <question type="multichoice">
+    <questiontext format="html">
+      <text><![CDATA[<p>Which graph shows y = 2x?</p><p><img src="@@PLUGINFILE@@/axes%20grid.png" alt="Axes"></p>]]></text>
+      <file name="axes grid.png" path="/" encoding="base64">${PNG_BASE64}</file>
+    </questiontext>
+    <single>true</single>
+    <answer fraction="100" format="html">
+      <text><![CDATA[<img src="@@PLUGINFILE@@/line.png" alt="Straight line">]]></text>
+      <file name="line.png" path="/" encoding="base64">${PNG_BASE64}</file>
+    </answer>
+    <answer fraction="0" format="html"><text>A parabola</text></answer>
+  </question>
+</quiz>`;
+
+    const { questions, issues } = parseMoodleXml(xml);
+
+    expect(issues).toEqual([]);
+    expect(questions[0]).toMatchObject({
+      questionText: 'Which graph shows y = 2x?',
+      image: { name: 'axes grid.png', data: PNG },
+      options: ['Straight line', 'A parabola'],
+      optionImages: [{ name: 'line.png', data: PNG }, null],
+      correctAnswers: ['Straight line'],
+    });
+  });
+
+  it('should read a QTI content package with the images its items refer to', () => {
+    const item = `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="q1">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+    <correctResponse><value>B</value></correctResponse>
+  </responseDeclaration>
+  <itemBody>
+    <p>Which angle is marked?</p>
+    <p><img src="../images/triangle.png" alt="Triangle ABC"/></p>
+    <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+      <simpleChoice identifier="A">Angle A</simpleChoice>
+      <simpleChoice identifier="B"><img src="../images/angle-b.png" alt="Angle B"/></simpleChoice>
+    </choiceInteraction>
+  </itemBody>
+</assessmentItem>`;
+    const archive = createZip([
+      { name: 'imsmanifest.xml', content: '<manifest><resources/></manifest>' },
+      { name: 'assessmentTest.xml', content: '<assessmentTest><assessmentItemRef href="items/item-1.xml"/></assessmentTest>' },
+      { name: 'items/item-1.xml', content: item },
+      { name: 'images/triangle.png', content: PNG },
+      { name: 'images/angle-b.png', content: PNG },
+    ]);
+
+    const { questions, issues } = parseImportFile('qti', archive);
+
+    expect(issues).toEqual([]);
+    expect(questions).toHaveLength(1);
+    expect(questions[0]).toMatchObject({
+      questionText: 'Which angle is marked?',
+      image: { name: 'triangle.png', data: PNG },
+      options: ['Angle A', 'Angle B'],
+      optionImages: [null, { name: 'angle-b.png', data: PNG }],
+      correctAnswers: ['Angle B'],
+    });
+  });
+
+  it('should report an item whose image is not in the file', () => {
+    const item = `<assessmentItem identifier="q1">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">
+    <correctResponse><value>60</value></correctResponse>
+  </responseDeclaration>
+  <itemBody><p>Find x</p><img src="figure.png"/><textEntryInteraction responseIdentifier="RESPONSE"/></itemBody>
+</assessmentItem>`;
+
+    expect(parseQti(item).issues).toEqual([{
+      line: 1,
+      message: 'Image "figure.png" is not in the file; import the QTI content package (.zip) to include it',
+    }]);
+    expect(parseQtiPackage(createZip([{ name: 'items/q1.xml', content: item }])).issues).toEqual([{
+      line: 1,
+      message: 'items/q1.xml: Image "figure.png" is not in the file; import the QTI content package (.zip) to include it',
+    }]);
+  });
+
+  it('should accept an image written into a single item as a data URI', () => {
+    const item = `<assessmentItem identifier="q1">
+  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float">
+    <correctResponse><value>60</value></correctResponse>
+  </responseDeclaration>
+  <itemBody><p>Find x</p><img src="data:image/png;base64,${PNG_BASE64}"/><textEntryInteraction responseIdentifier="RESPONSE"/></itemBody>
+</assessmentItem>`;
+
+    expect(parseQti(item).questions[0].image).toEqual({ name: 'image.png', data: PNG });
+  });
+});
+
+describe('detectImportFormat', () => {
+  it('should tell Moodle XML and QTI apart by their content', () => {
+    expect(detectImportFormat('bank.xml', '<quiz><question/></quiz>')).toBe('moodle');
+    expect(detectImportFormat('item.xml', '<assessmentItem identifier="q1"/>')).toBe('qti');
+    expect(detectImportFormat('bank.CSV', '')).toBe('csv');
+    expect(detectImportFormat('notes.pdf', '')).toBeNull();
+  });
+});
+
+describe('categoryFromPath', () => {
+  it('should treat a short path as a topic name only', () => {
+    expect(categoryFromPath('$course$/Fractions')).toEqual({ topicName: 'Fractions' });
+  });
+});
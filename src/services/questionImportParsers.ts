@@ -0,0 +1,956 @@
+// Question Import Parsers
+// Read CSV, Moodle XML, GIFT and IMS QTI 2.1 files (or QTI content packages) into
+// ImportedQuestion items, with the images Moodle and QTI files bundle.
+// Each parser reports the items it cannot read by line instead of stopping at the first problem
+
+import { posix } from 'path';
+import {
+  ImportFormat,
+  ImportCategory,
+  ImportedQuestion,
+  ImportedImage,
+  ImportIssue,
+  QuestionType,
+  DifficultyLevel,
+} from '../types';
+import { DIFFICULTY_LEVELS } from '../lib/constants';
+import { BLANK_ALTERNATIVE_SEPARATOR, countBlanks } from '../lib/questionFormats';
+import { readZip } from '../lib/zip';
+import {
+  XmlElement,
+  XmlNode,
+  parseXml,
+  childElements,
+  firstChild,
+  descendants,
+  textContent,
+  decodeEntities,
+} from '../lib/xml';
+
+export type ParsedImport = {
+  questions: ImportedQuestion[];
+  issues: ImportIssue[];
+};
+
+const TRUE_FALSE_OPTIONS = ['True', 'False'];
+
+const INLINE_BLANK = '_____';
+
+/**
+ * Guess the format of an import file from its name and content
+ */
+export function detectImportFormat(fileName: string, content: string): ImportFormat | null {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'gift') return 'gift';
+  if (extension === 'xml') {
+    if (/<quiz[\s>]/.test(content)) return 'moodle';
+    if (/assessmentItem[\s>]/.test(content)) return 'qti';
+  }
+  if (extension === 'txt' && /\{[\s\S]*\}/.test(content)) return 'gift';
+  return null;
+}
+
+/**
+ * Read an import file; a QTI content package arrives as the bytes of its ZIP archive
+ */
+export function parseImportFile(format: ImportFormat, content: string | Buffer): ParsedImport {
+  if (format === 'qti' && Buffer.isBuffer(content) && content.subarray(0, 2).toString('latin1') === 'PK') {
+    return parseQtiPackage(content);
+  }
+
+  const text = typeof content === 'string' ? content : content.toString('utf-8');
+  switch (format) {
+    case 'csv':
+      return parseCsvQuestions(text);
+    case 'moodle':
+      return parseMoodleXml(text);
+    case 'gift':
+      return parseGift(text);
+    case 'qti':
+      return parseQti(text);
+  }
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+// Header names accepted for each field; lists inside a cell are separated by '|'
+const CSV_COLUMNS: Record<string, string[]> = {
+  curriculum: ['curriculum'],
+  grade: ['grade', 'class'],
+  subject: ['subject'],
+  topic: ['topic', 'topicname'],
+  questionText: ['question', 'questiontext'],
+  questionType: ['type', 'questiontype'],
+  options: ['options'],
+  correctAnswers: ['answer', 'answers', 'correctanswer', 'correctanswers'],
+  solutionSteps: ['solution', 'solutionsteps'],
+  syllabusReference: ['syllabusreference', 'reference'],
+  difficulty: ['difficulty'],
+};
+
+const QUESTION_TYPES: Record<string, QuestionType> = {
+  multiplechoice: 'MultipleChoice',
+  mcq: 'MultipleChoice',
+  shortanswer: 'ShortAnswer',
+  numerical: 'Numerical',
+  numeric: 'Numerical',
+};
+
+/**
+ * Questions from a CSV file with a header row
+ */
+export function parseCsvQuestions(content: string): ParsedImport {
+  const rows = parseCsvRows(content);
+  const issues: ImportIssue[] = [];
+  const questions: ImportedQuestion[] = [];
+  if (rows.length === 0) {
+    return { questions, issues: [{ line: 1, message: 'The file is empty' }] };
+  }
+
+  const header = rows[0].cells.map(cell => cell.trim().toLowerCase().replace(/[\s_-]/g, ''));
+  const column: Record<string, number> = {};
+  for (const [field, names] of Object.entries(CSV_COLUMNS)) {
+    column[field] = header.findIndex(name => names.includes(name));
+  }
+  for (const required of ['questionText', 'correctAnswers']) {
+    if (column[required] === -1) {
+      return { questions, issues: [{ line: rows[0].line, message: `Missing a "${CSV_COLUMNS[required][0]}" column` }] };
+    }
+  }
+
+  for (const row of rows.slice(1)) {
+    const cell = (field: string): string => (column[field] >= 0 ? row.cells[column[field]] ?? '' : '').trim();
+    const list = (field: string): string[] => cell(field).split('|').map(item => item.trim()).filter(Boolean);
+
+    if (row.cells.every(value => !value.trim())) continue;
+
+    const options = list('options');
+    const typeName = cell('questionType').toLowerCase().replace(/[\s_-]/g, '');
+    const questionType = typeName ? QUESTION_TYPES[typeName] : options.length > 0 ? 'MultipleChoice' : 'ShortAnswer';
+    if (!questionType) {
+      issues.push({ line: row.line, message: `Unknown question type "${cell('questionType')}"` });
+      continue;
+    }
+
+    const difficulty = cell('difficulty');
+    if (difficulty && !DIFFICULTY_LEVELS.includes(difficulty as DifficultyLevel)) {
+      issues.push({ line: row.line, message: `Unknown difficulty "${difficulty}"` });
+      continue;
+    }
+
+    const correctAnswers = list('correctAnswers');
+    const grade = cell('grade');
+    questions.push({
+      line: row.line,
+      category: {
+        curriculum: cell('curriculum') || undefined,
+        grade: grade ? parseGrade(grade) : undefined,
+        subject: cell('subject') || undefined,
+        topicName: cell('topic') || undefined,
+      },
+      questionText: cell('questionText'),
+      questionType,
+      options: questionType === 'MultipleChoice' ? options : undefined,
+      correctAnswers,
+      allowMultipleAnswers: correctAnswers.length > 1,
+      solutionSteps: list('solutionSteps'),
+      syllabusReference: cell('syllabusReference') || undefined,
+      difficulty: (difficulty || undefined) as DifficultyLevel | undefined,
+    });
+  }
+
+  return { questions, issues };
+}
+
+/**
+ * RFC 4180 rows, each with the line it starts on; quoted cells may span lines
+ */
+function parseCsvRows(content: string): Array<{ line: number; cells: string[] }> {
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') rows.push({ line: rowLine, cells });
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || cells.length > 0) endRow();
+
+  return rows;
+}
+
+// ============================================================================
+// Moodle XML
+// ============================================================================
+
+/**
+ * Questions from a Moodle XML export
+ * Category entries ("$course$/CBSE/8/Mathematics/Fractions") set the topic of the questions after them
+ */
+export function parseMoodleXml(content: string): ParsedImport {
+  const document = parseXml(content);
+  if (!document.ok) {
+    return { questions: [], issues: [{ line: lineOf(document.error), message: document.error }] };
+  }
+  if (document.value.name !== 'quiz') {
+    return { questions: [], issues: [{ line: document.value.line, message: 'Expected a <quiz> root element' }] };
+  }
+
+  const questions: ImportedQuestion[] = [];
+  const issues: ImportIssue[] = [];
+  let category: ImportCategory = {};
+
+  for (const element of childElements(document.value, 'question')) {
+    const type = element.attributes.type;
+    if (type === 'category') {
+      category = categoryFromPath(elementText(firstChild(element, 'category')));
+      continue;
+    }
+
+    const questionHtml = elementText(firstChild(element, 'questiontext'));
+    const questionImage = moodleImage(questionHtml, firstChild(element, 'questiontext'));
+    const answers = childElements(element, 'answer').map(answer => {
+      const html = elementText(answer);
+      const image = moodleImage(html, answer);
+      return {
+        // An answer that is only a picture is named by its alt text or file name
+        text: htmlToText(html) || image?.label || '',
+        fraction: parseFloat(answer.attributes.fraction ?? '0'),
+        image: image?.image ?? null,
+        tolerance: parseFloat(elementText(firstChild(answer, 'tolerance'))),
+      };
+    });
+    const fullyCorrect = answers.filter(answer => answer.fraction >= 100).map(answer => answer.text);
+    const tolerance = answers.find(answer => answer.fraction >= 100)?.tolerance ?? NaN;
+    const base = {
+      line: element.line,
+      category,
+      questionText: htmlToText(questionHtml),
+      solutionSteps: textLines(htmlToText(elementText(firstChild(element, 'generalfeedback')))),
+      ...(questionImage && { image: questionImage.image }),
+    };
+
+    switch (type) {
+      case 'multichoice': {
+        const single = elementText(firstChild(element, 'single')).trim() !== 'false';
+        const correctAnswers = single ? fullyCorrect : answers.filter(a => a.fraction > 0).map(a => a.text);
+        questions.push({
+          ...base,
+          questionType: 'MultipleChoice',
+          options: answers.map(answer => answer.text),
+          ...(answers.some(answer => answer.image) && { optionImages: answers.map(answer => answer.image) }),
+          correctAnswers,
+          allowMultipleAnswers: !single,
+        });
+        break;
+      }
+      case 'truefalse':
+        questions.push({
+          ...base,
+          questionType: 'MultipleChoice',
+          options: TRUE_FALSE_OPTIONS,
+          correctAnswers: fullyCorrect.map(answer => (answer.toLowerCase() === 'true' ? 'True' : 'False')),
+          allowMultipleAnswers: false,
+        });
+        break;
+      case 'matching': {
+        // A subquestion with no text only adds a wrong choice
+        const pairs = childElements(element, 'subquestion').map(subquestion => ({
+          item: htmlToText(elementText(subquestion)),
+          match: elementText(firstChild(subquestion, 'answer')).trim(),
+        }));
+        const matched = pairs.filter(pair => pair.item);
+        questions.push({
+          ...base,
+          questionType: 'Matching',
+          matchItems: matched.map(pair => pair.item),
+          options: [...new Set(pairs.map(pair => pair.match))],
+          correctAnswers: matched.map(pair => pair.match),
+          allowMultipleAnswers: false,
+        });
+        break;
+      }
+      case 'ordering':
+        // Items are listed as shown; each fraction is the item's place in the right order
+        questions.push({
+          ...base,
+          questionType: 'Ordering',
+          options: answers.map(answer => answer.text),
+          correctAnswers: [...answers].sort((a, b) => a.fraction - b.fraction).map(answer => answer.text),
+          allowMultipleAnswers: false,
+        });
+        break;
+      case 'cloze': {
+        const blanks = parseClozeBlanks(base.questionText);
+        if (typeof blanks === 'string') {
+          issues.push({ line: element.line, message: blanks });
+          break;
+        }
+        questions.push({
+          ...base,
+          questionText: blanks.questionText,
+          questionType: 'FillInBlank',
+          correctAnswers: blanks.correctAnswers,
+          allowMultipleAnswers: false,
+        });
+        break;
+      }
+      case 'shortanswer':
+      case 'numerical':
+        // Only the first fully correct answer is kept; other accepted variants have no equivalent here
+        questions.push({
+          ...base,
+          questionType: type === 'numerical' ? 'Numerical' : 'ShortAnswer',
+          correctAnswers: fullyCorrect.slice(0, 1),
+          ...(type === 'numerical' && tolerance > 0 && { answerTolerance: { type: 'Absolute', amount: tolerance } }),
+          allowMultipleAnswers: false,
+        });
+        break;
+      default:
+        issues.push({ line: element.line, message: `Unsupported Moodle question type "${type}"` });
+    }
+  }
+
+  return { questions, issues };
+}
+
+/**
+ * The embedded answers of a Moodle Cloze question as blanks: each {1:SHORTANSWER:=a~=b}
+ * becomes a ___ blank whose fully correct answers are its alternatives
+ */
+function parseClozeBlanks(text: string): { questionText: string; correctAnswers: string[] } | string {
+  const correctAnswers: string[] = [];
+  const unsupported: string[] = [];
+
+  const questionText = text.replace(/\{(\d*):(\w+):((?:\\.|[^\\}])*)\}/g, (_, _weight: string, type: string, answers: string) => {
+    if (!['SHORTANSWER', 'SA', 'MW', 'SHORTANSWER_C', 'SAC', 'MWC'].includes(type.toUpperCase())) {
+      unsupported.push(type);
+      return INLINE_BLANK;
+    }
+    const accepted = splitUnescaped(answers, '~')
+      .map(answer => splitUnescaped(answer, '#')[0].trim())
+      .filter(answer => answer.startsWith('=') || answer.startsWith('%100%'))
+      .map(answer => answer.replace(/^(=|%100%)/, '').replace(/\\(.)/g, '$1').trim());
+    correctAnswers.push(accepted.join(BLANK_ALTERNATIVE_SEPARATOR));
+    return INLINE_BLANK;
+  });
+
+  if (unsupported.length > 0) {
+    return `Cloze blanks of type ${unsupported[0]} are not supported`;
+  }
+  if (correctAnswers.length === 0) {
+    return 'The Cloze question has no embedded answers';
+  }
+  return { questionText, correctAnswers };
+}
+
+function splitUnescaped(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === separator) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+// ============================================================================
+// GIFT
+// ============================================================================
+
+/**
+ * Questions in Moodle's GIFT text format, one per blank-line separated block
+ * Supports multiple choice (with ~%n% weights for multiple answers), true/false,
+ * short answer, numerical ({#...}) and matching ({=item -> match ...}) questions
+ */
+export function parseGift(content: string): ParsedImport {
+  const questions: ImportedQuestion[] = [];
+  const issues: ImportIssue[] = [];
+  let category: ImportCategory = {};
+
+  const lines = content.split(/\r?\n/);
+  let block: string[] = [];
+  let blockLine = 1;
+
+  const flush = () => {
+    const text = block.join('\n').trim();
+    block = [];
+    if (!text) return;
+
+    const categoryMatch = text.match(/^\$CATEGORY:\s*(.+)$/);
+    if (categoryMatch) {
+      category = categoryFromPath(categoryMatch[1]);
+      return;
+    }
+
+    const parsed = parseGiftQuestion(text);
+    if (typeof parsed === 'string') {
+      issues.push({ line: blockLine, message: parsed });
+    } else {
+      questions.push({ ...parsed, line: blockLine, category, solutionSteps: [] });
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (line.trim().startsWith('//')) return;
+    if (!line.trim()) {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  return { questions, issues };
+}
+
+function parseGiftQuestion(
+  text: string
+): Pick<
+  ImportedQuestion,
+  'questionText' | 'questionType' | 'options' | 'matchItems' | 'correctAnswers' | 'allowMultipleAnswers'
+> | string {
+  let rest = text;
+  const title = rest.match(/^::((?:\\.|[^\\])*?)::/);
+  if (title) rest = rest.slice(title[0].length);
+  rest = rest.replace(/^\s*\[(html|moodle|plain|markdown)\]/, '');
+
+  const open = findUnescaped(rest, '{');
+  const close = open === -1 ? -1 : findUnescaped(rest, '}', open);
+  if (open === -1 || close === -1) {
+    return 'No answer block ({...}) found';
+  }
+
+  const after = rest.slice(close + 1).trim();
+  const questionText = giftText(
+    after ? `${rest.slice(0, open).trim()} _____ ${after}` : rest.slice(0, open)
+  );
+  const answerBlock = rest.slice(open + 1, close).trim();
+
+  if (!answerBlock) {
+    return 'Essay questions have no answer key and cannot be imported';
+  }
+
+  const trueFalse = answerBlock.split(/(?<!\\)#/)[0].trim().toUpperCase();
+  if (['T', 'TRUE', 'F', 'FALSE'].includes(trueFalse)) {
+    return {
+      questionText,
+      questionType: 'MultipleChoice',
+      options: TRUE_FALSE_OPTIONS,
+      correctAnswers: [trueFalse.startsWith('T') ? 'True' : 'False'],
+      allowMultipleAnswers: false,
+    };
+  }
+
+  if (answerBlock.startsWith('#')) {
+    // Numerical: "#value", "#value:tolerance" or "#min..max"; a range is kept as its minimum
+    const first = splitGiftAnswers(answerBlock.slice(1))[0] ?? { text: answerBlock.slice(1) };
+    const [answer, toleranceText] = first.text.split(':');
+    const value = answer.split('..')[0].trim();
+    if (!value || isNaN(Number(value))) {
+      return `"${value}" is not a number`;
+    }
+    const tolerance = Number(toleranceText);
+    return {
+      questionText,
+      questionType: 'Numerical',
+      correctAnswers: [value],
+      ...(tolerance > 0 && { answerTolerance: { type: 'Absolute', amount: tolerance } }),
+      allowMultipleAnswers: false,
+    };
+  }
+
+  if (answerBlock.includes('->')) {
+    // "=item -> match" pairs; a pair with no item only adds a wrong choice
+    const pairs = splitGiftAnswers(answerBlock).map(answer => answer.text.split('->').map(part => part.trim()));
+    if (pairs.some(pair => pair.length !== 2 || !pair[1])) {
+      return 'Each matching pair needs an item, "->" and its match';
+    }
+    const matched = pairs.filter(([item]) => item);
+    return {
+      questionText,
+      questionType: 'Matching',
+      matchItems: matched.map(([item]) => item),
+      options: [...new Set(pairs.map(([, match]) => match))],
+      correctAnswers: matched.map(([, match]) => match),
+      allowMultipleAnswers: false,
+    };
+  }
+
+  const answers = splitGiftAnswers(answerBlock);
+  if (answers.length === 0) {
+    return 'No answers found in the answer block';
+  }
+
+  const hasWrongAnswers = answers.some(answer => answer.marker === '~');
+  if (!hasWrongAnswers) {
+    return {
+      questionText,
+      questionType: 'ShortAnswer',
+      correctAnswers: [answers[0].text],
+      allowMultipleAnswers: false,
+    };
+  }
+
+  const weighted = answers.some(answer => answer.weight !== undefined);
+  const correctAnswers = answers
+    .filter(answer => (answer.weight !== undefined ? answer.weight > 0 : answer.marker === '='))
+    .map(answer => answer.text);
+  return {
+    questionText,
+    questionType: 'MultipleChoice',
+    options: answers.map(answer => answer.text),
+    correctAnswers,
+    allowMultipleAnswers: weighted && correctAnswers.length > 1,
+  };
+}
+
+/**
+ * Answers in a GIFT answer block: each starts with an unescaped '=' or '~',
+ * may carry a %weight% and ends with optional #feedback
+ */
+function splitGiftAnswers(block: string): Array<{ marker: string; text: string; weight?: number }> {
+  const answers: Array<{ marker: string; text: string; weight?: number }> = [];
+  let current: { marker: string; raw: string } | null = null;
+
+  for (let i = 0; i < block.length; i++) {
+    const char = block[i];
+    if (char === '\\' && i + 1 < block.length) {
+      if (current) current.raw += char + block[i + 1];
+      i++;
+    } else if (char === '=' || char === '~') {
+      if (current) answers.push(toGiftAnswer(current));
+      current = { marker: char, raw: '' };
+    } else if (current) {
+      current.raw += char;
+    } else if (char.trim()) {
+      current = { marker: '=', raw: char };
+    }
+  }
+  if (current) answers.push(toGiftAnswer(current));
+
+  return answers.filter(answer => answer.text);
+}
+
+function toGiftAnswer(answer: { marker: string; raw: string }): { marker: string; text: string; weight?: number } {
+  let raw = answer.raw;
+  const feedback = findUnescaped(raw, '#');
+  if (feedback !== -1) raw = raw.slice(0, feedback);
+
+  const weight = raw.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+  if (weight) raw = raw.slice(weight[0].length);
+
+  return {
+    marker: answer.marker,
+    text: giftText(raw),
+    weight: weight ? parseFloat(weight[1]) : undefined,
+  };
+}
+
+function findUnescaped(text: string, char: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function giftText(text: string): string {
+  return text.replace(/\\([:~=#{}\\n])/g, (_, escaped: string) => (escaped === 'n' ? '\n' : escaped)).trim();
+}
+
+// ============================================================================
+// IMS QTI 2.1
+// ============================================================================
+
+/**
+ * Questions from IMS QTI 2.1 assessmentItem documents
+ * The file may be a single assessmentItem or any document that contains several.
+ * Images are read through resolveImage; a lone XML file can only carry them as data: URIs
+ */
+export function parseQti(content: string, resolveImage: ImageResolver = dataUriImage): ParsedImport {
+  const document = parseXml(content);
+  if (!document.ok) {
+    return { questions: [], issues: [{ line: lineOf(document.error), message: document.error }] };
+  }
+
+  const items = document.value.name === 'assessmentItem'
+    ? [document.value]
+    : descendants(document.value, 'assessmentItem');
+  if (items.length === 0) {
+    return { questions: [], issues: [{ line: document.value.line, message: 'No assessmentItem elements found' }] };
+  }
+
+  const questions: ImportedQuestion[] = [];
+  const issues: ImportIssue[] = [];
+  for (const item of items) {
+    const parsed = parseQtiItem(item, resolveImage);
+    if (typeof parsed === 'string') {
+      issues.push({ line: item.line, message: parsed });
+    } else {
+      questions.push(parsed);
+    }
+  }
+
+  return { questions, issues };
+}
+
+/**
+ * Questions from an IMS content package: every assessmentItem file in the ZIP archive,
+ * with the images they refer to read from the package
+ */
+export function parseQtiPackage(archive: Buffer): ParsedImport {
+  const entries = readZip(archive);
+  if (!entries.ok) {
+    return { questions: [], issues: [{ line: 1, message: entries.error }] };
+  }
+
+  const files = new Map(entries.value.map(entry => [entry.name, entry.content]));
+  const questions: ImportedQuestion[] = [];
+  const issues: ImportIssue[] = [];
+  let itemFiles = 0;
+
+  for (const entry of entries.value) {
+    const xml = entry.content.toString('utf-8');
+    // The manifest and assessmentTest only point at the items
+    if (!entry.name.toLowerCase().endsWith('.xml') || !/<(\w+:)?assessmentItem[\s>]/.test(xml)) {
+      continue;
+    }
+    itemFiles++;
+
+    const folder = posix.dirname(entry.name);
+    const parsed = parseQti(xml, src => {
+      const inline = dataUriImage(src);
+      if (inline) return inline;
+      const name = posix.normalize(posix.join(folder, decodeURIComponent(src)));
+      const data = files.get(name);
+      return data ? { name: posix.basename(name), data } : undefined;
+    });
+    questions.push(...parsed.questions);
+    issues.push(...parsed.issues.map(issue => ({ ...issue, message: `${entry.name}: ${issue.message}` })));
+  }
+
+  if (itemFiles === 0) {
+    issues.push({ line: 1, message: 'The package has no assessmentItem files' });
+  }
+  return { questions, issues };
+}
+
+function parseQtiItem(item: XmlElement, resolveImage: ImageResolver): ImportedQuestion | string {
+  const itemBody = firstChild(item, 'itemBody');
+  if (!itemBody) {
+    return 'assessmentItem has no itemBody';
+  }
+
+  const interactions = allElements(itemBody).filter(element => element.name.endsWith('Interaction'));
+  // Several text entries can be the blanks of one sentence; anything else takes a single interaction
+  const onlyTextEntries = interactions.every(element => element.name === 'textEntryInteraction');
+  if (interactions.length !== 1 && !(interactions.length > 1 && onlyTextEntries)) {
+    return interactions.length === 0
+      ? 'assessmentItem has no interaction'
+      : 'Items with more than one interaction are not supported';
+  }
+  const interaction = interactions[0];
+
+  const declarations = new Map(childElements(item, 'responseDeclaration')
+    .map(response => [response.attributes.identifier, response]));
+  const undeclared = interactions.find(element => !declarations.has(element.attributes.responseIdentifier));
+  if (undeclared) {
+    return `No responseDeclaration for "${undeclared.attributes.responseIdentifier}"`;
+  }
+  const declaration = declarations.get(interaction.attributes.responseIdentifier)!;
+  const correctValues = qtiCorrectValues(declaration);
+
+  const prompt = firstChild(interaction, 'prompt');
+  // A text entry on a line of its own is the answer box rather than a blank in the sentence
+  const bodyLines = textLines(qtiText(itemBody)).filter(line => line !== INLINE_BLANK);
+  const questionText = [...bodyLines, prompt ? textContent(prompt).trim() : '']
+    .filter(Boolean)
+    .join('\n');
+  const choices = interaction.name === 'choiceInteraction' ? childElements(interaction, 'simpleChoice') : [];
+  const choiceImages = new Set(choices.flatMap(choice => descendants(choice, 'img')));
+  const questionImageTag = descendants(itemBody, 'img').find(img => !choiceImages.has(img));
+  const questionImage = questionImageTag && resolveImage(questionImageTag.attributes.src ?? '');
+  if (questionImageTag && !questionImage) {
+    return missingImage(questionImageTag.attributes.src ?? '');
+  }
+
+  const base = {
+    line: item.line,
+    category: {},
+    questionText,
+    solutionSteps: [],
+    ...(questionImage && { image: questionImage }),
+  };
+
+  switch (interaction.name) {
+    case 'choiceInteraction': {
+      const options: string[] = [];
+      const optionImages: Array<ImportedImage | null> = [];
+      const choiceText = new Map<string, string>();
+      for (const choice of choices) {
+        const img = descendants(choice, 'img')[0];
+        const image = img ? resolveImage(img.attributes.src ?? '') ?? null : null;
+        if (img && !image) {
+          return missingImage(img.attributes.src ?? '');
+        }
+        // A choice that is only a picture is named by its alt text or file name
+        const text = textContent(choice).trim() || img?.attributes.alt?.trim() || image?.name || '';
+        options.push(text);
+        optionImages.push(image);
+        choiceText.set(choice.attributes.identifier, text);
+      }
+
+      const unknown = correctValues.find(value => !choiceText.has(value));
+      if (unknown !== undefined) {
+        return `Correct response "${unknown}" is not one of the choices`;
+      }
+      return {
+        ...base,
+        questionType: 'MultipleChoice',
+        options,
+        ...(optionImages.some(Boolean) && { optionImages }),
+        correctAnswers: correctValues.map(value => choiceText.get(value)!),
+        allowMultipleAnswers: declaration.attributes.cardinality === 'multiple',
+      };
+    }
+    case 'matchInteraction': {
+      const [sources, targets] = childElements(interaction, 'simpleMatchSet').map(set =>
+        new Map(childElements(set, 'simpleAssociableChoice').map(choice => [choice.attributes.identifier, textContent(choice).trim()]))
+      );
+      if (!sources || !targets) {
+        return 'A match interaction needs two sets of choices';
+      }
+      const matches = new Map(correctValues.map(value => value.split(/\s+/) as [string, string]));
+      const unmatched = [...sources.keys()].find(id => !targets.has(matches.get(id) ?? ''));
+      if (unmatched !== undefined) {
+        return `Choice "${unmatched}" has no correct match`;
+      }
+      return {
+        ...base,
+        questionType: 'Matching',
+        matchItems: [...sources.values()],
+        options: [...targets.values()],
+        correctAnswers: [...sources.keys()].map(id => targets.get(matches.get(id)!)!),
+        allowMultipleAnswers: false,
+      };
+    }
+    case 'orderInteraction': {
+      const itemText = new Map(childElements(interaction, 'simpleChoice')
+        .map(choice => [choice.attributes.identifier, textContent(choice).trim()]));
+      const unknown = correctValues.find(value => !itemText.has(value));
+      if (unknown !== undefined) {
+        return `Correct response "${unknown}" is not one of the choices`;
+      }
+      return {
+        ...base,
+        questionType: 'Ordering',
+        options: [...itemText.values()],
+        correctAnswers: correctValues.map(value => itemText.get(value)!),
+        allowMultipleAnswers: false,
+      };
+    }
+    case 'textEntryInteraction':
+    case 'extendedTextInteraction': {
+      // Text entries inside a sentence are its blanks; a string answer there fills the blank
+      const inline = countBlanks(questionText) === interactions.length;
+      if (inline && (interactions.length > 1 || declaration.attributes.baseType === 'string')) {
+        return {
+          ...base,
+          questionType: 'FillInBlank',
+          correctAnswers: interactions.map(entry => qtiBlankAnswer(declarations.get(entry.attributes.responseIdentifier)!)),
+          allowMultipleAnswers: false,
+        };
+      }
+      if (interactions.length > 1) {
+        return 'Items with more than one interaction are not supported';
+      }
+      const numeric = ['float', 'integer'].includes(declaration.attributes.baseType);
+      return {
+        ...base,
+        questionType: numeric ? 'Numerical' : 'ShortAnswer',
+        correctAnswers: correctValues.slice(0, 1),
+        allowMultipleAnswers: false,
+      };
+    }
+    default:
+      return `Unsupported QTI interaction "${interaction.name}"`;
+  }
+}
+
+function qtiCorrectValues(declaration: XmlElement): string[] {
+  return childElements(firstChild(declaration, 'correctResponse') ?? declaration, 'value')
+    .map(value => textContent(value).trim());
+}
+
+/**
+ * Answer to one blank: every response its mapping gives marks for, else the correct response
+ */
+function qtiBlankAnswer(declaration: XmlElement): string {
+  const mapped = descendants(declaration, 'mapEntry')
+    .filter(entry => parseFloat(entry.attributes.mappedValue ?? '0') > 0)
+    .map(entry => (entry.attributes.mapKey ?? '').trim());
+  const accepted = mapped.length > 0 ? mapped : qtiCorrectValues(declaration).slice(0, 1);
+  return accepted.join(BLANK_ALTERNATIVE_SEPARATOR);
+}
+
+/**
+ * Plain text of an itemBody: block interactions are left out (their prompt is added
+ * separately) and an inline text entry becomes a blank
+ */
+function qtiText(node: XmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.name === 'textEntryInteraction') return INLINE_BLANK;
+  if (node.name.endsWith('Interaction') || node.name === 'prompt') return '';
+
+  const text = node.children.map(qtiText).join('');
+  return ['p', 'div', 'br', 'li'].includes(node.name) ? `${text.trim()}\n` : text;
+}
+
+function allElements(element: XmlElement): XmlElement[] {
+  return childElements(element).flatMap(child => [child, ...allElements(child)]);
+}
+
+// ============================================================================
+// Images
+// ============================================================================
+
+// Finds the image an <img src> refers to; undefined when it is not available
+type ImageResolver = (src: string) => ImportedImage | undefined;
+
+/**
+ * Image written into the file itself as a base64 data: URI
+ */
+function dataUriImage(src: string): ImportedImage | undefined {
+  const match = src.match(/^data:image\/(\w+);base64,(.+)$/);
+  return match ? { name: `image.${match[1]}`, data: Buffer.from(match[2], 'base64') } : undefined;
+}
+
+function missingImage(src: string): string {
+  return src.startsWith('data:')
+    ? 'An image in this item could not be read'
+    : `Image "${src}" is not in the file; import the QTI content package (.zip) to include it`;
+}
+
+/**
+ * Image of a Moodle question text or answer: the base64 <file> its <img> tag refers to
+ * (Moodle writes these as @@PLUGINFILE@@/name), or the first file attached when no tag names one
+ */
+function moodleImage(html: string, container?: XmlElement): { image: ImportedImage; label: string } | undefined {
+  const files = container
+    ? childElements(container, 'file').filter(file => (file.attributes.encoding ?? 'base64') === 'base64')
+    : [];
+  if (files.length === 0) {
+    return undefined;
+  }
+
+  const tag = html.match(/<img\b[^>]*>/i)?.[0] ?? '';
+  const attribute = (name: string) =>
+    decodeEntities(tag.match(new RegExp(`\\b${name}\\s*=\\s*["']([^"']*)["']`, 'i'))?.[1] ?? '');
+  const referenced = decodeURIComponent(attribute('src').split('/').pop() ?? '');
+  const file = files.find(candidate => candidate.attributes.name === referenced) ?? files[0];
+  const name = file.attributes.name ?? 'image';
+
+  return {
+    image: { name, data: Buffer.from(textContent(file).replace(/\s+/g, ''), 'base64') },
+    label: attribute('alt').trim() || name,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Category path such as "$course$/top/CBSE/Class 8/Mathematics/Fractions"
+ * The last four segments name curriculum, grade, subject and topic; a shorter path names the topic only
+ */
+export function categoryFromPath(path: string): ImportCategory {
+  const segments = path
+    .split('/')
+    .map(segment => segment.trim())
+    .filter(segment => segment && !/^\$\w+\$$/.test(segment) && segment.toLowerCase() !== 'top');
+
+  if (segments.length >= 4) {
+    const [curriculum, grade, subject, topicName] = segments.slice(-4);
+    return { curriculum, grade: parseGrade(grade), subject, topicName };
+  }
+  return segments.length > 0 ? { topicName: segments[segments.length - 1] } : {};
+}
+
+function parseGrade(value: string): number | undefined {
+  const digits = value.match(/\d+/);
+  return digits ? parseInt(digits[0], 10) : undefined;
+}
+
+function elementText(element: XmlElement | undefined): string {
+  if (!element) return '';
+  const text = firstChild(element, 'text');
+  return textContent(text ?? element);
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function textLines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+function lineOf(xmlError: string): number {
+  const match = xmlError.match(/^Line (\d+)/);
+  return match ? parseInt(match[1], 10) : 1;
+}
@@ -0,0 +1,219 @@
+// Question Issue Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { QuestionIssueService } from './questionIssues';
+import { EvaluatorService } from './evaluator';
+import { NotificationService } from './notifications';
+import { FeedbackEngine } from './feedbackEngine';
+import { Ok } from '../types';
+
+const questionRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'q1',
+  topicId: 'fractions',
+  questionText: 'What is 1/2 + 1/4?',
+  questionType: 'MultipleChoice',
+  options: JSON.stringify(['1/4', '2/4', '3/4', '1']),
+  matchItems: null,
+  optionImageIds: null,
+  correctAnswers: JSON.stringify(['2/4']),
+  answerTolerance: null,
+  rubric: null,
+  allowMultipleAnswers: false,
+  solutionSteps: '[]',
+  syllabusReference: 'Fractions',
+  difficulty: 'ExamRealistic',
+  version: 1,
+  ...overrides,
+});
+
+const issueRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'issue-1',
+  questionId: 'q1',
+  userId: 'student-1',
+  testId: 'test-1',
+  category: 'WrongAnswer',
+  comment: '1/2 + 1/4 is 3/4',
+  status: 'Open',
+  resolutionNote: null,
+  resolvedAt: null,
+  createdAt: new Date('2026-03-02T09:00:00Z'),
+  question: questionRow(),
+  ...overrides,
+});
+
+function createService(prisma: Record<string, unknown>, evaluator: Partial<EvaluatorService> = {}) {
+  const notify = vi.fn();
+  const refreshPerformanceReport = vi.fn().mockResolvedValue(Ok(undefined));
+  const service = new QuestionIssueService(
+    prisma as any,
+    evaluator as EvaluatorService,
+    { notify } as unknown as NotificationService,
+    { refreshPerformanceReport } as unknown as FeedbackEngine
+  );
+  return { service, notify, refreshPerformanceReport };
+}
+
+describe('QuestionIssueService', () => {
+  it('should only accept reports on questions from the student\'s own submitted tests', async () => {
+    const create = vi.fn();
+    const { service } = createService({
+      test: {
+        findUnique: vi.fn().mockResolvedValue({ userId: 'student-2', status: 'Submitted', testQuestions: [{ id: 'tq1' }] }),
+      },
+      questionIssue: { create },
+    });
+
+    const result = await service.reportIssue('student-1', 'q1', { testId: 'test-1', category: 'Typo' });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('Forbidden');
+    }
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('should not open a second report while the student\'s first is waiting', async () => {
+    const { service } = createService({
+      test: {
+        findUnique: vi.fn().mockResolvedValue({ userId: 'student-1', status: 'Submitted', testQuestions: [{ id: 'tq1' }] }),
+      },
+      questionIssue: { findFirst: vi.fn().mockResolvedValue({ id: 'issue-1' }), create: vi.fn() },
+    });
+
+    const result = await service.reportIssue('student-1', 'q1', { testId: 'test-1', category: 'WrongAnswer' });
+
+    expect(result).toEqual({ ok: false, error: { type: 'AlreadyReported', issueId: 'issue-1' } });
+  });
+
+  it('should correct the answer key, re-score affected tests and their reports and tell students whose score changed', async () => {
+    const questionUpdate = vi.fn();
+    const updateMany = vi.fn();
+    const reevaluateTest = vi.fn()
+      .mockResolvedValueOnce({ ok: true, value: { previousScore: 50, evaluation: { userId: 'student-1', overallScore: 100 } } })
+      .mockResolvedValueOnce({ ok: true, value: { previousScore: 50, evaluation: { userId: 'student-3', overallScore: 50 } } });
+    const { service, notify, refreshPerformanceReport } = createService(
+      {
+        question: { update: questionUpdate },
+        questionIssue: {
+          findUnique: vi.fn().mockResolvedValue(issueRow()),
+          findMany: vi.fn().mockResolvedValue([
+            { id: 'issue-1', userId: 'student-1' },
+            { id: 'issue-2', userId: 'student-2' },
+          ]),
+          updateMany,
+        },
+        evaluation: { findMany: vi.fn().mockResolvedValue([{ testId: 'test-1' }, { testId: 'test-3' }]) },
+      },
+      { reevaluateTest }
+    );
+
+    const result = await service.resolveIssue('issue-1', 'admin-1', { status: 'Resolved', correctAnswers: ['3/4'] });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toMatchObject({ reevaluatedTests: 2, scoresChanged: 1, gradesSentForReview: 0 });
+      expect(result.value.issue.status).toBe('Resolved');
+    }
+    expect(questionUpdate).toHaveBeenCalledWith({ where: { id: 'q1' }, data: { correctAnswers: JSON.stringify(['3/4']) } });
+    expect(updateMany.mock.calls[0][0].where).toEqual({ id: { in: ['issue-1', 'issue-2'] } });
+    expect(refreshPerformanceReport.mock.calls.map(call => call[1])).toEqual(['test-1', 'test-3']);
+
+    const scoreNotices = notify.mock.calls.filter(call => call[1] === 'AnswerKeyCorrected');
+    expect(scoreNotices).toHaveLength(1);
+    expect(scoreNotices[0][0]).toBe('student-1');
+    expect(scoreNotices[0][3]).toBe('/test/test-1/results');
+    expect(notify.mock.calls.filter(call => call[1] === 'IssueResolved').map(call => call[0]))
+      .toEqual(['student-1', 'student-2']);
+  });
+
+  it('should reject a corrected answer that is not one of the options', async () => {
+    const questionUpdate = vi.fn();
+    const { service } = createService({
+      question: { update: questionUpdate },
+      questionIssue: { findUnique: vi.fn().mockResolvedValue(issueRow()) },
+    });
+
+    const result = await service.resolveIssue('issue-1', 'admin-1', { status: 'Resolved', correctAnswers: ['0.75'] });
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('InvalidCorrection');
+    }
+    expect(questionUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should correct the answer key of a matching question', async () => {
+    const questionUpdate = vi.fn();
+    const matching = questionRow({
+      questionText: 'Match each fraction to its decimal',
+      questionType: 'Matching',
+      options: JSON.stringify(['0.5', '0.25', '0.75']),
+      matchItems: JSON.stringify(['1/2', '1/4', '3/4']),
+      correctAnswers: JSON.stringify(['0.5', '0.75', '0.25']),
+    });
+    const { service } = createService({
+      question: { update: questionUpdate },
+      questionIssue: {
+        findUnique: vi.fn().mockResolvedValue(issueRow({ question: matching })),
+        findMany: vi.fn().mockResolvedValue([{ id: 'issue-1', userId: 'student-1' }]),
+        updateMany: vi.fn(),
+      },
+      evaluation: { findMany: vi.fn().mockResolvedValue([]) },
+    });
+
+    const result = await service.resolveIssue('issue-1', 'admin-1', {
+      status: 'Resolved',
+      correctAnswers: ['0.5', '0.25', '0.75'],
+    });
+
+    expect(result.ok).toBe(true);
+    expect(questionUpdate).toHaveBeenCalledWith({
+      where: { id: 'q1' },
+      data: { correctAnswers: JSON.stringify(['0.5', '0.25', '0.75']) },
+    });
+  });
+
+  it('should send rubric-graded short answers for review instead of re-scoring their tests', async () => {
+    const gradeUpdateMany = vi.fn();
+    const reevaluateTest = vi.fn()
+      .mockResolvedValue({ ok: true, value: { previousScore: 0, evaluation: { userId: 'student-3', overallScore: 0 } } });
+    const shortAnswer = questionRow({
+      questionText: 'Why do leaves look green?',
+      questionType: 'ShortAnswer',
+      options: null,
+      correctAnswers: JSON.stringify(['They reflect red light']),
+    });
+    const { service } = createService(
+      {
+        question: { update: vi.fn() },
+        questionIssue: {
+          findUnique: vi.fn().mockResolvedValue(issueRow({ question: shortAnswer })),
+          findMany: vi.fn().mockResolvedValue([{ id: 'issue-1', userId: 'student-1' }]),
+          updateMany: vi.fn(),
+        },
+        shortAnswerGrade: {
+          findMany: vi.fn().mockResolvedValue([{ testId: 'test-1' }]),
+          updateMany: gradeUpdateMany,
+        },
+        evaluation: { findMany: vi.fn().mockResolvedValue([{ testId: 'test-1' }, { testId: 'test-3' }]) },
+      },
+      { reevaluateTest }
+    );
+
+    const result = await service.resolveIssue('issue-1', 'admin-1', {
+      status: 'Resolved',
+      correctAnswers: ['They reflect green light'],
+    });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value).toMatchObject({ reevaluatedTests: 1, gradesSentForReview: 1 });
+    }
+    expect(gradeUpdateMany.mock.calls[0][0]).toMatchObject({
+      where: { questionId: 'q1' },
+      data: { reviewStatus: 'PendingReview' },
+    });
+    expect(reevaluateTest).toHaveBeenCalledTimes(1);
+    expect(reevaluateTest).toHaveBeenCalledWith('test-3');
+  });
+});
@@ -0,0 +1,343 @@
+// Question Issue Service
+// Students report questions they believe are wrong; admins triage the reports and, when an
+// answer key was wrong, correct it and re-score every test that used the question along with
+// its performance report
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  TestId,
+  QuestionId,
+  IssueId,
+  QuestionType,
+  DifficultyLevel,
+  QuestionIssue,
+  QuestionIssueCategory,
+  QuestionIssueStatus,
+  QuestionIssueReport,
+  QuestionIssueSearch,
+  IssueResolution,
+  QuestionIssueError,
+  NotFoundError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { EvaluatorService } from './evaluator';
+import { NotificationService } from './notifications';
+import { FeedbackEngine } from './feedbackEngine';
+import { validateQuestionInput } from './questionBank';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
+import { parseRubric } from '../lib/questionFormats';
+
+export class QuestionIssueService {
+  private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
+  private notifications: NotificationService;
+  private feedbackEngine: FeedbackEngine;
+
+  constructor(
+    prisma: PrismaClient,
+    evaluator: EvaluatorService,
+    notifications: NotificationService,
+    feedbackEngine: FeedbackEngine
+  ) {
+    this.prisma = prisma;
+    this.evaluator = evaluator;
+    this.notifications = notifications;
+    this.feedbackEngine = feedbackEngine;
+  }
+
+  /**
+   * Report a problem with a question from a test the student has submitted
+   */
+  async reportIssue(
+    userId: UserId,
+    questionId: QuestionId,
+    report: QuestionIssueReport
+  ): Promise<Result<QuestionIssue, QuestionIssueError | NotFoundError>> {
+    const test = await this.prisma.test.findUnique({
+      where: { id: report.testId },
+      select: {
+        userId: true,
+        status: true,
+        testQuestions: { where: { questionId }, select: { id: true } },
+      },
+    });
+    if (!test) {
+      return Err({ type: 'NotFound', resource: 'Test', id: report.testId });
+    }
+    if (test.userId !== userId) {
+      return Err({ type: 'Forbidden', message: 'You can only report questions from your own tests' });
+    }
+    if (test.testQuestions.length === 0) {
+      return Err({ type: 'NotFound', resource: 'Question', id: questionId });
+    }
+    if (test.status !== 'Submitted') {
+      return Err({ type: 'Forbidden', message: 'Questions can be reported once the test is submitted' });
+    }
+
+    const existing = await this.prisma.questionIssue.findFirst({
+      where: { questionId, userId, status: 'Open' },
+      select: { id: true },
+    });
+    if (existing) {
+      return Err({ type: 'AlreadyReported', issueId: existing.id });
+    }
+
+    const row = await this.prisma.questionIssue.create({
+      data: {
+        questionId,
+        userId,
+        testId: report.testId,
+        category: report.category,
+        comment: report.comment,
+      },
+    });
+
+    return Ok(toQuestionIssue(row));
+  }
+
+  /**
+   * Reports for triage, oldest first, with the question as students saw it
+   */
+  async listIssues(search: QuestionIssueSearch): Promise<{ issues: QuestionIssue[]; total: number }> {
+    const where = { status: search.status };
+
+    const [rows, total] = await Promise.all([
+      this.prisma.questionIssue.findMany({
+        where,
+        include: { question: true },
+        orderBy: { createdAt: 'asc' },
+        skip: search.offset,
+        take: search.limit,
+      }),
+      this.prisma.questionIssue.count({ where }),
+    ]);
+
+    return { issues: (rows as IssueRow[]).map(toQuestionIssue), total };
+  }
+
+  /**
+   * Close a report, optionally correcting the question's answer key
+   * A correction resolves every open report on the question, re-scores the tests that
+   * used it and tells each student whose score changed
+   */
+  async resolveIssue(
+    issueId: IssueId,
+    resolverId: UserId,
+    resolution: IssueResolution
+  ): Promise<Result<
+    { issue: QuestionIssue; reevaluatedTests: number; scoresChanged: number; gradesSentForReview: number },
+    QuestionIssueError | NotFoundError
+  >> {
+    const issue: IssueRow | null = await this.prisma.questionIssue.findUnique({
+      where: { id: issueId },
+      include: { question: true },
+    });
+    if (!issue) {
+      return Err({ type: 'NotFound', resource: 'QuestionIssue', id: issueId });
+    }
+    if (issue.status !== 'Open') {
+      return Err({ type: 'IssueClosed', issueId });
+    }
+
+    let reevaluatedTests = 0;
+    let scoresChanged = 0;
+    let gradesSentForReview = 0;
+    if (resolution.correctAnswers) {
+      const corrected = await this.correctAnswerKey(issue.question!, resolution.correctAnswers);
+      if (!corrected.ok) {
+        return corrected;
+      }
+      ({ reevaluatedTests, scoresChanged, gradesSentForReview } = corrected.value);
+    }
+
+    const closing = {
+      status: resolution.status,
+      resolutionNote: resolution.note ?? null,
+      resolvedById: resolverId,
+      resolvedAt: new Date(),
+    };
+    const resolvedIssues: Array<{ id: string; userId: string }> = resolution.correctAnswers
+      ? await this.prisma.questionIssue.findMany({
+          where: { questionId: issue.questionId, status: 'Open' },
+          select: { id: true, userId: true },
+        })
+      : [{ id: issue.id, userId: issue.userId }];
+
+    await this.prisma.questionIssue.updateMany({
+      where: { id: { in: resolvedIssues.map(resolved => resolved.id) } },
+      data: closing,
+    });
+
+    const message = resolution.status === 'Resolved'
+      ? 'Thanks for reporting a problem with a question; it has been fixed.'
+      : 'Thanks for reporting a problem with a question; after review it was left unchanged.';
+    for (const reporterId of new Set(resolvedIssues.map(resolved => resolved.userId))) {
+      await this.notifications.notify(
+        reporterId,
+        'IssueResolved',
+        resolution.note ? `${message} Note from the reviewer: ${resolution.note}` : message
+      );
+    }
+
+    return Ok({
+      issue: toQuestionIssue({ ...issue, ...closing }),
+      reevaluatedTests,
+      scoresChanged,
+      gradesSentForReview,
+    });
+  }
+
+  // ==========================================================================
+  // Helpers
+  // ==========================================================================
+
+  /**
+   * Fix the answer key of the version students were tested on and re-score their tests
+   * The fix is made in place rather than as a new version because the tests that used
+   * this version were scored against the wrong key. Rubric grades of ShortAnswer responses
+   * stand when a test is re-scored, so they go back to a teacher to review instead
+   */
+  private async correctAnswerKey(
+    question: IssueQuestionRow,
+    correctAnswers: string[]
+  ): Promise<Result<{ reevaluatedTests: number; scoresChanged: number; gradesSentForReview: number }, QuestionIssueError>> {
+    const options: string[] | undefined = question.options ? JSON.parse(question.options) : undefined;
+    const validation = validateQuestionInput({
+      topicId: question.topicId,
+      questionText: question.questionText,
+      questionType: question.questionType as QuestionType,
+      options,
+      matchItems: question.matchItems ? JSON.parse(question.matchItems) : undefined,
+      optionImageIds: question.optionImageIds ? JSON.parse(question.optionImageIds) : undefined,
+      correctAnswers,
+      answerTolerance: parseAnswerTolerance(question.answerTolerance),
+      rubric: parseRubric(question.rubric),
+      allowMultipleAnswers: question.allowMultipleAnswers,
+      solutionSteps: JSON.parse(question.solutionSteps || '[]'),
+      syllabusReference: question.syllabusReference,
+      difficulty: question.difficulty as DifficultyLevel,
+    });
+    if (!validation.ok) {
+      return Err({ type: 'InvalidCorrection', message: validation.error });
+    }
+
+    await this.prisma.question.update({
+      where: { id: question.id },
+      data: { correctAnswers: JSON.stringify(correctAnswers) },
+    });
+
+    // The tests are re-scored once a teacher has reviewed these grades against the corrected key
+    const rubricGraded: Array<{ testId: TestId }> = question.questionType === 'ShortAnswer'
+      ? await this.prisma.shortAnswerGrade.findMany({
+          where: { questionId: question.id },
+          select: { testId: true },
+        })
+      : [];
+    if (rubricGraded.length > 0) {
+      await this.prisma.shortAnswerGrade.updateMany({
+        where: { questionId: question.id },
+        data: { reviewStatus: 'PendingReview', reviewedById: null, reviewedAt: null },
+      });
+    }
+    const awaitingReview = new Set(rubricGraded.map(grade => grade.testId));
+
+    const evaluations: Array<{ testId: TestId }> = await this.prisma.evaluation.findMany({
+      where: { test: { testQuestions: { some: { questionId: question.id } } } },
+      select: { testId: true },
+    });
+
+    let reevaluatedTests = 0;
+    let scoresChanged = 0;
+    for (const { testId } of evaluations) {
+      if (awaitingReview.has(testId)) {
+        continue;
+      }
+
+      const rescored = await this.evaluator.reevaluateTest(testId);
+      if (!rescored.ok) {
+        console.warn(`Re-evaluation of test ${testId} failed:`, rescored.error.reason);
+        continue;
+      }
+      reevaluatedTests++;
+
+      const { previousScore, evaluation } = rescored.value;
+      const report = await this.feedbackEngine.refreshPerformanceReport(evaluation, testId);
+      if (!report.ok) {
+        console.error(`Failed to refresh the performance report of test ${testId}:`, report.error);
+      }
+      if (Math.abs(evaluation.overallScore - previousScore) < 0.01) {
+        continue;
+      }
+      scoresChanged++;
+      await this.notifications.notify(
+        evaluation.userId,
+        'AnswerKeyCorrected',
+        `A question's answer key was corrected, so one of your tests was re-marked: ` +
+          `your score changed from ${previousScore.toFixed(1)}% to ${evaluation.overallScore.toFixed(1)}%.`,
+        `/test/${testId}/results`
+      );
+    }
+
+    return Ok({ reevaluatedTests, scoresChanged, gradesSentForReview: rubricGraded.length });
+  }
+}
+
+function toQuestionIssue(row: IssueRow): QuestionIssue {
+  return {
+    issueId: row.id,
+    questionId: row.questionId,
+    userId: row.userId,
+    testId: row.testId ?? undefined,
+    category: row.category as QuestionIssueCategory,
+    comment: row.comment ?? undefined,
+    status: row.status as QuestionIssueStatus,
+    resolutionNote: row.resolutionNote ?? undefined,
+    resolvedAt: row.resolvedAt ?? undefined,
+    createdAt: row.createdAt,
+    question: row.question
+      ? {
+          questionText: row.question.questionText,
+          questionType: row.question.questionType as QuestionType,
+          options: row.question.options ? JSON.parse(row.question.options) : undefined,
+          correctAnswers: JSON.parse(row.question.correctAnswers || '[]'),
+          version: row.question.version,
+        }
+      : undefined,
+  };
+}
+
+// Row shapes returned by the Prisma queries above
+type IssueQuestionRow = {
+  id: string;
+  topicId: string;
+  questionText: string;
+  questionType: string;
+  options: string | null;
+  matchItems: string | null;
+  optionImageIds: string | null;
+  correctAnswers: string;
+  answerTolerance: string | null;
+  rubric: string | null;
+  allowMultipleAnswers: boolean;
+  solutionSteps: string;
+  syllabusReference: string;
+  difficulty: string;
+  version: number;
+};
+
+type IssueRow = {
+  id: string;
+  questionId: string;
+  userId: string;
+  testId: string | null;
+  category: string;
+  comment: string | null;
+  status: string;
+  resolutionNote: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  question?: IssueQuestionRow;
+};
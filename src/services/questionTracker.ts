@@ -10,6 +10,7 @@ import {
   Result,
   Ok,
   Err,
+  DifficultyLevel,
 } from '../types';
 
 export class QuestionTrackerService {
@@ -115,6 +116,8 @@ export class QuestionTrackerService {
         id: {
           notIn: seenQuestionIds, // Exclude seen questions
         },
+        supersededAt: null, // Only current, approved versions are served
+        status: 'Approved',
       },
       include: {
         topic: true,
@@ -130,7 +133,7 @@ export class QuestionTrackerService {
       options: q.options ? JSON.parse(q.options) : undefined,
       correctAnswer: q.correctAnswer,
       syllabusReference: q.syllabusReference,
-      difficulty: 'ExamRealistic' as const,
+      difficulty: q.difficulty as DifficultyLevel,
       createdAt: q.createdAt,
     }));
   }
@@ -165,6 +168,7 @@ export class QuestionTrackerService {
           id: {
             in: seenQuestionIds,
           },
+          supersededAt: null,
         },
         include: {
           topic: true,
@@ -179,7 +183,7 @@ export class QuestionTrackerService {
         options: q.options ? JSON.parse(q.options) : undefined,
         correctAnswer: q.correctAnswer,
         syllabusReference: q.syllabusReference,
-        difficulty: 'ExamRealistic' as const,
+        difficulty: q.difficulty as DifficultyLevel,
         createdAt: q.createdAt,
       }));
 
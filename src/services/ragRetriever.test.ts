@@ -1,6 +1,6 @@
 // Integration tests for RAG retriever
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { PrismaClient } from '@prisma/client';
 import { RAGRetrieverImpl } from './ragRetriever';
 import { SimpleEmbeddingService } from './embedding';
@@ -229,3 +229,41 @@ describe('RAGRetrieverImpl', () => {
     });
   });
 });
+
+describe('RAGRetrieverImpl approval filtering', () => {
+  const topicId = 'llm-cbse-10-mathematics-0';
+  const question = (questionId: string): Question => ({
+    questionId,
+    topicId,
+    questionText: `What is ${questionId.length} + ${questionId}?`,
+    questionType: 'Numerical',
+    correctAnswer: '4',
+    syllabusReference: 'Basic Addition',
+    difficulty: 'ExamRealistic',
+    createdAt: new Date(),
+  });
+
+  it('should find approved questions however many drafts are indexed', async () => {
+    const findMany = vi.fn().mockResolvedValue([{ id: 'a1' }, { id: 'a2' }]);
+    const ragRetriever = new RAGRetrieverImpl(
+      { question: { findMany } } as unknown as PrismaClient,
+      new SimpleEmbeddingService(),
+      new InMemoryVectorStore()
+    );
+    for (const id of ['d1', 'd2', 'd3', 'd4', 'd5', 'd6', 'd7', 'd8', 'a1', 'a2']) {
+      await ragRetriever.indexQuestion(question(id));
+    }
+
+    const result = await ragRetriever.retrieveQuestions([topicId], 2, []);
+
+    expect(findMany.mock.calls[0][0].where).toEqual({
+      topicId: { in: [topicId] },
+      status: 'Approved',
+      supersededAt: null,
+    });
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.map(q => q.questionId).sort()).toEqual(['a1', 'a2']);
+    }
+  });
+});
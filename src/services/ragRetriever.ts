@@ -4,7 +4,9 @@ import { PrismaClient } from '@prisma/client';
 import {
   Question,
   QuestionId,
+  QuestionType,
   TopicId,
+  DifficultyLevel,
   SyllabusContext,
   Result,
   RetrievalError,
@@ -15,6 +17,8 @@ import {
 import { RAGRetriever } from './interfaces';
 import { EmbeddingService } from './embedding';
 import { InMemoryVectorStore, VectorEntry } from './vectorStore';
+import { answerParts, parseRubric, questionAnswerFields } from '../lib/questionFormats';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
 
 export class RAGRetrieverImpl implements RAGRetriever {
   private prisma: PrismaClient;
@@ -37,7 +41,9 @@ export class RAGRetrieverImpl implements RAGRetriever {
   async retrieveQuestions(
     topics: TopicId[],
     count: number,
-    excludeIds: QuestionId[]
+    excludeIds: QuestionId[],
+    difficulties?: Partial<Record<TopicId, DifficultyLevel>>,
+    questionType?: QuestionType
   ): Promise<Result<Question[], RetrievalError>> {
     try {
       // Get syllabus context for all topics
@@ -55,29 +61,35 @@ export class RAGRetrieverImpl implements RAGRetriever {
       // Average the embeddings to create a query embedding
       const queryEmbedding = this.averageEmbeddings(topicEmbeddings);
 
+      // Only serve questions that moderation has approved; generated ones are indexed as drafts.
+      // The vector store does not know a question's status, so the approved set is looked up first
+      // and applied while searching, where drafts cannot crowd approved questions out of the top K
+      const approved: Array<{ id: string }> = await this.prisma.question.findMany({
+        where: { topicId: { in: topics }, status: 'Approved', supersededAt: null },
+        select: { id: true },
+      });
+      const approvedIds = new Set(approved.map(question => question.id));
+
       // Search for similar questions in the vector store
       const excludeSet = new Set(excludeIds);
       const searchResults = await this.vectorStore.search(queryEmbedding, {
-        topK: count * 3, // Get more results to account for filtering
+        topK: count,
         minSimilarity: 0.0, // No minimum similarity threshold - rely on topic filtering
         filter: (entry) => {
-          // Filter by topics and exclude IDs
+          // Filter by topics, approval, exclude IDs and, when requested, each topic's difficulty and the question type
           const topicMatch = topics.includes(entry.metadata.topicId);
+          const isApproved = !!entry.metadata.question && approvedIds.has(entry.metadata.question.questionId);
           const notExcluded = !entry.metadata.questionId || !excludeSet.has(entry.metadata.questionId);
-          return topicMatch && notExcluded;
+          const wantedDifficulty = difficulties?.[entry.metadata.topicId];
+          const difficultyMatch = !wantedDifficulty ||
+            (entry.metadata.question?.difficulty ?? 'ExamRealistic') === wantedDifficulty;
+          const typeMatch = !questionType || entry.metadata.question?.questionType === questionType;
+          return topicMatch && isApproved && notExcluded && difficultyMatch && typeMatch;
         },
       });
 
       // Extract questions from search results
-      const questions: Question[] = [];
-      for (const result of searchResults) {
-        if (result.entry.metadata.question) {
-          questions.push(result.entry.metadata.question);
-        }
-        if (questions.length >= count) {
-          break;
-        }
-      }
+      const questions: Question[] = searchResults.map(result => result.entry.metadata.question!);
 
       // Check if we have enough questions
       if (questions.length < count) {
@@ -255,26 +267,30 @@ export class RAGRetrieverImpl implements RAGRetriever {
   }
 
   /**
-   * Index all questions from the database
+   * Index all current questions from the database (earlier versions of edited questions are skipped)
    */
   async indexAllQuestions(): Promise<void> {
-    const questions = await this.prisma.question.findMany();
+    const questions = await this.prisma.question.findMany({
+      where: { supersededAt: null },
+    });
 
     for (const dbQuestion of questions) {
+      const matchItems: string[] | undefined = dbQuestion.matchItems ? JSON.parse(dbQuestion.matchItems) : undefined;
       const question: Question = {
         questionId: dbQuestion.id,
         topicId: dbQuestion.topicId,
         questionText: dbQuestion.questionText,
         questionType: dbQuestion.questionType as any,
         options: dbQuestion.options ? JSON.parse(dbQuestion.options) : undefined,
-        correctAnswer: (() => {
-          try {
-            const parsed = JSON.parse(dbQuestion.correctAnswers || '[]');
-            return Array.isArray(parsed) ? parsed[0] || '' : parsed;
-          } catch { return dbQuestion.correctAnswers || ''; }
-        })(),
+        matchItems,
+        imageId: dbQuestion.imageId ?? undefined,
+        optionImageIds: dbQuestion.optionImageIds ? JSON.parse(dbQuestion.optionImageIds) : undefined,
+        // The first correct answer, or every part for part-marked types
+        ...questionAnswerFields(dbQuestion.questionType, answerParts(dbQuestion.correctAnswers || '[]'), matchItems),
+        answerTolerance: parseAnswerTolerance(dbQuestion.answerTolerance),
+        rubric: parseRubric(dbQuestion.rubric),
         syllabusReference: dbQuestion.syllabusReference,
-        difficulty: 'ExamRealistic',
+        difficulty: dbQuestion.difficulty as DifficultyLevel,
         createdAt: dbQuestion.createdAt,
       };
 
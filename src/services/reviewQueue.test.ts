@@ -0,0 +1,175 @@
+// Review Queue Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { ReviewQueueService, scheduleReview } from './reviewQueue';
+import { EvaluatorService } from './evaluator';
+import { TestSubmission } from '../types';
+
+const NOW = new Date('2026-03-10T08:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const fresh = { easeFactor: 2.5, intervalDays: 0, repetitions: 0, dueAt: NOW };
+
+const scoredQuestion = (id: string, correctAnswer: string) => ({
+  question: { id, correctAnswers: JSON.stringify([correctAnswer]), questionType: 'MultipleChoice' },
+});
+
+const submission = (answers: Record<string, string>): TestSubmission => ({
+  sessionId: 'session-1',
+  testId: 'test-1',
+  responses: new Map(Object.entries(answers).map(([questionId, answer]) => [questionId, { answer, answeredAt: NOW }])),
+  submittedAt: NOW,
+});
+
+function createService(prisma: Record<string, unknown>) {
+  const client = { responseGrade: { findMany: vi.fn().mockResolvedValue([]) }, ...prisma };
+  return new ReviewQueueService(client as any, new EvaluatorService(client as any));
+}
+
+describe('scheduleReview', () => {
+  it('should space correct reviews out to 1, 6 and then ease-factor days', () => {
+    const first = scheduleReview(fresh, true, NOW);
+    const second = scheduleReview(first, true, NOW);
+    const third = scheduleReview(second, true, NOW);
+
+    expect([first.intervalDays, second.intervalDays, third.intervalDays]).toEqual([1, 6, 15]);
+    expect(third.repetitions).toBe(3);
+    expect(third.dueAt.getTime()).toBe(NOW.getTime() + 15 * DAY_MS);
+  });
+
+  it('should start over and lower the ease factor after a wrong answer', () => {
+    const next = scheduleReview({ ...fresh, intervalDays: 15, repetitions: 3 }, false, NOW);
+
+    expect(next.repetitions).toBe(0);
+    expect(next.intervalDays).toBe(1);
+    expect(next.easeFactor).toBeLessThan(2.5);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    let schedule = fresh;
+    for (let i = 0; i < 10; i++) {
+      schedule = scheduleReview(schedule, false, NOW);
+    }
+
+    expect(schedule.easeFactor).toBe(1.3);
+  });
+});
+
+describe('ReviewQueueService', () => {
+  describe('recordSubmission', () => {
+    it('should queue wrong answers from a regular test and ignore right ones', async () => {
+      const create = vi.fn();
+      const update = vi.fn();
+      const service = createService({
+        test: {
+          findUnique: vi.fn().mockResolvedValue({
+            userId: 'user-1',
+            isReview: false,
+            testQuestions: [scoredQuestion('q1', 'A'), scoredQuestion('q2', 'B'), scoredQuestion('q3', 'C')],
+          }),
+        },
+        reviewItem: { findMany: vi.fn().mockResolvedValue([]), create, update },
+      });
+
+      await service.recordSubmission(submission({ q1: 'A', q2: 'C' }), NOW);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', questionId: 'q2', dueAt: new Date(NOW.getTime() + DAY_MS) },
+      });
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should take correctness from the stored grades over the answer key', async () => {
+      const create = vi.fn();
+      const service = createService({
+        test: {
+          findUnique: vi.fn().mockResolvedValue({
+            userId: 'user-1',
+            isReview: false,
+            testQuestions: [scoredQuestion('q1', 'A'), scoredQuestion('q2', 'B')],
+          }),
+        },
+        reviewItem: { findMany: vi.fn().mockResolvedValue([]), create, update: vi.fn() },
+        responseGrade: {
+          findMany: vi.fn().mockResolvedValue([
+            { questionId: 'q1', isCorrect: false },
+            { questionId: 'q2', isCorrect: true },
+          ]),
+        },
+      });
+
+      await service.recordSubmission(submission({ q1: 'A', q2: 'b.' }), NOW);
+
+      expect(create).toHaveBeenCalledTimes(1);
+      expect(create.mock.calls[0][0].data.questionId).toBe('q1');
+    });
+
+    it('should reschedule every reviewed item after a review test', async () => {
+      const update = vi.fn();
+      const service = createService({
+        test: {
+          findUnique: vi.fn().mockResolvedValue({
+            userId: 'user-1',
+            isReview: true,
+            testQuestions: [scoredQuestion('q1', 'A'), scoredQuestion('q2', 'B')],
+          }),
+        },
+        reviewItem: {
+          findMany: vi.fn().mockResolvedValue([
+            { id: 'r1', questionId: 'q1', ...fresh, repetitions: 1, intervalDays: 1 },
+            { id: 'r2', questionId: 'q2', ...fresh, repetitions: 2, intervalDays: 6 },
+          ]),
+          create: vi.fn(),
+          update,
+        },
+      });
+
+      await service.recordSubmission(submission({ q1: 'A', q2: 'A' }), NOW);
+
+      expect(update).toHaveBeenCalledTimes(2);
+      expect(update.mock.calls[0][0]).toMatchObject({ where: { id: 'r1' }, data: { repetitions: 2, intervalDays: 6, lastReviewedAt: NOW } });
+      expect(update.mock.calls[1][0]).toMatchObject({ where: { id: 'r2' }, data: { repetitions: 0, intervalDays: 1 } });
+    });
+  });
+
+  describe('createDailyReview', () => {
+    it('should report when nothing is due', async () => {
+      const service = createService({
+        test: { findFirst: vi.fn().mockResolvedValue(null) },
+        reviewItem: { findMany: vi.fn().mockResolvedValue([]) },
+      });
+
+      const result = await service.createDailyReview('user-1', NOW);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('NothingDue');
+      }
+    });
+
+    it('should build an in-app review test from the due questions', async () => {
+      const create = vi.fn().mockResolvedValue({ id: 'review-test' });
+      const service = createService({
+        test: { findFirst: vi.fn().mockResolvedValue(null), create },
+        reviewItem: {
+          findMany: vi.fn().mockResolvedValue([
+            { questionId: 'q2', question: { topicId: 'fractions', topic: { subject: 'Mathematics' } } },
+            { questionId: 'q1', question: { topicId: 'decimals', topic: { subject: 'Mathematics' } } },
+          ]),
+        },
+      });
+
+      const result = await service.createDailyReview('user-1', NOW);
+
+      expect(result).toEqual({ ok: true, value: { testId: 'review-test', questionCount: 2, resumed: false } });
+      expect(create.mock.calls[0][0].data).toMatchObject({
+        userId: 'user-1',
+        subject: 'Mathematics',
+        mode: 'InAppExam',
+        isReview: true,
+        testQuestions: { create: [{ questionId: 'q2', order: 0 }, { questionId: 'q1', order: 1 }] },
+      });
+    });
+  });
+});
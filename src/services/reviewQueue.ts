@@ -0,0 +1,216 @@
+// Review Queue Service
+// Spaced-repetition (SM-2) review of questions the student answered incorrectly
+
+import { PrismaClient } from '@prisma/client';
+import {
+  UserId,
+  TestId,
+  QuestionType,
+  TestSubmission,
+  ReviewSchedule,
+  ReviewQueueSummary,
+  ReviewError,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { REVIEW_SESSION_SIZE } from '../lib/constants';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
+import { EvaluatorService } from './evaluator';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+
+// SM-2 answer quality (0-5) given to a right or wrong review answer
+const CORRECT_QUALITY = 4;
+const INCORRECT_QUALITY = 1;
+
+/**
+ * Next SM-2 schedule after a review answer
+ * A wrong answer starts the item over (due tomorrow); a right one moves it out to
+ * 1 day, then 6 days, then the previous interval times the ease factor
+ */
+export function scheduleReview(current: ReviewSchedule, correct: boolean, now: Date): ReviewSchedule {
+  const quality = correct ? CORRECT_QUALITY : INCORRECT_QUALITY;
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    current.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+  );
+
+  let repetitions = 0;
+  let intervalDays = 1;
+  if (correct) {
+    repetitions = current.repetitions + 1;
+    if (repetitions === 2) {
+      intervalDays = 6;
+    } else if (repetitions > 2) {
+      intervalDays = Math.round(current.intervalDays * current.easeFactor);
+    }
+  }
+
+  return {
+    easeFactor,
+    intervalDays,
+    repetitions,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+  };
+}
+
+export class ReviewQueueService {
+  private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
+
+  constructor(prisma: PrismaClient, evaluator: EvaluatorService) {
+    this.prisma = prisma;
+    this.evaluator = evaluator;
+  }
+
+  /**
+   * How many review items are due now, and when the next one comes up
+   */
+  async getSummary(userId: UserId, now: Date = new Date()): Promise<ReviewQueueSummary> {
+    const [dueCount, scheduledCount, next] = await Promise.all([
+      this.prisma.reviewItem.count({ where: { userId, dueAt: { lte: now } } }),
+      this.prisma.reviewItem.count({ where: { userId } }),
+      this.prisma.reviewItem.findFirst({
+        where: { userId, dueAt: { gt: now } },
+        orderBy: { dueAt: 'asc' },
+        select: { dueAt: true },
+      }),
+    ]);
+
+    return {
+      dueCount,
+      scheduledCount,
+      nextDueAt: next?.dueAt,
+    };
+  }
+
+  /**
+   * Today's review: an in-app exam of the due questions, most overdue first
+   * An unfinished review test is handed back rather than building a second one
+   */
+  async createDailyReview(
+    userId: UserId,
+    now: Date = new Date()
+  ): Promise<Result<{ testId: TestId; questionCount: number; resumed: boolean }, ReviewError>> {
+    const open = await this.prisma.test.findFirst({
+      where: { userId, isReview: true, status: { not: 'Submitted' } },
+      select: { id: true, testQuestions: { select: { id: true } } },
+    });
+    if (open) {
+      return Ok({ testId: open.id, questionCount: open.testQuestions.length, resumed: true });
+    }
+
+    const due: DueItemRow[] = await this.prisma.reviewItem.findMany({
+      where: { userId, dueAt: { lte: now } },
+      orderBy: { dueAt: 'asc' },
+      take: REVIEW_SESSION_SIZE,
+      select: {
+        questionId: true,
+        question: { select: { topicId: true, topic: { select: { subject: true } } } },
+      },
+    });
+    if (due.length === 0) {
+      return Err({ type: 'NothingDue' });
+    }
+
+    const subjects = new Set(due.map(item => item.question.topic.subject));
+    const topicIds = new Set(due.map(item => item.question.topicId));
+
+    const test = await this.prisma.test.create({
+      data: {
+        userId,
+        subject: subjects.size === 1 ? [...subjects][0] : 'Mixed',
+        topics: JSON.stringify([...topicIds]),
+        mode: 'InAppExam',
+        status: 'Generated',
+        isReview: true,
+        testQuestions: {
+          create: due.map((item, index) => ({ questionId: item.questionId, order: index })),
+        },
+      },
+    });
+
+    return Ok({ testId: test.id, questionCount: due.length, resumed: false });
+  }
+
+  /**
+   * Update review schedules from a submitted test
+   * Wrong answers in any test enter the queue (or start over); in a review test,
+   * right answers also push their items further out
+   */
+  async recordSubmission(submission: TestSubmission, now: Date = new Date()): Promise<void> {
+    const test = await this.prisma.test.findUnique({
+      where: { id: submission.testId },
+      select: {
+        userId: true,
+        isReview: true,
+        testQuestions: {
+          select: { question: { select: { id: true, correctAnswers: true, answerTolerance: true, questionType: true } } },
+        },
+      },
+    });
+    if (!test) {
+      return;
+    }
+
+    const testQuestions = test.testQuestions as Array<{ question: ScoredQuestionRow }>;
+    const items: ReviewItemRow[] = await this.prisma.reviewItem.findMany({
+      where: { userId: test.userId, questionId: { in: testQuestions.map(tq => tq.question.id) } },
+    });
+    const itemsByQuestion = new Map(items.map(item => [item.questionId, item]));
+    // How the evaluation marked each response; a test evaluated before grades were stored is re-marked
+    const grades: Array<{ questionId: string; isCorrect: boolean }> = await this.prisma.responseGrade.findMany({
+      where: { evaluation: { testId: submission.testId } },
+      select: { questionId: true, isCorrect: true },
+    });
+    const gradeMap = new Map(grades.map(grade => [grade.questionId, grade.isCorrect]));
+
+    for (const { question } of testQuestions) {
+      const response = submission.responses.get(question.id);
+      // Skipped questions only count against the schedule in a review
+      if (!response && !test.isReview) continue;
+
+      const isCorrect = gradeMap.get(question.id) ?? this.evaluator.scoreResponse(
+        response?.answer ?? '',
+        question.correctAnswers || '[]',
+        question.questionType as QuestionType,
+        1,
+        parseAnswerTolerance(question.answerTolerance)
+      ).isCorrect;
+
+      const item = itemsByQuestion.get(question.id);
+      if (!item) {
+        if (!isCorrect) {
+          await this.prisma.reviewItem.create({
+            data: {
+              userId: test.userId,
+              questionId: question.id,
+              dueAt: new Date(now.getTime() + DAY_MS),
+            },
+          });
+        }
+        continue;
+      }
+
+      if (isCorrect && !test.isReview) continue;
+
+      const next = scheduleReview(item, isCorrect, now);
+      await this.prisma.reviewItem.update({
+        where: { id: item.id },
+        data: { ...next, lastReviewedAt: now },
+      });
+    }
+  }
+}
+
+// Row shapes returned by the Prisma queries above
+type DueItemRow = {
+  questionId: string;
+  question: { topicId: string; topic: { subject: string } };
+};
+
+type ScoredQuestionRow = { id: string; correctAnswers: string; answerTolerance: string | null; questionType: string };
+
+type ReviewItemRow = ReviewSchedule & { id: string; questionId: string };
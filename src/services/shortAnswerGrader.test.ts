@@ -0,0 +1,133 @@
+// Short Answer Grader tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { ShortAnswerGraderService, gradeByKeywords, mentionsKeyword, answerWords } from './shortAnswerGrader';
+import { LLMProvider } from './llmProvider';
+import { Question, RubricPoint } from '../types';
+
+const rubric: RubricPoint[] = [
+  { point: 'Plants make their food using sunlight', marks: 2, keywords: ['sunlight/light', 'food'] },
+  { point: 'Carbon dioxide and water are used', marks: 1, keywords: ['carbon dioxide/CO2', 'water'] },
+  { point: 'Oxygen is released', marks: 1 },
+];
+
+const makeQuestion = (overrides: Partial<Question> = {}): Question => ({
+  questionId: 'q1',
+  topicId: 'topic1',
+  questionText: 'Describe photosynthesis.',
+  questionType: 'ShortAnswer',
+  correctAnswer: 'Plants use sunlight, carbon dioxide and water to make food and release oxygen',
+  rubric,
+  syllabusReference: 'Life processes',
+  difficulty: 'ExamRealistic',
+  createdAt: new Date(),
+  ...overrides,
+});
+
+const providerReturning = (content: string | Error): LLMProvider => ({
+  name: 'mock',
+  complete: content instanceof Error ? vi.fn().mockRejectedValue(content) : vi.fn().mockResolvedValue(content),
+} as unknown as LLMProvider);
+
+describe('mentionsKeyword', () => {
+  it('should match any synonym as a whole phrase, ignoring case and word endings', () => {
+    const words = answerWords('The leaf absorbs CO2 and Light');
+    expect(mentionsKeyword(words, 'sunlight/light')).toBe(true);
+    expect(mentionsKeyword(words, 'carbon dioxide/co2')).toBe(true);
+    expect(mentionsKeyword(words, 'absorbing')).toBe(true);
+    expect(mentionsKeyword(words, 'leaf absorbs water')).toBe(false);
+  });
+});
+
+describe('gradeByKeywords', () => {
+  it('should award the marks of each key point whose keywords the answer uses', () => {
+    const grade = gradeByKeywords(rubric, 'Leaves make food with light from the sun and give out oxygen', 4);
+
+    // "oxygen" alone is not most of the words of "Oxygen is released"
+    expect(grade.matchedPoints).toEqual([0]);
+    expect(grade.pointsEarned).toBe(2);
+    expect(grade.method).toBe('Keyword');
+  });
+
+  it('should need most of the words of a key point without keywords', () => {
+    const grade = gradeByKeywords(rubric, 'Light and food; oxygen is released', 4);
+
+    expect(grade.matchedPoints).toEqual([0, 2]);
+    expect(grade.pointsEarned).toBe(3);
+  });
+
+  it('should be less confident when an answer only partly makes a point', () => {
+    const clear = gradeByKeywords(rubric, 'Plants use sunlight, carbon dioxide and water to make food; oxygen is released', 4);
+    const partial = gradeByKeywords(rubric, 'Plants use water', 4);
+
+    expect(clear.pointsEarned).toBe(4);
+    expect(clear.confidence).toBeCloseTo(0.8);
+    expect(partial.pointsEarned).toBe(0);
+    expect(partial.confidence).toBeLessThan(0.7);
+  });
+});
+
+describe('ShortAnswerGraderService', () => {
+  it('should grade with the LLM and scale the rubric marks to the question marks', async () => {
+    const provider = providerReturning(JSON.stringify({ matchedPoints: [1, 3], confidence: 0.9, feedback: 'Say what is used.' }));
+    const grader = new ShortAnswerGraderService(provider);
+
+    const grade = await grader.gradeAnswer(makeQuestion(), 'Plants make food from light, releasing oxygen', 2);
+
+    expect(grade).toEqual({
+      pointsEarned: 1.5,
+      matchedPoints: [0, 2],
+      confidence: 0.9,
+      method: 'LLM',
+      feedback: 'Say what is used.',
+    });
+    const prompt = (provider.complete as any).mock.calls[0][0].messages[1].content;
+    expect(prompt).toContain('1. Plants make their food using sunlight [2 marks]');
+    expect(prompt).toContain('Plants make food from light, releasing oxygen');
+  });
+
+  it('should ignore key points the LLM invents and default its confidence', async () => {
+    const grader = new ShortAnswerGraderService(providerReturning(JSON.stringify({ matchedPoints: [2, 7, 0] })));
+
+    const grade = await grader.gradeAnswer(makeQuestion(), 'Uses carbon dioxide and water', 4);
+
+    expect(grade.matchedPoints).toEqual([1]);
+    expect(grade.pointsEarned).toBe(1);
+    expect(grade.confidence).toBe(0.5);
+  });
+
+  it('should fall back to keywords when the LLM fails or returns nonsense', async () => {
+    const answer = 'Plants make food using sunlight';
+    const failing = new ShortAnswerGraderService(providerReturning(new Error('rate limited')));
+    const garbled = new ShortAnswerGraderService(providerReturning('{"score": "high"}'));
+
+    const expected = gradeByKeywords(rubric, answer, 4);
+    expect(await failing.gradeAnswer(makeQuestion(), answer, 4)).toEqual(expected);
+    expect(await garbled.gradeAnswer(makeQuestion(), answer, 4)).toEqual(expected);
+  });
+
+  it('should give full marks to the model answer and none to a blank one without asking the LLM', async () => {
+    const provider = providerReturning('{}');
+    const grader = new ShortAnswerGraderService(provider);
+
+    const full = await grader.gradeAnswer(makeQuestion(), 'plants use sunlight carbon dioxide and water to make food and release oxygen.', 3);
+    const blank = await grader.gradeAnswer(makeQuestion(), '  ', 3);
+
+    expect(full).toMatchObject({ pointsEarned: 3, matchedPoints: [0, 1, 2], confidence: 1 });
+    expect(blank).toMatchObject({ pointsEarned: 0, matchedPoints: [], confidence: 1 });
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it('should mark a question without a rubric against its correct answer', async () => {
+    const grader = new ShortAnswerGraderService(null);
+
+    const grade = await grader.gradeAnswer(
+      makeQuestion({ rubric: undefined, correctAnswer: 'Evaporation of sea water' }),
+      'Sea water evaporates',
+      2
+    );
+
+    expect(grade.pointsEarned).toBe(2);
+    expect(grade.method).toBe('Keyword');
+  });
+});
@@ -0,0 +1,219 @@
+// Short Answer Grader implementation
+// Marks free-text ShortAnswer responses against the key points of their question's rubric,
+// with the LLM when one is configured and by keywords and their synonyms otherwise
+
+import { Question, RubricPoint, RubricGrade } from '../types';
+import { ShortAnswerGrader } from './interfaces';
+import { LLMProvider } from './llmProvider';
+import { mathToText } from '../lib/mathNotation';
+
+// Keyword marking cannot tell a point made from one merely mentioned, so even a clear-cut
+// keyword grade is less certain than an LLM's
+const KEYWORD_CONFIDENCE = 0.8;
+
+// Share of the words of a rubric point an answer must use when the point has no keywords
+const DERIVED_KEYWORD_SHARE = 2 / 3;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'into', 'is', 'it',
+  'its', 'of', 'on', 'or', 'so', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'to', 'was', 'were', 'which', 'with',
+]);
+
+/**
+ * Reduce a word to a rough stem so "absorbs", "absorbed" and "absorbing" match "absorb"
+ */
+function stem(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * The words of a piece of text, ignoring case, punctuation and LaTeX markup
+ */
+function plainWords(text: string): string[] {
+  return mathToText(text)
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * The stemmed words of a piece of text, as answers are compared
+ */
+export function answerWords(text: string): string[] {
+  return plainWords(text).map(stem);
+}
+
+/**
+ * Whether an answer uses a keyword, or one of its "/"-separated synonyms, as a whole phrase
+ */
+export function mentionsKeyword(words: string[], keyword: string): boolean {
+  return keyword.split('/').some(alternative => {
+    const phrase = answerWords(alternative);
+    if (phrase.length === 0) {
+      return false;
+    }
+    return words.some((_, start) => phrase.every((word, offset) => words[start + offset] === word));
+  });
+}
+
+/**
+ * Mark an answer by the keywords of each rubric point
+ * A point with keywords needs every one of them; a point without needs most of its own words.
+ * Points the answer plainly makes or plainly misses are clear-cut; the grade is as confident
+ * as the share of its points that were
+ */
+export function gradeByKeywords(rubric: RubricPoint[], answer: string, points: number): RubricGrade {
+  const words = answerWords(answer);
+  let clearCut = 0;
+
+  const matchedPoints = rubric.flatMap((rubricPoint, index) => {
+    const explicit = (rubricPoint.keywords ?? []).filter(keyword => keyword.trim());
+    const keywords = explicit.length > 0
+      ? explicit
+      : [...new Set(plainWords(rubricPoint.point).filter(word => !STOP_WORDS.has(word)))];
+    if (keywords.length === 0) {
+      return [];
+    }
+
+    const share = keywords.filter(keyword => mentionsKeyword(words, keyword)).length / keywords.length;
+    if (share === 0 || share === 1) {
+      clearCut++;
+    }
+    return share >= (explicit.length > 0 ? 1 : DERIVED_KEYWORD_SHARE) ? [index] : [];
+  });
+
+  return {
+    pointsEarned: scalePoints(rubric, matchedPoints, points),
+    matchedPoints,
+    confidence: KEYWORD_CONFIDENCE * (clearCut / rubric.length),
+    method: 'Keyword',
+  };
+}
+
+/**
+ * Marks for the rubric points made, scaled to the marks the question carries
+ */
+function scalePoints(rubric: RubricPoint[], matchedPoints: number[], points: number): number {
+  const rubricMarks = rubric.reduce((sum, rubricPoint) => sum + rubricPoint.marks, 0);
+  const earned = matchedPoints.reduce((sum, index) => sum + rubric[index].marks, 0);
+  return rubricMarks > 0 ? Math.round((earned / rubricMarks) * points * 100) / 100 : 0;
+}
+
+export class ShortAnswerGraderService implements ShortAnswerGrader {
+  private provider: LLMProvider | null;
+
+  constructor(provider: LLMProvider | null) {
+    this.provider = provider;
+  }
+
+  /**
+   * Grade a free-text answer out of points against the question's rubric
+   * A question without a rubric is marked as one key point: its correct answer.
+   * Answers matching a correct answer word for word get full marks without further checks
+   */
+  async gradeAnswer(question: Question, answer: string, points: number): Promise<RubricGrade> {
+    const rubric = question.rubric && question.rubric.length > 0
+      ? question.rubric
+      : [{ point: question.correctAnswer, marks: points }];
+
+    const given = answerWords(answer).join(' ');
+    if (!given) {
+      return { pointsEarned: 0, matchedPoints: [], confidence: 1, method: 'Keyword' };
+    }
+    const correctAnswers = question.correctAnswers ?? [question.correctAnswer];
+    if (correctAnswers.some(correct => answerWords(correct).join(' ') === given)) {
+      return { pointsEarned: points, matchedPoints: rubric.map((_, index) => index), confidence: 1, method: 'Keyword' };
+    }
+
+    const graded = this.provider ? await this.gradeWithLLM(question, rubric, answer, points) : null;
+    return graded ?? gradeByKeywords(rubric, answer, points);
+  }
+
+  /**
+   * Ask the LLM which rubric points the answer makes; null if it cannot say
+   */
+  private async gradeWithLLM(
+    question: Question,
+    rubric: RubricPoint[],
+    answer: string,
+    points: number
+  ): Promise<RubricGrade | null> {
+    try {
+      const responseContent = await this.provider!.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are an experienced school examiner marking written answers against a marking scheme. Credit a key point whenever the answer makes it, in any wording; ignore spelling and grammar unless they change the meaning. Never credit a point the answer does not make.',
+          },
+          {
+            role: 'user',
+            content: this.buildGradingPrompt(question, rubric, answer),
+          },
+        ],
+        temperature: 0,
+        maxTokens: 500,
+        jsonMode: true,
+      });
+
+      if (!responseContent) {
+        return null;
+      }
+
+      const parsedResponse = JSON.parse(responseContent);
+      if (!Array.isArray(parsedResponse.matchedPoints)) {
+        return null;
+      }
+
+      // Key points are numbered from 1 in the prompt
+      const matchedPoints = [...new Set<number>(parsedResponse.matchedPoints
+        .map((number: unknown) => Number(number) - 1)
+        .filter((index: number) => Number.isInteger(index) && index >= 0 && index < rubric.length))]
+        .sort((a, b) => a - b);
+      const confidence = typeof parsedResponse.confidence === 'number'
+        ? Math.min(Math.max(parsedResponse.confidence, 0), 1)
+        : 0.5;
+
+      return {
+        pointsEarned: scalePoints(rubric, matchedPoints, points),
+        matchedPoints,
+        confidence,
+        method: 'LLM',
+        feedback: typeof parsedResponse.feedback === 'string' && parsedResponse.feedback.trim()
+          ? parsedResponse.feedback.trim()
+          : undefined,
+      };
+    } catch (error) {
+      console.error('LLM grading failed, marking by keywords:', error);
+      return null;
+    }
+  }
+
+  private buildGradingPrompt(question: Question, rubric: RubricPoint[], answer: string): string {
+    return `Mark this student's answer.
+
+Question:
+${question.questionText}
+
+Model answer:
+${question.correctAnswer}
+
+Marking scheme (key points):
+${rubric.map((rubricPoint, index) => `${index + 1}. ${rubricPoint.point} [${rubricPoint.marks} ${rubricPoint.marks === 1 ? 'mark' : 'marks'}]`).join('\n')}
+
+Student's answer:
+${answer}
+
+Return a JSON object with this format:
+{
+  "matchedPoints": [numbers of the key points the answer makes],
+  "confidence": 0.0 to 1.0, how sure you are of the marking,
+  "feedback": "One or two sentences for the student on what the answer missed"
+}`;
+  }
+}
@@ -16,13 +16,23 @@ import {
   Ok,
   Err,
   Question,
+  DifficultyLevel,
+  TestMode,
+  QuestionType,
+  ResponseGrade,
+  ResponseGraderType,
 } from '../types';
+import { EvaluatorService } from './evaluator';
+import { answerParts, describeAnswer, isPartMarked, questionAnswerFields } from '../lib/questionFormats';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
 
 export class TestExecutionService {
   private prisma: PrismaClient;
+  private evaluator: EvaluatorService;
 
   constructor(prisma: PrismaClient) {
     this.prisma = prisma;
+    this.evaluator = new EvaluatorService(prisma);
   }
 
   /**
@@ -69,10 +79,10 @@ export class TestExecutionService {
       // }
 
       // Check if test is in correct mode for in-app exam
-      if (test.mode !== 'InAppExam') {
+      if (test.mode !== 'InAppExam' && test.mode !== 'Adaptive') {
         return Err({
           type: 'StartFailed',
-          reason: `Test mode is ${test.mode}, expected InAppExam`,
+          reason: `Test mode is ${test.mode}, expected InAppExam or Adaptive`,
         });
       }
 
@@ -156,7 +166,7 @@ export class TestExecutionService {
    */
   async getTestSession(
     sessionId: SessionId
-  ): Promise<Result<TestSession & { questions: Question[] }, StartError>> {
+  ): Promise<Result<TestSession & { questions: Question[]; mode: TestMode; questionLimit?: number; timerMinutes?: number }, StartError>> {
     try {
       const session = await this.prisma.testSession.findUnique({
         where: { id: sessionId },
@@ -166,7 +176,7 @@ export class TestExecutionService {
             include: {
               testQuestions: {
                 include: {
-                  question: true,
+                  question: { include: { group: true } },
                 },
                 orderBy: {
                   order: 'asc',
@@ -199,17 +209,23 @@ export class TestExecutionService {
         questionId: tq.question.id,
         topicId: tq.question.topicId,
         questionText: tq.question.questionText,
-        questionType: tq.question.questionType as 'MultipleChoice' | 'ShortAnswer' | 'Numerical',
+        questionType: tq.question.questionType as QuestionType,
         options: tq.question.options ? JSON.parse(tq.question.options) : undefined,
-        // Parse correctAnswers from JSON array and get first answer for compatibility
-        correctAnswer: (() => {
-          try {
-            const parsed = JSON.parse(tq.question.correctAnswers || '[]');
-            return Array.isArray(parsed) ? parsed[0] || '' : parsed;
-          } catch { return tq.question.correctAnswers || ''; }
-        })(),
+        matchItems: tq.question.matchItems ? JSON.parse(tq.question.matchItems) : undefined,
+        imageId: tq.question.imageId ?? undefined,
+        optionImageIds: tq.question.optionImageIds ? JSON.parse(tq.question.optionImageIds) : undefined,
+        // Parse correctAnswers from JSON array; the first answer, or every part for part-marked types
+        ...questionAnswerFields(
+          tq.question.questionType,
+          answerParts(tq.question.correctAnswers || '[]'),
+          tq.question.matchItems ? JSON.parse(tq.question.matchItems) : undefined
+        ),
         syllabusReference: tq.question.syllabusReference,
-        difficulty: 'ExamRealistic' as const,
+        difficulty: tq.question.difficulty as DifficultyLevel,
+        // Questions about a passage or case study are shown together with it
+        group: tq.question.group
+          ? { groupId: tq.question.group.id, stimulusText: tq.question.group.stimulusText, imageUrl: tq.question.group.imageUrl ?? undefined }
+          : undefined,
         createdAt: tq.question.createdAt,
       }));
 
@@ -222,6 +238,9 @@ export class TestExecutionService {
         responses,
         status: session.status as 'InProgress' | 'Submitted',
         questions,
+        mode: session.test.mode as TestMode,
+        questionLimit: session.test.questionLimit ?? undefined,
+        timerMinutes: session.test.timerMinutes ?? undefined,
       });
     } catch (error) {
       return Err({
@@ -433,14 +452,13 @@ export class TestExecutionService {
 
       const answerKey = new Map<QuestionId, string>();
       testQuestions.forEach(tq => {
-        // Parse correctAnswers from JSON array and get first answer
-        try {
-          const parsed = JSON.parse(tq.question.correctAnswers || '[]');
-          const answer = Array.isArray(parsed) ? parsed[0] || '' : parsed;
-          answerKey.set(tq.question.id, answer);
-        } catch {
-          answerKey.set(tq.question.id, tq.question.correctAnswers || '');
-        }
+        // The first correct answer, or a summary of every part for part-marked types
+        const { correctAnswer } = questionAnswerFields(
+          tq.question.questionType,
+          answerParts(tq.question.correctAnswers || '[]'),
+          tq.question.matchItems ? JSON.parse(tq.question.matchItems) : undefined
+        );
+        answerKey.set(tq.question.id, correctAnswer);
       });
 
       return Ok(answerKey);
@@ -469,7 +487,7 @@ export class TestExecutionService {
     correctAnswer: string;
     isCorrect: boolean;
     solutionSteps?: string[];
-  }>, SubmitError>> {
+  } & Partial<Pick<ResponseGrade, 'points' | 'pointsEarned' | 'grader' | 'feedback'>>>, SubmitError>> {
     try {
       // Verify test is submitted
       const session = await this.prisma.testSession.findFirst({
@@ -513,9 +531,15 @@ export class TestExecutionService {
         responseMap.set(r.questionId, r.userAnswer);
       });
 
+      // How the evaluation marked each response; tests evaluated before grades were stored are re-marked below
+      const responseGrades: ResponseGradeRow[] = await this.prisma.responseGrade.findMany({
+        where: { evaluation: { testId } },
+      });
+      const gradeMap = new Map(responseGrades.map(grade => [grade.questionId, grade]));
+
       // Build comparison array
       const comparison = testQuestions.map(tq => {
-        const userAnswer = responseMap.get(tq.question.id) || null;
+        let userAnswer = responseMap.get(tq.question.id) || null;
         // Parse correctAnswers from JSON array
         let correctAnswer: string;
         try {
@@ -524,9 +548,30 @@ export class TestExecutionService {
         } catch {
           correctAnswer = tq.question.correctAnswers || '';
         }
-        const isCorrect = userAnswer !== null &&
+        let isCorrect = userAnswer !== null &&
           this.normalizeAnswer(userAnswer) === this.normalizeAnswer(correctAnswer);
 
+        // Numerical answers are marked like the evaluator does, with the question's tolerance
+        const questionType = tq.question.questionType as QuestionType;
+        if (questionType === 'Numerical') {
+          isCorrect = userAnswer !== null && this.evaluator.scoreResponse(
+            userAnswer,
+            tq.question.correctAnswers || '[]',
+            questionType,
+            1,
+            parseAnswerTolerance(tq.question.answerTolerance)
+          ).isCorrect;
+        }
+
+        // Part-marked answers are lists; show both sides readably and mark them like the evaluator
+        if (isPartMarked(questionType)) {
+          const matchItems = tq.question.matchItems ? JSON.parse(tq.question.matchItems) : undefined;
+          correctAnswer = describeAnswer(questionType, answerParts(tq.question.correctAnswers || '[]'), matchItems);
+          isCorrect = userAnswer !== null
+            && this.evaluator.scoreResponse(userAnswer, tq.question.correctAnswers || '[]', questionType).isCorrect;
+          userAnswer = userAnswer !== null ? describeAnswer(questionType, answerParts(userAnswer), matchItems) : null;
+        }
+
         // Parse solution steps from JSON array
         let solutionSteps: string[] | undefined;
         try {
@@ -536,13 +581,20 @@ export class TestExecutionService {
           solutionSteps = undefined;
         }
 
+        const grade = gradeMap.get(tq.question.id);
         return {
           questionId: tq.question.id,
           questionText: tq.question.questionText,
           userAnswer,
           correctAnswer,
-          isCorrect,
+          isCorrect: grade ? grade.isCorrect : isCorrect,
           solutionSteps,
+          ...(grade && {
+            points: grade.points,
+            pointsEarned: grade.pointsEarned,
+            grader: grade.grader as ResponseGraderType,
+            feedback: grade.feedback ?? undefined,
+          }),
         };
       });
 
@@ -571,3 +623,13 @@ export class TestExecutionService {
     return withoutPrefix.trim().toLowerCase();
   }
 }
+
+// Row shapes returned by the Prisma queries above
+type ResponseGradeRow = {
+  questionId: string;
+  isCorrect: boolean;
+  points: number;
+  pointsEarned: number;
+  grader: string;
+  feedback: string | null;
+};
@@ -0,0 +1,103 @@
+// Test Export Service tests
+
+import { describe, it, expect, vi } from 'vitest';
+import { TestExportService } from './testExport';
+
+const testRow = {
+  id: 'test-1',
+  subject: 'Mathematics',
+  createdAt: new Date('2026-03-01T10:00:00Z'),
+  testQuestions: [
+    {
+      question: {
+        id: 'q1',
+        questionText: 'What is 1/2 + 1/4?',
+        questionType: 'MultipleChoice',
+        options: JSON.stringify(['1/4', '3/4']),
+        correctAnswers: JSON.stringify(['3/4']),
+        allowMultipleAnswers: false,
+        solutionSteps: '[]',
+        syllabusReference: 'Fractions',
+        difficulty: 'Foundation',
+        topic: { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' },
+      },
+    },
+  ],
+};
+
+describe('TestExportService', () => {
+  it('should export the test questions in paper order with their answer key', async () => {
+    const findUnique = vi.fn().mockResolvedValue(testRow);
+    const service = new TestExportService({ test: { findUnique } } as any);
+
+    const result = await service.exportTest('test-1', 'forms');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value.filename).toBe('test-test-1-forms.json');
+      expect(result.value.contentType).toBe('application/json');
+      const form = JSON.parse(result.value.body as string);
+      expect(form.info.title).toBe('Mathematics Test - 2026-03-01');
+      expect(form.items[0].questionItem.question.grading.correctAnswers.answers).toEqual([{ value: '3/4' }]);
+    }
+    expect(findUnique).toHaveBeenCalledWith(expect.objectContaining({
+      include: expect.objectContaining({
+        testQuestions: expect.objectContaining({ orderBy: { order: 'asc' } }),
+      }),
+    }));
+  });
+
+  it('should report a missing or empty test', async () => {
+    const findUnique = vi.fn()
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ ...testRow, testQuestions: [] });
+    const service = new TestExportService({ test: { findUnique } } as any);
+
+    expect(await service.exportTest('missing', 'qti')).toEqual({
+      ok: false,
+      error: { type: 'NotFound', testId: 'missing' },
+    });
+    expect(await service.exportTest('test-1', 'qti')).toEqual({
+      ok: false,
+      error: { type: 'EmptyTest', testId: 'test-1' },
+    });
+  });
+
+  it('should refuse to export question types the format cannot hold', async () => {
+    const ordering = {
+      ...testRow.testQuestions[0].question,
+      questionType: 'Ordering',
+      options: JSON.stringify(['3/4', '1/4']),
+      correctAnswers: JSON.stringify(['1/4', '3/4']),
+    };
+    const findUnique = vi.fn().mockResolvedValue({ ...testRow, testQuestions: [{ question: ordering }] });
+    const service = new TestExportService({ test: { findUnique } } as any);
+
+    expect(await service.exportTest('test-1', 'forms')).toEqual({
+      ok: false,
+      error: { type: 'UnsupportedQuestionType', format: 'forms', questionType: 'Ordering' },
+    });
+    expect((await service.exportTest('test-1', 'moodle')).ok).toBe(true);
+  });
+
+  it('should put a grouped question\'s passage before its text', async () => {
+    const grouped = {
+      ...testRow.testQuestions[0].question,
+      questionType: 'ShortAnswer',
+      questionText: 'Who sets out at dawn?',
+      options: null,
+      correctAnswers: JSON.stringify(['The fisherman']),
+      group: { stimulusText: 'The fisherman set out at dawn.\nThe sea was calm.' },
+    };
+    const findUnique = vi.fn().mockResolvedValue({ ...testRow, testQuestions: [{ question: grouped }] });
+    const service = new TestExportService({ test: { findUnique } } as any);
+
+    const result = await service.exportTest('test-1', 'forms');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const form = JSON.parse(result.value.body as string);
+      expect(form.items[0].title).toBe('The fisherman set out at dawn.\nThe sea was calm.\n\nWho sets out at dawn?');
+    }
+  });
+});
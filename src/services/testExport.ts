@@ -0,0 +1,136 @@
+// Test Export Service
+// Serializes a generated test and its answer key for other learning platforms:
+// IMS QTI 2.1 packages, Moodle XML, and Forms-style quiz JSON
+
+import { PrismaClient } from '@prisma/client';
+import {
+  TestId,
+  ExportFormat,
+  ExportableTest,
+  ExportedFile,
+  TestExportError,
+  QuestionType,
+  DifficultyLevel,
+  Result,
+  Ok,
+  Err,
+} from '../types';
+import { toQtiPackage, toMoodleXml, toFormsJson, unsupportedQuestionType } from './testExportFormats';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
+
+export class TestExportService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Export a test, questions in paper order, in the given format
+   */
+  async exportTest(testId: TestId, format: ExportFormat): Promise<Result<ExportedFile, TestExportError>> {
+    const test = await this.loadTest(testId);
+    if (!test) {
+      return Err({ type: 'NotFound', testId });
+    }
+    if (test.questions.length === 0) {
+      return Err({ type: 'EmptyTest', testId });
+    }
+    const questionType = unsupportedQuestionType(test, format);
+    if (questionType) {
+      return Err({ type: 'UnsupportedQuestionType', format, questionType });
+    }
+
+    switch (format) {
+      case 'qti':
+        return Ok({
+          filename: `test-${testId}-qti.zip`,
+          contentType: 'application/zip',
+          body: toQtiPackage(test),
+        });
+      case 'moodle':
+        return Ok({
+          filename: `test-${testId}-moodle.xml`,
+          contentType: 'application/xml',
+          body: toMoodleXml(test),
+        });
+      case 'forms':
+        return Ok({
+          filename: `test-${testId}-forms.json`,
+          contentType: 'application/json',
+          body: JSON.stringify(toFormsJson(test), null, 2),
+        });
+    }
+  }
+
+  private async loadTest(testId: TestId): Promise<ExportableTest | null> {
+    const test: TestRow | null = await this.prisma.test.findUnique({
+      where: { id: testId },
+      include: {
+        testQuestions: {
+          include: { question: { include: { topic: true, group: true } } },
+          orderBy: { order: 'asc' },
+        },
+      },
+    });
+    if (!test) {
+      return null;
+    }
+
+    return {
+      testId: test.id,
+      title: `${test.subject} Test - ${test.createdAt.toISOString().split('T')[0]}`,
+      questions: test.testQuestions.map(({ question }) => ({
+        questionId: question.id,
+        questionText: exportedQuestionText(question),
+        questionType: question.questionType as QuestionType,
+        options: question.options ? JSON.parse(question.options) : undefined,
+        matchItems: question.matchItems ? JSON.parse(question.matchItems) : undefined,
+        correctAnswers: JSON.parse(question.correctAnswers || '[]'),
+        answerTolerance: parseAnswerTolerance(question.answerTolerance),
+        allowMultipleAnswers: question.allowMultipleAnswers,
+        solutionSteps: JSON.parse(question.solutionSteps || '[]'),
+        syllabusReference: question.syllabusReference,
+        difficulty: question.difficulty as DifficultyLevel,
+        category: {
+          curriculum: question.topic.curriculum,
+          grade: question.topic.grade,
+          subject: question.topic.subject,
+          topicName: question.topic.topicName,
+        },
+      })),
+    };
+  }
+}
+
+/**
+ * Question text with its passage or case study first: other platforms can shuffle or
+ * draw a test's questions one at a time, so each exported question has to stand alone
+ */
+function exportedQuestionText(question: { questionText: string; group: { stimulusText: string } | null }): string {
+  return question.group ? `${question.group.stimulusText}\n\n${question.questionText}` : question.questionText;
+}
+
+// Row shapes returned by the Prisma queries above
+type TestRow = {
+  id: string;
+  subject: string;
+  createdAt: Date;
+  testQuestions: Array<{
+    question: {
+      id: string;
+      questionText: string;
+      questionType: string;
+      options: string | null;
+      matchItems: string | null;
+      correctAnswers: string;
+      answerTolerance: string | null;
+      allowMultipleAnswers: boolean;
+      solutionSteps: string;
+      syllabusReference: string;
+      difficulty: string;
+      topic: { curriculum: string; grade: number; subject: string; topicName: string };
+      group: { stimulusText: string } | null;
+    };
+  }>;
+};
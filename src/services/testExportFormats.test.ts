@@ -0,0 +1,198 @@
+// Test Export Format tests
+// Exports are read back with the question importer's parsers to check nothing is lost
+
+import { describe, it, expect } from 'vitest';
+import { toQtiPackage, toQtiItem, toMoodleXml, toFormsJson } from './testExportFormats';
+import { parseMoodleXml, parseQti } from './questionImportParsers';
+import { readZip } from '../lib/zip';
+import { ExportableTest, ExportQuestion } from '../types';
+
+const fractions = { curriculum: 'CBSE', grade: 8, subject: 'Mathematics', topicName: 'Fractions' };
+const decimals = { ...fractions, topicName: 'Decimals' };
+
+const question = (overrides: Partial<ExportQuestion>): ExportQuestion => ({
+  questionId: 'q1',
+  questionText: 'What is 1/2 + 1/4?',
+  questionType: 'MultipleChoice',
+  options: ['1/4', '2/6', '3/4'],
+  correctAnswers: ['3/4'],
+  allowMultipleAnswers: false,
+  solutionSteps: ['Write 1/2 as 2/4', 'Add the numerators'],
+  syllabusReference: 'Fractions',
+  difficulty: 'ExamRealistic',
+  category: fractions,
+  ...overrides,
+});
+
+const test: ExportableTest = {
+  testId: 'test-1',
+  title: 'Mathematics Test - 2026-03-01',
+  questions: [
+    question({}),
+    question({
+      questionId: 'q2',
+      questionText: 'Which are equivalent to 1/2?\nChoose all that apply',
+      options: ['2/4', '3/6', 'x < 1/3 & y > 1'],
+      correctAnswers: ['2/4', '3/6'],
+      allowMultipleAnswers: true,
+      solutionSteps: [],
+    }),
+    question({
+      questionId: 'q3',
+      questionText: 'Write 3/4 as a decimal',
+      questionType: 'Numerical',
+      options: undefined,
+      correctAnswers: ['0.75'],
+      category: decimals,
+    }),
+    question({
+      questionId: 'q4',
+      questionText: 'What is the top of a fraction called?',
+      questionType: 'ShortAnswer',
+      options: undefined,
+      correctAnswers: ['numerator'],
+      category: decimals,
+    }),
+  ],
+};
+
+// Part-marked questions, which Moodle and QTI have their own question types for
+const partMarked: ExportableTest = {
+  ...test,
+  questions: [
+    question({
+      questionId: 'q5',
+      questionText: 'Match each fraction to its decimal',
+      questionType: 'Matching',
+      matchItems: ['1/2', '1/4'],
+      options: ['0.5', '0.25', '0.75'],
+      correctAnswers: ['0.5', '0.25'],
+    }),
+    question({
+      questionId: 'q6',
+      questionText: 'Order from smallest to largest',
+      questionType: 'Ordering',
+      options: ['3/4', '1/4', '1/2'],
+      correctAnswers: ['1/4', '1/2', '3/4'],
+    }),
+    question({
+      questionId: 'q7',
+      questionText: 'The top of a fraction is the _____ and the bottom is the _____.',
+      questionType: 'FillInBlank',
+      options: undefined,
+      correctAnswers: ['numerator', 'denominator|divisor'],
+    }),
+  ],
+};
+
+// The fields every format carries
+const answerKey = (questions: Array<Omit<ExportQuestion, 'questionId' | 'category'>>) =>
+  questions.map(q => ({
+    questionText: q.questionText,
+    questionType: q.questionType,
+    options: q.options,
+    matchItems: q.matchItems,
+    correctAnswers: q.correctAnswers,
+    allowMultipleAnswers: q.allowMultipleAnswers,
+  }));
+
+describe('toMoodleXml', () => {
+  it('should round-trip through the Moodle XML importer with topics and solutions', () => {
+    const { questions, issues } = parseMoodleXml(toMoodleXml(test));
+
+    expect(issues).toEqual([]);
+    expect(answerKey(questions)).toEqual(answerKey(test.questions));
+    expect(questions.map(q => q.category)).toEqual(test.questions.map(q => q.category));
+    expect(questions.map(q => q.solutionSteps)).toEqual(test.questions.map(q => q.solutionSteps));
+  });
+
+  it('should round-trip matching, ordering and fill-in-the-blank questions', () => {
+    const xml = toMoodleXml(partMarked);
+    const { questions, issues } = parseMoodleXml(xml);
+
+    expect(xml).toContain('<question type="matching">');
+    expect(xml).toContain('<question type="ordering">');
+    expect(xml).toContain('{1:SHORTANSWER:=denominator~=divisor}');
+    expect(issues).toEqual([]);
+    expect(answerKey(questions)).toEqual(answerKey(partMarked.questions));
+  });
+
+  it('should export a fraction answer to a numerical question as short answer', () => {
+    const xml = toMoodleXml({
+      ...test,
+      questions: [question({ questionType: 'Numerical', options: undefined, correctAnswers: ['3/4'] })],
+    });
+
+    expect(xml).toContain('<question type="shortanswer">');
+  });
+
+  it('should carry a numerical tolerance through Moodle as an absolute one', () => {
+    const exported = (answerTolerance: ExportQuestion['answerTolerance']) => parseMoodleXml(toMoodleXml({
+      ...test,
+      questions: [question({ questionType: 'Numerical', options: undefined, correctAnswers: ['250'], answerTolerance })],
+    })).questions[0].answerTolerance;
+
+    expect(exported({ type: 'Absolute', amount: 0.5 })).toEqual({ type: 'Absolute', amount: 0.5 });
+    expect(exported({ type: 'Relative', amount: 0.02 })).toEqual({ type: 'Absolute', amount: 5 });
+    expect(exported({ type: 'SignificantFigures', figures: 2 })).toBeUndefined();
+  });
+});
+
+describe('toQtiPackage', () => {
+  it('should build a content package whose items round-trip through the QTI importer', () => {
+    const entries = readZip(toQtiPackage(test));
+    expect(entries.ok).toBe(true);
+    if (!entries.ok) return;
+
+    const names = entries.value.map(entry => entry.name);
+    expect(names).toEqual([
+      'imsmanifest.xml',
+      'assessmentTest.xml',
+      'items/item-1.xml',
+      'items/item-2.xml',
+      'items/item-3.xml',
+      'items/item-4.xml',
+    ]);
+
+    const manifest = entries.value[0].content.toString('utf-8');
+    expect(manifest).toContain('type="imsqti_item_xmlv2p1" href="items/item-4.xml"');
+
+    const parsed = entries.value
+      .filter(entry => entry.name.startsWith('items/'))
+      .map(entry => parseQti(entry.content.toString('utf-8')));
+    expect(parsed.flatMap(result => result.issues)).toEqual([]);
+    expect(answerKey(parsed.flatMap(result => result.questions))).toEqual(answerKey(test.questions));
+  });
+
+  it('should write matching, ordering and fill-in-the-blank interactions that round-trip', () => {
+    const items = partMarked.questions.map((q, index) => toQtiItem(q, `item-${index + 1}`, `Question ${index + 1}`));
+
+    expect(items[0]).toContain('<matchInteraction');
+    expect(items[0]).toContain('<value>L1 R1</value><value>L2 R2</value>');
+    expect(items[1]).toContain('<orderInteraction');
+    expect(items[2]).toContain('<mapEntry mapKey="divisor" mappedValue="1" caseSensitive="false"/>');
+
+    const parsed = items.map(item => parseQti(item));
+    expect(parsed.flatMap(result => result.issues)).toEqual([]);
+    expect(answerKey(parsed.flatMap(result => result.questions))).toEqual(answerKey(partMarked.questions));
+  });
+});
+
+describe('toFormsJson', () => {
+  it('should write choice and text questions with their correct answers', () => {
+    const form = toFormsJson(test);
+
+    expect(form.info.title).toBe(test.title);
+    expect(form.settings.quizSettings.isQuiz).toBe(true);
+    expect(form.items).toHaveLength(4);
+    expect(form.items[1].questionItem.question).toMatchObject({
+      questionId: 'q2',
+      choiceQuestion: { type: 'CHECKBOX', options: [{ value: '2/4' }, { value: '3/6' }, { value: 'x < 1/3 & y > 1' }] },
+      grading: { pointValue: 1, correctAnswers: { answers: [{ value: '2/4' }, { value: '3/6' }] } },
+    });
+    expect(form.items[0].questionItem.question.grading.generalFeedback).toEqual({
+      text: 'Write 1/2 as 2/4\nAdd the numerators',
+    });
+    expect(form.items[2].questionItem.question.textQuestion).toEqual({ paragraph: false });
+  });
+});
@@ -0,0 +1,418 @@
+// Test Export Formats
+// Write a test and its answer key as an IMS QTI 2.1 content package, Moodle XML, or the
+// quiz JSON used by Google Forms-style importers. Each format can be read back by the
+// question importer (questionImportParsers.ts)
+
+import { ExportableTest, ExportFormat, ExportQuestion, QuestionType } from '../types';
+import { escapeXml } from '../lib/xml';
+import { createZip } from '../lib/zip';
+import { blankAlternatives, splitAtBlanks } from '../lib/questionFormats';
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = `${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const QTI_MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/**
+ * A question whose answer is not a plain decimal number (e.g. "3/4") is exported as a text
+ * answer, since neither QTI float responses nor Moodle numerical questions can hold it
+ */
+function isNumericAnswer(question: ExportQuestion): boolean {
+  return question.questionType === 'Numerical'
+    && question.correctAnswers.every(answer => answer.trim() !== '' && Number.isFinite(Number(answer)));
+}
+
+// True/false questions are exported as two-option choice questions
+function isChoiceQuestion(question: ExportQuestion): boolean {
+  return question.questionType === 'MultipleChoice' || question.questionType === 'TrueFalse';
+}
+
+function lines(text: string): string[] {
+  return text.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+// Forms quizzes only have choice and text questions
+const FORMS_QUESTION_TYPES: QuestionType[] = ['MultipleChoice', 'TrueFalse', 'ShortAnswer', 'Numerical'];
+
+/**
+ * The first question type in the test that the format has no way to write, if any
+ */
+export function unsupportedQuestionType(test: ExportableTest, format: ExportFormat): QuestionType | null {
+  if (format !== 'forms') {
+    return null;
+  }
+  return test.questions.find(question => !FORMS_QUESTION_TYPES.includes(question.questionType))?.questionType ?? null;
+}
+
+// ============================================================================
+// IMS QTI 2.1
+// ============================================================================
+
+/**
+ * QTI 2.1 content package: one assessmentItem per question, an assessmentTest that lists
+ * them in order, and the imsmanifest.xml that ties the package together
+ */
+export function toQtiPackage(test: ExportableTest): Buffer {
+  const items = test.questions.map((question, index) => ({
+    identifier: `item-${index + 1}`,
+    href: `items/item-${index + 1}.xml`,
+    xml: toQtiItem(question, `item-${index + 1}`, `Question ${index + 1}`),
+  }));
+  const testHref = 'assessmentTest.xml';
+
+  const assessmentTest = [
+    XML_DECLARATION,
+    `<assessmentTest xmlns="${QTI_NAMESPACE}" identifier="test-${escapeXml(test.testId)}" title="${escapeXml(test.title)}">`,
+    '  <testPart identifier="part-1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    '    <assessmentSection identifier="section-1" title="Questions" visible="true">',
+    ...items.map(item => `      <assessmentItemRef identifier="${item.identifier}" href="${item.href}"/>`),
+    '    </assessmentSection>',
+    '  </testPart>',
+    '</assessmentTest>',
+    '',
+  ].join('\n');
+
+  const manifest = [
+    XML_DECLARATION,
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="manifest-${escapeXml(test.testId)}">`,
+    '  <organizations/>',
+    '  <resources>',
+    `    <resource identifier="test" type="imsqti_test_xmlv2p1" href="${testHref}">`,
+    `      <file href="${testHref}"/>`,
+    ...items.map(item => `      <dependency identifierref="${item.identifier}"/>`),
+    '    </resource>',
+    ...items.flatMap(item => [
+      `    <resource identifier="${item.identifier}" type="imsqti_item_xmlv2p1" href="${item.href}">`,
+      `      <file href="${item.href}"/>`,
+      '    </resource>',
+    ]),
+    '  </resources>',
+    '</manifest>',
+    '',
+  ].join('\n');
+
+  return createZip([
+    { name: 'imsmanifest.xml', content: manifest },
+    { name: testHref, content: assessmentTest },
+    ...items.map(item => ({ name: item.href, content: item.xml })),
+  ]);
+}
+
+export function toQtiItem(question: ExportQuestion, identifier: string, title: string): string {
+  let paragraphs = lines(question.questionText).map(line => `    <p>${escapeXml(line)}</p>`);
+  let processing = [`  <responseProcessing template="${QTI_MATCH_CORRECT}"/>`];
+  const isChoice = isChoiceQuestion(question);
+  const choiceIds = (question.options ?? []).map((_, index) => String.fromCharCode(65 + index));
+
+  let declaration: string[];
+  let interaction: string[];
+  if (isChoice) {
+    const options = question.options ?? [];
+    const correct = question.correctAnswers
+      .map(answer => choiceIds[options.indexOf(answer)])
+      .filter(Boolean);
+    const cardinality = question.allowMultipleAnswers ? 'multiple' : 'single';
+    declaration = [
+      `  <responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">`,
+      `    <correctResponse>${correct.map(id => `<value>${id}</value>`).join('')}</correctResponse>`,
+      '  </responseDeclaration>',
+    ];
+    interaction = [
+      `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${question.allowMultipleAnswers ? 0 : 1}">`,
+      ...options.map((option, index) =>
+        `      <simpleChoice identifier="${choiceIds[index]}">${escapeXml(option)}</simpleChoice>`
+      ),
+      '    </choiceInteraction>',
+    ];
+  } else if (question.questionType === 'Matching') {
+    // Items are the source set (L1, L2, ...) and options the target set (R1, R2, ...)
+    const items = question.matchItems ?? [];
+    const options = question.options ?? [];
+    const pairs = question.correctAnswers.map((answer, index) => `L${index + 1} R${options.indexOf(answer) + 1}`);
+    declaration = [
+      '  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">',
+      `    <correctResponse>${pairs.map(pair => `<value>${pair}</value>`).join('')}</correctResponse>`,
+      '  </responseDeclaration>',
+    ];
+    interaction = [
+      `    <matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${items.length}">`,
+      '      <simpleMatchSet>',
+      ...items.map((item, index) =>
+        `        <simpleAssociableChoice identifier="L${index + 1}" matchMax="1">${escapeXml(item)}</simpleAssociableChoice>`
+      ),
+      '      </simpleMatchSet>',
+      '      <simpleMatchSet>',
+      ...options.map((option, index) =>
+        `        <simpleAssociableChoice identifier="R${index + 1}" matchMax="${items.length}">${escapeXml(option)}</simpleAssociableChoice>`
+      ),
+      '      </simpleMatchSet>',
+      '    </matchInteraction>',
+    ];
+  } else if (question.questionType === 'Ordering') {
+    const options = question.options ?? [];
+    const correct = question.correctAnswers.map(answer => choiceIds[options.indexOf(answer)]);
+    declaration = [
+      '  <responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">',
+      `    <correctResponse>${correct.map(id => `<value>${id}</value>`).join('')}</correctResponse>`,
+      '  </responseDeclaration>',
+    ];
+    interaction = [
+      '    <orderInteraction responseIdentifier="RESPONSE" shuffle="false">',
+      ...options.map((option, index) =>
+        `      <simpleChoice identifier="${choiceIds[index]}">${escapeXml(option)}</simpleChoice>`
+      ),
+      '    </orderInteraction>',
+    ];
+  } else if (question.questionType === 'FillInBlank') {
+    // Each blank is a text entry in the sentence, scored one mark per blank; every
+    // accepted alternative is mapped so any of them earns the mark
+    let blank = 0;
+    paragraphs = lines(question.questionText).map(line => {
+      const [first, ...rest] = splitAtBlanks(line).map(piece => escapeXml(piece));
+      const entries = rest.map(piece =>
+        `<textEntryInteraction responseIdentifier="RESPONSE_${++blank}" expectedLength="15"/>${piece}`
+      );
+      return `    <p>${first}${entries.join('')}</p>`;
+    });
+    declaration = question.correctAnswers.flatMap((answer, index) => {
+      const alternatives = blankAlternatives(answer);
+      return [
+        `  <responseDeclaration identifier="RESPONSE_${index + 1}" cardinality="single" baseType="string">`,
+        `    <correctResponse><value>${escapeXml(alternatives[0] ?? '')}</value></correctResponse>`,
+        '    <mapping defaultValue="0">',
+        ...alternatives.map(alternative =>
+          `      <mapEntry mapKey="${escapeXml(alternative)}" mappedValue="1" caseSensitive="false"/>`
+        ),
+        '    </mapping>',
+        '  </responseDeclaration>',
+      ];
+    });
+    interaction = [];
+    processing = [
+      '  <responseProcessing>',
+      '    <setOutcomeValue identifier="SCORE">',
+      '      <sum>',
+      ...question.correctAnswers.map((_, index) => `        <mapResponse identifier="RESPONSE_${index + 1}"/>`),
+      '      </sum>',
+      '    </setOutcomeValue>',
+      '  </responseProcessing>',
+    ];
+  } else {
+    const baseType = isNumericAnswer(question) ? 'float' : 'string';
+    declaration = [
+      `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="${baseType}">`,
+      `    <correctResponse><value>${escapeXml(question.correctAnswers[0] ?? '')}</value></correctResponse>`,
+      '  </responseDeclaration>',
+    ];
+    interaction = ['    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="20"/></p>'];
+  }
+
+  return [
+    XML_DECLARATION,
+    `<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"`,
+    `  xsi:schemaLocation="${QTI_SCHEMA}"`,
+    `  identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">`,
+    ...declaration,
+    '  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    '  <itemBody>',
+    ...paragraphs,
+    ...interaction,
+    '  </itemBody>',
+    ...processing,
+    '</assessmentItem>',
+    '',
+  ].join('\n');
+}
+
+// ============================================================================
+// Moodle XML
+// ============================================================================
+
+/**
+ * Moodle XML quiz; a category entry before each run of questions from the same topic
+ * lets the importer put them back under that topic
+ */
+export function toMoodleXml(test: ExportableTest): string {
+  const parts = [XML_DECLARATION, '<quiz>'];
+  let currentCategory = '';
+
+  test.questions.forEach((question, index) => {
+    const { curriculum, grade, subject, topicName } = question.category;
+    const category = `$course$/top/${curriculum}/Class ${grade}/${subject}/${topicName}`;
+    if (category !== currentCategory) {
+      currentCategory = category;
+      parts.push(
+        '  <question type="category">',
+        `    <category><text>${escapeXml(category)}</text></category>`,
+        '  </question>'
+      );
+    }
+    parts.push(...toMoodleQuestion(question, `Question ${index + 1}`));
+  });
+
+  parts.push('</quiz>', '');
+  return parts.join('\n');
+}
+
+function toMoodleQuestion(question: ExportQuestion, name: string): string[] {
+  const html = (text: string) => escapeXml(lines(text).map(line => `<p>${escapeXml(line)}</p>`).join(''));
+  // Answers are HTML too, so that text such as "x < 5" survives Moodle and the importer unchanged
+  const answer = (fraction: string, text: string, extra = '') =>
+    `    <answer fraction="${fraction}" format="html"><text>${escapeXml(escapeXml(text))}</text>${extra}</answer>`;
+
+  let type: string;
+  let body: string[];
+  let questionText = question.questionText;
+  if (isChoiceQuestion(question)) {
+    const options = question.options ?? [];
+    const correct = question.correctAnswers;
+    // Moodle weights each right answer of a multiple-answer question by its share of the mark
+    const share = question.allowMultipleAnswers && correct.length > 0
+      ? String(Math.round((100 / correct.length) * 100000) / 100000)
+      : '100';
+    type = 'multichoice';
+    body = [
+      `    <single>${question.allowMultipleAnswers ? 'false' : 'true'}</single>`,
+      '    <shuffleanswers>false</shuffleanswers>',
+      '    <answernumbering>ABCD</answernumbering>',
+      ...options.map(option => answer(correct.includes(option) ? share : '0', option)),
+    ];
+  } else if (question.questionType === 'Matching') {
+    // Options no item matches are written as subquestions with no text
+    const items = question.matchItems ?? [];
+    const extras = (question.options ?? []).filter(option => !question.correctAnswers.includes(option));
+    const subquestion = (text: string, match: string) =>
+      `    <subquestion format="html"><text>${html(text)}</text><answer><text>${escapeXml(match)}</text></answer></subquestion>`;
+    type = 'matching';
+    body = [
+      '    <shuffleanswers>true</shuffleanswers>',
+      ...items.map((item, index) => subquestion(item, question.correctAnswers[index] ?? '')),
+      ...extras.map(extra => subquestion('', extra)),
+    ];
+  } else if (question.questionType === 'Ordering') {
+    // Items are listed as the student sees them; each fraction is the item's place in the right order
+    type = 'ordering';
+    body = [
+      '    <layouttype>VERTICAL</layouttype>',
+      '    <selecttype>ALL</selecttype>',
+      '    <selectcount>0</selectcount>',
+      '    <gradingtype>ABSOLUTE_POSITION</gradingtype>',
+      ...(question.options ?? []).map(option => answer(String(question.correctAnswers.indexOf(option) + 1), option)),
+    ];
+  } else if (question.questionType === 'FillInBlank') {
+    // Each blank becomes an embedded short answer ({1:SHORTANSWER:=...}) of a Cloze question
+    const [first, ...rest] = splitAtBlanks(question.questionText);
+    questionText = first + rest.map((piece, index) => clozeBlank(question.correctAnswers[index] ?? '') + piece).join('');
+    type = 'cloze';
+    body = [];
+  } else if (isNumericAnswer(question)) {
+    type = 'numerical';
+    body = question.correctAnswers.map(value =>
+      answer('100', value, `<tolerance>${moodleTolerance(question, Number(value))}</tolerance>`)
+    );
+  } else {
+    type = 'shortanswer';
+    body = ['    <usecase>0</usecase>', ...question.correctAnswers.map(value => answer('100', value))];
+  }
+
+  return [
+    `  <question type="${type}">`,
+    `    <name><text>${escapeXml(name)}</text></name>`,
+    `    <questiontext format="html"><text>${html(questionText)}</text></questiontext>`,
+    `    <generalfeedback format="html"><text>${html(question.solutionSteps.join('\n'))}</text></generalfeedback>`,
+    '    <defaultgrade>1</defaultgrade>',
+    ...body,
+    '  </question>',
+  ];
+}
+
+/**
+ * A blank as a Cloze short answer; its accepted alternatives are each marked fully correct
+ */
+function clozeBlank(answer: string): string {
+  const alternatives = blankAlternatives(answer).map(alternative => `=${alternative.replace(/[\\}#~\/"]/g, '\\$&')}`);
+  return `{1:SHORTANSWER:${alternatives.join('~')}}`;
+}
+
+/**
+ * Moodle tolerances are absolute: a relative tolerance is worked out from the answer, and a
+ * significant-figures one has no equivalent
+ */
+function moodleTolerance(question: ExportQuestion, value: number): number {
+  switch (question.answerTolerance?.type) {
+    case 'Absolute':
+      return question.answerTolerance.amount;
+    case 'Relative':
+      return Number((question.answerTolerance.amount * Math.abs(value)).toPrecision(12));
+    default:
+      return 0;
+  }
+}
+
+// ============================================================================
+// Forms-style quiz JSON
+// ============================================================================
+
+// The subset of the Google Forms API form resource used for quizzes
+export type FormsQuiz = {
+  info: { title: string; documentTitle: string };
+  settings: { quizSettings: { isQuiz: true } };
+  items: FormsQuizItem[];
+};
+
+export type FormsQuizItem = {
+  itemId: string;
+  title: string;
+  questionItem: {
+    question: {
+      questionId: string;
+      required: boolean;
+      grading: {
+        pointValue: number;
+        correctAnswers: { answers: Array<{ value: string }> };
+        generalFeedback?: { text: string };
+      };
+      choiceQuestion?: {
+        type: 'RADIO' | 'CHECKBOX';
+        options: Array<{ value: string }>;
+        shuffle: boolean;
+      };
+      textQuestion?: { paragraph: boolean };
+    };
+  };
+};
+
+export function toFormsJson(test: ExportableTest): FormsQuiz {
+  return {
+    info: { title: test.title, documentTitle: test.title },
+    settings: { quizSettings: { isQuiz: true } },
+    items: test.questions.map((question, index): FormsQuizItem => {
+      const solution = question.solutionSteps.join('\n');
+      const isChoice = isChoiceQuestion(question);
+      return {
+        itemId: `item-${index + 1}`,
+        title: question.questionText,
+        questionItem: {
+          question: {
+            questionId: question.questionId,
+            required: true,
+            grading: {
+              pointValue: 1,
+              correctAnswers: { answers: question.correctAnswers.map(value => ({ value })) },
+              ...(solution ? { generalFeedback: { text: solution } } : {}),
+            },
+            ...(isChoice
+              ? {
+                  choiceQuestion: {
+                    type: question.allowMultipleAnswers ? 'CHECKBOX' : 'RADIO',
+                    options: (question.options ?? []).map(value => ({ value })),
+                    shuffle: false,
+                  },
+                }
+              : { textQuestion: { paragraph: false } }),
+          },
+        },
+      };
+    }),
+  };
+}
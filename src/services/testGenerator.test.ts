@@ -2,7 +2,7 @@
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { TestGeneratorService } from './testGenerator';
-import { TestConfiguration, Question, Ok, Err } from '../types';
+import { TestConfiguration, PaperBlueprint, Question, Ok, Err } from '../types';
 
 describe('TestGeneratorService - Configuration Validation', () => {
   // Create a mock Prisma client
@@ -444,7 +444,8 @@ describe('TestGeneratorService - Test Generation Orchestration', () => {
       expect(mockRagRetriever.retrieveQuestions).toHaveBeenCalledWith(
         ['topic1'],
         5,
-        []
+        [],
+        { topic1: 'ExamRealistic' }
       );
       expect(result.ok).toBe(true);
     });
@@ -620,6 +621,39 @@ describe('TestGeneratorService - Test Generation Orchestration', () => {
         });
       }
     });
+
+
+    it('should reject questions that are not at the selected difficulty', async () => {
+      const config: TestConfiguration = {
+        subject: 'Mathematics',
+        topics: ['topic1'],
+        questionCount: 1,
+        testCount: 1,
+        testMode: 'InAppExam',
+        difficulty: 'Challenge',
+      };
+
+      mockPrisma.syllabusTopic.findMany.mockResolvedValue([{ id: 'topic1' }]);
+      mockPrisma.question.count.mockResolvedValue(10);
+      mockRagRetriever.retrieveQuestions.mockResolvedValue(Ok([{
+        questionId: 'q1',
+        topicId: 'topic1',
+        questionText: 'Question 1',
+        questionType: 'MultipleChoice',
+        correctAnswer: 'A',
+        syllabusReference: 'Section 1.1',
+        difficulty: 'ExamRealistic',
+        createdAt: new Date(),
+      }]));
+
+      const result = await testGenerator.generateTests(config, 'user-123');
+
+      expect(mockRagRetriever.retrieveQuestions.mock.calls[0][3]).toEqual({ topic1: 'Challenge' });
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.type).toBe('GenerationFailed');
+      }
+    });
   });
 
   describe('generateTests - Question Uniqueness (Requirement 4.4)', () => {
@@ -691,7 +725,8 @@ describe('TestGeneratorService - Test Generation Orchestration', () => {
           1,
           ['topic1'],
           2,
-          []
+          [],
+          { topic1: 'ExamRealistic' }
         );
         
         // Second call should exclude first test's questions
@@ -699,7 +734,8 @@ describe('TestGeneratorService - Test Generation Orchestration', () => {
           2,
           ['topic1'],
           2,
-          ['q1', 'q2']
+          ['q1', 'q2'],
+          { topic1: 'ExamRealistic' }
         );
         
         // Third call should exclude first and second test's questions
@@ -707,12 +743,72 @@ describe('TestGeneratorService - Test Generation Orchestration', () => {
           3,
           ['topic1'],
           2,
-          ['q1', 'q2', 'q3', 'q4']
+          ['q1', 'q2', 'q3', 'q4'],
+          { topic1: 'ExamRealistic' }
         );
       }
     });
   });
 
+  describe('generateTests - Resumed Jobs', () => {
+    it('should keep clear of the questions in tests saved before the job stopped', async () => {
+      const config: TestConfiguration = {
+        subject: 'Mathematics',
+        topics: ['topic1'],
+        questionCount: 1,
+        testCount: 2,
+        testMode: 'InAppExam',
+      };
+      const savedQuestion = {
+        id: 'q1',
+        topicId: 'topic1',
+        questionText: 'Question 1',
+        questionType: 'MultipleChoice',
+        options: null,
+        matchItems: null,
+        imageId: null,
+        optionImageIds: null,
+        correctAnswers: JSON.stringify(['A']),
+        answerTolerance: null,
+        rubric: null,
+        syllabusReference: 'Section 1.1',
+        difficulty: 'ExamRealistic',
+        createdAt: new Date(),
+      };
+
+      mockPrisma.syllabusTopic.findMany.mockResolvedValue([{ id: 'topic1' }]);
+      mockPrisma.question.count.mockResolvedValue(10);
+      mockPrisma.question.findMany = vi.fn().mockResolvedValue([savedQuestion]);
+      mockPrisma.test.findMany = vi.fn().mockResolvedValue([{ poolQuestionIds: null, testQuestions: [{ questionId: 'q1' }] }]);
+      mockPrisma.test.create.mockResolvedValue({ id: 'test-2' });
+      mockPrisma.testQuestion.create.mockResolvedValue({ id: 'tq-1' });
+      mockRagRetriever.retrieveQuestions.mockResolvedValue(Ok([{
+        questionId: 'q2',
+        topicId: 'topic1',
+        questionText: 'Question 2',
+        questionType: 'MultipleChoice',
+        correctAnswer: 'B',
+        syllabusReference: 'Section 1.1',
+        difficulty: 'ExamRealistic',
+        createdAt: new Date(),
+      }]));
+
+      const result = await testGenerator.generateTests(config, 'user-123', {
+        completedTestCount: 1,
+        completedTestIds: ['test-1'],
+      });
+
+      expect(result.ok).toBe(true);
+      expect(mockPrisma.test.findMany.mock.calls[0][0].where).toEqual({ id: { in: ['test-1'] } });
+      expect(mockRagRetriever.retrieveQuestions).toHaveBeenCalledWith(
+        ['topic1'],
+        1,
+        ['q1'],
+        { topic1: 'ExamRealistic' }
+      );
+    });
+  });
+
   describe('generateTests - Answer Key Generation (Requirement 4.5)', () => {
     it('should generate answer keys with correct answers for each question', async () => {
       const config: TestConfiguration = {
@@ -857,6 +953,37 @@ describe('TestGeneratorService - Test Generation Orchestration', () => {
         },
       });
     });
+
+    it('should persist the difficulty a retry regenerates the test at', async () => {
+      const config: TestConfiguration = {
+        subject: 'Mathematics',
+        topics: ['topic1'],
+        questionCount: 1,
+        testCount: 1,
+        testMode: 'PrintablePDF',
+        difficulty: 'Foundation',
+      };
+
+      mockPrisma.syllabusTopic.findMany.mockResolvedValue([{ id: 'topic1' }]);
+      mockPrisma.question.count.mockResolvedValue(10);
+      mockRagRetriever.retrieveQuestions.mockResolvedValue(Ok([{
+        questionId: 'q1',
+        topicId: 'topic1',
+        questionText: 'Question 1',
+        questionType: 'MultipleChoice',
+        correctAnswer: 'A',
+        syllabusReference: 'Section 1.1',
+        difficulty: 'Foundation',
+        createdAt: new Date(),
+      }]));
+      mockPrisma.test.create.mockResolvedValue({ id: 'test-123' });
+      mockPrisma.testQuestion.create.mockResolvedValue({ id: 'tq-1' });
+
+      const result = await testGenerator.generateTests(config, 'user-456');
+
+      expect(result.ok).toBe(true);
+      expect(mockPrisma.test.create.mock.calls[0][0].data).toMatchObject({ difficulty: 'Foundation', blueprint: undefined });
+    });
   });
 
   describe('generateTests - Error Handling', () => {
@@ -1596,7 +1723,7 @@ describe('TestGeneratorService - LLM Fallback Integration (Task 7.3)', () => {
 // ============================================================================
 
 import * as fc from 'fast-check';
-import { calculateBalancedDistribution } from './testGenerator';
+import { calculateBalancedDistribution, calculateBlueprintDistribution } from './testGenerator';
 
 describe('TestGeneratorService - Balanced Distribution (P1 Improvements)', () => {
   describe('Property Tests', () => {
@@ -1735,6 +1862,19 @@ describe('TestGeneratorService - Balanced Distribution (P1 Improvements)', () =>
       expect(distribution[0].questionCount).toBe(10);
     });
 
+    it('should count a passage group within the topic share it fits in', () => {
+      const topics = [
+        { topicId: 'topic1', topicName: 'Topic 1' },
+        { topicId: 'topic2', topicName: 'Topic 2' },
+      ];
+
+      const distribution = calculateBalancedDistribution(topics, 9, 4);
+
+      expect(distribution.map(t => t.questionCount)).toEqual([5, 4]);
+      expect(distribution.map(t => t.groupQuestionCount)).toEqual([4, 4]);
+      expect(calculateBalancedDistribution(topics, 6, 4).map(t => t.groupQuestionCount)).toEqual([0, 0]);
+    });
+
     it('should handle empty topics array', () => {
       const distribution = calculateBalancedDistribution([], 10);
       expect(distribution).toHaveLength(0);
@@ -1776,3 +1916,396 @@ describe('TestGeneratorService - Balanced Distribution (P1 Improvements)', () =>
     });
   });
 });
+
+describe('TestGeneratorService - Answer Verification', () => {
+  let mockPrisma: any;
+  let mockRagRetriever: any;
+  let mockLlmGenerator: any;
+  let mockAnswerVerifier: any;
+
+  const makeQuestion = (questionId: string, correctAnswer: string): Question => ({
+    questionId,
+    topicId: 'topic1',
+    questionText: `Question ${questionId}`,
+    questionType: 'Numerical',
+    correctAnswer,
+    solutionSteps: ['Step 1'],
+    syllabusReference: 'Section 1.1',
+    difficulty: 'ExamRealistic',
+    createdAt: new Date(),
+  });
+
+  const config: TestConfiguration = {
+    subject: 'Mathematics',
+    topics: ['topic1'],
+    questionCount: 3,
+    testCount: 1,
+    testMode: 'InAppExam',
+  };
+
+  beforeEach(() => {
+    mockPrisma = {
+      syllabusTopic: {
+        findMany: vi.fn().mockResolvedValue([{ id: 'topic1', topicName: 'Arithmetic' }]),
+        findUnique: vi.fn().mockResolvedValue({ id: 'topic1' }),
+      },
+      question: {
+        upsert: vi.fn().mockResolvedValue({}),
+        create: vi.fn().mockResolvedValue({}),
+      },
+      test: {
+        create: vi.fn().mockResolvedValue({ id: 'test-id' }),
+      },
+      testQuestion: {
+        create: vi.fn().mockResolvedValue({}),
+      },
+    };
+
+    mockRagRetriever = {
+      retrieveQuestions: vi.fn(),
+      indexQuestion: vi.fn().mockResolvedValue(Ok(undefined)),
+      getSyllabusContext: vi.fn().mockResolvedValue({
+        topicId: 'topic1',
+        content: 'Arithmetic: operations on numbers',
+        relatedConcepts: [],
+      }),
+    };
+
+    mockLlmGenerator = {
+      generateQuestions: vi.fn(),
+      validateSyllabusAlignment: vi.fn(),
+    };
+
+    // Answers of "wrong" disagree with the independent solution
+    mockAnswerVerifier = {
+      verifyAnswer: vi.fn(async (question: Question) => ({
+        questionId: question.questionId,
+        status: question.correctAnswer === 'wrong' ? 'Disagreed' : 'Agreed',
+        method: 'LLM',
+        verifiedAnswer: question.correctAnswer === 'wrong' ? '2' : question.correctAnswer,
+      })),
+    };
+  });
+
+  it('should regenerate questions whose answers disagree before persisting', async () => {
+    mockLlmGenerator.generateQuestions
+      .mockResolvedValueOnce(Ok([makeQuestion('q1', '1'), makeQuestion('q2', 'wrong'), makeQuestion('q3', '3')]))
+      .mockResolvedValueOnce(Ok([makeQuestion('q4', '4')]));
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator, mockAnswerVerifier);
+
+    const result = await testGenerator.generateTests(config, 'user-123');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0].questions.map(q => q.questionId)).toEqual(['q1', 'q3', 'q4']);
+    }
+    expect(mockLlmGenerator.generateQuestions).toHaveBeenCalledTimes(2);
+    expect(mockLlmGenerator.generateQuestions.mock.calls[1][1]).toBe(1);
+    const persistedIds = mockPrisma.testQuestion.create.mock.calls.map((call: any) => call[0].data.questionId);
+    expect(persistedIds).not.toContain('q2');
+  });
+
+  it('should keep regenerating until the answers verify and keep the rest for an admin to check', async () => {
+    mockLlmGenerator.generateQuestions
+      .mockResolvedValueOnce(Ok([makeQuestion('q1', '1'), makeQuestion('q2', 'wrong'), makeQuestion('q3', '3')]))
+      .mockResolvedValueOnce(Ok([makeQuestion('q4', 'wrong')]))
+      .mockResolvedValueOnce(Ok([makeQuestion('q5', '5')]));
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator, mockAnswerVerifier);
+
+    const result = await testGenerator.generateTests(config, 'user-123');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0].questions.map(q => q.questionId)).toEqual(['q1', 'q3', 'q5']);
+      expect(result.value[0].answerVerification).toEqual({
+        droppedCount: 0,
+        disagreements: [
+          { questionId: 'q2', questionText: 'Question q2', statedAnswer: 'wrong', verifiedAnswer: '2', method: 'LLM' },
+          { questionId: 'q4', questionText: 'Question q4', statedAnswer: 'wrong', verifiedAnswer: '2', method: 'LLM' },
+        ],
+      });
+    }
+    const held = mockPrisma.question.create.mock.calls.map((call: any) => call[0].data);
+    expect(held.map((data: any) => data.id)).toEqual(['q2', 'q4']);
+    expect(held[0]).toMatchObject({ status: 'Rejected', correctAnswers: '["wrong"]' });
+    expect(held[0].reviewNote).toContain('independently solved as 2');
+  });
+
+  it('should fail rather than save a short test when no replacement verifies', async () => {
+    let replacement = 0;
+    mockLlmGenerator.generateQuestions
+      .mockResolvedValueOnce(Ok([makeQuestion('q1', '1'), makeQuestion('q2', 'wrong'), makeQuestion('q3', '3')]))
+      .mockImplementation(async () => Ok([makeQuestion(`r${++replacement}`, 'wrong')]));
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator, mockAnswerVerifier);
+
+    const result = await testGenerator.generateTests(config, 'user-123');
+
+    expect(result).toMatchObject({ ok: false, error: { type: 'GenerationFailed' } });
+    if (!result.ok && result.error.type === 'GenerationFailed') {
+      expect(result.error.message).toContain('Could not generate 1 of the 3 questions');
+    }
+    expect(mockLlmGenerator.generateQuestions).toHaveBeenCalledTimes(4);
+    expect(mockPrisma.test.create).not.toHaveBeenCalled();
+    const held = mockPrisma.question.create.mock.calls.map((call: any) => call[0].data.id);
+    expect(held).toEqual(['q2', 'r1', 'r2', 'r3']);
+  });
+
+  it('should skip verification for non-math subjects', async () => {
+    mockLlmGenerator.generateQuestions.mockResolvedValue(
+      Ok([makeQuestion('q1', 'wrong'), makeQuestion('q2', 'wrong'), makeQuestion('q3', 'wrong')])
+    );
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator, mockAnswerVerifier);
+
+    const result = await testGenerator.generateTests({ ...config, subject: 'English' }, 'user-123');
+
+    expect(result.ok).toBe(true);
+    expect(mockAnswerVerifier.verifyAnswer).not.toHaveBeenCalled();
+  });
+});
+
+describe('TestGeneratorService - Difficulty Levels', () => {
+  it('should ask the generator for each topic at its own difficulty', async () => {
+    const mockPrisma: any = {
+      syllabusTopic: {
+        findMany: vi.fn().mockResolvedValue([
+          { id: 'topic1', topicName: 'Fractions' },
+          { id: 'topic2', topicName: 'Decimals' },
+        ]),
+        findUnique: vi.fn().mockResolvedValue({ id: 'topic1' }),
+      },
+      question: { upsert: vi.fn().mockResolvedValue({}) },
+      test: { create: vi.fn().mockResolvedValue({ id: 'test-id' }) },
+      testQuestion: { create: vi.fn().mockResolvedValue({}) },
+    };
+    const mockRagRetriever: any = {
+      retrieveQuestions: vi.fn(),
+      indexQuestion: vi.fn().mockResolvedValue(Ok(undefined)),
+      getSyllabusContext: vi.fn(async (topicId: string) => ({ topicId, content: topicId, relatedConcepts: [] })),
+    };
+    const mockLlmGenerator: any = {
+      generateQuestions: vi.fn(async (context: any, count: number, _existing: Question[], _subject: string, _mode: string, difficulty: string) =>
+        Ok([{
+          questionId: `${context.topicId}-q`,
+          topicId: context.topicId,
+          questionText: `Question on ${context.topicId}`,
+          questionType: 'MultipleChoice',
+          correctAnswer: 'A',
+          syllabusReference: 'Section 1.1',
+          difficulty,
+          createdAt: new Date(),
+        }].slice(0, count))
+      ),
+      validateSyllabusAlignment: vi.fn(),
+    };
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator);
+
+    const result = await testGenerator.generateTests({
+      subject: 'English',
+      topics: ['topic1', 'topic2'],
+      questionCount: 2,
+      testCount: 1,
+      testMode: 'InAppExam',
+      difficulty: 'Challenge',
+      topicDifficulties: { topic1: 'Foundation' },
+    }, 'user-123');
+
+    expect(result.ok).toBe(true);
+    expect(mockLlmGenerator.generateQuestions.mock.calls.map((call: any[]) => call[5])).toEqual(['Foundation', 'Challenge']);
+    expect(mockPrisma.question.upsert.mock.calls[0][0].create.difficulty).toBe('Foundation');
+  });
+});
+
+describe('TestGeneratorService - Paper Blueprints', () => {
+  const topics = [
+    { topicId: 'topic1', topicName: 'Fractions' },
+    { topicId: 'topic2', topicName: 'Decimals' },
+  ];
+
+  const blueprint: PaperBlueprint = {
+    sections: [
+      { section: 'A', questionType: 'MultipleChoice', questionCount: 3, marks: 1 },
+      { section: 'B', questionType: 'ShortAnswer', questionCount: 1, marks: 2 },
+      { section: 'C', questionType: 'Numerical', questionCount: 1, marks: 5 },
+    ],
+  };
+
+  const config: TestConfiguration = {
+    subject: 'English',
+    topics: ['topic1', 'topic2'],
+    questionCount: 5,
+    testCount: 1,
+    testMode: 'PrintablePDF',
+    blueprint,
+  };
+
+  const createMockPrisma = (): any => ({
+    syllabusTopic: {
+      findMany: vi.fn().mockResolvedValue([
+        { id: 'topic1', topicName: 'Fractions' },
+        { id: 'topic2', topicName: 'Decimals' },
+      ]),
+      findUnique: vi.fn().mockResolvedValue({ id: 'topic1' }),
+    },
+    question: { upsert: vi.fn().mockResolvedValue({}) },
+    test: { create: vi.fn().mockResolvedValue({ id: 'test-id' }) },
+    testQuestion: { create: vi.fn().mockResolvedValue({}) },
+  });
+
+  const mockRagRetriever: any = {
+    retrieveQuestions: vi.fn(),
+    indexQuestion: vi.fn().mockResolvedValue(Ok(undefined)),
+    getSyllabusContext: vi.fn(async (topicId: string) => ({ topicId, content: topicId, relatedConcepts: [] })),
+  };
+
+  it('should spread each section over the topics, rotating which topic gets the remainder', () => {
+    const distribution = calculateBlueprintDistribution(topics, blueprint);
+
+    expect(distribution.map(t => t.sectionQuestionCounts)).toEqual([
+      { A: 2, B: 0, C: 1 },
+      { A: 1, B: 1, C: 0 },
+    ]);
+    expect(distribution.map(t => t.questionCount)).toEqual([3, 2]);
+  });
+
+  it('should share the marks between the topics by the blueprint\'s weightage', () => {
+    const weighted: PaperBlueprint = {
+      sections: [
+        { section: 'A', questionType: 'MultipleChoice', questionCount: 4, marks: 1 },
+        { section: 'B', questionType: 'ShortAnswer', questionCount: 2, marks: 4 },
+      ],
+      // Weights match by the start of a topic name, in any case
+      topicWeights: { fractions: 3, Decimals: 1 },
+    };
+
+    const distribution = calculateBlueprintDistribution(
+      [{ topicId: 'topic1', topicName: 'Fractions and Ratios' }, ...topics.slice(1)],
+      weighted
+    );
+
+    // 8 of the 12 marks for Fractions, 4 for Decimals
+    expect(distribution.map(t => t.sectionQuestionCounts)).toEqual([
+      { A: 4, B: 1 },
+      { A: 0, B: 1 },
+    ]);
+    // A topic without a weight gets the average of the others
+    const unweighted = calculateBlueprintDistribution(
+      [...topics, { topicId: 'topic3', topicName: 'Percentages' }],
+      { sections: [{ section: 'A', questionType: 'MultipleChoice', questionCount: 6, marks: 1 }], topicWeights: { Fractions: 4, Decimals: 2 } }
+    );
+    expect(unweighted.map(t => t.questionCount)).toEqual([3, 1, 2]);
+  });
+
+  it('should reject blueprints that do not describe the test', async () => {
+    const testGenerator = new TestGeneratorService(createMockPrisma(), mockRagRetriever, {} as any);
+    const reasons = async (changes: Partial<TestConfiguration>) => {
+      const result = await testGenerator.validateConfiguration({ ...config, ...changes });
+      return result.ok ? undefined : result.error.type === 'InvalidBlueprint' && result.error.message;
+    };
+
+    expect(await reasons({})).toBeUndefined();
+    expect(await reasons({ questionCount: 6 })).toBe('Blueprint sections have 5 questions, but the test has 6');
+    expect(await reasons({ testMode: 'Adaptive' })).toMatch(/cannot follow a blueprint/);
+    expect(await reasons({ testMode: 'InAppExam' })).toBe('Section B asks for ShortAnswer questions, which online exams cannot mark');
+    expect(await reasons({
+      blueprint: { sections: [blueprint.sections[0], { ...blueprint.sections[1], section: 'A' }, blueprint.sections[2]] },
+    })).toBe('Section A appears more than once in the blueprint');
+    expect(await reasons({
+      blueprint: { sections: [{ ...blueprint.sections[0], marks: 1.5, questionCount: 5 }] },
+    })).toBe('Section A must carry a positive whole number of marks per question');
+  });
+
+  it('should generate each section in its own type and print the paper in section order', async () => {
+    const mockPrisma = createMockPrisma();
+    const mockLlmGenerator: any = {
+      generateQuestions: vi.fn(async (context: any, count: number, _existing: Question[], _subject: string, _mode: string, difficulty: string, questionType: string) =>
+        Ok(Array.from({ length: count }, (_, index) => ({
+          questionId: `${context.topicId}-${questionType}-${index}`,
+          topicId: context.topicId,
+          questionText: `${questionType} question on ${context.topicId}`,
+          questionType,
+          correctAnswer: '1',
+          syllabusReference: 'Section 1.1',
+          difficulty,
+          createdAt: new Date(),
+        })))
+      ),
+      generateQuestionGroup: vi.fn(),
+      validateSyllabusAlignment: vi.fn(),
+    };
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator);
+
+    const result = await testGenerator.generateTests(config, 'user-123');
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0].questions.map(q => [q.questionId, q.section, q.marks])).toEqual([
+        ['topic1-MultipleChoice-0', 'A', 1],
+        ['topic1-MultipleChoice-1', 'A', 1],
+        ['topic2-MultipleChoice-0', 'A', 1],
+        ['topic2-ShortAnswer-0', 'B', 2],
+        ['topic1-Numerical-0', 'C', 5],
+      ]);
+    }
+    // English papers have passages, but a blueprint asks for one question type per section
+    expect(mockLlmGenerator.generateQuestionGroup).not.toHaveBeenCalled();
+    expect(mockPrisma.testQuestion.create.mock.calls.map((call: any[]) => call[0].data)).toContainEqual({
+      testId: 'test-id',
+      questionId: 'topic1-Numerical-0',
+      order: 4,
+      marks: 5,
+      section: 'C',
+    });
+  });
+
+  it('should print the paper without a section it could not fill and report the shortfall', async () => {
+    const mockPrisma = createMockPrisma();
+    const mockLlmGenerator: any = {
+      generateQuestions: vi.fn(async (context: any, count: number, _existing: Question[], _subject: string, _mode: string, difficulty: string, questionType: string) =>
+        questionType === 'Numerical'
+          ? Err({ type: 'GenerationFailed', message: 'Provider timed out' })
+          : Ok(Array.from({ length: count }, (_, index) => ({
+              questionId: `${context.topicId}-${questionType}-${index}`,
+              topicId: context.topicId,
+              questionText: `${questionType} question on ${context.topicId}`,
+              questionType,
+              correctAnswer: '1',
+              syllabusReference: 'Section 1.1',
+              difficulty,
+              createdAt: new Date(),
+            })))
+      ),
+      validateSyllabusAlignment: vi.fn(),
+    };
+    const testGenerator = new TestGeneratorService(mockPrisma, mockRagRetriever, mockLlmGenerator);
+
+    const result = await testGenerator.generateTests(
+      { ...config, blueprint: { ...blueprint, durationMinutes: 90 } },
+      'user-123'
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.value[0].questions.map(q => q.section)).toEqual(['A', 'A', 'A', 'B']);
+      expect(result.value[0].unfilledSections).toEqual([
+        { section: 'C', requested: 1, filled: 0, reason: 'Fractions: Provider timed out' },
+      ]);
+    }
+    // The paper's time allowed becomes the test's timer
+    expect(mockPrisma.test.create.mock.calls[0][0].data.timerMinutes).toBe(90);
+  });
+
+  it('should fail when no section of the paper could be filled', async () => {
+    const mockLlmGenerator: any = {
+      generateQuestions: vi.fn().mockResolvedValue(Err({ type: 'GenerationFailed', message: 'Provider timed out' })),
+      validateSyllabusAlignment: vi.fn(),
+    };
+    const testGenerator = new TestGeneratorService(createMockPrisma(), mockRagRetriever, mockLlmGenerator);
+
+    const result = await testGenerator.generateTests(config, 'user-123');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.type).toBe('GenerationFailed');
+    }
+  });
+});
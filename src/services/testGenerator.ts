@@ -8,14 +8,28 @@ import {
   TopicId,
   Question,
   QuestionId,
+  QuestionType,
+  DifficultyLevel,
+  PaperBlueprint,
+  SectionShortfall,
+  AnswerVerification,
+  AnswerDisagreement,
+  TestMode,
+  SyllabusContext,
   Result,
   ConfigurationError,
   GenerationError,
   Ok,
   Err,
 } from '../types';
-import { RAGRetriever, QuestionGenerator } from './interfaces';
+import { RAGRetriever, QuestionGenerator, AnswerVerifier } from './interfaces';
+import { isMathSubject, questionGroupStimulus } from './llmQuestionGenerator';
+import { ONLINE_EXAM_TYPES } from './generatedQuestionValidator';
 import { generateQuestionPaper, generateAnswerKey } from './pdfGenerator';
+import { QuestionImageService } from './questionImages';
+import { ANSWER_REGENERATION_ATTEMPTS, DIFFICULTY_LEVELS, QUESTIONS_PER_GROUP } from '../lib/constants';
+import { answerParts, parseRubric, questionAnswerFields } from '../lib/questionFormats';
+import { parseAnswerTolerance } from '../lib/numericAnswers';
 
 /**
  * Topic distribution for balanced question allocation
@@ -24,6 +38,26 @@ export interface TopicDistribution {
   topicId: TopicId;
   topicName: string;
   questionCount: number;
+  /** How many of questionCount are asked about one passage or case study */
+  groupQuestionCount?: number;
+  /** How many of questionCount come from each blueprint section, by section name */
+  sectionQuestionCounts?: Record<string, number>;
+}
+
+/**
+ * Hooks for observing and resuming test generation
+ * Used by the background job queue to report progress and checkpoint work
+ */
+export interface GenerationHooks {
+  /** Tests already produced by an earlier run; generation continues after them */
+  completedTestCount?: number;
+  /** IDs of those tests, whose questions are not repeated in the rest of the batch */
+  completedTestIds?: TestId[];
+  /** Questions already generated for the next test, keyed by topic ID */
+  completedTopics?: Map<TopicId, Question[]>;
+  onTestStarted?(testIndex: number, distribution: TopicDistribution[]): Promise<void>;
+  onTopicCompleted?(testIndex: number, topicId: TopicId, questions: Question[]): Promise<void>;
+  onTestCompleted?(testIndex: number, test: MockTest): Promise<void>;
 }
 
 /**
@@ -32,6 +66,7 @@ export interface TopicDistribution {
  * 
  * @param topics - Array of topics with their IDs and names
  * @param totalQuestions - Total number of questions to distribute
+ * @param questionsPerGroup - Size of a passage or case-study group, if the subject uses them
  * @returns Array of TopicDistribution with balanced question counts
  * 
  * Algorithm:
@@ -39,10 +74,13 @@ export interface TopicDistribution {
  * - Calculate remainder: totalQuestions % topicCount
  * - Assign base questions to all topics
  * - Distribute remainder questions one per topic to first N topics
+ * - A topic with room for a whole group takes one; its sub-questions count towards
+ *   the topic's questions like any other, and a group is never split across topics
  */
 export function calculateBalancedDistribution(
   topics: Array<{ topicId: TopicId; topicName: string }>,
-  totalQuestions: number
+  totalQuestions: number,
+  questionsPerGroup: number = 0
 ): TopicDistribution[] {
   const topicCount = topics.length;
   
@@ -61,26 +99,249 @@ export function calculateBalancedDistribution(
   const baseQuestionsPerTopic = Math.floor(totalQuestions / topicCount);
   const remainder = totalQuestions % topicCount;
   
-  return topics.map((topic, index) => ({
+  return topics.map((topic, index) => {
+    const questionCount = baseQuestionsPerTopic + (index < remainder ? 1 : 0);
+    return {
+      topicId: topic.topicId,
+      topicName: topic.topicName,
+      questionCount,
+      ...(questionsPerGroup > 0
+        ? { groupQuestionCount: questionCount >= questionsPerGroup ? questionsPerGroup : 0 }
+        : {}),
+    };
+  });
+}
+
+/**
+ * Calculate the distribution of a blueprint paper's questions across topics
+ * Each topic's share of the paper's marks follows the blueprint's topic weightage, or is
+ * equal without one. Questions are handed out in section order, each to the topic furthest
+ * short of its share of the marks, so the topics given a section's remainder rotate from
+ * one section to the next rather than the first topic taking an extra question from every
+ * section
+ */
+export function calculateBlueprintDistribution(
+  topics: Array<{ topicId: TopicId; topicName: string }>,
+  blueprint: PaperBlueprint
+): TopicDistribution[] {
+  const distribution: TopicDistribution[] = topics.map(topic => ({
     topicId: topic.topicId,
     topicName: topic.topicName,
-    questionCount: baseQuestionsPerTopic + (index < remainder ? 1 : 0),
+    questionCount: 0,
+    sectionQuestionCounts: {},
   }));
+  if (distribution.length === 0) {
+    return [];
+  }
+
+  const weights = topicWeightage(topics, blueprint.topicWeights);
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const totalMarks = blueprint.sections.reduce((sum, section) => sum + section.questionCount * section.marks, 0);
+  const shortfall = weights.map(weight => (weight / totalWeight) * totalMarks);
+
+  for (const section of blueprint.sections) {
+    distribution.forEach(topicDist => {
+      topicDist.sectionQuestionCounts![section.section] = 0;
+    });
+
+    for (let n = 0; n < section.questionCount; n++) {
+      // The first of the topics furthest short of its marks takes the question
+      const index = shortfall.reduce((best, value, i) => (value > shortfall[best] + 1e-9 ? i : best), 0);
+      distribution[index].sectionQuestionCounts![section.section]++;
+      distribution[index].questionCount++;
+      shortfall[index] -= section.marks;
+    }
+  }
+
+  return distribution;
+}
+
+/**
+ * Weightage of each topic from a blueprint's weights, matched by topic name or the start of
+ * one regardless of case; topics no weight matches get the average of those that do
+ */
+function topicWeightage(
+  topics: Array<{ topicName: string }>,
+  topicWeights: Record<string, number> = {}
+): number[] {
+  const entries = Object.entries(topicWeights).map(([name, weight]) => [name.trim().toLowerCase(), weight] as const);
+  const matched = topics.map(topic => {
+    const name = topic.topicName.trim().toLowerCase();
+    // The longest matching key is the most specific, e.g. "Biology - Cells" over "Biology"
+    const match = entries
+      .filter(([key]) => name === key || name.startsWith(key))
+      .sort((a, b) => b[0].length - a[0].length)[0];
+    return match?.[1];
+  });
+
+  const known = matched.filter((weight): weight is number => weight !== undefined);
+  const fallback = known.length > 0 ? known.reduce((sum, weight) => sum + weight, 0) / known.length : 1;
+  return matched.map(weight => weight ?? fallback);
+}
+
+/**
+ * Put questions in the order of their blueprint sections, keeping each section's
+ * questions in the order they were generated
+ */
+function orderBySection(questions: Question[], blueprint: PaperBlueprint): Question[] {
+  return blueprint.sections.flatMap(section => questions.filter(q => q.section === section.section));
+}
+
+/**
+ * Blueprint sections that ended up with fewer questions than they ask for, and why
+ */
+function findUnfilledSections(
+  blueprint: PaperBlueprint,
+  questions: Question[],
+  failures: Map<string, string>
+): SectionShortfall[] {
+  return blueprint.sections.flatMap(section => {
+    const filled = questions.filter(q => q.section === section.section).length;
+    return filled < section.questionCount
+      ? [{
+          section: section.section,
+          requested: section.questionCount,
+          filled,
+          reason: failures.get(section.section) ?? 'Fewer questions were generated than the section asks for',
+        }]
+      : [];
+  });
+}
+
+/**
+ * Describe a generation error as a single human-readable message
+ */
+export function describeGenerationError(error: GenerationError): string {
+  switch (error.type) {
+    case 'ConfigurationError':
+      return error.details.message;
+    case 'RetrievalError':
+      return error.details.type === 'VectorDBError'
+        ? error.details.message
+        : `Only ${error.details.found} of ${error.details.requested} questions available`;
+    case 'GenerationFailed':
+      return error.message;
+  }
+}
+
+/**
+ * Question bank columns of a generated question; every correct answer is stored as a JSON
+ * array (part-marked types store every part)
+ */
+function generatedQuestionData(question: Question, groupOrder: number | null) {
+  return {
+    questionText: question.questionText,
+    questionType: question.questionType,
+    options: question.options ? JSON.stringify(question.options) : null,
+    matchItems: question.matchItems ? JSON.stringify(question.matchItems) : null,
+    correctAnswers: JSON.stringify(question.correctAnswers ?? [question.correctAnswer]),
+    answerTolerance: question.answerTolerance ? JSON.stringify(question.answerTolerance) : null,
+    rubric: question.rubric ? JSON.stringify(question.rubric) : undefined,
+    solutionSteps: question.solutionSteps ? JSON.stringify(question.solutionSteps) : '[]',
+    syllabusReference: question.syllabusReference,
+    difficulty: question.difficulty,
+    groupId: question.group?.groupId ?? null,
+    groupOrder,
+  };
+}
+
+/**
+ * A generated question whose stated answer an independent solution disagreed with
+ */
+type DisagreedQuestion = {
+  question: Question;
+  verification: AnswerVerification;
+};
+
+function toAnswerDisagreement({ question, verification }: DisagreedQuestion): AnswerDisagreement {
+  return {
+    questionId: question.questionId,
+    questionText: question.questionText,
+    statedAnswer: question.correctAnswer,
+    verifiedAnswer: verification.verifiedAnswer,
+    method: verification.method,
+  };
+}
+
+/**
+ * Check a blueprint describes a paper this test can be: whole numbers of questions and
+ * marks in uniquely named sections that add up to the test's question count
+ */
+function validateBlueprint(config: TestConfiguration, blueprint: PaperBlueprint): Result<void, ConfigurationError> {
+  const invalid = (message: string): Result<void, ConfigurationError> => Err({ type: 'InvalidBlueprint', message });
+
+  if (config.testMode === 'Adaptive') {
+    return invalid('Adaptive tests choose their questions as they are taken and cannot follow a blueprint');
+  }
+
+  if (blueprint.sections.length === 0) {
+    return invalid('A blueprint needs at least one section');
+  }
+
+  const names = new Set<string>();
+  for (const section of blueprint.sections) {
+    if (!section.section.trim()) {
+      return invalid('Every blueprint section needs a name');
+    }
+    if (names.has(section.section)) {
+      return invalid(`Section ${section.section} appears more than once in the blueprint`);
+    }
+    names.add(section.section);
+
+    if (section.questionCount <= 0 || !Number.isInteger(section.questionCount)) {
+      return invalid(`Section ${section.section} must have a positive whole number of questions`);
+    }
+    if (section.marks <= 0 || !Number.isInteger(section.marks)) {
+      return invalid(`Section ${section.section} must carry a positive whole number of marks per question`);
+    }
+    if (config.testMode === 'InAppExam' && !ONLINE_EXAM_TYPES.includes(section.questionType)) {
+      return invalid(`Section ${section.section} asks for ${section.questionType} questions, which online exams cannot mark`);
+    }
+  }
+
+  const sectionTotal = blueprint.sections.reduce((sum, section) => sum + section.questionCount, 0);
+  if (sectionTotal !== config.questionCount) {
+    return invalid(`Blueprint sections have ${sectionTotal} questions, but the test has ${config.questionCount}`);
+  }
+
+  return Ok(undefined);
+}
+
+/**
+ * Difficulty questions for a topic should be generated at
+ * A per-topic override (set by adaptive retries) wins over the test-wide level
+ */
+export function difficultyForTopic(config: TestConfiguration, topicId: TopicId): DifficultyLevel {
+  return config.topicDifficulties?.[topicId] ?? config.difficulty ?? 'ExamRealistic';
+}
+
+/**
+ * Question style to ask the LLM for
+ * Adaptive tests are scored as each answer comes in, so they use the in-app (multiple choice) style
+ */
+function generatorMode(testMode: TestMode): 'InAppExam' | 'PDFDownload' {
+  return testMode === 'Adaptive' ? 'InAppExam' : testMode as 'InAppExam' | 'PDFDownload';
 }
 
 export class TestGeneratorService {
   private prisma: PrismaClient;
   private ragRetriever: RAGRetriever;
   private llmGenerator?: QuestionGenerator;
+  private answerVerifier?: AnswerVerifier;
+  private questionImages?: Pick<QuestionImageService, 'loadImages'>;
 
   constructor(
     prisma: PrismaClient,
     ragRetriever: RAGRetriever,
-    llmGenerator?: QuestionGenerator
+    llmGenerator?: QuestionGenerator,
+    answerVerifier?: AnswerVerifier,
+    questionImages?: Pick<QuestionImageService, 'loadImages'>
   ) {
     this.prisma = prisma;
     this.ragRetriever = ragRetriever;
     this.llmGenerator = llmGenerator;
+    this.answerVerifier = answerVerifier;
+    this.questionImages = questionImages;
   }
 
   /**
@@ -106,6 +367,13 @@ export class TestGeneratorService {
       });
     }
 
+    if (config.blueprint) {
+      const blueprintValidation = validateBlueprint(config, config.blueprint);
+      if (!blueprintValidation.ok) {
+        return blueprintValidation;
+      }
+    }
+
     // Validate topics exist in syllabus
     const topicValidation = await this.validateTopics(config.topics);
     if (!topicValidation.ok) {
@@ -198,6 +466,8 @@ export class TestGeneratorService {
         topicId: {
           in: topics,
         },
+        supersededAt: null, // Only current, approved versions are served
+        status: 'Approved',
       },
     });
 
@@ -269,7 +539,8 @@ export class TestGeneratorService {
    */
   async generateTests(
     config: TestConfiguration,
-    userId?: string
+    userId?: string,
+    hooks: GenerationHooks = {}
   ): Promise<Result<MockTest[], GenerationError>> {
     // Validate configuration first
     const validation = await this.validateConfiguration(config);
@@ -282,62 +553,234 @@ export class TestGeneratorService {
 
     const tests: MockTest[] = [];
     const usedQuestionIds: Set<QuestionId> = new Set();
+    const firstTestIndex = hooks.completedTestCount ?? 0;
+    // Adaptive tests get a pool at every difficulty; questions are picked from it while the test is taken
+    const isAdaptive = config.testMode === 'Adaptive';
 
     try {
-      for (let i = 0; i < config.testCount; i++) {
+      // A resumed job keeps clear of the questions in the tests it saved before stopping
+      const previousQuestions = await this.loadTestQuestions(hooks.completedTestIds ?? []);
+      previousQuestions.forEach(q => usedQuestionIds.add(q.questionId));
+
+      for (let i = firstTestIndex; i < config.testCount; i++) {
         // ALWAYS use LLM to generate fresh questions for each test
         // This ensures every test is unique and prevents answer memorization
         let questions: Question[];
+        // Why a blueprint section came up short, by section name
+        const sectionFailures = new Map<string, string>();
+        // Generated questions left out because their answers did not verify
+        const disagreed: DisagreedQuestion[] = [];
+        let droppedCount = 0;
 
         if (this.llmGenerator) {
           // Use balanced distribution to generate questions across topics
           // Requirements: 5.1, 5.2, 5.3, 5.4
           const topicsWithNames = await this.getTopicNames(config.topics);
-          const distribution = calculateBalancedDistribution(
-            topicsWithNames,
-            config.questionCount
-          );
+          // English comprehension and case-based science papers include passage groups;
+          // adaptive tests serve questions one at a time, and blueprint sections ask for
+          // one question type each, so neither does
+          const usesGroups = !isAdaptive
+            && !config.blueprint
+            && !!this.llmGenerator.generateQuestionGroup
+            && !!questionGroupStimulus(config.subject);
+          const distribution = config.blueprint
+            ? calculateBlueprintDistribution(topicsWithNames, config.blueprint)
+            : calculateBalancedDistribution(
+                topicsWithNames,
+                config.questionCount,
+                usesGroups ? QUESTIONS_PER_GROUP : 0
+              );
+          await hooks.onTestStarted?.(i, distribution);
 
           // Generate questions per topic according to balanced distribution
           const allQuestions: Question[] = [];
           for (const topicDist of distribution) {
             if (topicDist.questionCount === 0) continue;
 
+            // Resume: reuse questions checkpointed by an interrupted run
+            const checkpointed = i === firstTestIndex
+              ? hooks.completedTopics?.get(topicDist.topicId)
+              : undefined;
+            if (checkpointed) {
+              allQuestions.push(...checkpointed);
+              continue;
+            }
+
             const syllabusContext = await this.ragRetriever.getSyllabusContext(topicDist.topicId);
             const existingQuestions = Array.from(usedQuestionIds).map(id => {
-              const existingQuestion = tests.flatMap(t => t.questions).find(q => q.questionId === id);
+              const existingQuestion = [...previousQuestions, ...tests.flatMap(t => t.questions)].find(q => q.questionId === id);
               return existingQuestion;
             }).filter(q => q !== undefined) as Question[];
 
-            const result = await this.llmGenerator.generateQuestions(
-              syllabusContext,
-              topicDist.questionCount,
-              [...existingQuestions, ...allQuestions],
-              config.subject,
-              config.testMode
-            );
+            const levels: readonly DifficultyLevel[] = isAdaptive
+              ? DIFFICULTY_LEVELS
+              : [difficultyForTopic(config, topicDist.topicId)];
+            const topicQuestions: Question[] = [];
+            const groupQuestionCount = topicDist.groupQuestionCount ?? 0;
+
+            if (groupQuestionCount > 0) {
+              const groupResult = await this.llmGenerator.generateQuestionGroup!(
+                syllabusContext,
+                groupQuestionCount,
+                [...existingQuestions, ...allQuestions],
+                config.subject,
+                generatorMode(config.testMode),
+                levels[0]
+              );
+
+              if (!groupResult.ok) {
+                return Err({
+                  type: 'GenerationFailed',
+                  message: `LLM generation failed for the ${topicDist.topicName} passage: ${describeGenerationError(groupResult.error)}`,
+                  rejections: groupResult.error.type === 'GenerationFailed' ? groupResult.error.rejections : undefined,
+                });
+              }
+
+              // Group questions are answered from their passage, so they are kept as a set
+              // rather than verified and replaced one by one
+              topicQuestions.push(...groupResult.value);
+            }
 
-            if (!result.ok) {
-              return Err({
-                type: 'GenerationFailed',
-                message: `LLM generation failed for topic ${topicDist.topicName}: ${result.error.message}`,
-              });
+            // A blueprint topic is generated a section at a time, each in its section's type
+            const batches = config.blueprint
+              ? config.blueprint.sections.map(section => ({
+                  section,
+                  count: topicDist.sectionQuestionCounts?.[section.section] ?? 0,
+                }))
+              : [{ section: undefined, count: topicDist.questionCount - groupQuestionCount }];
+
+            for (const { section, count } of batches) {
+              for (const difficulty of count > 0 ? levels : []) {
+                const result = await this.llmGenerator.generateQuestions(
+                  syllabusContext,
+                  count,
+                  [...existingQuestions, ...allQuestions, ...topicQuestions],
+                  config.subject,
+                  generatorMode(config.testMode),
+                  difficulty,
+                  section?.questionType
+                );
+
+                // A blueprint paper is still printed without a section it could not fill; the
+                // shortfall is reported with the test
+                if (!result.ok && section) {
+                  sectionFailures.set(section.section, `${topicDist.topicName}: ${describeGenerationError(result.error)}`);
+                  continue;
+                }
+
+                if (!result.ok) {
+                  return Err({
+                    type: 'GenerationFailed',
+                    message: `LLM generation failed for topic ${topicDist.topicName}: ${describeGenerationError(result.error)}`,
+                    rejections: result.error.type === 'GenerationFailed' ? result.error.rejections : undefined,
+                  });
+                }
+
+                // Re-solve math questions and replace or drop any whose answer does not hold up
+                const verified = await this.verifyGeneratedAnswers(
+                  result.value,
+                  syllabusContext,
+                  [...existingQuestions, ...allQuestions, ...topicQuestions],
+                  config,
+                  difficulty,
+                  section?.questionType
+                );
+                disagreed.push(...verified.disagreed);
+                droppedCount += verified.droppedCount;
+                if (section && verified.droppedCount > 0) {
+                  sectionFailures.set(
+                    section.section,
+                    `${topicDist.topicName}: ${verified.droppedCount} question(s) left out because their answers could not be verified`
+                  );
+                }
+                topicQuestions.push(...(section
+                  ? verified.questions.map(q => ({ ...q, section: section.section, marks: section.marks }))
+                  : verified.questions));
+              }
             }
 
-            allQuestions.push(...result.value);
+            allQuestions.push(...topicQuestions);
+            await hooks.onTopicCompleted?.(i, topicDist.topicId, topicQuestions);
+          }
+
+          // A blueprint paper reports the sections left short; any other test would reach students short
+          if (!config.blueprint && !isAdaptive && droppedCount > 0) {
+            await this.holdDisagreedQuestions(disagreed);
+            return Err({
+              type: 'GenerationFailed',
+              message: `Could not generate ${droppedCount} of the ${config.questionCount} questions ` +
+                `with answers that verify after ${ANSWER_REGENERATION_ATTEMPTS} attempts`,
+            });
           }
 
-          questions = allQuestions;
+          questions = config.blueprint ? orderBySection(allQuestions, config.blueprint) : allQuestions;
 
           // Optionally index the newly generated questions for future reference
           // (but we won't use them for test generation - always generate fresh)
           await this.indexGeneratedQuestions(questions);
+          await this.holdDisagreedQuestions(disagreed);
+        } else if (isAdaptive) {
+          await hooks.onTestStarted?.(i, []);
+
+          // Adaptive tests draw from the question bank as they are taken; only check it can fill one
+          const available = await this.prisma.question.count({
+            where: { topicId: { in: config.topics }, supersededAt: null, status: 'Approved' },
+          });
+          if (available < config.questionCount) {
+            return Err({
+              type: 'GenerationFailed',
+              message: 'LLM generator not available and insufficient questions in database',
+            });
+          }
+
+          questions = [];
+        } else if (config.blueprint) {
+          await hooks.onTestStarted?.(i, []);
+
+          // Fallback to RAG if LLM is not available, retrieving a blueprint paper a section at a time
+          const difficulties = Object.fromEntries(config.topics.map(topicId => [topicId, difficultyForTopic(config, topicId)]));
+          questions = [];
+
+          for (const section of config.blueprint.sections) {
+            const excludeIds = [...Array.from(usedQuestionIds), ...questions.map(q => q.questionId)];
+            let questionsResult = await this.ragRetriever.retrieveQuestions(
+              config.topics,
+              section.questionCount,
+              excludeIds,
+              difficulties,
+              section.questionType
+            );
+
+            // Take what the question bank has for a section it cannot fill
+            if (!questionsResult.ok && questionsResult.error.type === 'InsufficientMatches' && questionsResult.error.found > 0) {
+              questionsResult = await this.ragRetriever.retrieveQuestions(
+                config.topics,
+                questionsResult.error.found,
+                excludeIds,
+                difficulties,
+                section.questionType
+              );
+            }
+
+            if (!questionsResult.ok || questionsResult.value.length < section.questionCount) {
+              sectionFailures.set(
+                section.section,
+                `LLM generator not available and insufficient ${section.questionType} questions in database`
+              );
+            }
+
+            const sectionQuestions = questionsResult.ok ? questionsResult.value : [];
+            questions.push(...sectionQuestions.map(q => ({ ...q, section: section.section, marks: section.marks })));
+          }
         } else {
+          await hooks.onTestStarted?.(i, []);
+
           // Fallback to RAG if LLM is not available
           const questionsResult = await this.ragRetriever.retrieveQuestions(
             config.topics,
             config.questionCount,
-            Array.from(usedQuestionIds)
+            Array.from(usedQuestionIds),
+            Object.fromEntries(config.topics.map(topicId => [topicId, difficultyForTopic(config, topicId)]))
           );
 
           if (!questionsResult.ok || questionsResult.value.length < config.questionCount) {
@@ -350,6 +793,14 @@ export class TestGeneratorService {
           questions = questionsResult.value;
         }
 
+        const unfilledSections = config.blueprint ? findUnfilledSections(config.blueprint, questions, sectionFailures) : [];
+        if (config.blueprint && questions.length === 0) {
+          return Err({
+            type: 'GenerationFailed',
+            message: `No blueprint section could be filled: ${unfilledSections.map(s => `Section ${s.section} (${s.reason ?? 'no questions'})`).join('; ')}`,
+          });
+        }
+
         // Validate all questions match selected topics (Requirement 4.2)
         const topicValidation = this.validateQuestionTopics(questions, config.topics);
         if (!topicValidation.ok) {
@@ -359,9 +810,8 @@ export class TestGeneratorService {
           });
         }
 
-        // Ensure exam-realistic difficulty (Requirement 4.3)
-        // All questions are already marked as 'ExamRealistic' difficulty
-        const difficultyValidation = this.validateQuestionDifficulty(questions);
+        // Ensure every question is at the difficulty requested for its topic
+        const difficultyValidation = isAdaptive ? Ok(undefined) : this.validateQuestionDifficulty(questions, config);
         if (!difficultyValidation.ok) {
           return Err({
             type: 'GenerationFailed',
@@ -372,23 +822,32 @@ export class TestGeneratorService {
         // Mark questions as used to ensure uniqueness across tests (Requirement 4.4)
         questions.forEach(q => usedQuestionIds.add(q.questionId));
 
+        // An adaptive test starts empty; its pool lives in the question bank
+        const testQuestions = isAdaptive ? [] : questions;
+
         // Generate answer key with correct answers (Requirement 4.5)
-        const answerKey = this.generateAnswerKey(questions);
+        const answerKey = this.generateAnswerKey(testQuestions);
 
         // Create test with unique ID
         const test: MockTest = {
           testId: `test-${Date.now()}-${i}-${Math.random().toString(36).substr(2, 9)}`,
           configuration: config,
-          questions,
+          questions: testQuestions,
           answerKey,
           createdAt: new Date(),
+          ...(unfilledSections.length > 0 ? { unfilledSections } : {}),
+          ...(disagreed.length > 0
+            ? { answerVerification: { droppedCount, disagreements: disagreed.map(toAnswerDisagreement) } }
+            : {}),
         };
 
         // Persist test configuration and generated test with dual PDFs
         // Requirements: 3.1, 3.2, 3.3
-        await this.persistTest(test, userId);
+        // An adaptive test's generated drafts are only served to the test they were generated for
+        await this.persistTest(test, userId, isAdaptive ? questions.map(q => q.questionId) : []);
 
         tests.push(test);
+        await hooks.onTestCompleted?.(i, test);
       }
 
       return Ok(tests);
@@ -422,14 +881,18 @@ export class TestGeneratorService {
   }
 
   /**
-   * Validate that all questions have exam-realistic difficulty
-   * Requirement 4.3: Generate questions at exam-realistic difficulty
+   * Validate that all questions have the difficulty requested for their topic
+   * Requirement 4.3: exam-realistic unless a different level was selected
    */
-  private validateQuestionDifficulty(questions: Question[]): Result<void, string> {
+  private validateQuestionDifficulty(
+    questions: Question[],
+    config: TestConfiguration
+  ): Result<void, string> {
     for (const question of questions) {
-      if (question.difficulty !== 'ExamRealistic') {
+      const expected = difficultyForTopic(config, question.topicId);
+      if (question.difficulty !== expected) {
         return Err(
-          `Question ${question.questionId} has difficulty ${question.difficulty}, expected ExamRealistic`
+          `Question ${question.questionId} has difficulty ${question.difficulty}, expected ${expected}`
         );
       }
     }
@@ -450,6 +913,108 @@ export class TestGeneratorService {
     return answerKey;
   }
 
+  /**
+   * Verify generated answers for math subjects before they are persisted
+   * Questions whose answer disagrees with an independent solution are regenerated,
+   * up to ANSWER_REGENERATION_ATTEMPTS times; droppedCount is how many questions
+   * short of the batch the replacements that never verified leave
+   */
+  private async verifyGeneratedAnswers(
+    questions: Question[],
+    syllabusContext: SyllabusContext,
+    existingQuestions: Question[],
+    config: TestConfiguration,
+    difficulty: DifficultyLevel,
+    questionType?: QuestionType
+  ): Promise<{ questions: Question[]; disagreed: DisagreedQuestion[]; droppedCount: number }> {
+    if (!this.answerVerifier || !this.llmGenerator || !isMathSubject(config.subject)) {
+      return { questions, disagreed: [], droppedCount: 0 };
+    }
+
+    const { agreed, disagreed } = await this.partitionByVerification(questions);
+    let missing = disagreed.length;
+
+    for (let attempt = 0; attempt < ANSWER_REGENERATION_ATTEMPTS && missing > 0; attempt++) {
+      const replacements = await this.llmGenerator.generateQuestions(
+        syllabusContext,
+        missing,
+        [...existingQuestions, ...agreed, ...disagreed.map(d => d.question)],
+        config.subject,
+        generatorMode(config.testMode),
+        difficulty,
+        questionType
+      );
+      if (!replacements.ok) {
+        console.warn(`Regenerating ${missing} question(s) with unverified answers failed`);
+        break;
+      }
+
+      const retried = await this.partitionByVerification(replacements.value.slice(0, missing));
+      agreed.push(...retried.agreed);
+      disagreed.push(...retried.disagreed);
+      missing -= retried.agreed.length;
+    }
+
+    if (missing > 0) {
+      console.warn(`Dropping ${missing} question(s) whose answers could not be verified`);
+    }
+    return { questions: agreed, disagreed, droppedCount: missing };
+  }
+
+  /**
+   * Keep questions the verifier agrees with (or could not check) and set the rest aside
+   */
+  private async partitionByVerification(
+    questions: Question[]
+  ): Promise<{ agreed: Question[]; disagreed: DisagreedQuestion[] }> {
+    const agreed: Question[] = [];
+    const disagreed: DisagreedQuestion[] = [];
+
+    // Sequential so verification calls are not issued in parallel
+    for (const question of questions) {
+      const verification = await this.answerVerifier!.verifyAnswer(question);
+      if (verification.status === 'Disagreed') {
+        console.warn(
+          `Answer verification (${verification.method}) disagreed for "${question.questionText}": ` +
+          `stated ${question.correctAnswer}, verified ${verification.verifiedAnswer}`
+        );
+        disagreed.push({ question, verification });
+      } else {
+        agreed.push(question);
+      }
+    }
+
+    return { agreed, disagreed };
+  }
+
+  /**
+   * Keep questions whose answers did not verify in the bank as Rejected, with the
+   * disagreement as their review note, so an admin can check them in the moderation
+   * queue and reinstate any the verifier got wrong
+   * Not critical to the test: a failure is logged
+   */
+  private async holdDisagreedQuestions(disagreed: DisagreedQuestion[]): Promise<void> {
+    for (const { question, verification } of disagreed) {
+      try {
+        await this.ensureTopicExists(question.topicId);
+        await this.prisma.question.create({
+          data: {
+            id: question.questionId,
+            topicId: question.topicId,
+            ...generatedQuestionData(question, null),
+            status: 'Rejected',
+            reviewNote: `Answer verification (${verification.method ?? 'unknown method'}) disagreed: ` +
+              `stated ${question.correctAnswer}, independently solved as ${verification.verifiedAnswer ?? 'a different answer'}`,
+            reviewedAt: new Date(),
+            createdAt: question.createdAt,
+          },
+        });
+      } catch (error) {
+        console.error(`Failed to keep question ${question.questionId} with a disputed answer for review:`, error);
+      }
+    }
+  }
+
   /**
    * Get topic names for topic IDs
    * Helper method to fetch topic names from database
@@ -487,6 +1052,56 @@ export class TestGeneratorService {
     }
   }
 
+  /**
+   * Create the syllabus topic of an LLM or custom topic ID the first time a question uses it
+   */
+  private async ensureTopicExists(topicId: TopicId): Promise<void> {
+    try {
+      // Check if topic exists
+      const existingTopic = await this.prisma.syllabusTopic.findUnique({
+        where: { id: topicId },
+      });
+
+      if (!existingTopic) {
+        // Topic doesn't exist - create it
+        // Parse LLM topic ID to extract information
+        if (topicId.startsWith('llm-') || topicId.startsWith('custom-')) {
+          const prefix = topicId.startsWith('llm-') ? 'llm-' : 'custom-';
+          const parts = topicId.substring(prefix.length).split('-');
+          const curriculum = parts[0].toUpperCase();
+          const grade = parseInt(parts[1], 10) || 10;
+          // Join remaining parts as subject, handling multi-word subjects
+          const subjectParts = parts.slice(2);
+          const subject = subjectParts.length > 0
+            ? subjectParts.join(' ').replace(/^\w/, c => c.toUpperCase())
+            : 'General';
+          const topicName = `${subject} Topic`;
+
+          await this.prisma.syllabusTopic.create({
+            data: {
+              id: topicId,
+              curriculum,
+              grade,
+              subject,
+              topicName,
+              syllabusSection: 'LLM Generated',
+              officialContent: `Auto-generated topic for ${curriculum} Class ${grade} ${subject}`,
+              learningObjectives: JSON.stringify([]),
+            },
+          });
+          console.log(`Created topic: ${topicId}`);
+        } else {
+          // Non-LLM topic that doesn't exist - this is a problem
+          throw new Error(`Topic ${topicId} does not exist in the database and cannot be auto-created`);
+        }
+      }
+    } catch (error) {
+      // Topic creation failure is critical for question creation
+      console.error(`Failed to ensure topic ${topicId} exists:`, error);
+      throw new Error(`Failed to create topic ${topicId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   /**
    * Index generated questions for future use
    * Requirement 13.4: Ensure generated questions are indexed for future use
@@ -496,79 +1111,43 @@ export class TestGeneratorService {
     const uniqueTopicIds = [...new Set(questions.map(q => q.topicId))];
     
     for (const topicId of uniqueTopicIds) {
-      try {
-        // Check if topic exists
-        const existingTopic = await this.prisma.syllabusTopic.findUnique({
-          where: { id: topicId },
-        });
+      await this.ensureTopicExists(topicId);
+    }
 
-        if (!existingTopic) {
-          // Topic doesn't exist - create it
-          // Parse LLM topic ID to extract information
-          if (topicId.startsWith('llm-') || topicId.startsWith('custom-')) {
-            const prefix = topicId.startsWith('llm-') ? 'llm-' : 'custom-';
-            const parts = topicId.substring(prefix.length).split('-');
-            const curriculum = parts[0].toUpperCase();
-            const grade = parseInt(parts[1], 10) || 10;
-            // Join remaining parts as subject, handling multi-word subjects
-            const subjectParts = parts.slice(2);
-            const subject = subjectParts.length > 0
-              ? subjectParts.join(' ').replace(/^\w/, c => c.toUpperCase())
-              : 'General';
-            const topicName = `${subject} Topic`;
-
-            await this.prisma.syllabusTopic.create({
-              data: {
-                id: topicId,
-                curriculum,
-                grade,
-                subject,
-                topicName,
-                syllabusSection: 'LLM Generated',
-                officialContent: `Auto-generated topic for ${curriculum} Class ${grade} ${subject}`,
-                learningObjectives: JSON.stringify([]),
-              },
-            });
-            console.log(`Created topic: ${topicId}`);
-          } else {
-            // Non-LLM topic that doesn't exist - this is a problem
-            throw new Error(`Topic ${topicId} does not exist in the database and cannot be auto-created`);
-          }
-        }
-      } catch (error) {
-        // Topic creation failure is critical for question creation
-        console.error(`Failed to ensure topic ${topicId} exists:`, error);
-        throw new Error(`Failed to create topic ${topicId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      }
+    // Save each passage or case study once, before the questions that refer to it
+    const groups = new Map(questions.filter(q => q.group).map(q => [q.group!.groupId, q]));
+    for (const [groupId, question] of groups) {
+      await this.prisma.questionGroup.upsert({
+        where: { id: groupId },
+        update: {},
+        create: {
+          id: groupId,
+          topicId: question.topicId,
+          stimulusText: question.group!.stimulusText,
+          imageUrl: question.group!.imageUrl,
+        },
+      });
     }
 
     // Now persist questions to the database - this MUST succeed for test persistence to work
     for (const question of questions) {
       try {
         // Use upsert to handle cases where question might already exist
-        // Format correct answer as JSON array (schema supports multiple correct answers)
-        const correctAnswersJson = JSON.stringify([question.correctAnswer]);
+        // Format correct answer as JSON array (schema supports multiple correct answers);
+        // part-marked types store every part
+        const groupId = question.group?.groupId ?? null;
+        const groupOrder = groupId ? questions.filter(q => q.group?.groupId === groupId).indexOf(question) : null;
+        const data = generatedQuestionData(question, groupOrder);
 
         await this.prisma.question.upsert({
           where: { id: question.questionId },
-          update: {
-            // Update if exists (shouldn't happen with unique IDs, but just in case)
-            questionText: question.questionText,
-            questionType: question.questionType,
-            options: question.options ? JSON.stringify(question.options) : null,
-            correctAnswers: correctAnswersJson,
-            solutionSteps: question.solutionSteps ? JSON.stringify(question.solutionSteps) : '[]',
-            syllabusReference: question.syllabusReference,
-          },
+          // Update if exists (shouldn't happen with unique IDs, but just in case)
+          update: data,
           create: {
             id: question.questionId,
             topicId: question.topicId,
-            questionText: question.questionText,
-            questionType: question.questionType,
-            options: question.options ? JSON.stringify(question.options) : null,
-            correctAnswers: correctAnswersJson,
-            solutionSteps: question.solutionSteps ? JSON.stringify(question.solutionSteps) : '[]',
-            syllabusReference: question.syllabusReference,
+            ...data,
+            status: 'Draft', // Held for moderation before the RAG path reuses it
             createdAt: question.createdAt,
           },
         });
@@ -587,36 +1166,82 @@ export class TestGeneratorService {
     }
   }
 
+  /**
+   * Questions of already saved tests, including the pools of adaptive ones
+   */
+  private async loadTestQuestions(testIds: TestId[]): Promise<Question[]> {
+    if (testIds.length === 0) {
+      return [];
+    }
+
+    const tests: SavedTestRow[] = await this.prisma.test.findMany({
+      where: { id: { in: testIds } },
+      select: { poolQuestionIds: true, testQuestions: { select: { questionId: true } } },
+    });
+    const questionIds = tests.flatMap(test => [
+      ...test.testQuestions.map(tq => tq.questionId),
+      ...(test.poolQuestionIds ? JSON.parse(test.poolQuestionIds) as QuestionId[] : []),
+    ]);
+    const rows: SavedQuestionRow[] = await this.prisma.question.findMany({
+      where: { id: { in: questionIds } },
+    });
+
+    return rows.map(row => {
+      const matchItems: string[] | undefined = row.matchItems ? JSON.parse(row.matchItems) : undefined;
+      return {
+        questionId: row.id,
+        topicId: row.topicId,
+        questionText: row.questionText,
+        questionType: row.questionType as QuestionType,
+        options: row.options ? JSON.parse(row.options) : undefined,
+        matchItems,
+        imageId: row.imageId ?? undefined,
+        optionImageIds: row.optionImageIds ? JSON.parse(row.optionImageIds) : undefined,
+        ...questionAnswerFields(row.questionType, answerParts(row.correctAnswers || '[]'), matchItems),
+        answerTolerance: parseAnswerTolerance(row.answerTolerance),
+        rubric: parseRubric(row.rubric),
+        syllabusReference: row.syllabusReference,
+        difficulty: row.difficulty as DifficultyLevel,
+        createdAt: row.createdAt,
+      };
+    });
+  }
+
   /**
    * Persist test to database with dual PDFs
    * Stores test configuration and generated test with all questions
    * Requirements: 3.1, 3.2, 3.3
    */
-  private async persistTest(test: MockTest, userId?: string): Promise<void> {
+  private async persistTest(test: MockTest, userId?: string, poolQuestionIds: QuestionId[] = []): Promise<void> {
     // Get topic names for PDF generation
     const topicNames = await this.getTopicNames(test.configuration.topics);
     const topicNamesList = topicNames.map(t => t.topicName);
+    const isAdaptive = test.configuration.testMode === 'Adaptive';
 
     // Generate question paper PDF (without answers)
     // Requirement 3.2: Question paper contains only questions
     let questionPaperBuffer: Buffer | undefined;
     let answerKeyBuffer: Buffer | undefined;
 
-    try {
-      const questionPaperResult = await generateQuestionPaper(test, topicNamesList);
-      if (questionPaperResult.ok) {
-        questionPaperBuffer = questionPaperResult.value.buffer;
-      }
+    // Adaptive tests have no fixed paper to print
+    if (!isAdaptive) {
+      try {
+        const images = this.questionImages ? await this.questionImages.loadImages(test.questions) : undefined;
+        const questionPaperResult = await generateQuestionPaper(test, topicNamesList, undefined, images);
+        if (questionPaperResult.ok) {
+          questionPaperBuffer = questionPaperResult.value.buffer;
+        }
 
-      // Generate answer key PDF (with answers and solutions)
-      // Requirement 3.3: Answer key contains questions with answers and solutions
-      const answerKeyResult = await generateAnswerKey(test, topicNamesList);
-      if (answerKeyResult.ok) {
-        answerKeyBuffer = answerKeyResult.value.buffer;
+        // Generate answer key PDF (with answers and solutions)
+        // Requirement 3.3: Answer key contains questions with answers and solutions
+        const answerKeyResult = await generateAnswerKey(test, topicNamesList, images);
+        if (answerKeyResult.ok) {
+          answerKeyBuffer = answerKeyResult.value.buffer;
+        }
+      } catch (error) {
+        // Log error but don't fail test generation if PDF generation fails
+        console.error('PDF generation failed:', error);
       }
-    } catch (error) {
-      // Log error but don't fail test generation if PDF generation fails
-      console.error('PDF generation failed:', error);
     }
 
     // Create the Test record with configuration and dual PDFs
@@ -628,6 +1253,12 @@ export class TestGeneratorService {
         topics: JSON.stringify(test.configuration.topics),
         mode: test.configuration.testMode,
         status: 'Generated',
+        questionLimit: isAdaptive ? test.configuration.questionCount : undefined,
+        poolQuestionIds: poolQuestionIds.length > 0 ? JSON.stringify(poolQuestionIds) : undefined,
+        // Kept so a retry is generated to the same shape
+        difficulty: test.configuration.difficulty,
+        blueprint: test.configuration.blueprint ? JSON.stringify(test.configuration.blueprint) : undefined,
+        timerMinutes: test.configuration.blueprint?.durationMinutes,
         questionPaperPDF: questionPaperBuffer, // Store question paper PDF
         answerKeyPDF: answerKeyBuffer, // Store answer key PDF
         createdAt: test.createdAt,
@@ -641,6 +1272,8 @@ export class TestGeneratorService {
           testId: createdTest.id,
           questionId: question.questionId,
           order: index,
+          marks: question.marks,
+          section: question.section,
         },
       })
     );
@@ -648,3 +1281,26 @@ export class TestGeneratorService {
     await Promise.all(testQuestionPromises);
   }
 }
+
+// Row shapes returned by the Prisma queries above
+type SavedTestRow = {
+  poolQuestionIds: string | null;
+  testQuestions: Array<{ questionId: string }>;
+};
+
+type SavedQuestionRow = {
+  id: string;
+  topicId: string;
+  questionText: string;
+  questionType: string;
+  options: string | null;
+  matchItems: string | null;
+  imageId: string | null;
+  optionImageIds: string | null;
+  correctAnswers: string | null;
+  answerTolerance: string | null;
+  rubric: string | null;
+  syllabusReference: string;
+  difficulty: string;
+  createdAt: Date;
+};
@@ -7,18 +7,37 @@
 export type UserId = string;
 export type TestId = string;
 export type QuestionId = string;
+export type QuestionGroupId = string;
+export type ImageId = string;
 export type TopicId = string;
 export type SessionId = string;
 export type EvaluationId = string;
 export type ReportId = string;
+export type JobId = string;
+export type ClassId = string;
+export type AssignmentId = string;
+export type IssueId = string;
+export type NotificationId = string;
+export type BlueprintTemplateId = string;
+export type GradeId = string;
+export type GradeOverrideId = string;
 export type Timestamp = Date;
 
 export type Curriculum = 'CBSE' | 'Cambridge';
 export type Subject = string;
-export type QuestionType = 'MultipleChoice' | 'ShortAnswer' | 'Numerical';
-export type TestMode = 'PrintablePDF' | 'InAppExam';
+export type QuestionType =
+  | 'MultipleChoice'
+  | 'ShortAnswer'
+  | 'Numerical'
+  | 'TrueFalse'
+  | 'Matching'
+  | 'Ordering'
+  | 'FillInBlank'; // see lib/questionFormats.ts for how each type stores its answer
+export type TestMode = 'PrintablePDF' | 'InAppExam' | 'Adaptive';
+export type DifficultyLevel = 'Foundation' | 'ExamRealistic' | 'Challenge'; // Foundation is easier than a real paper, Challenge harder
 export type TestStatus = 'Generated' | 'InProgress' | 'Submitted';
 export type SessionStatus = 'InProgress' | 'Submitted';
+export type UserRole = 'Student' | 'Teacher' | 'Guardian' | 'Admin';
 
 // ============================================================================
 // User Profile
@@ -94,14 +113,32 @@ export type Question = {
   questionText: string;
   questionType: QuestionType;
   options?: string[]; // for multiple choice
+  matchItems?: string[]; // Matching: the left-hand items; options are the right-hand choices
+  imageId?: ImageId; // diagram, graph or figure shown with the question
+  optionImageIds?: Array<ImageId | null>; // image for each option, in option order
   correctAnswer: string;
+  correctAnswers?: string[]; // every part of the answer for Matching, Ordering and FillInBlank
+  answerTolerance?: AnswerTolerance; // Numerical only; see lib/numericAnswers.ts
+  rubric?: RubricPoint[]; // ShortAnswer only: the key points a full answer makes
   allowMultipleAnswers?: boolean; // P2 Requirement 4.1 - indicates if question accepts multiple correct answers
   solutionSteps?: string[]; // Step-by-step solution explanation
   syllabusReference: string;
-  difficulty: 'ExamRealistic';
+  difficulty: DifficultyLevel;
+  group?: QuestionGroup; // passage or case study; a group's questions are kept together and in order
+  section?: string; // paper section the question is printed under, when the test follows a blueprint
+  marks?: number; // marks the question carries in its test; 1 unless a blueprint says otherwise
   createdAt: Timestamp;
 };
 
+/**
+ * Reading passage or case study that several consecutive questions are asked about
+ */
+export type QuestionGroup = {
+  groupId: QuestionGroupId;
+  stimulusText: string;
+  imageUrl?: string;
+};
+
 export type AnswerKey = {
   testId: TestId;
   answers: Map<QuestionId, string>;
@@ -117,6 +154,74 @@ export type TestConfiguration = {
   questionCount: number;
   testCount: number;
   testMode: TestMode;
+  difficulty?: DifficultyLevel; // defaults to ExamRealistic
+  topicDifficulties?: Partial<Record<TopicId, DifficultyLevel>>; // per-topic overrides (adaptive retries)
+  blueprint?: PaperBlueprint; // board-style sections; their question counts add up to questionCount
+};
+
+/**
+ * Board-style paper layout: the test is printed and marked section by section, in order
+ */
+export type PaperBlueprint = {
+  sections: PaperSection[];
+  // Share of the paper's marks for each topic, keyed by topic name or the start of one
+  // (e.g. "Biology" covers "Biology - Cells"); topics not listed get an average share
+  topicWeights?: Record<string, number>;
+  durationMinutes?: number; // time allowed for the whole paper
+};
+
+/**
+ * One section of a paper, e.g. CBSE Section A: 20 one-mark multiple choice questions
+ */
+export type PaperSection = {
+  section: string; // name printed as the section header, e.g. "A"
+  questionType: QuestionType;
+  questionCount: number;
+  marks: number; // marks for each question in the section
+};
+
+/**
+ * Reusable board paper pattern, e.g. "CBSE Class 10 Maths board pattern"
+ */
+export type BlueprintTemplate = {
+  templateId: BlueprintTemplateId;
+  name: string;
+  curriculum: Curriculum;
+  grade?: number; // unset for patterns used across grades
+  subject: Subject;
+  blueprint: PaperBlueprint;
+};
+
+/**
+ * A blueprint section that generation could not fill with the questions it asked for
+ */
+export type SectionShortfall = {
+  section: string;
+  requested: number;
+  filled: number;
+  reason?: string;
+};
+
+/**
+ * A generated question left out of a test because an independent solution disagreed with its answer
+ * The question is kept in the bank as Rejected, with the disagreement as its review note
+ */
+export type AnswerDisagreement = {
+  questionId: QuestionId;
+  questionText: string;
+  statedAnswer: string;
+  verifiedAnswer?: string;
+  method?: AnswerVerificationMethod;
+};
+
+/**
+ * Questions generation left out of a test because their answers did not verify
+ * droppedCount is how many questions the test is short; the rest were replaced.
+ * Only a blueprint paper is saved short, with the sections it could not fill
+ */
+export type AnswerVerificationReport = {
+  droppedCount: number;
+  disagreements: AnswerDisagreement[];
 };
 
 export type MockTest = {
@@ -125,6 +230,8 @@ export type MockTest = {
   questions: Question[];
   answerKey: Map<QuestionId, string>;
   createdAt: Timestamp;
+  unfilledSections?: SectionShortfall[]; // blueprint papers printed with fewer questions than asked for
+  answerVerification?: AnswerVerificationReport; // questions held back because their answers did not verify
 };
 
 export type GeneratedTests = {
@@ -132,6 +239,43 @@ export type GeneratedTests = {
   answerKeys: AnswerKey[];
 };
 
+// ============================================================================
+// Background Generation Jobs
+// ============================================================================
+
+export type GenerationJobStatus = 'Queued' | 'Running' | 'Succeeded' | 'Failed';
+
+export type TopicGenerationProgress = {
+  topicId: TopicId;
+  topicName: string;
+  questionCount: number;
+  status: 'Pending' | 'Completed';
+};
+
+export type TestGenerationProgress = {
+  testIndex: number;
+  testId?: TestId;
+  status: 'Pending' | 'Running' | 'Completed';
+  topics: TopicGenerationProgress[];
+  unfilledSections?: SectionShortfall[];
+  answerVerification?: AnswerVerificationReport;
+};
+
+export type GenerationJob = {
+  jobId: JobId;
+  userId: UserId;
+  status: GenerationJobStatus;
+  configuration: TestConfiguration | null; // null if the stored configuration is unreadable
+  progress: TestGenerationProgress[];
+  testIds: TestId[];
+  error?: string;
+  attempts: number;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+  startedAt?: Timestamp;
+  completedAt?: Timestamp;
+};
+
 // ============================================================================
 // Test Execution
 // ============================================================================
@@ -159,10 +303,67 @@ export type TestSubmission = {
   submittedAt: Timestamp;
 };
 
+// Where an Adaptive session stands after serving or answering a question
+export type AdaptiveStep = {
+  complete: boolean;
+  question?: Question; // the question to answer next, when not complete
+  questionsServed: number;
+  questionLimit: number;
+};
+
 // ============================================================================
 // Evaluation and Feedback
 // ============================================================================
 
+/**
+ * One key point of a ShortAnswer marking scheme, e.g. "Chlorophyll absorbs light" for 1 mark
+ * keywords are what the answer must mention for the point when no LLM is available;
+ * alternatives are separated by "/", e.g. "absorbs/traps/captures"
+ */
+export type RubricPoint = {
+  point: string;
+  marks: number;
+  keywords?: string[];
+};
+
+export type ShortAnswerGradingMethod = 'LLM' | 'Keyword';
+export type GradeReviewStatus = 'Automatic' | 'PendingReview' | 'Reviewed';
+
+/**
+ * How a free-text answer scored against its question's rubric
+ */
+export type RubricGrade = {
+  pointsEarned: number; // out of the marks the question carries
+  matchedPoints: number[]; // indexes of the rubric points the answer makes
+  confidence: number; // 0-1; grades below REVIEW_CONFIDENCE_THRESHOLD go to a teacher
+  method: ShortAnswerGradingMethod;
+  feedback?: string;
+};
+
+// A stored ShortAnswer grade, as listed for manual review
+export type ShortAnswerGrade = RubricGrade & {
+  gradeId: GradeId;
+  testId: TestId;
+  questionId: QuestionId;
+  userAnswer: string;
+  points: number;
+  reviewStatus: GradeReviewStatus;
+  reviewedAt?: Timestamp;
+  createdAt: Timestamp;
+  question?: Pick<BankQuestion, 'questionText' | 'correctAnswers' | 'rubric'>;
+};
+
+export type GradeReviewSearch = {
+  limit: number;
+  offset: number;
+};
+
+// A teacher's mark for a grade the grader was not confident of
+export type GradeReviewDecision = {
+  pointsEarned: number;
+  feedback?: string;
+};
+
 export type EvaluationResult = {
   evaluationId: EvaluationId;
   testId: TestId;
@@ -171,7 +372,48 @@ export type EvaluationResult = {
   correctCount: number;
   totalCount: number;
   topicScores: TopicScore[];
+  abilityEstimates?: TopicAbilityEstimate[]; // Adaptive tests only
+  responseGrades?: ResponseGrade[]; // in test order; absent for tests evaluated before they were stored
   evaluatedAt: Timestamp;
+  reevaluatedAt?: Timestamp; // set when a corrected answer key changed the scoring
+};
+
+// What marked a response: the answer key, numerically with a tolerance, part by part,
+// a ShortAnswer rubric grader, or a teacher reviewing that grade
+export type ResponseGraderType = 'AnswerKey' | 'Numerical' | 'PartCredit' | ShortAnswerGradingMethod | 'Teacher';
+
+/**
+ * How one response of an evaluated test was marked
+ */
+export type ResponseGrade = {
+  questionId: QuestionId;
+  userAnswer?: string; // absent when the question was not answered
+  isCorrect: boolean;
+  points: number; // marks the question carries
+  pointsEarned: number;
+  grader: ResponseGraderType;
+  feedback?: string;
+};
+
+/**
+ * A teacher's change to the marks of one response, as shown in a test's regrade history
+ */
+export type GradeOverride = {
+  overrideId: GradeOverrideId;
+  testId: TestId;
+  questionId: QuestionId;
+  points: number;
+  previousPoints: number;
+  previousGrader: ResponseGraderType;
+  pointsEarned: number;
+  reason: string;
+  overriddenBy: { userId: UserId; name?: string };
+  createdAt: Timestamp;
+};
+
+export type GradeOverrideRequest = {
+  pointsEarned: number;
+  reason: string;
 };
 
 export type TopicScore = {
@@ -182,6 +424,18 @@ export type TopicScore = {
   percentage: number;
 };
 
+// Item-response ability on a logit scale (0 = exam-realistic level)
+export type AbilityEstimate = {
+  ability: number;
+  standardError: number;
+  itemsAnswered: number;
+};
+
+export type TopicAbilityEstimate = AbilityEstimate & {
+  topicId: TopicId;
+  topicName: string;
+};
+
 export type WeakTopic = {
   topicId: TopicId;
   topicName: string;
@@ -232,6 +486,455 @@ export type TrendDataPoint = {
   testId: TestId;
 };
 
+// ============================================================================
+// Classes and Assigned Tests
+// ============================================================================
+
+export type Classroom = {
+  classId: ClassId;
+  teacherId: UserId;
+  name: string;
+  subject?: Subject;
+  curriculum?: Curriculum;
+  grade?: number;
+  joinCode: string;
+  studentCount: number;
+  createdAt: Timestamp;
+};
+
+export type ClassStudent = {
+  userId: UserId;
+  email: string;
+  name?: string;
+  joinedAt: Timestamp;
+};
+
+export type ClassInvite = {
+  inviteId: string;
+  classId: ClassId;
+  className: string;
+  email: string;
+  status: 'Pending' | 'Accepted';
+  createdAt: Timestamp;
+};
+
+export type AssignmentWindowStatus = 'Upcoming' | 'Open' | 'Closed';
+
+export type TestAssignment = {
+  assignmentId: AssignmentId;
+  classId: ClassId;
+  testId: TestId; // The teacher's source test
+  subject: Subject;
+  questionCount: number;
+  opensAt: Timestamp;
+  closesAt: Timestamp;
+  status: AssignmentWindowStatus;
+  createdAt: Timestamp;
+};
+
+/**
+ * A teacher's in-app exam that can be assigned to a class
+ */
+export type AssignableTest = {
+  testId: TestId;
+  subject: Subject;
+  questionCount: number;
+  createdAt: Timestamp;
+};
+
+export type ClassroomDetail = Classroom & {
+  students: ClassStudent[];
+  pendingInvites: ClassInvite[];
+  assignments: TestAssignment[];
+};
+
+/**
+ * An assignment as seen by a student; studentTestId is their own copy once started
+ */
+export type StudentAssignment = TestAssignment & {
+  className: string;
+  studentTestId?: TestId;
+  submitted: boolean;
+  overallScore?: number;
+};
+
+export type AssignmentResult = {
+  userId: UserId;
+  email: string;
+  name?: string;
+  status: 'NotStarted' | 'InProgress' | 'Submitted';
+  testId?: TestId;
+  evaluation?: {
+    evaluationId: EvaluationId;
+    overallScore: number;
+    correctCount: number;
+    totalCount: number;
+    evaluatedAt: Timestamp;
+    topicScores: TopicScore[];
+  };
+};
+
+// ============================================================================
+// Class Analytics
+// ============================================================================
+
+/**
+ * How a class answered one question of an assignment
+ */
+export type QuestionItemAnalysis = {
+  questionId: QuestionId;
+  order: number;
+  questionText: string;
+  questionType: QuestionType;
+  topicId: TopicId;
+  topicName: string;
+  attempts: number; // Submitted students who were given the question
+  answered: number;
+  correctCount: number;
+  percentCorrect: number;
+  mostChosenWrongOption?: { option: string; count: number };
+  averageSecondsToAnswer?: number;
+};
+
+export type TopicClassAverage = {
+  topicId: TopicId;
+  topicName: string;
+  averagePercentage: number;
+  studentCount: number;
+  weakStudentCount: number; // Students below the weak-topic threshold
+};
+
+export type AssignmentAnalytics = {
+  assignmentId: AssignmentId;
+  classId: ClassId;
+  subject: Subject;
+  studentCount: number;
+  submittedCount: number;
+  averageScore?: number;
+  items: QuestionItemAnalysis[];
+  topicAverages: TopicClassAverage[];
+};
+
+export type StudentAttention = {
+  userId: UserId;
+  email: string;
+  name?: string;
+  submittedCount: number;
+  missedCount: number; // Closed assignments never submitted
+  averageScore?: number; // Over submitted assignments
+  effectiveScore: number; // Average with missed assignments counted as 0, used for ranking
+  weakTopics: string[];
+  reasons: string[];
+};
+
+export type ClassAnalytics = {
+  classId: ClassId;
+  name: string;
+  studentCount: number;
+  assignments: Array<{
+    assignmentId: AssignmentId;
+    subject: Subject;
+    opensAt: Timestamp;
+    closesAt: Timestamp;
+    status: AssignmentWindowStatus;
+    submittedCount: number;
+    averageScore?: number;
+  }>;
+  topicAverages: TopicClassAverage[];
+  studentsNeedingAttention: StudentAttention[];
+};
+
+// ============================================================================
+// Guardian Access
+// ============================================================================
+
+export type GuardianLinkStatus = 'Pending' | 'Approved' | 'Declined' | 'Revoked';
+
+export type GuardianLink = {
+  linkId: string;
+  guardianId: UserId;
+  guardianEmail: string;
+  guardianName?: string;
+  studentEmail: string;
+  studentId?: UserId;
+  studentName?: string;
+  status: GuardianLinkStatus;
+  createdAt: Timestamp;
+  respondedAt?: Timestamp;
+};
+
+/**
+ * Read-only view of a linked student's progress for a guardian
+ */
+export type GuardianStudentOverview = {
+  student: {
+    userId: UserId;
+    email: string;
+    name?: string;
+    curriculum: Curriculum;
+    grade: number;
+  };
+  history: TestHistoryEntry[];
+  weakTopics: Array<WeakTopic & { subject: Subject; testId: TestId; identifiedAt: Timestamp }>;
+  trends: Record<Subject, PerformanceTrend[]>;
+};
+
+// ============================================================================
+// Spaced Repetition
+// ============================================================================
+
+// SM-2 schedule for a question the user answered incorrectly
+export type ReviewSchedule = {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // consecutive correct reviews
+  dueAt: Timestamp;
+};
+
+export type ReviewQueueSummary = {
+  dueCount: number;
+  scheduledCount: number;
+  nextDueAt?: Timestamp;
+};
+
+// ============================================================================
+// Question Bank Authoring
+// ============================================================================
+
+// Only Approved questions are served to new tests; LLM-generated questions start as Draft
+/**
+ * How far a Numerical answer may be from its key; without one, 0.0001 either way
+ */
+export type AnswerTolerance =
+  | { type: 'Absolute'; amount: number } // in the unit of the key
+  | { type: 'Relative'; amount: number } // share of the key: 0.01 accepts answers within 1%
+  | { type: 'SignificantFigures'; figures: number }; // answer and key agree to this many figures
+
+export type QuestionStatus = 'Draft' | 'Approved' | 'Rejected' | 'Retired';
+
+// A question as authored in the bank; editing it creates the next version
+export type BankQuestion = {
+  questionId: QuestionId;
+  topicId: TopicId;
+  questionText: string;
+  questionType: QuestionType;
+  options?: string[];
+  matchItems?: string[];
+  imageId?: ImageId;
+  optionImageIds?: Array<ImageId | null>;
+  correctAnswers: string[];
+  answerTolerance?: AnswerTolerance;
+  rubric?: RubricPoint[];
+  allowMultipleAnswers: boolean;
+  solutionSteps: string[];
+  syllabusReference: string;
+  difficulty: DifficultyLevel;
+  status: QuestionStatus;
+  alignmentScore?: number; // 0-1, from the syllabus alignment check
+  alignmentReasoning?: string;
+  reviewedAt?: Timestamp;
+  reviewNote?: string;
+  version: number;
+  previousVersionId?: QuestionId;
+  supersededAt?: Timestamp; // earlier versions stay attached to the tests that used them
+  createdAt: Timestamp;
+};
+
+export type QuestionInput = Pick<
+  BankQuestion,
+  | 'topicId'
+  | 'questionText'
+  | 'questionType'
+  | 'options'
+  | 'matchItems'
+  | 'imageId'
+  | 'optionImageIds'
+  | 'correctAnswers'
+  | 'answerTolerance'
+  | 'rubric'
+  | 'allowMultipleAnswers'
+  | 'solutionSteps'
+  | 'syllabusReference'
+  | 'difficulty'
+>;
+
+export type BankTopic = {
+  topicId: TopicId;
+  topicName: string;
+  syllabusSection: string;
+  questionCount: number; // current versions only
+};
+
+export type QuestionSearch = {
+  topicId?: TopicId;
+  search?: string;
+  limit: number;
+  offset: number;
+};
+
+export type ModerationSearch = {
+  status: QuestionStatus;
+  topicId?: TopicId;
+  limit: number;
+  offset: number;
+};
+
+export type ModerationDecision = {
+  status: Exclude<QuestionStatus, 'Draft'>;
+  note?: string;
+};
+
+// ============================================================================
+// Question Import
+// ============================================================================
+
+export type ImportFormat = 'csv' | 'moodle' | 'gift' | 'qti';
+
+// Where an imported question belongs; read from the file where the format allows it
+export type ImportCategory = {
+  curriculum?: string;
+  grade?: number;
+  subject?: string;
+  topicName?: string;
+};
+
+// A question read from an import file, before it is matched to a syllabus topic
+export type ImportedQuestion = Omit<
+  QuestionInput,
+  'topicId' | 'syllabusReference' | 'difficulty' | 'imageId' | 'optionImageIds'
+> & {
+  line: number; // where the question starts in the source file
+  category: ImportCategory;
+  syllabusReference?: string;
+  difficulty?: DifficultyLevel;
+  image?: ImportedImage;
+  optionImages?: Array<ImportedImage | null>; // in option order
+};
+
+// An image bundled in an import file, saved to image storage when the question is imported
+export type ImportedImage = {
+  name: string;
+  data: Buffer;
+};
+
+export type ImportIssue = {
+  line: number;
+  message: string;
+};
+
+export type ImportOptions = {
+  format: ImportFormat;
+  dryRun: boolean;
+  defaults: ImportCategory; // used for anything the file does not say
+};
+
+export type ImportReport = {
+  format: ImportFormat;
+  dryRun: boolean;
+  parsed: number;
+  imported: number; // would be imported, on a dry run
+  questions: Array<{ line: number; topicId: TopicId; questionText: string; questionId?: QuestionId }>;
+  issues: ImportIssue[];
+};
+
+// ============================================================================
+// Question Images
+// ============================================================================
+
+// PDFs can only embed PNG and JPEG images, so no other kind is accepted
+export type ImageContentType = 'image/png' | 'image/jpeg';
+
+export type QuestionImage = {
+  imageId: ImageId;
+  contentType: ImageContentType;
+  byteSize: number;
+  createdAt: Timestamp;
+};
+
+export type ImageData = {
+  contentType: ImageContentType;
+  data: Buffer;
+};
+
+// Image bytes by id, loaded before rendering a PDF
+export type QuestionImages = Map<ImageId, Buffer>;
+
+// ============================================================================
+// Test Export
+// ============================================================================
+
+export type ExportFormat = 'qti' | 'moodle' | 'forms';
+
+// A test question with its answer key and the syllabus topic it belongs to
+export type ExportQuestion = Omit<QuestionInput, 'topicId'> & {
+  questionId: QuestionId;
+  category: Required<ImportCategory>;
+};
+
+export type ExportableTest = {
+  testId: TestId;
+  title: string;
+  questions: ExportQuestion[];
+};
+
+export type ExportedFile = {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+};
+
+// ============================================================================
+// Question Issue Reports and Notifications
+// ============================================================================
+
+export type QuestionIssueCategory = 'WrongAnswer' | 'Ambiguous' | 'OffSyllabus' | 'Typo';
+
+export type QuestionIssueStatus = 'Open' | 'Resolved' | 'Dismissed';
+
+export type QuestionIssueReport = {
+  testId: TestId;
+  category: QuestionIssueCategory;
+  comment?: string;
+};
+
+export type QuestionIssue = {
+  issueId: IssueId;
+  questionId: QuestionId;
+  userId: UserId;
+  testId?: TestId;
+  category: QuestionIssueCategory;
+  comment?: string;
+  status: QuestionIssueStatus;
+  resolutionNote?: string;
+  resolvedAt?: Timestamp;
+  createdAt: Timestamp;
+  question?: Pick<BankQuestion, 'questionText' | 'questionType' | 'options' | 'correctAnswers' | 'version'>;
+};
+
+export type QuestionIssueSearch = {
+  status: QuestionIssueStatus;
+  limit: number;
+  offset: number;
+};
+
+// Resolving with correctAnswers fixes the answer key and re-scores every test that used the question
+export type IssueResolution = {
+  status: Exclude<QuestionIssueStatus, 'Open'>;
+  note?: string;
+  correctAnswers?: string[];
+};
+
+export type NotificationType = 'AnswerKeyCorrected' | 'IssueResolved';
+
+export type Notification = {
+  notificationId: NotificationId;
+  type: NotificationType;
+  message: string;
+  link?: string;
+  readAt?: Timestamp;
+  createdAt: Timestamp;
+};
+
 // ============================================================================
 // RAG and LLM
 // ============================================================================
@@ -248,6 +951,20 @@ export type AlignmentScore = {
   syllabusReferences: string[];
 };
 
+export type AnswerVerificationMethod = 'Arithmetic' | 'LLM';
+
+/**
+ * Outcome of independently re-solving a generated question
+ * Unverified means the check could not run (e.g. the verifier LLM call failed)
+ */
+export type AnswerVerification = {
+  questionId: QuestionId;
+  status: 'Agreed' | 'Disagreed' | 'Unverified';
+  method?: AnswerVerificationMethod;
+  verifiedAnswer?: string;
+  reason?: string;
+};
+
 // ============================================================================
 // PDF Generation
 // ============================================================================
@@ -300,12 +1017,23 @@ export type ConfigurationError =
   | { type: 'InvalidTestCount'; value: number; message: string }
   | { type: 'NoTopicsSelected'; message: string }
   | { type: 'InvalidTopics'; invalidTopics: TopicId[]; message: string }
-  | { type: 'InsufficientQuestions'; available: number; requested: number; message: string };
+  | { type: 'InsufficientQuestions'; available: number; requested: number; message: string }
+  | { type: 'InvalidBlueprint'; message: string };
 
 export type GenerationError =
   | { type: 'ConfigurationError'; details: ConfigurationError }
   | { type: 'RetrievalError'; details: RetrievalError }
-  | { type: 'GenerationFailed'; message: string };
+  | { type: 'GenerationFailed'; message: string; rejections?: QuestionRejection[] };
+
+/**
+ * A generated question that failed schema validation, reported by its position
+ * in the LLM response together with every rule it broke
+ */
+export type QuestionRejection = {
+  index: number;
+  questionText?: string;
+  issues: string[];
+};
 
 export type ConfigError =
   | { type: 'InvalidQuestionCount'; value: number }
@@ -318,6 +1046,53 @@ export type StateError =
   | { type: 'TestNotSubmitted'; testId: TestId }
   | { type: 'AnswerKeyNotAccessible'; reason: string };
 
+export type ClassroomError =
+  | { type: 'Forbidden'; message: string }
+  | { type: 'NotAMember'; classId: ClassId }
+  | { type: 'AlreadyMember'; classId: ClassId }
+  | { type: 'InvalidJoinCode'; code: string }
+  | { type: 'InvalidWindow'; message: string }
+  | { type: 'AssignmentNotOpen'; opensAt: Timestamp }
+  | { type: 'AssignmentClosed'; closesAt: Timestamp };
+
+export type GuardianError =
+  | { type: 'Forbidden'; message: string }
+  | { type: 'InvalidRequest'; message: string }
+  | { type: 'AlreadyLinked'; studentEmail: string };
+
+export type ReviewError = { type: 'NothingDue' };
+
+export type QuestionBankError =
+  | { type: 'InvalidQuestion'; message: string }
+  | { type: 'NotLatestVersion'; latestQuestionId: QuestionId }
+  | { type: 'InvalidTransition'; from: QuestionStatus; to: QuestionStatus };
+
+export type ImageError =
+  | { type: 'UnsupportedImage' }
+  | { type: 'ImageTooLarge'; maxBytes: number };
+
+export type TestExportError =
+  | { type: 'NotFound'; testId: TestId }
+  | { type: 'EmptyTest'; testId: TestId }
+  | { type: 'UnsupportedQuestionType'; format: ExportFormat; questionType: QuestionType };
+
+export type QuestionIssueError =
+  | { type: 'Forbidden'; message: string }
+  | { type: 'AlreadyReported'; issueId: IssueId }
+  | { type: 'IssueClosed'; issueId: IssueId }
+  | { type: 'InvalidCorrection'; message: string };
+
+export type GradeReviewError =
+  | { type: 'Forbidden'; message: string }
+  | { type: 'AlreadyReviewed'; gradeId: GradeId }
+  | { type: 'InvalidPoints'; message: string };
+
+export type GradeOverrideError =
+  | { type: 'Forbidden'; message: string }
+  | { type: 'NotEvaluated'; testId: TestId }
+  | { type: 'InvalidPoints'; message: string }
+  | { type: 'RescoreFailed'; reason: string };
+
 export type UpdateError = {
   type: 'UpdateFailed';
   reason: string;